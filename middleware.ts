@@ -1,12 +1,21 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
 
+import { evaluateFeatureFlag, FEATURE_FLAG_DEFAULTS, findRouteFeatureFlag } from '@/lib/feature-flags'
+import {
+  getMaintenanceState,
+  isMaintenanceExemptPath,
+  MAINTENANCE_PAGE_PATH,
+  MAINTENANCE_RETRY_AFTER_SECONDS
+} from '@/lib/maintenance'
+import { Database } from '@/types/database.types'
+
 export async function middleware(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
     request,
   })
 
-  const supabase = createServerClient(
+  const supabase = createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
@@ -31,7 +40,62 @@ export async function middleware(request: NextRequest) {
   // supabase.auth.getUser(). A simple mistake could make it very hard to debug
   // issues with users being randomly logged out.
 
-  await supabase.auth.getUser()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  // セッションのCookieを引き継いだレスポンスを返す
+  const withSessionCookies = (response: NextResponse) => {
+    supabaseResponse.cookies.getAll().forEach(cookie => response.cookies.set(cookie))
+    return response
+  }
+
+  // メンテナンス中はプラットフォーム管理者以外の画面を案内ページに、APIを 503 にする
+  // （組織の admin も対象。マイグレーション中に処理を始めるユーザーを残さない）
+  // （処理中のチェックはワーカーが完了させ、待機中のジョブはメンテナンス終了後に処理される）
+  const { pathname } = request.nextUrl
+  if (!isMaintenanceExemptPath(pathname)) {
+    const maintenance = await getMaintenanceState(supabase)
+    if (maintenance.enabled) {
+      const { data: platformAdmin } = user
+        ? await supabase.from('platform_admins').select('user_id').eq('user_id', user.id).maybeSingle()
+        : { data: null }
+
+      if (!platformAdmin) {
+        const headers = { 'Retry-After': String(MAINTENANCE_RETRY_AFTER_SECONDS) }
+        return withSessionCookies(
+          pathname.startsWith('/api/')
+            ? NextResponse.json(
+              { error: { code: 'MAINTENANCE', message: maintenance.message } },
+              { status: 503, headers }
+            )
+            : NextResponse.rewrite(new URL(MAINTENANCE_PAGE_PATH, request.url), { status: 503, headers })
+        )
+      }
+    }
+  }
+
+  // 機能フラグで提供を切り替えるAPIは、ログイン中のユーザーの組織でフラグが無効なら拒否する
+  // （セッションのないAPIキーでの呼び出しは、キーの組織について authenticateRequest が評価する）
+  const featureFlag = findRouteFeatureFlag(pathname)
+  if (featureFlag && user) {
+    const [{ data: profile }, { data: flag }] = await Promise.all([
+      supabase.from('users').select('organization_id').eq('id', user.id).maybeSingle(),
+      supabase
+        .from('feature_flags')
+        .select('key, enabled, rollout_percentage, enabled_organization_ids, disabled_organization_ids')
+        .eq('key', featureFlag)
+        .maybeSingle()
+    ])
+    const enabled = flag
+      ? evaluateFeatureFlag(flag, profile?.organization_id ?? null)
+      : FEATURE_FLAG_DEFAULTS[featureFlag]
+
+    if (!enabled) {
+      return withSessionCookies(NextResponse.json(
+        { error: { code: 'FEATURE_DISABLED', message: 'この機能は組織で有効になっていません' } },
+        { status: 403 }
+      ))
+    }
+  }
 
   // IMPORTANT: You *must* return the supabaseResponse object as it is. If you're
   // creating a new response object with NextResponse.redirect() or NextResponse.rewrite(),
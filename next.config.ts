@@ -9,7 +9,9 @@ const nextConfig: NextConfig = {
   serverExternalPackages: [
     '@supabase/node-fetch', 
     '@supabase/supabase-js',
-    '@supabase/ssr'
+    '@supabase/ssr',
+    'kuromoji',
+    '@napi-rs/canvas'
   ],
   
   // Webpack configuration
@@ -24,7 +24,7 @@ echo "━━━━━━━━━━━━━━━━━━━━━━━━
 echo "👨‍💼 管理者アカウント1："
 echo "   メール: admin@test.com"
 echo "   パスワード: password123"
-echo "   組織: テスト組織A (管理者)"
+echo "   組織: テスト組織A (管理者・プラットフォーム管理者)"
 echo ""
 echo "👨‍💼 管理者アカウント2："
 echo "   メール: manager@test.com"
@@ -0,0 +1,122 @@
+-- 永続ジョブキュー（jobs テーブルと claim_jobs / claim_fair_jobs / heartbeat_jobs / complete_job / fail_job / reap_jobs）の動作確認
+-- ローカルの Postgres（supabase start）に対して実行し、最後に ROLLBACK するためデータは残らない
+--   npm run db:verify-queue
+-- 失敗した場合は ASSERT のメッセージを表示して終了する
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+-- 既存のジョブに影響されないよう、このトランザクション内では空にしてから確認する
+DELETE FROM jobs;
+
+DO $$
+DECLARE
+    v_low BIGINT;
+    v_normal BIGINT;
+    v_high BIGINT;
+    v_claimed jobs[];
+    v_ids BIGINT[];
+    v_job jobs;
+    v_reaped RECORD;
+BEGIN
+    INSERT INTO jobs (queue, priority, payload) VALUES ('embedding', 2, '{"n": "low"}') RETURNING id INTO v_low;
+    INSERT INTO jobs (queue, priority, payload) VALUES ('embedding', 1, '{"n": "normal"}') RETURNING id INTO v_normal;
+    INSERT INTO jobs (queue, priority, payload) VALUES ('embedding', 0, '{"n": "high"}') RETURNING id INTO v_high;
+    INSERT INTO jobs (queue, priority, payload) VALUES ('check', 0, '{}');
+
+    -- 優先度順に取得し、他キューのジョブは取得しない
+    SELECT array_agg(c ORDER BY c.priority) INTO v_claimed FROM claim_jobs('embedding', 'worker-a', 2, 60) c;
+    ASSERT array_length(v_claimed, 1) = 2, 'claim_jobs should respect the limit';
+    ASSERT (v_claimed[1]).id = v_high AND (v_claimed[2]).id = v_normal, 'claim_jobs should claim by priority';
+    ASSERT (v_claimed[1]).status = 'running' AND (v_claimed[1]).attempts = 1, 'claimed job should be running with attempts = 1';
+    ASSERT (v_claimed[1]).locked_by = 'worker-a' AND (v_claimed[1]).locked_until > NOW(), 'claimed job should be leased';
+
+    -- リース中のジョブは他ワーカーから取得されない
+    SELECT array_agg(c.id) INTO v_ids FROM claim_jobs('embedding', 'worker-b', 10, 60) c;
+    ASSERT v_ids = ARRAY[v_low], 'leased jobs must not be claimed again';
+
+    -- ハートビートはリースを持つワーカーのみ延長できる
+    SELECT array_agg(h) INTO v_ids FROM heartbeat_jobs('worker-a', ARRAY[v_high, v_low], 120) h;
+    ASSERT v_ids = ARRAY[v_high], 'heartbeat should only extend leases held by the worker';
+    SELECT * INTO v_job FROM jobs WHERE id = v_high;
+    ASSERT v_job.locked_until > NOW() + INTERVAL '90 seconds', 'heartbeat should extend the lease';
+
+    -- 完了はリースを持つワーカーのみ
+    ASSERT NOT complete_job(v_high, 'worker-b'), 'complete_job must reject other workers';
+    ASSERT complete_job(v_high, 'worker-a'), 'complete_job should succeed for the lease holder';
+    SELECT * INTO v_job FROM jobs WHERE id = v_high;
+    ASSERT v_job.status = 'completed' AND v_job.locked_by IS NULL AND v_job.completed_at IS NOT NULL, 'job should be completed';
+
+    -- 再試行: 再試行時刻まで取得されず、優先度を変更できる
+    ASSERT fail_job(v_normal, 'worker-a', 'temporary error', NOW() + INTERVAL '1 hour', 0::SMALLINT), 'fail_job should requeue';
+    SELECT * INTO v_job FROM jobs WHERE id = v_normal;
+    ASSERT v_job.status = 'queued' AND v_job.priority = 0 AND v_job.last_error = 'temporary error', 'failed job should be requeued';
+    ASSERT NOT EXISTS (SELECT 1 FROM claim_jobs('embedding', 'worker-a', 10, 60)), 'jobs must not be claimed before run_at';
+
+    -- 失敗確定
+    ASSERT fail_job(v_low, 'worker-b', 'fatal error'), 'fail_job should fail permanently without retry_at';
+    SELECT * INTO v_job FROM jobs WHERE id = v_low;
+    ASSERT v_job.status = 'failed' AND v_job.completed_at IS NOT NULL, 'job should be failed';
+
+    -- リース切れ（visibility timeout）: 試行回数が残っていれば queued に戻る
+    UPDATE jobs SET run_at = NOW() WHERE id = v_normal;
+    PERFORM claim_jobs('embedding', 'worker-crashed', 1, 60);
+    UPDATE jobs SET locked_until = NOW() - INTERVAL '1 second' WHERE id = v_normal;
+    SELECT * INTO v_reaped FROM reap_jobs(120);
+    ASSERT v_reaped.expired_requeued = 1, 'reap_jobs should requeue expired leases';
+    SELECT * INTO v_job FROM jobs WHERE id = v_normal;
+    ASSERT v_job.status = 'queued' AND v_job.locked_by IS NULL AND v_job.attempts = 2, 'expired job should be queued again';
+
+    -- 試行回数の上限に達したリース切れは失敗で確定する
+    PERFORM claim_jobs('embedding', 'worker-crashed', 1, 60);
+    UPDATE jobs SET locked_until = NOW() - INTERVAL '1 second' WHERE id = v_normal;
+    SELECT * INTO v_reaped FROM reap_jobs(120);
+    ASSERT v_reaped.expired_failed = 1, 'reap_jobs should fail expired jobs at max attempts';
+    SELECT * INTO v_job FROM jobs WHERE id = v_normal;
+    ASSERT v_job.status = 'failed', 'expired job at max attempts should be failed';
+
+    RAISE NOTICE 'job queue verification passed';
+END;
+$$;
+
+-- 組織間の公平スケジューリング（claim_fair_jobs）
+DO $$
+DECLARE
+    v_policies JSONB := '{"trial": {"weight": 1, "max_concurrent": 1}, "basic": {"weight": 2, "max_concurrent": 3}}';
+    v_agency BIGINT;
+    v_inhouse BIGINT;
+    v_orgs BIGINT[];
+BEGIN
+    DELETE FROM jobs;
+    INSERT INTO organizations (name, plan) VALUES ('verify-agency', 'trial') RETURNING id INTO v_agency;
+    INSERT INTO organizations (name, plan) VALUES ('verify-inhouse', 'basic') RETURNING id INTO v_inhouse;
+
+    -- 先に大量投入した組織があっても、後から投入した組織のジョブが取得される
+    INSERT INTO jobs (queue, priority, organization_id, payload)
+    SELECT 'check', 2, v_agency, '{}' FROM generate_series(1, 10);
+    INSERT INTO jobs (queue, priority, organization_id, payload)
+    SELECT 'check', 1, v_inhouse, '{}' FROM generate_series(1, 5);
+
+    SELECT array_agg(c.organization_id ORDER BY c.id) INTO v_orgs FROM claim_fair_jobs('check', 'worker-a', 10, 60, v_policies) c;
+    ASSERT array_length(v_orgs, 1) = 4, 'claim_fair_jobs should stop at per-organization caps';
+    ASSERT (SELECT COUNT(*) FROM unnest(v_orgs) o WHERE o = v_agency) = 1, 'trial organization should be capped at 1';
+    ASSERT (SELECT COUNT(*) FROM unnest(v_orgs) o WHERE o = v_inhouse) = 3, 'basic organization should be capped at 3';
+
+    -- 上限に達している間は他ワーカーからも取得されない
+    ASSERT NOT EXISTS (SELECT 1 FROM claim_fair_jobs('check', 'worker-b', 10, 60, v_policies)), 'caps apply across workers';
+
+    -- 処理中のジョブが完了すると、その組織のジョブが再び取得される
+    PERFORM complete_job((SELECT id FROM jobs WHERE organization_id = v_agency AND status = 'running'), 'worker-a');
+    SELECT array_agg(c.organization_id) INTO v_orgs FROM claim_fair_jobs('check', 'worker-b', 10, 60, v_policies) c;
+    ASSERT v_orgs = ARRAY[v_agency], 'freed slot should be claimed by the same organization';
+
+    -- 組織別の待機数・処理中数
+    ASSERT (SELECT queued FROM job_queue_depth('check') WHERE organization_id = v_agency) = 8, 'job_queue_depth should count queued jobs';
+    ASSERT (SELECT running FROM job_queue_depth('check') WHERE organization_id = v_inhouse) = 3, 'job_queue_depth should count running jobs';
+
+    RAISE NOTICE 'fair scheduling verification passed';
+END;
+$$;
+
+ROLLBACK;
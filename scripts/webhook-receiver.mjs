@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+/**
+ * ローカル確認用の Webhook 受信サーバー
+ *
+ * 使い方:
+ *   WEBHOOK_SECRET=whsec_xxx node scripts/webhook-receiver.mjs [port]
+ *
+ * アプリを ADLEX_WEBHOOK_ALLOW_PRIVATE=true で起動して（既定では HTTP・localhost の送信先は登録できない）、
+ * 管理画面で http://localhost:<port>/webhook を登録し、表示された署名シークレットを
+ * WEBHOOK_SECRET に指定する。署名を検証し、同じイベントIDの再送は重複として扱う。
+ * 環境変数 WEBHOOK_FAIL_RATE（0〜1）を指定すると、その割合で 500 を返して再試行を確認できる。
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { createServer } from 'node:http'
+
+const port = Number(process.argv[2] ?? process.env.WEBHOOK_PORT ?? 4400)
+const secret = process.env.WEBHOOK_SECRET
+const failRate = Number(process.env.WEBHOOK_FAIL_RATE ?? 0)
+const toleranceSeconds = 300
+const seenEventIds = new Set()
+
+function verifySignature(body, header) {
+  if (!secret) return true
+  if (!header) return false
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=')))
+  const timestamp = Number(parts.t)
+  if (!Number.isFinite(timestamp) || !parts.v1) return false
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex'), 'hex')
+  const actual = Buffer.from(parts.v1, 'hex')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end()
+    return
+  }
+
+  const chunks = []
+  req.on('data', chunk => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const deliveryId = req.headers['x-adlex-delivery']
+
+    if (!verifySignature(body, req.headers['x-adlex-signature'])) {
+      console.warn(`[receiver] delivery ${deliveryId}: invalid signature`)
+      res.writeHead(401).end('invalid signature')
+      return
+    }
+
+    if (failRate > 0 && Math.random() < failRate) {
+      console.warn(`[receiver] delivery ${deliveryId}: simulated failure`)
+      res.writeHead(500).end('simulated failure')
+      return
+    }
+
+    const event = JSON.parse(body)
+    const duplicate = seenEventIds.has(event.id)
+    seenEventIds.add(event.id)
+
+    console.log(`[receiver] delivery ${deliveryId}: ${event.type} ${event.id}${duplicate ? ' (duplicate)' : ''}`)
+    console.log(JSON.stringify(event.data, null, 2))
+
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ received: true, duplicate }))
+  })
+})
+
+server.listen(port, () => {
+  console.log(`[receiver] listening on http://localhost:${port}/webhook`)
+  if (!secret) console.warn('[receiver] WEBHOOK_SECRET is not set: signatures are not verified')
+})
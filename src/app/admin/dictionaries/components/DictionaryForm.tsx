@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { PRODUCT_CATEGORY_CODES, PRODUCT_CATEGORY_LABELS, ProductCategory } from '@/constants/productCategories'
+import { getLegalBasisLabel, REGULATORY_CATEGORY_CODES, RegulatoryCategoryCode } from '@/constants/regulatory'
 
 import { Dictionary, DictionaryFormData } from '../types'
 
@@ -54,6 +56,34 @@ export function DictionaryForm({
               <option value="ALLOW">許可（使用可能）</option>
             </select>
           </div>
+          <div>
+            <Label htmlFor="regulatoryCategory">法的根拠</Label>
+            <select
+              id="regulatoryCategory"
+              className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm ring-offset-background"
+              value={formData.regulatoryCategory}
+              onChange={(e) => setFormData({ ...formData, regulatoryCategory: e.target.value as RegulatoryCategoryCode | '' })}
+            >
+              <option value="">未分類</option>
+              {REGULATORY_CATEGORY_CODES.map(code => (
+                <option key={code} value={code}>{getLegalBasisLabel(code)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="productCategory">対象の製品カテゴリ</Label>
+            <select
+              id="productCategory"
+              className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm ring-offset-background"
+              value={formData.productCategory}
+              onChange={(e) => setFormData({ ...formData, productCategory: e.target.value as ProductCategory | '' })}
+            >
+              <option value="">全カテゴリ共通</option>
+              {PRODUCT_CATEGORY_CODES.map(code => (
+                <option key={code} value={code}>{PRODUCT_CATEGORY_LABELS[code]}</option>
+              ))}
+            </select>
+          </div>
           <div>
             <Label htmlFor="notes">備考</Label>
             <Textarea
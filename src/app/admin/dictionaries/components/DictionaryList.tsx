@@ -1,5 +1,7 @@
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { PRODUCT_CATEGORY_LABELS } from '@/constants/productCategories'
+import { getLegalBasisLabel } from '@/constants/regulatory'
 
 import { DictionaryListProps } from '../types'
 
@@ -58,6 +60,16 @@ export function DictionaryList({
                   >
                     {dictionary.vector ? 'Embedding済み' : 'Embedding未済'}
                   </span>
+                  {dictionary.regulatory_category && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-purple-100 text-purple-800">
+                      {getLegalBasisLabel(dictionary.regulatory_category)}
+                    </span>
+                  )}
+                  {dictionary.product_category && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-amber-100 text-amber-800">
+                      {PRODUCT_CATEGORY_LABELS[dictionary.product_category]}のみ
+                    </span>
+                  )}
                 </div>
                 {dictionary.notes && (
                   <p className="text-sm text-muted-foreground mb-2">{dictionary.notes}</p>
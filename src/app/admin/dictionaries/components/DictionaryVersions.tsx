@@ -0,0 +1,263 @@
+import { format } from 'date-fns'
+import { ja } from 'date-fns/locale'
+import { useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { getProductCategoryLabel } from '@/constants/productCategories'
+import { getLegalBasisLabel } from '@/constants/regulatory'
+
+import { useDictionaryVersions } from '../hooks/useDictionaryVersions'
+import { DictionaryChange, DictionaryEntry, DictionaryEntryField } from '../types'
+
+interface DictionaryVersionsProps {
+  onRollback: () => void
+}
+
+const fieldLabels: Record<DictionaryEntryField, string> = {
+  phrase: '語句',
+  category: '区分',
+  notes: '備考',
+  regulatory_category: '法的根拠',
+  product_category: '製品カテゴリ'
+}
+
+const actionLabels: Record<string, { label: string; className: string }> = {
+  create: { label: '追加', className: 'border-green-300 text-green-800' },
+  update: { label: '更新', className: 'border-yellow-300 text-yellow-800' },
+  delete: { label: '削除', className: 'border-red-300 text-red-800' }
+}
+
+const sourceLabels: Record<string, string> = {
+  manual: '手動',
+  bulk_update: '一括更新',
+  import: 'インポート',
+  rollback: 'ロールバック',
+  feedback: 'フィードバック'
+}
+
+function formatDate(value: string | null): string {
+  return value ? format(new Date(value), 'yyyy/MM/dd HH:mm', { locale: ja }) : '-'
+}
+
+function fieldValue(entry: DictionaryEntry, field: DictionaryEntryField): string {
+  switch (field) {
+    case 'regulatory_category':
+      return getLegalBasisLabel(entry.regulatory_category)
+    case 'product_category':
+      return getProductCategoryLabel(entry.product_category)
+    default:
+      return entry[field] ?? '-'
+  }
+}
+
+/**
+ * 変更履歴1件の概要（語句と変更された項目）
+ */
+function describeChange(change: DictionaryChange): string {
+  const before = change.before as DictionaryEntry | null
+  const after = change.after as DictionaryEntry | null
+  const phrase = after?.phrase ?? before?.phrase ?? `#${change.dictionary_id}`
+  if (!before || !after) return phrase
+
+  const fields = (Object.keys(fieldLabels) as DictionaryEntryField[])
+    .filter(field => (before[field] ?? null) !== (after[field] ?? null))
+  return fields.length > 0
+    ? `${phrase}（${fields.map(field => `${fieldLabels[field]}: ${fieldValue(before, field)} → ${fieldValue(after, field)}`).join('、')}）`
+    : phrase
+}
+
+/**
+ * 辞書のバージョン管理（スナップショットの作成・比較・ロールバックと変更履歴）
+ */
+export function DictionaryVersions({ onRollback }: DictionaryVersionsProps) {
+  const versions = useDictionaryVersions(onRollback)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [fromId, setFromId] = useState<number | ''>('')
+  const [toId, setToId] = useState<number | ''>('')
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+    if (await versions.createSnapshot(name, description)) {
+      setName('')
+      setDescription('')
+    }
+  }
+
+  const comparison = versions.comparison
+
+  return (
+    <Card data-testid="dictionary-versions">
+      <CardHeader>
+        <CardTitle>バージョン管理</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {versions.message && (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+            <p className="text-blue-800 text-sm">{versions.message}</p>
+          </div>
+        )}
+
+        {/* スナップショット作成 */}
+        <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-2">
+          <Input
+            placeholder="スナップショット名（例: 2026年10月改訂前）"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+          />
+          <Input
+            placeholder="説明（任意）"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={500}
+          />
+          <Button type="submit" disabled={versions.busy || !name.trim()}>
+            スナップショットを作成
+          </Button>
+        </form>
+
+        {/* スナップショット一覧 */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold">スナップショット</h3>
+          {versions.loading ? (
+            <p className="text-sm text-muted-foreground">読み込み中...</p>
+          ) : versions.snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">スナップショットはまだありません</p>
+          ) : (
+            <ul className="divide-y border rounded">
+              {versions.snapshots.map(snapshot => (
+                <li key={snapshot.id} className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">#{snapshot.id} {snapshot.name}</span>
+                      {snapshot.kind === 'auto' && <Badge variant="outline" className="text-xs">自動</Badge>}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {formatDate(snapshot.created_at)} ・ {snapshot.item_count}件
+                      {snapshot.description && ` ・ ${snapshot.description}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={versions.busy}
+                      onClick={() => versions.compare(snapshot.id, null)}
+                    >
+                      現在と比較
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={versions.busy}
+                      onClick={() => versions.rollback(snapshot)}
+                    >
+                      この内容に戻す
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {versions.snapshots.length > 1 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value ? Number(e.target.value) : '')}
+                className="h-9 px-3 rounded-md border border-input bg-background"
+                aria-label="比較元"
+              >
+                <option value="">比較元を選択</option>
+                {versions.snapshots.map(snapshot => (
+                  <option key={snapshot.id} value={snapshot.id}>#{snapshot.id} {snapshot.name}</option>
+                ))}
+              </select>
+              <span>→</span>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value ? Number(e.target.value) : '')}
+                className="h-9 px-3 rounded-md border border-input bg-background"
+                aria-label="比較先"
+              >
+                <option value="">現在の辞書</option>
+                {versions.snapshots.map(snapshot => (
+                  <option key={snapshot.id} value={snapshot.id}>#{snapshot.id} {snapshot.name}</option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={versions.busy || fromId === ''}
+                onClick={() => fromId !== '' && versions.compare(fromId, toId === '' ? null : toId)}
+              >
+                比較
+              </Button>
+            </div>
+          )}
+        </section>
+
+        {/* 比較結果 */}
+        {comparison && (
+          <section className="space-y-3 border rounded p-3 text-sm" data-testid="dictionary-snapshot-diff">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">
+                #{comparison.from.id} {comparison.from.name} → {comparison.to ? `#${comparison.to.id} ${comparison.to.name}` : '現在の辞書'}
+              </h3>
+              <Button variant="ghost" size="sm" onClick={() => versions.setComparison(null)}>閉じる</Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className="border-green-300 text-green-800">追加 {comparison.diff.added.length}件</Badge>
+              <Badge variant="outline" className="border-red-300 text-red-800">削除 {comparison.diff.removed.length}件</Badge>
+              <Badge variant="outline" className="border-yellow-300 text-yellow-800">変更 {comparison.diff.changed.length}件</Badge>
+              <Badge variant="outline">変更なし {comparison.diff.unchangedCount}件</Badge>
+            </div>
+            <ul className="space-y-1">
+              {comparison.diff.added.map(entry => (
+                <li key={`added-${entry.id}`} className="text-green-800">+ {entry.phrase}（{entry.category}）</li>
+              ))}
+              {comparison.diff.removed.map(entry => (
+                <li key={`removed-${entry.id}`} className="text-red-800">- {entry.phrase}（{entry.category}）</li>
+              ))}
+              {comparison.diff.changed.map(({ before, after, fields }) => (
+                <li key={`changed-${before.id}-${after.id}`} className="text-yellow-800">
+                  ~ {before.phrase}：
+                  {fields.map(field => `${fieldLabels[field]} ${fieldValue(before, field)} → ${fieldValue(after, field)}`).join('、')}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {/* 変更履歴 */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold">変更履歴（最新50件）</h3>
+          {versions.changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">変更履歴はまだありません</p>
+          ) : (
+            <ul className="divide-y border rounded text-sm">
+              {versions.changes.map(change => (
+                <li key={change.id} className="flex flex-wrap items-center gap-2 p-2">
+                  <span className="text-muted-foreground">{formatDate(change.created_at)}</span>
+                  <Badge variant="outline" className={`text-xs ${actionLabels[change.action]?.className ?? ''}`}>
+                    {actionLabels[change.action]?.label ?? change.action}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{sourceLabels[change.source] ?? change.source}</span>
+                  <span className="break-all">{describeChange(change)}</span>
+                  {change.changed_by_user && (
+                    <span className="text-xs text-muted-foreground">{change.changed_by_user.email}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </CardContent>
+    </Card>
+  )
+}
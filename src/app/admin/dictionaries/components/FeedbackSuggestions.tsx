@@ -0,0 +1,162 @@
+import { useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { getLegalBasisLabel, REGULATORY_CATEGORY_CODES, RegulatoryCategoryCode } from '@/constants/regulatory'
+
+import { useDictionaryFeedback } from '../hooks/useDictionaryFeedback'
+import { DictionarySuggestionKind } from '../types'
+
+interface FeedbackSuggestionsProps {
+  onApplied: () => Promise<void> | void
+}
+
+const kindLabels: Record<DictionarySuggestionKind, { label: string; className: string }> = {
+  allow: { label: '許可表現の追加', className: 'border-green-300 text-green-800' },
+  ng: { label: 'NG表現の追加', className: 'border-red-300 text-red-800' }
+}
+
+/**
+ * レビューのフィードバックからの辞書提案と、辞書項目ごとの適合率の推定値
+ */
+export function FeedbackSuggestions({ onApplied }: FeedbackSuggestionsProps) {
+  const feedback = useDictionaryFeedback(onApplied)
+  // NG表現として追加する提案ごとに選択中の法的根拠
+  const [categories, setCategories] = useState<Record<string, RegulatoryCategoryCode | ''>>({})
+
+  return (
+    <div className="space-y-4" data-testid="dictionary-feedback">
+      {feedback.message && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+          <p className="text-blue-800 text-sm">{feedback.message}</p>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>辞書の提案 ({feedback.suggestions.length}件)</CardTitle>
+          <CardDescription>
+            誤検知と評価された表現は許可表現として、見逃しとして報告された表現はNG表現として辞書に反映できます
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {feedback.loading ? (
+            <p className="text-center text-muted-foreground">フィードバックを読み込み中...</p>
+          ) : feedback.suggestions.length === 0 ? (
+            <p className="text-center text-muted-foreground">未対応の提案はありません</p>
+          ) : (
+            <div className="space-y-3">
+              {feedback.suggestions.map(suggestion => {
+                const key = `${suggestion.kind}:${suggestion.phrase}`
+                return (
+                  <div key={key} className="border rounded p-4" data-testid="dictionary-suggestion">
+                    <div className="flex justify-between items-start gap-3">
+                      <div className="flex-1 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{suggestion.phrase}</span>
+                          <Badge variant="outline" className={`text-xs ${kindLabels[suggestion.kind].className}`}>
+                            {kindLabels[suggestion.kind].label}
+                          </Badge>
+                          {suggestion.existingDictionaryId !== null && (
+                            <Badge variant="outline" className="text-xs border-amber-300 text-amber-800">
+                              既存の項目の区分を変更
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          報告 {suggestion.feedbackIds.length}件 ・ チェック {suggestion.checkIds.length}件
+                          {suggestion.lastReportedAt && ` ・ 最終報告: ${new Date(suggestion.lastReportedAt).toLocaleDateString('ja-JP')}`}
+                        </p>
+                        {suggestion.comments.map((comment, index) => (
+                          <p key={index} className="text-sm text-muted-foreground">「{comment}」</p>
+                        ))}
+                        {suggestion.kind === 'ng' && suggestion.existingDictionaryId === null && (
+                          <select
+                            aria-label="法的根拠"
+                            className="h-9 px-3 rounded-md border border-input bg-background text-sm"
+                            value={categories[key] ?? ''}
+                            onChange={(e) => setCategories(prev => ({
+                              ...prev,
+                              [key]: e.target.value as RegulatoryCategoryCode | ''
+                            }))}
+                          >
+                            <option value="">法的根拠: 未分類</option>
+                            {REGULATORY_CATEGORY_CODES.map(code => (
+                              <option key={code} value={code}>{getLegalBasisLabel(code)}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          disabled={feedback.busyKey === key}
+                          onClick={() => feedback.resolveSuggestion(suggestion, 'apply', categories[key] || null)}
+                        >
+                          反映
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={feedback.busyKey === key}
+                          onClick={() => feedback.resolveSuggestion(suggestion, 'dismiss')}
+                        >
+                          見送り
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>辞書項目ごとの適合率</CardTitle>
+          <CardDescription>
+            評価された違反のうち正しく検出された割合の推定値です（理由違いは検出としては正しいものとして数えます）
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {feedback.precision.length === 0 ? (
+            <p className="text-center text-muted-foreground">評価された辞書項目はありません</p>
+          ) : (
+            <table className="w-full text-sm" data-testid="dictionary-precision">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2">語句</th>
+                  <th className="py-2">辞書</th>
+                  <th className="py-2 text-right">正しい</th>
+                  <th className="py-2 text-right">理由違い</th>
+                  <th className="py-2 text-right">誤検知</th>
+                  <th className="py-2 text-right">適合率</th>
+                </tr>
+              </thead>
+              <tbody>
+                {feedback.precision.map(entry => (
+                  <tr
+                    key={entry.dictionaryId !== null ? `org-${entry.dictionaryId}` : `global-${entry.globalDictionaryId}`}
+                    className="border-b last:border-0"
+                  >
+                    <td className="py-2">{entry.phrase ?? '（削除された項目）'}</td>
+                    <td className="py-2">{entry.globalDictionaryId !== null ? '共通辞書' : '組織辞書'}</td>
+                    <td className="py-2 text-right">{entry.correctCount}</td>
+                    <td className="py-2 text-right">{entry.wrongReasonCount}</td>
+                    <td className="py-2 text-right">{entry.falsePositiveCount}</td>
+                    <td className="py-2 text-right">
+                      {entry.precisionRate !== null ? `${entry.precisionRate}%` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
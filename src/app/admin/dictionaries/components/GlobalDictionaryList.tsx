@@ -0,0 +1,145 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { PRODUCT_CATEGORY_LABELS } from '@/constants/productCategories'
+import { getLegalBasisLabel } from '@/constants/regulatory'
+
+import { useGlobalDictionary } from '../hooks/useGlobalDictionary'
+import { InheritedDictionaryStatus } from '../types'
+
+interface GlobalDictionaryListProps {
+  isAdmin: boolean
+  searchTerm: string
+}
+
+const statusLabels: Record<InheritedDictionaryStatus, { label: string; className: string }> = {
+  inherited: { label: '継承', className: 'border-blue-300 text-blue-800' },
+  allowed: { label: '許可に変更', className: 'border-green-300 text-green-800' },
+  disabled: { label: '無効', className: 'border-gray-300 text-gray-600' },
+  shadowed: { label: '組織辞書を優先', className: 'border-amber-300 text-amber-800' }
+}
+
+/**
+ * 共通辞書（プラットフォーム管理の辞書）の一覧と組織ごとの上書き（無効化・許可）
+ */
+export function GlobalDictionaryList({ isAdmin, searchTerm }: GlobalDictionaryListProps) {
+  const globalDictionary = useGlobalDictionary()
+
+  const term = searchTerm.trim()
+  const entries = term
+    ? globalDictionary.entries.filter(entry => entry.phrase.includes(term) || entry.notes?.includes(term))
+    : globalDictionary.entries
+
+  return (
+    <div className="space-y-2" data-testid="global-dictionary-list">
+      {globalDictionary.message && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+          <p className="text-blue-800 text-sm">{globalDictionary.message}</p>
+        </div>
+      )}
+
+      {globalDictionary.counts && (
+        <div className="flex flex-wrap gap-2 text-sm">
+          {(Object.keys(statusLabels) as InheritedDictionaryStatus[]).map(status => (
+            <Badge key={status} variant="outline" className={statusLabels[status].className}>
+              {statusLabels[status].label} {globalDictionary.counts?.[status] ?? 0}件
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {globalDictionary.loading ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">共通辞書を読み込み中...</CardContent>
+        </Card>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">共通辞書の項目がありません</CardContent>
+        </Card>
+      ) : (
+        entries.map(entry => (
+          <Card key={entry.id} data-testid="global-dictionary-item">
+            <CardContent className="pt-6">
+              <div className="flex justify-between items-start gap-3">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className={`font-medium ${entry.status === 'disabled' ? 'line-through text-muted-foreground' : ''}`}>
+                      {entry.phrase}
+                    </span>
+                    <span
+                      className={`px-2 py-1 text-xs rounded-full ${
+                        entry.effective_category === 'NG'
+                          ? 'bg-red-100 text-red-800'
+                          : 'bg-green-100 text-green-800'
+                      }`}
+                    >
+                      {entry.effective_category}
+                    </span>
+                    <Badge variant="outline" className={`text-xs ${statusLabels[entry.status].className}`}>
+                      {statusLabels[entry.status].label}
+                    </Badge>
+                    {entry.regulatory_category && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-purple-100 text-purple-800">
+                        {getLegalBasisLabel(entry.regulatory_category)}
+                      </span>
+                    )}
+                    {entry.product_category && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-amber-100 text-amber-800">
+                        {PRODUCT_CATEGORY_LABELS[entry.product_category]}のみ
+                      </span>
+                    )}
+                  </div>
+                  {entry.notes && (
+                    <p className="text-sm text-muted-foreground mb-2">{entry.notes}</p>
+                  )}
+                  {entry.override_notes && (
+                    <p className="text-sm text-muted-foreground mb-2">組織の備考: {entry.override_notes}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    版: v{entry.version}
+                    {entry.updated_at && ` ・ 更新日: ${new Date(entry.updated_at).toLocaleDateString('ja-JP')}`}
+                  </p>
+                </div>
+                {isAdmin && entry.status !== 'shadowed' && (
+                  <div className="flex gap-2" data-testid="global-dictionary-actions">
+                    {entry.status === 'inherited' ? (
+                      <>
+                        {entry.category === 'NG' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={globalDictionary.busyId === entry.id}
+                            onClick={() => globalDictionary.setOverride(entry, 'allow')}
+                          >
+                            許可にする
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={globalDictionary.busyId === entry.id}
+                          onClick={() => globalDictionary.setOverride(entry, 'disable')}
+                        >
+                          無効にする
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={globalDictionary.busyId === entry.id}
+                        onClick={() => globalDictionary.removeOverride(entry)}
+                      >
+                        継承に戻す
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
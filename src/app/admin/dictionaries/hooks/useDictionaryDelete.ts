@@ -1,6 +1,7 @@
 import { useState } from 'react'
 
-import { createClient } from '@/infra/supabase/clientClient'
+import { authFetch } from '@/lib/api-client'
+import { ErrorFactory } from '@/lib/errors'
 
 /**
  * 辞書項目削除用のカスタムフック
@@ -24,14 +25,15 @@ export function useDictionaryDelete(
     if (!showDeleteDialog) return
 
     try {
-      const supabase = createClient()
-      const { error } = await supabase
-        .from('dictionaries')
-        .delete()
-        .eq('id', showDeleteDialog)
-
-      if (error) throw error
-      
+      // 変更履歴を残すため API 経由で削除する
+      const response = await authFetch(`/api/dictionaries/${showDeleteDialog}`, {
+        method: 'DELETE'
+      })
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw ErrorFactory.createApiError(response.status, result?.error ?? '辞書項目の削除に失敗しました')
+      }
+
       showMessage('辞書から削除しました')
       setShowDeleteDialog(null)
       onSuccess()
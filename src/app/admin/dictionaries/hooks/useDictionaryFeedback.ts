@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react'
+
+import { RegulatoryCategoryCode } from '@/constants/regulatory'
+import { authFetch } from '@/lib/api-client'
+import { ErrorFactory } from '@/lib/errors'
+
+import { DictionaryEntryPrecision, DictionarySuggestion } from '../types'
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const result = await response.json().catch(() => null)
+  return result?.error ?? fallback
+}
+
+/**
+ * レビューのフィードバック（辞書提案・適合率の推定値）用のカスタムフック
+ */
+export function useDictionaryFeedback(onApplied: () => Promise<void> | void) {
+  const [suggestions, setSuggestions] = useState<DictionarySuggestion[]>([])
+  const [precision, setPrecision] = useState<DictionaryEntryPrecision[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [message, setMessage] = useState('')
+
+  const showMessage = (text: string, duration = 5000) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), duration)
+  }
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await authFetch('/api/dictionaries/feedback')
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, 'フィードバックの取得に失敗しました'))
+      }
+      const data = await response.json()
+      setSuggestions(data.suggestions ?? [])
+      setPrecision(data.precision ?? [])
+    } catch (error) {
+      console.error('フィードバックの取得に失敗しました:', error)
+      showMessage(error instanceof Error ? error.message : 'フィードバックの取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const resolveSuggestion = async (
+    suggestion: DictionarySuggestion,
+    action: 'apply' | 'dismiss',
+    regulatoryCategory?: RegulatoryCategoryCode | null
+  ) => {
+    setBusyKey(`${suggestion.kind}:${suggestion.phrase}`)
+    try {
+      const response = await authFetch('/api/dictionaries/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: suggestion.kind,
+          phrase: suggestion.phrase,
+          action,
+          regulatoryCategory: regulatoryCategory ?? null
+        })
+      })
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, '辞書提案の処理に失敗しました'))
+      }
+      showMessage((await response.json()).message)
+      await refresh()
+      if (action === 'apply') await onApplied()
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : '辞書提案の処理に失敗しました')
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  return {
+    suggestions,
+    precision,
+    loading,
+    busyKey,
+    message,
+    refresh,
+    resolveSuggestion,
+  }
+}
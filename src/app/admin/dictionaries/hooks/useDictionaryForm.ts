@@ -18,7 +18,9 @@ export function useDictionaryForm(
   const [formData, setFormData] = useState<DictionaryFormData>({
     phrase: '',
     category: 'NG',
-    notes: ''
+    notes: '',
+    regulatoryCategory: '',
+    productCategory: ''
   })
   const [message, setMessage] = useState('')
 
@@ -28,7 +30,7 @@ export function useDictionaryForm(
   }
 
   const resetForm = () => {
-    setFormData({ phrase: '', category: 'NG', notes: '' })
+    setFormData({ phrase: '', category: 'NG', notes: '', regulatoryCategory: '', productCategory: '' })
   }
 
   const startEdit = (dictionary: Dictionary) => {
@@ -36,7 +38,9 @@ export function useDictionaryForm(
     setFormData({
       phrase: dictionary.phrase,
       category: dictionary.category,
-      notes: dictionary.notes ?? ''
+      notes: dictionary.notes ?? '',
+      regulatoryCategory: dictionary.regulatory_category ?? '',
+      productCategory: dictionary.product_category ?? ''
     })
     setShowAddForm(false)
   }
@@ -60,7 +64,9 @@ export function useDictionaryForm(
         body: JSON.stringify({
           phrase: formData.phrase.trim(),
           category: formData.category,
-          notes: formData.notes.trim() || null
+          notes: formData.notes.trim() || null,
+          regulatoryCategory: formData.regulatoryCategory || null,
+          productCategory: formData.productCategory || null
         })
       })
 
@@ -97,7 +103,9 @@ export function useDictionaryForm(
         body: JSON.stringify({
           phrase: formData.phrase.trim(),
           category: formData.category,
-          notes: formData.notes.trim() || null
+          notes: formData.notes.trim() || null,
+          regulatoryCategory: formData.regulatoryCategory || null,
+          productCategory: formData.productCategory || null
         })
       })
 
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useState } from 'react'
+
+import { authFetch } from '@/lib/api-client'
+import { ErrorFactory } from '@/lib/errors'
+
+import { DictionaryChange, DictionaryDiff, DictionarySnapshot } from '../types'
+
+/**
+ * スナップショットとの比較結果（to が null の場合は現在の辞書と比較）
+ */
+export interface SnapshotComparison {
+  from: DictionarySnapshot
+  to: DictionarySnapshot | null
+  diff: DictionaryDiff
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const result = await response.json().catch(() => null)
+  return result?.error ?? fallback
+}
+
+/**
+ * 辞書のバージョン管理（スナップショット・変更履歴・ロールバック）用のカスタムフック
+ */
+export function useDictionaryVersions(onRollback: () => void) {
+  const [snapshots, setSnapshots] = useState<DictionarySnapshot[]>([])
+  const [changes, setChanges] = useState<DictionaryChange[]>([])
+  const [comparison, setComparison] = useState<SnapshotComparison | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const showMessage = (text: string, duration = 5000) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), duration)
+  }
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [snapshotsRes, changesRes] = await Promise.all([
+        authFetch('/api/dictionaries/snapshots?limit=50'),
+        authFetch('/api/dictionaries/history?limit=50')
+      ])
+      if (!snapshotsRes.ok) {
+        throw ErrorFactory.createApiError(snapshotsRes.status, await readError(snapshotsRes, 'スナップショットの取得に失敗しました'))
+      }
+      if (!changesRes.ok) {
+        throw ErrorFactory.createApiError(changesRes.status, await readError(changesRes, '変更履歴の取得に失敗しました'))
+      }
+      setSnapshots((await snapshotsRes.json()).snapshots ?? [])
+      setChanges((await changesRes.json()).changes ?? [])
+    } catch (error) {
+      console.error('辞書のバージョン情報の取得に失敗しました:', error)
+      showMessage(error instanceof Error ? error.message : 'バージョン情報の取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const createSnapshot = async (name: string, description: string) => {
+    setBusy(true)
+    try {
+      const response = await authFetch('/api/dictionaries/snapshots', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), description: description.trim() || null })
+      })
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, 'スナップショットの作成に失敗しました'))
+      }
+      showMessage((await response.json()).message)
+      await refresh()
+      return true
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'スナップショットの作成に失敗しました')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const compare = async (fromId: number, toId: number | null) => {
+    setBusy(true)
+    try {
+      const query = new URLSearchParams({ from: String(fromId) })
+      if (toId !== null) query.set('to', String(toId))
+      const response = await authFetch(`/api/dictionaries/snapshots/compare?${query}`)
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, 'スナップショットの比較に失敗しました'))
+      }
+      setComparison(await response.json())
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'スナップショットの比較に失敗しました')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const rollback = async (snapshot: DictionarySnapshot) => {
+    if (!confirm(`辞書をスナップショット「${snapshot.name}」の内容に戻しますか？現在の辞書は自動スナップショットとして保存されます。`)) {
+      return
+    }
+
+    setBusy(true)
+    try {
+      const response = await authFetch(`/api/dictionaries/snapshots/${snapshot.id}/rollback`, { method: 'POST' })
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, 'ロールバックに失敗しました'))
+      }
+      showMessage((await response.json()).message)
+      setComparison(null)
+      await refresh()
+      onRollback()
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'ロールバックに失敗しました')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return {
+    snapshots,
+    changes,
+    comparison,
+    setComparison,
+    loading,
+    busy,
+    message,
+    refresh,
+    createSnapshot,
+    compare,
+    rollback,
+  }
+}
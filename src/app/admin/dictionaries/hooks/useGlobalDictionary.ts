@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react'
+
+import { authFetch } from '@/lib/api-client'
+import { ErrorFactory } from '@/lib/errors'
+
+import { GlobalDictionaryCounts, GlobalDictionaryEntry } from '../types'
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const result = await response.json().catch(() => null)
+  return result?.error ?? fallback
+}
+
+/**
+ * 共通辞書（継承した項目と組織の上書き）用のカスタムフック
+ */
+export function useGlobalDictionary() {
+  const [entries, setEntries] = useState<GlobalDictionaryEntry[]>([])
+  const [counts, setCounts] = useState<GlobalDictionaryCounts | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<number | null>(null)
+  const [message, setMessage] = useState('')
+
+  const showMessage = (text: string, duration = 5000) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), duration)
+  }
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await authFetch('/api/dictionaries/global')
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, '共通辞書の取得に失敗しました'))
+      }
+      const data = await response.json()
+      setEntries(data.entries ?? [])
+      setCounts(data.counts ?? null)
+    } catch (error) {
+      console.error('共通辞書の取得に失敗しました:', error)
+      showMessage(error instanceof Error ? error.message : '共通辞書の取得に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const setOverride = async (entry: GlobalDictionaryEntry, action: 'disable' | 'allow') => {
+    setBusyId(entry.id)
+    try {
+      const response = await authFetch(`/api/dictionaries/global/${entry.id}/override`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, '共通辞書の上書きに失敗しました'))
+      }
+      showMessage((await response.json()).message)
+      await refresh()
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : '共通辞書の上書きに失敗しました')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const removeOverride = async (entry: GlobalDictionaryEntry) => {
+    setBusyId(entry.id)
+    try {
+      const response = await authFetch(`/api/dictionaries/global/${entry.id}/override`, { method: 'DELETE' })
+      if (!response.ok) {
+        throw ErrorFactory.createApiError(response.status, await readError(response, '上書きの解除に失敗しました'))
+      }
+      showMessage((await response.json()).message)
+      await refresh()
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : '上書きの解除に失敗しました')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return {
+    entries,
+    counts,
+    loading,
+    busyId,
+    message,
+    refresh,
+    setOverride,
+    removeOverride,
+  }
+}
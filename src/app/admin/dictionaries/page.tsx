@@ -18,6 +18,9 @@ import { DictionaryFilters } from './components/DictionaryFilters'
 import { DictionaryForm } from './components/DictionaryForm'
 import { DictionaryList } from './components/DictionaryList'
 import { EmbeddingStatsCard, DictionaryStatsCard } from './components/DictionaryStats'
+import { DictionaryVersions } from './components/DictionaryVersions'
+import { FeedbackSuggestions } from './components/FeedbackSuggestions'
+import { GlobalDictionaryList } from './components/GlobalDictionaryList'
 import { StatusMessages } from './components/StatusMessages'
 import { useBulkOperations } from './hooks/useBulkOperations'
 import { useDictionaries } from './hooks/useDictionaries'
@@ -124,7 +127,7 @@ export default function DictionariesPage() {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold">辞書管理</h1>
-          <p className="text-muted-foreground">組織の薬機法チェック辞書を管理します</p>
+          <p className="text-muted-foreground">組織の薬機法チェック辞書と、継承する共通辞書を管理します</p>
         </div>
         <ActionButtons
           isAdmin={isAdmin}
@@ -156,6 +159,11 @@ export default function DictionariesPage() {
         <DictionaryStatsCard stats={dictionaryStats} />
       )}
 
+      {/* バージョン管理（スナップショット・変更履歴） */}
+      {isAdmin && (
+        <DictionaryVersions onRollback={refreshData} />
+      )}
+
       {/* 検索・フィルター */}
       <DictionaryFilters
         searchTerm={searchTerm}
@@ -178,17 +186,19 @@ export default function DictionariesPage() {
             dictionaryForm.cancelEdit()
           } else {
             dictionaryForm.setShowAddForm(false)
-            dictionaryForm.setFormData({ phrase: '', category: 'NG', notes: '' })
+            dictionaryForm.setFormData({ phrase: '', category: 'NG', notes: '', regulatoryCategory: '', productCategory: '' })
           }
         }}
       />
 
       {/* 辞書一覧 */}
       <Tabs defaultValue="all" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
-          <TabsTrigger value="all">すべて ({filteredDictionaries.length})</TabsTrigger>
+        <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-5' : 'grid-cols-4'}`}>
+          <TabsTrigger value="all">組織辞書 ({filteredDictionaries.length})</TabsTrigger>
           <TabsTrigger value="ng">NG ({ngDictionaries.length})</TabsTrigger>
           <TabsTrigger value="allow">許可 ({allowDictionaries.length})</TabsTrigger>
+          <TabsTrigger value="global">共通辞書（継承）</TabsTrigger>
+          {isAdmin && <TabsTrigger value="feedback">レビューの提案</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="all">
@@ -235,6 +245,16 @@ export default function DictionariesPage() {
             onDelete={dictionaryDelete.handleDeleteRequest}
           />
         </TabsContent>
+
+        <TabsContent value="global">
+          <GlobalDictionaryList isAdmin={isAdmin} searchTerm={searchTerm} />
+        </TabsContent>
+
+        {isAdmin && (
+          <TabsContent value="feedback">
+            <FeedbackSuggestions onApplied={refreshData} />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* 確認ダイアログ群 */}
@@ -1,3 +1,5 @@
+import type { InheritedDictionaryStatus } from '@/lib/global-dictionary'
+import { ProductCategory, RegulatoryCategoryCode } from '@/types/api'
 import { Database } from '@/types/database.types'
 
 export type Dictionary = Database['public']['Tables']['dictionaries']['Row']
@@ -29,6 +31,8 @@ export interface DictionaryFormData {
   phrase: string
   category: 'NG' | 'ALLOW'
   notes: string
+  regulatoryCategory: RegulatoryCategoryCode | ''
+  productCategory: ProductCategory | ''
 }
 
 export type SortOption =
@@ -54,4 +58,37 @@ export interface DictionaryListProps {
   onToggleSelect: (id: number) => void
   onEdit: (dictionary: Dictionary) => void
   onDelete: (id: number) => void
-}
\ No newline at end of file
+}
+
+/** 辞書スナップショット（辞書項目を除いた概要） */
+export type DictionarySnapshot = Omit<Database['public']['Tables']['dictionary_snapshots']['Row'], 'items'>
+/** 辞書の変更履歴（変更者のメールアドレス付き） */
+export type DictionaryChange = Database['public']['Tables']['dictionary_changes']['Row'] & {
+  changed_by_user: { email: string } | null
+}
+/** 変更履歴・スナップショットに保存される辞書項目 */
+export type DictionaryEntry = Pick<Dictionary, 'id' | 'phrase' | 'category' | 'notes' | 'regulatory_category' | 'product_category'>
+export type { DictionaryDiff, DictionaryEntryField } from '@/lib/dictionary-versions'
+
+/** 組織から見た共通辞書項目（継承の状態・組織に適用される区分・上書きの備考付き） */
+export type GlobalDictionaryEntry = Omit<Database['public']['Tables']['global_dictionaries']['Row'], 'vector'> & {
+  status: InheritedDictionaryStatus
+  effective_category: 'NG' | 'ALLOW'
+  override_notes: string | null
+}
+export type GlobalDictionaryCounts = Record<InheritedDictionaryStatus, number>
+export type { InheritedDictionaryStatus } from '@/lib/global-dictionary'
+
+/** レビューのフィードバックからの辞書提案 */
+export type { DictionarySuggestion, DictionarySuggestionKind } from '@/lib/violation-feedback'
+/** 辞書項目ごとの評価件数と適合率の推定値 */
+export interface DictionaryEntryPrecision {
+  dictionaryId: number | null
+  globalDictionaryId: number | null
+  phrase: string | null
+  correctCount: number
+  wrongReasonCount: number
+  falsePositiveCount: number
+  precisionRate: number | null
+  lastFeedbackAt: string | null
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { Settings, Users, HelpCircle, BarChart3, Book } from 'lucide-react'
+import { Settings, Users, HelpCircle, BarChart3, Book, Webhook } from 'lucide-react'
 import Link from 'next/link'
 import { useEffect, useState } from 'react'
 
@@ -80,6 +80,12 @@ export default function AdminDashboard() {
               システム設定
             </Button>
           </Link>
+          <Link href="/admin/webhooks">
+            <Button variant="outline" size="sm">
+              <Webhook className="h-4 w-4 mr-2" />
+              Webhook
+            </Button>
+          </Link>
           <Link href="/admin/analytics">
             <Button variant="outline" size="sm">
               <BarChart3 className="h-4 w-4 mr-2" />
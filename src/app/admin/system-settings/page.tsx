@@ -4,15 +4,16 @@ import {
   Settings, 
   Flag, 
   Bell, 
-  Key,
   AlertTriangle,
   Save,
   RefreshCw,
   Database,
+  History,
   Zap
 } from 'lucide-react'
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 
+import { ApiKeySettings } from '@/components/admin/ApiKeySettings'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -22,14 +23,27 @@ import { Switch } from '@/components/ui/switch'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/hooks/use-toast'
+import { authFetch } from '@/lib/api-client'
 
 interface FeatureFlag {
-  id: string
+  key: string
   name: string
-  description: string
-  enabled: boolean
+  description: string | null
   category: 'experimental' | 'beta' | 'stable'
-  lastModified: string
+  enabled: boolean
+  /** 有効にする組織の割合（%） */
+  rolloutPercentage: number
+  /** 展開率に関わらず常に有効 / 無効にする組織 */
+  enabledOrganizationIds: number[]
+  disabledOrganizationIds: number[]
+  updatedAt: string | null
+}
+
+/** 機能フラグの展開率・組織指定の編集中の値 */
+interface FeatureFlagDraft {
+  rolloutPercentage: string
+  enabledOrganizationIds: string
+  disabledOrganizationIds: string
 }
 
 interface SystemConfig {
@@ -54,122 +68,202 @@ interface NotificationSettings {
   securityAlerts: boolean
 }
 
+interface SettingsAuditLog {
+  id: number
+  targetType: 'system_setting' | 'feature_flag'
+  targetKey: string
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  changedByEmail: string | null
+  createdAt: string | null
+}
+
+interface SystemSettingsResponse {
+  system: SystemConfig
+  notifications: NotificationSettings
+  featureFlags: FeatureFlag[]
+  auditLogs: SettingsAuditLog[]
+  isPlatformAdmin: boolean
+}
+
+const settingLabels: Record<string, string> = {
+  system: '一般・メンテナンス設定',
+  notifications: '通知設定'
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const result = await response.json().catch(() => null)
+  return typeof result?.error === 'string' ? result.error : result?.error?.message ?? fallback
+}
+
+function toDraft(flag: FeatureFlag): FeatureFlagDraft {
+  return {
+    rolloutPercentage: String(flag.rolloutPercentage),
+    enabledOrganizationIds: flag.enabledOrganizationIds.join(', '),
+    disabledOrganizationIds: flag.disabledOrganizationIds.join(', ')
+  }
+}
+
+function parseOrganizationIds(value: string): number[] {
+  return value.split(',').map(s => s.trim()).filter(Boolean).map(Number)
+}
+
+/**
+ * 変更履歴の変更前後で値が変わった項目
+ */
+function changedFields(log: SettingsAuditLog): string[] {
+  const keys = new Set([...Object.keys(log.before ?? {}), ...Object.keys(log.after ?? {})])
+  return [...keys].filter(key => JSON.stringify(log.before?.[key]) !== JSON.stringify(log.after?.[key]))
+}
+
 export default function SystemSettingsPage() {
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
+  const [fetching, setFetching] = useState(true)
+  const [fetchError, setFetchError] = useState<string | null>(null)
+  const [updatingFlagKey, setUpdatingFlagKey] = useState<string | null>(null)
 
   // 機能フラグ
-  const [featureFlags, setFeatureFlags] = useState<FeatureFlag[]>([
-    {
-      id: '1',
-      name: 'AI自動学習',
-      description: 'チェック結果から自動的に辞書を改善する機能',
-      enabled: false,
-      category: 'experimental',
-      lastModified: '2024-01-20'
-    },
-    {
-      id: '2',
-      name: 'バッチ処理API',
-      description: '複数テキストの一括チェックAPI',
-      enabled: true,
-      category: 'beta',
-      lastModified: '2024-01-18'
-    },
-    {
-      id: '3',
-      name: '多言語対応',
-      description: '英語・中国語での薬機法チェック',
-      enabled: false,
-      category: 'experimental',
-      lastModified: '2024-01-15'
-    },
-    {
-      id: '4',
-      name: 'リアルタイムコラボレーション',
-      description: '複数ユーザーでの同時編集機能',
-      enabled: false,
-      category: 'experimental',
-      lastModified: '2024-01-10'
-    },
-    {
-      id: '5',
-      name: 'カスタムレポート',
-      description: 'ユーザー定義のレポート生成機能',
-      enabled: true,
-      category: 'stable',
-      lastModified: '2024-01-05'
-    }
-  ])
+  const [featureFlags, setFeatureFlags] = useState<FeatureFlag[]>([])
+  const [flagDrafts, setFlagDrafts] = useState<Record<string, FeatureFlagDraft>>({})
 
   // システム設定
-  const [systemConfig, setSystemConfig] = useState<SystemConfig>({
-    maintenanceMode: false,
-    maintenanceMessage: 'システムメンテナンス中です。しばらくお待ちください。',
-    debugMode: false,
-    rateLimitEnabled: true,
-    rateLimitRequests: 100,
-    rateLimitWindow: 60,
-    cacheEnabled: true,
-    cacheTTL: 3600,
-    maxUploadSize: 10,
-    allowedFileTypes: ['jpg', 'jpeg', 'png', 'webp', 'pdf']
-  })
+  const [systemConfig, setSystemConfig] = useState<SystemConfig | null>(null)
 
   // 通知設定
-  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>({
-    emailNotifications: true,
-    slackIntegration: false,
-    slackWebhookUrl: '',
-    errorAlerts: true,
-    performanceAlerts: true,
-    securityAlerts: true
-  })
-
-  // API設定
-  const [apiKeys] = useState([
-    {
-      id: '1',
-      name: 'Production API Key',
-      key: 'sk-prod-xxxx...xxxx',
-      created: '2024-01-01',
-      lastUsed: '2024-01-20',
-      status: 'active'
-    },
-    {
-      id: '2',
-      name: 'Development API Key',
-      key: 'sk-dev-yyyy...yyyy',
-      created: '2024-01-10',
-      lastUsed: '2024-01-19',
-      status: 'active'
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings | null>(null)
+
+  // 変更履歴
+  const [auditLogs, setAuditLogs] = useState<SettingsAuditLog[]>([])
+
+  // 組織の admin は自組織の機能フラグの指定のみ変更できる
+  const [isPlatformAdmin, setIsPlatformAdmin] = useState(false)
+
+  const fetchSettings = useCallback(async (): Promise<SystemSettingsResponse> => {
+    const res = await authFetch('/api/admin/system-settings')
+    if (!res.ok) {
+      throw new Error(await readError(res, 'システム設定の取得に失敗しました'))
+    }
+    return res.json()
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    fetchSettings()
+      .then(data => {
+        if (cancelled) return
+        setSystemConfig(data.system)
+        setNotificationSettings(data.notifications)
+        setFeatureFlags(data.featureFlags)
+        setFlagDrafts(Object.fromEntries(data.featureFlags.map(flag => [flag.key, toDraft(flag)])))
+        setAuditLogs(data.auditLogs)
+        setIsPlatformAdmin(data.isPlatformAdmin)
+      })
+      .catch(err => {
+        if (!cancelled) setFetchError(err instanceof Error ? err.message : 'エラーが発生しました')
+      })
+      .finally(() => {
+        if (!cancelled) setFetching(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [fetchSettings])
+
+  // 変更履歴だけを再取得する（編集中の設定は保持する）
+  const refreshAuditLogs = async () => {
+    try {
+      const data = await fetchSettings()
+      setAuditLogs(data.auditLogs)
+    } catch (error) {
+      console.error('Audit log refresh error:', error)
     }
-  ])
-
-  const toggleFeatureFlag = (id: string) => {
-    setFeatureFlags(prev => prev.map(flag => 
-      flag.id === id 
-        ? { ...flag, enabled: !flag.enabled, lastModified: new Date().toISOString().split('T')[0] }
-        : flag
-    ))
   }
 
-  const saveSystemConfig = async () => {
+  const updateFeatureFlag = async (
+    key: string,
+    changes: Partial<Pick<FeatureFlag, 'enabled' | 'rolloutPercentage' | 'enabledOrganizationIds' | 'disabledOrganizationIds'>>
+  ) => {
+    setUpdatingFlagKey(key)
+    try {
+      const res = await authFetch(`/api/admin/feature-flags/${key}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      if (!res.ok) {
+        throw new Error(await readError(res, '機能フラグの更新に失敗しました'))
+      }
+      const { featureFlag }: { featureFlag: FeatureFlag } = await res.json()
+      setFeatureFlags(prev => prev.map(flag => flag.key === key ? featureFlag : flag))
+      setFlagDrafts(prev => ({ ...prev, [key]: toDraft(featureFlag) }))
+      toast({
+        title: '機能フラグを更新しました',
+        description: `${featureFlag.name}の設定を保存しました。`,
+      })
+      await refreshAuditLogs()
+    } catch (error) {
+      console.error('Feature flag update error:', error)
+      toast({
+        title: 'エラー',
+        description: error instanceof Error ? error.message : '機能フラグの更新に失敗しました。',
+        variant: 'destructive'
+      })
+    } finally {
+      setUpdatingFlagKey(null)
+    }
+  }
+
+  const saveFeatureFlagRollout = (key: string) => {
+    const draft = flagDrafts[key]
+    if (!draft) return
+    return updateFeatureFlag(key, {
+      rolloutPercentage: Number(draft.rolloutPercentage),
+      enabledOrganizationIds: parseOrganizationIds(draft.enabledOrganizationIds),
+      disabledOrganizationIds: parseOrganizationIds(draft.disabledOrganizationIds)
+    })
+  }
+
+  const updateSystemConfig = (changes: Partial<SystemConfig>) => {
+    setSystemConfig(prev => prev && { ...prev, ...changes })
+  }
+
+  const updateNotificationSettings = (changes: Partial<NotificationSettings>) => {
+    setNotificationSettings(prev => prev && { ...prev, ...changes })
+  }
+
+  const updateFlagDraft = (key: string, changes: Partial<FeatureFlagDraft>) => {
+    setFlagDrafts(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }))
+  }
+
+  const saveSettings = async (section: 'system' | 'notifications') => {
     setSaving(true)
     try {
-      // ここで実際のAPIコールを行う
-      await new Promise(resolve => setTimeout(resolve, 1000)) // シミュレーション
-      
+      const res = await authFetch('/api/admin/system-settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(section === 'system' ? { system: systemConfig } : { notifications: notificationSettings })
+      })
+      if (!res.ok) {
+        throw new Error(await readError(res, '設定の保存に失敗しました'))
+      }
+      const data: { system: SystemConfig; notifications: NotificationSettings; changedKeys: string[] } = await res.json()
+      if (section === 'system') setSystemConfig(data.system)
+      else setNotificationSettings(data.notifications)
+
       toast({
         title: '設定を保存しました',
-        description: 'システム設定が正常に更新されました。',
+        description: data.changedKeys.length > 0
+          ? `${settingLabels[section]}が正常に更新されました。`
+          : '変更はありませんでした。',
       })
+      await refreshAuditLogs()
     } catch (error) {
       console.error('Save error:', error)
       toast({
         title: 'エラー',
-        description: '設定の保存に失敗しました。',
+        description: error instanceof Error ? error.message : '設定の保存に失敗しました。',
         variant: 'destructive'
       })
     } finally {
@@ -206,22 +300,45 @@ export default function SystemSettingsPage() {
     return <Badge variant={variants[category]}>{category}</Badge>
   }
 
+  const header = (
+    <div className="flex justify-between items-center">
+      <div>
+        <h1 className="text-3xl font-bold">システム設定</h1>
+        <p className="text-muted-foreground">システム全体の設定と機能管理</p>
+        {systemConfig && !isPlatformAdmin && (
+          <p className="text-sm text-muted-foreground">
+            システム全体の設定はプラットフォーム管理者のみ変更できます。機能フラグは自組織を常に有効 / 無効にする指定のみ変更できます。
+          </p>
+        )}
+      </div>
+    </div>
+  )
+
+  if (fetching || fetchError || !systemConfig || !notificationSettings) {
+    return (
+      <div className="container mx-auto p-6 space-y-6">
+        {header}
+        {fetching ? (
+          <p className="text-sm text-muted-foreground">システム設定を読み込んでいます...</p>
+        ) : (
+          <p className="text-sm text-red-600">システム設定を取得できませんでした{fetchError ? `: ${fetchError}` : ''}</p>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="container mx-auto p-6 space-y-6">
-      <div className="flex justify-between items-center">
-        <div>
-          <h1 className="text-3xl font-bold">システム設定</h1>
-          <p className="text-muted-foreground">システム全体の設定と機能管理</p>
-        </div>
-      </div>
+      {header}
 
       <Tabs defaultValue="general" className="space-y-4">
-        <TabsList className="grid w-full max-w-[800px] grid-cols-5">
+        <TabsList className="grid w-full max-w-[800px] grid-cols-6">
           <TabsTrigger value="general">一般</TabsTrigger>
           <TabsTrigger value="features">機能フラグ</TabsTrigger>
           <TabsTrigger value="notifications">通知</TabsTrigger>
           <TabsTrigger value="api">API</TabsTrigger>
           <TabsTrigger value="maintenance">メンテナンス</TabsTrigger>
+          <TabsTrigger value="history">変更履歴</TabsTrigger>
         </TabsList>
 
         <TabsContent value="general" className="space-y-4">
@@ -240,12 +357,14 @@ export default function SystemSettingsPage() {
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
                     <Label>レート制限を有効化</Label>
-                    <p className="text-sm text-muted-foreground">APIリクエストの制限を設定</p>
+                    <p className="text-sm text-muted-foreground">
+                      チェック・アップロード・エクスポート・認証のAPIを、ユーザー・APIキー・組織ごとに制限（上限はプランに応じて調整）
+                    </p>
                   </div>
                   <Switch 
                     checked={systemConfig.rateLimitEnabled}
                     onCheckedChange={(checked: boolean) => 
-                      setSystemConfig(prev => ({ ...prev, rateLimitEnabled: checked }))
+                      updateSystemConfig({ rateLimitEnabled: checked })
                     }
                   />
                 </div>
@@ -257,7 +376,7 @@ export default function SystemSettingsPage() {
                         type="number"
                         value={systemConfig.rateLimitRequests}
                         onChange={(e) => 
-                          setSystemConfig(prev => ({ ...prev, rateLimitRequests: parseInt(e.target.value) }))
+                          updateSystemConfig({ rateLimitRequests: Number(e.target.value) })
                         }
                       />
                     </div>
@@ -267,7 +386,7 @@ export default function SystemSettingsPage() {
                         type="number"
                         value={systemConfig.rateLimitWindow}
                         onChange={(e) => 
-                          setSystemConfig(prev => ({ ...prev, rateLimitWindow: parseInt(e.target.value) }))
+                          updateSystemConfig({ rateLimitWindow: Number(e.target.value) })
                         }
                       />
                     </div>
@@ -286,7 +405,7 @@ export default function SystemSettingsPage() {
                   <Switch 
                     checked={systemConfig.cacheEnabled}
                     onCheckedChange={(checked: boolean) => 
-                      setSystemConfig(prev => ({ ...prev, cacheEnabled: checked }))
+                      updateSystemConfig({ cacheEnabled: checked })
                     }
                   />
                 </div>
@@ -297,7 +416,7 @@ export default function SystemSettingsPage() {
                       type="number"
                       value={systemConfig.cacheTTL}
                       onChange={(e) => 
-                        setSystemConfig(prev => ({ ...prev, cacheTTL: parseInt(e.target.value) }))
+                        updateSystemConfig({ cacheTTL: Number(e.target.value) })
                       }
                     />
                   </div>
@@ -321,7 +440,7 @@ export default function SystemSettingsPage() {
                     type="number"
                     value={systemConfig.maxUploadSize}
                     onChange={(e) => 
-                      setSystemConfig(prev => ({ ...prev, maxUploadSize: parseInt(e.target.value) }))
+                      updateSystemConfig({ maxUploadSize: Number(e.target.value) })
                     }
                   />
                 </div>
@@ -330,17 +449,16 @@ export default function SystemSettingsPage() {
                   <Input 
                     value={systemConfig.allowedFileTypes.join(', ')}
                     onChange={(e) => 
-                      setSystemConfig(prev => ({ 
-                        ...prev, 
+                      updateSystemConfig({
                         allowedFileTypes: e.target.value.split(',').map(s => s.trim())
-                      }))
+                      })
                     }
                     placeholder="jpg, png, pdf"
                   />
                 </div>
               </div>
 
-              <Button onClick={saveSystemConfig} disabled={saving}>
+              <Button onClick={() => saveSettings('system')} disabled={saving || !isPlatformAdmin}>
                 <Save className="h-4 w-4 mr-2" />
                 {saving ? '保存中...' : '設定を保存'}
               </Button>
@@ -359,26 +477,79 @@ export default function SystemSettingsPage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {featureFlags.map((flag) => (
-                  <div key={flag.id} className="border rounded-lg p-4">
-                    <div className="flex items-start justify-between">
-                      <div className="space-y-1 flex-1">
-                        <div className="flex items-center gap-2">
-                          <h4 className="font-medium">{flag.name}</h4>
-                          {getCategoryBadge(flag.category)}
+                {featureFlags.length === 0 && (
+                  <p className="text-sm text-muted-foreground">機能フラグが登録されていません</p>
+                )}
+                {featureFlags.map((flag) => {
+                  const draft = flagDrafts[flag.key] ?? toDraft(flag)
+                  const updating = updatingFlagKey === flag.key
+                  return (
+                    <div key={flag.key} className="border rounded-lg p-4 space-y-4">
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-1 flex-1">
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-medium">{flag.name}</h4>
+                            {getCategoryBadge(flag.category)}
+                            <code className="text-xs text-muted-foreground">{flag.key}</code>
+                          </div>
+                          {flag.description && (
+                            <p className="text-sm text-muted-foreground">{flag.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            最終更新: {flag.updatedAt ? new Date(flag.updatedAt).toLocaleString('ja-JP') : '-'}
+                          </p>
                         </div>
-                        <p className="text-sm text-muted-foreground">{flag.description}</p>
-                        <p className="text-xs text-muted-foreground">
-                          最終更新: {flag.lastModified}
-                        </p>
+                        <Switch
+                          checked={flag.enabled}
+                          disabled={updating || !isPlatformAdmin}
+                          onCheckedChange={(checked: boolean) => updateFeatureFlag(flag.key, { enabled: checked })}
+                        />
                       </div>
-                      <Switch 
-                        checked={flag.enabled}
-                        onCheckedChange={() => toggleFeatureFlag(flag.id)}
-                      />
+                      {flag.enabled && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <div className="space-y-2">
+                            <Label>展開率（%）</Label>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={draft.rolloutPercentage}
+                              disabled={!isPlatformAdmin}
+                              onChange={(e) => updateFlagDraft(flag.key, { rolloutPercentage: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>常に有効にする組織ID</Label>
+                            <Input
+                              value={draft.enabledOrganizationIds}
+                              onChange={(e) => updateFlagDraft(flag.key, { enabledOrganizationIds: e.target.value })}
+                              placeholder="1, 2, 3"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>常に無効にする組織ID</Label>
+                            <Input
+                              value={draft.disabledOrganizationIds}
+                              onChange={(e) => updateFlagDraft(flag.key, { disabledOrganizationIds: e.target.value })}
+                              placeholder="4, 5"
+                            />
+                          </div>
+                          <div className="md:col-span-3">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => saveFeatureFlagRollout(flag.key)}
+                              disabled={updating}
+                            >
+                              <Save className="h-4 w-4 mr-2" />
+                              {updating ? '保存中...' : '展開設定を保存'}
+                            </Button>
+                          </div>
+                        </div>
+                      )}
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             </CardContent>
           </Card>
@@ -403,7 +574,7 @@ export default function SystemSettingsPage() {
                   <Switch 
                     checked={notificationSettings.emailNotifications}
                     onCheckedChange={(checked: boolean) => 
-                      setNotificationSettings(prev => ({ ...prev, emailNotifications: checked }))
+                      updateNotificationSettings({ emailNotifications: checked })
                     }
                   />
                 </div>
@@ -416,7 +587,7 @@ export default function SystemSettingsPage() {
                   <Switch 
                     checked={notificationSettings.slackIntegration}
                     onCheckedChange={(checked: boolean) => 
-                      setNotificationSettings(prev => ({ ...prev, slackIntegration: checked }))
+                      updateNotificationSettings({ slackIntegration: checked })
                     }
                   />
                 </div>
@@ -428,7 +599,7 @@ export default function SystemSettingsPage() {
                       type="url"
                       value={notificationSettings.slackWebhookUrl}
                       onChange={(e) => 
-                        setNotificationSettings(prev => ({ ...prev, slackWebhookUrl: e.target.value }))
+                        updateNotificationSettings({ slackWebhookUrl: e.target.value })
                       }
                       placeholder="https://hooks.slack.com/services/..."
                     />
@@ -443,7 +614,7 @@ export default function SystemSettingsPage() {
                     <Switch 
                       checked={notificationSettings.errorAlerts}
                       onCheckedChange={(checked: boolean) => 
-                        setNotificationSettings(prev => ({ ...prev, errorAlerts: checked }))
+                        updateNotificationSettings({ errorAlerts: checked })
                       }
                     />
                   </div>
@@ -452,7 +623,7 @@ export default function SystemSettingsPage() {
                     <Switch 
                       checked={notificationSettings.performanceAlerts}
                       onCheckedChange={(checked: boolean) => 
-                        setNotificationSettings(prev => ({ ...prev, performanceAlerts: checked }))
+                        updateNotificationSettings({ performanceAlerts: checked })
                       }
                     />
                   </div>
@@ -461,14 +632,14 @@ export default function SystemSettingsPage() {
                     <Switch 
                       checked={notificationSettings.securityAlerts}
                       onCheckedChange={(checked: boolean) => 
-                        setNotificationSettings(prev => ({ ...prev, securityAlerts: checked }))
+                        updateNotificationSettings({ securityAlerts: checked })
                       }
                     />
                   </div>
                 </div>
               </div>
 
-              <Button onClick={saveSystemConfig} disabled={saving}>
+              <Button onClick={() => saveSettings('notifications')} disabled={saving || !isPlatformAdmin}>
                 <Save className="h-4 w-4 mr-2" />
                 {saving ? '保存中...' : '設定を保存'}
               </Button>
@@ -477,53 +648,7 @@ export default function SystemSettingsPage() {
         </TabsContent>
 
         <TabsContent value="api" className="space-y-4">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Key className="h-5 w-5" />
-                API設定
-              </CardTitle>
-              <CardDescription>APIキーとアクセス設定</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div className="flex justify-end">
-                  <Button>
-                    <Key className="h-4 w-4 mr-2" />
-                    新しいAPIキーを生成
-                  </Button>
-                </div>
-
-                <div className="space-y-3">
-                  {apiKeys.map((apiKey) => (
-                    <div key={apiKey.id} className="border rounded-lg p-4">
-                      <div className="flex items-start justify-between">
-                        <div className="space-y-2">
-                          <div className="flex items-center gap-2">
-                            <h4 className="font-medium">{apiKey.name}</h4>
-                            <Badge variant={apiKey.status === 'active' ? 'default' : 'secondary'}>
-                              {apiKey.status}
-                            </Badge>
-                          </div>
-                          <p className="text-sm font-mono bg-muted px-2 py-1 rounded">
-                            {apiKey.key}
-                          </p>
-                          <div className="flex gap-4 text-xs text-muted-foreground">
-                            <span>作成日: {apiKey.created}</span>
-                            <span>最終使用: {apiKey.lastUsed}</span>
-                          </div>
-                        </div>
-                        <div className="flex gap-2">
-                          <Button variant="outline" size="sm">無効化</Button>
-                          <Button variant="destructive" size="sm">削除</Button>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <ApiKeySettings />
         </TabsContent>
 
         <TabsContent value="maintenance" className="space-y-4">
@@ -540,13 +665,13 @@ export default function SystemSettingsPage() {
                 <div className="space-y-0.5">
                   <Label className="text-base">メンテナンスモード</Label>
                   <p className="text-sm text-muted-foreground">
-                    有効にすると、管理者以外のユーザーはアクセスできなくなります
+                    有効にすると、プラットフォーム管理者以外のユーザー（組織の管理者を含む）はアクセスできなくなります
                   </p>
                 </div>
                 <Switch 
                   checked={systemConfig.maintenanceMode}
                   onCheckedChange={(checked: boolean) => 
-                    setSystemConfig(prev => ({ ...prev, maintenanceMode: checked }))
+                    updateSystemConfig({ maintenanceMode: checked })
                   }
                 />
               </div>
@@ -557,7 +682,7 @@ export default function SystemSettingsPage() {
                   <Textarea 
                     value={systemConfig.maintenanceMessage}
                     onChange={(e) => 
-                      setSystemConfig(prev => ({ ...prev, maintenanceMessage: e.target.value }))
+                      updateSystemConfig({ maintenanceMessage: e.target.value })
                     }
                     rows={4}
                     placeholder="メンテナンス中に表示するメッセージ"
@@ -577,7 +702,7 @@ export default function SystemSettingsPage() {
                   <Switch 
                     checked={systemConfig.debugMode}
                     onCheckedChange={(checked: boolean) => 
-                      setSystemConfig(prev => ({ ...prev, debugMode: checked }))
+                      updateSystemConfig({ debugMode: checked })
                     }
                   />
                 </div>
@@ -597,13 +722,55 @@ export default function SystemSettingsPage() {
                 </div>
               </div>
 
-              <Button onClick={saveSystemConfig} disabled={saving}>
+              <Button onClick={() => saveSettings('system')} disabled={saving || !isPlatformAdmin}>
                 <Save className="h-4 w-4 mr-2" />
                 {saving ? '保存中...' : '設定を保存'}
               </Button>
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="history" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                変更履歴
+              </CardTitle>
+              <CardDescription>システム設定・機能フラグの最近の変更</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {auditLogs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">変更履歴はありません</p>
+              ) : (
+                <div className="space-y-3">
+                  {auditLogs.map((log) => (
+                    <div key={log.id} className="border rounded-lg p-3 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">
+                          {log.targetType === 'feature_flag' ? '機能フラグ' : 'システム設定'}
+                        </Badge>
+                        <span className="font-medium text-sm">
+                          {log.targetType === 'feature_flag'
+                            ? featureFlags.find(flag => flag.key === log.targetKey)?.name ?? log.targetKey
+                            : settingLabels[log.targetKey] ?? log.targetKey}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        変更項目: {changedFields(log).join(', ') || '-'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {log.createdAt ? new Date(log.createdAt).toLocaleString('ja-JP') : '-'}
+                        {' / '}
+                        {log.changedByEmail ?? '不明なユーザー'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,397 @@
+'use client'
+
+import { RefreshCw, RotateCcw, Trash2 } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { WEBHOOK_CONFIG, WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES, WebhookEventType } from '@/constants/webhooks'
+import { authFetch } from '@/lib/api-client'
+
+interface WebhookEndpointItem {
+  id: number
+  url: string
+  description: string | null
+  eventTypes: string[]
+  isActive: boolean
+  secretPreview: string
+  createdAt: string | null
+}
+
+interface WebhookDeliveryItem {
+  id: number
+  endpoint_id: number
+  event_id: string
+  event_type: string
+  status: 'pending' | 'retrying' | 'succeeded' | 'failed'
+  attempt_count: number
+  next_attempt_at: string | null
+  response_status: number | null
+  error_message: string | null
+  replayed_from: number | null
+  created_at: string
+}
+
+const DELIVERY_STATUS_LABELS: Record<WebhookDeliveryItem['status'], string> = {
+  pending: '送信待ち',
+  retrying: '再試行待ち',
+  succeeded: '成功',
+  failed: '失敗'
+}
+
+const DELIVERY_STATUS_VARIANTS: Record<WebhookDeliveryItem['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  retrying: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive'
+}
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('ja-JP') : '-'
+
+async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json()
+    return data?.error?.message ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+export default function WebhooksAdminPage() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointItem[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryItem[]>([])
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([])
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null)
+  const [endpointFilter, setEndpointFilter] = useState<number | 'all'>('all')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [replayingId, setReplayingId] = useState<number | null>(null)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      const res = await authFetch('/api/webhooks')
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'Webhookの取得に失敗しました'))
+      const data = await res.json()
+      setEndpoints(data.endpoints ?? [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Webhookの取得に失敗しました')
+    }
+  }, [])
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const query = endpointFilter === 'all' ? '' : `?endpointId=${endpointFilter}`
+      const res = await authFetch(`/api/webhooks/deliveries${query}`)
+      if (!res.ok) throw new Error(await readErrorMessage(res, '配信ログの取得に失敗しました'))
+      const data = await res.json()
+      setDeliveries(data.deliveries ?? [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '配信ログの取得に失敗しました')
+    }
+  }, [endpointFilter])
+
+  useEffect(() => {
+    fetchEndpoints()
+  }, [fetchEndpoints])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries])
+
+  const toggleEventType = (eventType: WebhookEventType, checked: boolean) => {
+    setEventTypes(prev => checked ? [...prev, eventType] : prev.filter(type => type !== eventType))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setMessage('')
+    setCreatedSecret(null)
+    setIsSubmitting(true)
+
+    try {
+      const res = await authFetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, description: description || undefined, eventTypes })
+      })
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'Webhookの登録に失敗しました'))
+      const data = await res.json()
+      setCreatedSecret(data.secret)
+      setMessage('Webhookを登録しました')
+      setUrl('')
+      setDescription('')
+      setEventTypes([])
+      fetchEndpoints()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Webhookの登録に失敗しました')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleToggleActive = async (endpoint: WebhookEndpointItem, isActive: boolean) => {
+    setError('')
+    try {
+      const res = await authFetch(`/api/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive })
+      })
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'Webhookの更新に失敗しました'))
+      fetchEndpoints()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Webhookの更新に失敗しました')
+    }
+  }
+
+  const handleDelete = async (endpoint: WebhookEndpointItem) => {
+    if (!confirm(`${endpoint.url} を削除しますか？配信ログも削除されます。`)) return
+    setError('')
+    try {
+      const res = await authFetch(`/api/webhooks/${endpoint.id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'Webhookの削除に失敗しました'))
+      setMessage('Webhookを削除しました')
+      if (endpointFilter === endpoint.id) setEndpointFilter('all')
+      fetchEndpoints()
+      fetchDeliveries()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Webhookの削除に失敗しました')
+    }
+  }
+
+  const handleReplay = async (delivery: WebhookDeliveryItem) => {
+    setError('')
+    setMessage('')
+    setReplayingId(delivery.id)
+    try {
+      const res = await authFetch(`/api/webhooks/deliveries/${delivery.id}/replay`, { method: 'POST' })
+      if (!res.ok) throw new Error(await readErrorMessage(res, '再送に失敗しました'))
+      const data = await res.json()
+      const status = data.delivery?.status as WebhookDeliveryItem['status'] | undefined
+      setMessage(`配信 #${delivery.id} を再送しました（${status ? DELIVERY_STATUS_LABELS[status] : '送信待ち'}）`)
+      fetchDeliveries()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '再送に失敗しました')
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  const endpointUrl = (endpointId: number) =>
+    endpoints.find(endpoint => endpoint.id === endpointId)?.url ?? `#${endpointId}`
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Webhook設定</h1>
+        <p className="text-muted-foreground">
+          チェックの作成・完了・失敗などのイベントを外部システム（CMS等）へ通知します
+        </p>
+      </div>
+
+      {message && <div className="rounded-md bg-green-50 p-3 text-sm text-green-700">{message}</div>}
+      {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>エンドポイントを追加</CardTitle>
+          <CardDescription>
+            リクエストには <code>{WEBHOOK_CONFIG.SIGNATURE_HEADER}</code> ヘッダー（HMAC-SHA256署名）が付与されます。
+            イベントを選択しない場合は全イベントを受信します。
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                placeholder="https://example.com/webhooks/adlex"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">説明（任意）</Label>
+              <Input
+                id="webhook-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>受信するイベント</Label>
+              <div className="flex flex-wrap gap-4">
+                {WEBHOOK_EVENT_TYPES.map(eventType => (
+                  <label key={eventType} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={eventTypes.includes(eventType)}
+                      onCheckedChange={(checked) => toggleEventType(eventType, checked === true)}
+                    />
+                    {WEBHOOK_EVENT_LABELS[eventType]}
+                    <span className="text-xs text-muted-foreground">{eventType}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <Button type="submit" disabled={isSubmitting || !url}>
+              {isSubmitting ? '登録中...' : '追加'}
+            </Button>
+          </form>
+
+          {createdSecret && (
+            <div className="mt-4 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm">
+              <p className="font-medium">署名シークレット（この画面でのみ表示されます）</p>
+              <code className="break-all">{createdSecret}</code>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>登録済みエンドポイント</CardTitle>
+          <CardDescription>
+            1組織あたり{WEBHOOK_CONFIG.MAX_ENDPOINTS_PER_ORGANIZATION}件まで登録できます
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {endpoints.length === 0 && (
+            <p className="text-sm text-muted-foreground">登録済みのエンドポイントはありません</p>
+          )}
+          {endpoints.map(endpoint => (
+            <div key={endpoint.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div className="min-w-0 space-y-1">
+                <p className="truncate font-medium">{endpoint.url}</p>
+                {endpoint.description && (
+                  <p className="text-sm text-muted-foreground">{endpoint.description}</p>
+                )}
+                <div className="flex flex-wrap gap-1">
+                  {endpoint.eventTypes.length === 0 ? (
+                    <Badge variant="outline">全イベント</Badge>
+                  ) : endpoint.eventTypes.map(eventType => (
+                    <Badge key={eventType} variant="outline">
+                      {WEBHOOK_EVENT_LABELS[eventType as WebhookEventType] ?? eventType}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">シークレット: {endpoint.secretPreview}</p>
+              </div>
+              <div className="flex shrink-0 items-center gap-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={endpoint.isActive}
+                    onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                  />
+                  {endpoint.isActive ? '有効' : '無効'}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleDelete(endpoint)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>配信ログ</CardTitle>
+            <CardDescription>失敗した配信は指数バックオフで自動的に再試行されます</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              className="rounded-md border px-2 py-1 text-sm"
+              value={endpointFilter}
+              onChange={(e) => setEndpointFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+            >
+              <option value="all">すべてのエンドポイント</option>
+              {endpoints.map(endpoint => (
+                <option key={endpoint.id} value={endpoint.id}>{endpoint.url}</option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={() => fetchDeliveries()}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">配信ログはありません</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="py-2 pr-4">日時</th>
+                    <th className="py-2 pr-4">イベント</th>
+                    <th className="py-2 pr-4">送信先</th>
+                    <th className="py-2 pr-4">状態</th>
+                    <th className="py-2 pr-4">試行</th>
+                    <th className="py-2 pr-4">応答</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map(delivery => (
+                    <tr key={delivery.id} className="border-b align-top">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(delivery.created_at)}</td>
+                      <td className="py-2 pr-4">
+                        <div>{WEBHOOK_EVENT_LABELS[delivery.event_type as WebhookEventType] ?? delivery.event_type}</div>
+                        <div className="text-xs text-muted-foreground">{delivery.event_id}</div>
+                        {delivery.replayed_from && (
+                          <div className="text-xs text-muted-foreground">再送元: #{delivery.replayed_from}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 max-w-xs truncate">{endpointUrl(delivery.endpoint_id)}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={DELIVERY_STATUS_VARIANTS[delivery.status]}>
+                          {DELIVERY_STATUS_LABELS[delivery.status]}
+                        </Badge>
+                        {delivery.status === 'retrying' && (
+                          <div className="text-xs text-muted-foreground">次回: {formatDateTime(delivery.next_attempt_at)}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{delivery.attempt_count}</td>
+                      <td className="py-2 pr-4">
+                        <div>{delivery.response_status ?? '-'}</div>
+                        {delivery.error_message && (
+                          <div className="text-xs text-red-600">{delivery.error_message}</div>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={replayingId === delivery.id}
+                          onClick={() => handleReplay(delivery)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          再送
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  getStatusCodeFromError,
+  validateGetAdminAnalyticsQuery
+} from '@/core/dtos/admin'
+import { getRepositories } from '@/core/ports'
+import { GetAdminAnalyticsUseCase } from '@/core/usecases/admin/getAnalytics'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * Admin 分析レポート取得API（利用状況・ユーザー行動・違反傾向・処理性能を期間で集計）
+ * DTO validate → usecase 呼び出し → HTTP 変換の薄い層
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const validationResult = validateGetAdminAnalyticsQuery({
+      timeRange: request.nextUrl.searchParams.get('timeRange') ?? undefined
+    })
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+
+    const getAdminAnalyticsUseCase = new GetAdminAnalyticsUseCase(repositories)
+    const result = await getAdminAnalyticsUseCase.execute({
+      currentUserId: user.id,
+      timeRange: validationResult.data.timeRange
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(result.data)
+
+  } catch (error) {
+    console.error('Admin 分析レポート取得API エラー:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createErrorResponse, getStatusCodeFromError } from '@/core/dtos/admin'
+import { validateUpdateFeatureFlagRequest } from '@/core/dtos/system-settings'
+import { getRepositories } from '@/core/ports'
+import { UpdateFeatureFlagUseCase } from '@/core/usecases/admin/updateFeatureFlag'
+import { createClient } from '@/infra/supabase/serverClient'
+
+interface RouteParams {
+  params: Promise<{
+    key: string
+  }>
+}
+
+/**
+ * Admin 機能フラグ更新API（有効・無効、展開率、組織ごとの指定。変更は監査ログに記録）
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { key } = await params
+
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body'),
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateUpdateFeatureFlagRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+
+    const updateFeatureFlagUseCase = new UpdateFeatureFlagUseCase(repositories)
+    const result = await updateFeatureFlagUseCase.execute({
+      currentUserId: user.id,
+      key,
+      ...validationResult.data
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(result.data)
+
+  } catch (error) {
+    console.error('Admin 機能フラグ更新API エラー:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  getStatusCodeFromError,
+  validateGetAdminQueueQuery
+} from '@/core/dtos/admin'
+import { getRepositories } from '@/core/ports'
+import { GetAdminQueueUseCase } from '@/core/usecases/admin/getQueue'
+import { createClient } from '@/infra/supabase/serverClient'
+import { getJobRepositories } from '@/lib/job-queue'
+
+/**
+ * Admin ジョブキュー状況取得API（組織別の待機数・処理中数と、プラン別の同時実行数上限）
+ * DTO validate → usecase 呼び出し → HTTP 変換の薄い層
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const validationResult = validateGetAdminQueueQuery({
+      queue: request.nextUrl.searchParams.get('queue') ?? undefined
+    })
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+
+    const getAdminQueueUseCase = new GetAdminQueueUseCase(repositories, getJobRepositories())
+    const result = await getAdminQueueUseCase.execute({
+      currentUserId: user.id,
+      queue: validationResult.data.queue
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(result.data)
+
+  } catch (error) {
+    console.error('Admin ジョブキュー状況取得API エラー:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
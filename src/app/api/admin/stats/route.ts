@@ -112,6 +112,7 @@ export async function GET(request: NextRequest) {
       },
       recentActivity: stats ? [] : [],
       dailyChecks,
+      llmUsage: stats.llmUsage,
     }
     return NextResponse.json(responseBody)
 
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createErrorResponse, getStatusCodeFromError } from '@/core/dtos/admin'
+import { validateUpdateSystemSettingsRequest } from '@/core/dtos/system-settings'
+import { getRepositories } from '@/core/ports'
+import { GetSystemSettingsUseCase } from '@/core/usecases/admin/getSystemSettings'
+import { UpdateSystemSettingsUseCase } from '@/core/usecases/admin/updateSystemSettings'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * Admin システム設定取得API（一般・通知設定、機能フラグ、最近の変更履歴）
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+
+    const getSystemSettingsUseCase = new GetSystemSettingsUseCase(repositories)
+    const result = await getSystemSettingsUseCase.execute({ currentUserId: user.id })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(result.data)
+
+  } catch (error) {
+    console.error('Admin システム設定取得API エラー:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Admin システム設定更新API（指定した区分を保存し、変更を監査ログに記録）
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body'),
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateUpdateSystemSettingsRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+
+    const updateSystemSettingsUseCase = new UpdateSystemSettingsUseCase(repositories)
+    const result = await updateSystemSettingsUseCase.execute({
+      currentUserId: user.id,
+      system: validationResult.data.system,
+      notifications: validationResult.data.notifications
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(result.data)
+
+  } catch (error) {
+    console.error('Admin システム設定更新API エラー:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
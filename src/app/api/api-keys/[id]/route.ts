@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getStatusCodeFromError,
+  validateApiKeyIdParams
+} from '@/core/dtos/api-keys'
+import { getRepositories } from '@/core/ports'
+import { RevokeApiKeyUseCase } from '@/core/usecases/api-keys/revokeApiKey'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * APIキー無効化API（以降このキーでのリクエストは 401）
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    const paramsValidation = validateApiKeyIdParams(await params)
+    if (!paramsValidation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          paramsValidation.error.code,
+          paramsValidation.error.message,
+          paramsValidation.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new RevokeApiKeyUseCase(repositories)
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      apiKeyId: paramsValidation.data.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data))
+
+  } catch (error) {
+    console.error("APIキー無効化API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
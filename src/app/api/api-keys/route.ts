@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getStatusCodeFromError,
+  validateCreateApiKeyRequest
+} from '@/core/dtos/api-keys'
+import { getRepositories } from '@/core/ports'
+import { CreateApiKeyUseCase } from '@/core/usecases/api-keys/createApiKey'
+import { GetApiKeysUseCase } from '@/core/usecases/api-keys/getApiKeys'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * APIキー一覧取得API（組織管理者のみ、Cookieセッション認証）
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new GetApiKeysUseCase(repositories)
+    const result = await useCase.execute({ currentUserId: user.id })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data))
+
+  } catch (error) {
+    console.error("APIキー一覧取得API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * APIキー発行API（組織管理者のみ）
+ * 平文のキーはこのレスポンスでのみ返す
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body'),
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateCreateApiKeyRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new CreateApiKeyUseCase(repositories)
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      name: validationResult.data.name,
+      scopes: validationResult.data.scopes
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data), { status: 201 })
+
+  } catch (error) {
+    console.error("APIキー発行API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
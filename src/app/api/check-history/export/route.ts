@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import * as XLSX from 'xlsx'
 
+import { LegalBasisSummary, SEVERITY_LABELS } from '@/constants/regulatory'
 import {
   validateExportCheckHistoryQuery,
   createErrorResponse
@@ -9,6 +10,7 @@ import { getRepositories } from '@/core/ports'
 import { ExportCheckHistoryUseCase, ExportData } from '@/core/usecases/check-history/exportCheckHistory'
 import { createClient } from '@/infra/supabase/serverClient'
 import { ErrorFactory } from '@/lib/errors'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 /**
  * チェック履歴エクスポートAPI（リファクタリング済み）
@@ -27,6 +29,15 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（ユーザーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'exports', { repositories, userId: user.id })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
     // クエリパラメータの取得とバリデーション
     const searchParams = request.nextUrl.searchParams
     const queryData = {
@@ -52,9 +63,6 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // リポジトリコンテナの取得
-    const repositories = await getRepositories(supabase)
-
     // ユースケース実行
     const exportCheckHistoryUseCase = new ExportCheckHistoryUseCase(repositories)
     const result = await exportCheckHistoryUseCase.execute({
@@ -81,12 +89,18 @@ export async function GET(request: NextRequest) {
     // フォーマットに基づくファイル生成
     switch (result.data.format) {
       case 'csv':
-        return generateCSVExport(result.data.data, result.data.userRole)
+        return withRateLimitHeaders(generateCSVExport(result.data.data, result.data.userRole), rateLimit.headers)
       case 'json':
-        return generateJSONExport(result.data.data)
+        return withRateLimitHeaders(
+          generateJSONExport(result.data.data, result.data.legalBasisSummary),
+          rateLimit.headers
+        )
       case 'excel':
         try {
-          return generateExcelExport(result.data.data, result.data.userRole)
+          return withRateLimitHeaders(
+            generateExcelExport(result.data.data, result.data.userRole, result.data.legalBasisSummary),
+            rateLimit.headers
+          )
         } catch (excelError) {
           // Excel生成で制限エラーが発生した場合
           if (excelError instanceof Error && excelError.message.includes('エクスポート件数が多すぎます')) {
@@ -136,8 +150,15 @@ function getStatusCodeFromError(errorCode: string): number {
 }
 
 
+/**
+ * 法的根拠別件数を1セルに収まる文字列に整形（例: 「薬機法 第66条（誇大広告等の禁止）: 2; 未分類: 1」）
+ */
+function formatLegalBasisCounts(legalBasis: LegalBasisSummary[]): string {
+  return legalBasis.map(group => `${group.label}: ${group.count}`).join('; ')
+}
+
 function generateCSVExport(data: ExportData[], userRole: string) {
-  const headers = ['ID', '作成日時', '完了日時', 'ステータス', '入力タイプ', '原文', '修正文', '違反数']
+  const headers = ['ID', '作成日時', '完了日時', 'ステータス', '入力タイプ', '原文', '修正文', '違反数', '法的根拠別件数']
   if (userRole === 'admin') {
     headers.push('ユーザー', '画像URL', 'OCRステータス')
   }
@@ -153,7 +174,8 @@ function generateCSVExport(data: ExportData[], userRole: string) {
         `"${row.inputType}"`,
         `"${row.originalText.replace(/"/g, '""').substring(0, 100)}${row.originalText.length > 100 ? '...' : ''}"`,
         `"${row.modifiedText.replace(/"/g, '""').substring(0, 100)}${row.modifiedText.length > 100 ? '...' : ''}"`,
-        row.violationCount
+        row.violationCount,
+        `"${formatLegalBasisCounts(row.legalBasis).replace(/"/g, '""')}"`
       ]
       
       if (userRole === 'admin') {
@@ -181,12 +203,13 @@ function generateCSVExport(data: ExportData[], userRole: string) {
   })
 }
 
-function generateJSONExport(data: ExportData[]) {
+function generateJSONExport(data: ExportData[], legalBasisSummary: LegalBasisSummary[]) {
   const fileName = `check_history_${new Date().toISOString().split('T')[0]}.json`
   
   return new NextResponse(JSON.stringify({
     exportDate: new Date().toISOString(),
     totalRecords: data.length,
+    legalBasisSummary,
     data: data
   }, null, 2), {
     status: 200,
@@ -201,7 +224,7 @@ function generateJSONExport(data: ExportData[]) {
 
 const MAX_EXPORT_SIZE = 1000
 
-function generateExcelExport(data: ExportData[], userRole: string) {
+function generateExcelExport(data: ExportData[], userRole: string, legalBasisSummary: LegalBasisSummary[]) {
   // データサイズ制限のチェック
   if (data.length > MAX_EXPORT_SIZE) {
     throw ErrorFactory.createQuotaExceededError('エクスポート件数', MAX_EXPORT_SIZE, data.length)
@@ -211,7 +234,7 @@ function generateExcelExport(data: ExportData[], userRole: string) {
   const workbook = XLSX.utils.book_new()
   
   // Prepare headers
-  const headers = ['ID', '作成日時', '完了日時', 'ステータス', '入力タイプ', '原文', '修正文', '違反数']
+  const headers = ['ID', '作成日時', '完了日時', 'ステータス', '入力タイプ', '原文', '修正文', '違反数', '法的根拠別件数']
   if (userRole === 'admin') {
     headers.push('ユーザー', '画像URL', 'OCRステータス')
   }
@@ -226,7 +249,8 @@ function generateExcelExport(data: ExportData[], userRole: string) {
       row.inputType,
       row.originalText.substring(0, 1000), // Limit text length for Excel
       row.modifiedText.substring(0, 1000), // Limit text length for Excel
-      row.violationCount
+      row.violationCount,
+      formatLegalBasisCounts(row.legalBasis)
     ]
     
     if (userRole === 'admin') {
@@ -255,7 +279,8 @@ function generateExcelExport(data: ExportData[], userRole: string) {
     { wch: 12 }, // 入力タイプ
     { wch: 50 }, // 原文
     { wch: 50 }, // 修正文
-    { wch: 10 }  // 違反数
+    { wch: 10 }, // 違反数
+    { wch: 40 }  // 法的根拠別件数
   ]
   
   if (userRole === 'admin') {
@@ -270,6 +295,20 @@ function generateExcelExport(data: ExportData[], userRole: string) {
   
   // Add worksheet to workbook
   XLSX.utils.book_append_sheet(workbook, worksheet, 'チェック履歴')
+
+  // 法的根拠別の集計シート（監査用）
+  const summarySheet = XLSX.utils.aoa_to_sheet([
+    ['法令', '法的根拠', '重大度', '件数', '割合(%)'],
+    ...legalBasisSummary.map(group => [
+      group.law,
+      group.label,
+      group.severity ? SEVERITY_LABELS[group.severity] : '',
+      group.count,
+      group.percentage
+    ])
+  ])
+  summarySheet['!cols'] = [{ wch: 20 }, { wch: 50 }, { wch: 8 }, { wch: 8 }, { wch: 10 }]
+  XLSX.utils.book_append_sheet(workbook, summarySheet, '法的根拠別集計')
   
   // Generate Excel file buffer
   const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
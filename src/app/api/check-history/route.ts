@@ -6,7 +6,7 @@ import {
 } from '@/core/dtos/check-history'
 import { getRepositories } from '@/core/ports'
 import { GetCheckHistoryUseCase } from '@/core/usecases/check-history/getCheckHistory'
-import { createClient } from '@/infra/supabase/serverClient'
+import { authenticateRequest } from '@/lib/api-keys'
 
 /**
  * チェック履歴取得API（リファクタリング済み）
@@ -14,16 +14,15 @@ import { createClient } from '@/infra/supabase/serverClient'
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient()
-
-    // 認証チェック
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    if (authError || !user) {
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['history:read'])
+    if (!auth.success) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: auth.status === 401 ? 'Unauthorized' : auth.message },
+        { status: auth.status }
       )
     }
+    const { supabase, userId } = auth
 
     // クエリパラメータの取得とバリデーション
     const url = request.nextUrl
@@ -54,12 +53,12 @@ export async function GET(request: NextRequest) {
 
     // リポジトリコンテナの取得
     const repositories = await getRepositories(supabase)
-    const currentUserData = await repositories.users.findById(user.id)
+    const currentUserData = await repositories.users.findById(userId)
 
     // ユースケース実行
     const getCheckHistoryUseCase = new GetCheckHistoryUseCase(repositories)
     const result = await getCheckHistoryUseCase.execute({
-      currentUserId: user.id,
+      currentUserId: userId,
       page: validationResult.data.page,
       limit: validationResult.data.limit,
       status: validationResult.data.status,
@@ -67,7 +66,8 @@ export async function GET(request: NextRequest) {
       dateFrom: validationResult.data.dateFrom,
       dateTo: validationResult.data.dateTo,
       userId: validationResult.data.userId,
-      organizationId: validationResult.data.organizationId,
+      // APIキーはRLSを経由しないため、発行元の組織に限定する
+      organizationId: auth.apiKey ? auth.apiKey.organization_id : validationResult.data.organizationId,
       // pass through for repository-pattern tests
       ...(validationResult.data.inputType ? { inputType: validationResult.data.inputType } : {}),
       ...(validationResult.data.dateFilter ? { dateFilter: validationResult.data.dateFilter } : {}),
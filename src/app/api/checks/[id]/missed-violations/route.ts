@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { validateReportMissedViolationRequest } from '@/core/dtos/violation-feedback'
+import { getRepositories } from '@/core/ports'
+import { ReportMissedViolationUseCase } from '@/core/usecases/checks/reportMissedViolation'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * チェック結果で見逃された違反を報告する（チェック対象テキスト上の選択範囲）
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: '認証が必要です' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'リクエストボディが不正です' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateReportMissedViolationRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.message },
+        { status: 400 }
+      )
+    }
+
+    // Next.js 15: params is now a Promise
+    const { id } = await params
+    const repositories = await getRepositories(supabase)
+    const useCase = new ReportMissedViolationUseCase(repositories)
+    const result = await useCase.execute({
+      checkId: parseInt(id),
+      currentUserId: user.id,
+      startPos: validationResult.data.startPos,
+      endPos: validationResult.data.endPos,
+      comment: validationResult.data.comment
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401
+        : result.code === 'AUTHORIZATION_ERROR' ? 403
+        : result.code === 'NOT_FOUND_ERROR' ? 404
+        : result.code === 'VALIDATION_ERROR' ? 400
+        : 500
+
+      return NextResponse.json(
+        { error: result.error },
+        { status: statusCode }
+      )
+    }
+
+    return NextResponse.json(result.data, { status: 201 })
+  } catch (error) {
+    console.error('Missed violation report error:', error)
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,8 +3,11 @@ import fs from 'node:fs'
 import { NextRequest, NextResponse } from 'next/server'
 import PDFDocument from 'pdfkit'
 
+import { getLegalBasisLabel, SEVERITY_LABELS, summarizeByLegalBasis } from '@/constants/regulatory'
 import { getRepositories } from '@/core/ports'
 import { createClient } from '@/infra/supabase/serverClient'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
+import { RegulatoryCategoryCode, ViolationSeverity } from '@/types/api'
 
 export const runtime = 'nodejs'
 
@@ -12,7 +15,7 @@ type RouteParams = {
   params: Promise<{ id: string }>
 }
 
-export async function GET(_request: NextRequest, { params }: RouteParams) {
+export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const supabase = await createClient()
     const { id } = await params
@@ -31,6 +34,12 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     // Get repositories
     const repositories = await getRepositories(supabase)
 
+    // レート制限（ユーザーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'exports', { repositories, userId: user.id })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
     // ユーザー/組織情報
     const userData = await repositories.users.findById(user.id)
     if (!userData?.organization_id) {
@@ -52,14 +61,17 @@ export async function GET(_request: NextRequest, { params }: RouteParams) {
     const pdfBuffer = await generatePdfBuffer(check as CheckRow)
 
     const filename = `check_${check.id}.pdf`
-    return new NextResponse(new Uint8Array(pdfBuffer), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Cache-Control': 'no-store'
-      }
-    })
+    return withRateLimitHeaders(
+      new NextResponse(new Uint8Array(pdfBuffer), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store'
+        }
+      }),
+      rateLimit.headers
+    )
   } catch (error) {
     console.error('PDF generation error:', error)
     return NextResponse.json({ error: 'Failed to generate PDF' }, { status: 500 })
@@ -76,6 +88,9 @@ interface ViolationRow {
   start_pos: number
   end_pos: number
   reason: string
+  regulatory_category?: RegulatoryCategoryCode | null
+  severity?: ViolationSeverity | null
+  dom_selector?: string | null
   dictionaries?: DictionaryRow | null
 }
 
@@ -88,13 +103,20 @@ interface CheckRow {
   completed_at: string | null
   user_id: string
   organization_id: number
-  input_type: 'text' | 'image' | null
+  input_type: 'text' | 'image' | 'pdf' | 'url' | null
   image_url: string | null
+  source_url?: string | null
   extracted_text: string | null
   users?: { email?: string | null } | null
   violations?: ViolationRow[] | null
 }
 
+const extractedTextTitles = {
+  image: '抽出テキスト（OCR）',
+  pdf: '抽出テキスト（PDF）',
+  url: '抽出テキスト（ページ）'
+} as const
+
 async function generatePdfBuffer(check: CheckRow): Promise<Buffer> {
   const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `AdLex Check #${check.id}` } })
 
@@ -130,6 +152,11 @@ async function generatePdfBuffer(check: CheckRow): Promise<Buffer> {
   if (check.input_type === 'image') {
     doc.text(`入力タイプ: 画像（OCR連携）`)
     if (check.image_url) doc.text(`画像URL: ${check.image_url}`, { link: check.image_url, underline: true })
+  } else if (check.input_type === 'pdf') {
+    doc.text(`入力タイプ: PDF`)
+  } else if (check.input_type === 'url') {
+    doc.text(`入力タイプ: URL（ランディングページ）`)
+    if (check.source_url) doc.text(`ページURL: ${check.source_url}`, { link: check.source_url, underline: true })
   } else {
     doc.text(`入力タイプ: テキスト`)
   }
@@ -148,9 +175,9 @@ async function generatePdfBuffer(check: CheckRow): Promise<Buffer> {
   renderTextWithHighlights(doc, originalText, violations)
   doc.moveDown()
 
-  // 画像→OCRの抽出テキスト（該当時）
-  if (check.input_type === 'image' && check.extracted_text) {
-    doc.fontSize(14).text('抽出テキスト（OCR）', { underline: true })
+  // 画像→OCR・PDFの抽出テキスト（該当時）
+  if (check.input_type !== 'text' && check.extracted_text) {
+    doc.fontSize(14).text(extractedTextTitles[check.input_type ?? 'image'], { underline: true })
     doc.moveDown(0.3)
     
     // OCRテキストにもハイライトを適用
@@ -165,6 +192,18 @@ async function generatePdfBuffer(check: CheckRow): Promise<Buffer> {
   doc.fontSize(10).text(String(check.modified_text ?? '（修正文は生成されていません）'), { width: 500 })
   doc.moveDown()
 
+  // 法的根拠別の集計（監査用）
+  if (violations.length > 0) {
+    doc.fontSize(14).text('法的根拠別の集計', { underline: true })
+    doc.moveDown(0.3)
+    doc.fontSize(10)
+    for (const group of summarizeByLegalBasis(violations)) {
+      const severity = group.severity ? `／重大度: ${SEVERITY_LABELS[group.severity]}` : ''
+      doc.fillColor('#000').text(`${group.label}: ${group.count}件（${group.percentage}%）${severity}`)
+    }
+    doc.moveDown()
+  }
+
   // 違反一覧
   doc.fontSize(14).text(`検出された違反（${violations.length}件）`, { underline: true })
   doc.moveDown(0.3)
@@ -175,6 +214,8 @@ async function generatePdfBuffer(check: CheckRow): Promise<Buffer> {
     violations.forEach((v: ViolationRow, idx: number) => {
       doc.fillColor('#000').text(`違反 #${idx + 1}`)
       doc.fillColor('#666').text(`位置: ${v.start_pos}-${v.end_pos}`)
+      doc.text(`法的根拠: ${getLegalBasisLabel(v.regulatory_category)}${v.severity ? `（重大度: ${SEVERITY_LABELS[v.severity]}）` : ''}`)
+      if (v.dom_selector) doc.text(`ページ上の要素: ${v.dom_selector}`)
       if (v.dictionaries?.phrase) {
         const cat = v.dictionaries?.category ? `（${v.dictionaries.category}）` : ''
         doc.text(`辞書語句: ${v.dictionaries.phrase}${cat}`)
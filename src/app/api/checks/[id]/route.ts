@@ -3,7 +3,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getRepositories } from '@/core/ports'
 import { DeleteCheckUseCase } from '@/core/usecases/checks/deleteCheck'
 import { GetCheckDetailUseCase } from '@/core/usecases/checks/getCheckDetail'
-import { createClient } from '@/infra/supabase/serverClient'
+import { RerunCheckUseCase } from '@/core/usecases/checks/rerunCheck'
+import { authenticateRequest } from '@/lib/api-keys'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 interface RouteParams {
   params: Promise<{
@@ -15,22 +17,20 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const resolvedParams = await params
     const checkId = parseInt(resolvedParams.id)
-    const supabase = await createClient()
-
-    // 認証チェック
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['checks:write', 'history:read'])
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.message }, { status: auth.status })
     }
 
     // リポジトリコンテナとUseCase作成
-    const repositories = await getRepositories(supabase)
+    const repositories = await getRepositories(auth.supabase)
     const useCase = new GetCheckDetailUseCase(repositories)
 
     // UseCase実行
     const result = await useCase.execute({
       checkId,
-      currentUserId: user.id
+      currentUserId: auth.userId
     })
 
     // 結果処理
@@ -51,26 +51,73 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+/**
+ * チェックを再実行する（元のチェックに紐づく子チェックを作成してキューに追加）
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const resolvedParams = await params
     const checkId = parseInt(resolvedParams.id)
-    const supabase = await createClient()
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['checks:write'])
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.message }, { status: auth.status })
+    }
+
+    const repositories = await getRepositories(auth.supabase)
+
+    // レート制限（再実行もチェックの実行として数える）
+    const rateLimit = await enforceRateLimit(request, 'checks', {
+      repositories,
+      userId: auth.userId,
+      apiKey: auth.apiKey
+    })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
+    const useCase = new RerunCheckUseCase(repositories)
 
-    // 認証チェック
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const result = await useCase.execute({
+      checkId,
+      currentUserId: auth.userId
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : result.code === 'NOT_FOUND_ERROR' ? 404
+                        : result.code === 'VALIDATION_ERROR' ? 400
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return withRateLimitHeaders(NextResponse.json(result.data), rateLimit.headers)
+
+  } catch (error) {
+    console.error('Check rerun API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const resolvedParams = await params
+    const checkId = parseInt(resolvedParams.id)
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['checks:write'])
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.message }, { status: auth.status })
     }
 
     // リポジトリコンテナとUseCase作成
-    const repositories = await getRepositories(supabase)
+    const repositories = await getRepositories(auth.supabase)
     const useCase = new DeleteCheckUseCase(repositories)
 
     // UseCase実行
     const result = await useCase.execute({
       checkId,
-      currentUserId: user.id
+      currentUserId: auth.userId
     })
 
     // 結果処理
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { getRepositories } from '@/core/ports'
+import { GetCheckSnapshotUseCase } from '@/core/usecases/checks/getCheckSnapshot'
+import { authenticateRequest } from '@/lib/api-keys'
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * URLチェックで取得したページのHTMLをダウンロードする（監査用）。
+ * 外部ページのHTMLをそのまま返すため、添付ファイルとして返しスクリプトを実行させない
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const resolvedParams = await params
+    const checkId = parseInt(resolvedParams.id)
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['checks:write', 'history:read'])
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.message }, { status: auth.status })
+    }
+
+    const repositories = await getRepositories(auth.supabase)
+    const useCase = new GetCheckSnapshotUseCase(repositories)
+
+    const result = await useCase.execute({
+      checkId,
+      currentUserId: auth.userId
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : result.code === 'NOT_FOUND_ERROR' ? 404
+                        : result.code === 'VALIDATION_ERROR' ? 400
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    const { body, snapshot } = result.data
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': snapshot.contentType ?? 'text/html',
+        'Content-Disposition': `attachment; filename="check_${checkId}_snapshot.html"`,
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+        'X-Snapshot-SHA256': snapshot.sha256,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Check snapshot API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,3 +1,4 @@
+import { SupabaseClient } from '@supabase/supabase-js'
 import { NextRequest } from 'next/server'
 
 import {
@@ -9,6 +10,8 @@ import {
 import { getRepositories } from '@/core/ports'
 import { StreamCheckUpdatesUseCase } from '@/core/usecases/checks/streamCheckUpdates'
 import { createClient } from '@/infra/supabase/serverClient'
+import { authenticateRequest, isApiKeyRequest } from '@/lib/api-keys'
+import { Database } from '@/types/database.types'
 
 /**
  * Server-Sent Events (SSE) を使用してチェック処理の進捗をリアルタイムでストリーミングする（リファクタリング済み）
@@ -34,7 +37,7 @@ export async function GET(
     }
 
     const checkId = parseInt(paramsValidation.data.id)
-    const supabase = await createClient()
+    let supabase: SupabaseClient<Database> = await createClient()
 
     // クエリパラメータからトークンを取得（EventSourceはheaderを送れないため）
     const url = new URL(request.url)
@@ -48,6 +51,17 @@ export async function GET(
         id: '11111111-1111-1111-1111-111111111111',
         email: 'admin@test.com'
       }
+    } else if (isApiKeyRequest(request)) {
+      // APIキー認証（キーの作成者として Service Role で購読する）
+      const auth = await authenticateRequest(request, ['checks:write', 'history:read'])
+      if (!auth.success) {
+        return new Response(
+          formatSSEMessage(StreamEventType.Error, createErrorResponse(auth.code, auth.message)),
+          { status: auth.status, headers: getSSEHeaders() }
+        )
+      }
+      user = { id: auth.userId }
+      supabase = auth.supabase
     } else {
       // 認証チェック（トークンがある場合は明示的に設定）
       if (token) {
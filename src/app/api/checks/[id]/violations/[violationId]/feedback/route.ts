@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { validateSubmitViolationFeedbackRequest } from '@/core/dtos/violation-feedback'
+import { getRepositories } from '@/core/ports'
+import { SubmitViolationFeedbackUseCase } from '@/core/usecases/checks/submitViolationFeedback'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * 違反を評価する（正しい / 誤検知 / 理由違い。null で評価を取り消す）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; violationId: string }> }
+): Promise<NextResponse> {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: '認証が必要です' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'リクエストボディが不正です' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateSubmitViolationFeedbackRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.message },
+        { status: 400 }
+      )
+    }
+
+    // Next.js 15: params is now a Promise
+    const { id, violationId } = await params
+    const repositories = await getRepositories(supabase)
+    const useCase = new SubmitViolationFeedbackUseCase(repositories)
+    const result = await useCase.execute({
+      checkId: parseInt(id),
+      violationId: parseInt(violationId),
+      currentUserId: user.id,
+      feedbackType: validationResult.data.feedbackType,
+      comment: validationResult.data.comment
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401
+        : result.code === 'AUTHORIZATION_ERROR' ? 403
+        : result.code === 'NOT_FOUND_ERROR' ? 404
+        : result.code === 'VALIDATION_ERROR' ? 400
+        : 500
+
+      return NextResponse.json(
+        { error: result.error },
+        { status: statusCode }
+      )
+    }
+
+    return NextResponse.json(result.data)
+  } catch (error) {
+    console.error('Violation feedback error:', error)
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    )
+  }
+}
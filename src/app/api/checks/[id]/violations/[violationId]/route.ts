@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { validateDecideViolationSuggestionRequest } from '@/core/dtos/checks'
+import { getRepositories } from '@/core/ports'
+import { DecideViolationSuggestionUseCase } from '@/core/usecases/checks/decideViolationSuggestion'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * 違反ごとの置換案の採否を記録し、最終テキストを返す
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; violationId: string }> }
+): Promise<NextResponse> {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: '認証が必要です' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'リクエストボディが不正です' },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateDecideViolationSuggestionRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: validationResult.error.message },
+        { status: 400 }
+      )
+    }
+
+    // Next.js 15: params is now a Promise
+    const { id, violationId } = await params
+    const repositories = await getRepositories(supabase)
+    const useCase = new DecideViolationSuggestionUseCase(repositories)
+    const result = await useCase.execute({
+      checkId: parseInt(id),
+      violationId: parseInt(violationId),
+      currentUserId: user.id,
+      decision: validationResult.data.decision,
+      selectedText: validationResult.data.selectedText
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401
+        : result.code === 'AUTHORIZATION_ERROR' ? 403
+        : result.code === 'NOT_FOUND_ERROR' ? 404
+        : result.code === 'VALIDATION_ERROR' ? 400
+        : 500
+
+      return NextResponse.json(
+        { error: result.error },
+        { status: statusCode }
+      )
+    }
+
+    return NextResponse.json(result.data)
+  } catch (error) {
+    console.error('Violation decision error:', error)
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import * as XLSX from 'xlsx'
+
+import { SEVERITY_LABELS } from '@/constants/regulatory'
+import {
+  validateCheckBatchIdParams,
+  validateExportCheckBatchQuery,
+  createErrorResponse,
+  getStatusCodeFromError
+} from '@/core/dtos/check-batches'
+import { getRepositories } from '@/core/ports'
+import { GetCheckBatchOutput, GetCheckBatchUseCase } from '@/core/usecases/checks/getCheckBatch'
+import { authenticateRequest } from '@/lib/api-keys'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
+
+type BatchItem = GetCheckBatchOutput['items'][number]
+
+/**
+ * 一括チェックの結果をまとめてダウンロードする（CSV / XLSX）
+ * APIキー（スコープ `checks:write` または `history:read`）でも呼び出せる
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request, ['checks:write', 'history:read'])
+    if (!auth.success) {
+      return NextResponse.json(
+        createErrorResponse(auth.code, auth.message),
+        { status: auth.status }
+      )
+    }
+
+    const paramsValidation = validateCheckBatchIdParams(await params)
+    if (!paramsValidation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          paramsValidation.error.code,
+          paramsValidation.error.message,
+          paramsValidation.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const queryValidation = validateExportCheckBatchQuery({
+      format: request.nextUrl.searchParams.get('format') ?? undefined
+    })
+    if (!queryValidation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          queryValidation.error.code,
+          queryValidation.error.message,
+          queryValidation.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(auth.supabase)
+
+    // レート制限（ユーザー・APIキーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'exports', {
+      repositories,
+      userId: auth.userId,
+      apiKey: auth.apiKey
+    })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
+    const useCase = new GetCheckBatchUseCase(repositories)
+    const result = await useCase.execute({
+      batchId: paramsValidation.data.id,
+      currentUserId: auth.userId,
+      includeViolations: true
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    const fileName = `check_batch_${result.data.batch.id}_${new Date().toISOString().split('T')[0]}`
+    return withRateLimitHeaders(
+      queryValidation.data.format === 'xlsx'
+        ? generateExcelExport(result.data.items, fileName)
+        : generateCSVExport(result.data.items, fileName),
+      rateLimit.headers
+    )
+
+  } catch (error) {
+    console.error('一括チェックエクスポートAPI エラー:', error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
+
+const EXPORT_HEADERS = ['No', 'チェックID', 'ラベル', 'ステータス', '原文', '修正文', '違反数', '違反内容', 'エラー']
+
+/**
+ * 子チェック1件分の出力行（違反は「該当表現 → 修正案（重大度）: 理由」を改行区切りで1セルにまとめる）
+ */
+function toExportRow(item: BatchItem, index: number): (string | number)[] {
+  const violations = (item.violations ?? []).map(violation => {
+    const severity = violation.severity ? `（${SEVERITY_LABELS[violation.severity]}）` : ''
+    const suggestion = violation.suggested_text ? ` → ${violation.suggested_text}` : ''
+    return `${violation.matched_text ?? ''}${suggestion}${severity}: ${violation.reason ?? ''}`
+  })
+
+  return [
+    index + 1,
+    item.id,
+    item.batch_item_label ?? '',
+    getStatusLabel(item.status),
+    item.original_text,
+    item.modified_text ?? '',
+    item.violationCount,
+    violations.join('\n'),
+    item.error_message ?? ''
+  ]
+}
+
+function generateCSVExport(items: BatchItem[], fileName: string) {
+  const escape = (value: string | number) =>
+    typeof value === 'number' ? String(value) : `"${value.replace(/"/g, '""')}"`
+
+  const csvRows = [
+    EXPORT_HEADERS.join(','),
+    ...items.map((item, index) => toExportRow(item, index).map(escape).join(','))
+  ]
+
+  // Excel で文字化けしないよう BOM を付与する
+  return new NextResponse('\uFEFF' + csvRows.join('\n'), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}.csv"`,
+      'Cache-Control': 'no-cache'
+    }
+  })
+}
+
+function generateExcelExport(items: BatchItem[], fileName: string) {
+  const workbook = XLSX.utils.book_new()
+  const worksheet = XLSX.utils.aoa_to_sheet([
+    EXPORT_HEADERS,
+    // Excel のセル上限（32,767文字）に収める
+    ...items.map((item, index) => toExportRow(item, index).map(value =>
+      typeof value === 'string' ? value.substring(0, 32000) : value
+    ))
+  ])
+  worksheet['!cols'] = [
+    { wch: 6 },  // No
+    { wch: 10 }, // チェックID
+    { wch: 25 }, // ラベル
+    { wch: 10 }, // ステータス
+    { wch: 60 }, // 原文
+    { wch: 60 }, // 修正文
+    { wch: 8 },  // 違反数
+    { wch: 60 }, // 違反内容
+    { wch: 30 }  // エラー
+  ]
+  XLSX.utils.book_append_sheet(workbook, worksheet, '一括チェック結果')
+
+  const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+
+  return new NextResponse(buffer, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${fileName}.xlsx"`,
+      'Cache-Control': 'no-cache'
+    }
+  })
+}
+
+function getStatusLabel(status: string | null): string {
+  if (!status) return '不明'
+
+  const statusLabels = {
+    pending: '待機中',
+    processing: '処理中',
+    completed: '完了',
+    failed: 'エラー'
+  }
+  return statusLabels[status as keyof typeof statusLabels] ?? status
+}
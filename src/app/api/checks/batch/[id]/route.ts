@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  validateCheckBatchIdParams,
+  createSuccessResponse,
+  createErrorResponse,
+  getStatusCodeFromError
+} from '@/core/dtos/check-batches'
+import { getRepositories } from '@/core/ports'
+import { GetCheckBatchUseCase } from '@/core/usecases/checks/getCheckBatch'
+import { authenticateRequest } from '@/lib/api-keys'
+
+/**
+ * 一括チェックの進捗と子チェック一覧を取得する
+ * APIキー（スコープ `checks:write` または `history:read`）でも呼び出せる
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request, ['checks:write', 'history:read'])
+    if (!auth.success) {
+      return NextResponse.json(
+        createErrorResponse(auth.code, auth.message),
+        { status: auth.status }
+      )
+    }
+
+    const paramsValidation = validateCheckBatchIdParams(await params)
+    if (!paramsValidation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          paramsValidation.error.code,
+          paramsValidation.error.message,
+          paramsValidation.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(auth.supabase)
+    const useCase = new GetCheckBatchUseCase(repositories)
+    const result = await useCase.execute({
+      batchId: paramsValidation.data.id,
+      currentUserId: auth.userId
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    const { batch, progress, items } = result.data
+    return NextResponse.json(createSuccessResponse({
+      batch: {
+        id: batch.id,
+        name: batch.name,
+        source: batch.source,
+        productCategory: batch.product_category,
+        totalCount: batch.total_count,
+        createdAt: batch.created_at
+      },
+      progress,
+      items: items.map(item => ({
+        checkId: item.id,
+        label: item.batch_item_label,
+        status: item.status,
+        violationCount: item.violationCount,
+        errorMessage: item.error_message,
+        completedAt: item.completed_at
+      }))
+    }))
+
+  } catch (error) {
+    console.error('Check batch API error:', error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
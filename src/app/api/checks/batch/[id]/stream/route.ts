@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server'
+
+import { CHECK_BATCH_CONFIG } from '@/constants/batch'
+import { validateCheckBatchIdParams } from '@/core/dtos/check-batches'
+import { formatSSEMessage, StreamEventType, createErrorResponse } from '@/core/dtos/streaming'
+import { getRepositories } from '@/core/ports'
+import { GetCheckBatchUseCase } from '@/core/usecases/checks/getCheckBatch'
+import { authenticateRequest } from '@/lib/api-keys'
+
+/**
+ * Server-Sent Events (SSE) で一括チェックの集計進捗をストリーミングする
+ * 子チェックのステータスを定期的に集計し、変化があれば progress、全件終了で complete を送る
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request, ['checks:write', 'history:read'])
+    if (!auth.success) {
+      return new Response(
+        formatSSEMessage(StreamEventType.Error, createErrorResponse(auth.code, auth.message)),
+        { status: auth.status, headers: getSSEHeaders() }
+      )
+    }
+
+    const paramsValidation = validateCheckBatchIdParams(await params)
+    if (!paramsValidation.success) {
+      return new Response(
+        formatSSEMessage(StreamEventType.Error, createErrorResponse(
+          paramsValidation.error.code,
+          paramsValidation.error.message,
+          paramsValidation.error.details
+        )),
+        { status: 400, headers: getSSEHeaders() }
+      )
+    }
+
+    const batchId = paramsValidation.data.id
+    const repositories = await getRepositories(auth.supabase)
+    const useCase = new GetCheckBatchUseCase(repositories)
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let timer: ReturnType<typeof setTimeout> | null = null
+        let closed = false
+        let lastSnapshot = ''
+        const startedAt = Date.now()
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          if (timer) clearTimeout(timer)
+          try { controller.close() } catch { /* already closed */ }
+        }
+
+        const send = (event: StreamEventType, data: unknown) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(formatSSEMessage(event, data)))
+        }
+
+        const poll = async () => {
+          if (closed) return
+          try {
+            const result = await useCase.execute({ batchId, currentUserId: auth.userId })
+            if (!result.success) {
+              send(StreamEventType.Error, createErrorResponse(result.error.code, result.error.message))
+              close()
+              return
+            }
+
+            const { progress, items } = result.data
+            const payload = {
+              batchId,
+              progress,
+              items: items.map(item => ({
+                checkId: item.id,
+                label: item.batch_item_label,
+                status: item.status,
+                violationCount: item.violationCount
+              }))
+            }
+
+            if (progress.isFinished) {
+              send(StreamEventType.Complete, payload)
+              close()
+              return
+            }
+
+            // 変化がない場合はハートビートのみ送る
+            const snapshot = JSON.stringify(payload)
+            if (snapshot !== lastSnapshot) {
+              lastSnapshot = snapshot
+              send(StreamEventType.Progress, payload)
+            } else if (!closed) {
+              controller.enqueue(encoder.encode(': heartbeat\n\n'))
+            }
+
+            if (Date.now() - startedAt > CHECK_BATCH_CONFIG.PROGRESS_STREAM_TIMEOUT_MS) {
+              close()
+              return
+            }
+            timer = setTimeout(poll, CHECK_BATCH_CONFIG.PROGRESS_POLL_INTERVAL_MS)
+          } catch (error) {
+            console.error('[SSE] Check batch progress error:', error)
+            send(StreamEventType.Error, createErrorResponse('INTERNAL_ERROR', '進捗の取得でエラーが発生しました'))
+            close()
+          }
+        }
+
+        request.signal.addEventListener('abort', close)
+        void poll()
+      }
+    })
+
+    return new Response(stream, { headers: getSSEHeaders() })
+
+  } catch (error) {
+    console.error('バッチ進捗ストリーミングAPI エラー:', error)
+    return new Response(
+      formatSSEMessage(StreamEventType.Error, createErrorResponse(
+        'INTERNAL_ERROR',
+        'サーバーエラーが発生しました'
+      )),
+      { status: 500, headers: getSSEHeaders() }
+    )
+  }
+}
+
+/**
+ * SSEレスポンス用のヘッダーを取得
+ */
+function getSSEHeaders(): Headers {
+  return new Headers({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  })
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { CHECK_BATCH_CONFIG } from '@/constants/batch'
+import {
+  validateCreateCheckBatchRequest,
+  createSuccessResponse,
+  createErrorResponse,
+  getStatusCodeFromError
+} from '@/core/dtos/check-batches'
+import { getRepositories } from '@/core/ports'
+import { CreateCheckBatchUseCase } from '@/core/usecases/checks/createCheckBatch'
+import { authenticateRequest } from '@/lib/api-keys'
+import { parseBatchFile } from '@/lib/batch-import'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
+
+/**
+ * 一括チェック（バッチ）を作成するAPIエンドポイント
+ * - JSON: { items: [{ text, label? }], name?, productCategory? }（texts: string[] も可）
+ * - multipart/form-data: file（CSV / XLSX）, name?, productCategory?
+ * APIキー（スコープ `checks:write`）でも呼び出せる
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['checks:write'])
+    if (!auth.success) {
+      return NextResponse.json(
+        createErrorResponse(auth.code, auth.message),
+        { status: auth.status }
+      )
+    }
+    const { supabase, userId, apiKey } = auth
+
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（ユーザー・APIキーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'checks', { repositories, userId, apiKey })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
+    // リクエストボディの取得（JSON または ファイルアップロード）
+    let requestData: Record<string, unknown>
+    const contentType = request.headers.get('content-type') ?? ''
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          createErrorResponse('VALIDATION_ERROR', 'ファイルを指定してください'),
+          { status: 400 }
+        )
+      }
+      if (file.size > CHECK_BATCH_CONFIG.MAX_UPLOAD_SIZE) {
+        return NextResponse.json(
+          createErrorResponse('VALIDATION_ERROR', `ファイルサイズは${CHECK_BATCH_CONFIG.MAX_UPLOAD_SIZE / 1024 / 1024}MB以下である必要があります`),
+          { status: 413 }
+        )
+      }
+
+      let parsed
+      try {
+        parsed = parseBatchFile(await file.arrayBuffer(), file.name)
+      } catch (parseError) {
+        return NextResponse.json(
+          createErrorResponse(
+            'VALIDATION_ERROR',
+            parseError instanceof Error ? parseError.message : 'ファイルを読み込めませんでした'
+          ),
+          { status: 400 }
+        )
+      }
+
+      requestData = {
+        items: parsed.items,
+        source: parsed.source,
+        name: (formData.get('name') as string | null) ?? file.name,
+        productCategory: (formData.get('productCategory') as string | null) ?? undefined
+      }
+    } else {
+      let body
+      try {
+        body = await request.json()
+      } catch {
+        return NextResponse.json(
+          createErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body'),
+          { status: 400 }
+        )
+      }
+
+      requestData = {
+        items: body.items ?? (Array.isArray(body.texts) ? body.texts.map((text: unknown) => ({ text })) : undefined),
+        source: 'text',
+        name: body.name,
+        productCategory: body.product_category ?? body.productCategory
+      }
+    }
+
+    // DTOバリデーション
+    const validationResult = validateCreateCheckBatchRequest(requestData)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const userData = await repositories.users.findById(userId)
+    if (!userData?.organization_id) {
+      return NextResponse.json(
+        createErrorResponse('AUTHORIZATION_ERROR', 'User not in organization'),
+        { status: 404 }
+      )
+    }
+
+    // ユースケース実行
+    const createCheckBatchUseCase = new CreateCheckBatchUseCase(repositories)
+    const result = await createCheckBatchUseCase.execute({
+      userId,
+      organizationId: userData.organization_id,
+      items: validationResult.data.items,
+      name: validationResult.data.name,
+      source: validationResult.data.source,
+      productCategory: validationResult.data.productCategory ?? null
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return withRateLimitHeaders(
+      NextResponse.json(createSuccessResponse(result.data), { status: 201 }),
+      rateLimit.headers
+    )
+
+  } catch (error) {
+    console.error('Error in check batch API:', error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'Internal server error'),
+      { status: 500 }
+    )
+  }
+}
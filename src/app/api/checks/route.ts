@@ -7,46 +7,34 @@ import {
 } from '@/core/dtos/checks'
 import { getRepositories } from '@/core/ports'
 import { CreateCheckUseCase } from '@/core/usecases/checks/createCheck'
-import { createClient } from '@/infra/supabase/serverClient'
+import { authenticateRequest } from '@/lib/api-keys'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 /**
  * 薬機法チェック処理を開始するAPIエンドポイント（リファクタリング済み）
  * DTOバリデーション → ユースケース呼び出し → レスポンス変換の薄い層
+ * APIキー（スコープ `checks:write`）でも呼び出せる
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient()
-
-    // 認証チェック
-    const { data: { user }, error: authError } = await supabase.auth.getUser()
-    
-    // Authorizationヘッダーでのフォールバック認証（必要に応じて）
-    if (!user && !authError) {
-      const authHeader = request.headers.get('Authorization')
-      if (authHeader?.startsWith('Bearer ')) {
-        const token = authHeader.substring(7)
-        try {
-          const { createClient: createServiceClient } = await import('@supabase/supabase-js')
-          const supabaseService = createServiceClient(
-            process.env.NEXT_PUBLIC_SUPABASE_URL!,
-            process.env.SUPABASE_SERVICE_ROLE_KEY!
-          )
-          const { data: { user: tokenUser }, error: tokenError } = await supabaseService.auth.getUser(token)
-          if (tokenUser && !tokenError) {
-            // Note: この実装はより複雑な認証ハンドリングが必要かもしれません
-          }
-        } catch {
-          // トークン検証失敗時は通常の認証エラー処理に進む
-        }
-      }
-    }
-
-    if (authError || !user) {
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['checks:write'])
+    if (!auth.success) {
       return NextResponse.json(
-        createErrorResponse('AUTHENTICATION_ERROR', 'Unauthorized'),
-        { status: 401 }
+        createErrorResponse(auth.code, auth.message),
+        { status: auth.status }
       )
     }
+    const { supabase, userId, apiKey } = auth
+
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（ユーザー・APIキーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'checks', { repositories, userId, apiKey })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
 
     // リクエストボディの取得と基本バリデーション
     let body
@@ -63,7 +51,10 @@ export async function POST(request: NextRequest) {
     const requestData = {
       text: body.text ?? '',
       inputType: body.input_type ?? body.inputType ?? 'text',
-      fileName: body.fileName
+      imageUrl: body.image_url ?? body.imageUrl,
+      sourceUrl: body.source_url ?? body.sourceUrl,
+      fileName: body.fileName,
+      productCategory: body.product_category ?? body.productCategory
     }
 
     // DTOバリデーション
@@ -79,11 +70,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // リポジトリコンテナの取得
-    const repositories = await getRepositories(supabase)
-
     // ユーザーの組織ID取得（簡略化）
-    const userData = await repositories.users.findById(user.id)
+    const userData = await repositories.users.findById(userId)
     if (!userData?.organization_id) {
       return NextResponse.json(
         createErrorResponse('AUTHORIZATION_ERROR', 'User not in organization'),
@@ -94,11 +82,14 @@ export async function POST(request: NextRequest) {
     // ユースケース実行
     const createCheckUseCase = new CreateCheckUseCase(repositories)
     const result = await createCheckUseCase.execute({
-      userId: user.id,
+      userId,
       organizationId: userData.organization_id,
       originalText: validationResult.data.text,
       inputType: validationResult.data.inputType,
-      fileName: validationResult.data.fileName
+      imageUrl: validationResult.data.imageUrl,
+      sourceUrl: validationResult.data.sourceUrl,
+      fileName: validationResult.data.fileName,
+      productCategory: validationResult.data.productCategory ?? null
     })
 
     // 結果の処理
@@ -111,12 +102,15 @@ export async function POST(request: NextRequest) {
     }
 
     // 成功レスポンス
-    return NextResponse.json(
-      createSuccessResponse({
-        checkId: result.data.checkId,
-        status: result.data.status,
-        message: result.data.message
-      })
+    return withRateLimitHeaders(
+      NextResponse.json(
+        createSuccessResponse({
+          checkId: result.data.checkId,
+          status: result.data.status,
+          message: result.data.message
+        })
+      ),
+      rateLimit.headers
     )
 
   } catch (error) {
@@ -116,7 +116,7 @@ export async function GET(request: NextRequest) {
 
         try {
           // キューマネージャーから現在の状況を取得
-          const queueStatus = queueManager.getStatus()
+          const queueStatus = await queueManager.getStatus()
           
           // データベースから処理中のチェック数を取得（より正確な情報）
           const processingChecks = await repositories.checks.findMany({
@@ -72,7 +72,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       console.error('Error parsing JSON:', error);
       return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
     }
-    const { phrase, category, notes } = body;
+    const { phrase, category, notes, regulatoryCategory, productCategory } = body;
 
     // リポジトリコンテナとUseCase作成
     const repositories = await getRepositories(supabase);
@@ -84,7 +84,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       currentUserId: user.id,
       phrase,
       category,
-      notes
+      notes,
+      regulatoryCategory,
+      productCategory
     });
 
     // 結果処理
@@ -7,6 +7,7 @@ import {
 import { getRepositories } from "@/core/ports"
 import { ExportDictionariesUseCase } from '@/core/usecases/dictionaries/exportDictionaries'
 import { createClient } from "@/infra/supabase/serverClient"
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 /**
  * 辞書エクスポートAPI（リファクタリング済み）
@@ -25,6 +26,15 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（ユーザーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'exports', { repositories, userId: user.id })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
     // クエリパラメータの取得とバリデーション
     const url = new URL(request.url)
     const queryParams = {
@@ -43,9 +53,6 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // リポジトリコンテナの取得
-    const repositories = await getRepositories(supabase)
-
     // ユースケース実行
     const exportDictionariesUseCase = new ExportDictionariesUseCase(repositories)
     const result = await exportDictionariesUseCase.execute({
@@ -63,14 +70,17 @@ export async function GET(request: NextRequest) {
     }
 
     // 成功レスポンス（ファイルダウンロード）
-    return new NextResponse(result.data.content, {
-      status: 200,
-      headers: {
-        'Content-Type': result.data.contentType,
-        'Content-Disposition': `attachment; filename="${result.data.filename}"`,
-        'Cache-Control': 'no-cache'
-      }
-    })
+    return withRateLimitHeaders(
+      new NextResponse(result.data.content, {
+        status: 200,
+        headers: {
+          'Content-Type': result.data.contentType,
+          'Content-Disposition': `attachment; filename="${result.data.filename}"`,
+          'Cache-Control': 'no-cache'
+        }
+      }),
+      rateLimit.headers
+    )
 
   } catch (error) {
     console.error("辞書エクスポートAPI エラー:", error)
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { validateResolveDictionarySuggestionRequest } from "@/core/dtos/violation-feedback"
+import { getRepositories } from "@/core/ports"
+import { GetDictionaryFeedbackUseCase } from "@/core/usecases/dictionaries/getDictionaryFeedback"
+import { ResolveDictionarySuggestionUseCase } from "@/core/usecases/dictionaries/resolveDictionarySuggestion"
+import { createClient } from "@/infra/supabase/serverClient"
+
+/**
+ * レビューのフィードバックからの辞書提案と、辞書項目ごとの適合率の推定値
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new GetDictionaryFeedbackUseCase(repositories)
+
+    const result = await useCase.execute({ currentUserId: user.id })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('辞書フィードバック取得APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
+
+/**
+ * 辞書提案を反映する（許可表現・NG表現として追加）か見送る
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    const validation = validateResolveDictionarySuggestionRequest(body)
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.message }, { status: 400 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new ResolveDictionarySuggestionUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      kind: validation.data.kind,
+      phrase: validation.data.phrase,
+      action: validation.data.action,
+      regulatoryCategory: validation.data.regulatoryCategory
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'VALIDATION_ERROR' ? 400
+                        : result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : result.code === 'NOT_FOUND_ERROR' ? 404
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('辞書提案反映APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
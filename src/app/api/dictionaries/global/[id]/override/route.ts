@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { validateSetDictionaryOverrideRequest } from "@/core/dtos/global-dictionaries"
+import { getRepositories } from "@/core/ports"
+import { RemoveDictionaryOverrideUseCase } from "@/core/usecases/dictionaries/removeDictionaryOverride"
+import { SetDictionaryOverrideUseCase } from "@/core/usecases/dictionaries/setDictionaryOverride"
+import { createClient } from "@/infra/supabase/serverClient"
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * 共通辞書項目を組織で上書き（無効化 / 許可）
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    const validation = validateSetDictionaryOverrideRequest(body)
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.message }, { status: 400 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new SetDictionaryOverrideUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      globalDictionaryId: parseInt(id),
+      action: validation.data.action,
+      notes: validation.data.notes
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'VALIDATION_ERROR' ? 400
+                        : result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : result.code === 'NOT_FOUND_ERROR' ? 404
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('共通辞書上書きAPIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
+
+/**
+ * 共通辞書項目の上書きを解除
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new RemoveDictionaryOverrideUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      globalDictionaryId: parseInt(id)
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'VALIDATION_ERROR' ? 400
+                        : result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : result.code === 'NOT_FOUND_ERROR' ? 404
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('共通辞書上書き解除APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+
+import { getRepositories } from "@/core/ports"
+import { GetGlobalDictionaryUseCase } from "@/core/usecases/dictionaries/getGlobalDictionary"
+import { createClient } from "@/infra/supabase/serverClient"
+
+/**
+ * 組織が継承する共通辞書（継承の状態付き）
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new GetGlobalDictionaryUseCase(repositories)
+
+    const result = await useCase.execute({ currentUserId: user.id })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401 : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('共通辞書取得APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
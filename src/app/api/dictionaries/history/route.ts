@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { validateGetDictionaryChangesQuery } from "@/core/dtos/dictionary-versions"
+import { getRepositories } from "@/core/ports"
+import { GetDictionaryChangesUseCase } from "@/core/usecases/dictionaries/getDictionaryChanges"
+import { createClient } from "@/infra/supabase/serverClient"
+
+/**
+ * 辞書の変更履歴（?dictionaryId=<ID> で辞書項目ごとに絞り込み）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    const validation = validateGetDictionaryChangesQuery(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.message }, { status: 400 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new GetDictionaryChangesUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      ...validation.data
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401 : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('辞書変更履歴APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
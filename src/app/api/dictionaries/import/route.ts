@@ -8,6 +8,7 @@ import {
 import { getRepositories } from '@/core/ports'
 import { ImportDictionariesUseCase } from '@/core/usecases/dictionaries/importDictionaries'
 import { createClient } from "@/infra/supabase/serverClient"
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 /**
  * 辞書インポートAPI（リファクタリング済み）
@@ -26,6 +27,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（ユーザーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'uploads', { repositories, userId: user.id })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
     // Content-Typeチェック
     const contentType = request.headers.get("content-type") ?? ""
     if (!contentType.includes("text/csv")) {
@@ -66,9 +76,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // リポジトリコンテナの取得
-    const repositories = await getRepositories(supabase)
-
     // ユースケース実行
     const importDictionariesUseCase = new ImportDictionariesUseCase(repositories)
     const result = await importDictionariesUseCase.execute({
@@ -87,8 +94,9 @@ export async function POST(request: NextRequest) {
     }
 
     // 成功レスポンス
-    return NextResponse.json(
-      createSuccessResponse(result.data)
+    return withRateLimitHeaders(
+      NextResponse.json(createSuccessResponse(result.data)),
+      rateLimit.headers
     )
 
   } catch (error) {
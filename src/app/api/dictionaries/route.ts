@@ -9,7 +9,7 @@ import {
 import { getRepositories } from "@/core/ports";
 import { CreateDictionaryUseCase } from '@/core/usecases/dictionaries/createDictionary'
 import { GetDictionariesUseCase } from '@/core/usecases/dictionaries/getDictionaries'
-import { createClient } from "@/infra/supabase/serverClient";
+import { authenticateRequest } from "@/lib/api-keys";
 
 /**
  * 辞書一覧取得API（リファクタリング済み）
@@ -17,16 +17,15 @@ import { createClient } from "@/infra/supabase/serverClient";
  */
 export async function GET(request: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // 認証チェック
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['dictionaries:read']);
+    if (!auth.success) {
       return NextResponse.json(
-        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
-        { status: 401 }
+        createErrorResponse(auth.code, auth.message),
+        { status: auth.status }
       );
     }
+    const { supabase, userId } = auth;
 
     // クエリパラメータの取得とバリデーション
     const url = new URL(request.url);
@@ -53,7 +52,7 @@ export async function GET(request: NextRequest) {
     // ユースケース実行
     const getDictionariesUseCase = new GetDictionariesUseCase(repositories)
     const result = await getDictionariesUseCase.execute({
-      userId: user.id,
+      userId,
       search: validationResult.data.search,
       category: validationResult.data.category
     })
@@ -86,16 +85,15 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const supabase = await createClient();
-
-    // 認証チェック
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
-    if (authError || !user) {
+    // 認証チェック（Cookieセッション または APIキー）
+    const auth = await authenticateRequest(request, ['dictionaries:write']);
+    if (!auth.success) {
       return NextResponse.json(
-        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
-        { status: 401 }
+        createErrorResponse(auth.code, auth.message),
+        { status: auth.status }
       );
     }
+    const { supabase, userId } = auth;
 
     // リクエストボディの取得と基本バリデーション
     let body
@@ -125,7 +123,7 @@ export async function POST(request: NextRequest) {
     const repositories = await getRepositories(supabase);
 
     // ユーザーの組織ID取得（簡略化）
-    const userData = await repositories.users.findById(user.id)
+    const userData = await repositories.users.findById(userId)
     if (!userData?.organization_id) {
       return NextResponse.json(
         createErrorResponse('AUTHORIZATION_ERROR', 'User not in organization'),
@@ -136,11 +134,13 @@ export async function POST(request: NextRequest) {
     // ユースケース実行
     const createDictionaryUseCase = new CreateDictionaryUseCase(repositories)
     const result = await createDictionaryUseCase.execute({
-      userId: user.id,
+      userId,
       organizationId: userData.organization_id,
       phrase: validationResult.data.phrase,
       category: validationResult.data.category,
-      reasoning: validationResult.data.reasoning
+      reasoning: validationResult.data.reasoning,
+      regulatoryCategory: validationResult.data.regulatoryCategory,
+      productCategory: validationResult.data.productCategory
     })
 
     // 結果の処理
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { getRepositories } from "@/core/ports"
+import { RollbackDictionaryUseCase } from "@/core/usecases/dictionaries/rollbackDictionary"
+import { createClient } from "@/infra/supabase/serverClient"
+
+interface RouteParams {
+  params: Promise<{
+    id: string
+  }>
+}
+
+/**
+ * 辞書をスナップショットの内容に戻す
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new RollbackDictionaryUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      snapshotId: parseInt(id)
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'VALIDATION_ERROR' ? 400
+                        : result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : result.code === 'NOT_FOUND_ERROR' ? 404
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('辞書ロールバックAPIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { validateCompareDictionarySnapshotsQuery } from "@/core/dtos/dictionary-versions"
+import { getRepositories } from "@/core/ports"
+import { CompareDictionarySnapshotsUseCase } from "@/core/usecases/dictionaries/compareDictionarySnapshots"
+import { createClient } from "@/infra/supabase/serverClient"
+
+/**
+ * 辞書スナップショットの比較（?from=<ID>&to=<ID>、to 省略時は現在の辞書と比較）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    const validation = validateCompareDictionarySnapshotsQuery(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.message }, { status: 400 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new CompareDictionarySnapshotsUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      fromSnapshotId: validation.data.from,
+      toSnapshotId: validation.data.to
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'VALIDATION_ERROR' ? 400
+                        : result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'NOT_FOUND_ERROR' ? 404
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('辞書スナップショット比較APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
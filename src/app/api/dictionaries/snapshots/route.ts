@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import {
+  validateCreateDictionarySnapshotRequest,
+  validateGetDictionarySnapshotsQuery
+} from "@/core/dtos/dictionary-versions"
+import { getRepositories } from "@/core/ports"
+import { CreateDictionarySnapshotUseCase } from "@/core/usecases/dictionaries/createDictionarySnapshot"
+import { GetDictionarySnapshotsUseCase } from "@/core/usecases/dictionaries/getDictionarySnapshots"
+import { createClient } from "@/infra/supabase/serverClient"
+
+/**
+ * 辞書スナップショット一覧
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    const validation = validateGetDictionarySnapshotsQuery(Object.fromEntries(request.nextUrl.searchParams))
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.message }, { status: 400 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new GetDictionarySnapshotsUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      ...validation.data
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'AUTHENTICATION_ERROR' ? 401 : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (e) {
+    console.error('辞書スナップショット一覧APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
+
+/**
+ * 現在の辞書のスナップショットを作成
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    if (userError || !user) {
+      return NextResponse.json({ error: "認証が必要です" }, { status: 401 })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    const validation = validateCreateDictionarySnapshotRequest(body)
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error.message }, { status: 400 })
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new CreateDictionarySnapshotUseCase(repositories)
+
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      name: validation.data.name,
+      description: validation.data.description
+    })
+
+    if (!result.success) {
+      const statusCode = result.code === 'VALIDATION_ERROR' ? 400
+                        : result.code === 'AUTHENTICATION_ERROR' ? 401
+                        : result.code === 'AUTHORIZATION_ERROR' ? 403
+                        : 500
+      return NextResponse.json({ error: result.error }, { status: statusCode })
+    }
+
+    return NextResponse.json(result.data, { status: 201 })
+  } catch (e) {
+    console.error('辞書スナップショット作成APIエラー:', e)
+    return NextResponse.json({ error: 'サーバーエラーが発生しました' }, { status: 500 })
+  }
+}
@@ -7,9 +7,10 @@ import {
 import { getRepositories } from '@/core/ports'
 import { UploadImageUseCase } from '@/core/usecases/images/uploadImage'
 import { createClient } from '@/infra/supabase/serverClient'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 /**
- * 画像アップロードAPI（リファクタリング済み）
+ * 画像アップロードAPI（リファクタリング済み、PDFチェック用のPDFも受け付ける）
  * DTO validate → usecase 呼び出し → HTTP 変換の薄い層
  */
 export async function POST(request: NextRequest) {
@@ -25,6 +26,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（ユーザーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'uploads', { repositories, userId: user.id })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
     // フォームデータの取得とファイルの基本バリデーション
     let formData
     try {
@@ -47,14 +57,11 @@ export async function POST(request: NextRequest) {
     const file = formData.get('image')
     if (!file || !(file instanceof File)) {
       return NextResponse.json(
-        createErrorResponse('VALIDATION_ERROR', '画像ファイルが必要です'),
+        createErrorResponse('VALIDATION_ERROR', '画像またはPDFファイルが必要です'),
         { status: 400 }
       )
     }
 
-    // リポジトリコンテナの取得
-    const repositories = await getRepositories(supabase)
-
     // ユースケース実行
     const uploadImageUseCase = new UploadImageUseCase(repositories)
     const result = await uploadImageUseCase.execute({
@@ -83,8 +90,9 @@ export async function POST(request: NextRequest) {
     }
 
     // 成功レスポンス
-    return NextResponse.json(
-      createSuccessResponse(result.data)
+    return withRateLimitHeaders(
+      NextResponse.json(createSuccessResponse(result.data)),
+      rateLimit.headers
     )
 
   } catch (error) {
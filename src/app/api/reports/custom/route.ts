@@ -7,6 +7,7 @@ import {
 import { getRepositories } from '@/core/ports'
 import { GenerateCustomReportUseCase } from '@/core/usecases/reports/generateCustomReport'
 import { createClient } from '@/infra/supabase/serverClient'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 /**
  * カスタムレポート生成API（リファクタリング済み）
@@ -25,6 +26,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（ユーザーごと、組織ごと）
+    const rateLimit = await enforceRateLimit(request, 'exports', { repositories, userId: user.id })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
     // リクエストボディの取得と基本バリデーション
     let body
     try {
@@ -49,9 +59,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // リポジトリコンテナの取得
-    const repositories = await getRepositories(supabase)
-
     // ユースケース実行
     const generateCustomReportUseCase = new GenerateCustomReportUseCase(repositories)
     const result = await generateCustomReportUseCase.execute({
@@ -75,14 +82,17 @@ export async function POST(request: NextRequest) {
     }
 
     // 成功レスポンス（バイナリファイル）
-    return new NextResponse(result.data.buffer as BodyInit, {
-      status: 200,
-      headers: {
-        'Content-Type': result.data.contentType,
-        'Content-Disposition': `attachment; filename="${result.data.filename}"`,
-        'Cache-Control': 'no-cache'
-      }
-    })
+    return withRateLimitHeaders(
+      new NextResponse(result.data.buffer as BodyInit, {
+        status: 200,
+        headers: {
+          'Content-Type': result.data.contentType,
+          'Content-Disposition': `attachment; filename="${result.data.filename}"`,
+          'Cache-Control': 'no-cache'
+        }
+      }),
+      rateLimit.headers
+    )
 
   } catch (error) {
     console.error("カスタムレポート生成API エラー:", error)
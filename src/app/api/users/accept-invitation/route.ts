@@ -3,10 +3,18 @@ import { NextRequest, NextResponse } from "next/server";
 import { getRepositories } from "@/core/ports";
 import { AcceptInvitationUseCase } from "@/core/usecases/users/acceptInvitation";
 import { createClient } from "@/infra/supabase/serverClient";
+import { enforceRateLimit, withRateLimitHeaders } from "@/lib/rate-limit";
 
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const repositories = await getRepositories(supabase);
+
+    // レート制限（未認証のためIPアドレスごと）
+    const rateLimit = await enforceRateLimit(request, "auth", { repositories });
+    if (!rateLimit.allowed) {
+      return rateLimit.response;
+    }
 
     // リクエストボディ解析
     let body;
@@ -18,8 +26,7 @@ export async function POST(request: NextRequest) {
     }
     const { token, password } = body;
 
-    // リポジトリコンテナとUseCase作成
-    const repositories = await getRepositories(supabase);
+    // UseCase作成
     const useCase = new AcceptInvitationUseCase(repositories);
 
     // UseCase実行（事前バリデーションのみ）
@@ -78,14 +85,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
-      message:
-        "アカウントが作成されました。メールを確認してアカウントを有効化してください。",
-      user: {
-        id: authData.user.id,
-        email: authData.user.email,
-      },
-    });
+    return withRateLimitHeaders(
+      NextResponse.json({
+        message:
+          "アカウントが作成されました。メールを確認してアカウントを有効化してください。",
+        user: {
+          id: authData.user.id,
+          email: authData.user.email,
+        },
+      }),
+      rateLimit.headers,
+    );
   } catch (error) {
     console.error("Accept invitation error:", error);
     return NextResponse.json(
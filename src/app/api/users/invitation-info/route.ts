@@ -8,6 +8,7 @@ import {
 import { getRepositories } from '@/core/ports'
 import { GetInvitationInfoUseCase } from '@/core/usecases/users/getInvitationInfo'
 import { createClient } from "@/infra/supabase/serverClient";
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit'
 
 /**
  * 招待情報取得API（リファクタリング済み）
@@ -15,6 +16,17 @@ import { createClient } from "@/infra/supabase/serverClient";
  */
 export async function GET(request: NextRequest) {
   try {
+    const supabase = await createClient()
+
+    // リポジトリコンテナの取得
+    const repositories = await getRepositories(supabase)
+
+    // レート制限（未認証のためIPアドレスごと。招待トークンの総当たりを防ぐ）
+    const rateLimit = await enforceRateLimit(request, 'auth', { repositories })
+    if (!rateLimit.allowed) {
+      return rateLimit.response
+    }
+
     const searchParams = request.nextUrl.searchParams;
     const queryParams = Object.fromEntries(searchParams.entries())
 
@@ -31,11 +43,6 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const supabase = await createClient()
-    
-    // リポジトリコンテナの取得
-    const repositories = await getRepositories(supabase)
-
     // ユースケース実行
     const getInvitationInfoUseCase = new GetInvitationInfoUseCase(repositories)
     const result = await getInvitationInfoUseCase.execute({
@@ -52,7 +59,7 @@ export async function GET(request: NextRequest) {
     }
 
     // 成功レスポンス
-    return NextResponse.json(createSuccessResponse(result.data))
+    return withRateLimitHeaders(NextResponse.json(createSuccessResponse(result.data)), rateLimit.headers)
 
   } catch (error) {
     console.error("招待情報取得API エラー:", error)
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getStatusCodeFromError,
+  validateUpdateWebhookEndpointRequest,
+  validateWebhookIdParams
+} from '@/core/dtos/webhooks'
+import { getRepositories } from '@/core/ports'
+import { DeleteWebhookEndpointUseCase } from '@/core/usecases/webhooks/deleteWebhookEndpoint'
+import { UpdateWebhookEndpointUseCase } from '@/core/usecases/webhooks/updateWebhookEndpoint'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * Webhook エンドポイント更新API（URL・イベント種別・有効/無効）
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    const paramsValidation = validateWebhookIdParams(await params)
+    if (!paramsValidation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          paramsValidation.error.code,
+          paramsValidation.error.message,
+          paramsValidation.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body'),
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateUpdateWebhookEndpointRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new UpdateWebhookEndpointUseCase(repositories)
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      endpointId: paramsValidation.data.id,
+      updates: validationResult.data
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data))
+
+  } catch (error) {
+    console.error("Webhook エンドポイント更新API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Webhook エンドポイント削除API
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    const paramsValidation = validateWebhookIdParams(await params)
+    if (!paramsValidation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          paramsValidation.error.code,
+          paramsValidation.error.message,
+          paramsValidation.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new DeleteWebhookEndpointUseCase(repositories)
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      endpointId: paramsValidation.data.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data))
+
+  } catch (error) {
+    console.error("Webhook エンドポイント削除API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
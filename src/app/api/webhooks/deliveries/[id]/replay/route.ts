@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getStatusCodeFromError,
+  validateWebhookIdParams
+} from '@/core/dtos/webhooks'
+import { getRepositories } from '@/core/ports'
+import { ReplayWebhookDeliveryUseCase } from '@/core/usecases/webhooks/replayWebhookDelivery'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * Webhook 再送API
+ * 同じペイロードで新しい配信ログを作成して即時送信する
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    const paramsValidation = validateWebhookIdParams(await params)
+    if (!paramsValidation.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          paramsValidation.error.code,
+          paramsValidation.error.message,
+          paramsValidation.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new ReplayWebhookDeliveryUseCase(repositories)
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      deliveryId: paramsValidation.data.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data))
+
+  } catch (error) {
+    console.error("Webhook 再送API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
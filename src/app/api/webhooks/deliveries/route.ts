@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getStatusCodeFromError,
+  validateGetWebhookDeliveriesQuery
+} from '@/core/dtos/webhooks'
+import { getRepositories } from '@/core/ports'
+import { GetWebhookDeliveriesUseCase } from '@/core/usecases/webhooks/getWebhookDeliveries'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * Webhook 配信ログ取得API（新しい順）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    const url = request.nextUrl
+    const validationResult = validateGetWebhookDeliveriesQuery({
+      endpointId: url.searchParams.get('endpointId') ?? undefined,
+      status: url.searchParams.get('status') ?? undefined,
+      limit: url.searchParams.get('limit') ?? undefined
+    })
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new GetWebhookDeliveriesUseCase(repositories)
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      ...validationResult.data
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data))
+
+  } catch (error) {
+    console.error("Webhook 配信ログ取得API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
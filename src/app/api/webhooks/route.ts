@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getStatusCodeFromError,
+  validateCreateWebhookEndpointRequest
+} from '@/core/dtos/webhooks'
+import { getRepositories } from '@/core/ports'
+import { CreateWebhookEndpointUseCase } from '@/core/usecases/webhooks/createWebhookEndpoint'
+import { GetWebhookEndpointsUseCase } from '@/core/usecases/webhooks/getWebhookEndpoints'
+import { createClient } from '@/infra/supabase/serverClient'
+
+/**
+ * Webhook エンドポイント一覧取得API（組織管理者のみ）
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new GetWebhookEndpointsUseCase(repositories)
+    const result = await useCase.execute({ currentUserId: user.id })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data))
+
+  } catch (error) {
+    console.error("Webhook エンドポイント一覧取得API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Webhook エンドポイント登録API（組織管理者のみ）
+ * 署名シークレットはこのレスポンスでのみ平文で返す
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // 認証チェック
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        createErrorResponse('AUTHENTICATION_ERROR', '認証が必要です'),
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        createErrorResponse('VALIDATION_ERROR', 'Invalid JSON in request body'),
+        { status: 400 }
+      )
+    }
+
+    const validationResult = validateCreateWebhookEndpointRequest(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        createErrorResponse(
+          validationResult.error.code,
+          validationResult.error.message,
+          validationResult.error.details
+        ),
+        { status: 400 }
+      )
+    }
+
+    const repositories = await getRepositories(supabase)
+    const useCase = new CreateWebhookEndpointUseCase(repositories)
+    const result = await useCase.execute({
+      currentUserId: user.id,
+      url: validationResult.data.url,
+      description: validationResult.data.description,
+      eventTypes: validationResult.data.eventTypes
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        createErrorResponse(result.error.code, result.error.message),
+        { status: getStatusCodeFromError(result.error.code) }
+      )
+    }
+
+    return NextResponse.json(createSuccessResponse(result.data), { status: 201 })
+
+  } catch (error) {
+    console.error("Webhook エンドポイント登録API エラー:", error)
+    return NextResponse.json(
+      createErrorResponse('INTERNAL_ERROR', 'サーバーエラーが発生しました'),
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { Wrench } from 'lucide-react'
+import { redirect } from 'next/navigation'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { getMaintenanceState } from '@/lib/maintenance'
+import { createClient } from '@/lib/supabase/server'
+
+/**
+ * メンテナンス案内ページ
+ * メンテナンス中はミドルウェアがプラットフォーム管理者以外の画面をこのページに差し替える
+ */
+export default async function MaintenancePage() {
+  const supabase = await createClient()
+  const maintenance = await getMaintenanceState(supabase)
+  if (!maintenance.enabled) {
+    redirect('/')
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex justify-center">
+            <Wrench className="h-10 w-10 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-center">AdLex はメンテナンス中です</CardTitle>
+          <CardDescription className="text-center">
+            ご不便をおかけして申し訳ありません
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          <p className="text-sm text-gray-600 whitespace-pre-wrap">{maintenance.message}</p>
+          <p className="text-xs text-muted-foreground">
+            実行中のチェックは中断されません。メンテナンス終了後に結果をご確認ください。
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
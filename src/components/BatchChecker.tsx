@@ -0,0 +1,345 @@
+'use client'
+
+import { Download, Loader2, UploadCloud } from 'lucide-react'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+import { PRODUCT_CATEGORY_CODES, PRODUCT_CATEGORY_LABELS, ProductCategory } from '@/constants'
+import { CHECK_BATCH_CONFIG } from '@/constants/batch'
+import { useToast } from '@/hooks/use-toast'
+import { authFetch } from '@/lib/api-client'
+
+interface BatchProgress {
+  total: number
+  pending: number
+  processing: number
+  completed: number
+  failed: number
+  finished: number
+  percentage: number
+  withViolations: number
+  isFinished: boolean
+}
+
+interface BatchItemStatus {
+  checkId: number
+  label: string | null
+  status: string | null
+  violationCount: number
+}
+
+interface BatchStreamData {
+  batchId: number
+  progress: BatchProgress
+  items: BatchItemStatus[]
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: '待機中',
+  processing: '処理中',
+  completed: '完了',
+  failed: 'エラー'
+}
+
+/**
+ * 貼り付けテキストを空行区切りで分割する
+ */
+const splitPastedText = (value: string) =>
+  value.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean)
+
+async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json()
+    return data?.error?.message ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * 一括チェック（複数テキストの貼り付け / CSV・XLSXアップロード）
+ * 送信後は SSE で集計進捗を表示し、完了後に結果をまとめてダウンロードできる
+ */
+export default function BatchChecker() {
+  const { toast } = useToast()
+  const [mode, setMode] = useState<'text' | 'file'>('text')
+  const [pastedText, setPastedText] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [name, setName] = useState('')
+  const [productCategory, setProductCategory] = useState<ProductCategory | ''>('')
+  const [submitting, setSubmitting] = useState(false)
+  const [batchId, setBatchId] = useState<number | null>(null)
+  const [streamData, setStreamData] = useState<BatchStreamData | null>(null)
+  const [streamError, setStreamError] = useState<string | null>(null)
+
+  const pastedItems = splitPastedText(pastedText)
+  const isOverLimit = pastedItems.length > CHECK_BATCH_CONFIG.MAX_ITEMS
+  const canSubmit = !submitting && (mode === 'text' ? pastedItems.length > 0 && !isOverLimit : file !== null)
+
+  // バッチ進捗の購読
+  useEffect(() => {
+    if (batchId === null) return
+
+    const eventSource = new EventSource(`/api/checks/batch/${batchId}/stream`)
+
+    const handleData = (event: MessageEvent) => {
+      try {
+        setStreamData(JSON.parse(event.data) as BatchStreamData)
+      } catch {
+        // 不正なメッセージは無視
+      }
+    }
+
+    eventSource.addEventListener('progress', handleData)
+    eventSource.addEventListener('complete', (event) => {
+      handleData(event as MessageEvent)
+      eventSource.close()
+    })
+    eventSource.addEventListener('error', (event) => {
+      const data = (event as MessageEvent).data
+      if (typeof data === 'string') {
+        try {
+          setStreamError(JSON.parse(data)?.error?.message ?? '進捗の取得に失敗しました')
+        } catch {
+          setStreamError('進捗の取得に失敗しました')
+        }
+        eventSource.close()
+      }
+    })
+
+    return () => {
+      eventSource.close()
+    }
+  }, [batchId])
+
+  const submit = async () => {
+    setSubmitting(true)
+    setStreamData(null)
+    setStreamError(null)
+    try {
+      let res: Response
+      if (mode === 'file' && file) {
+        const formData = new FormData()
+        formData.append('file', file)
+        if (name.trim()) formData.append('name', name.trim())
+        if (productCategory) formData.append('productCategory', productCategory)
+        res = await authFetch('/api/checks/batch', { method: 'POST', body: formData })
+      } else {
+        res = await authFetch('/api/checks/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            items: pastedItems.map(text => ({ text })),
+            name: name.trim() || undefined,
+            productCategory: productCategory || undefined
+          })
+        })
+      }
+
+      if (!res.ok) throw new Error(await readErrorMessage(res, '一括チェックの開始に失敗しました'))
+      const data = await res.json()
+      setBatchId(data.batchId)
+      toast({ title: '一括チェックを開始しました', description: data.message })
+    } catch (err) {
+      toast({
+        title: 'エラー',
+        description: err instanceof Error ? err.message : '一括チェックの開始に失敗しました',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const download = async (format: 'csv' | 'xlsx') => {
+    if (batchId === null) return
+    try {
+      const res = await authFetch(`/api/checks/batch/${batchId}/export?format=${format}`)
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'ダウンロードに失敗しました'))
+      const blob = await res.blob()
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `check_batch_${batchId}.${format}`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      toast({
+        title: 'エラー',
+        description: err instanceof Error ? err.message : 'ダウンロードに失敗しました',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const progress = streamData?.progress
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">一括チェック</h1>
+        <p className="text-sm text-muted-foreground">
+          商品説明など複数のテキストをまとめてチェックします（最大{CHECK_BATCH_CONFIG.MAX_ITEMS}件）
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>チェック対象</CardTitle>
+          <CardDescription>テキストを貼り付けるか、CSV / XLSX ファイルをアップロードしてください</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="batch-name">バッチ名（任意）</Label>
+              <Input
+                id="batch-name"
+                placeholder="例: 秋の新商品 説明文"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                disabled={submitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-product-category">製品カテゴリ</Label>
+              <select
+                id="batch-product-category"
+                value={productCategory}
+                onChange={(e) => setProductCategory(e.target.value as ProductCategory | '')}
+                className="h-9 w-full px-3 rounded-md border border-input bg-background text-sm"
+                disabled={submitting}
+              >
+                <option value="">未指定</option>
+                {PRODUCT_CATEGORY_CODES.map(code => (
+                  <option key={code} value={code}>{PRODUCT_CATEGORY_LABELS[code]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <Tabs value={mode} onValueChange={(value) => setMode(value as 'text' | 'file')}>
+            <TabsList>
+              <TabsTrigger value="text">テキスト貼り付け</TabsTrigger>
+              <TabsTrigger value="file">ファイルアップロード</TabsTrigger>
+            </TabsList>
+            <TabsContent value="text" className="space-y-2">
+              <Textarea
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                placeholder={'1件目のテキスト\n\n2件目のテキスト（空行で区切ります）'}
+                className="min-h-[300px]"
+                disabled={submitting}
+                aria-label="一括チェック用テキスト入力"
+              />
+              <p className={`text-sm ${isOverLimit ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
+                {pastedItems.length.toLocaleString()} / {CHECK_BATCH_CONFIG.MAX_ITEMS.toLocaleString()} 件
+              </p>
+            </TabsContent>
+            <TabsContent value="file" className="space-y-2">
+              <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-8 cursor-pointer hover:bg-muted/50">
+                <UploadCloud className="h-8 w-8 text-muted-foreground" />
+                <span className="text-sm">{file ? file.name : 'CSV / XLSX ファイルを選択'}</span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,.xls"
+                  className="hidden"
+                  disabled={submitting}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </label>
+              <p className="text-xs text-muted-foreground">
+                1行1件。先頭行に「本文」「text」などの列名があればその列を、なければ1列目を本文、2列目をラベル（商品名など）として読み込みます。
+              </p>
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex justify-end">
+            <Button onClick={submit} disabled={!canSubmit} className="min-w-[160px]">
+              {submitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  送信中...
+                </>
+              ) : (
+                '一括チェック開始'
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {batchId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>進捗（バッチ #{batchId}）</span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => download('csv')} disabled={!progress?.isFinished}>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => download('xlsx')} disabled={!progress?.isFinished}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Excel
+                </Button>
+              </div>
+            </CardTitle>
+            {progress && (
+              <CardDescription>
+                {progress.finished} / {progress.total} 件処理済み（完了 {progress.completed}・エラー {progress.failed}・違反あり {progress.withViolations}）
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Progress value={progress?.percentage ?? 0} />
+            {streamError && <p className="text-sm text-red-600">{streamError}</p>}
+
+            {streamData && (
+              <div className="max-h-[480px] overflow-y-auto border rounded-md">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left">No</th>
+                      <th className="px-3 py-2 text-left">ラベル</th>
+                      <th className="px-3 py-2 text-left">ステータス</th>
+                      <th className="px-3 py-2 text-right">違反数</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {streamData.items.map((item, index) => (
+                      <tr key={item.checkId} className="border-t">
+                        <td className="px-3 py-2">{index + 1}</td>
+                        <td className="px-3 py-2">{item.label ?? '-'}</td>
+                        <td className="px-3 py-2">
+                          <Badge variant={item.status === 'failed' ? 'destructive' : item.status === 'completed' ? 'default' : 'secondary'}>
+                            {STATUS_LABELS[item.status ?? 'pending'] ?? item.status}
+                          </Badge>
+                        </td>
+                        <td className="px-3 py-2 text-right">{item.status === 'completed' ? item.violationCount : '-'}</td>
+                        <td className="px-3 py-2 text-right">
+                          <Button asChild variant="link" size="sm">
+                            <Link href={`/history/${item.checkId}`}>詳細</Link>
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
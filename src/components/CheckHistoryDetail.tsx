@@ -8,10 +8,15 @@ import { useState } from 'react'
 import { CheckHeader } from './CheckHistoryDetail/components/CheckHeader'
 import { CheckMetadata } from './CheckHistoryDetail/components/CheckMetadata'
 import { LoadingState, ErrorState, NotFoundState } from './CheckHistoryDetail/components/LoadingStates'
+import { MissedViolationsList } from './CheckHistoryDetail/components/MissedViolationsList'
+import { RunComparison } from './CheckHistoryDetail/components/RunComparison'
 import { TextTabs } from './CheckHistoryDetail/components/TextTabs'
 import { ViolationsList } from './CheckHistoryDetail/components/ViolationsList'
 import { useCheckActions } from './CheckHistoryDetail/hooks/useCheckActions'
 import { useCheckDetail } from './CheckHistoryDetail/hooks/useCheckDetail'
+import { useParentCheck } from './CheckHistoryDetail/hooks/useParentCheck'
+import { useViolationDecisions } from './CheckHistoryDetail/hooks/useViolationDecisions'
+import { useViolationFeedback } from './CheckHistoryDetail/hooks/useViolationFeedback'
 // 型定義
 import { CheckHistoryDetailProps } from './CheckHistoryDetail/types'
 
@@ -19,7 +24,7 @@ export default function CheckHistoryDetail({ checkId }: CheckHistoryDetailProps)
   const [showViolations, setShowViolations] = useState(true)
 
   // データ取得フック
-  const { check, loading, error } = useCheckDetail(checkId)
+  const { check, setCheck, loading, error } = useCheckDetail(checkId)
 
   // アクション処理フック
   const {
@@ -30,6 +35,15 @@ export default function CheckHistoryDetail({ checkId }: CheckHistoryDetailProps)
     handleDelete,
   } = useCheckActions(check)
 
+  // 置換案の採否フック
+  const { decidingViolationId, decideSuggestion } = useViolationDecisions(check, setCheck)
+
+  // 違反の評価・見逃しの報告フック
+  const { feedbackViolationId, reportingMissed, submitFeedback, reportMissed } = useViolationFeedback(check, setCheck)
+
+  // 再実行元のチェック（再実行の比較用）
+  const { parent, loading: parentLoading, error: parentError } = useParentCheck(check)
+
   // ローディング状態の処理
   if (loading) {
     return <LoadingState />
@@ -59,15 +73,36 @@ export default function CheckHistoryDetail({ checkId }: CheckHistoryDetailProps)
       {/* メタデータ */}
       <CheckMetadata check={check} />
 
+      {/* 再実行元との比較 */}
+      <RunComparison
+        check={check}
+        parent={parent}
+        loading={parentLoading}
+        error={parentError}
+        onCopyText={copyToClipboard}
+      />
+
       {/* テキスト表示タブ */}
       <TextTabs
         check={check}
         showViolations={showViolations}
         onCopyText={copyToClipboard}
+        onReportMissed={reportMissed}
+        reportingMissed={reportingMissed}
       />
 
       {/* 違反一覧 */}
-      <ViolationsList check={check} />
+      <ViolationsList
+        check={check}
+        decidingViolationId={decidingViolationId}
+        onDecide={decideSuggestion}
+        onCopyText={copyToClipboard}
+        feedbackViolationId={feedbackViolationId}
+        onFeedback={submitFeedback}
+      />
+
+      {/* 見逃しとして報告した箇所 */}
+      <MissedViolationsList check={check} />
     </div>
   )
 }
\ No newline at end of file
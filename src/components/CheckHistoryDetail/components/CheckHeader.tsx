@@ -1,10 +1,10 @@
-import { ArrowLeft, Copy, Download, Eye, EyeOff, RefreshCw, Trash2, ImageIcon, FileText } from 'lucide-react'
+import { ArrowLeft, Copy, Download, Eye, EyeOff, RefreshCw, Trash2, ImageIcon, FileText, FileType, Globe } from 'lucide-react'
 import Link from 'next/link'
 
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 
-import { CheckDetail, statusLabels } from '../types'
+import { CheckDetail, inputTypeLabels, statusLabels } from '../types'
 
 interface CheckHeaderProps {
   check: CheckDetail
@@ -58,8 +58,14 @@ export function CheckHeader({
                 {statusLabels[check.status].label}
               </Badge>
               <Badge variant="outline" className="flex items-center gap-1">
-                {check.inputType === 'image' ? <ImageIcon className="h-3 w-3" /> : <FileText className="h-3 w-3" />}
-                {check.inputType === 'image' ? '画像' : 'テキスト'}
+                {check.inputType === 'image'
+                  ? <ImageIcon className="h-3 w-3" />
+                  : check.inputType === 'pdf'
+                  ? <FileType className="h-3 w-3" />
+                  : check.inputType === 'url'
+                  ? <Globe className="h-3 w-3" />
+                  : <FileText className="h-3 w-3" />}
+                {inputTypeLabels[check.inputType]}
               </Badge>
               {check.userEmail && (
                 <span className="text-sm text-gray-500">{check.userEmail}</span>
@@ -90,6 +96,7 @@ export function CheckHeader({
             variant="outline"
             size="sm"
             onClick={onRerun}
+            disabled={check.status === 'pending' || check.status === 'processing'}
           >
             <RefreshCw className="h-4 w-4 mr-2" />
             再実行
@@ -1,10 +1,13 @@
 import { format } from 'date-fns'
 import { ja } from 'date-fns/locale'
 import Image from 'next/image'
+import Link from 'next/link'
 
 import { Card, CardContent } from '@/components/ui/card'
+import { getProductCategoryLabel } from '@/constants/productCategories'
 
-import { CheckDetail } from '../types'
+import { CheckDetail, inputTypeLabels, statusLabels } from '../types'
+import { getCheckSourceText } from '../utils/checkSource'
 
 interface CheckMetadataProps {
   check: CheckDetail
@@ -27,7 +30,11 @@ export function CheckMetadata({ check }: CheckMetadataProps) {
           )}
           <div>
             <span className="font-medium text-gray-700">入力タイプ:</span>
-            <div>{check.inputType === 'image' ? '画像' : 'テキスト'}</div>
+            <div>{inputTypeLabels[check.inputType]}</div>
+          </div>
+          <div>
+            <span className="font-medium text-gray-700">製品カテゴリ:</span>
+            <div>{getProductCategoryLabel(check.productCategory)}</div>
           </div>
           <div>
             <span className="font-medium text-gray-700">違反数:</span>
@@ -36,19 +43,125 @@ export function CheckMetadata({ check }: CheckMetadataProps) {
           <div>
             <span className="font-medium text-gray-700">文字数:</span>
             <div>
-              {check.inputType === 'image' && check.extractedText 
-                ? check.extractedText.length 
-                : check.originalText.length
-              }文字
+              {getCheckSourceText(check).length}文字
             </div>
           </div>
+          <div>
+            <span className="font-medium text-gray-700">モデル:</span>
+            <div className="break-all">{check.aiModel ?? '-'}</div>
+          </div>
+          <div>
+            <span className="font-medium text-gray-700">辞書の版:</span>
+            <div className="font-mono break-all">{check.dictionaryVersion ?? '-'}</div>
+          </div>
+          {check.dictionarySnapshotId && (
+            <div>
+              <span className="font-medium text-gray-700">辞書スナップショット:</span>
+              <div>#{check.dictionarySnapshotId}</div>
+            </div>
+          )}
           {check.inputType === 'image' && check.ocrStatus && (
             <div>
               <span className="font-medium text-gray-700">OCRステータス:</span>
               <div>{check.ocrStatus}</div>
             </div>
           )}
+          {check.inputType === 'pdf' && check.pdfPages && (
+            <div>
+              <span className="font-medium text-gray-700">ページ数:</span>
+              <div>
+                {check.pdfPages.length}ページ
+                {check.pdfPages.some(page => page.source === 'ocr') && (
+                  <span className="text-gray-500">
+                    （OCR: {check.pdfPages.filter(page => page.source === 'ocr').length}ページ）
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
         </div>
+
+        {/* 再実行の履歴 */}
+        {(check.parentCheckId || (check.reruns && check.reruns.length > 0)) && (
+          <div className="mt-4 pt-4 border-t text-sm space-y-1" data-testid="check-runs">
+            {check.parentCheckId && (
+              <div>
+                <span className="font-medium text-gray-700">再実行元:</span>{' '}
+                <Link href={`/history/${check.parentCheckId}`} className="text-blue-600 hover:underline">
+                  #{check.parentCheckId}
+                </Link>
+              </div>
+            )}
+            {check.reruns && check.reruns.length > 0 && (
+              <div>
+                <span className="font-medium text-gray-700">再実行:</span>
+                <ul className="mt-1 space-y-1">
+                  {check.reruns.map(rerun => (
+                    <li key={rerun.id} className="flex flex-wrap items-center gap-2">
+                      <Link href={`/history/${rerun.id}`} className="text-blue-600 hover:underline">#{rerun.id}</Link>
+                      {rerun.status && (
+                        <span className={`px-2 rounded text-xs ${statusLabels[rerun.status].className}`}>
+                          {statusLabels[rerun.status].label}
+                        </span>
+                      )}
+                      {rerun.createdAt && (
+                        <span className="text-gray-500">
+                          {format(new Date(rerun.createdAt), 'yyyy/MM/dd HH:mm', { locale: ja })}
+                        </span>
+                      )}
+                      <span className="text-gray-500">
+                        モデル: {rerun.aiModel ?? '-'} / 辞書の版: <span className="font-mono">{rerun.dictionaryVersion ?? '-'}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* URLチェックの取得ページ（監査用スナップショット） */}
+        {check.inputType === 'url' && check.sourceUrl && (
+          <div className="mt-4 pt-4 border-t text-sm space-y-1">
+            <div>
+              <span className="font-medium text-gray-700">チェック対象URL:</span>{' '}
+              <a href={check.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                {check.sourceUrl}
+              </a>
+            </div>
+            {check.pageSnapshot && (
+              <>
+                {check.pageSnapshot.finalUrl !== check.pageSnapshot.url && (
+                  <div>
+                    <span className="font-medium text-gray-700">リダイレクト先:</span>{' '}
+                    <span className="break-all">{check.pageSnapshot.finalUrl}</span>
+                  </div>
+                )}
+                {check.pageSnapshot.title && (
+                  <div>
+                    <span className="font-medium text-gray-700">ページタイトル:</span> {check.pageSnapshot.title}
+                  </div>
+                )}
+                <div>
+                  <span className="font-medium text-gray-700">取得日時:</span>{' '}
+                  {format(new Date(check.pageSnapshot.fetchedAt), 'yyyy/MM/dd HH:mm:ss', { locale: ja })}
+                  <span className="text-gray-500">（HTTP {check.pageSnapshot.httpStatus}）</span>
+                </div>
+                <div className="text-gray-500 break-all">
+                  SHA-256: <span className="font-mono">{check.pageSnapshot.sha256}</span>
+                </div>
+                {check.pageSnapshot.storagePath && (
+                  <a
+                    href={`/api/checks/${check.id}/snapshot`}
+                    className="inline-block text-blue-600 hover:underline"
+                  >
+                    取得時のHTMLをダウンロード
+                  </a>
+                )}
+              </>
+            )}
+          </div>
+        )}
         
         {/* 画像表示 */}
         {check.inputType === 'image' && check.imageUrl && (
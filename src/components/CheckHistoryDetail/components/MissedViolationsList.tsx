@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+import { CheckDetail } from '../types'
+
+interface MissedViolationsListProps {
+  check: CheckDetail
+}
+
+/**
+ * 見逃しとして報告された箇所の一覧
+ */
+export function MissedViolationsList({ check }: MissedViolationsListProps) {
+  const missedViolations = check.missedViolations ?? []
+  if (missedViolations.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>見逃しとして報告した箇所 ({missedViolations.length}件)</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {missedViolations.map(missed => (
+            <div key={missed.id} className="border rounded p-3" data-testid="missed-violation">
+              <div className="flex justify-between items-start gap-2">
+                <span className="bg-orange-100 text-orange-800 px-2 py-1 rounded text-sm">
+                  &quot;{missed.phrase}&quot;
+                </span>
+                {missed.startPos !== null && missed.endPos !== null && (
+                  <Badge variant="outline" className="text-xs">
+                    位置: {missed.startPos}-{missed.endPos}
+                  </Badge>
+                )}
+              </div>
+              {missed.comment && (
+                <p className="mt-2 text-sm text-gray-700">{missed.comment}</p>
+              )}
+              {missed.createdAt && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {new Date(missed.createdAt).toLocaleString('ja-JP')}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
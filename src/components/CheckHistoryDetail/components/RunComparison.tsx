@@ -0,0 +1,218 @@
+import { Copy } from 'lucide-react'
+import Link from 'next/link'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { getLegalBasisLabel, SEVERITY_LABELS } from '@/constants/regulatory'
+
+import { CheckDetail, Violation } from '../types'
+import { getCheckSourceText } from '../utils/checkSource'
+import { diffLines, generateRunDiffFormat } from '../utils/diffFormat'
+import { compareRunViolations, ViolationField, violationFieldLabels, ViolationPair } from '../utils/runComparison'
+import { extractViolationText } from '../utils/violationHighlighting'
+
+interface RunComparisonProps {
+  check: CheckDetail
+  parent: CheckDetail | null
+  loading: boolean
+  error: string | null
+  onCopyText: (text: string, label: string) => void
+}
+
+const diffLineClassNames = {
+  ' ': 'text-gray-700',
+  '-': 'bg-red-50 text-red-800',
+  '+': 'bg-green-50 text-green-800'
+} as const
+
+/**
+ * 違反の項目の表示値
+ */
+function fieldValue(violation: Violation, field: ViolationField): string {
+  switch (field) {
+    case 'range':
+      return `${violation.startPos}-${violation.endPos}`
+    case 'reason':
+      return violation.reason
+    case 'severity':
+      return violation.severity ? SEVERITY_LABELS[violation.severity] : '-'
+    case 'regulatoryCategory':
+      return getLegalBasisLabel(violation.regulatoryCategory)
+    case 'suggestedText':
+      return violation.suggestedText ?? '-'
+  }
+}
+
+/**
+ * チェック実行時のモデル・辞書の版
+ */
+function RunInfo({ label, check }: { label: string; check: CheckDetail }) {
+  return (
+    <div className="border rounded p-3 text-sm space-y-1">
+      <div className="font-medium">
+        {label}{' '}
+        <Link href={`/history/${check.id}`} className="text-blue-600 hover:underline">#{check.id}</Link>
+      </div>
+      <div>
+        <span className="text-gray-700">モデル:</span> {check.aiModel ?? '-'}
+      </div>
+      <div>
+        <span className="text-gray-700">辞書の版:</span>{' '}
+        <span className="font-mono">{check.dictionaryVersion ?? '-'}</span>
+      </div>
+      <div>
+        <span className="text-gray-700">違反数:</span> {check.violations.length}件
+      </div>
+    </div>
+  )
+}
+
+/**
+ * 再実行元のチェックとの比較（違反の増減・変更と修正文の差分）
+ */
+export function RunComparison({ check, parent, loading, error, onCopyText }: RunComparisonProps) {
+  if (check.parentCheckId === null || check.parentCheckId === undefined) return null
+
+  const renderBody = () => {
+    if (loading) {
+      return <p className="text-sm text-gray-500">再実行元のチェックを読み込み中...</p>
+    }
+    if (error || !parent) {
+      return <p className="text-sm text-red-600">{error ?? '再実行元のチェックが見つかりません'}</p>
+    }
+    if (check.status !== 'completed') {
+      return <p className="text-sm text-gray-500">再実行の完了後に比較結果を表示します</p>
+    }
+
+    const comparison = compareRunViolations(parent.violations, check.violations)
+    const previousText = getCheckSourceText(parent)
+    const currentText = getCheckSourceText(check)
+    const previousModified = parent.modifiedText ?? ''
+    const currentModified = check.modifiedText ?? ''
+    const modifiedDiff = diffLines(previousModified, currentModified)
+    const modifiedChanged = modifiedDiff.some(line => line.type !== ' ')
+    const labels = { original: `修正文（#${parent.id}）`, modified: `修正文（#${check.id}）` }
+
+    const renderViolationSummary = (violation: Violation, text: string) => (
+      <div className="space-y-1">
+        <div>
+          <span className="bg-red-100 text-red-800 px-2 py-0.5 rounded">
+            &quot;{extractViolationText(text, violation)}&quot;
+          </span>
+          {violation.severity && (
+            <Badge variant="outline" className="ml-2 text-xs">重大度: {SEVERITY_LABELS[violation.severity]}</Badge>
+          )}
+        </div>
+        <div className="text-gray-700">{violation.reason}</div>
+      </div>
+    )
+
+    const renderPair = (pair: ViolationPair) => (
+      <li key={`${pair.previous.id}-${pair.current.id}`} className="border rounded p-3 space-y-2">
+        <span className="bg-red-100 text-red-800 px-2 py-0.5 rounded">
+          &quot;{extractViolationText(currentText, pair.current)}&quot;
+        </span>
+        <dl className="space-y-1">
+          {pair.changedFields.map(field => (
+            <div key={field}>
+              <dt className="inline text-gray-700">{violationFieldLabels[field]}:</dt>{' '}
+              <dd className="inline">
+                <span className="line-through text-gray-500">{fieldValue(pair.previous, field)}</span>
+                {' → '}
+                <span>{fieldValue(pair.current, field)}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </li>
+    )
+
+    return (
+      <div className="space-y-6 text-sm">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className="border-green-300 text-green-800">新規 {comparison.added.length}件</Badge>
+          <Badge variant="outline" className="border-gray-300 text-gray-600">解消 {comparison.removed.length}件</Badge>
+          <Badge variant="outline" className="border-yellow-300 text-yellow-800">変更 {comparison.changed.length}件</Badge>
+          <Badge variant="outline">変更なし {comparison.unchanged.length}件</Badge>
+        </div>
+
+        {comparison.added.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-green-800">新たに検出された違反</h3>
+            <ul className="space-y-2">
+              {comparison.added.map(violation => (
+                <li key={violation.id} className="border border-green-200 rounded p-3">
+                  {renderViolationSummary(violation, currentText)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {comparison.removed.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-gray-700">検出されなくなった違反</h3>
+            <ul className="space-y-2">
+              {comparison.removed.map(violation => (
+                <li key={violation.id} className="border rounded p-3 text-gray-500">
+                  {renderViolationSummary(violation, previousText)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {comparison.changed.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-yellow-800">内容が変わった違反</h3>
+            <ul className="space-y-2">{comparison.changed.map(renderPair)}</ul>
+          </section>
+        )}
+
+        <section className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold">修正文の差分</h3>
+            {modifiedChanged && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onCopyText(generateRunDiffFormat(previousModified, currentModified, labels), '修正文の差分')}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {modifiedChanged ? (
+            <pre className="border rounded p-3 whitespace-pre-wrap text-sm leading-relaxed font-mono">
+              {modifiedDiff.map((line, index) => (
+                <div key={index} className={diffLineClassNames[line.type]}>
+                  {line.type}{line.text}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <p className="text-gray-500">修正文に変更はありません</p>
+          )}
+        </section>
+      </div>
+    )
+  }
+
+  return (
+    <Card data-testid="run-comparison">
+      <CardHeader>
+        <CardTitle>再実行元との比較</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {parent && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <RunInfo label="前回" check={parent} />
+            <RunInfo label="今回" check={check} />
+          </div>
+        )}
+        {renderBody()}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,18 +1,41 @@
-import { Copy } from 'lucide-react'
+import { Copy, Flag } from 'lucide-react'
+import { useRef, useState } from 'react'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 
 import { CheckDetail } from '../types'
+import { getCheckSourceText } from '../utils/checkSource'
+import { getSelectionOffsets } from '../utils/textSelection'
 import { highlightViolations } from '../utils/violationHighlighting'
 
 interface TextDisplayProps {
   check: CheckDetail
   showViolations: boolean
   onCopyText: (text: string, label: string) => void
+  /** 原文の選択範囲を見逃された違反として報告する（完了したチェックのみ） */
+  onReportMissed?: (startPos: number, endPos: number) => Promise<void>
+  reportingMissed?: boolean
 }
 
-export function TextDisplay({ check, showViolations, onCopyText }: TextDisplayProps) {
+export function TextDisplay({ check, showViolations, onCopyText, onReportMissed, reportingMissed }: TextDisplayProps) {
+  const sourceText = getCheckSourceText(check)
+  const sourceRef = useRef<HTMLDivElement>(null)
+  const [selection, setSelection] = useState<{ startPos: number; endPos: number; text: string } | null>(null)
+  const canReportMissed = !!onReportMissed && check.status === 'completed'
+
+  const handleSelection = () => {
+    if (!canReportMissed || !sourceRef.current) return
+    setSelection(getSelectionOffsets(sourceRef.current))
+  }
+
+  const reportSelection = async () => {
+    if (!selection || !onReportMissed) return
+    await onReportMissed(selection.startPos, selection.endPos)
+    setSelection(null)
+    window.getSelection()?.removeAllRanges()
+  }
+
   return (
     <>
       {/* Original Text */}
@@ -23,7 +46,7 @@ export function TextDisplay({ check, showViolations, onCopyText }: TextDisplayPr
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => onCopyText(check.originalText, '原文')}
+              onClick={() => onCopyText(sourceText, '原文')}
             >
               <Copy className="h-4 w-4" />
             </Button>
@@ -31,11 +54,28 @@ export function TextDisplay({ check, showViolations, onCopyText }: TextDisplayPr
         </CardHeader>
         <CardContent>
           <div 
+            ref={sourceRef}
+            onMouseUp={handleSelection}
             className="bg-gray-50 dark:bg-gray-800 dark:text-gray-100 p-4 rounded border min-h-[400px] whitespace-pre-wrap text-sm leading-relaxed"
             dangerouslySetInnerHTML={{
-              __html: highlightViolations(check.originalText, check.violations, showViolations)
+              __html: highlightViolations(sourceText, check.violations, showViolations)
             }}
           />
+          {canReportMissed && (
+            selection ? (
+              <div className="mt-2 flex items-center justify-between gap-2 text-sm" data-testid="missed-violation-selection">
+                <span className="truncate text-gray-700">選択中: 「{selection.text}」</span>
+                <Button variant="outline" size="sm" disabled={reportingMissed} onClick={reportSelection}>
+                  <Flag className="h-4 w-4 mr-1" />
+                  見逃しとして報告
+                </Button>
+              </div>
+            ) : (
+              <p className="mt-2 text-xs text-muted-foreground">
+                検出されなかった表現を選択すると、見逃された違反として報告できます
+              </p>
+            )
+          )}
         </CardContent>
       </Card>
 
@@ -8,9 +8,11 @@ interface TextTabsProps {
   check: CheckDetail
   showViolations: boolean
   onCopyText: (text: string, label: string) => void
+  onReportMissed?: (startPos: number, endPos: number) => Promise<void>
+  reportingMissed?: boolean
 }
 
-export function TextTabs({ check, showViolations, onCopyText }: TextTabsProps) {
+export function TextTabs({ check, showViolations, onCopyText, onReportMissed, reportingMissed }: TextTabsProps) {
   return (
     <Tabs defaultValue="side-by-side" className="w-full">
       <TabsList className="grid w-full grid-cols-2">
@@ -20,12 +22,24 @@ export function TextTabs({ check, showViolations, onCopyText }: TextTabsProps) {
 
       <TabsContent value="side-by-side" className="space-y-4">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <TextDisplay check={check} showViolations={showViolations} onCopyText={onCopyText} />
+          <TextDisplay
+            check={check}
+            showViolations={showViolations}
+            onCopyText={onCopyText}
+            onReportMissed={onReportMissed}
+            reportingMissed={reportingMissed}
+          />
         </div>
       </TabsContent>
 
       <TabsContent value="stacked" className="space-y-6">
-        <TextDisplay check={check} showViolations={showViolations} onCopyText={onCopyText} />
+        <TextDisplay
+          check={check}
+          showViolations={showViolations}
+          onCopyText={onCopyText}
+          onReportMissed={onReportMissed}
+          reportingMissed={reportingMissed}
+        />
       </TabsContent>
     </Tabs>
   )
@@ -1,71 +1,315 @@
+import { Check, Copy, HelpCircle, RotateCcw, ThumbsDown, ThumbsUp, X } from 'lucide-react'
+import { useState } from 'react'
+
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { getLegalBasisLabel, SEVERITY_LABELS, ViolationSeverity } from '@/constants/regulatory'
 
-import { CheckDetail } from '../types'
-import { extractViolationText } from '../utils/violationHighlighting'
+import { CheckDetail, SuggestionDecision, Violation, ViolationFeedbackType } from '../types'
+import { getCheckSourceText, groupViolationsByPage } from '../utils/checkSource'
+import { extractViolationText, isUnanchoredViolation } from '../utils/violationHighlighting'
 
 interface ViolationsListProps {
   check: CheckDetail
+  decidingViolationId?: number | null
+  onDecide?: (violationId: number, decision: SuggestionDecision, selectedText?: string) => void
+  onCopyText?: (text: string, label: string) => void
+  feedbackViolationId?: number | null
+  /** 違反の評価（同じ評価をもう一度押すと取り消す） */
+  onFeedback?: (violationId: number, feedbackType: ViolationFeedbackType | null) => void
+}
+
+const decisionLabels = {
+  pending: { label: '未判断', className: 'border-gray-300 text-gray-700' },
+  accepted: { label: '採用', className: 'border-green-300 text-green-800' },
+  rejected: { label: '却下', className: 'border-gray-300 text-gray-500' }
+} as const
+
+const feedbackOptions = [
+  { type: 'correct', label: '正しい', icon: ThumbsUp, activeClassName: 'bg-green-100 text-green-800 border-green-300' },
+  { type: 'false_positive', label: '誤検知', icon: ThumbsDown, activeClassName: 'bg-red-100 text-red-800 border-red-300' },
+  { type: 'wrong_reason', label: '理由が違う', icon: HelpCircle, activeClassName: 'bg-yellow-100 text-yellow-800 border-yellow-300' }
+] as const
+
+const pageSourceLabels = {
+  text: 'テキスト抽出',
+  ocr: 'OCR'
+} as const
+
+const severityClassNames: Record<ViolationSeverity, string> = {
+  low: 'border-gray-300 text-gray-700',
+  medium: 'border-yellow-300 text-yellow-800',
+  high: 'border-orange-300 text-orange-800',
+  critical: 'border-red-300 text-red-800'
+}
+
+/**
+ * 違反の置換候補（提案 + 別案）
+ */
+function suggestionsOf(violation: Violation): string[] {
+  return [violation.suggestedText, ...(violation.alternativeSuggestions ?? [])]
+    .filter((s): s is string => typeof s === 'string' && s.length > 0)
 }
 
-export function ViolationsList({ check }: ViolationsListProps) {
+export function ViolationsList({
+  check,
+  decidingViolationId,
+  onDecide,
+  onCopyText,
+  feedbackViolationId,
+  onFeedback
+}: ViolationsListProps) {
+  // 違反ごとに選択中の置換候補
+  const [selections, setSelections] = useState<Record<number, string>>({})
+
   if (check.violations.length === 0) return null
 
+  const hasSuggestions = check.violations.some(v => suggestionsOf(v).length > 0)
+  const baseText = getCheckSourceText(check)
+  const finalText = check.finalText ?? baseText
+  const acceptedCount = check.violations.filter(v => v.decision === 'accepted').length
+
+  const renderViolation = (violation: Violation, index: number) => (
+    <div key={violation.id} className="border rounded p-4">
+      <div className="flex justify-between items-start mb-2">
+        <span className="text-sm font-medium text-gray-700">
+          違反 #{index + 1}
+        </span>
+        <div className="flex gap-2">
+          {violation.severity && (
+            <Badge variant="outline" className={`text-xs ${severityClassNames[violation.severity]}`}>
+              重大度: {SEVERITY_LABELS[violation.severity]}
+            </Badge>
+          )}
+          {suggestionsOf(violation).length > 0 && (
+            <Badge variant="outline" className={`text-xs ${decisionLabels[violation.decision ?? 'pending'].className}`}>
+              {decisionLabels[violation.decision ?? 'pending'].label}
+            </Badge>
+          )}
+          {isUnanchoredViolation(violation) ? (
+            <Badge variant="outline" className="text-xs border-yellow-300 text-yellow-800">
+              位置未特定
+            </Badge>
+          ) : (
+            <>
+              {typeof violation.confidence === 'number' && violation.confidence < 0.9 && (
+                <Badge variant="outline" className="text-xs border-yellow-300 text-yellow-800">
+                  位置推定 {Math.round(violation.confidence * 100)}%
+                </Badge>
+              )}
+              <Badge variant="outline" className="text-xs">
+                位置: {violation.startPos}-{violation.endPos}
+              </Badge>
+            </>
+          )}
+        </div>
+      </div>
+      
+      <div className="space-y-2">
+        <div>
+          <span className="text-sm font-medium text-gray-700">違反箇所:</span>
+          <span className="ml-2 bg-red-100 text-red-800 px-2 py-1 rounded text-sm">
+            &quot;{extractViolationText(baseText, violation)}&quot;
+          </span>
+        </div>
+
+        {violation.domSelector && (
+          <div>
+            <span className="text-sm font-medium text-gray-700">ページ上の要素:</span>
+            <code className="ml-2 text-xs bg-gray-100 px-2 py-1 rounded break-all">{violation.domSelector}</code>
+          </div>
+        )}
+
+        <div>
+          <span className="text-sm font-medium text-gray-700">法的根拠:</span>
+          <span className="ml-2 text-sm">{getLegalBasisLabel(violation.regulatoryCategory)}</span>
+        </div>
+
+        <div>
+          <span className="text-sm font-medium text-gray-700">理由:</span>
+          <span className="ml-2 text-sm">{violation.reason}</span>
+        </div>
+        
+        {violation.dictionaryPhrase && (
+          <div>
+            <span className="text-sm font-medium text-gray-700">辞書語句:</span>
+            <span className="ml-2 text-sm">
+              {violation.dictionaryPhrase}
+              {violation.dictionaryCategory && (
+                <Badge 
+                  variant="outline" 
+                  className={`ml-2 text-xs ${
+                    violation.dictionaryCategory === 'NG' 
+                      ? 'border-red-200 text-red-700' 
+                      : 'border-green-200 text-green-700'
+                  }`}
+                >
+                  {violation.dictionaryCategory}
+                </Badge>
+              )}
+              {violation.dictionarySource === 'global' && (
+                <Badge variant="outline" className="ml-2 text-xs border-blue-200 text-blue-700">
+                  共通辞書
+                </Badge>
+              )}
+            </span>
+          </div>
+        )}
+
+        {suggestionsOf(violation).length > 0 && (
+          <div>
+            <span className="text-sm font-medium text-gray-700">修正案:</span>
+            <div className="mt-1 flex flex-wrap gap-2">
+              {suggestionsOf(violation).map(suggestion => {
+                const selected = violation.decision === 'accepted'
+                  ? violation.selectedText === suggestion
+                  : (selections[violation.id] ?? suggestionsOf(violation)[0]) === suggestion
+                return (
+                  <button
+                    key={suggestion}
+                    type="button"
+                    disabled={violation.decision === 'accepted'}
+                    onClick={() => setSelections(prev => ({ ...prev, [violation.id]: suggestion }))}
+                    className={`px-2 py-1 rounded text-sm border ${
+                      selected
+                        ? 'bg-green-100 text-green-800 border-green-300'
+                        : 'bg-white text-gray-700 border-gray-200'
+                    }`}
+                  >
+                    {suggestion}
+                  </button>
+                )
+              })}
+            </div>
+
+            {onDecide && (
+              <div className="mt-2 flex gap-2">
+                {violation.decision === 'accepted' || violation.decision === 'rejected' ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={decidingViolationId === violation.id}
+                    onClick={() => onDecide(violation.id, 'pending')}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    取り消し
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={decidingViolationId === violation.id || isUnanchoredViolation(violation)}
+                      onClick={() => onDecide(
+                        violation.id,
+                        'accepted',
+                        selections[violation.id] ?? suggestionsOf(violation)[0]
+                      )}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      採用
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={decidingViolationId === violation.id}
+                      onClick={() => onDecide(violation.id, 'rejected')}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      却下
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {onFeedback && check.status === 'completed' && (
+          <div className="flex flex-wrap items-center gap-2 border-t pt-2" data-testid="violation-feedback">
+            <span className="text-sm font-medium text-gray-700">評価:</span>
+            {feedbackOptions.map(option => {
+              const active = violation.feedback?.feedbackType === option.type
+              const Icon = option.icon
+              return (
+                <button
+                  key={option.type}
+                  type="button"
+                  aria-pressed={active}
+                  disabled={feedbackViolationId === violation.id}
+                  onClick={() => onFeedback(violation.id, active ? null : option.type)}
+                  className={`inline-flex items-center px-2 py-1 rounded text-xs border ${
+                    active ? option.activeClassName : 'bg-white text-gray-700 border-gray-200'
+                  }`}
+                >
+                  <Icon className="h-3 w-3 mr-1" />
+                  {option.label}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>検出された違反 ({check.violations.length}件)</CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="space-y-4">
-          {check.violations.map((violation, index) => (
-            <div key={violation.id} className="border rounded p-4">
-              <div className="flex justify-between items-start mb-2">
-                <span className="text-sm font-medium text-gray-700">
-                  違反 #{index + 1}
-                </span>
-                <Badge variant="outline" className="text-xs">
-                  位置: {violation.startPos}-{violation.endPos}
-                </Badge>
-              </div>
-              
-              <div className="space-y-2">
-                <div>
-                  <span className="text-sm font-medium text-gray-700">違反箇所:</span>
-                  <span className="ml-2 bg-red-100 text-red-800 px-2 py-1 rounded text-sm">
-                    &quot;{extractViolationText(check.originalText, violation)}&quot;
-                  </span>
+        {check.inputType === 'pdf' ? (
+          <div className="space-y-6">
+            {groupViolationsByPage(check).map(group => (
+              <section key={group.page ?? 'unknown'} className="space-y-3" data-testid="pdf-page-violations">
+                <div className="flex items-center gap-2 border-b pb-1">
+                  <h3 className="text-sm font-semibold text-gray-800">
+                    {group.page !== null ? `ページ ${group.page}` : 'ページ不明'}
+                  </h3>
+                  {group.source && (
+                    <Badge variant="outline" className="text-xs">
+                      {pageSourceLabels[group.source]}
+                    </Badge>
+                  )}
+                  <span className="text-xs text-gray-500">{group.violations.length}件</span>
                 </div>
-                
-                <div>
-                  <span className="text-sm font-medium text-gray-700">理由:</span>
-                  <span className="ml-2 text-sm">{violation.reason}</span>
-                </div>
-                
-                {violation.dictionaryPhrase && (
-                  <div>
-                    <span className="text-sm font-medium text-gray-700">辞書語句:</span>
-                    <span className="ml-2 text-sm">
-                      {violation.dictionaryPhrase}
-                      {violation.dictionaryCategory && (
-                        <Badge 
-                          variant="outline" 
-                          className={`ml-2 text-xs ${
-                            violation.dictionaryCategory === 'NG' 
-                              ? 'border-red-200 text-red-700' 
-                              : 'border-green-200 text-green-700'
-                          }`}
-                        >
-                          {violation.dictionaryCategory}
-                        </Badge>
-                      )}
-                    </span>
-                  </div>
+                {group.violations.length === 0 ? (
+                  <p className="text-sm text-gray-500">違反は検出されませんでした</p>
+                ) : (
+                  group.violations.map(({ violation, index }) => renderViolation(violation, index))
                 )}
-              </div>
+              </section>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {check.violations.map(renderViolation)}
+          </div>
+        )}
+
+        {hasSuggestions && (
+          <div className="mt-6">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-medium text-gray-700">
+                最終テキスト（採用 {acceptedCount}件を反映）
+              </span>
+              {onCopyText && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onCopyText(finalText, '最終テキスト')}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              )}
             </div>
-          ))}
-        </div>
+            <div className="bg-green-50 dark:bg-green-900 dark:text-green-100 p-4 rounded border whitespace-pre-wrap text-sm leading-relaxed">
+              {finalText}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   )
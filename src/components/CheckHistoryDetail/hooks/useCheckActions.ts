@@ -3,6 +3,7 @@ import { authFetch } from '@/lib/api-client'
 import { ErrorFactory } from '@/lib/errors'
 
 import { CheckDetail } from '../types'
+import { getCheckSourceText } from '../utils/checkSource'
 import { generateDiffFormat } from '../utils/diffFormat'
 
 /**
@@ -28,9 +29,7 @@ export function useCheckActions(check: CheckDetail | null) {
   const copyDiffFormat = async () => {
     if (!check) return
 
-    const originalText = check.inputType === 'image' && check.extractedText 
-      ? check.extractedText 
-      : check.originalText
+    const originalText = getCheckSourceText(check)
     
     const modifiedText = check.modifiedText ?? ''
     const diffText = generateDiffFormat(originalText, modifiedText)
@@ -41,25 +40,21 @@ export function useCheckActions(check: CheckDetail | null) {
   const handleRerun = async () => {
     if (!check) return
     
-    if (confirm('このチェックを再実行しますか？')) {
+    if (confirm('このチェックを再実行しますか？現在の辞書・モデルで再チェックし、結果を今回のチェックと比較できます。')) {
       try {
-        const response = await authFetch('/api/checks', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            inputType: check.inputType,
-            text: check.inputType === 'image' ? check.extractedText ?? check.originalText : check.originalText,
-            imageUrl: check.inputType === 'image' ? check.imageUrl : undefined
-          })
+        const response = await authFetch(`/api/checks/${check.id}`, {
+          method: 'POST'
         })
-        if (response.ok) {
-          const data = await response.json()
-          window.location.href = `/history/${data.check.id}`
+        if (!response.ok) {
+          const data = await response.json().catch(() => null)
+          throw ErrorFactory.createApiError(response.status, data?.error ?? '再実行に失敗しました')
         }
-      } catch {
+        const data = await response.json() as { checkId: number }
+        window.location.href = `/history/${data.checkId}`
+      } catch (e) {
         toast({ 
           title: '再実行エラー', 
-          description: '再実行に失敗しました', 
+          description: e instanceof Error ? e.message : '再実行に失敗しました', 
           variant: 'destructive' 
         })
       }
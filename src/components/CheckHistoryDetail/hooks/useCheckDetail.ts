@@ -44,6 +44,7 @@ export function useCheckDetail(checkId: number) {
 
   return {
     check,
+    setCheck,
     loading,
     error,
   }
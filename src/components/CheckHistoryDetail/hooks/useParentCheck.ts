@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react'
+
+import { authFetch } from '@/lib/api-client'
+import { ErrorFactory } from '@/lib/errors'
+
+import { CheckDetail } from '../types'
+
+/**
+ * 再実行元のチェック取得用のカスタムフック（再実行で作成したチェックのみ取得する）
+ */
+export function useParentCheck(check: CheckDetail | null) {
+  const parentCheckId = check?.parentCheckId ?? null
+  const [parent, setParent] = useState<CheckDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (parentCheckId === null) {
+      setParent(null)
+      return
+    }
+
+    const fetchParentCheck = async () => {
+      try {
+        setLoading(true)
+        const response = await authFetch(`/api/checks/${parentCheckId}`)
+        if (!response.ok) {
+          throw ErrorFactory.createApiError(response.status, '再実行元のチェックの取得に失敗しました')
+        }
+
+        const data = await response.json()
+        setParent(data.check)
+        setError(null)
+      } catch (err) {
+        setParent(null)
+        setError(err instanceof Error ? err.message : '予期しないエラーが発生しました')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchParentCheck()
+  }, [parentCheckId])
+
+  return {
+    parent,
+    loading,
+    error,
+  }
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react'
+
+import { toast } from '@/hooks/use-toast'
+import { authFetch } from '@/lib/api-client'
+import { ErrorFactory } from '@/lib/errors'
+
+import { CheckDetail, SuggestionDecision } from '../types'
+
+/**
+ * 違反ごとの置換案の採否を記録するカスタムフック
+ */
+export function useViolationDecisions(
+  check: CheckDetail | null,
+  onCheckUpdated: (check: CheckDetail) => void
+) {
+  const [decidingViolationId, setDecidingViolationId] = useState<number | null>(null)
+
+  const decideSuggestion = async (violationId: number, decision: SuggestionDecision, selectedText?: string) => {
+    if (!check) return
+
+    try {
+      setDecidingViolationId(violationId)
+      const response = await authFetch(`/api/checks/${check.id}/violations/${violationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, selectedText })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw ErrorFactory.createApiError(response.status, data.error ?? '採否の記録に失敗しました')
+      }
+
+      const data: {
+        violation: { id: number; decision: SuggestionDecision; selectedText: string | null; decidedAt: string | null }
+        finalText: string
+      } = await response.json()
+
+      onCheckUpdated({
+        ...check,
+        finalText: data.finalText,
+        violations: check.violations.map(v => v.id === data.violation.id
+          ? { ...v, ...data.violation }
+          : v
+        )
+      })
+    } catch (e) {
+      toast({
+        title: '採否の記録エラー',
+        description: e instanceof Error ? e.message : '採否の記録に失敗しました',
+        variant: 'destructive'
+      })
+    } finally {
+      setDecidingViolationId(null)
+    }
+  }
+
+  return {
+    decidingViolationId,
+    decideSuggestion,
+  }
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+
+import { toast } from '@/hooks/use-toast'
+import { authFetch } from '@/lib/api-client'
+import { ErrorFactory } from '@/lib/errors'
+
+import { CheckDetail, MissedViolation, ViolationFeedbackType } from '../types'
+
+/**
+ * 違反の評価と見逃しの報告を記録するカスタムフック
+ */
+export function useViolationFeedback(
+  check: CheckDetail | null,
+  onCheckUpdated: (check: CheckDetail) => void
+) {
+  const [feedbackViolationId, setFeedbackViolationId] = useState<number | null>(null)
+  const [reportingMissed, setReportingMissed] = useState(false)
+
+  const submitFeedback = async (violationId: number, feedbackType: ViolationFeedbackType | null) => {
+    if (!check) return
+
+    try {
+      setFeedbackViolationId(violationId)
+      const response = await authFetch(`/api/checks/${check.id}/violations/${violationId}/feedback`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ feedbackType })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw ErrorFactory.createApiError(response.status, data.error ?? '評価の記録に失敗しました')
+      }
+
+      const data: {
+        feedback: { violationId: number; feedbackType: ViolationFeedbackType; comment: string | null } | null
+      } = await response.json()
+
+      onCheckUpdated({
+        ...check,
+        violations: check.violations.map(v => v.id === violationId
+          ? {
+              ...v,
+              feedback: data.feedback
+                ? { feedbackType: data.feedback.feedbackType, comment: data.feedback.comment }
+                : null
+            }
+          : v
+        )
+      })
+    } catch (e) {
+      toast({
+        title: '評価の記録エラー',
+        description: e instanceof Error ? e.message : '評価の記録に失敗しました',
+        variant: 'destructive'
+      })
+    } finally {
+      setFeedbackViolationId(null)
+    }
+  }
+
+  const reportMissed = async (startPos: number, endPos: number, comment?: string) => {
+    if (!check) return
+
+    try {
+      setReportingMissed(true)
+      const response = await authFetch(`/api/checks/${check.id}/missed-violations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startPos, endPos, comment: comment ?? null })
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw ErrorFactory.createApiError(response.status, data.error ?? '見逃しの報告に失敗しました')
+      }
+
+      const data: { missedViolation: MissedViolation } = await response.json()
+
+      onCheckUpdated({
+        ...check,
+        missedViolations: [...(check.missedViolations ?? []), data.missedViolation]
+      })
+      toast({
+        title: '見逃しを報告しました',
+        description: `「${data.missedViolation.phrase}」を管理者に共有しました`
+      })
+    } catch (e) {
+      toast({
+        title: '見逃しの報告エラー',
+        description: e instanceof Error ? e.message : '見逃しの報告に失敗しました',
+        variant: 'destructive'
+      })
+    } finally {
+      setReportingMissed(false)
+    }
+  }
+
+  return {
+    feedbackViolationId,
+    reportingMissed,
+    submitFeedback,
+    reportMissed,
+  }
+}
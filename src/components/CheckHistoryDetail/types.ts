@@ -1,32 +1,97 @@
+import { PdfPageRange, ProductCategory, RegulatoryCategoryCode, ViolationSeverity, WebPageSnapshot } from '@/types/api'
+
+export type SuggestionDecision = 'pending' | 'accepted' | 'rejected'
+
+/** レビュー担当者による違反の評価 */
+export type ViolationFeedbackType = 'correct' | 'false_positive' | 'wrong_reason'
+
 export interface Violation {
   id: number
   startPos: number
   endPos: number
   reason: string
+  matchedText?: string | null
+  confidence?: number | null
+  suggestedText?: string | null
+  alternativeSuggestions?: string[]
+  decision?: SuggestionDecision
+  selectedText?: string | null
+  decidedAt?: string | null
+  regulatoryCategory?: RegulatoryCategoryCode | null
+  severity?: ViolationSeverity | null
+  pageNumber?: number | null
+  domSelector?: string | null
   dictionaryPhrase?: string
   dictionaryCategory?: 'NG' | 'ALLOW'
+  dictionarySource?: 'organization' | 'global' | null
+  feedback?: {
+    feedbackType: ViolationFeedbackType
+    comment: string | null
+  } | null
+}
+
+/**
+ * 見逃しとして報告された箇所
+ */
+export interface MissedViolation {
+  id: number
+  phrase: string
+  startPos: number | null
+  endPos: number | null
+  comment: string | null
+  createdAt: string | null
+}
+
+/**
+ * 再実行で作成したチェックの概要
+ */
+export interface CheckRunSummary {
+  id: number
+  status: 'pending' | 'processing' | 'completed' | 'failed' | null
+  createdAt: string | null
+  aiModel: string | null
+  dictionaryVersion: string | null
 }
 
 export interface CheckDetail {
   id: number
   originalText: string
   modifiedText: string | null
+  finalText?: string | null
   status: 'pending' | 'processing' | 'completed' | 'failed'
-  inputType: 'text' | 'image'
+  inputType: 'text' | 'image' | 'pdf' | 'url'
+  productCategory?: ProductCategory | null
   imageUrl?: string | null
   extractedText?: string | null
   ocrStatus?: string | null
   ocrMetadata?: Record<string, unknown>
+  pdfPages?: PdfPageRange[] | null
+  sourceUrl?: string | null
+  pageSnapshot?: WebPageSnapshot | null
+  aiProvider?: string | null
+  aiModel?: string | null
+  dictionaryVersion?: string | null
+  dictionarySnapshotId?: number | null
+  parentCheckId?: number | null
+  reruns?: CheckRunSummary[]
   createdAt: string
   completedAt: string | null
   userEmail?: string
   violations: Violation[]
+  missedViolations?: MissedViolation[]
 }
 
 export interface CheckHistoryDetailProps {
   checkId: number
 }
 
+export const inputTypeLabels = {
+  text: 'テキスト',
+  image: '画像',
+  pdf: 'PDF',
+  url: 'URL'
+} as const
+
 export const statusLabels = {
   pending: { label: '待機中', className: 'bg-gray-100 text-gray-800' },
   processing: { label: '処理中', className: 'bg-blue-100 text-blue-800' },
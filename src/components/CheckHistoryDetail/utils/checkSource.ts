@@ -0,0 +1,42 @@
+import { PdfPageRange } from '@/types/api'
+
+import { CheckDetail, Violation } from '../types'
+
+/**
+ * チェック対象のテキスト（画像・PDF・URLは抽出テキスト）
+ */
+export function getCheckSourceText(check: CheckDetail): string {
+  return check.inputType !== 'text' && check.extractedText
+    ? check.extractedText
+    : check.originalText
+}
+
+/**
+ * ページごとの違反（PDFチェック用）
+ */
+export interface PageViolations {
+  /** ページ番号（ページを特定できない違反は null） */
+  page: number | null
+  source: PdfPageRange['source'] | null
+  violations: Array<{ violation: Violation; index: number }>
+}
+
+/**
+ * 違反をページ番号ごとにまとめる（ページ順、違反のないページも含む）。
+ * index は違反一覧全体での通し番号
+ */
+export function groupViolationsByPage(check: CheckDetail): PageViolations[] {
+  const groups = new Map<number | null, PageViolations>()
+  for (const range of check.pdfPages ?? []) {
+    groups.set(range.page, { page: range.page, source: range.source, violations: [] })
+  }
+
+  check.violations.forEach((violation, index) => {
+    const page = violation.pageNumber ?? null
+    const group = groups.get(page) ?? { page, source: null, violations: [] }
+    group.violations.push({ violation, index })
+    groups.set(page, group)
+  })
+
+  return [...groups.values()].sort((a, b) => (a.page ?? Infinity) - (b.page ?? Infinity))
+}
@@ -2,12 +2,24 @@
  * diff フォーマット生成ユーティリティ
  */
 
+/**
+ * 行単位の差分の1行（' ': 共通、'-': 削除、'+': 追加）
+ */
+export interface DiffLine {
+  type: ' ' | '-' | '+'
+  text: string
+}
+
 /**
  * diff フォーマットのヘッダー生成
  */
-export function getDiffHeader(originalLineCount: number, modifiedLineCount: number): string {
-  return `--- 原文
-+++ 修正文
+export function getDiffHeader(
+  originalLineCount: number,
+  modifiedLineCount: number,
+  labels: { original: string; modified: string } = { original: '原文', modified: '修正文' }
+): string {
+  return `--- ${labels.original}
++++ ${labels.modified}
 @@ -1,${originalLineCount} +1,${modifiedLineCount} @@`
 }
 
@@ -27,4 +39,51 @@ export function generateDiffFormat(originalText: string, modifiedText: string):
   const diffHeader = getDiffHeader(originalText.split('\n').length, modifiedText.split('\n').length)
   const diffBody = getDiffBody(originalText, modifiedText)
   return `${diffHeader}\n${diffBody}`
-}
\ No newline at end of file
+}
+
+/**
+ * 2つのテキストの行単位の差分（最長共通部分列）
+ */
+export function diffLines(beforeText: string, afterText: string): DiffLine[] {
+  const before = beforeText.split('\n')
+  const after = afterText.split('\n')
+
+  // lcs[i][j]: before[i..] と after[j..] の最長共通部分列の長さ
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: ' ', text: before[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: '-', text: before[i++] })
+    } else {
+      lines.push({ type: '+', text: after[j++] })
+    }
+  }
+  while (i < before.length) lines.push({ type: '-', text: before[i++] })
+  while (j < after.length) lines.push({ type: '+', text: after[j++] })
+  return lines
+}
+
+/**
+ * 再実行前後の修正文の diff 形式テキストを生成（変更のない行も含める）
+ */
+export function generateRunDiffFormat(
+  previousText: string,
+  currentText: string,
+  labels: { original: string; modified: string }
+): string {
+  const diffHeader = getDiffHeader(previousText.split('\n').length, currentText.split('\n').length, labels)
+  const diffBody = diffLines(previousText, currentText).map(line => `${line.type}${line.text}`).join('\n')
+  return `${diffHeader}\n${diffBody}`
+}
@@ -0,0 +1,85 @@
+import { Violation } from '../types'
+
+/**
+ * 前回・今回の両方で検出された違反
+ */
+export interface ViolationPair {
+  previous: Violation
+  current: Violation
+  /** 内容が変わった項目（空なら変更なし） */
+  changedFields: ViolationField[]
+}
+
+export type ViolationField = 'range' | 'reason' | 'severity' | 'regulatoryCategory' | 'suggestedText'
+
+export const violationFieldLabels: Record<ViolationField, string> = {
+  range: '位置',
+  reason: '理由',
+  severity: '重大度',
+  regulatoryCategory: '法的根拠',
+  suggestedText: '修正案'
+}
+
+/**
+ * 再実行前後の違反の比較結果
+ */
+export interface RunComparison {
+  /** 今回新たに検出された違反 */
+  added: Violation[]
+  /** 今回検出されなくなった違反 */
+  removed: Violation[]
+  /** 両方で検出され、内容が変わった違反 */
+  changed: ViolationPair[]
+  /** 両方で検出され、内容が同じ違反 */
+  unchanged: ViolationPair[]
+}
+
+function overlaps(a: Violation, b: Violation): boolean {
+  return a.startPos < b.endPos && b.startPos < a.endPos
+}
+
+function diffFields(previous: Violation, current: Violation): ViolationField[] {
+  const fields: ViolationField[] = []
+  if (previous.startPos !== current.startPos || previous.endPos !== current.endPos) fields.push('range')
+  if (previous.reason !== current.reason) fields.push('reason')
+  if ((previous.severity ?? null) !== (current.severity ?? null)) fields.push('severity')
+  if ((previous.regulatoryCategory ?? null) !== (current.regulatoryCategory ?? null)) fields.push('regulatoryCategory')
+  if ((previous.suggestedText ?? null) !== (current.suggestedText ?? null)) fields.push('suggestedText')
+  return fields
+}
+
+/**
+ * 再実行前後の違反を比較する。
+ * 再実行は元のチェックと同じテキストを分析するため、違反は位置で対応付ける
+ * （同じ範囲を優先し、残りは範囲が重なるもの同士を対応付ける）
+ */
+export function compareRunViolations(previous: Violation[], current: Violation[]): RunComparison {
+  const matched = new Map<Violation, Violation>()
+  const unmatchedCurrent = new Set(current)
+
+  const match = (isSame: (a: Violation, b: Violation) => boolean) => {
+    for (const before of previous) {
+      if (matched.has(before)) continue
+      const after = current.find(candidate => unmatchedCurrent.has(candidate) && isSame(before, candidate))
+      if (after) {
+        matched.set(before, after)
+        unmatchedCurrent.delete(after)
+      }
+    }
+  }
+  match((a, b) => a.startPos === b.startPos && a.endPos === b.endPos)
+  match(overlaps)
+
+  const comparison: RunComparison = { added: [], removed: [], changed: [], unchanged: [] }
+  for (const before of previous) {
+    const after = matched.get(before)
+    if (!after) {
+      comparison.removed.push(before)
+      continue
+    }
+    const changedFields = diffFields(before, after)
+    comparison[changedFields.length > 0 ? 'changed' : 'unchanged'].push({ previous: before, current: after, changedFields })
+  }
+  comparison.added = current.filter(violation => unmatchedCurrent.has(violation))
+  return comparison
+}
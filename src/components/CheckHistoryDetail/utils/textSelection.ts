@@ -0,0 +1,24 @@
+/**
+ * テキスト表示領域内の選択範囲ユーティリティ
+ */
+
+/**
+ * 表示領域内で選択されている範囲を、表示しているテキスト上の文字位置で返す。
+ * 違反のハイライトは元のテキストを要素で囲むだけなので、表示領域の textContent は元のテキストと一致する
+ */
+export function getSelectionOffsets(container: HTMLElement): { startPos: number; endPos: number; text: string } | null {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null
+
+  const range = selection.getRangeAt(0)
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null
+
+  // 表示領域の先頭から選択開始位置までの文字数
+  const preceding = document.createRange()
+  preceding.selectNodeContents(container)
+  preceding.setEnd(range.startContainer, range.startOffset)
+
+  const text = range.toString()
+  const startPos = preceding.toString().length
+  return text.trim() ? { startPos, endPos: startPos + text.length, text } : null
+}
@@ -4,6 +4,13 @@ import { Violation } from '../types'
  * 違反箇所のハイライト表示ユーティリティ
  */
 
+/**
+ * サーバー側で位置を特定できなかった違反か（信頼度 0）
+ */
+export function isUnanchoredViolation(violation: Violation): boolean {
+  return violation.confidence === 0
+}
+
 /**
  * 違反位置を修正する（不正な位置の場合に文字列から検索）
  */
@@ -92,6 +99,8 @@ export function highlightViolations(
   
   let highlightedText = text
   sortedViolations.forEach((violation) => {
+    if (isUnanchoredViolation(violation)) return
+
     const { startPos, endPos } = adjustViolationPosition(highlightedText, violation)
     
     // Final validation
@@ -118,6 +127,10 @@ export function highlightViolations(
  * 違反箇所のテキストを抽出する（表示用）
  */
 export function extractViolationText(text: string, violation: Violation): string {
+  if (isUnanchoredViolation(violation)) {
+    return '(位置未特定)'
+  }
+
   const { startPos, endPos } = adjustViolationPosition(text, violation)
   
   // Final validation
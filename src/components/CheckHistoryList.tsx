@@ -2,7 +2,7 @@
 
 import { format } from 'date-fns'
 import { ja } from 'date-fns/locale'
-import { Search, Filter, ChevronLeft, ChevronRight, Eye, Download, Image as ImageIcon, FileText, Plus } from 'lucide-react'
+import { Search, Filter, ChevronLeft, ChevronRight, Eye, Download, Image as ImageIcon, FileText, FileType, Globe, Plus } from 'lucide-react'
 import Image from 'next/image'
 import Link from 'next/link'
 import { useState, useEffect, useCallback } from 'react'
@@ -22,8 +22,9 @@ interface CheckHistory {
   originalText: string
   modifiedText: string | null
   status: 'pending' | 'processing' | 'completed' | 'failed'
-  inputType: 'text' | 'image'
+  inputType: 'text' | 'image' | 'pdf' | 'url'
   imageUrl?: string | null
+  sourceUrl?: string | null
   extractedText?: string | null
   createdAt: string
   completedAt: string | null
@@ -53,6 +54,13 @@ const statusLabels = {
   failed: { label: 'エラー', className: 'bg-red-100 text-red-800' }
 }
 
+const inputTypeLabels = {
+  text: 'テキスト',
+  image: '画像',
+  pdf: 'PDF',
+  url: 'URL'
+}
+
 export default function CheckHistoryList() {
   const [history, setHistory] = useState<CheckHistory[]>([])
   const [pagination, setPagination] = useState<PaginationInfo | null>(null)
@@ -205,7 +213,7 @@ export default function CheckHistoryList() {
     const csvContent = [
       headers.join(','),
       ...history.map(check => {
-        const displayText = check.inputType === 'image' 
+        const displayText = check.inputType !== 'text' 
           ? (check.extractedText ?? check.originalText)
           : check.originalText
         
@@ -213,7 +221,7 @@ export default function CheckHistoryList() {
           check.id,
           format(new Date(check.createdAt), 'yyyy-MM-dd HH:mm', { locale: ja }),
           statusLabels[check.status].label,
-          check.inputType === 'image' ? '画像' : 'テキスト',
+          inputTypeLabels[check.inputType],
           `"${truncateText(displayText, 50).replace(/"/g, '""')}"`,
           `"${check.modifiedText ? truncateText(check.modifiedText, 50).replace(/"/g, '""') : ''}"`,
           check.violationCount ?? ''
@@ -350,6 +358,8 @@ export default function CheckHistoryList() {
                   <SelectItem value="all">すべて</SelectItem>
                   <SelectItem value="text">テキスト</SelectItem>
                   <SelectItem value="image">画像</SelectItem>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                  <SelectItem value="url">URL</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -453,8 +463,14 @@ export default function CheckHistoryList() {
                       {statusLabels[check.status].label}
                     </Badge>
                     <Badge variant="outline" className="flex items-center gap-1">
-                      {check.inputType === 'image' ? <ImageIcon className="h-3 w-3" /> : <FileText className="h-3 w-3" />}
-                      {check.inputType === 'image' ? '画像' : 'テキスト'}
+                      {check.inputType === 'image'
+                        ? <ImageIcon className="h-3 w-3" />
+                        : check.inputType === 'pdf'
+                        ? <FileType className="h-3 w-3" />
+                        : check.inputType === 'url'
+                        ? <Globe className="h-3 w-3" />
+                        : <FileText className="h-3 w-3" />}
+                      {inputTypeLabels[check.inputType]}
                     </Badge>
                     {check.violationCount !== undefined && (
                       <Badge variant={check.violationCount > 0 ? 'destructive' : 'secondary'}>
@@ -492,12 +508,21 @@ export default function CheckHistoryList() {
                     </div>
                   )}
 
+                  {check.inputType === 'url' && check.sourceUrl && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 block mb-1">
+                        チェック対象URL
+                      </label>
+                      <p className="text-sm text-blue-600 break-all">{check.sourceUrl}</p>
+                    </div>
+                  )}
+
                   <div>
                     <label className="text-sm font-medium text-gray-700 block mb-1">
-                      {check.inputType === 'image' ? 'OCR抽出テキスト' : '原文'}
+                      {check.inputType === 'image' ? 'OCR抽出テキスト' : check.inputType === 'pdf' ? 'PDF抽出テキスト' : check.inputType === 'url' ? 'ページ抽出テキスト' : '原文'}
                     </label>
                     <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded">
-                      {check.inputType === 'image' && check.extractedText 
+                      {check.inputType !== 'text' && check.extractedText 
                         ? truncateText(check.extractedText)
                         : truncateText(check.originalText)
                       }
@@ -9,7 +9,9 @@ import {
   LogOut,
   Menu,
   X,
-  BarChart3
+  BarChart3,
+  Layers,
+  Globe
 } from 'lucide-react'
 import Image from 'next/image'
 import Link from 'next/link'
@@ -42,6 +44,20 @@ const navigationItems: NavigationItem[] = [
     requireAuth: true,
     showInMobile: true
   },
+  {
+    name: '一括チェック',
+    href: '/checker/batch',
+    icon: Layers,
+    requireAuth: true,
+    showInMobile: false
+  },
+  {
+    name: 'URLチェック',
+    href: '/checker/url',
+    icon: Globe,
+    requireAuth: true,
+    showInMobile: false
+  },
   {
     name: 'チェック履歴',
     href: '/history',
@@ -76,7 +92,10 @@ export default function GlobalNavigation() {
     if (href === '/') {
       return pathname === '/'
     }
-    return pathname.startsWith(href)
+    // より具体的なメニュー（/checker/batch など）に一致する場合は親メニューをアクティブにしない
+    return pathname.startsWith(href) && !navigationItems.some(other =>
+      other.href.length > href.length && other.href.startsWith(href) && pathname.startsWith(other.href)
+    )
   }
 
   const shouldShowItem = (item: NavigationItem) => {
@@ -3,6 +3,7 @@
 import { Loader2, UploadCloud, Copy, Download, X } from 'lucide-react'
 import { useEffect, useMemo, useRef, useState, useId } from 'react'
 
+import { ImageViolationOverlay } from '@/components/ImageViolationOverlay'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { APP_CONFIG } from '@/constants'
@@ -18,17 +19,41 @@ import {
   OrganizationStatus,
   SystemStatus,
   CheckResult,
-  CheckStreamData
+  CheckStreamData,
+  Violation
 } from '@/types'
 
 const MAX_SIZE_BYTES = APP_CONFIG.FILE_SIZE_LIMITS.IMAGE
-const ACCEPT_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+const PDF_MAX_SIZE_BYTES = APP_CONFIG.FILE_SIZE_LIMITS.PDF
+const PDF_MIME_TYPE = 'application/pdf'
+const ACCEPT_TYPES = ['image/jpeg', 'image/png', 'image/webp', PDF_MIME_TYPE]
 
 // ドラッグオーバーの状態管理用
 type DragState = 'idle' | 'over' | 'selected'
 
 /**
- * 画像アップロード・OCR・薬機法チェックを行うコンポーネント
+ * ストリーム・DBの違反データを画面表示用に変換する（画像上の位置を含む）
+ */
+function toImageViolations(violations: CheckStreamData['violations']): Violation[] {
+  return (violations ?? [])
+    .slice()
+    .sort((a, b) => a.start_pos - b.start_pos)
+    .map(violation => ({
+      id: violation.id,
+      startPos: violation.start_pos,
+      endPos: violation.end_pos,
+      reason: violation.reason,
+      dictionary_id: violation.dictionary_id ?? undefined,
+      confidence: violation.confidence ?? null,
+      matchedText: violation.matched_text ?? null,
+      imageRegions: violation.image_regions ?? [],
+      pageNumber: violation.page_number ?? null
+    }))
+}
+
+/**
+ * 画像・PDFアップロード・OCR・薬機法チェックを行うコンポーネント
+ * PDFはサーバー側でページごとにテキストを抽出する（スキャンページはOCR）
  * TextCheckerのパターンに準拠したキュー管理、履歴管理、進捗表示を提供
  */
 export default function ImageChecker() {
@@ -72,6 +97,7 @@ export default function ImageChecker() {
   const [copySuccess, setCopySuccess] = useState<string | null>(null)
   const [pdfError, setPdfError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState('preview')
+  const [selectedViolationId, setSelectedViolationId] = useState<number | null>(null)
   
   // 参照とコントローラー
   const globalStreamRef = useRef<EventSource | null>(null)
@@ -169,6 +195,12 @@ export default function ImageChecker() {
   ), [activeCheckId, checks])
   
   const hasActiveCheck = activeCheck?.result
+
+  // 画像上で選択中の違反（チェックを切り替えたら選択を解除）
+  const selectedViolation = activeCheck?.result?.violations.find(violation => violation.id === selectedViolationId) ?? null
+  useEffect(() => {
+    setSelectedViolationId(null)
+  }, [activeCheckId])
   
   /**
    * ファイル選択時の処理
@@ -179,11 +211,12 @@ export default function ImageChecker() {
     if (!files || files.length === 0) return
     const f = files[0]
     if (!ACCEPT_TYPES.includes(f.type)) {
-      setError('対応していないファイル形式です（JPEG/PNG/WebP）')
+      setError('対応していないファイル形式です（JPEG/PNG/WebP/PDF）')
       return
     }
-    if (f.size > MAX_SIZE_BYTES) {
-      setError('ファイルサイズが10MBを超えています')
+    const maxSize = f.type === PDF_MIME_TYPE ? PDF_MAX_SIZE_BYTES : MAX_SIZE_BYTES
+    if (f.size > maxSize) {
+      setError(`ファイルサイズが${Math.round(maxSize / 1024 / 1024)}MBを超えています`)
       return
     }
     
@@ -193,8 +226,8 @@ export default function ImageChecker() {
     }
     
     setFile(f)
-    const url = URL.createObjectURL(f)
-    setPreviewUrl(url)
+    // PDFはプレビューせずファイル情報のみ表示する
+    setPreviewUrl(f.type === PDF_MIME_TYPE ? null : URL.createObjectURL(f))
     setDragState('selected')
   }
 
@@ -448,8 +481,9 @@ ${activeCheck.result.violations.length > 0
           : check
       ))
       
-      // クライアントサイドの前処理: 最大2000pxにリサイズ、JPEG変換
-      const processedFile = await preprocessForOcr(file, 2000, 0.9)
+      // クライアントサイドの前処理: 最大2000pxにリサイズ、JPEG変換（PDFはそのままアップロード）
+      const isPdf = file.type === PDF_MIME_TYPE
+      const processedFile = isPdf ? file : await preprocessForOcr(file, 2000, 0.9)
       const form = new FormData()
       form.append('image', processedFile)
 
@@ -467,11 +501,11 @@ ${activeCheck.result.violations.length > 0
       // ステータス更新
       setChecks(prev => prev.map(check => 
         check.id === checkId 
-          ? { ...check, statusMessage: '画像チェックを開始しています...' }
+          ? { ...check, statusMessage: isPdf ? 'PDFチェックを開始しています...' : '画像チェックを開始しています...' }
           : check
       ))
       
-      // input_type=imageでチェック開始
+      // input_type=image（PDFは pdf）でチェック開始
       const checksRes = await authFetch('/api/checks', {
         method: 'POST',
         headers: {
@@ -479,7 +513,7 @@ ${activeCheck.result.violations.length > 0
           ...(session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {})
         },
         credentials: 'same-origin',
-        body: JSON.stringify({ input_type: 'image', image_url: uploadData.signedUrl, text: '' })
+        body: JSON.stringify({ input_type: isPdf ? 'pdf' : 'image', image_url: uploadData.signedUrl, text: '' })
       })
       if (!checksRes.ok) {
         const err = await checksRes.json().catch(() => ({}))
@@ -495,7 +529,7 @@ ${activeCheck.result.violations.length > 0
           ? { 
               ...check, 
               status: 'processing',
-              statusMessage: 'OCRおよび薬機法チェックを実行中...' 
+              statusMessage: isPdf ? 'PDFのテキスト抽出および薬機法チェックを実行中...' : 'OCRおよび薬機法チェックを実行中...' 
             }
           : check
       ))
@@ -506,7 +540,7 @@ ${activeCheck.result.violations.length > 0
       // 画像処理用の最適化されたポーリング設定
       let pollCount = 0
       const isImageCheck = true
-      const timeoutConfig = getProcessingTimeouts(isImageCheck)
+      const timeoutConfig = getProcessingTimeouts(isImageCheck, 0, isPdf)
       const { maxPolls, pollIntervalMs, totalTimeoutMs, description } = timeoutConfig
       
       logger.info('Image check processing started', {
@@ -524,7 +558,7 @@ ${activeCheck.result.violations.length > 0
         try {
           const { data: currentCheck, error: pollError } = await supabase
             .from('checks')
-            .select('*')
+            .select('*, violations (id, start_pos, end_pos, reason, dictionary_id, confidence, matched_text, image_regions, page_number)')
             .eq('id', dbCheckId)
             .single()
           
@@ -545,7 +579,8 @@ ${activeCheck.result.violations.length > 0
                 original_text: currentCheck.extracted_text ?? '',
                 modified_text: currentCheck.modified_text ?? '',
                 status: currentCheck.status ?? 'failed',
-                violations: [] // 画像チェックでは違反詳細は簡素化
+                violations: toImageViolations(currentCheck.violations as CheckStreamData['violations']),
+                image_url: currentCheck.input_type === 'pdf' ? null : currentCheck.image_url
               }
               
               setChecks(prev => prev.map(check => 
@@ -669,7 +704,8 @@ ${activeCheck.result.violations.length > 0
             original_text: data.extracted_text ?? data.original_text ?? '',
             modified_text: data.modified_text ?? '',
             status: data.status ?? 'completed',
-            violations: [] // 画像チェックでは違反詳細は簡素化
+            violations: toImageViolations(data.violations),
+            image_url: data.input_type === 'pdf' ? null : data.image_url ?? null
           }
           
           setChecks(prev => prev.map(check => 
@@ -814,13 +850,13 @@ ${activeCheck.result.violations.length > 0
                     : 'text-gray-700'
                 }`}>
                   {dragState === 'over'
-                    ? '画像をドロップしてください'
+                    ? '画像またはPDFをドロップしてください'
                     : dragState === 'selected'
                     ? 'ファイルが選択されました'
                     : 'ここにドラッグ&ドロップ、またはクリックして選択'}
                 </div>
                 <div className="text-sm text-gray-500">
-                  対応形式: JPEG, PNG, WebP（最大{Math.round(MAX_SIZE_BYTES / 1024 / 1024)}MB）
+                  対応形式: JPEG, PNG, WebP, PDF（最大{Math.round(MAX_SIZE_BYTES / 1024 / 1024)}MB）
                 </div>
               </div>
             </div>
@@ -1073,6 +1109,25 @@ ${activeCheck.result.violations.length > 0
 
                 <TabsContent value="preview" className="mt-4">
                   <div className="space-y-4">
+                    {activeCheck.result!.image_url && (
+                      <div>
+                        <h3 className="font-medium mb-2">画像上の問題箇所</h3>
+                        <ImageViolationOverlay
+                          imageUrl={activeCheck.result!.image_url}
+                          violations={activeCheck.result!.violations}
+                          selectedViolationId={selectedViolationId}
+                          onSelect={setSelectedViolationId}
+                        />
+                        {selectedViolation && (
+                          <div className="mt-2 border rounded p-3 bg-red-50 text-sm text-gray-900" data-testid="selected-violation">
+                            {selectedViolation.matchedText && (
+                              <div><strong>該当箇所:</strong> {selectedViolation.matchedText}</div>
+                            )}
+                            <div><strong>理由:</strong> {selectedViolation.reason}</div>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <div>
                       <h3 className="font-medium mb-2">抽出されたテキスト（OCR）</h3>
                       <div className="border rounded p-4 min-h-[200px] bg-gray-50 text-base leading-relaxed font-medium text-gray-900 whitespace-pre-wrap">
@@ -1104,9 +1159,25 @@ ${activeCheck.result.violations.length > 0
                       <div className="space-y-3">
                         <h3 className="font-medium">検出された問題</h3>
                         {activeCheck.result!.violations.map((violation, index) => (
-                          <div key={violation.id || index} className="border rounded p-4 bg-red-50">
+                          <div
+                            key={violation.id || index}
+                            className={`border rounded p-4 bg-red-50 ${
+                              violation.imageRegions?.length ? 'cursor-pointer hover:bg-red-100' : ''
+                            } ${violation.id === selectedViolationId ? 'border-red-400' : ''}`}
+                            onClick={() => {
+                              if (!violation.imageRegions?.length) return
+                              setSelectedViolationId(violation.id)
+                              setActiveTab('preview')
+                            }}
+                          >
                             <div className="font-medium text-red-800 mb-2">
                               問題 {index + 1}
+                              {violation.pageNumber ? (
+                                <span className="ml-2 text-xs font-normal text-red-600">{violation.pageNumber}ページ</span>
+                              ) : null}
+                              {violation.imageRegions?.length ? (
+                                <span className="ml-2 text-xs font-normal text-red-600">画像上で表示</span>
+                              ) : null}
                             </div>
                             <div className="text-sm text-gray-900">
                               <strong>理由:</strong> {violation.reason}
@@ -1125,7 +1196,7 @@ ${activeCheck.result.violations.length > 0
             </div>
           ) : (
             <div className="border rounded p-8 text-center text-gray-500">
-              左側で画像を選択し、「チェック開始」ボタンを押してください
+              左側で画像またはPDFを選択し、「チェック開始」ボタンを押してください
               {checks.length > 0 && (
                 <div className="mt-4">
                   <p className="text-sm">チェック履歴から結果を選択して表示できます</p>
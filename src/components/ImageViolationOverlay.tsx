@@ -0,0 +1,58 @@
+'use client'
+
+import { Violation } from '@/types'
+
+interface ImageViolationOverlayProps {
+  imageUrl: string
+  violations: Violation[]
+  selectedViolationId: number | null
+  onSelect: (violationId: number | null) => void
+}
+
+/**
+ * 画像上に違反箇所のオーバーレイを描画する（座標は画像の幅・高さに対する比率）
+ * オーバーレイをクリックすると該当の違反を選択する
+ */
+export function ImageViolationOverlay({ imageUrl, violations, selectedViolationId, onSelect }: ImageViolationOverlayProps) {
+  const located = violations.filter(violation => (violation.imageRegions?.length ?? 0) > 0)
+
+  return (
+    <div className="space-y-2">
+      <div className="relative inline-block w-full border rounded overflow-hidden bg-gray-50" data-testid="image-overlay">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={imageUrl} alt="チェック対象の画像" className="block w-full h-auto" />
+        {violations.map((violation, violationIndex) =>
+          (violation.imageRegions ?? []).map((region, regionIndex) => {
+            const selected = violation.id === selectedViolationId
+            return (
+              <button
+                key={`${violation.id}-${regionIndex}`}
+                type="button"
+                title={violation.reason}
+                aria-label={`問題 ${violationIndex + 1}: ${violation.reason}`}
+                onClick={() => onSelect(selected ? null : violation.id)}
+                className={`absolute border-2 rounded-sm transition-colors ${
+                  selected
+                    ? 'border-red-600 bg-red-500/30 ring-2 ring-red-300'
+                    : 'border-red-500 bg-red-500/10 hover:bg-red-500/25'
+                }`}
+                style={{
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`
+                }}
+                data-testid="image-overlay-region"
+              />
+            )
+          })
+        )}
+      </div>
+      {violations.length > located.length && (
+        <p className="text-xs text-gray-500">
+          {violations.length - located.length}件の問題は画像上の位置を特定できませんでした
+        </p>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,7 @@ import { useState, useEffect, useId, useRef, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Textarea } from '@/components/ui/textarea'
-import { APP_CONFIG } from '@/constants'
+import { APP_CONFIG, PRODUCT_CATEGORY_CODES, PRODUCT_CATEGORY_LABELS, ProductCategory } from '@/constants'
 import { getProcessingTimeouts, getTimeoutInMinutes, TIMEOUTS } from '@/constants/timeouts'
 import { useAuth } from '@/contexts/AuthContext'
 import { useToast } from '@/hooks/use-toast'
@@ -26,6 +26,7 @@ export default function TextChecker() {
   const checkCounter = useRef(0)
   const [mounted, setMounted] = useState(false) // ハイドレーション対策
   const [text, setText] = useState('')
+  const [productCategory, setProductCategory] = useState<ProductCategory | ''>('')
   const [checks, setChecks] = useState<CheckItem[]>([])
   const [activeCheckId, setActiveCheckId] = useState<string | null>(null)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
@@ -342,7 +343,7 @@ export default function TextChecker() {
         method: 'POST',
         headers,
         credentials: 'same-origin', // Include cookies in the request
-        body: JSON.stringify({ text: newCheckItem.originalText }),
+        body: JSON.stringify({ text: newCheckItem.originalText, productCategory: productCategory || null }),
       })
 
       if (!response.ok) {
@@ -379,7 +380,7 @@ export default function TextChecker() {
       const isImageCheck = JSON.stringify({ text: newCheckItem.originalText }).includes('image_url')
       
       // 処理タイプに応じた動的タイムアウト設定
-      const timeoutConfig = getProcessingTimeouts(isImageCheck)
+      const timeoutConfig = getProcessingTimeouts(isImageCheck, newCheckItem.originalText.length)
       const { maxPolls, pollIntervalMs, totalTimeoutMs, description } = timeoutConfig
       
       logger.info('Check processing started', {
@@ -941,9 +942,26 @@ export default function TextChecker() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* 入力エリア */}
         <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <label htmlFor="product-category" className="text-sm font-medium">
+              製品カテゴリ
+            </label>
+            <select
+              id="product-category"
+              data-testid="product-category-select"
+              value={productCategory}
+              onChange={(e) => setProductCategory(e.target.value as ProductCategory | '')}
+              className="h-9 px-3 rounded-md border border-input bg-background text-sm"
+            >
+              <option value="">未指定</option>
+              {PRODUCT_CATEGORY_CODES.map(code => (
+                <option key={code} value={code}>{PRODUCT_CATEGORY_LABELS[code]}</option>
+              ))}
+            </select>
+          </div>
           <div>
             <label htmlFor="original-text" className="block text-sm font-medium mb-2">
-              チェックするテキスト（最大10,000文字）
+              チェックするテキスト（最大{APP_CONFIG.TEXT_LIMITS.MAX_LENGTH.toLocaleString()}文字）
             </label>
             <Textarea
               id="original-text"
@@ -957,7 +975,7 @@ export default function TextChecker() {
             />
             <div className="flex justify-between items-center mt-2">
               <span className="text-sm text-gray-500">
-                {text.length.toLocaleString()} / 10,000文字
+                {text.length.toLocaleString()} / {APP_CONFIG.TEXT_LIMITS.MAX_LENGTH.toLocaleString()}文字
               </span>
               <Button
                 onClick={handleCheck}
@@ -9,6 +9,7 @@ import { AlertCircle, Clock, CheckCircle, XCircle } from 'lucide-react'
 import React, { useState, useCallback } from 'react'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ProductCategory } from '@/constants'
 import { logger } from '@/lib/logger'
 import { CheckItem } from '@/types'
 
@@ -31,6 +32,7 @@ export interface TextCheckerProps {
 export function TextChecker({ className }: TextCheckerProps) {
   // 状態管理
   const [selectedCheck, setSelectedCheck] = useState<CheckItem | null>(null)
+  const [productCategory, setProductCategory] = useState<ProductCategory | ''>('')
   
   // フック統合
   const checkState = useCheckState()
@@ -76,7 +78,7 @@ export function TextChecker({ className }: TextCheckerProps) {
       const response = await fetch('/api/checks', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text })
+        body: JSON.stringify({ text, productCategory: productCategory || null })
       })
 
       if (!response.ok) {
@@ -104,7 +106,7 @@ export function TextChecker({ className }: TextCheckerProps) {
         error: errorMessage
       })
     }
-  }, [checkState, errorHandling])
+  }, [checkState, errorHandling, productCategory])
 
   // チェック詳細表示
   const handleViewDetails = useCallback((checkId: string) => {
@@ -178,6 +180,8 @@ export function TextChecker({ className }: TextCheckerProps) {
             isChecking={!!checkState.activeCheckId}
             characterCount={checkState.text.length}
             errorMessage={errorHandling.errorMessage}
+            productCategory={productCategory}
+            setProductCategory={setProductCategory}
           />
         </CardContent>
       </Card>
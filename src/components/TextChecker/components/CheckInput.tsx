@@ -8,7 +8,7 @@ import React from 'react'
 
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { APP_CONFIG } from '@/constants'
+import { APP_CONFIG, PRODUCT_CATEGORY_CODES, PRODUCT_CATEGORY_LABELS, ProductCategory } from '@/constants'
 
 export interface CheckInputProps {
   text: string
@@ -17,6 +17,8 @@ export interface CheckInputProps {
   isChecking: boolean
   characterCount: number
   errorMessage?: string | null
+  productCategory: ProductCategory | ''
+  setProductCategory: (productCategory: ProductCategory | '') => void
 }
 
 export const CheckInput: React.FC<CheckInputProps> = ({
@@ -25,7 +27,9 @@ export const CheckInput: React.FC<CheckInputProps> = ({
   onCheck,
   isChecking,
   characterCount,
-  errorMessage
+  errorMessage,
+  productCategory,
+  setProductCategory
 }) => {
   const handleSubmit = () => {
     if (text.trim()) {
@@ -45,6 +49,26 @@ export const CheckInput: React.FC<CheckInputProps> = ({
 
   return (
     <div className="space-y-4">
+      {/* 製品カテゴリ選択（カテゴリにより表示可能な効能効果が異なる） */}
+      <div className="flex items-center gap-2">
+        <label htmlFor="product-category" className="text-sm text-gray-700">
+          製品カテゴリ
+        </label>
+        <select
+          id="product-category"
+          value={productCategory}
+          onChange={(e) => setProductCategory(e.target.value as ProductCategory | '')}
+          className="h-9 px-3 rounded-md border border-input bg-background text-sm"
+          data-testid="product-category-select"
+          disabled={isChecking}
+        >
+          <option value="">未指定</option>
+          {PRODUCT_CATEGORY_CODES.map(code => (
+            <option key={code} value={code}>{PRODUCT_CATEGORY_LABELS[code]}</option>
+          ))}
+        </select>
+      </div>
+
       <div className="relative">
         <Textarea
           value={text}
@@ -210,7 +210,8 @@ export function useStreamUpdates({
           startPos: v.start_pos,
           endPos: v.end_pos,
           reason: v.reason,
-          dictionary_id: v.dictionary_id ?? undefined
+          dictionary_id: v.dictionary_id ?? undefined,
+          confidence: v.confidence
         })) ?? []
         
         const checkResult = {
@@ -24,6 +24,9 @@ export function highlightText(
   const sortedViolations = [...violations].sort((a, b) => b.startPos - a.startPos)
   
   sortedViolations.forEach((violation) => {
+    // サーバー側で位置を特定できなかった違反はハイライトしない
+    if (violation.confidence === 0) return
+
     // Validate positions
     const startPos = Math.max(0, Math.min(violation.startPos, text.length))
     const endPos = Math.max(startPos, Math.min(violation.endPos, text.length))
@@ -0,0 +1,250 @@
+'use client'
+
+import { ExternalLink, Globe, Loader2 } from 'lucide-react'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PRODUCT_CATEGORY_CODES, PRODUCT_CATEGORY_LABELS, ProductCategory } from '@/constants'
+import { useToast } from '@/hooks/use-toast'
+import { authFetch } from '@/lib/api-client'
+import { CheckStreamData } from '@/types'
+
+type UrlCheckStatus = 'idle' | 'processing' | 'completed' | 'failed'
+
+/**
+ * http / https のURLか（送信前の簡易チェック、最終的な検証はサーバー側）
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json()
+    return data?.error?.message ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * URLチェック（ランディングページ）
+ * 送信したURLのページをサーバー側で取得して本文・画像の alt・title・meta description をチェックし、
+ * 違反箇所をページ上の要素（CSSセレクタ）とあわせて表示する
+ */
+export default function UrlChecker() {
+  const { toast } = useToast()
+  const [url, setUrl] = useState('')
+  const [productCategory, setProductCategory] = useState<ProductCategory | ''>('')
+  const [submitting, setSubmitting] = useState(false)
+  const [checkId, setCheckId] = useState<number | null>(null)
+  const [status, setStatus] = useState<UrlCheckStatus>('idle')
+  const [statusMessage, setStatusMessage] = useState<string | null>(null)
+  const [result, setResult] = useState<CheckStreamData | null>(null)
+
+  const trimmedUrl = url.trim()
+  const canSubmit = !submitting && status !== 'processing' && isHttpUrl(trimmedUrl)
+
+  // チェック結果の購読
+  useEffect(() => {
+    if (checkId === null) return
+
+    const eventSource = new EventSource(`/api/checks/${checkId}/stream`)
+
+    eventSource.addEventListener('progress', (event) => {
+      try {
+        const data: CheckStreamData = JSON.parse(event.data)
+        setStatusMessage(data.ocr_status === 'processing' ? 'ページを取得しています...' : '薬機法違反の検出と修正を実行中...')
+      } catch {
+        // 不正なメッセージは無視
+      }
+    })
+    eventSource.addEventListener('complete', (event) => {
+      try {
+        const data: CheckStreamData = JSON.parse(event.data)
+        setResult(data)
+        setStatus(data.status === 'failed' ? 'failed' : 'completed')
+        setStatusMessage(data.status === 'failed' ? 'チェックに失敗しました' : 'チェック完了')
+      } catch {
+        setStatus('failed')
+        setStatusMessage('結果の取得に失敗しました')
+      }
+      eventSource.close()
+    })
+    eventSource.addEventListener('error', (event) => {
+      const data = (event as MessageEvent).data
+      if (typeof data === 'string') {
+        try {
+          setStatusMessage(`エラー: ${JSON.parse(data)?.error ?? 'チェック処理が失敗しました'}`)
+        } catch {
+          setStatusMessage('エラー: チェック処理が失敗しました')
+        }
+        setStatus('failed')
+        eventSource.close()
+      }
+    })
+
+    return () => {
+      eventSource.close()
+    }
+  }, [checkId])
+
+  const submit = async () => {
+    setSubmitting(true)
+    setResult(null)
+    setStatusMessage(null)
+    try {
+      const res = await authFetch('/api/checks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          input_type: 'url',
+          source_url: trimmedUrl,
+          text: '',
+          product_category: productCategory || undefined
+        })
+      })
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'URLチェックの開始に失敗しました'))
+
+      const data = await res.json() as { checkId: number }
+      setCheckId(data.checkId)
+      setStatus('processing')
+      setStatusMessage('ページを取得しています...')
+    } catch (err) {
+      toast({
+        title: 'エラー',
+        description: err instanceof Error ? err.message : 'URLチェックの開始に失敗しました',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const sourceText = result?.extracted_text ?? ''
+  const violations = (result?.violations ?? []).slice().sort((a, b) => a.start_pos - b.start_pos)
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">URLチェック</h1>
+        <p className="text-sm text-muted-foreground">
+          ランディングページのURLを指定すると、ページの本文・画像の代替テキスト・タイトル・説明文をチェックします
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>チェック対象</CardTitle>
+          <CardDescription>チェック時点のページ（HTML）は監査用にスナップショットとして保存されます</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="url-check-url">ページのURL</Label>
+              <Input
+                id="url-check-url"
+                type="url"
+                placeholder="https://example.com/lp"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                disabled={submitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="url-check-product-category">製品カテゴリ</Label>
+              <select
+                id="url-check-product-category"
+                value={productCategory}
+                onChange={(e) => setProductCategory(e.target.value as ProductCategory | '')}
+                className="h-9 w-full px-3 rounded-md border border-input bg-background text-sm"
+                disabled={submitting}
+              >
+                <option value="">未指定</option>
+                {PRODUCT_CATEGORY_CODES.map(code => (
+                  <option key={code} value={code}>{PRODUCT_CATEGORY_LABELS[code]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={submit} disabled={!canSubmit} className="min-w-[160px]">
+              {submitting || status === 'processing' ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  {submitting ? '送信中...' : 'チェック中...'}
+                </>
+              ) : (
+                <>
+                  <Globe className="w-4 h-4 mr-2" />
+                  URLチェック開始
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {checkId !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>結果（チェック #{checkId}）</span>
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/history/${checkId}`}>
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  詳細
+                </Link>
+              </Button>
+            </CardTitle>
+            {statusMessage && (
+              <CardDescription className={status === 'failed' ? 'text-red-600' : undefined}>
+                {statusMessage}
+              </CardDescription>
+            )}
+          </CardHeader>
+          {status === 'completed' && result && (
+            <CardContent className="space-y-3">
+              {violations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">違反は検出されませんでした。</p>
+              ) : (
+                violations.map((violation, index) => (
+                  <div key={violation.id} className="border rounded p-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-gray-700">違反 #{index + 1}</span>
+                      {violation.dom_selector && (
+                        <Badge variant="outline" className="text-xs font-mono max-w-[60%] truncate">
+                          {violation.dom_selector}
+                        </Badge>
+                      )}
+                    </div>
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">違反箇所:</span>
+                      <span className="ml-2 bg-red-100 text-red-800 px-2 py-1 rounded text-sm">
+                        &quot;{violation.matched_text ?? sourceText.slice(violation.start_pos, violation.end_pos)}&quot;
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-sm font-medium text-gray-700">理由:</span>
+                      <span className="ml-2 text-sm">{violation.reason}</span>
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
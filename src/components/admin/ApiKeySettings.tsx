@@ -0,0 +1,223 @@
+'use client'
+
+import { Key } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { API_KEY_SCOPE_LABELS, API_KEY_SCOPES, ApiKeyScope } from '@/constants/apiKeys'
+import { useToast } from '@/hooks/use-toast'
+import { authFetch } from '@/lib/api-client'
+
+interface ApiKeyItem {
+  id: number
+  name: string
+  keyPrefix: string
+  scopes: string[]
+  createdAt: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('ja-JP') : '-'
+
+async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const data = await res.json()
+    return data?.error?.message ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * 組織のAPIキー管理（発行・一覧・無効化）
+ */
+export function ApiKeySettings() {
+  const { toast } = useToast()
+  const [apiKeys, setApiKeys] = useState<ApiKeyItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['checks:write'])
+  const [creating, setCreating] = useState(false)
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+
+  const fetchApiKeys = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await authFetch('/api/api-keys')
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'APIキーの取得に失敗しました'))
+      const data = await res.json()
+      setApiKeys(data.apiKeys ?? [])
+    } catch (err) {
+      toast({
+        title: 'エラー',
+        description: err instanceof Error ? err.message : 'APIキーの取得に失敗しました',
+        variant: 'destructive'
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchApiKeys()
+  }, [fetchApiKeys])
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope))
+  }
+
+  const createApiKey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    try {
+      const res = await authFetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes })
+      })
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'APIキーの発行に失敗しました'))
+      const data = await res.json()
+      setCreatedKey(data.key)
+      setShowForm(false)
+      setName('')
+      setScopes(['checks:write'])
+      fetchApiKeys()
+    } catch (err) {
+      toast({
+        title: 'エラー',
+        description: err instanceof Error ? err.message : 'APIキーの発行に失敗しました',
+        variant: 'destructive'
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const revokeApiKey = async (apiKey: ApiKeyItem) => {
+    if (!confirm(`「${apiKey.name}」を無効化しますか？このキーを使うリクエストはすぐに拒否されます。`)) return
+    try {
+      const res = await authFetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' })
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'APIキーの無効化に失敗しました'))
+      toast({ title: 'APIキーを無効化しました', description: apiKey.name })
+      fetchApiKeys()
+    } catch (err) {
+      toast({
+        title: 'エラー',
+        description: err instanceof Error ? err.message : 'APIキーの無効化に失敗しました',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Key className="h-5 w-5" />
+          API設定
+        </CardTitle>
+        <CardDescription>
+          APIキーとアクセス設定（<code>Authorization: Bearer &lt;APIキー&gt;</code> で /api/checks などを呼び出せます）
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => setShowForm(prev => !prev)}>
+              <Key className="h-4 w-4 mr-2" />
+              新しいAPIキーを生成
+            </Button>
+          </div>
+
+          {showForm && (
+            <form onSubmit={createApiKey} className="space-y-4 border rounded-lg p-4">
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">キー名</Label>
+                <Input
+                  id="api-key-name"
+                  placeholder="例: CI パイプライン"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>スコープ</Label>
+                <div className="flex flex-wrap gap-4">
+                  {API_KEY_SCOPES.map(scope => (
+                    <label key={scope} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={scopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                      />
+                      {API_KEY_SCOPE_LABELS[scope]}
+                      <span className="text-xs text-muted-foreground">{scope}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button type="submit" disabled={creating || !name.trim() || scopes.length === 0}>
+                {creating ? '発行中...' : '発行'}
+              </Button>
+            </form>
+          )}
+
+          {createdKey && (
+            <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm">
+              <p className="font-medium">APIキー（この画面でのみ表示されます。安全な場所に保存してください）</p>
+              <code className="break-all">{createdKey}</code>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {loading && <p className="text-sm text-muted-foreground">読み込み中...</p>}
+            {!loading && apiKeys.length === 0 && (
+              <p className="text-sm text-muted-foreground">発行済みのAPIキーはありません</p>
+            )}
+            {apiKeys.map((apiKey) => (
+              <div key={apiKey.id} className="border rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{apiKey.name}</h4>
+                      <Badge variant={apiKey.revokedAt ? 'secondary' : 'default'}>
+                        {apiKey.revokedAt ? 'revoked' : 'active'}
+                      </Badge>
+                    </div>
+                    <p className="text-sm font-mono bg-muted px-2 py-1 rounded">
+                      {apiKey.keyPrefix}…
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map(scope => (
+                        <Badge key={scope} variant="outline">{scope}</Badge>
+                      ))}
+                    </div>
+                    <div className="flex gap-4 text-xs text-muted-foreground">
+                      <span>作成日: {formatDate(apiKey.createdAt)}</span>
+                      <span>最終使用: {formatDate(apiKey.lastUsedAt)}</span>
+                      {apiKey.revokedAt && <span>無効化: {formatDate(apiKey.revokedAt)}</span>}
+                    </div>
+                  </div>
+                  {!apiKey.revokedAt && (
+                    <Button variant="outline" size="sm" onClick={() => revokeApiKey(apiKey)}>
+                      無効化
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,6 +10,7 @@ import {
 } from 'lucide-react'
 import { useEffect, useState } from 'react'
 
+import { QueueDepth } from '@/components/admin/QueueDepth'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
@@ -241,10 +242,11 @@ export function DashboardStats() {
 
       {/* タブ付き詳細情報 */}
       <Tabs defaultValue="activity" className="space-y-4">
-        <TabsList className="grid w-full max-w-[400px] grid-cols-3">
+        <TabsList className="grid w-full max-w-[520px] grid-cols-4">
           <TabsTrigger value="activity">アクティビティ</TabsTrigger>
           <TabsTrigger value="performance">パフォーマンス</TabsTrigger>
           <TabsTrigger value="usage">利用状況</TabsTrigger>
+          <TabsTrigger value="queue">キュー</TabsTrigger>
         </TabsList>
 
         <TabsContent value="activity" className="space-y-4">
@@ -374,6 +376,10 @@ export function DashboardStats() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="queue" className="space-y-4">
+          <QueueDepth />
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,190 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { LlmUsageSummary } from '@/constants/llmPricing'
+import { authFetch } from '@/lib/api-client'
+
+export type LlmCostPeriod = 'day' | 'week' | 'month' | 'year'
+
+const PERIOD_LABELS: Record<LlmCostPeriod, string> = {
+  day: '今日',
+  week: '今週',
+  month: '今月',
+  year: '今年'
+}
+
+const formatUsd = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 }).format(amount)
+
+const formatTokens = (tokens: number) => tokens.toLocaleString('ja-JP')
+
+/**
+ * LLMトークン使用量とコストの分析（組織別・ユーザー別・日別）
+ */
+export function LlmCostAnalytics({ period }: { period: LlmCostPeriod }) {
+  const [usage, setUsage] = useState<LlmUsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchUsage = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const res = await authFetch(`/api/admin/stats?period=${period}`)
+        if (!res.ok) {
+          throw new Error('Failed to fetch data')
+        }
+        const data = await res.json()
+        if (!cancelled) setUsage(data.llmUsage ?? null)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'エラーが発生しました')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchUsage()
+    return () => {
+      cancelled = true
+    }
+  }, [period])
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">LLM利用量を読み込んでいます...</p>
+  }
+
+  if (error || !usage) {
+    return <p className="text-sm text-red-600">LLM利用量を取得できませんでした{error ? `: ${error}` : ''}</p>
+  }
+
+  const { totals } = usage
+  const costPerCheck = totals.checkCount > 0 ? totals.costUsd / totals.checkCount : 0
+  const maxDailyCost = Math.max(0, ...usage.daily.map(day => day.costUsd))
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">LLMコスト（{PERIOD_LABELS[period]}）</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatUsd(totals.costUsd)}</div>
+            <p className="text-xs text-muted-foreground">{totals.checkCount.toLocaleString()}件のチェック</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">チェックあたりコスト</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatUsd(costPerCheck)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">入力トークン</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTokens(totals.promptTokens)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">出力トークン</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTokens(totals.completionTokens)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>組織別コスト</CardTitle>
+            <CardDescription>クライアントごとのLLM利用コスト</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {usage.byOrganization.length === 0 ? (
+              <p className="text-sm text-muted-foreground">データがありません</p>
+            ) : (
+              <div className="space-y-4">
+                {usage.byOrganization.map(organization => (
+                  <div key={organization.organizationId} className="space-y-2">
+                    <div className="flex justify-between items-center">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{organization.organizationName ?? `組織 #${organization.organizationId}`}</span>
+                        <Badge variant="outline">{organization.checkCount}件</Badge>
+                      </div>
+                      <span className="text-sm text-muted-foreground">
+                        {formatUsd(organization.costUsd)}（{formatTokens(organization.totalTokens)} tokens）
+                      </span>
+                    </div>
+                    <Progress
+                      value={totals.costUsd > 0 ? (organization.costUsd / totals.costUsd) * 100 : 0}
+                      className="h-2"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>ユーザー別コスト</CardTitle>
+            <CardDescription>コストの高いユーザー上位10名</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {usage.byUser.length === 0 ? (
+              <p className="text-sm text-muted-foreground">データがありません</p>
+            ) : (
+              <div className="space-y-3">
+                {usage.byUser.slice(0, 10).map(user => (
+                  <div key={user.userId} className="flex justify-between items-center text-sm">
+                    <span className="truncate mr-4">{user.email ?? user.userId}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {formatUsd(user.costUsd)} / {user.checkCount}件
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>日別コスト</CardTitle>
+          <CardDescription>日本時間の日付ごとのLLM利用コスト</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {usage.daily.length === 0 ? (
+            <p className="text-sm text-muted-foreground">データがありません</p>
+          ) : (
+            <div className="space-y-2">
+              {usage.daily.map(day => (
+                <div key={day.date} className="flex items-center justify-between text-sm">
+                  <span className="w-24">{day.date}</span>
+                  <div className="flex-1 mx-4">
+                    <Progress value={maxDailyCost > 0 ? (day.costUsd / maxDailyCost) * 100 : 0} className="h-2" />
+                  </div>
+                  <span className="w-40 text-right">{formatUsd(day.costUsd)} / {day.checkCount}件</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import { RefreshCw } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { authFetch } from '@/lib/api-client'
+
+interface QueueData {
+  workerConcurrency: number
+  totals: { queued: number; running: number }
+  organizations: Array<{
+    organizationId: number | null
+    organizationName: string | null
+    plan: string | null
+    queued: number
+    running: number
+    oldestQueuedAt: string | null
+    maxConcurrent: number | null
+  }>
+}
+
+/** 自動更新の間隔 */
+const REFRESH_INTERVAL_MS = 10000
+
+const PLAN_LABELS: Record<string, string> = {
+  trial: 'トライアル',
+  basic: 'ベーシック',
+  premium: 'プレミアム',
+  enterprise: 'エンタープライズ'
+}
+
+/**
+ * チェックキューの組織別の待機数・処理中数（プラン別の同時実行数上限に対する使用状況）
+ */
+export function QueueDepth() {
+  const [queue, setQueue] = useState<QueueData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const res = await authFetch('/api/admin/queue?queue=check')
+      if (!res.ok) {
+        throw new Error('Failed to fetch data')
+      }
+      setQueue(await res.json())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'エラーが発生しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+    const timer = setInterval(fetchQueue, REFRESH_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [fetchQueue])
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">キューの状況を読み込んでいます...</p>
+  }
+
+  if (error || !queue) {
+    return <p className="text-sm text-red-600">キューの状況を取得できませんでした{error ? `: ${error}` : ''}</p>
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>組織別キュー状況</CardTitle>
+          <CardDescription>
+            待機 {queue.totals.queued}件 / 処理中 {queue.totals.running}件（ワーカーあたり同時実行数 {queue.workerConcurrency}）
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchQueue}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          更新
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {queue.organizations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">待機中・処理中のチェックはありません</p>
+        ) : (
+          <div className="space-y-4">
+            {queue.organizations.map(organization => (
+              <div key={organization.organizationId ?? 'none'} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {organization.organizationName ?? (organization.organizationId !== null ? `組織 #${organization.organizationId}` : '組織なし')}
+                    </span>
+                    {organization.plan && (
+                      <Badge variant="outline">{PLAN_LABELS[organization.plan] ?? organization.plan}</Badge>
+                    )}
+                    {organization.maxConcurrent !== null && organization.running >= organization.maxConcurrent && (
+                      <Badge variant="secondary">上限到達</Badge>
+                    )}
+                  </div>
+                  <span className="text-sm text-muted-foreground">
+                    待機 {organization.queued}件 / 処理中 {organization.running}
+                    {organization.maxConcurrent !== null ? `/${organization.maxConcurrent}` : ''}件
+                  </span>
+                </div>
+                {organization.maxConcurrent !== null && (
+                  <Progress value={(organization.running / organization.maxConcurrent) * 100} className="h-2" />
+                )}
+                {organization.oldestQueuedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    最古の待機: {new Date(organization.oldestQueuedAt).toLocaleString('ja-JP')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
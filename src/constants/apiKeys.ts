@@ -0,0 +1,48 @@
+/**
+ * 公開REST APIのAPIキー定数
+ * 組織ごとに発行するキーのスコープと形式を定義
+ */
+
+/**
+ * APIキーに付与できるスコープ
+ */
+export const API_KEY_SCOPES = [
+  'checks:write',
+  'history:read',
+  'dictionaries:read',
+  'dictionaries:write'
+] as const
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'checks:write': 'チェックの作成・取得',
+  'history:read': 'チェック履歴の参照',
+  'dictionaries:read': '辞書の参照',
+  'dictionaries:write': '辞書の編集'
+}
+
+export const API_KEY_CONFIG = {
+  /** キーの接頭辞（`Authorization: Bearer adlex_...` でセッション認証と区別する） */
+  PREFIX: 'adlex_',
+  /** 管理画面に表示するキー先頭部分の文字数（接頭辞を含む） */
+  DISPLAY_PREFIX_LENGTH: 14,
+  /** 最終使用日時を更新する最小間隔（ミリ秒） */
+  LAST_USED_UPDATE_INTERVAL_MS: 60 * 1000,
+  /** 1組織あたりの有効なキーの上限 */
+  MAX_KEYS_PER_ORGANIZATION: 20
+} as const
+
+/**
+ * 値が有効なAPIキースコープか判定
+ */
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value)
+}
+
+/**
+ * 付与済みスコープが必要スコープのいずれかを満たすか判定
+ */
+export function hasAnyApiKeyScope(grantedScopes: readonly string[], requiredScopes: readonly ApiKeyScope[]): boolean {
+  return requiredScopes.some(scope => grantedScopes.includes(scope))
+}
@@ -0,0 +1,27 @@
+/**
+ * 一括チェック（バッチ）の定数
+ */
+
+export const CHECK_BATCH_SOURCES = ['text', 'csv', 'xlsx'] as const
+
+export type CheckBatchSource = typeof CHECK_BATCH_SOURCES[number]
+
+export const CHECK_BATCH_CONFIG = {
+  /** 1バッチあたりの最大件数 */
+  MAX_ITEMS: (() => {
+    const fromEnv = Number(process.env.ADLEX_BATCH_MAX_ITEMS)
+    return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : 500
+  })(),
+  /** アップロードファイルの最大サイズ（5MB、APP_CONFIG.FILE_SIZE_LIMITS.DOCUMENT と同じ） */
+  MAX_UPLOAD_SIZE: 5 * 1024 * 1024,
+  /** ラベル（商品名・SKU等）の最大文字数 */
+  MAX_LABEL_LENGTH: 200,
+  /** 本文として扱う列名（先頭行がヘッダーの場合。見つからなければ最初の列） */
+  TEXT_COLUMN_NAMES: ['text', 'テキスト', '本文', '原稿', 'description', '説明', '商品説明'],
+  /** ラベルとして扱う列名 */
+  LABEL_COLUMN_NAMES: ['label', 'ラベル', 'name', '商品名', 'title', 'タイトル', 'sku', 'id'],
+  /** 進捗ストリームのポーリング間隔（ミリ秒） */
+  PROGRESS_POLL_INTERVAL_MS: 2000,
+  /** 進捗ストリームの最大接続時間（ミリ秒） */
+  PROGRESS_STREAM_TIMEOUT_MS: 30 * 60 * 1000
+} as const
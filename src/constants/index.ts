@@ -6,6 +6,15 @@
 export * from './timeouts'
 export * from './cache'
 export * from './retry'
+export * from './regulatory'
+export * from './productCategories'
+export * from './llmPricing'
+export * from './webhooks'
+export * from './apiKeys'
+export * from './batch'
+export * from './jobQueue'
+export * from './rateLimits'
+export * from './webPage'
 
 // アプリケーション基本定数
 export const APP_CONFIG = {
@@ -17,13 +26,14 @@ export const APP_CONFIG = {
   // ファイル制限
   FILE_SIZE_LIMITS: {
     IMAGE: 10 * 1024 * 1024,      // 10MB - 画像ファイル
+    PDF: 10 * 1024 * 1024,        // 10MB - PDFファイル
     DOCUMENT: 5 * 1024 * 1024,    // 5MB - ドキュメントファイル
     GENERAL: 2 * 1024 * 1024      // 2MB - 一般ファイル
   },
   
   // テキスト制限
   TEXT_LIMITS: {
-    MAX_LENGTH: 10000,            // 10,000文字 - チェック対象テキスト
+    MAX_LENGTH: 50000,            // 50,000文字 - チェック対象テキスト（LP原稿など長文はチャンク分割で分析）
     MIN_LENGTH: 1,                // 1文字 - 最小入力長
     PREVIEW_LENGTH: 100,          // 100文字 - プレビュー表示長
     SUMMARY_LENGTH: 50            // 50文字 - サマリー表示長
@@ -0,0 +1,73 @@
+/**
+ * 永続ジョブキュー（jobs テーブル）の定数
+ */
+
+import type { SubscriptionTier } from '@/core/domain/entities'
+
+export const JOB_QUEUES = ['check', 'embedding'] as const
+
+export type JobQueueName = typeof JOB_QUEUES[number]
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export type JobPriority = 'high' | 'normal' | 'low'
+
+/** 優先度ごとの jobs.priority 値（小さいほど先に取得される） */
+export const JOB_PRIORITY_VALUES: Record<JobPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2
+}
+
+const readPositiveIntEnv = (name: string, fallback: number) => {
+  const fromEnv = Number(process.env[name])
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : fallback
+}
+
+export const JOB_QUEUE_CONFIG = {
+  /** リース期間（この間ハートビートがなければ他ワーカーが再取得できる = visibility timeout） */
+  LEASE_MS: 60 * 1000,
+  /** ハートビート間隔（リース期間より十分短くする） */
+  HEARTBEAT_INTERVAL_MS: 20 * 1000,
+  /** 空きがある場合のポーリング間隔 */
+  POLL_INTERVAL_MS: 2000,
+  /** リース切れジョブ・孤立チェックの回収間隔 */
+  REAP_INTERVAL_MS: 60 * 1000,
+  /** 作成直後のチェックを孤立扱いしない猶予（秒） */
+  ORPHAN_GRACE_SECONDS: 120,
+  /** ワーカーを起動するか（Webのみのインスタンスでは ADLEX_JOB_WORKER_ENABLED=false） */
+  WORKER_ENABLED: process.env.ADLEX_JOB_WORKER_ENABLED !== 'false',
+  QUEUES: {
+    check: {
+      /** AI API遅延回避のため並行数は控えめにする */
+      CONCURRENCY: readPositiveIntEnv('ADLEX_MAX_CONCURRENT_CHECKS', 3),
+      /** 初回 + 再試行2回 */
+      MAX_ATTEMPTS: 3
+    },
+    embedding: {
+      CONCURRENCY: readPositiveIntEnv('ADLEX_MAX_CONCURRENT_EMBEDDINGS', 3),
+      MAX_ATTEMPTS: 3
+    }
+  }
+} as const
+
+/**
+ * プランごとのスケジューリング設定（チェックキューの組織間公平スケジューリング）
+ */
+export interface JobTierPolicy {
+  /** 重み（「処理中ジョブ数 / 重み」が小さい組織から取得するため、大きいほど多くの枠を得る） */
+  weight: number
+  /** 組織ごとの同時実行数の上限（全ワーカー合計） */
+  maxConcurrent: number
+}
+
+/**
+ * プランごとの重みと同時実行数の上限。
+ * 上限は ADLEX_QUEUE_MAX_CONCURRENT_<PLAN>（例: ADLEX_QUEUE_MAX_CONCURRENT_BASIC）で上書きできる
+ */
+export const JOB_TIER_POLICIES: Record<SubscriptionTier, JobTierPolicy> = {
+  trial: { weight: 1, maxConcurrent: readPositiveIntEnv('ADLEX_QUEUE_MAX_CONCURRENT_TRIAL', 1) },
+  basic: { weight: 2, maxConcurrent: readPositiveIntEnv('ADLEX_QUEUE_MAX_CONCURRENT_BASIC', 2) },
+  premium: { weight: 4, maxConcurrent: readPositiveIntEnv('ADLEX_QUEUE_MAX_CONCURRENT_PREMIUM', 4) },
+  enterprise: { weight: 8, maxConcurrent: readPositiveIntEnv('ADLEX_QUEUE_MAX_CONCURRENT_ENTERPRISE', 8) }
+}
@@ -0,0 +1,144 @@
+/**
+ * LLMのトークン単価と利用コストの集計
+ * 単価は各プロバイダーの公開価格（USD / 100万トークン）。価格改定時はこの表を更新する
+ */
+
+export interface LlmModelPrice {
+  /** 入力（プロンプト）100万トークンあたりのUSD */
+  input: number
+  /** 出力（補完）100万トークンあたりのUSD */
+  output: number
+}
+
+/**
+ * モデル別の単価表（OpenRouter の `openai/gpt-4o` 形式は `/` 以降のモデル名でも照合する）
+ */
+export const LLM_MODEL_PRICES: Record<string, LlmModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-3.5-sonnet': { input: 3, output: 15 },
+  'claude-3.5-haiku': { input: 0.8, output: 4 },
+  'gemini-2.0-flash-001': { input: 0.1, output: 0.4 },
+  'mock-chat-model': { input: 0, output: 0 }
+}
+
+/** ローカル実行のためコストが発生しないプロバイダー */
+const FREE_PROVIDERS = new Set(['lmstudio', 'mock'])
+
+/**
+ * モデルの単価を取得（未登録のモデルは `null`）
+ */
+export function getLlmModelPrice(model: string): LlmModelPrice | null {
+  return LLM_MODEL_PRICES[model] ?? LLM_MODEL_PRICES[model.split('/').pop() ?? model] ?? null
+}
+
+/**
+ * トークン数からLLM利用コスト（USD）を算出する
+ * ローカルプロバイダーは0、単価未登録のモデルは `null`
+ */
+export function calculateLlmCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  if (FREE_PROVIDERS.has(provider)) return 0
+  const price = getLlmModelPrice(model)
+  if (!price) return null
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+}
+
+/**
+ * 日別・組織別・ユーザー別のLLM利用量（`llm_usage_daily` ビューの1行）
+ */
+export interface LlmUsageRow {
+  usage_date: string
+  organization_id: number
+  organization_name: string | null
+  user_id: string
+  user_email: string | null
+  check_count: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+}
+
+export interface LlmUsageTotals {
+  checkCount: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+}
+
+export interface LlmUsageSummary {
+  totals: LlmUsageTotals
+  daily: Array<LlmUsageTotals & { date: string }>
+  byOrganization: Array<LlmUsageTotals & { organizationId: number; organizationName: string | null }>
+  byUser: Array<LlmUsageTotals & { userId: string; email: string | null; organizationId: number }>
+}
+
+const emptyTotals = (): LlmUsageTotals => ({
+  checkCount: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  costUsd: 0
+})
+
+function addUsage(totals: LlmUsageTotals, row: LlmUsageRow): void {
+  totals.checkCount += row.check_count
+  totals.promptTokens += row.prompt_tokens
+  totals.completionTokens += row.completion_tokens
+  totals.totalTokens += row.prompt_tokens + row.completion_tokens
+  totals.costUsd += row.cost_usd
+}
+
+/**
+ * 日別の利用量を全体・日付・組織・ユーザーごとに集計（日付は昇順、組織・ユーザーはコストの高い順）
+ */
+export function summarizeLlmUsage(rows: LlmUsageRow[]): LlmUsageSummary {
+  const totals = emptyTotals()
+  const daily = new Map<string, LlmUsageTotals & { date: string }>()
+  const byOrganization = new Map<number, LlmUsageTotals & { organizationId: number; organizationName: string | null }>()
+  const byUser = new Map<string, LlmUsageTotals & { userId: string; email: string | null; organizationId: number }>()
+
+  for (const row of rows) {
+    addUsage(totals, row)
+
+    const day = daily.get(row.usage_date) ?? { ...emptyTotals(), date: row.usage_date }
+    addUsage(day, row)
+    daily.set(row.usage_date, day)
+
+    const organization = byOrganization.get(row.organization_id) ?? {
+      ...emptyTotals(),
+      organizationId: row.organization_id,
+      organizationName: row.organization_name
+    }
+    addUsage(organization, row)
+    byOrganization.set(row.organization_id, organization)
+
+    const user = byUser.get(row.user_id) ?? {
+      ...emptyTotals(),
+      userId: row.user_id,
+      email: row.user_email,
+      organizationId: row.organization_id
+    }
+    addUsage(user, row)
+    byUser.set(row.user_id, user)
+  }
+
+  const byCost = (a: LlmUsageTotals, b: LlmUsageTotals) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens
+
+  return {
+    totals,
+    daily: [...daily.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    byOrganization: [...byOrganization.values()].sort(byCost),
+    byUser: [...byUser.values()].sort(byCost)
+  }
+}
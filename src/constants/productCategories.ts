@@ -0,0 +1,128 @@
+/**
+ * AdLex 製品カテゴリ定数
+ * チェック対象の製品区分と、区分ごとに表示可能な効能効果の定義
+ */
+
+import type { ProductCategory } from '@/types/api'
+import { Constants } from '@/types/database.types'
+
+export type { ProductCategory }
+
+/** 製品カテゴリコード一覧（DB の enum 定義順） */
+export const PRODUCT_CATEGORY_CODES = Constants.public.Enums.product_category
+
+export const PRODUCT_CATEGORY_LABELS: Record<ProductCategory, string> = {
+  cosmetics: '化粧品',
+  quasi_drug: '医薬部外品',
+  health_food: '健康食品',
+  medical_device: '医療機器'
+}
+
+/** 製品カテゴリが未指定の場合の表示名 */
+export const UNSPECIFIED_PRODUCT_CATEGORY_LABEL = '未指定'
+
+/** 製品カテゴリごとの判定方針（LLMプロンプト用） */
+export const PRODUCT_CATEGORY_GUIDELINES: Record<ProductCategory, string> = {
+  cosmetics: '化粧品の効能効果の範囲（56項目）を超える表現は薬機法第66条違反とする。美白・ニキビの予防・育毛など医薬部外品や医薬品的な効能効果は表示できない。',
+  quasi_drug: '承認を受けた効能効果の範囲内の表現は違反としない（例: 「メラニンの生成を抑え、シミ・そばかすを防ぐ」「肌荒れ・ニキビを防ぐ」）。薬用化粧品は化粧品の効能効果の範囲も表示できる。承認範囲を超える表現や治療効果の標榜は違反とする。',
+  health_food: '食品であるため医薬品的な効能効果（疾病の治療・予防、身体の組織機能の増強・増進など）は一切表示できない。健康増進法第65条の誇大表示や景品表示法の優良誤認にも注意する。',
+  medical_device: '承認・認証・届出された使用目的、効能又は効果の範囲内に限り表示できる。範囲外の効果や安全性の保証は違反とする。'
+}
+
+/**
+ * 化粧品の効能効果の範囲（56項目、平成23年7月21日 薬食発0721第1号）
+ * 括弧内は補足説明・対象製品の限定
+ */
+export const COSMETIC_EFFICACY_CLAIMS: readonly string[] = [
+  '頭皮、毛髪を清浄にする。',
+  '香りにより毛髪、頭皮の不快臭を抑える。',
+  '頭皮、毛髪をすこやかに保つ。',
+  '毛髪にはり、こしを与える。',
+  '頭皮、毛髪にうるおいを与える。',
+  '頭皮、毛髪のうるおいを保つ。',
+  '毛髪をしなやかにする。',
+  'クシどおりをよくする。',
+  '毛髪のつやを保つ。',
+  '毛髪につやを与える。',
+  'フケ、カユミがとれる。',
+  'フケ、カユミを抑える。',
+  '毛髪の水分、油分を補い保つ。',
+  '裂毛、切毛、枝毛を防ぐ。',
+  '髪型を整え、保持する。',
+  '毛髪の帯電を防止する。',
+  '（汚れをおとすことにより）皮膚を清浄にする。',
+  '（洗浄により）ニキビ、アセモを防ぐ（洗顔料）。',
+  '肌を整える。',
+  '肌のキメを整える。',
+  '皮膚をすこやかに保つ。',
+  '肌荒れを防ぐ。',
+  '肌をひきしめる。',
+  '皮膚にうるおいを与える。',
+  '皮膚の水分、油分を補い保つ。',
+  '皮膚の柔軟性を保つ。',
+  '皮膚を保護する。',
+  '皮膚の乾燥を防ぐ。',
+  '肌を柔らげる。',
+  '肌にはりを与える。',
+  '肌にツヤを与える。',
+  '肌を滑らかにする。',
+  'ひげを剃りやすくする。',
+  'ひげそり後の肌を整える。',
+  'あせもを防ぐ（打粉）。',
+  '日やけを防ぐ。',
+  '日やけによるシミ、ソバカスを防ぐ。',
+  '芳香を与える。',
+  '爪を保護する。',
+  '爪をすこやかに保つ。',
+  '爪にうるおいを与える。',
+  '口唇の荒れを防ぐ。',
+  '口唇のキメを整える。',
+  '口唇にうるおいを与える。',
+  '口唇をすこやかにする。',
+  '口唇を保護する。口唇の乾燥を防ぐ。',
+  '口唇の乾燥によるカサツキを防ぐ。',
+  '口唇を滑らかにする。',
+  'ムシ歯を防ぐ（使用時にブラッシングを行う歯みがき類）。',
+  '歯を白くする（使用時にブラッシングを行う歯みがき類）。',
+  '歯垢を除去する（使用時にブラッシングを行う歯みがき類）。',
+  '口中を浄化する（歯みがき類）。',
+  '口臭を防ぐ（歯みがき類）。',
+  '歯のヤニを取る（使用時にブラッシングを行う歯みがき類）。',
+  '歯石の沈着を防ぐ（使用時にブラッシングを行う歯みがき類）。',
+  '乾燥による小ジワを目立たなくする。'
+]
+
+/**
+ * 値が有効な製品カテゴリコードか判定
+ */
+export function isProductCategory(value: unknown): value is ProductCategory {
+  return typeof value === 'string' && (PRODUCT_CATEGORY_CODES as readonly string[]).includes(value)
+}
+
+/**
+ * 製品カテゴリの表示名を取得
+ */
+export function getProductCategoryLabel(category: ProductCategory | null | undefined): string {
+  return category ? PRODUCT_CATEGORY_LABELS[category] : UNSPECIFIED_PRODUCT_CATEGORY_LABEL
+}
+
+/**
+ * 効能効果の記載から照合用の表現を抽出（括弧書きを除き、句点で分割）
+ * 例: 「（汚れをおとすことにより）皮膚を清浄にする。」→「皮膚を清浄にする」
+ */
+export function toClaimPhrases(claim: string): string[] {
+  return claim
+    .replace(/（[^）]*）/g, '')
+    .split('。')
+    .map(phrase => phrase.trim())
+    .filter(phrase => phrase.length > 0)
+}
+
+/**
+ * 製品カテゴリで表示可能な効能効果の照合用表現を取得
+ * 化粧品と医薬部外品（薬用化粧品）は化粧品の効能効果の範囲を許可表現とする
+ */
+export function getPermittedClaimPhrases(category: ProductCategory | null | undefined): string[] {
+  if (category !== 'cosmetics' && category !== 'quasi_drug') return []
+  return COSMETIC_EFFICACY_CLAIMS.flatMap(toClaimPhrases)
+}
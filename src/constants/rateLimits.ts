@@ -0,0 +1,54 @@
+/**
+ * APIレート制限の定数
+ * 上限は一般設定（システム設定）の rateLimitRequests / rateLimitWindow を基準に、ルートグループとプランで決める。
+ */
+
+import type { SubscriptionTier } from '@/core/domain/entities'
+
+export const RATE_LIMIT_GROUPS = ['checks', 'uploads', 'exports', 'auth'] as const
+
+export type RateLimitGroup = typeof RATE_LIMIT_GROUPS[number]
+
+/**
+ * ルートグループごとの設定
+ */
+export interface RateLimitGroupPolicy {
+  /** エラーメッセージに表示する名前 */
+  label: string
+  /** 一般設定のリクエスト数に掛ける割合（LLM・ファイル処理の重いグループほど小さくする） */
+  requestsRatio: number
+}
+
+export const RATE_LIMIT_GROUP_POLICIES: Record<RateLimitGroup, RateLimitGroupPolicy> = {
+  checks: { label: 'チェックの実行', requestsRatio: 0.3 },
+  uploads: { label: 'ファイルのアップロード', requestsRatio: 0.3 },
+  exports: { label: 'エクスポート', requestsRatio: 0.1 },
+  auth: { label: '認証・招待の操作', requestsRatio: 0.1 }
+}
+
+const readPositiveNumberEnv = (name: string, fallback: number) => {
+  const fromEnv = Number(process.env[name])
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : fallback
+}
+
+/**
+ * プランごとの上限の倍率（組織に属さないユーザー・未認証のリクエストは trial 扱い）。
+ * ADLEX_RATE_LIMIT_MULTIPLIER_<PLAN>（例: ADLEX_RATE_LIMIT_MULTIPLIER_BASIC）で上書きできる
+ */
+export const RATE_LIMIT_PLAN_MULTIPLIERS: Record<SubscriptionTier, number> = {
+  trial: readPositiveNumberEnv('ADLEX_RATE_LIMIT_MULTIPLIER_TRIAL', 0.5),
+  basic: readPositiveNumberEnv('ADLEX_RATE_LIMIT_MULTIPLIER_BASIC', 1),
+  premium: readPositiveNumberEnv('ADLEX_RATE_LIMIT_MULTIPLIER_PREMIUM', 3),
+  enterprise: readPositiveNumberEnv('ADLEX_RATE_LIMIT_MULTIPLIER_ENTERPRISE', 10)
+}
+
+export const RATE_LIMIT_CONFIG = {
+  /** 組織全体の上限（ユーザー・APIキーごとの上限に対する倍率） */
+  ORGANIZATION_MULTIPLIER: readPositiveNumberEnv('ADLEX_RATE_LIMIT_ORGANIZATION_MULTIPLIER', 5),
+  /** カウンタの保存先（memory: プロセス内 / postgres: rate_limit_counters テーブルで全インスタンス共有） */
+  STORE: process.env.ADLEX_RATE_LIMIT_STORE === 'postgres' ? 'postgres' : 'memory',
+  /** 組織のプランをプロセス内で再利用する時間 */
+  PLAN_CACHE_TTL_MS: 60 * 1000,
+  /** 不要になったカウンタを削除する間隔 */
+  PRUNE_INTERVAL_MS: 10 * 60 * 1000
+} as const
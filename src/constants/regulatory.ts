@@ -0,0 +1,128 @@
+/**
+ * AdLex 法的根拠（規制カテゴリ）定数
+ * 違反・辞書項目に付与する法的根拠と重大度の分類体系
+ */
+
+import type { RegulatoryCategoryCode, ViolationSeverity } from '@/types/api'
+import { Constants } from '@/types/database.types'
+
+export type { RegulatoryCategoryCode, ViolationSeverity }
+
+export type RegulatoryLaw = 'yakukiho' | 'tekisei_kokoku' | 'keihyo' | 'kenko_zoshin' | 'other'
+
+export interface RegulatoryCategoryDefinition {
+  law: RegulatoryLaw
+  /** 条文・項（例: 第66条） */
+  article: string
+  /** 規定の内容 */
+  title: string
+  /** 既定の重大度 */
+  severity: ViolationSeverity
+}
+
+/** カテゴリコード一覧（DB の enum 定義順） */
+export const REGULATORY_CATEGORY_CODES = Constants.public.Enums.regulatory_category
+
+export const REGULATORY_LAWS: Record<RegulatoryLaw, string> = {
+  yakukiho: '薬機法',
+  tekisei_kokoku: '医薬品等適正広告基準',
+  keihyo: '景品表示法',
+  kenko_zoshin: '健康増進法',
+  other: 'その他'
+}
+
+export const REGULATORY_CATEGORIES: Record<RegulatoryCategoryCode, RegulatoryCategoryDefinition> = {
+  yakukiho_66: { law: 'yakukiho', article: '第66条', title: '誇大広告等の禁止', severity: 'high' },
+  yakukiho_67: { law: 'yakukiho', article: '第67条', title: '特定疾病用医薬品等の広告の制限', severity: 'high' },
+  yakukiho_68: { law: 'yakukiho', article: '第68条', title: '承認前の医薬品等の広告の禁止', severity: 'critical' },
+  tekisei_kokoku_4_1: { law: 'tekisei_kokoku', article: '第4-1', title: '名称関係', severity: 'low' },
+  tekisei_kokoku_4_2: { law: 'tekisei_kokoku', article: '第4-2', title: '製造方法関係', severity: 'medium' },
+  tekisei_kokoku_4_3: { law: 'tekisei_kokoku', article: '第4-3', title: '効能効果、性能及び安全性関係', severity: 'high' },
+  tekisei_kokoku_4_4: { law: 'tekisei_kokoku', article: '第4-4', title: '過量消費又は乱用助長を促すおそれのある広告の制限', severity: 'medium' },
+  tekisei_kokoku_4_9: { law: 'tekisei_kokoku', article: '第4-9', title: '他社の製品の誹謗広告の制限', severity: 'medium' },
+  tekisei_kokoku_4_10: { law: 'tekisei_kokoku', article: '第4-10', title: '医薬関係者等の推薦', severity: 'high' },
+  tekisei_kokoku_4_12: { law: 'tekisei_kokoku', article: '第4-12', title: '不快、迷惑、不安又は恐怖を与えるおそれのある広告の制限', severity: 'medium' },
+  keihyo_5_1: { law: 'keihyo', article: '第5条第1号', title: '優良誤認表示', severity: 'high' },
+  keihyo_5_2: { law: 'keihyo', article: '第5条第2号', title: '有利誤認表示', severity: 'medium' },
+  kenko_zoshin_65: { law: 'kenko_zoshin', article: '第65条', title: '食品として販売に供する物に関する誇大表示の禁止', severity: 'high' },
+  other: { law: 'other', article: '', title: 'その他', severity: 'low' }
+}
+
+export const SEVERITY_LABELS: Record<ViolationSeverity, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+  critical: '重大'
+}
+
+/** 重大度の序列（大きいほど重い） */
+export const SEVERITY_ORDER: Record<ViolationSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4
+}
+
+/** 法的根拠が未設定の場合の表示名 */
+export const UNCLASSIFIED_LEGAL_BASIS_LABEL = '未分類'
+
+export interface LegalBasisSummary {
+  category: RegulatoryCategoryCode | null
+  law: string
+  label: string
+  /** グループ内で最も重い重大度 */
+  severity: ViolationSeverity | null
+  count: number
+  percentage: number
+}
+
+/**
+ * 値が有効な法的根拠カテゴリコードか判定
+ */
+export function isRegulatoryCategoryCode(value: unknown): value is RegulatoryCategoryCode {
+  return typeof value === 'string' && (REGULATORY_CATEGORY_CODES as readonly string[]).includes(value)
+}
+
+/**
+ * 法的根拠の表示名を取得（例: 「薬機法 第66条（誇大広告等の禁止）」）
+ */
+export function getLegalBasisLabel(category: RegulatoryCategoryCode | null | undefined): string {
+  if (!category) return UNCLASSIFIED_LEGAL_BASIS_LABEL
+  const definition = REGULATORY_CATEGORIES[category]
+  if (definition.law === 'other') return definition.title
+  return `${REGULATORY_LAWS[definition.law]} ${definition.article}（${definition.title}）`
+}
+
+/**
+ * 違反を法的根拠ごとに集計（分類体系の定義順、未分類は末尾）
+ */
+export function summarizeByLegalBasis(
+  violations: Array<{ regulatory_category?: RegulatoryCategoryCode | null; severity?: ViolationSeverity | null }>
+): LegalBasisSummary[] {
+  const groups = new Map<RegulatoryCategoryCode | null, { count: number; severity: ViolationSeverity | null }>()
+
+  for (const violation of violations) {
+    const category = violation.regulatory_category ?? null
+    const severity = violation.severity ?? (category ? REGULATORY_CATEGORIES[category].severity : null)
+    const group = groups.get(category) ?? { count: 0, severity: null }
+    group.count++
+    if (severity && (!group.severity || SEVERITY_ORDER[severity] > SEVERITY_ORDER[group.severity])) {
+      group.severity = severity
+    }
+    groups.set(category, group)
+  }
+
+  const order = (category: RegulatoryCategoryCode | null) =>
+    category ? REGULATORY_CATEGORY_CODES.indexOf(category) : REGULATORY_CATEGORY_CODES.length
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => order(a) - order(b))
+    .map(([category, { count, severity }]) => ({
+      category,
+      law: category ? REGULATORY_LAWS[REGULATORY_CATEGORIES[category].law] : UNCLASSIFIED_LEGAL_BASIS_LABEL,
+      label: getLegalBasisLabel(category),
+      severity,
+      count,
+      percentage: violations.length > 0 ? Math.round((count / violations.length) * 1000) / 10 : 0
+    }))
+}
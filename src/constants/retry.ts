@@ -50,6 +50,14 @@ export const RETRY_CONFIG = {
       baseDelay: 1000,
       maxDelay: 8000,
       exponentialBase: 1.3
+    },
+
+    // Webhook配信（30秒→2分→8分→32分→約2時間）
+    WEBHOOK_DELIVERY: {
+      maxAttempts: 6,
+      baseDelay: 30000,
+      maxDelay: 6 * 60 * 60 * 1000,
+      exponentialBase: 4
     }
   },
   
@@ -8,6 +8,7 @@ export const TIMEOUTS = {
   API_REQUEST: 30000,           // 30秒 - 通常のAPIリクエスト
   CHECK_PROCESSING: 120000,     // 2分 - テキストチェック処理
   IMAGE_CHECK_PROCESSING: 180000, // 3分 - 画像チェック処理（OCR含む）
+  PDF_CHECK_PROCESSING: 360000, // 6分 - PDFチェック処理（スキャンページのOCR含む）
   STREAM_CONNECTION: 5000,      // 5秒 - SSEストリーム接続タイムアウト
   
   // 画像処理関連タイムアウト
@@ -35,15 +36,28 @@ export const TIMEOUTS = {
   MAX_POLLS: {
     TEXT_CHECK: 90,             // テキスト処理: 90回 × 1秒 = 1.5分
     IMAGE_CHECK: 90,            // 画像処理: 90回 × 2秒 = 3分
+    PDF_CHECK: 180,             // PDF処理: 180回 × 2秒 = 6分
     QUEUE_STATUS: 12,           // キューステータス: 12回 × 5秒 = 1分
-  }
+  },
+
+  // 長文チェック: この文字数ごとにテキスト処理のタイムアウトを1単位延長（チャンクの並行分析1巡分）
+  LONG_TEXT_CHARS_PER_EXTENSION: 2000
 } as const
 
 /**
  * 処理タイプに応じたタイムアウト設定を取得
+ * テキスト処理は文字数に応じて延長する（長文はチャンクに分割して分析されるため）
+ * PDFはページごとの抽出・OCRを含むため画像より長く待つ（ポーリング間隔は画像と同じ）
  */
-export function getProcessingTimeouts(isImageCheck = false) {
-  if (isImageCheck) {
+export function getProcessingTimeouts(isImageCheck = false, textLength = 0, isPdfCheck = false) {
+  if (isPdfCheck) {
+    return {
+      maxPolls: TIMEOUTS.MAX_POLLS.PDF_CHECK,
+      pollIntervalMs: TIMEOUTS.POLLING_INTERVAL.IMAGE_CHECK,
+      totalTimeoutMs: TIMEOUTS.PDF_CHECK_PROCESSING,
+      description: 'PDF処理'
+    }
+  } else if (isImageCheck) {
     return {
       maxPolls: TIMEOUTS.MAX_POLLS.IMAGE_CHECK,
       pollIntervalMs: TIMEOUTS.POLLING_INTERVAL.IMAGE_CHECK,
@@ -51,10 +65,11 @@ export function getProcessingTimeouts(isImageCheck = false) {
       description: '画像処理'
     }
   } else {
+    const extension = Math.max(1, Math.ceil(textLength / TIMEOUTS.LONG_TEXT_CHARS_PER_EXTENSION))
     return {
-      maxPolls: TIMEOUTS.MAX_POLLS.TEXT_CHECK,
+      maxPolls: TIMEOUTS.MAX_POLLS.TEXT_CHECK * extension,
       pollIntervalMs: TIMEOUTS.POLLING_INTERVAL.TEXT_CHECK,
-      totalTimeoutMs: TIMEOUTS.CHECK_PROCESSING,
+      totalTimeoutMs: TIMEOUTS.CHECK_PROCESSING * extension,
       description: 'テキスト処理'
     }
   }
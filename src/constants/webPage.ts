@@ -0,0 +1,23 @@
+/**
+ * URLチェック（ランディングページの取得）の定数
+ */
+
+export const WEB_PAGE_FETCH_CONFIG = {
+  /** 1回の取得のタイムアウト（ミリ秒） */
+  REQUEST_TIMEOUT_MS: 20000,
+  /** 取得するHTMLの最大サイズ（2MB） */
+  MAX_HTML_BYTES: 2 * 1024 * 1024,
+  /** たどるリダイレクトの最大回数 */
+  MAX_REDIRECTS: 5,
+  /** 取得時の User-Agent */
+  USER_AGENT: 'AdLexBot/1.0 (ad compliance check)',
+  /** 受け付ける Content-Type */
+  ACCEPTED_CONTENT_TYPES: ['text/html', 'application/xhtml+xml'],
+  /**
+   * プライベートアドレス（localhost・社内ネットワーク）への取得を許可するか。
+   * SSRF 対策のため既定では拒否する（ローカルのフィクスチャサーバーで確認する場合のみ true）
+   */
+  ALLOW_PRIVATE_NETWORK: process.env.ADLEX_URL_FETCH_ALLOW_PRIVATE === 'true',
+  /** スナップショットのHTMLを保存する Storage バケット */
+  SNAPSHOT_BUCKET: 'uploads'
+} as const
@@ -0,0 +1,70 @@
+/**
+ * Webhook 配信の定数
+ * 組織が購読できるイベント種別と、ドメインイベントとの対応を定義
+ */
+
+/**
+ * 購読可能なWebhookイベント種別
+ */
+export const WEBHOOK_EVENT_TYPES = [
+  'check.created',
+  'check.completed',
+  'check.failed',
+  'check.cancelled',
+  'violation.detected'
+] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'check.created': 'チェック作成',
+  'check.completed': 'チェック完了',
+  'check.failed': 'チェック失敗',
+  'check.cancelled': 'チェックキャンセル',
+  'violation.detected': '違反検出'
+}
+
+/**
+ * ドメインイベント種別 → Webhookイベント種別
+ */
+export const DOMAIN_EVENT_WEBHOOK_TYPES: Record<string, WebhookEventType> = {
+  CheckCreated: 'check.created',
+  CheckCompleted: 'check.completed',
+  CheckFailed: 'check.failed',
+  CheckCancelled: 'check.cancelled',
+  ViolationDetected: 'violation.detected'
+}
+
+export const WEBHOOK_CONFIG = {
+  /** 署名ヘッダー（`t=<UNIX秒>,v1=<HMAC-SHA256(hex)>`、署名対象は `<t>.<body>`） */
+  SIGNATURE_HEADER: 'X-AdLex-Signature',
+  EVENT_HEADER: 'X-AdLex-Event',
+  DELIVERY_HEADER: 'X-AdLex-Delivery',
+  /** 受信側で許容する署名時刻のずれ（秒） */
+  SIGNATURE_TOLERANCE_SECONDS: 300,
+  /** 1回の配信のタイムアウト（ミリ秒） */
+  REQUEST_TIMEOUT_MS: 10000,
+  /** 配信ログに保存する応答本文の最大文字数 */
+  MAX_RESPONSE_BODY_LENGTH: 2000,
+  /** 1組織あたりの登録可能なエンドポイント数 */
+  MAX_ENDPOINTS_PER_ORGANIZATION: 10,
+  /**
+   * HTTP・プライベートアドレス（localhost・社内ネットワーク）の送信先を許可するか。
+   * SSRF 対策のため既定では HTTPS の公開アドレスのみ（ローカルの受信サーバーで確認する場合のみ true）
+   */
+  ALLOW_PRIVATE_NETWORK: process.env.ADLEX_WEBHOOK_ALLOW_PRIVATE === 'true'
+} as const
+
+/**
+ * 値が有効なWebhookイベント種別か判定
+ */
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * エンドポイントがイベントを購読しているか判定（購読イベントが空の場合は全イベント）
+ */
+export function isSubscribedToWebhookEvent(eventTypes: readonly string[], eventType: WebhookEventType): boolean {
+  return eventTypes.length === 0 || eventTypes.includes(eventType)
+}
@@ -147,6 +147,7 @@ export class CheckAggregate extends AggregateRoot<number> {
       aggregateId: this.id.toString(),
       data: {
         checkId: this.id,
+        organizationId: this._check.organizationId,
         violationId,
         originalText,
         suggestedText,
@@ -176,6 +177,7 @@ export class CheckAggregate extends AggregateRoot<number> {
       aggregateId: this.id.toString(),
       data: {
         checkId: this.id,
+        organizationId: this._check.organizationId,
         violationCount,
         completedAt: this._completedAt.toISOString(),
         hasViolations: violationCount > 0
@@ -201,6 +203,7 @@ export class CheckAggregate extends AggregateRoot<number> {
       aggregateId: this.id.toString(),
       data: {
         checkId: this.id,
+        organizationId: this._check.organizationId,
         errorMessage,
         failedAt: this._completedAt.toISOString()
       },
@@ -224,6 +227,7 @@ export class CheckAggregate extends AggregateRoot<number> {
       aggregateId: this.id.toString(),
       data: {
         checkId: this.id,
+        organizationId: this._check.organizationId,
         cancelledAt: this._completedAt.toISOString()
       },
       occurredAt: new Date()
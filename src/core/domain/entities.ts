@@ -1,3 +1,5 @@
+import type { RegulatoryCategoryCode } from '@/types/api'
+
 /**
  * エンティティのベースクラス
  */
@@ -77,7 +79,9 @@ export class DictionaryItem extends Entity<number> {
     public readonly vector: number[] | null,
     public readonly notes: string | null,
     public readonly createdAt: Date,
-    public readonly updatedAt: Date
+    public readonly updatedAt: Date,
+    public readonly regulatoryCategory: RegulatoryCategoryCode | null = null,
+    public readonly source: DictionarySource = 'organization'
   ) {
     super(id)
   }
@@ -93,6 +97,10 @@ export class DictionaryItem extends Entity<number> {
   isAllowPhrase(): boolean {
     return this.category === 'ALLOW'
   }
+
+  isGlobal(): boolean {
+    return this.source === 'global'
+  }
 }
 
 /**
@@ -164,6 +172,8 @@ export class Violation extends Entity<number> {
 // Value Objects and Types
 export type UserRole = 'admin' | 'user'
 export type DictionaryCategory = 'NG' | 'ALLOW'
+/** 辞書項目の出所（組織辞書 / 継承した共通辞書） */
+export type DictionarySource = 'organization' | 'global'
 export type CheckStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
 export type SubscriptionTier = 'trial' | 'basic' | 'premium' | 'enterprise'
 
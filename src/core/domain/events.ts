@@ -20,6 +20,8 @@ export interface CheckCreatedEvent extends DomainEvent {
     userId: string
     organizationId: number
     inputText: string
+    /** 一括チェックで作成された場合のバッチID */
+    batchId?: number
     createdAt: string
   }
 }
@@ -36,12 +38,14 @@ export interface ViolationDetectedEvent extends DomainEvent {
   eventType: 'ViolationDetected'
   data: {
     checkId: number
+    organizationId: number
     violationId: number
     originalText: string
     suggestedText: string | null
     startPos: number
     endPos: number
     dictionaryId: number | null
+    globalDictionaryId: number | null
   }
 }
 
@@ -49,6 +53,7 @@ export interface CheckCompletedEvent extends DomainEvent {
   eventType: 'CheckCompleted'
   data: {
     checkId: number
+    organizationId: number
     violationCount: number
     completedAt: string
     hasViolations: boolean
@@ -59,6 +64,7 @@ export interface CheckFailedEvent extends DomainEvent {
   eventType: 'CheckFailed'
   data: {
     checkId: number
+    organizationId: number
     errorMessage: string
     failedAt: string
   }
@@ -68,6 +74,7 @@ export interface CheckCancelledEvent extends DomainEvent {
   eventType: 'CheckCancelled'
   data: {
     checkId: number
+    organizationId: number
     cancelledAt: string
   }
 }
@@ -23,6 +23,7 @@ export * from './specifications'
 export type {
   UserRole,
   DictionaryCategory,
+  DictionarySource,
   CheckStatus,
   SubscriptionTier,
   OrganizationLimits,
@@ -31,6 +32,9 @@ export type {
 
 export type {
   ViolationCandidate,
+  MorphologicalMatch,
+  MorphologicalMatcher,
+  SuggestionReplacement,
   SimilarityMatch,
   UsageLimitResult,
   OrganizationAction,
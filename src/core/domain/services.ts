@@ -8,18 +8,28 @@ import { EmbeddingVector, TextRange } from './valueObjects'
 export class PharmaceuticalLawCheckService {
   /**
    * テキストに対して辞書項目での違反チェックを実行
+   * `morphologicalMatcher` を渡した場合、部分一致は形態素解析（活用形の正規化）で検出する
+   * ALLOW項目と `allowedPhrases`（製品カテゴリで表示可能な効能効果など）の出現箇所に含まれるNG一致は違反としない
    */
   static checkViolations(
     inputText: string,
     dictionaryItems: DictionaryItem[],
-    _similarityThreshold = 0.75
+    _similarityThreshold = 0.75,
+    morphologicalMatcher?: MorphologicalMatcher,
+    allowedPhrases: string[] = []
   ): ViolationCandidate[] {
     const violations: ViolationCandidate[] = []
     const ngPhrases = dictionaryItems.filter(item => item.isNGPhrase())
+    const allowedRanges = this.findAllowedRanges(
+      inputText,
+      [...dictionaryItems.filter(item => item.isAllowPhrase()).map(item => item.phrase), ...allowedPhrases],
+      morphologicalMatcher
+    )
+    const isAllowed = (range: TextRange) => allowedRanges.some(allowed => allowed.encloses(range))
     
     // 1. 完全一致チェック
     for (const ngPhrase of ngPhrases) {
-      const exactMatches = this.findExactMatches(inputText, ngPhrase.phrase)
+      const exactMatches = this.findExactMatches(inputText, ngPhrase.phrase).filter(match => !isAllowed(match))
       for (const match of exactMatches) {
         violations.push({
           dictionaryItem: ngPhrase,
@@ -33,16 +43,20 @@ export class PharmaceuticalLawCheckService {
 
     // 2. 部分一致チェック（短縮形、活用形など）
     for (const ngPhrase of ngPhrases) {
-      const partialMatches = this.findPartialMatches(inputText, ngPhrase.phrase)
+      const partialMatches: MorphologicalMatch[] = morphologicalMatcher
+        ? morphologicalMatcher.findInflectedMatches(inputText, ngPhrase.phrase)
+        : this.findPartialMatches(inputText, ngPhrase.phrase).map(range => ({ range, confidence: 0.8 }))
+
       for (const match of partialMatches) {
-        // 既に完全一致で検出されている場合はスキップ
-        if (!violations.some(v => v.range.overlaps(match))) {
+        // 既に完全一致で検出されている場合、または許可表現に含まれる場合はスキップ
+        if (!violations.some(v => v.range.overlaps(match.range)) && !isAllowed(match.range)) {
           violations.push({
             dictionaryItem: ngPhrase,
-            range: match,
+            range: match.range,
             matchType: 'partial',
-            confidence: 0.8,
-            originalText: match.extractFromText(inputText)
+            confidence: match.confidence,
+            originalText: match.range.extractFromText(inputText),
+            matchedBaseForm: match.baseForm
           })
         }
       }
@@ -51,6 +65,20 @@ export class PharmaceuticalLawCheckService {
     return violations
   }
 
+  /**
+   * 許可表現の出現範囲を検索（形態素解析器がある場合は活用形も含む）
+   */
+  private static findAllowedRanges(
+    text: string,
+    phrases: string[],
+    morphologicalMatcher?: MorphologicalMatcher
+  ): TextRange[] {
+    return phrases.flatMap(phrase => [
+      ...this.findExactMatches(text, phrase),
+      ...(morphologicalMatcher?.findInflectedMatches(text, phrase).map(match => match.range) ?? [])
+    ])
+  }
+
   /**
    * 完全一致の検索
    */
@@ -73,6 +101,7 @@ export class PharmaceuticalLawCheckService {
 
   /**
    * 部分一致の検索（単語境界を考慮）
+   * 形態素解析器が利用できない場合のフォールバック（主に英字表現向け）
    */
   private static findPartialMatches(text: string, phrase: string): TextRange[] {
     const ranges: TextRange[] = []
@@ -219,6 +248,24 @@ export class CheckProcessingService {
     }
   }
 
+  /**
+   * 採用された置換案を原文に適用して最終テキストを生成
+   * 後方から置換することで前方の位置をずらさずに適用する（重なる置換は後方を優先）
+   */
+  static applySuggestionReplacements(originalText: string, replacements: SuggestionReplacement[]): string {
+    const sorted = [...replacements].sort((a, b) => b.range.start - a.range.start)
+    let result = originalText
+    let appliedStart = Number.POSITIVE_INFINITY
+
+    for (const { range, replacement } of sorted) {
+      if (range.end > originalText.length || range.end > appliedStart) continue
+      result = result.slice(0, range.start) + replacement + result.slice(range.end)
+      appliedStart = range.start
+    }
+
+    return result
+  }
+
   /**
    * 違反をタイプ別に分類
    */
@@ -255,6 +302,30 @@ export interface ViolationCandidate {
   matchType: 'exact' | 'partial'
   confidence: number
   originalText: string
+  /** 形態素解析で一致した場合の基本形（例: 「治ります」→「治る」） */
+  matchedBaseForm?: string
+}
+
+export interface MorphologicalMatch {
+  range: TextRange
+  confidence: number
+  baseForm?: string
+}
+
+/**
+ * 活用形を正規化して辞書フレーズとの一致箇所を検出するマッチャー
+ * 実装はインフラ層（形態素解析器）が提供する
+ */
+export interface MorphologicalMatcher {
+  findInflectedMatches(text: string, phrase: string): MorphologicalMatch[]
+}
+
+/**
+ * 原文の範囲と採用された置換テキストの組
+ */
+export interface SuggestionReplacement {
+  range: TextRange
+  replacement: string
 }
 
 export interface SimilarityMatch {
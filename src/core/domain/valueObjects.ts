@@ -199,6 +199,10 @@ export class TextRange extends ValueObject<{ start: number; end: number }> {
     return this.start < other.end && this.end > other.start
   }
 
+  encloses(other: TextRange): boolean {
+    return this.start <= other.start && other.end <= this.end
+  }
+
   extractFromText(text: string): string {
     if (this.end > text.length) {
       throw new ValidationError('テキスト範囲がテキスト長を超えています')
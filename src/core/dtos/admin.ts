@@ -1,5 +1,7 @@
 import { z, ZodIssue } from 'zod'
 
+import { JOB_QUEUES } from '@/constants/jobQueue'
+
 /**
  * Admin 統計取得のクエリパラメータスキーマ
  */
@@ -17,6 +19,48 @@ export const GetAdminPerformanceQuerySchema = z.object({
   organizationId: z.coerce.number().optional()
 })
 
+/**
+ * Admin ジョブキュー状況取得のクエリパラメータスキーマ
+ */
+export const GetAdminQueueQuerySchema = z.object({
+  queue: z.enum(JOB_QUEUES).optional().default('check')
+})
+
+/**
+ * Admin 分析レポートの集計期間
+ */
+export const ANALYTICS_TIME_RANGES = ['7d', '30d', '90d', '1y'] as const
+
+export type AnalyticsTimeRange = typeof ANALYTICS_TIME_RANGES[number]
+
+/**
+ * 集計期間ごとの日数
+ */
+export const ANALYTICS_TIME_RANGE_DAYS: Record<AnalyticsTimeRange, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+}
+
+/**
+ * Admin 分析レポート取得のクエリパラメータスキーマ
+ */
+export const GetAdminAnalyticsQuerySchema = z.object({
+  timeRange: z.enum(ANALYTICS_TIME_RANGES).optional().default('30d')
+})
+
+/**
+ * LLMトークン使用量・コストの集計値スキーマ
+ */
+const LlmUsageTotalsSchema = z.object({
+  checkCount: z.number(),
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  totalTokens: z.number(),
+  costUsd: z.number()
+})
+
 /**
  * Admin 統計のレスポンススキーマ
  */
@@ -39,6 +83,19 @@ export const GetAdminStatsResponseSchema = z.object({
     uptime: z.number(),
     memoryUsage: z.number(),
     responseTime: z.number()
+  }),
+  llmUsage: z.object({
+    totals: LlmUsageTotalsSchema,
+    daily: z.array(LlmUsageTotalsSchema.extend({ date: z.string() })),
+    byOrganization: z.array(LlmUsageTotalsSchema.extend({
+      organizationId: z.number(),
+      organizationName: z.string().nullable()
+    })),
+    byUser: z.array(LlmUsageTotalsSchema.extend({
+      userId: z.string(),
+      email: z.string().nullable(),
+      organizationId: z.number()
+    }))
   })
 })
 
@@ -66,12 +123,73 @@ export const GetAdminPerformanceResponseSchema = z.object({
     severity: z.enum(['low', 'medium', 'high', 'critical']),
     message: z.string(),
     timestamp: z.string()
+  })),
+  providers: z.array(z.object({
+    provider: z.enum(['openai', 'openrouter', 'lmstudio', 'mock']),
+    priority: z.number(),
+    model: z.string(),
+    available: z.boolean(),
+    state: z.enum(['closed', 'open', 'half_open']),
+    consecutiveFailures: z.number(),
+    totalRequests: z.number(),
+    totalFailures: z.number(),
+    lastError: z.string().nullable(),
+    lastFailureAt: z.string().nullable(),
+    lastSuccessAt: z.string().nullable(),
+    openedAt: z.string().nullable()
   }))
 })
 
+/**
+ * Admin 分析レポートのレスポンススキーマ
+ * 率は百分率、処理時間は秒、セッション時間は分。対象のデータがない指標は null
+ */
+export const GetAdminAnalyticsResponseSchema = z.object({
+  timeRange: z.enum(ANALYTICS_TIME_RANGES),
+  since: z.string(),
+  usageStats: z.object({
+    totalChecks: z.number(),
+    checksThisMonth: z.number(),
+    checksLastMonth: z.number(),
+    avgChecksPerDay: z.number(),
+    peakHour: z.number().nullable(),
+    hourlyChecks: z.array(z.number())
+  }),
+  userBehavior: z.object({
+    activeUsers: z.number(),
+    newUsers: z.number(),
+    retentionRate: z.number().nullable(),
+    avgSessionDuration: z.number().nullable()
+  }),
+  qualityMetrics: z.object({
+    avgViolationsPerCheck: z.number(),
+    mostCommonViolations: z.array(z.object({
+      type: z.string(),
+      regulatoryCategory: z.string().nullable(),
+      count: z.number(),
+      percentage: z.number()
+    })),
+    accuracyRate: z.number().nullable()
+  }),
+  performanceMetrics: z.object({
+    avgProcessingTime: z.number().nullable(),
+    processingTimePercentiles: z.object({
+      p50: z.number().nullable(),
+      p90: z.number().nullable(),
+      p95: z.number().nullable(),
+      p99: z.number().nullable()
+    }),
+    successRate: z.number().nullable(),
+    errorRate: z.number().nullable()
+  })
+})
+
 // TypeScript型定義
 export type GetAdminStatsQuery = z.infer<typeof GetAdminStatsQuerySchema>
 export type GetAdminPerformanceQuery = z.infer<typeof GetAdminPerformanceQuerySchema>
+export type GetAdminQueueQuery = z.infer<typeof GetAdminQueueQuerySchema>
+export type GetAdminAnalyticsQuery = z.infer<typeof GetAdminAnalyticsQuerySchema>
+export type GetAdminAnalyticsResponse = z.infer<typeof GetAdminAnalyticsResponseSchema>
 export type GetAdminStatsResponse = z.infer<typeof GetAdminStatsResponseSchema>
 export type GetAdminPerformanceResponse = z.infer<typeof GetAdminPerformanceResponseSchema>
 
@@ -135,6 +253,56 @@ export function validateGetAdminPerformanceQuery(data: unknown): ValidationResul
   }
 }
 
+export function validateGetAdminQueueQuery(data: unknown): ValidationResult<GetAdminQueueQuery> {
+  try {
+    const result = GetAdminQueueQuerySchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'バリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+export function validateGetAdminAnalyticsQuery(data: unknown): ValidationResult<GetAdminAnalyticsQuery> {
+  try {
+    const result = GetAdminAnalyticsQuerySchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'バリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
 /**
  * レスポンスヘルパー関数
  */
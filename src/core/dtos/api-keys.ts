@@ -0,0 +1,126 @@
+import { z, ZodIssue } from 'zod'
+
+import { API_KEY_SCOPES } from '@/constants/apiKeys'
+
+/**
+ * APIキー作成のリクエストスキーマ
+ */
+export const CreateApiKeyRequestSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'キー名は1文字以上である必要があります')
+    .max(100, 'キー名は100文字以下である必要があります'),
+  scopes: z.array(z.enum(API_KEY_SCOPES, {
+    message: '未対応のスコープが含まれています'
+  })).min(1, 'スコープを1つ以上選択してください')
+})
+
+/**
+ * APIキーIDのパラメータスキーマ
+ */
+export const ApiKeyIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive('有効なIDである必要があります')
+})
+
+// TypeScript型定義
+export type CreateApiKeyRequest = z.infer<typeof CreateApiKeyRequestSchema>
+export type ApiKeyIdParams = z.infer<typeof ApiKeyIdParamsSchema>
+
+/**
+ * バリデーション結果型
+ */
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: { code: string; message: string; details?: unknown } }
+
+/**
+ * バリデーション関数
+ */
+export function validateCreateApiKeyRequest(data: unknown): ValidationResult<CreateApiKeyRequest> {
+  try {
+    const result = CreateApiKeyRequestSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'リクエストバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+export function validateApiKeyIdParams(data: unknown): ValidationResult<ApiKeyIdParams> {
+  try {
+    const result = ApiKeyIdParamsSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'パラメータバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+/**
+ * レスポンスヘルパー関数
+ */
+export function createSuccessResponse<T>(data: T): T {
+  return data
+}
+
+export function createErrorResponse(code: string, message: string, details?: unknown) {
+  return {
+    error: {
+      code,
+      message,
+      details
+    }
+  }
+}
+
+/**
+ * エラーコードからHTTPステータスコードを取得
+ */
+export function getStatusCodeFromError(code: string): number {
+  switch (code) {
+    case 'AUTHENTICATION_ERROR':
+      return 401
+    case 'AUTHORIZATION_ERROR':
+      return 403
+    case 'NOT_FOUND_ERROR':
+      return 404
+    case 'VALIDATION_ERROR':
+      return 400
+    case 'CONFLICT_ERROR':
+      return 409
+    case 'REPOSITORY_ERROR':
+    case 'INTERNAL_ERROR':
+    default:
+      return 500
+  }
+}
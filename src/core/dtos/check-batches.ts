@@ -0,0 +1,180 @@
+import { z, ZodIssue } from 'zod'
+
+import { CHECK_BATCH_CONFIG } from '@/constants/batch'
+import { PRODUCT_CATEGORY_CODES } from '@/constants/productCategories'
+
+const ProductCategorySchema = z.enum(PRODUCT_CATEGORY_CODES, {
+  message: '製品カテゴリが不正です'
+})
+
+/**
+ * 一括チェックの1件分のスキーマ
+ */
+export const CheckBatchItemSchema = z.object({
+  text: z.string()
+    .trim()
+    .min(1, 'テキストは1文字以上である必要があります')
+    .max(50000, 'テキストは50,000文字以下である必要があります'),
+  label: z.string()
+    .trim()
+    .max(CHECK_BATCH_CONFIG.MAX_LABEL_LENGTH, `ラベルは${CHECK_BATCH_CONFIG.MAX_LABEL_LENGTH}文字以下である必要があります`)
+    .optional()
+})
+
+/**
+ * 一括チェック作成APIのリクエストスキーマ
+ */
+export const CreateCheckBatchRequestSchema = z.object({
+  items: z.array(CheckBatchItemSchema)
+    .min(1, 'チェック対象を1件以上指定してください')
+    .max(CHECK_BATCH_CONFIG.MAX_ITEMS, `一度にチェックできるのは${CHECK_BATCH_CONFIG.MAX_ITEMS}件までです`),
+  name: z.string().trim().max(100, 'バッチ名は100文字以下である必要があります').optional(),
+  source: z.enum(['text', 'csv', 'xlsx']).optional().default('text'),
+  productCategory: ProductCategorySchema.nullable().optional()
+})
+
+/**
+ * 一括チェックIDのパラメータスキーマ
+ */
+export const CheckBatchIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive('有効なIDである必要があります')
+})
+
+/**
+ * 一括チェック結果エクスポートのクエリパラメータスキーマ
+ */
+export const ExportCheckBatchQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx'], {
+    message: 'フォーマットは "csv" または "xlsx" である必要があります'
+  }).optional().default('csv')
+})
+
+// TypeScript型定義
+export type CheckBatchItemRequest = z.infer<typeof CheckBatchItemSchema>
+export type CreateCheckBatchRequest = z.infer<typeof CreateCheckBatchRequestSchema>
+export type CheckBatchIdParams = z.infer<typeof CheckBatchIdParamsSchema>
+export type ExportCheckBatchQuery = z.infer<typeof ExportCheckBatchQuerySchema>
+
+/**
+ * バリデーション結果型
+ */
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: { code: string; message: string; details?: unknown } }
+
+/**
+ * バリデーション関数
+ */
+export function validateCreateCheckBatchRequest(data: unknown): ValidationResult<CreateCheckBatchRequest> {
+  try {
+    const result = CreateCheckBatchRequestSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: Array.from(new Set(error.issues.map((e: ZodIssue) => e.message))).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'リクエストバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+export function validateCheckBatchIdParams(data: unknown): ValidationResult<CheckBatchIdParams> {
+  try {
+    const result = CheckBatchIdParamsSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'パラメータバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+export function validateExportCheckBatchQuery(data: unknown): ValidationResult<ExportCheckBatchQuery> {
+  try {
+    const result = ExportCheckBatchQuerySchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'クエリパラメータバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+/**
+ * レスポンスヘルパー関数
+ */
+export function createSuccessResponse<T>(data: T): T {
+  return data
+}
+
+export function createErrorResponse(code: string, message: string, details?: unknown) {
+  return {
+    error: {
+      code,
+      message,
+      details
+    }
+  }
+}
+
+/**
+ * エラーコードからHTTPステータスコードを取得
+ */
+export function getStatusCodeFromError(code: string): number {
+  switch (code) {
+    case 'AUTHENTICATION_ERROR':
+      return 401
+    case 'AUTHORIZATION_ERROR':
+      return 403
+    case 'NOT_FOUND_ERROR':
+      return 404
+    case 'VALIDATION_ERROR':
+      return 400
+    case 'QUEUE_ERROR':
+      return 503
+    case 'REPOSITORY_ERROR':
+    case 'INTERNAL_ERROR':
+    default:
+      return 500
+  }
+}
@@ -12,7 +12,7 @@ export const GetCheckHistoryQuerySchema = z.object({
   dateTo: z.string().optional(),
   userId: z.string().optional(),
   organizationId: z.coerce.number().optional(),
-  inputType: z.enum(['text', 'image']).optional(),
+  inputType: z.enum(['text', 'image', 'pdf', 'url']).optional(),
   dateFilter: z.enum(['today', 'week', 'month']).optional(),
 })
 
@@ -31,7 +31,7 @@ export const ExportCheckHistoryQuerySchema = z.object({
   format: z.enum(['csv', 'json', 'excel']).optional().default('csv'),
   search: z.string().optional(),
   status: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
-  inputType: z.enum(['text', 'image']).optional(),
+  inputType: z.enum(['text', 'image', 'pdf', 'url']).optional(),
   dateFilter: z.enum(['today', 'week', 'month']).optional(),
   userId: z.string().optional(),
   startDate: z.string().optional(),
@@ -47,7 +47,8 @@ export const GetCheckHistoryResponseSchema = z.object({
     originalText: z.string(),
     modifiedText: z.string().nullable(),
     status: z.enum(['pending', 'processing', 'completed', 'failed']),
-    inputType: z.enum(['text', 'image']),
+    inputType: z.enum(['text', 'image', 'pdf', 'url']),
+    sourceUrl: z.string().nullable().optional(),
     violationCount: z.number(),
     processingTime: z.number().nullable(),
     createdAt: z.string(),
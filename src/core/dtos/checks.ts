@@ -1,16 +1,42 @@
 import { z, ZodIssue } from 'zod'
 
+import { PRODUCT_CATEGORY_CODES } from '@/constants/productCategories'
+
+const ProductCategorySchema = z.enum(PRODUCT_CATEGORY_CODES, {
+  message: '製品カテゴリが不正です'
+})
+
 /**
  * チェック作成APIのリクエストスキーマ
  */
 export const CreateCheckRequestSchema = z.object({
   text: z.string()
-    .min(1, 'テキストは1文字以上である必要があります')
-    .max(10000, 'テキストは10,000文字以下である必要があります'),
-  inputType: z.enum(['text', 'image'], {
-    message: '入力タイプは "text" または "image" である必要があります'
+    .max(50000, 'テキストは50,000文字以下である必要があります'),
+  inputType: z.enum(['text', 'image', 'pdf', 'url'], {
+    message: '入力タイプは "text"、"image"、"pdf"、"url" のいずれかである必要があります'
   }),
-  fileName: z.string().optional()
+  /** 画像・PDFチェックのファイルURL（アップロードAPIが返す署名付きURL） */
+  imageUrl: z.string().url('画像URLが不正です').optional(),
+  /** URLチェックの対象ページのURL（http / https） */
+  sourceUrl: z.string().url('ページのURLが不正です').max(2048, 'ページのURLは2,048文字以下である必要があります').optional(),
+  fileName: z.string().optional(),
+  productCategory: ProductCategorySchema.nullable().optional()
+}).superRefine((data, ctx) => {
+  if (data.inputType === 'image') {
+    if (!data.imageUrl) {
+      ctx.addIssue({ code: 'custom', path: ['imageUrl'], message: '画像チェックには画像URLが必要です' })
+    }
+  } else if (data.inputType === 'pdf') {
+    if (!data.imageUrl) {
+      ctx.addIssue({ code: 'custom', path: ['imageUrl'], message: 'PDFチェックにはPDFのURLが必要です' })
+    }
+  } else if (data.inputType === 'url') {
+    if (!data.sourceUrl) {
+      ctx.addIssue({ code: 'custom', path: ['sourceUrl'], message: 'URLチェックにはページのURLが必要です' })
+    }
+  } else if (data.text.length < 1) {
+    ctx.addIssue({ code: 'custom', path: ['text'], message: 'テキストは1文字以上である必要があります' })
+  }
 })
 
 /**
@@ -31,8 +57,9 @@ export const GetCheckResponseSchema = z.object({
   organizationId: z.number(),
   originalText: z.string(),
   modifiedText: z.string().nullable(),
-  inputType: z.enum(['text', 'image']),
+  inputType: z.enum(['text', 'image', 'pdf', 'url']),
   fileName: z.string().nullable(),
+  sourceUrl: z.string().nullable().optional(),
   status: z.enum(['pending', 'processing', 'completed', 'failed']),
   errorMessage: z.string().nullable(),
   createdAt: z.string(),
@@ -43,8 +70,11 @@ export const GetCheckResponseSchema = z.object({
     endPos: z.number(),
     reason: z.string(),
     dictionaryId: z.number().nullable(),
+    confidence: z.number().nullable().optional(),
     phrase: z.string().optional(),
-    category: z.string().optional()
+    category: z.string().optional(),
+    pageNumber: z.number().nullable().optional(),
+    domSelector: z.string().nullable().optional()
   })).optional()
 })
 
@@ -55,6 +85,18 @@ export const GenerateCheckPdfParamsSchema = z.object({
   id: z.string().regex(/^\d+$/, '有効なチェックIDである必要があります')
 })
 
+/**
+ * 違反ごとの置換案の採否APIのリクエストスキーマ
+ */
+export const DecideViolationSuggestionRequestSchema = z.object({
+  decision: z.enum(['pending', 'accepted', 'rejected'], {
+    message: '採否は "pending"、"accepted"、"rejected" のいずれかである必要があります'
+  }),
+  selectedText: z.string()
+    .max(1000, '置換テキストは1,000文字以下である必要があります')
+    .optional()
+})
+
 /**
  * エラーレスポンススキーマ
  */
@@ -71,6 +113,7 @@ export type CreateCheckRequest = z.infer<typeof CreateCheckRequestSchema>
 export type CreateCheckResponse = z.infer<typeof CreateCheckResponseSchema>
 export type GetCheckResponse = z.infer<typeof GetCheckResponseSchema>
 export type GenerateCheckPdfParams = z.infer<typeof GenerateCheckPdfParamsSchema>
+export type DecideViolationSuggestionRequest = z.infer<typeof DecideViolationSuggestionRequestSchema>
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>
 
 /**
@@ -133,6 +176,31 @@ export function validateGenerateCheckPdfParams(data: unknown): ValidationResult<
   }
 }
 
+export function validateDecideViolationSuggestionRequest(data: unknown): ValidationResult<DecideViolationSuggestionRequest> {
+  try {
+    const result = DecideViolationSuggestionRequestSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'バリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
 /**
  * レスポンスDTOを作成するヘルパー関数
  */
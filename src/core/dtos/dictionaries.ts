@@ -1,5 +1,16 @@
 import { z, ZodIssue } from 'zod'
 
+import { PRODUCT_CATEGORY_CODES } from '@/constants/productCategories'
+import { REGULATORY_CATEGORY_CODES } from '@/constants/regulatory'
+
+const RegulatoryCategorySchema = z.enum(REGULATORY_CATEGORY_CODES, {
+  message: '法的根拠カテゴリが不正です'
+})
+
+const ProductCategorySchema = z.enum(PRODUCT_CATEGORY_CODES, {
+  message: '製品カテゴリが不正です'
+})
+
 /**
  * 辞書作成APIのリクエストスキーマ
  */
@@ -12,7 +23,9 @@ export const CreateDictionaryRequestSchema = z.object({
   }),
   reasoning: z.string()
     .max(1000, '理由は1000文字以下である必要があります')
-    .optional()
+    .optional(),
+  regulatoryCategory: RegulatoryCategorySchema.nullable().optional(),
+  productCategory: ProductCategorySchema.nullable().optional()
 })
 
 /**
@@ -44,7 +57,9 @@ export const BulkUpdateDictionariesRequestSchema = z.object({
       category: z.enum(['NG', 'ALLOW'], {
         message: 'カテゴリは "NG" または "ALLOW" である必要があります'
       }).optional(),
-      notes: z.string().nullable().optional()
+      notes: z.string().nullable().optional(),
+      regulatory_category: RegulatoryCategorySchema.nullable().optional(),
+      product_category: ProductCategorySchema.nullable().optional()
     })
   })).min(1, '更新対象が必要です')
 })
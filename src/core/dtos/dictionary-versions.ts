@@ -0,0 +1,80 @@
+import { z, ZodIssue } from 'zod'
+
+import { ValidationResult } from './dictionaries'
+
+/**
+ * 辞書スナップショット作成APIのリクエストスキーマ
+ */
+export const CreateDictionarySnapshotRequestSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'スナップショット名は必須です')
+    .max(100, 'スナップショット名は100文字以下である必要があります'),
+  description: z.string()
+    .max(500, '説明は500文字以下である必要があります')
+    .nullable()
+    .optional()
+})
+
+/**
+ * 辞書スナップショット一覧取得のクエリパラメータスキーマ
+ */
+export const GetDictionarySnapshotsQuerySchema = z.object({
+  kind: z.enum(['manual', 'auto']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0)
+})
+
+/**
+ * 辞書の変更履歴取得のクエリパラメータスキーマ
+ */
+export const GetDictionaryChangesQuerySchema = z.object({
+  dictionaryId: z.coerce.number().int().positive('辞書IDは正の数である必要があります').optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  offset: z.coerce.number().int().min(0).optional().default(0)
+})
+
+/**
+ * 辞書スナップショット比較のクエリパラメータスキーマ（to 省略時は現在の辞書と比較）
+ */
+export const CompareDictionarySnapshotsQuerySchema = z.object({
+  from: z.coerce.number().int().positive('比較元のスナップショットIDが不正です'),
+  to: z.coerce.number().int().positive('比較先のスナップショットIDが不正です').optional()
+})
+
+// TypeScript型定義
+export type CreateDictionarySnapshotRequest = z.infer<typeof CreateDictionarySnapshotRequestSchema>
+export type GetDictionarySnapshotsQuery = z.infer<typeof GetDictionarySnapshotsQuerySchema>
+export type GetDictionaryChangesQuery = z.infer<typeof GetDictionaryChangesQuerySchema>
+export type CompareDictionarySnapshotsQuery = z.infer<typeof CompareDictionarySnapshotsQuerySchema>
+
+function validate<T>(schema: z.ZodType<T>, data: unknown): ValidationResult<T> {
+  const result = schema.safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: result.error.issues.map((e: ZodIssue) => e.message).join(', '),
+      details: result.error.issues
+    }
+  }
+}
+
+export function validateCreateDictionarySnapshotRequest(data: unknown): ValidationResult<CreateDictionarySnapshotRequest> {
+  return validate(CreateDictionarySnapshotRequestSchema, data)
+}
+
+export function validateGetDictionarySnapshotsQuery(data: unknown): ValidationResult<GetDictionarySnapshotsQuery> {
+  return validate(GetDictionarySnapshotsQuerySchema, data)
+}
+
+export function validateGetDictionaryChangesQuery(data: unknown): ValidationResult<GetDictionaryChangesQuery> {
+  return validate(GetDictionaryChangesQuerySchema, data)
+}
+
+export function validateCompareDictionarySnapshotsQuery(data: unknown): ValidationResult<CompareDictionarySnapshotsQuery> {
+  return validate(CompareDictionarySnapshotsQuerySchema, data)
+}
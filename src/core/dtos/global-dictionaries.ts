@@ -0,0 +1,34 @@
+import { z, ZodIssue } from 'zod'
+
+import { ValidationResult } from './dictionaries'
+
+/**
+ * 共通辞書項目の上書きAPIのリクエストスキーマ
+ */
+export const SetDictionaryOverrideRequestSchema = z.object({
+  action: z.enum(['disable', 'allow'], {
+    message: '上書きの種類は disable または allow である必要があります'
+  }),
+  notes: z.string()
+    .max(500, '備考は500文字以下である必要があります')
+    .nullable()
+    .optional()
+})
+
+// TypeScript型定義
+export type SetDictionaryOverrideRequest = z.infer<typeof SetDictionaryOverrideRequestSchema>
+
+export function validateSetDictionaryOverrideRequest(data: unknown): ValidationResult<SetDictionaryOverrideRequest> {
+  const result = SetDictionaryOverrideRequestSchema.safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: result.error.issues.map((e: ZodIssue) => e.message).join(', '),
+      details: result.error.issues
+    }
+  }
+}
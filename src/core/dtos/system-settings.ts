@@ -0,0 +1,120 @@
+import { z, ZodIssue } from 'zod'
+
+import { APP_CONFIG } from '@/constants'
+
+import { ValidationResult } from './dictionaries'
+
+/**
+ * アップロードを許可できるファイル形式（拡張子）
+ */
+export const UPLOAD_FILE_TYPES = ['jpg', 'jpeg', 'png', 'webp', 'pdf'] as const
+
+export type UploadFileType = typeof UPLOAD_FILE_TYPES[number]
+
+/**
+ * 最大ファイルサイズ（MB）の上限（ストレージ・OCRの取得上限を超えて緩めることはできない）
+ */
+export const MAX_UPLOAD_SIZE_LIMIT_MB = Math.floor(
+  Math.min(APP_CONFIG.FILE_SIZE_LIMITS.IMAGE, APP_CONFIG.FILE_SIZE_LIMITS.PDF) / 1024 / 1024
+)
+
+/**
+ * 機能フラグの段階
+ */
+export const FEATURE_FLAG_CATEGORIES = ['experimental', 'beta', 'stable'] as const
+
+export type FeatureFlagCategory = typeof FEATURE_FLAG_CATEGORIES[number]
+
+/**
+ * 一般・メンテナンス設定のスキーマ
+ */
+export const SystemConfigSchema = z.object({
+  maintenanceMode: z.boolean(),
+  maintenanceMessage: z.string().max(1000, 'メンテナンスメッセージは1000文字以下である必要があります'),
+  debugMode: z.boolean(),
+  rateLimitEnabled: z.boolean(),
+  rateLimitRequests: z.number().int().min(1, 'リクエスト数は1以上である必要があります').max(100000),
+  rateLimitWindow: z.number().int().min(1, '時間枠は1秒以上である必要があります').max(86400, '時間枠は1日以下である必要があります'),
+  cacheEnabled: z.boolean(),
+  cacheTTL: z.number().int().min(0, 'キャッシュ有効期限は0以上である必要があります').max(86400, 'キャッシュ有効期限は1日以下である必要があります'),
+  maxUploadSize: z.number().int()
+    .min(1, '最大ファイルサイズは1MB以上である必要があります')
+    .max(MAX_UPLOAD_SIZE_LIMIT_MB, `最大ファイルサイズは${MAX_UPLOAD_SIZE_LIMIT_MB}MB以下である必要があります`),
+  allowedFileTypes: z.array(z.enum(UPLOAD_FILE_TYPES, {
+    message: `許可するファイル形式は ${UPLOAD_FILE_TYPES.join(', ')} のいずれかである必要があります`
+  })).min(1, '許可するファイル形式を1つ以上指定してください')
+})
+
+/**
+ * 通知設定のスキーマ
+ */
+export const NotificationSettingsSchema = z.object({
+  emailNotifications: z.boolean(),
+  slackIntegration: z.boolean(),
+  slackWebhookUrl: z.union([
+    z.literal(''),
+    z.string().url('Slack Webhook URLは有効なURLである必要があります')
+  ]),
+  errorAlerts: z.boolean(),
+  performanceAlerts: z.boolean(),
+  securityAlerts: z.boolean()
+})
+
+/**
+ * システム設定の更新APIのリクエストスキーマ（指定した区分のみ更新する）
+ */
+export const UpdateSystemSettingsRequestSchema = z.object({
+  system: SystemConfigSchema.optional(),
+  notifications: NotificationSettingsSchema.optional()
+}).refine(data => data.system !== undefined || data.notifications !== undefined, {
+  message: '更新する設定を指定してください'
+})
+
+/**
+ * 機能フラグの更新APIのリクエストスキーマ（指定した項目のみ更新する）
+ */
+export const UpdateFeatureFlagRequestSchema = z.object({
+  enabled: z.boolean().optional(),
+  rolloutPercentage: z.number().int()
+    .min(0, '展開率は0〜100である必要があります')
+    .max(100, '展開率は0〜100である必要があります')
+    .optional(),
+  enabledOrganizationIds: z.array(z.number().int().positive('組織IDは正の数である必要があります')).optional(),
+  disabledOrganizationIds: z.array(z.number().int().positive('組織IDは正の数である必要があります')).optional()
+})
+
+// TypeScript型定義
+export type SystemConfig = z.infer<typeof SystemConfigSchema>
+export type NotificationSettings = z.infer<typeof NotificationSettingsSchema>
+export type UpdateSystemSettingsRequest = z.infer<typeof UpdateSystemSettingsRequestSchema>
+export type UpdateFeatureFlagRequest = z.infer<typeof UpdateFeatureFlagRequestSchema>
+
+export function validateUpdateSystemSettingsRequest(data: unknown): ValidationResult<UpdateSystemSettingsRequest> {
+  const result = UpdateSystemSettingsRequestSchema.safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: result.error.issues.map((e: ZodIssue) => e.message).join(', '),
+      details: result.error.issues
+    }
+  }
+}
+
+export function validateUpdateFeatureFlagRequest(data: unknown): ValidationResult<UpdateFeatureFlagRequest> {
+  const result = UpdateFeatureFlagRequestSchema.safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: result.error.issues.map((e: ZodIssue) => e.message).join(', '),
+      details: result.error.issues
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { z, ZodIssue } from 'zod'
+
+import { REGULATORY_CATEGORY_CODES } from '@/constants/regulatory'
+
+import { ValidationResult } from './dictionaries'
+
+/**
+ * 違反の評価APIのリクエストスキーマ（feedbackType が null の場合は評価を取り消す）
+ */
+export const SubmitViolationFeedbackRequestSchema = z.object({
+  feedbackType: z.enum(['correct', 'false_positive', 'wrong_reason'], {
+    message: '評価は "correct"、"false_positive"、"wrong_reason" のいずれかである必要があります'
+  }).nullable(),
+  comment: z.string()
+    .max(500, 'コメントは500文字以下である必要があります')
+    .nullable()
+    .optional()
+})
+
+/**
+ * 見逃された違反の報告APIのリクエストスキーマ（原文上の選択範囲）
+ */
+export const ReportMissedViolationRequestSchema = z.object({
+  startPos: z.number().int().min(0, '開始位置は0以上である必要があります'),
+  endPos: z.number().int().min(1, '終了位置は1以上である必要があります'),
+  comment: z.string()
+    .max(500, 'コメントは500文字以下である必要があります')
+    .nullable()
+    .optional()
+}).refine(data => data.endPos > data.startPos, {
+  message: '終了位置は開始位置より後である必要があります',
+  path: ['endPos']
+})
+
+/**
+ * フィードバックからの辞書提案の反映・見送りAPIのリクエストスキーマ
+ */
+export const ResolveDictionarySuggestionRequestSchema = z.object({
+  kind: z.enum(['allow', 'ng'], {
+    message: '提案の種類は allow または ng である必要があります'
+  }),
+  phrase: z.string()
+    .min(1, '語句は必須です')
+    .max(200, '語句は200文字以下である必要があります'),
+  action: z.enum(['apply', 'dismiss'], {
+    message: '操作は apply または dismiss である必要があります'
+  }),
+  regulatoryCategory: z.enum(REGULATORY_CATEGORY_CODES).nullable().optional()
+})
+
+// TypeScript型定義
+export type SubmitViolationFeedbackRequest = z.infer<typeof SubmitViolationFeedbackRequestSchema>
+export type ReportMissedViolationRequest = z.infer<typeof ReportMissedViolationRequestSchema>
+export type ResolveDictionarySuggestionRequest = z.infer<typeof ResolveDictionarySuggestionRequestSchema>
+
+export function validateSubmitViolationFeedbackRequest(data: unknown): ValidationResult<SubmitViolationFeedbackRequest> {
+  const result = SubmitViolationFeedbackRequestSchema.safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: result.error.issues.map((e: ZodIssue) => e.message).join(', '),
+      details: result.error.issues
+    }
+  }
+}
+
+export function validateReportMissedViolationRequest(data: unknown): ValidationResult<ReportMissedViolationRequest> {
+  const result = ReportMissedViolationRequestSchema.safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: result.error.issues.map((e: ZodIssue) => e.message).join(', '),
+      details: result.error.issues
+    }
+  }
+}
+
+export function validateResolveDictionarySuggestionRequest(data: unknown): ValidationResult<ResolveDictionarySuggestionRequest> {
+  const result = ResolveDictionarySuggestionRequestSchema.safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: result.error.issues.map((e: ZodIssue) => e.message).join(', '),
+      details: result.error.issues
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { z, ZodIssue } from 'zod'
+
+import { WEBHOOK_CONFIG, WEBHOOK_EVENT_TYPES } from '@/constants/webhooks'
+
+/**
+ * Webhook 送信先URLスキーマ（HTTPS必須・認証情報なし）
+ * HTTP は ADLEX_WEBHOOK_ALLOW_PRIVATE=true の場合のみ許可する（ローカル受信確認用）。
+ * 送信先ホストが公開アドレスかは、登録時と配信時に名前解決して検証する
+ */
+const WebhookUrlSchema = z.string()
+  .url('有効なURLである必要があります')
+  .max(2048, 'URLは2048文字以下である必要があります')
+  .refine(value => {
+    const url = new URL(value)
+    if (url.username || url.password) return false
+    return url.protocol === 'https:' || (url.protocol === 'http:' && WEBHOOK_CONFIG.ALLOW_PRIVATE_NETWORK)
+  }, 'URLはHTTPSである必要があります（認証情報を含むURLは登録できません）')
+
+const WebhookEventTypesSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES, {
+  message: '未対応のイベント種別が含まれています'
+}))
+
+/**
+ * Webhook エンドポイント作成のリクエストスキーマ
+ * eventTypes が空の場合は全イベントを購読する
+ */
+export const CreateWebhookEndpointRequestSchema = z.object({
+  url: WebhookUrlSchema,
+  description: z.string().max(200, '説明は200文字以下である必要があります').optional(),
+  eventTypes: WebhookEventTypesSchema.optional().default([])
+})
+
+/**
+ * Webhook エンドポイント更新のリクエストスキーマ
+ */
+export const UpdateWebhookEndpointRequestSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  description: z.string().max(200, '説明は200文字以下である必要があります').nullable().optional(),
+  eventTypes: WebhookEventTypesSchema.optional(),
+  isActive: z.boolean().optional()
+})
+
+/**
+ * Webhook エンドポイントIDのパラメータスキーマ
+ */
+export const WebhookIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive('有効なIDである必要があります')
+})
+
+/**
+ * Webhook 配信ログ取得のクエリパラメータスキーマ
+ */
+export const GetWebhookDeliveriesQuerySchema = z.object({
+  endpointId: z.coerce.number().int().positive().optional(),
+  status: z.enum(['pending', 'retrying', 'succeeded', 'failed']).optional(),
+  limit: z.coerce.number().min(1).max(200).optional().default(50)
+})
+
+// TypeScript型定義
+export type CreateWebhookEndpointRequest = z.infer<typeof CreateWebhookEndpointRequestSchema>
+export type UpdateWebhookEndpointRequest = z.infer<typeof UpdateWebhookEndpointRequestSchema>
+export type WebhookIdParams = z.infer<typeof WebhookIdParamsSchema>
+export type GetWebhookDeliveriesQuery = z.infer<typeof GetWebhookDeliveriesQuerySchema>
+
+/**
+ * バリデーション結果型
+ */
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: { code: string; message: string; details?: unknown } }
+
+/**
+ * バリデーション関数
+ */
+export function validateCreateWebhookEndpointRequest(data: unknown): ValidationResult<CreateWebhookEndpointRequest> {
+  try {
+    const result = CreateWebhookEndpointRequestSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'リクエストバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+export function validateUpdateWebhookEndpointRequest(data: unknown): ValidationResult<UpdateWebhookEndpointRequest> {
+  try {
+    const result = UpdateWebhookEndpointRequestSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'リクエストバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+export function validateWebhookIdParams(data: unknown): ValidationResult<WebhookIdParams> {
+  try {
+    const result = WebhookIdParamsSchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'パラメータバリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+export function validateGetWebhookDeliveriesQuery(data: unknown): ValidationResult<GetWebhookDeliveriesQuery> {
+  try {
+    const result = GetWebhookDeliveriesQuerySchema.parse(data)
+    return { success: true, data: result }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.issues.map((e: ZodIssue) => e.message).join(', '),
+          details: error.issues
+        }
+      }
+    }
+    return {
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'バリデーションエラーが発生しました'
+      }
+    }
+  }
+}
+
+/**
+ * レスポンスヘルパー関数
+ */
+export function createSuccessResponse<T>(data: T): T {
+  return data
+}
+
+export function createErrorResponse(code: string, message: string, details?: unknown) {
+  return {
+    error: {
+      code,
+      message,
+      details
+    }
+  }
+}
+
+/**
+ * エラーコードからHTTPステータスコードを取得
+ */
+export function getStatusCodeFromError(code: string): number {
+  switch (code) {
+    case 'AUTHENTICATION_ERROR':
+      return 401
+    case 'AUTHORIZATION_ERROR':
+      return 403
+    case 'NOT_FOUND_ERROR':
+      return 404
+    case 'VALIDATION_ERROR':
+      return 400
+    case 'CONFLICT_ERROR':
+      return 409
+    case 'REPOSITORY_ERROR':
+    case 'INTERNAL_ERROR':
+    default:
+      return 500
+  }
+}
@@ -0,0 +1,33 @@
+import { Database } from '@/types/database.types'
+
+import { BaseRepository, FindManyOptions } from './base'
+
+// Helper types using Supabase generated types
+export type ApiKey = Database['public']['Tables']['api_keys']['Row']
+export type ApiKeyInsert = Database['public']['Tables']['api_keys']['Insert']
+export type ApiKeyUpdate = Database['public']['Tables']['api_keys']['Update']
+
+/**
+ * API keys repository interface
+ */
+export interface ApiKeysRepository extends BaseRepository<ApiKey, ApiKeyInsert, ApiKeyUpdate> {
+  /**
+   * Find keys by organization ID
+   */
+  findByOrganizationId(organizationId: number, options?: FindManyOptions<ApiKey>): Promise<ApiKey[]>
+
+  /**
+   * Find key by ID and organization
+   */
+  findByIdAndOrganization(id: number, organizationId: number): Promise<ApiKey | null>
+
+  /**
+   * Find a non-revoked key by its SHA-256 hash
+   */
+  findActiveByHash(keyHash: string): Promise<ApiKey | null>
+
+  /**
+   * Count non-revoked keys of an organization
+   */
+  countActiveByOrganizationId(organizationId: number): Promise<number>
+}
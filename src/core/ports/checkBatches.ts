@@ -0,0 +1,47 @@
+import { RegulatoryCategoryCode, ViolationSeverity } from '@/types/api'
+import { Database } from '@/types/database.types'
+
+import { BaseRepository, FindManyOptions } from './base'
+import { Check } from './checks'
+
+// Helper types using Supabase generated types
+export type CheckBatch = Database['public']['Tables']['check_batches']['Row']
+export type CheckBatchInsert = Database['public']['Tables']['check_batches']['Insert']
+export type CheckBatchUpdate = Database['public']['Tables']['check_batches']['Update']
+
+/**
+ * Child check of a batch with its violations
+ */
+export type CheckBatchItem = Pick<
+  Check,
+  'id' | 'batch_item_label' | 'status' | 'original_text' | 'modified_text' | 'error_message' | 'created_at' | 'completed_at'
+> & {
+  violations?: {
+    id: number
+    matched_text?: string | null
+    reason?: string | null
+    suggested_text?: string | null
+    regulatory_category?: RegulatoryCategoryCode | null
+    severity?: ViolationSeverity | null
+  }[]
+}
+
+/**
+ * Check batches repository interface
+ */
+export interface CheckBatchesRepository extends BaseRepository<CheckBatch, CheckBatchInsert, CheckBatchUpdate> {
+  /**
+   * Find batch by ID and organization
+   */
+  findByIdAndOrganization(id: number, organizationId: number): Promise<CheckBatch | null>
+
+  /**
+   * Find batches of an organization, newest first
+   */
+  findByOrganizationId(organizationId: number, options?: FindManyOptions<CheckBatch>): Promise<CheckBatch[]>
+
+  /**
+   * Find child checks of a batch with their violations in submission order
+   */
+  findItems(batchId: number): Promise<CheckBatchItem[]>
+}
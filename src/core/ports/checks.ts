@@ -1,3 +1,5 @@
+import { LlmUsageRow } from '@/constants/llmPricing'
+import { RegulatoryCategoryCode, ViolationSeverity } from '@/types/api'
 import { Database } from '@/types/database.types'
 
 import { BaseRepository, FindManyOptions } from './base'
@@ -53,7 +55,7 @@ export interface CheckSearchOptions {
   organizationId: number
   search?: string
   status?: CheckStatus
-  inputType?: 'text' | 'image'
+  inputType?: 'text' | 'image' | 'pdf' | 'url'
   dateFilter?: 'today' | 'week' | 'month'
   page?: number
   limit?: number
@@ -81,7 +83,43 @@ export type CheckWithViolations = Check & {
   users?: {
     email?: string | null
   } | null
-  violations?: { id: number }[]
+  violations?: {
+    id: number
+    regulatory_category?: RegulatoryCategoryCode | null
+    severity?: ViolationSeverity | null
+  }[]
+}
+
+/**
+ * Summary of a re-run of a check
+ */
+export type CheckRunSummary = Pick<Check, 'id' | 'status' | 'created_at' | 'ai_model' | 'dictionary_version'>
+
+/**
+ * Check and violation analytics of an organization aggregated in SQL (get_check_analytics)
+ * Hours and months are in JST; processing time is measured from created_at to completed_at
+ */
+export interface CheckAnalyticsRow {
+  total_checks: number
+  completed_checks: number
+  failed_checks: number
+  checks_this_month: number
+  checks_last_month: number
+  /** Check count per hour of day (index 0-23) */
+  hourly_checks: number[]
+  active_users: number
+  previous_active_users: number
+  retained_users: number
+  new_users: number
+  avg_session_minutes: number | null
+  violation_count: number
+  /** Most common violation types (up to 10, descending by count) */
+  violation_types: Array<{ regulatory_category: RegulatoryCategoryCode | null; count: number }>
+  avg_processing_seconds: number | null
+  p50_processing_seconds: number | null
+  p90_processing_seconds: number | null
+  p95_processing_seconds: number | null
+  p99_processing_seconds: number | null
 }
 
 /**
@@ -97,10 +135,26 @@ export type CheckWithDetailedViolations = Check & {
     end_pos?: number | null
     reason?: string | null
     dictionary_id?: number | null
+    global_dictionary_id?: number | null
+    matched_text?: string | null
+    confidence?: number | null
+    suggested_text?: string | null
+    alternative_suggestions?: string[] | null
+    decision?: 'pending' | 'accepted' | 'rejected' | null
+    selected_text?: string | null
+    decided_at?: string | null
+    regulatory_category?: RegulatoryCategoryCode | null
+    severity?: ViolationSeverity | null
+    page_number?: number | null
+    dom_selector?: string | null
     dictionaries?: {
       phrase?: string | null
       category?: string | null
     } | null
+    global_dictionaries?: {
+      phrase?: string | null
+      category?: string | null
+    } | null
   }>
 }
 
@@ -163,8 +217,28 @@ export interface ChecksRepository extends BaseRepository<Check, CheckInsert, Che
    */
   findByIdWithDetailedViolations(id: number, organizationId: number): Promise<CheckWithDetailedViolations | null>
 
+  /**
+   * Find daily LLM token usage and cost per organization and user since the given date (YYYY-MM-DD, JST)
+   */
+  findLlmUsageDaily(sinceDate: string, organizationId?: number): Promise<LlmUsageRow[]>
+
+  /**
+   * Aggregate check and violation analytics of an organization since the given time
+   */
+  getAnalytics(organizationId: number, since: Date): Promise<CheckAnalyticsRow>
+
   /**
    * Logically delete check by setting deleted_at timestamp
    */
   logicalDelete(id: number): Promise<Check | null>
+
+  /**
+   * Bulk create child checks of a batch (returned in insertion order)
+   */
+  bulkCreateForBatch(batchId: number, checks: Omit<CheckInsert, 'batch_id'>[]): Promise<Check[]>
+
+  /**
+   * Find re-runs (child checks) of a check, oldest first
+   */
+  findReruns(parentCheckId: number, organizationId: number): Promise<CheckRunSummary[]>
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { ProductCategory, RegulatoryCategoryCode } from '@/types/api'
 import { Database } from '@/types/database.types'
 
 import { BaseRepository, FindManyOptions } from './base'
@@ -8,6 +9,14 @@ export type DictionaryInsert = Database['public']['Tables']['dictionaries']['Ins
 export type DictionaryUpdate = Database['public']['Tables']['dictionaries']['Update']
 export type DictionaryCategory = Database['public']['Enums']['dictionary_category']
 
+/**
+ * Dictionary entry without the embedding vector (as stored in change history and snapshots)
+ */
+export type DictionaryEntry = Pick<
+  Dictionary,
+  'id' | 'phrase' | 'category' | 'notes' | 'regulatory_category' | 'product_category'
+>
+
 /**
  * Dictionary search options for the API
  */
@@ -34,6 +43,11 @@ export interface DictionariesRepository extends BaseRepository<Dictionary, Dicti
    */
   findByOrganizationId(organizationId: number, options?: FindManyOptions<Dictionary>): Promise<Dictionary[]>
 
+  /**
+   * Find entries (without embedding vectors) of an organization ordered by ID
+   */
+  findEntriesByOrganizationId(organizationId: number): Promise<DictionaryEntry[]>
+
   /**
    * Find dictionaries by category
    */
@@ -100,6 +114,8 @@ export interface DictionariesRepository extends BaseRepository<Dictionary, Dicti
     phrase: string
     category: DictionaryCategory
     notes?: string | null
+    regulatory_category?: RegulatoryCategoryCode | null
+    product_category?: ProductCategory | null
   }): Promise<DictionaryCreateResponse>
 
   /**
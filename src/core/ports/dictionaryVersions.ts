@@ -0,0 +1,75 @@
+import { Database } from '@/types/database.types'
+
+import { BaseRepository } from './base'
+
+// Helper types using Supabase generated types
+export type DictionaryChange = Database['public']['Tables']['dictionary_changes']['Row']
+export type DictionaryChangeInsert = Database['public']['Tables']['dictionary_changes']['Insert']
+export type DictionaryChangeUpdate = Database['public']['Tables']['dictionary_changes']['Update']
+export type DictionarySnapshot = Database['public']['Tables']['dictionary_snapshots']['Row']
+export type DictionarySnapshotInsert = Database['public']['Tables']['dictionary_snapshots']['Insert']
+export type DictionarySnapshotUpdate = Database['public']['Tables']['dictionary_snapshots']['Update']
+
+export type DictionaryChangeAction = 'create' | 'update' | 'delete'
+export type DictionaryChangeSource = 'manual' | 'bulk_update' | 'import' | 'rollback' | 'feedback'
+export type DictionarySnapshotKind = 'manual' | 'auto'
+
+/**
+ * Change with the email of the user who made it
+ */
+export type DictionaryChangeWithUser = DictionaryChange & {
+  changed_by_user: { email: string } | null
+}
+
+/**
+ * Snapshot without its entries (for listing)
+ */
+export type DictionarySnapshotSummary = Omit<DictionarySnapshot, 'items'>
+
+/**
+ * Dictionary change history repository interface
+ */
+export interface DictionaryChangesRepository
+  extends BaseRepository<DictionaryChange, DictionaryChangeInsert, DictionaryChangeUpdate> {
+  /**
+   * Record multiple changes at once
+   */
+  bulkCreate(data: DictionaryChangeInsert[]): Promise<DictionaryChange[]>
+
+  /**
+   * Find changes of an organization with the user who made them, newest first
+   */
+  findByOrganizationId(
+    organizationId: number,
+    options?: { dictionaryId?: number; limit?: number; offset?: number }
+  ): Promise<DictionaryChangeWithUser[]>
+
+  /**
+   * Find the ID of the latest change of an organization (null if none recorded)
+   */
+  findLatestId(organizationId: number): Promise<number | null>
+}
+
+/**
+ * Dictionary snapshots repository interface
+ */
+export interface DictionarySnapshotsRepository
+  extends BaseRepository<DictionarySnapshot, DictionarySnapshotInsert, DictionarySnapshotUpdate> {
+  /**
+   * Find snapshot (with entries) by ID and organization
+   */
+  findByIdAndOrganization(id: number, organizationId: number): Promise<DictionarySnapshot | null>
+
+  /**
+   * Find snapshots of an organization without entries, newest first
+   */
+  findByOrganizationId(
+    organizationId: number,
+    options?: { kind?: DictionarySnapshotKind; limit?: number; offset?: number }
+  ): Promise<DictionarySnapshotSummary[]>
+
+  /**
+   * Find the latest snapshot of an organization without entries
+   */
+  findLatest(organizationId: number): Promise<DictionarySnapshotSummary | null>
+}
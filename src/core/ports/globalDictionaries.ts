@@ -0,0 +1,54 @@
+import { Database } from '@/types/database.types'
+
+import { BaseRepository } from './base'
+
+// Helper types using Supabase generated types
+export type GlobalDictionary = Database['public']['Tables']['global_dictionaries']['Row']
+export type GlobalDictionaryInsert = Database['public']['Tables']['global_dictionaries']['Insert']
+export type GlobalDictionaryUpdate = Database['public']['Tables']['global_dictionaries']['Update']
+export type DictionaryOverride = Database['public']['Tables']['dictionary_overrides']['Row']
+export type DictionaryOverrideInsert = Database['public']['Tables']['dictionary_overrides']['Insert']
+export type DictionaryOverrideUpdate = Database['public']['Tables']['dictionary_overrides']['Update']
+export type DictionaryOverrideAction = Database['public']['Enums']['dictionary_override_action']
+
+/**
+ * Global dictionary entry without the embedding vector
+ */
+export type GlobalDictionaryEntry = Omit<GlobalDictionary, 'vector'>
+
+/**
+ * Global dictionary repository interface (read-only for organizations; maintained by the platform)
+ */
+export interface GlobalDictionariesRepository
+  extends BaseRepository<GlobalDictionary, GlobalDictionaryInsert, GlobalDictionaryUpdate> {
+  /**
+   * Find active entries (without embedding vectors) ordered by ID
+   */
+  findActiveEntries(): Promise<GlobalDictionaryEntry[]>
+
+  /**
+   * Find an active entry by ID
+   */
+  findActiveById(id: number): Promise<GlobalDictionaryEntry | null>
+}
+
+/**
+ * Organization overrides of global dictionary entries repository interface
+ */
+export interface DictionaryOverridesRepository
+  extends BaseRepository<DictionaryOverride, DictionaryOverrideInsert, DictionaryOverrideUpdate> {
+  /**
+   * Find overrides of an organization
+   */
+  findByOrganizationId(organizationId: number): Promise<DictionaryOverride[]>
+
+  /**
+   * Create or replace the override of a global dictionary entry for an organization
+   */
+  upsert(data: DictionaryOverrideInsert): Promise<DictionaryOverride>
+
+  /**
+   * Remove the override of a global dictionary entry for an organization
+   */
+  deleteByGlobalDictionaryId(organizationId: number, globalDictionaryId: number): Promise<boolean>
+}
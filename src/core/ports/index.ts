@@ -12,11 +12,20 @@ export * from './users'
 export * from './checks'
 export * from './organizations'
 export * from './dictionaries'
+export * from './dictionaryVersions'
+export * from './globalDictionaries'
 export * from './violations'
+export * from './violationFeedback'
 export * from './user-invitations'
 export * from './realtimeRepository'
 export * from './authRepository'
 export * from './storage'
+export * from './webhooks'
+export * from './apiKeys'
+export * from './checkBatches'
+export * from './jobs'
+export * from './systemSettings'
+export * from './rateLimits'
 
 // Repository container interface
 export interface RepositoryContainer {
@@ -24,11 +33,25 @@ export interface RepositoryContainer {
   checks: import('./checks').ChecksRepository
   organizations: import('./organizations').OrganizationsRepository
   dictionaries: import('./dictionaries').DictionariesRepository
+  dictionaryChanges: import('./dictionaryVersions').DictionaryChangesRepository
+  dictionarySnapshots: import('./dictionaryVersions').DictionarySnapshotsRepository
+  globalDictionaries: import('./globalDictionaries').GlobalDictionariesRepository
+  dictionaryOverrides: import('./globalDictionaries').DictionaryOverridesRepository
   violations: import('./violations').ViolationsRepository
+  violationFeedback: import('./violationFeedback').ViolationFeedbackRepository
   userInvitations: import('./user-invitations').UserInvitationsRepository
   realtime: import('./realtimeRepository').RealtimeRepository
   auth: import('./authRepository').AuthRepository
   storage: import('./storage').StorageRepository
+  webhookEndpoints: import('./webhooks').WebhookEndpointsRepository
+  webhookDeliveries: import('./webhooks').WebhookDeliveriesRepository
+  apiKeys: import('./apiKeys').ApiKeysRepository
+  checkBatches: import('./checkBatches').CheckBatchesRepository
+  jobs: import('./jobs').JobsRepository
+  systemSettings: import('./systemSettings').SystemSettingsRepository
+  featureFlags: import('./systemSettings').FeatureFlagsRepository
+  settingsAuditLogs: import('./systemSettings').SettingsAuditLogsRepository
+  rateLimitCounters: import('./rateLimits').RateLimitCountersRepository
 }
 
 /**
@@ -0,0 +1,110 @@
+import { JobQueueName, JobTierPolicy } from '@/constants/jobQueue'
+import { Database } from '@/types/database.types'
+
+import { BaseRepository } from './base'
+
+// Helper types using Supabase generated types
+export type Job = Database['public']['Tables']['jobs']['Row']
+export type JobInsert = Database['public']['Tables']['jobs']['Insert']
+export type JobUpdate = Database['public']['Tables']['jobs']['Update']
+
+/**
+ * Result of reaping expired leases and orphaned checks
+ */
+export interface JobReapResult {
+  expiredRequeued: number
+  expiredFailed: number
+  orphanedRequeued: number
+  orphanedFailed: number
+  /** Checks marked failed by this reap (expired leases and orphans) */
+  failedChecks: ReapedFailedCheck[]
+}
+
+/**
+ * Check marked failed by reaping
+ */
+export interface ReapedFailedCheck {
+  checkId: number
+  organizationId: number
+  errorMessage: string | null
+}
+
+/**
+ * Queued and running jobs of a queue per organization
+ */
+export interface JobQueueDepth {
+  organizationId: number | null
+  organizationName: string | null
+  plan: string | null
+  queued: number
+  running: number
+  oldestQueuedAt: string | null
+}
+
+/**
+ * Durable job queue repository interface (service role only)
+ */
+export interface JobsRepository extends BaseRepository<Job, JobInsert, JobUpdate> {
+  /**
+   * Enqueue jobs in one insert (returned in insertion order)
+   */
+  enqueueMany(jobs: JobInsert[]): Promise<Job[]>
+
+  /**
+   * Claim runnable jobs of a queue by priority with a lease (FOR UPDATE SKIP LOCKED)
+   */
+  claim(queue: JobQueueName, workerId: string, limit: number, leaseSeconds: number): Promise<Job[]>
+
+  /**
+   * Claim runnable jobs with weighted fair scheduling across organizations.
+   * Picks the organization with the lowest running/weight ratio first and never exceeds
+   * the per-organization concurrency cap of its plan (policies are keyed by plan)
+   */
+  claimFair(
+    queue: JobQueueName,
+    workerId: string,
+    limit: number,
+    leaseSeconds: number,
+    policies: Record<string, JobTierPolicy>
+  ): Promise<Job[]>
+
+  /**
+   * Extend leases of running jobs held by the worker; returns job IDs whose lease was extended
+   */
+  heartbeat(workerId: string, jobIds: number[], leaseSeconds: number): Promise<number[]>
+
+  /**
+   * Mark a running job held by the worker as completed
+   */
+  complete(jobId: number, workerId: string): Promise<boolean>
+
+  /**
+   * Record a failure of a running job; requeue at retryAt, or fail permanently when retryAt is null
+   */
+  fail(jobId: number, workerId: string, error: string, retryAt: Date | null, priority?: number): Promise<boolean>
+
+  /**
+   * Requeue jobs whose lease expired and recover checks left pending/processing without a job
+   */
+  reap(orphanGraceSeconds: number): Promise<JobReapResult>
+
+  /**
+   * Find jobs of a group (e.g. an embedding refresh request)
+   */
+  findByGroupId(groupId: string): Promise<Job[]>
+
+  /**
+   * Cancel queued jobs of a queue filtered by organization and/or group; returns the number of cancelled jobs
+   */
+  cancelQueued(queue: JobQueueName, filter: { organizationId?: number; groupId?: string }): Promise<number>
+
+  /**
+   * Count queued and running jobs of a queue (across all workers)
+   */
+  countActive(queue: JobQueueName): Promise<{ queued: number; running: number }>
+
+  /**
+   * Count queued and running jobs of a queue per organization (most queued first)
+   */
+  getDepthByOrganization(queue: JobQueueName): Promise<JobQueueDepth[]>
+}
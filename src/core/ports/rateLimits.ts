@@ -0,0 +1,34 @@
+import { Database } from '@/types/database.types'
+
+import { BaseRepository } from './base'
+
+// Helper types using Supabase generated types
+export type RateLimitCounter = Database['public']['Tables']['rate_limit_counters']['Row']
+export type RateLimitCounterInsert = Database['public']['Tables']['rate_limit_counters']['Insert']
+export type RateLimitCounterUpdate = Database['public']['Tables']['rate_limit_counters']['Update']
+
+/**
+ * Request counts of the current and previous fixed windows of a rate limit key
+ */
+export interface RateLimitWindowCount {
+  currentCount: number
+  previousCount: number
+  /** Seconds elapsed since the current window started */
+  elapsedSeconds: number
+}
+
+/**
+ * Rate limit counters repository interface (service role only)
+ */
+export interface RateLimitCountersRepository
+  extends BaseRepository<RateLimitCounter, RateLimitCounterInsert, RateLimitCounterUpdate> {
+  /**
+   * Count one request for the key in the current window atomically
+   */
+  hit(key: string, windowSeconds: number): Promise<RateLimitWindowCount>
+
+  /**
+   * Delete counters no longer needed for the sliding window (returns deleted count)
+   */
+  prune(): Promise<number>
+}
@@ -53,6 +53,7 @@ export interface FinalCheckData {
   original_text?: string | null
   extracted_text?: string | null
   image_url?: string | null
+  source_url?: string | null
   ocr_status?: string | null
   ocr_metadata?: Record<string, unknown> | null
   modified_text?: string | null
@@ -25,6 +25,11 @@ export type UploadResult = StorageResult<{ path: string }>
  */
 export type SignedUrlResult = StorageResult<{ signedUrl: string }>
 
+/**
+ * ファイルダウンロードの結果
+ */
+export type DownloadResult = StorageResult<{ body: Uint8Array; contentType: string | null }>
+
 /**
  * ファイル削除の結果
  */
@@ -70,6 +75,14 @@ export interface StorageRepository {
     expiresIn: number
   ): Promise<SignedUrlResult>
 
+  /**
+   * ファイルをダウンロード
+   * @param bucket バケット名
+   * @param path ファイルパス
+   * @returns ダウンロード結果
+   */
+  downloadFile(bucket: string, path: string): Promise<DownloadResult>
+
   /**
    * ファイルを削除
    * @param bucket バケット名
@@ -0,0 +1,67 @@
+import { Database, Json } from '@/types/database.types'
+
+import { BaseRepository } from './base'
+
+// Helper types using Supabase generated types
+export type SystemSetting = Database['public']['Tables']['system_settings']['Row']
+export type SystemSettingInsert = Database['public']['Tables']['system_settings']['Insert']
+export type SystemSettingUpdate = Database['public']['Tables']['system_settings']['Update']
+export type FeatureFlag = Database['public']['Tables']['feature_flags']['Row']
+export type FeatureFlagInsert = Database['public']['Tables']['feature_flags']['Insert']
+export type FeatureFlagUpdate = Database['public']['Tables']['feature_flags']['Update']
+export type SettingsAuditLog = Database['public']['Tables']['settings_audit_logs']['Row']
+export type SettingsAuditLogInsert = Database['public']['Tables']['settings_audit_logs']['Insert']
+export type SettingsAuditLogUpdate = Database['public']['Tables']['settings_audit_logs']['Update']
+
+export type SystemSettingKey = 'system' | 'notifications'
+export type SettingsAuditTargetType = 'system_setting' | 'feature_flag'
+
+/**
+ * Audit log with the email of the user who made the change
+ */
+export type SettingsAuditLogWithUser = SettingsAuditLog & {
+  changed_by_user: { email: string } | null
+}
+
+/**
+ * System settings repository interface
+ */
+export interface SystemSettingsRepository
+  extends BaseRepository<SystemSetting, SystemSettingInsert, SystemSettingUpdate> {
+  /**
+   * Find the settings of a section (null if not stored yet)
+   */
+  findByKey(key: SystemSettingKey): Promise<SystemSetting | null>
+
+  /**
+   * Store the settings of a section, replacing its previous value
+   */
+  upsertByKey(key: SystemSettingKey, value: Json, updatedBy: string): Promise<SystemSetting>
+}
+
+/**
+ * Feature flags repository interface
+ */
+export interface FeatureFlagsRepository
+  extends BaseRepository<FeatureFlag, FeatureFlagInsert, FeatureFlagUpdate> {
+  /**
+   * Find all flags ordered by key
+   */
+  findAll(): Promise<FeatureFlag[]>
+
+  /**
+   * Find a flag by its key
+   */
+  findByKey(key: string): Promise<FeatureFlag | null>
+}
+
+/**
+ * Settings audit logs repository interface
+ */
+export interface SettingsAuditLogsRepository
+  extends BaseRepository<SettingsAuditLog, SettingsAuditLogInsert, SettingsAuditLogUpdate> {
+  /**
+   * Find the latest changes with the user who made them, newest first
+   */
+  findRecent(limit: number): Promise<SettingsAuditLogWithUser[]>
+}
@@ -49,6 +49,11 @@ export interface UsersRepository extends BaseRepository<User, UserInsert, UserUp
    */
   isAdmin(id: string): Promise<boolean>
 
+  /**
+   * Check if user is a platform admin (allowed to change platform-wide settings)
+   */
+  isPlatformAdmin(id: string): Promise<boolean>
+
   /**
    * Find user by email
    */
@@ -0,0 +1,66 @@
+import { Database } from '@/types/database.types'
+
+import { BaseRepository } from './base'
+
+// Helper types using Supabase generated types
+export type ViolationFeedback = Database['public']['Tables']['violation_feedback']['Row']
+export type ViolationFeedbackInsert = Database['public']['Tables']['violation_feedback']['Insert']
+export type ViolationFeedbackUpdate = Database['public']['Tables']['violation_feedback']['Update']
+export type ViolationFeedbackType = Database['public']['Enums']['violation_feedback_type']
+export type ViolationFeedbackStatus = Database['public']['Enums']['violation_feedback_status']
+
+/**
+ * Reviewer feedback counts and estimated precision of a dictionary entry (dictionary_entry_precision view)
+ */
+export interface DictionaryEntryPrecision {
+  dictionaryId: number | null
+  globalDictionaryId: number | null
+  phrase: string | null
+  correctCount: number
+  wrongReasonCount: number
+  falsePositiveCount: number
+  /** Share (%) of evaluated violations that were correctly flagged (wrong reason counts as correctly flagged) */
+  precisionRate: number | null
+  lastFeedbackAt: string | null
+}
+
+/**
+ * Violation feedback repository interface
+ */
+export interface ViolationFeedbackRepository
+  extends BaseRepository<ViolationFeedback, ViolationFeedbackInsert, ViolationFeedbackUpdate> {
+  /**
+   * Find feedback on a check (evaluations of its violations and reported missed violations)
+   */
+  findByCheckId(checkId: number): Promise<ViolationFeedback[]>
+
+  /**
+   * Find feedback of an organization that has not been reflected in the dictionary yet, newest first
+   */
+  findOpenByOrganizationId(organizationId: number): Promise<ViolationFeedback[]>
+
+  /**
+   * Create or replace the evaluation of a violation
+   */
+  upsertForViolation(data: ViolationFeedbackInsert): Promise<ViolationFeedback>
+
+  /**
+   * Remove the evaluation of a violation
+   */
+  deleteByViolationId(violationId: number): Promise<boolean>
+
+  /**
+   * Mark feedback as applied to the dictionary or dismissed
+   */
+  resolve(ids: number[], status: Exclude<ViolationFeedbackStatus, 'open'>, resolvedBy: string): Promise<number>
+
+  /**
+   * Count feedback of an organization by type since the given time
+   */
+  countByTypeSince(organizationId: number, since: Date): Promise<Record<ViolationFeedbackType, number>>
+
+  /**
+   * Find feedback counts and estimated precision per dictionary entry of an organization, least precise first
+   */
+  findPrecisionByOrganizationId(organizationId: number): Promise<DictionaryEntryPrecision[]>
+}
@@ -36,6 +36,11 @@ export interface ViolationsRepository extends BaseRepository<Violation, Violatio
    */
   bulkCreateForCheck(checkId: number, violations: Omit<ViolationInsert, 'check_id'>[]): Promise<Violation[]>
 
+  /**
+   * Find legal basis (regulatory category and severity) of all violations in an organization
+   */
+  findLegalBasisByOrganizationId(organizationId: number): Promise<Pick<Violation, 'regulatory_category' | 'severity'>[]>
+
   /**
    * Delete violations by check ID
    */
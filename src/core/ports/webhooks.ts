@@ -0,0 +1,62 @@
+import { Database } from '@/types/database.types'
+
+import { BaseRepository, FindManyOptions } from './base'
+
+// Helper types using Supabase generated types
+export type WebhookEndpoint = Database['public']['Tables']['webhook_endpoints']['Row']
+export type WebhookEndpointInsert = Database['public']['Tables']['webhook_endpoints']['Insert']
+export type WebhookEndpointUpdate = Database['public']['Tables']['webhook_endpoints']['Update']
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row']
+export type WebhookDeliveryInsert = Database['public']['Tables']['webhook_deliveries']['Insert']
+export type WebhookDeliveryUpdate = Database['public']['Tables']['webhook_deliveries']['Update']
+export type WebhookDeliveryStatus = Database['public']['Enums']['webhook_delivery_status']
+
+/**
+ * Webhook delivery search filter options
+ */
+export interface WebhookDeliverySearchOptions {
+  organizationId: number
+  endpointId?: number
+  status?: WebhookDeliveryStatus
+  limit?: number
+}
+
+/**
+ * Webhook endpoints repository interface
+ */
+export interface WebhookEndpointsRepository extends BaseRepository<WebhookEndpoint, WebhookEndpointInsert, WebhookEndpointUpdate> {
+  /**
+   * Find endpoints by organization ID
+   */
+  findByOrganizationId(organizationId: number, options?: FindManyOptions<WebhookEndpoint>): Promise<WebhookEndpoint[]>
+
+  /**
+   * Find endpoint by ID and organization
+   */
+  findByIdAndOrganization(id: number, organizationId: number): Promise<WebhookEndpoint | null>
+
+  /**
+   * Find active endpoints of an organization subscribed to the event type (empty event_types = all events)
+   */
+  findActiveByEventType(organizationId: number, eventType: string): Promise<WebhookEndpoint[]>
+}
+
+/**
+ * Webhook deliveries repository interface
+ */
+export interface WebhookDeliveriesRepository extends BaseRepository<WebhookDelivery, WebhookDeliveryInsert, WebhookDeliveryUpdate> {
+  /**
+   * Search deliveries of an organization, newest first
+   */
+  searchDeliveries(options: WebhookDeliverySearchOptions): Promise<WebhookDelivery[]>
+
+  /**
+   * Find delivery by ID and organization
+   */
+  findByIdAndOrganization(id: number, organizationId: number): Promise<WebhookDelivery | null>
+
+  /**
+   * Find deliveries waiting for a retry whose next attempt time has passed
+   */
+  findDueRetries(now: string, limit?: number): Promise<WebhookDelivery[]>
+}
@@ -0,0 +1,144 @@
+import { getLegalBasisLabel } from '@/constants/regulatory'
+import {
+  ANALYTICS_TIME_RANGE_DAYS,
+  AnalyticsTimeRange,
+  GetAdminAnalyticsResponse
+} from '@/core/dtos/admin'
+import { CheckAnalyticsRow, RepositoryContainer } from '@/core/ports'
+import { measureAccuracyRate } from '@/lib/violation-feedback'
+
+/**
+ * Admin 分析レポート取得のユースケース入力
+ */
+export interface GetAdminAnalyticsInput {
+  currentUserId: string
+  timeRange: AnalyticsTimeRange
+}
+
+/**
+ * Admin 分析レポート取得のユースケース出力
+ */
+export type GetAdminAnalyticsOutput = GetAdminAnalyticsResponse
+
+/**
+ * Admin 分析レポート取得のユースケース結果
+ */
+export type GetAdminAnalyticsResult =
+  | { success: true; data: GetAdminAnalyticsOutput }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Admin 分析レポート取得ユースケース
+ * 管理者の組織のチェック・違反を SQL（get_check_analytics）で集計し、率・平均を算出する。
+ * 検出精度はレビュー担当者の違反の評価（violation_feedback）から求める
+ */
+export class GetAdminAnalyticsUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetAdminAnalyticsInput): Promise<GetAdminAnalyticsResult> {
+    try {
+      const currentUser = await this.repositories.users.findById(input.currentUserId)
+      if (!currentUser) {
+        return {
+          success: false,
+          error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' }
+        }
+      }
+
+      if (currentUser.role !== 'admin') {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: 'システム管理者権限が必要です' }
+        }
+      }
+
+      if (!currentUser.organization_id) {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: 'ユーザーが組織に属していません' }
+        }
+      }
+
+      const days = ANALYTICS_TIME_RANGE_DAYS[input.timeRange]
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      const [row, feedbackCounts] = await Promise.all([
+        this.repositories.checks.getAnalytics(currentUser.organization_id, since),
+        this.repositories.violationFeedback.countByTypeSince(currentUser.organization_id, since)
+      ])
+
+      return {
+        success: true,
+        data: {
+          timeRange: input.timeRange,
+          since: since.toISOString(),
+          ...this.summarize(row, days, measureAccuracyRate(feedbackCounts))
+        }
+      }
+    } catch (error) {
+      console.error('Get admin analytics usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+
+  /**
+   * 集計結果から表示用の指標（率・平均・ピーク時間帯）を算出
+   */
+  private summarize(
+    row: CheckAnalyticsRow,
+    days: number,
+    accuracyRate: number | null
+  ): Omit<GetAdminAnalyticsOutput, 'timeRange' | 'since'> {
+    const finishedChecks = row.completed_checks + row.failed_checks
+    const peakCount = Math.max(0, ...row.hourly_checks)
+
+    return {
+      usageStats: {
+        totalChecks: row.total_checks,
+        checksThisMonth: row.checks_this_month,
+        checksLastMonth: row.checks_last_month,
+        avgChecksPerDay: round(row.total_checks / days),
+        peakHour: peakCount > 0 ? row.hourly_checks.indexOf(peakCount) : null,
+        hourlyChecks: row.hourly_checks
+      },
+      userBehavior: {
+        activeUsers: row.active_users,
+        newUsers: row.new_users,
+        retentionRate: percentage(row.retained_users, row.previous_active_users),
+        avgSessionDuration: roundOrNull(row.avg_session_minutes)
+      },
+      qualityMetrics: {
+        avgViolationsPerCheck: row.completed_checks > 0 ? round(row.violation_count / row.completed_checks, 2) : 0,
+        mostCommonViolations: row.violation_types.map(type => ({
+          type: getLegalBasisLabel(type.regulatory_category),
+          regulatoryCategory: type.regulatory_category,
+          count: type.count,
+          percentage: percentage(type.count, row.violation_count) ?? 0
+        })),
+        accuracyRate
+      },
+      performanceMetrics: {
+        avgProcessingTime: roundOrNull(row.avg_processing_seconds),
+        processingTimePercentiles: {
+          p50: roundOrNull(row.p50_processing_seconds),
+          p90: roundOrNull(row.p90_processing_seconds),
+          p95: roundOrNull(row.p95_processing_seconds),
+          p99: roundOrNull(row.p99_processing_seconds)
+        },
+        successRate: percentage(row.completed_checks, finishedChecks),
+        errorRate: percentage(row.failed_checks, finishedChecks)
+      }
+    }
+  }
+}
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+const roundOrNull = (value: number | null) => (value === null ? null : round(value))
+
+const percentage = (count: number, total: number) => (total > 0 ? round((count / total) * 100) : null)
@@ -1,5 +1,6 @@
 import { AuthenticationError, ValidationError, AuthorizationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
+import { getProviderHealth, ProviderHealth } from '@/lib/ai-client/provider-chain'
 
 /**
  * Admin パフォーマンス取得のユースケース入力
@@ -36,6 +37,8 @@ export interface GetAdminPerformanceOutput {
     message: string
     timestamp: string
   }>
+  /** AIプロバイダーのフォールバック順と各サーキットブレーカーの状態 */
+  providers: ProviderHealth[]
 }
 
 /**
@@ -89,13 +92,15 @@ export class GetAdminPerformanceUseCase {
       ])
 
       const summary = this.calculateSummary(metrics)
+      const providers = getProviderHealth()
 
       return {
         success: true,
         data: {
           metrics,
           summary,
-          alerts
+          alerts: [...this.getProviderAlerts(providers), ...alerts],
+          providers
         }
       }
 
@@ -227,6 +232,28 @@ export class GetAdminPerformanceUseCase {
     }
   }
 
+  /**
+   * 遮断中・試行中のAIプロバイダーをアラートに変換
+   */
+  private getProviderAlerts(providers: ProviderHealth[]): Array<{
+    type: 'performance' | 'error' | 'resource'
+    severity: 'low' | 'medium' | 'high' | 'critical'
+    message: string
+    timestamp: string
+  }> {
+    const allOpen = providers.length > 0 && providers.every(p => p.state === 'open')
+    return providers
+      .filter(p => p.state !== 'closed')
+      .map(p => ({
+        type: 'error' as const,
+        severity: allOpen ? 'critical' as const : p.state === 'open' ? 'high' as const : 'medium' as const,
+        message: p.state === 'open'
+          ? `AIプロバイダー ${p.provider} を遮断中です（連続失敗 ${p.consecutiveFailures} 回: ${p.lastError ?? '不明なエラー'}）`
+          : `AIプロバイダー ${p.provider} の復旧を試行中です`,
+        timestamp: p.openedAt ?? new Date().toISOString()
+      }))
+  }
+
   /**
    * メトリクスサマリーを計算
    */
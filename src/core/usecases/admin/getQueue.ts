@@ -0,0 +1,119 @@
+import { JOB_QUEUE_CONFIG, JOB_TIER_POLICIES, JobQueueName } from '@/constants/jobQueue'
+import { SubscriptionTier } from '@/core/domain/entities'
+import { JobQueueDepth, RepositoryContainer } from '@/core/ports'
+
+/**
+ * Admin ジョブキュー状況取得のユースケース入力
+ */
+export interface GetAdminQueueInput {
+  currentUserId: string
+  queue: JobQueueName
+}
+
+/**
+ * 組織別のキュー状況（プラン別のスケジューリング設定付き）
+ */
+export interface AdminQueueOrganization extends JobQueueDepth {
+  /** 公平スケジューリングの重み（公平スケジューリング対象外のキューは null） */
+  weight: number | null
+  /** 組織ごとの同時実行数上限（全ワーカー合計。対象外のキューは null） */
+  maxConcurrent: number | null
+}
+
+/**
+ * Admin ジョブキュー状況取得のユースケース出力
+ */
+export interface GetAdminQueueOutput {
+  queue: JobQueueName
+  /** 組織間の公平スケジューリングが有効か */
+  fairScheduling: boolean
+  /** ワーカー1プロセスあたりの同時実行数 */
+  workerConcurrency: number
+  /** 集計の対象（プラットフォーム管理者は全組織、組織の admin は自組織のみ） */
+  totals: { queued: number; running: number }
+  organizations: AdminQueueOrganization[]
+}
+
+/**
+ * Admin ジョブキュー状況取得のユースケース結果
+ */
+export type GetAdminQueueResult =
+  | { success: true; data: GetAdminQueueOutput }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Admin ジョブキュー状況取得ユースケース
+ * jobs テーブルは Service Role からのみ参照できるため、集計には systemRepositories を使う
+ * 全組織の状況はプラットフォーム管理者のみ参照でき、組織の admin には自組織の行だけを返す
+ */
+export class GetAdminQueueUseCase {
+  constructor(
+    private repositories: RepositoryContainer,
+    private systemRepositories: RepositoryContainer
+  ) {}
+
+  async execute(input: GetAdminQueueInput): Promise<GetAdminQueueResult> {
+    try {
+      const currentUser = await this.repositories.users.findById(input.currentUserId)
+      if (!currentUser) {
+        return {
+          success: false,
+          error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' }
+        }
+      }
+
+      if (currentUser.role !== 'admin') {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: 'システム管理者権限が必要です' }
+        }
+      }
+
+      // systemRepositories は RLS を経由しないため、他の組織の行はここで除く
+      const isPlatformAdmin = await this.repositories.users.isPlatformAdmin(currentUser.id)
+      if (!isPlatformAdmin && currentUser.organization_id === null) {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: '組織に所属していません' }
+        }
+      }
+
+      const fairScheduling = input.queue === 'check'
+      const depth = await this.systemRepositories.jobs.getDepthByOrganization(input.queue)
+      const visibleDepth = isPlatformAdmin
+        ? depth
+        : depth.filter(row => row.organizationId === currentUser.organization_id)
+
+      const organizations = visibleDepth.map(row => {
+        const policy = fairScheduling && row.organizationId !== null
+          ? JOB_TIER_POLICIES[(row.plan ?? 'trial') as SubscriptionTier] ?? JOB_TIER_POLICIES.trial
+          : null
+        return {
+          ...row,
+          weight: policy?.weight ?? null,
+          maxConcurrent: policy?.maxConcurrent ?? null
+        }
+      })
+
+      return {
+        success: true,
+        data: {
+          queue: input.queue,
+          fairScheduling,
+          workerConcurrency: JOB_QUEUE_CONFIG.QUEUES[input.queue].CONCURRENCY,
+          totals: {
+            queued: organizations.reduce((sum, row) => sum + row.queued, 0),
+            running: organizations.reduce((sum, row) => sum + row.running, 0)
+          },
+          organizations
+        }
+      }
+    } catch (error) {
+      console.error('Get admin queue usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
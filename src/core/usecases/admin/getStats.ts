@@ -1,3 +1,4 @@
+import { LlmUsageSummary, summarizeLlmUsage } from '@/constants/llmPricing'
 import { AuthenticationError, ValidationError, AuthorizationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
 
@@ -33,6 +34,8 @@ export interface GetAdminStatsOutput {
     memoryUsage: number
     responseTime: number
   }
+  /** 期間内のLLMトークン使用量とコスト（組織別・ユーザー別・日別） */
+  llmUsage: LlmUsageSummary
 }
 
 /**
@@ -104,8 +107,11 @@ export class GetAdminStatsUseCase {
         this.getAverageCheckTime(periodStart, input.organizationId)
       ])
 
-      // トップ組織の取得
-      const topOrganizations = await this.getTopOrganizations(periodStart)
+      // トップ組織・LLM利用量の取得
+      const [topOrganizations, llmUsage] = await Promise.all([
+        this.getTopOrganizations(periodStart),
+        this.getLlmUsage(periodStart, input.organizationId)
+      ])
 
       // システムヘルス情報
       const systemHealth = this.getSystemHealth()
@@ -121,7 +127,8 @@ export class GetAdminStatsUseCase {
           violationsThisPeriod,
           averageCheckTime,
           topOrganizations,
-          systemHealth
+          systemHealth,
+          llmUsage
         }
       }
 
@@ -298,6 +305,21 @@ export class GetAdminStatsUseCase {
     }
   }
 
+  /**
+   * 期間内のLLMトークン使用量とコストを組織別・ユーザー別・日別に集計
+   */
+  private async getLlmUsage(periodStart: Date, organizationId?: number): Promise<LlmUsageSummary> {
+    try {
+      // 集計ビューの日付は日本時間のため、期間開始日も日本時間の日付に揃える
+      const sinceDate = new Date(periodStart.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      const rows = await this.repositories.checks.findLlmUsageDaily(sinceDate, organizationId)
+      return summarizeLlmUsage(rows)
+    } catch (error) {
+      console.warn('Failed to get LLM usage:', error)
+      return summarizeLlmUsage([])
+    }
+  }
+
   /**
    * システムヘルス情報を取得
    */
@@ -0,0 +1,147 @@
+import { FeatureFlagCategory, NotificationSettings, SystemConfig } from '@/core/dtos/system-settings'
+import { FeatureFlag, RepositoryContainer } from '@/core/ports'
+import { parseNotificationSettings, parseSystemConfig } from '@/lib/system-settings'
+import { Json } from '@/types/database.types'
+
+/** 画面に表示する設定の変更履歴の件数 */
+const AUDIT_LOG_LIMIT = 50
+
+/**
+ * Admin システム設定取得のユースケース入力
+ */
+export interface GetSystemSettingsInput {
+  currentUserId: string
+}
+
+/**
+ * 機能フラグ（組織ごとの評価条件付き）
+ */
+export interface AdminFeatureFlag {
+  key: string
+  name: string
+  description: string | null
+  category: FeatureFlagCategory
+  enabled: boolean
+  rolloutPercentage: number
+  enabledOrganizationIds: number[]
+  disabledOrganizationIds: number[]
+  updatedAt: string | null
+}
+
+/**
+ * システム設定・機能フラグの変更履歴
+ */
+export interface AdminSettingsAuditLog {
+  id: number
+  targetType: 'system_setting' | 'feature_flag'
+  targetKey: string
+  before: Json | null
+  after: Json | null
+  changedBy: string | null
+  changedByEmail: string | null
+  createdAt: string | null
+}
+
+/**
+ * Admin システム設定取得のユースケース出力
+ */
+export interface GetSystemSettingsOutput {
+  system: SystemConfig
+  notifications: NotificationSettings
+  featureFlags: AdminFeatureFlag[]
+  auditLogs: AdminSettingsAuditLog[]
+  /** システム設定・機能フラグ全体を変更できるか（false の場合は自組織の機能フラグの指定のみ変更できる） */
+  isPlatformAdmin: boolean
+}
+
+/**
+ * Admin システム設定取得のユースケース結果
+ */
+export type GetSystemSettingsResult =
+  | { success: true; data: GetSystemSettingsOutput }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Admin システム設定取得ユースケース
+ * 保存された設定（未設定の項目は既定値）・機能フラグ・最近の変更履歴を返す
+ * 組織の admin には、機能フラグの常に有効 / 無効にする組織を自組織だけに絞って返す
+ */
+export class GetSystemSettingsUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetSystemSettingsInput): Promise<GetSystemSettingsResult> {
+    try {
+      const currentUser = await this.repositories.users.findById(input.currentUserId)
+      if (!currentUser) {
+        return {
+          success: false,
+          error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' }
+        }
+      }
+
+      const isPlatformAdmin = await this.repositories.users.isPlatformAdmin(currentUser.id)
+      if (!isPlatformAdmin && currentUser.role !== 'admin') {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: 'システム管理者権限が必要です' }
+        }
+      }
+
+      const [system, notifications, featureFlags, auditLogs] = await Promise.all([
+        this.repositories.systemSettings.findByKey('system'),
+        this.repositories.systemSettings.findByKey('notifications'),
+        this.repositories.featureFlags.findAll(),
+        this.repositories.settingsAuditLogs.findRecent(AUDIT_LOG_LIMIT)
+      ])
+
+      return {
+        success: true,
+        data: {
+          system: parseSystemConfig(system?.value),
+          notifications: parseNotificationSettings(notifications?.value),
+          featureFlags: featureFlags.map(flag =>
+            toAdminFeatureFlag(flag, isPlatformAdmin ? undefined : currentUser.organization_id)
+          ),
+          auditLogs: auditLogs.map(log => ({
+            id: log.id,
+            targetType: log.target_type as AdminSettingsAuditLog['targetType'],
+            targetKey: log.target_key,
+            before: log.before,
+            after: log.after,
+            changedBy: log.changed_by,
+            changedByEmail: log.changed_by_user?.email ?? null,
+            createdAt: log.created_at
+          })),
+          isPlatformAdmin
+        }
+      }
+    } catch (error) {
+      console.error('Get system settings usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
+
+/**
+ * 機能フラグを画面表示用の形に変換する
+ * visibleOrganizationId を指定した場合は、常に有効 / 無効にする組織をその組織だけに絞る（他の組織を見せない）
+ */
+export function toAdminFeatureFlag(flag: FeatureFlag, visibleOrganizationId?: number | null): AdminFeatureFlag {
+  const visible = (ids: number[]) =>
+    visibleOrganizationId === undefined ? ids : ids.filter(id => id === visibleOrganizationId)
+
+  return {
+    key: flag.key,
+    name: flag.name,
+    description: flag.description,
+    category: flag.category as FeatureFlagCategory,
+    enabled: flag.enabled,
+    rolloutPercentage: flag.rollout_percentage,
+    enabledOrganizationIds: visible(flag.enabled_organization_ids),
+    disabledOrganizationIds: visible(flag.disabled_organization_ids),
+    updatedAt: flag.updated_at
+  }
+}
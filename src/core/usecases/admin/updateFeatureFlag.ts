@@ -0,0 +1,163 @@
+import { isDeepStrictEqual } from 'node:util'
+
+import { FeatureFlag, FeatureFlagUpdate, RepositoryContainer } from '@/core/ports'
+import { invalidateSystemSettingsCache } from '@/lib/system-settings'
+
+import { AdminFeatureFlag, toAdminFeatureFlag } from './getSystemSettings'
+
+/**
+ * Admin 機能フラグ更新のユースケース入力（指定した項目のみ更新する）
+ */
+export interface UpdateFeatureFlagInput {
+  currentUserId: string
+  key: string
+  enabled?: boolean
+  rolloutPercentage?: number
+  enabledOrganizationIds?: number[]
+  disabledOrganizationIds?: number[]
+}
+
+/**
+ * Admin 機能フラグ更新のユースケース結果
+ */
+export type UpdateFeatureFlagResult =
+  | { success: true; data: { featureFlag: AdminFeatureFlag } }
+  | { success: false; error: { code: string; message: string } }
+
+/** 変更履歴に記録するフラグの評価条件 */
+const AUDITED_FIELDS = [
+  'enabled',
+  'rollout_percentage',
+  'enabled_organization_ids',
+  'disabled_organization_ids'
+] as const
+
+/**
+ * Admin 機能フラグ更新ユースケース
+ * フラグの有効・無効、展開率、常に有効 / 無効にする組織を更新し、変更前後の評価条件を変更履歴に記録する
+ * フラグ全体の設定はプラットフォーム管理者のみ変更できる。組織の admin は自組織を常に有効 / 無効にする指定だけを変更できる
+ * （常に有効 / 無効にする組織には自組織のIDだけを指定する。他の組織の指定はそのまま残す）
+ */
+export class UpdateFeatureFlagUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: UpdateFeatureFlagInput): Promise<UpdateFeatureFlagResult> {
+    try {
+      const currentUser = await this.repositories.users.findById(input.currentUserId)
+      if (!currentUser) {
+        return {
+          success: false,
+          error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' }
+        }
+      }
+
+      const isPlatformAdmin = await this.repositories.users.isPlatformAdmin(currentUser.id)
+      const organizationId = currentUser.organization_id
+      if (!isPlatformAdmin && (currentUser.role !== 'admin' || organizationId === null)) {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: 'システム管理者権限が必要です' }
+        }
+      }
+
+      const flag = await this.repositories.featureFlags.findByKey(input.key)
+      if (!flag) {
+        return {
+          success: false,
+          error: { code: 'NOT_FOUND', message: '機能フラグが見つかりません' }
+        }
+      }
+
+      if (!isPlatformAdmin) {
+        const requestedOrganizationIds = [
+          ...(input.enabledOrganizationIds ?? []),
+          ...(input.disabledOrganizationIds ?? [])
+        ]
+        const changesPlatformWide =
+          (input.enabled !== undefined && input.enabled !== flag.enabled)
+          || (input.rolloutPercentage !== undefined && input.rolloutPercentage !== flag.rollout_percentage)
+          || requestedOrganizationIds.some(id => id !== organizationId)
+        if (changesPlatformWide) {
+          return {
+            success: false,
+            error: {
+              code: 'AUTHORIZATION_ERROR',
+              message: 'フラグ全体の設定と他の組織の指定はプラットフォーム管理者のみ変更できます'
+            }
+          }
+        }
+      }
+
+      const enabledOrganizationIds = isPlatformAdmin || organizationId === null
+        ? unique(input.enabledOrganizationIds ?? flag.enabled_organization_ids)
+        : withOrganizationOverride(flag.enabled_organization_ids, organizationId, input.enabledOrganizationIds)
+      const disabledOrganizationIds = isPlatformAdmin || organizationId === null
+        ? unique(input.disabledOrganizationIds ?? flag.disabled_organization_ids)
+        : withOrganizationOverride(flag.disabled_organization_ids, organizationId, input.disabledOrganizationIds)
+      if (enabledOrganizationIds.some(id => disabledOrganizationIds.includes(id))) {
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: '同じ組織を常に有効と常に無効の両方に指定することはできません' }
+        }
+      }
+
+      const changes: FeatureFlagUpdate = {
+        enabled: input.enabled ?? flag.enabled,
+        rollout_percentage: input.rolloutPercentage ?? flag.rollout_percentage,
+        enabled_organization_ids: enabledOrganizationIds,
+        disabled_organization_ids: disabledOrganizationIds,
+        updated_by: input.currentUserId
+      }
+
+      const updated = await this.repositories.featureFlags.update(flag.id, changes)
+      if (!updated) {
+        return {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: '機能フラグの更新に失敗しました' }
+        }
+      }
+
+      const before = pickAuditedFields(flag)
+      const after = pickAuditedFields(updated)
+      if (!isDeepStrictEqual(before, after)) {
+        await this.repositories.settingsAuditLogs.create({
+          target_type: 'feature_flag',
+          target_key: flag.key,
+          before,
+          after,
+          changed_by: input.currentUserId
+        })
+      }
+
+      invalidateSystemSettingsCache()
+
+      return {
+        success: true,
+        data: { featureFlag: toAdminFeatureFlag(updated, isPlatformAdmin ? undefined : organizationId) }
+      }
+    } catch (error) {
+      console.error('Update feature flag usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
+
+function pickAuditedFields(flag: FeatureFlag) {
+  return Object.fromEntries(AUDITED_FIELDS.map(field => [field, flag[field]]))
+}
+
+/**
+ * 組織の指定のうち、指定した組織の有無だけを requested に合わせる（requested が未指定なら変更しない）
+ */
+function withOrganizationOverride(ids: number[], organizationId: number, requested: number[] | undefined): number[] {
+  if (requested === undefined) return unique(ids)
+  const others = ids.filter(id => id !== organizationId)
+  return unique(requested.includes(organizationId) ? [...others, organizationId] : others)
+}
+
+function unique(ids: number[]): number[] {
+  return [...new Set(ids)].sort((a, b) => a - b)
+}
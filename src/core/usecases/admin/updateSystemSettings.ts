@@ -0,0 +1,108 @@
+import { isDeepStrictEqual } from 'node:util'
+
+import { NotificationSettings, SystemConfig } from '@/core/dtos/system-settings'
+import { RepositoryContainer, SystemSettingKey } from '@/core/ports'
+import {
+  invalidateSystemSettingsCache,
+  parseNotificationSettings,
+  parseSystemConfig
+} from '@/lib/system-settings'
+import { Json } from '@/types/database.types'
+
+/**
+ * Admin システム設定更新のユースケース入力（指定した区分のみ更新する）
+ */
+export interface UpdateSystemSettingsInput {
+  currentUserId: string
+  system?: SystemConfig
+  notifications?: NotificationSettings
+}
+
+/**
+ * Admin システム設定更新のユースケース出力
+ */
+export interface UpdateSystemSettingsOutput {
+  system: SystemConfig
+  notifications: NotificationSettings
+  /** 値が変わり変更履歴に記録した区分 */
+  changedKeys: SystemSettingKey[]
+}
+
+/**
+ * Admin システム設定更新のユースケース結果
+ */
+export type UpdateSystemSettingsResult =
+  | { success: true; data: UpdateSystemSettingsOutput }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Admin システム設定更新ユースケース
+ * 区分ごとに保存し、値が変わった区分は変更前後の値を変更履歴（settings_audit_logs）に記録する
+ * プラットフォーム管理者（platform_admins）のみ実行できる
+ */
+export class UpdateSystemSettingsUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: UpdateSystemSettingsInput): Promise<UpdateSystemSettingsResult> {
+    try {
+      const currentUser = await this.repositories.users.findById(input.currentUserId)
+      if (!currentUser) {
+        return {
+          success: false,
+          error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' }
+        }
+      }
+
+      // 全組織に影響するためプラットフォーム管理者に限定する（組織の admin は不可）
+      if (!await this.repositories.users.isPlatformAdmin(currentUser.id)) {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: 'プラットフォーム管理者権限が必要です' }
+        }
+      }
+
+      const [storedSystem, storedNotifications] = await Promise.all([
+        this.repositories.systemSettings.findByKey('system'),
+        this.repositories.systemSettings.findByKey('notifications')
+      ])
+      const current = {
+        system: parseSystemConfig(storedSystem?.value),
+        notifications: parseNotificationSettings(storedNotifications?.value)
+      }
+      const next = {
+        system: input.system ?? current.system,
+        notifications: input.notifications ?? current.notifications
+      }
+
+      const changedKeys = (['system', 'notifications'] as const).filter(key =>
+        input[key] !== undefined && !isDeepStrictEqual(current[key], next[key])
+      )
+
+      for (const key of changedKeys) {
+        await this.repositories.systemSettings.upsertByKey(key, next[key] as unknown as Json, input.currentUserId)
+        await this.repositories.settingsAuditLogs.create({
+          target_type: 'system_setting',
+          target_key: key,
+          before: current[key] as unknown as Json,
+          after: next[key] as unknown as Json,
+          changed_by: input.currentUserId
+        })
+      }
+
+      if (changedKeys.length > 0) {
+        invalidateSystemSettingsCache()
+      }
+
+      return {
+        success: true,
+        data: { ...next, changedKeys }
+      }
+    } catch (error) {
+      console.error('Update system settings usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { API_KEY_CONFIG } from '@/constants/apiKeys'
+import { RepositoryContainer } from '@/core/ports'
+import { generateApiKey } from '@/lib/api-keys'
+
+import { ApiKeyView, resolveApiKeyAdminOrganization, toApiKeyView } from './getApiKeys'
+
+/**
+ * APIキー作成のユースケース入力
+ */
+export interface CreateApiKeyInput {
+  currentUserId: string
+  name: string
+  scopes: string[]
+}
+
+/**
+ * APIキー作成のユースケース結果
+ * 平文のキーは作成時のみ返す（DBにはハッシュのみ保存）
+ */
+export type CreateApiKeyResult =
+  | { success: true; data: { apiKey: ApiKeyView; key: string } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * APIキー作成ユースケース
+ * キーは作成した管理者として実行される
+ */
+export class CreateApiKeyUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: CreateApiKeyInput): Promise<CreateApiKeyResult> {
+    try {
+      const access = await resolveApiKeyAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const activeCount = await this.repositories.apiKeys.countActiveByOrganizationId(access.organizationId)
+      if (activeCount >= API_KEY_CONFIG.MAX_KEYS_PER_ORGANIZATION) {
+        return {
+          success: false,
+          error: {
+            code: 'CONFLICT_ERROR',
+            message: `有効なAPIキーは${API_KEY_CONFIG.MAX_KEYS_PER_ORGANIZATION}件までです`
+          }
+        }
+      }
+
+      const generated = generateApiKey()
+      const apiKey = await this.repositories.apiKeys.create({
+        organization_id: access.organizationId,
+        name: input.name,
+        key_prefix: generated.prefix,
+        key_hash: generated.hash,
+        scopes: [...new Set(input.scopes)],
+        created_by: input.currentUserId
+      })
+
+      return {
+        success: true,
+        data: { apiKey: toApiKeyView(apiKey), key: generated.key }
+      }
+    } catch (error) {
+      console.error('Create API key usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { ApiKey, RepositoryContainer } from '@/core/ports'
+
+/**
+ * APIキー一覧取得のユースケース入力
+ */
+export interface GetApiKeysInput {
+  currentUserId: string
+}
+
+/**
+ * 画面・APIに返すAPIキー情報（ハッシュは返さない）
+ */
+export interface ApiKeyView {
+  id: number
+  name: string
+  keyPrefix: string
+  scopes: string[]
+  createdBy: string
+  createdAt: string | null
+  lastUsedAt: string | null
+  revokedAt: string | null
+}
+
+/**
+ * APIキー一覧取得のユースケース結果
+ */
+export type GetApiKeysResult =
+  | { success: true; data: { apiKeys: ApiKeyView[] } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * APIキーのレコードを表示用に変換
+ */
+export function toApiKeyView(apiKey: ApiKey): ApiKeyView {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.key_prefix,
+    scopes: apiKey.scopes,
+    createdBy: apiKey.created_by,
+    createdAt: apiKey.created_at,
+    lastUsedAt: apiKey.last_used_at,
+    revokedAt: apiKey.revoked_at
+  }
+}
+
+/**
+ * 組織管理者であることを確認し、組織IDを返す
+ */
+export async function resolveApiKeyAdminOrganization(
+  repositories: RepositoryContainer,
+  currentUserId: string
+): Promise<{ organizationId: number } | { error: { code: string; message: string } }> {
+  const currentUser = await repositories.users.findById(currentUserId)
+  if (!currentUser) {
+    return { error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' } }
+  }
+  if (!currentUser.organization_id) {
+    return { error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが組織に所属していません' } }
+  }
+  if (currentUser.role !== 'admin') {
+    return { error: { code: 'AUTHORIZATION_ERROR', message: '管理者権限が必要です' } }
+  }
+  return { organizationId: currentUser.organization_id }
+}
+
+/**
+ * APIキー一覧取得ユースケース
+ */
+export class GetApiKeysUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetApiKeysInput): Promise<GetApiKeysResult> {
+    try {
+      const access = await resolveApiKeyAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const apiKeys = await this.repositories.apiKeys.findByOrganizationId(access.organizationId, {
+        orderBy: [{ field: 'created_at', direction: 'desc' }]
+      })
+
+      return {
+        success: true,
+        data: { apiKeys: apiKeys.map(toApiKeyView) }
+      }
+    } catch (error) {
+      console.error('Get API keys usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
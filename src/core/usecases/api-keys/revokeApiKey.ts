@@ -0,0 +1,66 @@
+import { RepositoryContainer } from '@/core/ports'
+
+import { ApiKeyView, resolveApiKeyAdminOrganization, toApiKeyView } from './getApiKeys'
+
+/**
+ * APIキー無効化のユースケース入力
+ */
+export interface RevokeApiKeyInput {
+  currentUserId: string
+  apiKeyId: number
+}
+
+/**
+ * APIキー無効化のユースケース結果
+ */
+export type RevokeApiKeyResult =
+  | { success: true; data: { apiKey: ApiKeyView } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * APIキー無効化ユースケース
+ * レコードは監査のため残し、`revoked_at` を記録する
+ */
+export class RevokeApiKeyUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: RevokeApiKeyInput): Promise<RevokeApiKeyResult> {
+    try {
+      const access = await resolveApiKeyAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const apiKey = await this.repositories.apiKeys.findByIdAndOrganization(input.apiKeyId, access.organizationId)
+      if (!apiKey) {
+        return {
+          success: false,
+          error: { code: 'NOT_FOUND_ERROR', message: 'APIキーが見つかりません' }
+        }
+      }
+
+      if (apiKey.revoked_at) {
+        return { success: true, data: { apiKey: toApiKeyView(apiKey) } }
+      }
+
+      const revoked = await this.repositories.apiKeys.update(apiKey.id, { revoked_at: new Date().toISOString() })
+      if (!revoked) {
+        return {
+          success: false,
+          error: { code: 'REPOSITORY_ERROR', message: 'APIキーの無効化に失敗しました' }
+        }
+      }
+
+      return {
+        success: true,
+        data: { apiKey: toApiKeyView(revoked) }
+      }
+    } catch (error) {
+      console.error('Revoke API key usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
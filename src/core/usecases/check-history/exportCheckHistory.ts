@@ -1,3 +1,4 @@
+import { LegalBasisSummary, summarizeByLegalBasis } from '@/constants/regulatory'
 import { AuthenticationError, ValidationError, AuthorizationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
 
@@ -9,7 +10,7 @@ export interface ExportCheckHistoryInput {
   format: 'csv' | 'json' | 'excel'
   search?: string
   status?: 'pending' | 'processing' | 'completed' | 'failed'
-  inputType?: 'text' | 'image'
+  inputType?: 'text' | 'image' | 'pdf' | 'url'
   dateFilter?: 'today' | 'week' | 'month'
   userId?: string
   startDate?: string
@@ -28,6 +29,8 @@ export interface ExportData {
   originalText: string
   modifiedText: string
   violationCount: number
+  /** 法的根拠別の違反件数 */
+  legalBasis: LegalBasisSummary[]
   userEmail: string
   imageUrl: string
   ocrStatus: string
@@ -41,6 +44,8 @@ export interface ExportCheckHistoryOutput {
   format: string
   userRole: string
   totalRecords: number
+  /** エクスポート対象全体の法的根拠別集計 */
+  legalBasisSummary: LegalBasisSummary[]
 }
 
 /**
@@ -106,8 +111,8 @@ export class ExportCheckHistoryUseCase {
         ? input.status as 'pending' | 'processing' | 'completed' | 'failed' 
         : undefined
 
-      const searchInputType = input.inputType && ['text', 'image'].includes(input.inputType)
-        ? input.inputType as 'text' | 'image'
+      const searchInputType = input.inputType && ['text', 'image', 'pdf', 'url'].includes(input.inputType)
+        ? input.inputType as 'text' | 'image' | 'pdf' | 'url'
         : undefined
 
       const searchDateFilter = input.dateFilter && ['today', 'week', 'month'].includes(input.dateFilter)
@@ -137,7 +142,7 @@ export class ExportCheckHistoryUseCase {
 
       // データのフォーマット
       const formattedData: ExportData[] = checks.map(check => {
-        const displayText = check.input_type === 'image' && check.extracted_text 
+        const displayText = check.input_type !== 'text' && check.extracted_text 
           ? check.extracted_text 
           : check.original_text
 
@@ -146,10 +151,11 @@ export class ExportCheckHistoryUseCase {
           createdAt: check.created_at,
           completedAt: check.completed_at,
           status: check.status,
-          inputType: check.input_type === 'image' ? '画像' : 'テキスト',
+          inputType: check.input_type === 'image' ? '画像' : check.input_type === 'pdf' ? 'PDF' : check.input_type === 'url' ? 'URL' : 'テキスト',
           originalText: displayText ?? '',
           modifiedText: check.modified_text ?? '',
           violationCount: check.violations?.length ?? 0,
+          legalBasis: summarizeByLegalBasis(check.violations ?? []),
           userEmail: currentUser.role === 'admin' ? (check.users?.email ?? '') : '',
           imageUrl: check.image_url ?? '',
           ocrStatus: check.ocr_status ?? ''
@@ -162,7 +168,8 @@ export class ExportCheckHistoryUseCase {
           data: formattedData,
           format: input.format,
           userRole: currentUser.role ?? 'user',
-          totalRecords: formattedData.length
+          totalRecords: formattedData.length,
+          legalBasisSummary: summarizeByLegalBasis(checks.flatMap(check => check.violations ?? []))
         }
       }
 
@@ -199,7 +206,7 @@ export class ExportCheckHistoryUseCase {
       return 'ステータスが無効です'
     }
 
-    if (input.inputType && !['text', 'image'].includes(input.inputType)) {
+    if (input.inputType && !['text', 'image', 'pdf', 'url'].includes(input.inputType)) {
       return '入力タイプが無効です'
     }
 
@@ -14,7 +14,7 @@ export interface GetCheckHistoryInput {
   dateTo?: string
   userId?: string
   organizationId?: number
-  inputType?: 'text' | 'image'
+  inputType?: 'text' | 'image' | 'pdf' | 'url'
   dateFilter?: 'week' | 'month' | 'today'
 }
 
@@ -27,7 +27,9 @@ export interface GetCheckHistoryOutput {
     originalText: string
     modifiedText: string | null
     status: 'pending' | 'processing' | 'completed' | 'failed'
-    inputType: 'text' | 'image'
+    inputType: 'text' | 'image' | 'pdf' | 'url'
+    /** URLチェックの対象ページのURL */
+    sourceUrl: string | null
     violationCount: number
     processingTime: number | null
     createdAt: string
@@ -139,7 +141,8 @@ export class GetCheckHistoryUseCase {
           originalText: check.original_text ?? '',
           modifiedText: check.modified_text,
           status: check.status as 'pending' | 'processing' | 'completed' | 'failed',
-          inputType: check.input_type as 'text' | 'image',
+          inputType: check.input_type as 'text' | 'image' | 'pdf' | 'url',
+          sourceUrl: check.source_url ?? null,
           violationCount: Array.isArray(check.violations) ? check.violations.length : 0,
           processingTime: null,
           createdAt: check.created_at ?? '',
@@ -1,3 +1,4 @@
+import { LegalBasisSummary, summarizeByLegalBasis } from '@/constants/regulatory'
 import { AuthenticationError, ValidationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
 
@@ -33,6 +34,8 @@ export interface GetCheckHistoryStatsOutput {
     count: number
     percentage: number
   }>
+  /** 法的根拠別の違反件数 */
+  legalBasisBreakdown: LegalBasisSummary[]
   processingTimeStats: {
     average: number
     median: number
@@ -108,11 +111,13 @@ export class GetCheckHistoryStatsUseCase {
         statusBreakdown,
         violationTrends,
         topViolationTypes,
+        legalBasisBreakdown,
         processingTimeStats
       ] = await Promise.all([
         this.getStatusBreakdown(checks),
         this.getViolationTrends(targetOrganizationId, period),
         this.getTopViolationTypes(targetOrganizationId),
+        this.getLegalBasisBreakdown(targetOrganizationId),
         this.getProcessingTimeStats(targetOrganizationId)
       ])
 
@@ -129,6 +134,7 @@ export class GetCheckHistoryStatsUseCase {
           statusBreakdown,
           violationTrends,
           topViolationTypes,
+          legalBasisBreakdown,
           processingTimeStats
         }
       }
@@ -287,6 +293,19 @@ export class GetCheckHistoryStatsUseCase {
     }
   }
 
+  /**
+   * 法的根拠別の違反件数を取得
+   */
+  private async getLegalBasisBreakdown(organizationId: number): Promise<LegalBasisSummary[]> {
+    try {
+      const violations = await this.repositories.violations.findLegalBasisByOrganizationId(organizationId)
+      return summarizeByLegalBasis(violations)
+    } catch (error) {
+      console.warn('Failed to get legal basis breakdown:', error)
+      return []
+    }
+  }
+
   /**
    * 処理時間統計を取得
    */
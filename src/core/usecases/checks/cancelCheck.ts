@@ -1,4 +1,5 @@
 import { RepositoryContainer } from '@/core/ports'
+import { publishDomainEvent } from '@/lib/domain-events'
 
 export interface CancelCheckInput {
   checkId: number
@@ -78,10 +79,11 @@ export class CancelCheckUseCase {
       }
 
       // チェックをキャンセル（failedステータスに更新）
+      const cancelledAt = new Date().toISOString()
       const updatedCheck = await this.repositories.checks.update(checkId, {
         status: 'failed',
         error_message: 'ユーザーによってキャンセルされました',
-        completed_at: new Date().toISOString()
+        completed_at: cancelledAt
       })
 
       if (!updatedCheck) {
@@ -92,6 +94,17 @@ export class CancelCheckUseCase {
         }
       }
 
+      publishDomainEvent({
+        eventType: 'CheckCancelled',
+        aggregateId: String(checkId),
+        occurredAt: new Date(cancelledAt),
+        data: {
+          checkId,
+          organizationId: checkData.organization_id,
+          cancelledAt
+        }
+      })
+
       return {
         success: true,
         data: {
@@ -1,6 +1,11 @@
+import { isProductCategory } from '@/constants/productCategories'
 import { AuthenticationError, ValidationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
+import { publishDomainEvent } from '@/lib/domain-events'
+import { isAllowedOcrImageUrl, isAllowedPdfUrl } from '@/lib/ocr/image-source'
 import { queueManager } from '@/lib/queue-manager'
+import { isFetchableUrl } from '@/lib/web-page/fetch'
+import { ProductCategory } from '@/types/api'
 
 /**
  * チェック作成のユースケース入力
@@ -9,8 +14,14 @@ export interface CreateCheckInput {
   userId: string
   organizationId: number
   originalText: string
-  inputType: 'text' | 'image'
+  inputType: 'text' | 'image' | 'pdf' | 'url'
+  /** 画像・PDFチェックのファイルURL（inputType が image / pdf の場合は必須） */
+  imageUrl?: string
+  /** URLチェックの対象ページのURL（inputType が url の場合は必須） */
+  sourceUrl?: string
   fileName?: string
+  /** 製品カテゴリ（未指定の場合は全カテゴリ共通の辞書項目のみで判定） */
+  productCategory?: ProductCategory | null
 }
 
 /**
@@ -31,7 +42,7 @@ export type CreateCheckResult =
 
 /**
  * チェック作成ユースケース
- * テキストまたは画像の薬機法チェックを作成し、処理キューに追加する
+ * テキスト・画像・PDF・URL（ランディングページ）の薬機法チェックを作成し、処理キューに追加する
  */
 export class CreateCheckUseCase {
   constructor(private repositories: RepositoryContainer) {}
@@ -69,6 +80,9 @@ export class CreateCheckUseCase {
         organization_id: input.organizationId,
         original_text: input.originalText,
         input_type: input.inputType,
+        image_url: input.inputType === 'image' || input.inputType === 'pdf' ? input.imageUrl : null,
+        source_url: input.inputType === 'url' ? input.sourceUrl : null,
+        product_category: input.productCategory ?? null,
         status: 'pending',
         created_at: new Date().toISOString()
       })
@@ -80,6 +94,19 @@ export class CreateCheckUseCase {
         }
       }
 
+      publishDomainEvent({
+        eventType: 'CheckCreated',
+        aggregateId: String(newCheck.id),
+        occurredAt: new Date(),
+        data: {
+          checkId: newCheck.id,
+          userId: input.userId,
+          organizationId: input.organizationId,
+          inputText: input.originalText,
+          createdAt: newCheck.created_at ?? new Date().toISOString()
+        }
+      })
+
       // キューに処理を追加
       try {
         await queueManager.addToQueue(
@@ -87,7 +114,10 @@ export class CreateCheckUseCase {
           input.originalText,
           input.organizationId,
           'normal',
-          input.inputType
+          input.inputType,
+          input.inputType === 'image' || input.inputType === 'pdf' ? input.imageUrl : undefined,
+          input.productCategory ?? null,
+          input.inputType === 'url' ? input.sourceUrl : undefined
         )
       } catch {
         // キューエラーの場合、チェックレコードは作成済みなので状態を更新
@@ -140,15 +170,27 @@ export class CreateCheckUseCase {
       return '組織IDが無効です'
     }
 
-    if (!input.originalText || typeof input.originalText !== 'string') {
+    if (input.inputType === 'image') {
+      if (!input.imageUrl || !isAllowedOcrImageUrl(input.imageUrl)) {
+        return '画像URLが無効です'
+      }
+    } else if (input.inputType === 'pdf') {
+      if (!input.imageUrl || !isAllowedPdfUrl(input.imageUrl)) {
+        return 'PDFのURLが無効です'
+      }
+    } else if (input.inputType === 'url') {
+      if (!input.sourceUrl || !isFetchableUrl(input.sourceUrl)) {
+        return 'ページのURLが無効です（http または https のURLを指定してください）'
+      }
+    } else if (!input.originalText || typeof input.originalText !== 'string') {
       return 'テキストが無効です'
     }
 
-    if (input.originalText.length > 10000) {
-      return 'テキストが長すぎます（最大10,000文字）'
+    if (input.originalText.length > 50000) {
+      return 'テキストが長すぎます（最大50,000文字）'
     }
 
-    if (!['text', 'image'].includes(input.inputType)) {
+    if (!['text', 'image', 'pdf', 'url'].includes(input.inputType)) {
       return '入力タイプが無効です'
     }
 
@@ -156,6 +198,10 @@ export class CreateCheckUseCase {
       return 'ファイル名が無効です'
     }
 
+    if (input.productCategory && !isProductCategory(input.productCategory)) {
+      return '製品カテゴリが無効です'
+    }
+
     return null
   }
 }
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { CHECK_BATCH_CONFIG, CheckBatchSource } from '@/constants/batch'
+import { isProductCategory } from '@/constants/productCategories'
+import { RepositoryContainer } from '@/core/ports'
+import { publishDomainEvent } from '@/lib/domain-events'
+import { queueManager } from '@/lib/queue-manager'
+import { ProductCategory } from '@/types/api'
+
+/**
+ * 一括チェック作成のユースケース入力
+ */
+export interface CreateCheckBatchInput {
+  userId: string
+  organizationId: number
+  items: { text: string; label?: string }[]
+  name?: string
+  source: CheckBatchSource
+  /** 製品カテゴリ（バッチ内の全件に適用） */
+  productCategory?: ProductCategory | null
+}
+
+/**
+ * 一括チェック作成のユースケース出力
+ */
+export interface CreateCheckBatchOutput {
+  batchId: number
+  totalCount: number
+  checkIds: number[]
+  message: string
+}
+
+/**
+ * 一括チェック作成のユースケース結果
+ */
+export type CreateCheckBatchResult =
+  | { success: true; data: CreateCheckBatchOutput }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * 一括チェック作成ユースケース
+ * バッチレコードと子チェックをまとめて作成し、子チェックを低優先度で処理キューに一括追加する
+ * （単発チェックの応答性を優先するため）
+ */
+export class CreateCheckBatchUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: CreateCheckBatchInput): Promise<CreateCheckBatchResult> {
+    try {
+      // 入力バリデーション
+      const validationError = this.validateInput(input)
+      if (validationError) {
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: validationError }
+        }
+      }
+
+      // ユーザー存在確認と権限チェック
+      const user = await this.repositories.users.findById(input.userId)
+      if (!user) {
+        return {
+          success: false,
+          error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' }
+        }
+      }
+
+      if (user.organization_id !== input.organizationId) {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: '組織へのアクセス権限がありません' }
+        }
+      }
+
+      const productCategory = input.productCategory ?? null
+      const batch = await this.repositories.checkBatches.create({
+        organization_id: input.organizationId,
+        user_id: input.userId,
+        name: input.name?.trim() ? input.name.trim() : null,
+        source: input.source,
+        product_category: productCategory,
+        total_count: input.items.length
+      })
+
+      const createdAt = new Date().toISOString()
+      const checks = await this.repositories.checks.bulkCreateForBatch(
+        batch.id,
+        input.items.map(item => ({
+          user_id: input.userId,
+          organization_id: input.organizationId,
+          original_text: item.text,
+          input_type: 'text',
+          product_category: productCategory,
+          batch_item_label: item.label ?? null,
+          status: 'pending',
+          created_at: createdAt
+        }))
+      )
+
+      // 子チェックをまとめてキューに追加（失敗した場合は全件を failed にし、バッチ本体は削除する）
+      try {
+        await queueManager.addManyToQueue(
+          checks.map(check => ({
+            checkId: check.id,
+            text: check.original_text,
+            organizationId: input.organizationId,
+            productCategory
+          })),
+          'low'
+        )
+      } catch (error) {
+        console.error(`Failed to enqueue checks of batch ${batch.id}:`, error)
+        for (const check of checks) {
+          await this.repositories.checks.update(check.id, {
+            status: 'failed',
+            error_message: 'キュー追加に失敗しました'
+          })
+        }
+        // 受け付けなかったバッチが一覧に残らないようにする（子チェックの batch_id は NULL になる）
+        await this.repositories.checkBatches.delete(batch.id)
+        return {
+          success: false,
+          error: { code: 'QUEUE_ERROR', message: '処理キューへの追加に失敗しました' }
+        }
+      }
+
+      // キューに追加できた子チェックの作成を通知
+      for (const check of checks) {
+        publishDomainEvent({
+          eventType: 'CheckCreated',
+          aggregateId: String(check.id),
+          occurredAt: new Date(),
+          data: {
+            checkId: check.id,
+            userId: input.userId,
+            organizationId: input.organizationId,
+            inputText: check.original_text,
+            batchId: batch.id,
+            createdAt: check.created_at ?? createdAt
+          }
+        })
+      }
+
+      return {
+        success: true,
+        data: {
+          batchId: batch.id,
+          totalCount: checks.length,
+          checkIds: checks.map(check => check.id),
+          message: `${checks.length}件をキューに追加しました`
+        }
+      }
+
+    } catch (error) {
+      console.error('Create check batch usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+
+  /**
+   * 入力値のバリデーション
+   */
+  private validateInput(input: CreateCheckBatchInput): string | null {
+    if (!input.userId || typeof input.userId !== 'string') {
+      return 'ユーザーIDが無効です'
+    }
+
+    if (!input.organizationId || typeof input.organizationId !== 'number') {
+      return '組織IDが無効です'
+    }
+
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      return 'チェック対象を1件以上指定してください'
+    }
+
+    if (input.items.length > CHECK_BATCH_CONFIG.MAX_ITEMS) {
+      return `一度にチェックできるのは${CHECK_BATCH_CONFIG.MAX_ITEMS}件までです`
+    }
+
+    if (input.items.some(item => !item.text || item.text.length > 50000)) {
+      return 'テキストが空、または長すぎる項目があります（最大50,000文字）'
+    }
+
+    if (input.productCategory && !isProductCategory(input.productCategory)) {
+      return '製品カテゴリが無効です'
+    }
+
+    return null
+  }
+}
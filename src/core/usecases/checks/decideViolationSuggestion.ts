@@ -0,0 +1,188 @@
+import { CheckProcessingService, SuggestionReplacement, TextRange } from '@/core/domain'
+import { RepositoryContainer } from '@/core/ports'
+import { Violation } from '@/core/ports/violations'
+
+export type SuggestionDecision = 'pending' | 'accepted' | 'rejected'
+
+export interface DecideViolationSuggestionInput {
+  checkId: number
+  violationId: number
+  currentUserId: string
+  decision: SuggestionDecision
+  /** 採用時の置換テキスト（未指定なら提案された置換案を使用） */
+  selectedText?: string
+}
+
+export type DecideViolationSuggestionResult = {
+  success: true
+  data: {
+    violation: {
+      id: number
+      decision: SuggestionDecision
+      selectedText: string | null
+      decidedAt: string | null
+    }
+    finalText: string
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+export class DecideViolationSuggestionUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: DecideViolationSuggestionInput): Promise<DecideViolationSuggestionResult> {
+    try {
+      const { checkId, violationId, currentUserId, decision } = input
+
+      // IDバリデーション
+      if (isNaN(checkId) || checkId <= 0 || isNaN(violationId) || violationId <= 0) {
+        return {
+          success: false,
+          error: '不正なIDです',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      // チェックデータを取得
+      const checkData = await this.repositories.checks.findById(checkId)
+      if (!checkData || checkData.deleted_at) {
+        return {
+          success: false,
+          error: 'チェックが見つかりません',
+          code: 'NOT_FOUND_ERROR'
+        }
+      }
+
+      // ユーザーの権限確認
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile) {
+        return {
+          success: false,
+          error: 'ユーザーが見つかりません',
+          code: 'AUTHENTICATION_ERROR'
+        }
+      }
+
+      // アクセス権限チェック
+      const hasAccess =
+        userProfile.role === 'admin' ||
+        (userProfile.role === 'user' && checkData.user_id === currentUserId)
+
+      const sameOrg = userProfile.organization_id === checkData.organization_id
+
+      if (!hasAccess || !sameOrg) {
+        return {
+          success: false,
+          error: 'この違反の置換案を採否する権限がありません',
+          code: 'AUTHORIZATION_ERROR'
+        }
+      }
+
+      if (checkData.status !== 'completed') {
+        return {
+          success: false,
+          error: `完了したチェックのみ採否を記録できます。現在のステータス: ${checkData.status}`,
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      // 違反データを取得
+      const violation = await this.repositories.violations.findById(violationId)
+      if (violation?.check_id !== checkId) {
+        return {
+          success: false,
+          error: '違反が見つかりません',
+          code: 'NOT_FOUND_ERROR'
+        }
+      }
+
+      // 採用時は置換テキストと置換位置が確定している必要がある
+      const selectedText = decision === 'accepted'
+        ? input.selectedText ?? violation.suggested_text
+        : null
+
+      if (decision === 'accepted') {
+        if (selectedText === null) {
+          return {
+            success: false,
+            error: '置換案がないため採用できません',
+            code: 'VALIDATION_ERROR'
+          }
+        }
+        if (violation.end_pos <= violation.start_pos) {
+          return {
+            success: false,
+            error: '違反箇所の位置が特定できていないため採用できません',
+            code: 'VALIDATION_ERROR'
+          }
+        }
+      }
+
+      const decidedAt = decision === 'pending' ? null : new Date().toISOString()
+      const updatedViolation = await this.repositories.violations.update(violationId, {
+        decision,
+        selected_text: selectedText,
+        decided_by: decision === 'pending' ? null : currentUserId,
+        decided_at: decidedAt
+      })
+
+      if (!updatedViolation) {
+        return {
+          success: false,
+          error: '採否の記録に失敗しました',
+          code: 'INTERNAL_ERROR'
+        }
+      }
+      // 採用済みの置換案を原文（画像・PDF・URLは抽出テキスト）に適用して最終テキストを再生成
+      // 採用済みの置換案を原文に適用して最終テキストを再生成
+      const baseText = checkData.input_type !== 'text' && checkData.extracted_text
+        ? checkData.extracted_text
+        : checkData.original_text
+      const violations = await this.repositories.violations.findByCheckId(checkId)
+      const finalText = CheckProcessingService.applySuggestionReplacements(
+        baseText,
+        this.toReplacements(violations)
+      )
+
+      await this.repositories.checks.update(checkId, { final_text: finalText })
+
+      return {
+        success: true,
+        data: {
+          violation: {
+            id: updatedViolation.id,
+            decision: updatedViolation.decision,
+            selectedText: updatedViolation.selected_text,
+            decidedAt: updatedViolation.decided_at
+          },
+          finalText
+        }
+      }
+
+    } catch (error) {
+      console.error('Decide violation suggestion usecase error:', error)
+      return {
+        success: false,
+        error: 'サーバーエラーが発生しました',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+
+  /**
+   * 採用済みの違反を置換指定に変換（位置が不正なものは除外）
+   */
+  private toReplacements(violations: Violation[]): SuggestionReplacement[] {
+    return violations.flatMap(v => {
+      if (v.decision !== 'accepted' || v.selected_text === null) return []
+      try {
+        return [{ range: TextRange.create(v.start_pos, v.end_pos), replacement: v.selected_text }]
+      } catch {
+        return []
+      }
+    })
+  }
+}
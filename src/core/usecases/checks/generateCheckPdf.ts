@@ -1,4 +1,5 @@
 import { RepositoryContainer } from '@/core/ports'
+import { RegulatoryCategoryCode, ViolationSeverity } from '@/types/api'
 
 export interface GenerateCheckPdfInput {
   checkId: number
@@ -14,7 +15,7 @@ export interface CheckWithDetails {
   completed_at: string | null
   user_id: string
   organization_id: number
-  input_type: 'text' | 'image' | null
+  input_type: 'text' | 'image' | 'pdf' | 'url' | null
   image_url: string | null
   extracted_text: string | null
   users?: { email?: string | null } | null
@@ -23,6 +24,8 @@ export interface CheckWithDetails {
     start_pos: number
     end_pos: number
     reason: string
+    regulatory_category?: RegulatoryCategoryCode | null
+    severity?: ViolationSeverity | null
     dictionaries?: { phrase?: string | null; category?: 'NG' | 'ALLOW' | null } | null
   }> | null
 }
@@ -0,0 +1,138 @@
+import { CheckBatch, CheckBatchItem, RepositoryContainer } from '@/core/ports'
+
+/**
+ * 一括チェック取得のユースケース入力
+ */
+export interface GetCheckBatchInput {
+  batchId: number
+  currentUserId: string
+  /** 子チェックの違反詳細を含める（結果エクスポート用） */
+  includeViolations?: boolean
+}
+
+/**
+ * 一括チェックの進捗集計
+ */
+export interface CheckBatchProgress {
+  total: number
+  pending: number
+  processing: number
+  completed: number
+  failed: number
+  /** completed + failed */
+  finished: number
+  /** 0-100 */
+  percentage: number
+  /** 違反が1件以上見つかった子チェック数 */
+  withViolations: number
+  isFinished: boolean
+}
+
+/**
+ * 一括チェック取得のユースケース出力
+ */
+export interface GetCheckBatchOutput {
+  batch: CheckBatch
+  progress: CheckBatchProgress
+  items: (CheckBatchItem & { violationCount: number })[]
+}
+
+/**
+ * 一括チェック取得のユースケース結果
+ */
+export type GetCheckBatchResult =
+  | { success: true; data: GetCheckBatchOutput }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * 子チェックのステータスから進捗を集計する
+ */
+export function summarizeCheckBatchProgress(batch: CheckBatch, items: CheckBatchItem[]): CheckBatchProgress {
+  const counts = { pending: 0, processing: 0, completed: 0, failed: 0 }
+  let withViolations = 0
+  for (const item of items) {
+    const status = item.status ?? 'pending'
+    if (status in counts) {
+      counts[status as keyof typeof counts]++
+    }
+    if ((item.violations?.length ?? 0) > 0) {
+      withViolations++
+    }
+  }
+
+  // 子チェックが削除された場合でも作成時の件数を母数にする
+  const total = Math.max(batch.total_count, items.length)
+  const finished = counts.completed + counts.failed
+  return {
+    total,
+    ...counts,
+    finished,
+    percentage: total > 0 ? Math.round((finished / total) * 100) : 0,
+    withViolations,
+    isFinished: counts.pending === 0 && counts.processing === 0
+  }
+}
+
+/**
+ * 一括チェック取得ユースケース
+ * バッチ情報・進捗・子チェック一覧を返す（作成者本人または組織管理者のみ）
+ */
+export class GetCheckBatchUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetCheckBatchInput): Promise<GetCheckBatchResult> {
+    try {
+      if (isNaN(input.batchId) || input.batchId <= 0) {
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'バッチIDが無効です' }
+        }
+      }
+
+      const user = await this.repositories.users.findById(input.currentUserId)
+      if (!user?.organization_id) {
+        return {
+          success: false,
+          error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つからないか、組織に所属していません' }
+        }
+      }
+
+      const batch = await this.repositories.checkBatches.findByIdAndOrganization(input.batchId, user.organization_id)
+      if (!batch) {
+        return {
+          success: false,
+          error: { code: 'NOT_FOUND_ERROR', message: 'バッチが見つかりません' }
+        }
+      }
+
+      if (user.role !== 'admin' && batch.user_id !== user.id) {
+        return {
+          success: false,
+          error: { code: 'AUTHORIZATION_ERROR', message: 'このバッチへのアクセス権限がありません' }
+        }
+      }
+
+      const items = await this.repositories.checkBatches.findItems(batch.id)
+      const progress = summarizeCheckBatchProgress(batch, items)
+
+      return {
+        success: true,
+        data: {
+          batch,
+          progress,
+          items: items.map(item => ({
+            ...item,
+            violations: input.includeViolations ? item.violations : undefined,
+            violationCount: item.violations?.length ?? 0
+          }))
+        }
+      }
+    } catch (error) {
+      console.error('Get check batch usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
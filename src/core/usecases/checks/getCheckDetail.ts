@@ -1,4 +1,5 @@
-import { RepositoryContainer } from '@/core/ports'
+import { RepositoryContainer, ViolationFeedback } from '@/core/ports'
+import { PdfPageRange, ProductCategory, RegulatoryCategoryCode, ViolationSeverity, WebPageSnapshot } from '@/types/api'
 
 export interface GetCheckDetailInput {
   checkId: number
@@ -12,12 +13,34 @@ export type GetCheckDetailResult = {
       id: number
       originalText: string
       modifiedText: string | null
+      finalText: string | null
       status: 'pending' | 'processing' | 'completed' | 'failed' | null
-      inputType: 'text' | 'image' | null
+      inputType: 'text' | 'image' | 'pdf' | 'url' | null
+      productCategory: ProductCategory | null
       imageUrl: string | null
       extractedText: string | null
       ocrStatus: string | null
       ocrMetadata: Record<string, unknown> | null
+      pdfPages: PdfPageRange[] | null
+      sourceUrl: string | null
+      pageSnapshot: WebPageSnapshot | null
+      /** 使用したAIプロバイダー・モデル（複数の場合はカンマ区切り） */
+      aiProvider: string | null
+      aiModel: string | null
+      /** 適用した辞書の版 */
+      dictionaryVersion: string | null
+      /** チェック時点の辞書スナップショットID */
+      dictionarySnapshotId: number | null
+      /** 再実行元のチェックID（再実行で作成したチェックのみ） */
+      parentCheckId: number | null
+      /** このチェックの再実行（古い順） */
+      reruns: Array<{
+        id: number
+        status: 'pending' | 'processing' | 'completed' | 'failed' | null
+        createdAt: string | null
+        aiModel: string | null
+        dictionaryVersion: string | null
+      }>
       createdAt: string | null
       completedAt: string | null
       userEmail: string | null | undefined
@@ -26,8 +49,35 @@ export type GetCheckDetailResult = {
         startPos: number | null | undefined
         endPos: number | null | undefined
         reason: string | null | undefined
+        matchedText: string | null | undefined
+        confidence: number | null | undefined
+        suggestedText: string | null | undefined
+        alternativeSuggestions: string[]
+        decision: 'pending' | 'accepted' | 'rejected'
+        selectedText: string | null | undefined
+        decidedAt: string | null | undefined
+        regulatoryCategory: RegulatoryCategoryCode | null | undefined
+        severity: ViolationSeverity | null | undefined
+        pageNumber: number | null | undefined
+        domSelector: string | null | undefined
         dictionaryPhrase: string | null | undefined
         dictionaryCategory: string | null | undefined
+        /** 違反の根拠となった辞書（組織辞書 / 共通辞書） */
+        dictionarySource: 'organization' | 'global' | null
+        /** レビュー担当者の評価 */
+        feedback: {
+          feedbackType: 'correct' | 'false_positive' | 'wrong_reason'
+          comment: string | null
+        } | null
+      }>
+      /** 見逃しとして報告された箇所 */
+      missedViolations: Array<{
+        id: number
+        phrase: string
+        startPos: number | null
+        endPos: number | null
+        comment: string | null
+        createdAt: string | null
       }>
     }
   }
@@ -86,17 +136,42 @@ export class GetCheckDetailUseCase {
         }
       }
 
+      const [reruns, feedback] = await Promise.all([
+        this.repositories.checks.findReruns(check.id, userData.organization_id),
+        this.repositories.violationFeedback.findByCheckId(check.id)
+      ])
+      const feedbackByViolationId = new Map(
+        feedback.flatMap(item => item.violation_id !== null ? [[item.violation_id, item] as const] : [])
+      )
+
       // レスポンス形式に変換
       const formattedCheck = {
         id: check.id,
         originalText: check.original_text,
         modifiedText: check.modified_text,
+        finalText: check.final_text,
         status: check.status,
         inputType: check.input_type,
+        productCategory: check.product_category,
         imageUrl: check.image_url,
         extractedText: check.extracted_text,
         ocrStatus: check.ocr_status,
         ocrMetadata: check.ocr_metadata,
+        pdfPages: check.pdf_pages as PdfPageRange[] | null,
+        sourceUrl: check.source_url,
+        pageSnapshot: check.page_snapshot as WebPageSnapshot | null,
+        aiProvider: check.ai_provider,
+        aiModel: check.ai_model,
+        dictionaryVersion: check.dictionary_version,
+        dictionarySnapshotId: check.dictionary_snapshot_id,
+        parentCheckId: check.parent_check_id,
+        reruns: reruns.map(rerun => ({
+          id: rerun.id,
+          status: rerun.status,
+          createdAt: rerun.created_at,
+          aiModel: rerun.ai_model,
+          dictionaryVersion: rerun.dictionary_version
+        })),
         createdAt: check.created_at,
         completedAt: check.completed_at,
         userEmail: check.users?.email,
@@ -105,9 +180,32 @@ export class GetCheckDetailUseCase {
           startPos: violation.start_pos,
           endPos: violation.end_pos,
           reason: violation.reason,
-          dictionaryPhrase: violation.dictionaries?.phrase,
-          dictionaryCategory: violation.dictionaries?.category
-        })) ?? []
+          matchedText: violation.matched_text,
+          confidence: violation.confidence,
+          suggestedText: violation.suggested_text,
+          alternativeSuggestions: violation.alternative_suggestions ?? [],
+          decision: violation.decision ?? 'pending',
+          selectedText: violation.selected_text,
+          decidedAt: violation.decided_at,
+          regulatoryCategory: violation.regulatory_category,
+          severity: violation.severity,
+          pageNumber: violation.page_number,
+          domSelector: violation.dom_selector,
+          dictionaryPhrase: violation.dictionaries?.phrase ?? violation.global_dictionaries?.phrase,
+          dictionaryCategory: violation.dictionaries?.category ?? violation.global_dictionaries?.category,
+          dictionarySource: violation.global_dictionary_id ? 'global' : violation.dictionary_id ? 'organization' : null,
+          feedback: this.toViolationFeedback(feedbackByViolationId.get(violation.id))
+        })) ?? [],
+        missedViolations: feedback
+          .filter(item => item.feedback_type === 'missed')
+          .map(item => ({
+            id: item.id,
+            phrase: item.phrase,
+            startPos: item.start_pos,
+            endPos: item.end_pos,
+            comment: item.comment,
+            createdAt: item.created_at
+          }))
       }
 
       return {
@@ -124,4 +222,15 @@ export class GetCheckDetailUseCase {
       }
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 違反の評価をレスポンス形式に変換
+   */
+  private toViolationFeedback(feedback: ViolationFeedback | undefined) {
+    if (!feedback || feedback.feedback_type === 'missed') return null
+    return {
+      feedbackType: feedback.feedback_type,
+      comment: feedback.comment
+    }
+  }
+}
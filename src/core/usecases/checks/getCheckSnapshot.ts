@@ -0,0 +1,72 @@
+import { WEB_PAGE_FETCH_CONFIG } from '@/constants/webPage'
+import { RepositoryContainer } from '@/core/ports'
+import { WebPageSnapshot } from '@/types/api'
+
+export interface GetCheckSnapshotInput {
+  checkId: number
+  currentUserId: string
+}
+
+export type GetCheckSnapshotResult = {
+  success: true
+  data: {
+    /** 取得時のHTML（バイト列のまま） */
+    body: Uint8Array
+    snapshot: WebPageSnapshot
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * URLチェックで取得したページのスナップショット（HTML）取得ユースケース
+ * 監査用に、チェック時点のHTMLとスナップショット情報（ハッシュ・取得日時など）を返す
+ */
+export class GetCheckSnapshotUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetCheckSnapshotInput): Promise<GetCheckSnapshotResult> {
+    try {
+      const { checkId, currentUserId } = input
+
+      if (isNaN(checkId) || checkId <= 0) {
+        return { success: false, error: 'Invalid check ID', code: 'VALIDATION_ERROR' }
+      }
+
+      const userData = await this.repositories.users.findById(currentUserId)
+      if (!userData?.organization_id) {
+        return { success: false, error: 'User not found or not in organization', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      const check = await this.repositories.checks.findById(checkId)
+      if (!check || check.organization_id !== userData.organization_id || check.deleted_at) {
+        return { success: false, error: 'Check not found', code: 'NOT_FOUND_ERROR' }
+      }
+
+      if (userData.role === 'user' && check.user_id !== userData.id) {
+        return { success: false, error: 'Forbidden', code: 'AUTHORIZATION_ERROR' }
+      }
+
+      const snapshot = check.page_snapshot as WebPageSnapshot | null
+      if (check.input_type !== 'url' || !snapshot?.storagePath) {
+        return { success: false, error: 'Snapshot not found', code: 'NOT_FOUND_ERROR' }
+      }
+
+      const download = await this.repositories.storage.downloadFile(
+        WEB_PAGE_FETCH_CONFIG.SNAPSHOT_BUCKET,
+        snapshot.storagePath
+      )
+      if (download.error || !download.data) {
+        console.error('Snapshot download error:', { error: download.error, checkId })
+        return { success: false, error: 'Snapshot not found', code: 'NOT_FOUND_ERROR' }
+      }
+
+      return { success: true, data: { body: download.data.body, snapshot } }
+    } catch (error) {
+      console.error('Get check snapshot usecase error:', error)
+      return { success: false, error: 'Internal server error', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { RepositoryContainer } from '@/core/ports'
+
+export interface ReportMissedViolationInput {
+  checkId: number
+  currentUserId: string
+  /** チェック対象テキスト（画像・PDF・URLは抽出テキスト）上の選択範囲 */
+  startPos: number
+  endPos: number
+  comment?: string | null
+}
+
+export type ReportMissedViolationResult = {
+  success: true
+  data: {
+    missedViolation: {
+      id: number
+      phrase: string
+      startPos: number
+      endPos: number
+      comment: string | null
+      createdAt: string | null
+    }
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * チェック結果で見逃された違反を報告するユースケース
+ * 選択範囲の語句を記録し、管理者向けのNG表現追加の提案の元にする
+ */
+export class ReportMissedViolationUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: ReportMissedViolationInput): Promise<ReportMissedViolationResult> {
+    try {
+      const { checkId, currentUserId, startPos, endPos } = input
+
+      // IDバリデーション
+      if (isNaN(checkId) || checkId <= 0) {
+        return {
+          success: false,
+          error: '不正なIDです',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      // チェックデータを取得
+      const checkData = await this.repositories.checks.findById(checkId)
+      if (!checkData || checkData.deleted_at) {
+        return {
+          success: false,
+          error: 'チェックが見つかりません',
+          code: 'NOT_FOUND_ERROR'
+        }
+      }
+
+      // ユーザーの権限確認
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile) {
+        return {
+          success: false,
+          error: 'ユーザーが見つかりません',
+          code: 'AUTHENTICATION_ERROR'
+        }
+      }
+
+      // アクセス権限チェック
+      const hasAccess =
+        userProfile.role === 'admin' ||
+        (userProfile.role === 'user' && checkData.user_id === currentUserId)
+
+      const sameOrg = userProfile.organization_id === checkData.organization_id
+
+      if (!hasAccess || !sameOrg) {
+        return {
+          success: false,
+          error: 'このチェックに見逃しを報告する権限がありません',
+          code: 'AUTHORIZATION_ERROR'
+        }
+      }
+
+      if (checkData.status !== 'completed') {
+        return {
+          success: false,
+          error: `完了したチェックのみ見逃しを報告できます。現在のステータス: ${checkData.status}`,
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      const baseText = checkData.input_type !== 'text' && checkData.extracted_text
+        ? checkData.extracted_text
+        : checkData.original_text
+      const phrase = baseText.slice(startPos, endPos).trim()
+      if (endPos > baseText.length || !phrase) {
+        return {
+          success: false,
+          error: '選択範囲がチェック対象のテキストの範囲外です',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      if (phrase.length > 200) {
+        return {
+          success: false,
+          error: '選択範囲が長すぎます（最大200文字）',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      const feedback = await this.repositories.violationFeedback.create({
+        organization_id: checkData.organization_id,
+        check_id: checkId,
+        violation_id: null,
+        feedback_type: 'missed',
+        phrase,
+        start_pos: startPos,
+        end_pos: endPos,
+        comment: input.comment ?? null,
+        created_by: currentUserId
+      })
+
+      return {
+        success: true,
+        data: {
+          missedViolation: {
+            id: feedback.id,
+            phrase: feedback.phrase,
+            startPos,
+            endPos,
+            comment: feedback.comment,
+            createdAt: feedback.created_at
+          }
+        }
+      }
+
+    } catch (error) {
+      console.error('Report missed violation usecase error:', error)
+      return {
+        success: false,
+        error: 'サーバーエラーが発生しました',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+}
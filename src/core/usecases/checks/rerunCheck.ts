@@ -0,0 +1,133 @@
+import { RepositoryContainer } from '@/core/ports'
+import { publishDomainEvent } from '@/lib/domain-events'
+import { queueManager } from '@/lib/queue-manager'
+
+export interface RerunCheckInput {
+  checkId: number
+  currentUserId: string
+}
+
+export type RerunCheckResult = {
+  success: true
+  data: {
+    checkId: number
+    parentCheckId: number
+    message: string
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'QUEUE_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * チェック再実行ユースケース
+ * 辞書の更新やモデルの切り替え後に、過去のチェックを同じ入力で再チェックする。
+ * 再実行は元のチェックに紐づく子チェック（`parent_check_id`）として作成し、
+ * 画像・PDF・URLは元のチェックの抽出結果を引き継いで同じテキストを分析する（辞書・モデルの違いだけを比較できるように）
+ */
+export class RerunCheckUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: RerunCheckInput): Promise<RerunCheckResult> {
+    try {
+      const { checkId, currentUserId } = input
+
+      if (isNaN(checkId) || checkId <= 0) {
+        return { success: false, error: '不正なチェックIDです', code: 'VALIDATION_ERROR' }
+      }
+
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザーが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      const parent = await this.repositories.checks.findById(checkId)
+      if (!parent || parent.organization_id !== userProfile.organization_id || parent.deleted_at) {
+        return { success: false, error: 'チェックが見つかりません', code: 'NOT_FOUND_ERROR' }
+      }
+
+      if (userProfile.role === 'user' && parent.user_id !== currentUserId) {
+        return { success: false, error: 'このチェックを再実行する権限がありません', code: 'AUTHORIZATION_ERROR' }
+      }
+
+      if (parent.status === 'pending' || parent.status === 'processing') {
+        return { success: false, error: '処理中のチェックは再実行できません', code: 'VALIDATION_ERROR' }
+      }
+
+      // 抽出が完了していれば抽出結果を引き継ぐ（未完了の場合は再実行時に抽出し直す）
+      const inheritsExtraction = parent.input_type !== 'text' && parent.ocr_status === 'completed' && !!parent.extracted_text
+      const inputType = parent.input_type ?? 'text'
+
+      const rerun = await this.repositories.checks.create({
+        user_id: currentUserId,
+        organization_id: parent.organization_id,
+        original_text: parent.original_text,
+        input_type: inputType,
+        image_url: parent.image_url,
+        source_url: parent.source_url,
+        product_category: parent.product_category,
+        parent_check_id: parent.id,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+        ...(inheritsExtraction ? {
+          extracted_text: parent.extracted_text,
+          ocr_status: 'completed' as const,
+          ocr_metadata: parent.ocr_metadata,
+          ocr_blocks: parent.ocr_blocks,
+          pdf_pages: parent.pdf_pages,
+          page_segments: parent.page_segments,
+          page_snapshot: parent.page_snapshot
+        } : {})
+      })
+
+      if (!rerun) {
+        return { success: false, error: 'チェックレコードの作成に失敗しました', code: 'INTERNAL_ERROR' }
+      }
+
+      publishDomainEvent({
+        eventType: 'CheckCreated',
+        aggregateId: String(rerun.id),
+        occurredAt: new Date(),
+        data: {
+          checkId: rerun.id,
+          userId: currentUserId,
+          organizationId: parent.organization_id,
+          inputText: parent.original_text,
+          createdAt: rerun.created_at ?? new Date().toISOString()
+        }
+      })
+
+      try {
+        await queueManager.addToQueue(
+          rerun.id,
+          parent.original_text,
+          parent.organization_id,
+          'normal',
+          inputType,
+          parent.image_url ?? undefined,
+          parent.product_category,
+          parent.source_url ?? undefined
+        )
+      } catch {
+        await this.repositories.checks.update(rerun.id, {
+          status: 'failed',
+          error_message: 'キュー追加に失敗しました'
+        })
+        return { success: false, error: '処理キューへの追加に失敗しました', code: 'QUEUE_ERROR' }
+      }
+
+      return {
+        success: true,
+        data: {
+          checkId: rerun.id,
+          parentCheckId: parent.id,
+          message: 'チェックの再実行をキューに追加しました'
+        }
+      }
+    } catch (error) {
+      console.error('Rerun check usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -198,10 +198,12 @@ export class StreamCheckUpdatesUseCase {
    * ストリーミング設定を取得
    */
   private getStreamConfig(inputType?: string | null): StreamConfig {
-    const isImage = inputType === 'image'
+    // URLチェックはページ取得（リダイレクトを含む）があるため画像と同じ設定にする
+    const isImage = inputType === 'image' || inputType === 'url'
+    const isPdf = inputType === 'pdf'
     return {
-      maxConnectionTime: isImage ? 180000 : 90000,  // 画像: 3分、テキスト: 1.5分
-      maxProgressTime: isImage ? 60000 : 30000,     // 画像: 1分、テキスト: 30秒
+      maxConnectionTime: isPdf ? 360000 : isImage ? 180000 : 90000,  // PDF: 6分、画像・URL: 3分、テキスト: 1.5分
+      maxProgressTime: isPdf ? 300000 : isImage ? 60000 : 30000,     // PDF: 5分、画像・URL: 1分、テキスト: 30秒
       heartbeatInterval: 20000,                     // 20秒
       maxHeartbeats: 4                              // 最大4回
     }
@@ -0,0 +1,158 @@
+import { RepositoryContainer } from '@/core/ports'
+import { ViolationFeedbackType } from '@/core/ports/violationFeedback'
+
+/** 違反に付けられる評価（見逃しの報告は ReportMissedViolationUseCase） */
+export type ViolationEvaluation = Exclude<ViolationFeedbackType, 'missed'>
+
+export interface SubmitViolationFeedbackInput {
+  checkId: number
+  violationId: number
+  currentUserId: string
+  /** 評価（null の場合は評価を取り消す） */
+  feedbackType: ViolationEvaluation | null
+  comment?: string | null
+}
+
+export type SubmitViolationFeedbackResult = {
+  success: true
+  data: {
+    feedback: {
+      violationId: number
+      feedbackType: ViolationEvaluation
+      comment: string | null
+    } | null
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 違反の評価（正しい / 誤検知 / 理由違い）を記録するユースケース
+ * 違反ごとに評価は1件で、再評価すると上書きする。根拠となった辞書項目と指摘箇所の語句を違反から写して保存する
+ */
+export class SubmitViolationFeedbackUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: SubmitViolationFeedbackInput): Promise<SubmitViolationFeedbackResult> {
+    try {
+      const { checkId, violationId, currentUserId, feedbackType } = input
+
+      // IDバリデーション
+      if (isNaN(checkId) || checkId <= 0 || isNaN(violationId) || violationId <= 0) {
+        return {
+          success: false,
+          error: '不正なIDです',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      // チェックデータを取得
+      const checkData = await this.repositories.checks.findById(checkId)
+      if (!checkData || checkData.deleted_at) {
+        return {
+          success: false,
+          error: 'チェックが見つかりません',
+          code: 'NOT_FOUND_ERROR'
+        }
+      }
+
+      // ユーザーの権限確認
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile) {
+        return {
+          success: false,
+          error: 'ユーザーが見つかりません',
+          code: 'AUTHENTICATION_ERROR'
+        }
+      }
+
+      // アクセス権限チェック
+      const hasAccess =
+        userProfile.role === 'admin' ||
+        (userProfile.role === 'user' && checkData.user_id === currentUserId)
+
+      const sameOrg = userProfile.organization_id === checkData.organization_id
+
+      if (!hasAccess || !sameOrg) {
+        return {
+          success: false,
+          error: 'この違反を評価する権限がありません',
+          code: 'AUTHORIZATION_ERROR'
+        }
+      }
+
+      if (checkData.status !== 'completed') {
+        return {
+          success: false,
+          error: `完了したチェックのみ評価できます。現在のステータス: ${checkData.status}`,
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      // 違反データを取得
+      const violation = await this.repositories.violations.findById(violationId)
+      if (violation?.check_id !== checkId) {
+        return {
+          success: false,
+          error: '違反が見つかりません',
+          code: 'NOT_FOUND_ERROR'
+        }
+      }
+
+      if (feedbackType === null) {
+        await this.repositories.violationFeedback.deleteByViolationId(violationId)
+        return {
+          success: true,
+          data: { feedback: null }
+        }
+      }
+
+      // 指摘箇所の語句（位置が特定できていない違反はLLMが返した該当テキスト）
+      const baseText = checkData.input_type !== 'text' && checkData.extracted_text
+        ? checkData.extracted_text
+        : checkData.original_text
+      const anchored = violation.end_pos > violation.start_pos && violation.end_pos <= baseText.length
+      const phrase = anchored
+        ? baseText.slice(violation.start_pos, violation.end_pos)
+        : violation.matched_text ?? ''
+
+      const feedback = await this.repositories.violationFeedback.upsertForViolation({
+        organization_id: checkData.organization_id,
+        check_id: checkId,
+        violation_id: violationId,
+        feedback_type: feedbackType,
+        dictionary_id: violation.dictionary_id,
+        global_dictionary_id: violation.global_dictionary_id,
+        phrase,
+        start_pos: anchored ? violation.start_pos : null,
+        end_pos: anchored ? violation.end_pos : null,
+        comment: input.comment ?? null,
+        status: 'open',
+        created_by: currentUserId,
+        resolved_by: null,
+        resolved_at: null
+      })
+
+      return {
+        success: true,
+        data: {
+          feedback: {
+            violationId,
+            feedbackType,
+            comment: feedback.comment
+          }
+        }
+      }
+
+    } catch (error) {
+      console.error('Submit violation feedback usecase error:', error)
+      return {
+        success: false,
+        error: 'サーバーエラーが発生しました',
+        code: 'INTERNAL_ERROR'
+      }
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { AuthenticationError, ValidationError, AuthorizationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
+import { DictionaryChangeRecord, recordDictionaryChanges } from '@/lib/dictionary-versions'
+import { ProductCategory, RegulatoryCategoryCode } from '@/types/api'
 
 /**
  * 辞書一括更新のユースケース入力
@@ -12,6 +14,8 @@ export interface BulkUpdateDictionariesInput {
       phrase?: string
       category?: 'NG' | 'ALLOW'
       notes?: string | null
+      regulatory_category?: RegulatoryCategoryCode | null
+      product_category?: ProductCategory | null
     }
   }>
 }
@@ -76,6 +80,7 @@ export class BulkUpdateDictionariesUseCase {
       // 一括更新の実行
       let successCount = 0
       let failureCount = 0
+      const changes: DictionaryChangeRecord[] = []
 
       for (const update of input.updates) {
         try {
@@ -100,6 +105,7 @@ export class BulkUpdateDictionariesUseCase {
           const updatedItem = await this.repositories.dictionaries.update(update.id, updateData)
           if (updatedItem) {
             successCount++
+            changes.push({ action: 'update', before: existingItem, after: updatedItem })
           } else {
             failureCount++
           }
@@ -109,6 +115,13 @@ export class BulkUpdateDictionariesUseCase {
         }
       }
 
+      await recordDictionaryChanges(this.repositories, {
+        organizationId: currentUser.organization_id,
+        changedBy: currentUser.id,
+        source: 'bulk_update',
+        changes
+      })
+
       return {
         success: true,
         data: {
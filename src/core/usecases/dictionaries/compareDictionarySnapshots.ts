@@ -0,0 +1,73 @@
+import { DictionarySnapshotSummary, RepositoryContainer } from '@/core/ports'
+import { DictionaryDiff, diffDictionaryEntries, getSnapshotEntries, toSnapshotSummary } from '@/lib/dictionary-versions'
+
+export interface CompareDictionarySnapshotsInput {
+  currentUserId: string
+  fromSnapshotId: number
+  /** 省略時は現在の辞書と比較する */
+  toSnapshotId?: number
+}
+
+export type CompareDictionarySnapshotsResult = {
+  success: true
+  data: {
+    from: DictionarySnapshotSummary
+    /** 現在の辞書と比較した場合は null */
+    to: DictionarySnapshotSummary | null
+    diff: DictionaryDiff
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 辞書スナップショット比較ユースケース
+ * スナップショット from から to（省略時は現在の辞書）への追加・削除・変更を返す
+ */
+export class CompareDictionarySnapshotsUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: CompareDictionarySnapshotsInput): Promise<CompareDictionarySnapshotsResult> {
+    try {
+      const { currentUserId, fromSnapshotId, toSnapshotId } = input
+
+      if (isNaN(fromSnapshotId) || fromSnapshotId <= 0 || (toSnapshotId !== undefined && (isNaN(toSnapshotId) || toSnapshotId <= 0))) {
+        return { success: false, error: '無効なスナップショットIDです', code: 'VALIDATION_ERROR' }
+      }
+
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+      const organizationId = userProfile.organization_id
+
+      const [fromSnapshot, toSnapshot] = await Promise.all([
+        this.repositories.dictionarySnapshots.findByIdAndOrganization(fromSnapshotId, organizationId),
+        toSnapshotId !== undefined
+          ? this.repositories.dictionarySnapshots.findByIdAndOrganization(toSnapshotId, organizationId)
+          : Promise.resolve(null)
+      ])
+      if (!fromSnapshot || (toSnapshotId !== undefined && !toSnapshot)) {
+        return { success: false, error: 'スナップショットが見つかりません', code: 'NOT_FOUND_ERROR' }
+      }
+
+      const toEntries = toSnapshot
+        ? getSnapshotEntries(toSnapshot)
+        : await this.repositories.dictionaries.findEntriesByOrganizationId(organizationId)
+
+      return {
+        success: true,
+        data: {
+          from: toSnapshotSummary(fromSnapshot),
+          to: toSnapshot ? toSnapshotSummary(toSnapshot) : null,
+          diff: diffDictionaryEntries(getSnapshotEntries(fromSnapshot), toEntries)
+        }
+      }
+    } catch (error) {
+      console.error('Compare dictionary snapshots usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { AuthenticationError, ValidationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
+import { recordDictionaryChanges } from '@/lib/dictionary-versions'
+import { ProductCategory, RegulatoryCategoryCode } from '@/types/api'
 
 /**
  * 辞書作成のユースケース入力
@@ -10,6 +12,9 @@ export interface CreateDictionaryInput {
   phrase: string
   category: 'NG' | 'ALLOW'
   reasoning?: string
+  regulatoryCategory?: RegulatoryCategoryCode | null
+  /** 対象の製品カテゴリ（未指定は全カテゴリ共通） */
+  productCategory?: ProductCategory | null
 }
 
 /**
@@ -85,6 +90,8 @@ export class CreateDictionaryUseCase {
         phrase: input.phrase.trim(),
         category: input.category,
         notes: input.reasoning ?? null,
+        regulatory_category: input.regulatoryCategory ?? null,
+        product_category: input.productCategory ?? null,
         created_at: new Date().toISOString()
       })
 
@@ -95,6 +102,13 @@ export class CreateDictionaryUseCase {
         }
       }
 
+      await recordDictionaryChanges(this.repositories, {
+        organizationId: input.organizationId,
+        changedBy: input.userId,
+        source: 'manual',
+        changes: [{ action: 'create', after: newEntry }]
+      })
+
       return {
         success: true,
         data: {
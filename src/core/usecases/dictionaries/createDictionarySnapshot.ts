@@ -0,0 +1,66 @@
+import { DictionarySnapshotSummary, RepositoryContainer } from '@/core/ports'
+import { captureDictionarySnapshot, toSnapshotSummary } from '@/lib/dictionary-versions'
+
+export interface CreateDictionarySnapshotInput {
+  currentUserId: string
+  name: string
+  description?: string | null
+}
+
+export type CreateDictionarySnapshotResult = {
+  success: true
+  data: {
+    snapshot: DictionarySnapshotSummary
+    message: string
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 辞書スナップショット作成ユースケース
+ * 組織の現在の辞書全体を名前を付けて保存する（後から差分の確認・ロールバックに使う）
+ */
+export class CreateDictionarySnapshotUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: CreateDictionarySnapshotInput): Promise<CreateDictionarySnapshotResult> {
+    try {
+      const { currentUserId, name, description } = input
+
+      if (!name?.trim()) {
+        return { success: false, error: 'スナップショット名は必須です', code: 'VALIDATION_ERROR' }
+      }
+
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      if (userProfile.role !== 'admin') {
+        return { success: false, error: '管理者権限が必要です', code: 'AUTHORIZATION_ERROR' }
+      }
+
+      const snapshot = await captureDictionarySnapshot(this.repositories, {
+        organizationId: userProfile.organization_id,
+        name: name.trim(),
+        description: description?.trim() ?? null,
+        kind: 'manual',
+        createdBy: currentUserId
+      })
+
+      return {
+        success: true,
+        data: {
+          snapshot: toSnapshotSummary(snapshot),
+          message: `スナップショット「${snapshot.name}」を作成しました（${snapshot.item_count}件）`
+        }
+      }
+    } catch (error) {
+      console.error('Create dictionary snapshot usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { RepositoryContainer } from '@/core/ports'
+import { recordDictionaryChanges } from '@/lib/dictionary-versions'
 
 export interface DeleteDictionaryInput {
   dictionaryId: number
@@ -75,6 +76,13 @@ export class DeleteDictionaryUseCase {
         }
       }
 
+      await recordDictionaryChanges(this.repositories, {
+        organizationId: userProfile.organization_id,
+        changedBy: currentUserId,
+        source: 'manual',
+        changes: [{ action: 'delete', before: existingDictionary }]
+      })
+
       return {
         success: true,
         data: {
@@ -0,0 +1,46 @@
+import { DictionaryChangeWithUser, RepositoryContainer } from '@/core/ports'
+
+export interface GetDictionaryChangesInput {
+  currentUserId: string
+  dictionaryId?: number
+  limit: number
+  offset: number
+}
+
+export type GetDictionaryChangesResult = {
+  success: true
+  data: {
+    changes: DictionaryChangeWithUser[]
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 辞書の変更履歴取得ユースケース（新しい順、辞書項目IDで絞り込み可能）
+ */
+export class GetDictionaryChangesUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetDictionaryChangesInput): Promise<GetDictionaryChangesResult> {
+    try {
+      const userProfile = await this.repositories.users.findById(input.currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      const changes = await this.repositories.dictionaryChanges.findByOrganizationId(userProfile.organization_id, {
+        dictionaryId: input.dictionaryId,
+        limit: input.limit,
+        offset: input.offset
+      })
+
+      return { success: true, data: { changes } }
+    } catch (error) {
+      console.error('Get dictionary changes usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { DictionaryEntryPrecision, RepositoryContainer } from '@/core/ports'
+import { buildDictionarySuggestions, DictionarySuggestion } from '@/lib/violation-feedback'
+
+export interface GetDictionaryFeedbackInput {
+  currentUserId: string
+}
+
+export type GetDictionaryFeedbackResult = {
+  success: true
+  data: {
+    /** 未対応のフィードバックからの辞書提案 */
+    suggestions: DictionarySuggestion[]
+    /** 辞書項目ごとの評価件数と適合率の推定値（適合率の低い順） */
+    precision: DictionaryEntryPrecision[]
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * レビュー担当者のフィードバックの集計取得ユースケース（管理者のみ）
+ */
+export class GetDictionaryFeedbackUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetDictionaryFeedbackInput): Promise<GetDictionaryFeedbackResult> {
+    try {
+      const userProfile = await this.repositories.users.findById(input.currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      if (userProfile.role !== 'admin') {
+        return { success: false, error: '管理者権限が必要です', code: 'AUTHORIZATION_ERROR' }
+      }
+
+      const organizationId = userProfile.organization_id
+      const [feedback, dictionaries, precision] = await Promise.all([
+        this.repositories.violationFeedback.findOpenByOrganizationId(organizationId),
+        this.repositories.dictionaries.findByOrganizationId(organizationId),
+        this.repositories.violationFeedback.findPrecisionByOrganizationId(organizationId)
+      ])
+
+      return {
+        success: true,
+        data: {
+          suggestions: buildDictionarySuggestions(feedback, dictionaries),
+          precision
+        }
+      }
+    } catch (error) {
+      console.error('Get dictionary feedback usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { DictionarySnapshotKind, DictionarySnapshotSummary, RepositoryContainer } from '@/core/ports'
+
+export interface GetDictionarySnapshotsInput {
+  currentUserId: string
+  kind?: DictionarySnapshotKind
+  limit: number
+  offset: number
+}
+
+export type GetDictionarySnapshotsResult = {
+  success: true
+  data: {
+    snapshots: DictionarySnapshotSummary[]
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 辞書スナップショット一覧取得ユースケース（新しい順、辞書項目は含めない）
+ */
+export class GetDictionarySnapshotsUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetDictionarySnapshotsInput): Promise<GetDictionarySnapshotsResult> {
+    try {
+      const userProfile = await this.repositories.users.findById(input.currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      const snapshots = await this.repositories.dictionarySnapshots.findByOrganizationId(userProfile.organization_id, {
+        kind: input.kind,
+        limit: input.limit,
+        offset: input.offset
+      })
+
+      return { success: true, data: { snapshots } }
+    } catch (error) {
+      console.error('Get dictionary snapshots usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
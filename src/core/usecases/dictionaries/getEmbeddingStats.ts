@@ -73,7 +73,7 @@ export class GetEmbeddingStatsUseCase {
 
       // ジョブ進捗の問い合わせ
       if (input.jobId) {
-        return this.getJobProgress(input.jobId)
+        return this.getJobProgress(input.jobId, organizationId)
       }
 
       // 組織の辞書項目のembedding統計を取得
@@ -124,9 +124,9 @@ export class GetEmbeddingStatsUseCase {
   /**
    * ジョブ進捗取得
    */
-  private getJobProgress(jobId: string): GetEmbeddingStatsResult {
-    const job = embeddingQueue.getJob(jobId)
-    if (!job) {
+  private async getJobProgress(jobId: string, organizationId: number): Promise<GetEmbeddingStatsResult> {
+    const job = await embeddingQueue.getJob(jobId)
+    if (job?.organizationId !== organizationId) {
       return {
         success: false,
         error: { code: 'NOT_FOUND_ERROR', message: '指定されたジョブが見つかりません' }
@@ -0,0 +1,61 @@
+import { GlobalDictionaryEntry, RepositoryContainer } from '@/core/ports'
+import { InheritedDictionaryEntry, resolveInheritedEntries } from '@/lib/global-dictionary'
+
+export interface GetGlobalDictionaryInput {
+  currentUserId: string
+}
+
+/**
+ * 組織から見た共通辞書項目（上書きの備考付き）
+ */
+export type OrganizationGlobalDictionaryEntry = InheritedDictionaryEntry<GlobalDictionaryEntry> & {
+  override_notes: string | null
+}
+
+export type GetGlobalDictionaryResult = {
+  success: true
+  data: {
+    entries: OrganizationGlobalDictionaryEntry[]
+    counts: Record<OrganizationGlobalDictionaryEntry['status'], number>
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 共通辞書取得ユースケース
+ * 有効な共通辞書項目を、組織の上書き（無効化・許可）と組織辞書の語句による継承の状態付きで返す
+ */
+export class GetGlobalDictionaryUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetGlobalDictionaryInput): Promise<GetGlobalDictionaryResult> {
+    try {
+      const userProfile = await this.repositories.users.findById(input.currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      const organizationId = userProfile.organization_id
+      const [globalEntries, overrides, localEntries] = await Promise.all([
+        this.repositories.globalDictionaries.findActiveEntries(),
+        this.repositories.dictionaryOverrides.findByOrganizationId(organizationId),
+        this.repositories.dictionaries.findEntriesByOrganizationId(organizationId)
+      ])
+
+      const notes = new Map(overrides.map(override => [override.global_dictionary_id, override.notes]))
+      const entries = resolveInheritedEntries(globalEntries, overrides, localEntries.map(entry => entry.phrase))
+        .map(entry => ({ ...entry, override_notes: notes.get(entry.id) ?? null }))
+
+      const counts = { inherited: 0, disabled: 0, allowed: 0, shadowed: 0 }
+      for (const entry of entries) counts[entry.status]++
+
+      return { success: true, data: { entries, counts } }
+    } catch (error) {
+      console.error('Get global dictionary usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { AuthenticationError, AuthorizationError } from '@/core/domain/errors'
 import { RepositoryContainer } from '@/core/ports'
+import { recordDictionaryChanges } from '@/lib/dictionary-versions'
 
 interface ParsedDictionaryRow {
   phrase: string
@@ -144,6 +145,13 @@ export class ImportDictionariesUseCase {
           const insertedItems = await this.repositories.dictionaries.bulkCreate(chunk)
           totalInserted += insertedItems.length
 
+          await recordDictionaryChanges(this.repositories, {
+            organizationId: currentUser.organization_id,
+            changedBy: currentUser.id,
+            source: 'import',
+            changes: insertedItems.map(item => ({ action: 'create' as const, after: item }))
+          })
+
           // 埋め込みベクトル生成（非同期でバックグラウンド処理）
           const itemsWithOrgId = insertedItems
             .filter(item => item.organization_id !== null)
@@ -0,0 +1,57 @@
+import { RepositoryContainer } from '@/core/ports'
+
+export interface RemoveDictionaryOverrideInput {
+  currentUserId: string
+  globalDictionaryId: number
+}
+
+export type RemoveDictionaryOverrideResult = {
+  success: true
+  data: {
+    message: string
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 共通辞書項目の上書き解除ユースケース
+ * 組織の上書きを削除し、共通辞書項目をそのまま継承する状態に戻す
+ */
+export class RemoveDictionaryOverrideUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: RemoveDictionaryOverrideInput): Promise<RemoveDictionaryOverrideResult> {
+    try {
+      const { currentUserId, globalDictionaryId } = input
+
+      if (!Number.isInteger(globalDictionaryId) || globalDictionaryId <= 0) {
+        return { success: false, error: '共通辞書IDが不正です', code: 'VALIDATION_ERROR' }
+      }
+
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      if (userProfile.role !== 'admin') {
+        return { success: false, error: '管理者権限が必要です', code: 'AUTHORIZATION_ERROR' }
+      }
+
+      const removed = await this.repositories.dictionaryOverrides.deleteByGlobalDictionaryId(
+        userProfile.organization_id,
+        globalDictionaryId
+      )
+      if (!removed) {
+        return { success: false, error: '上書きが見つかりません', code: 'NOT_FOUND_ERROR' }
+      }
+
+      return { success: true, data: { message: '上書きを解除しました' } }
+    } catch (error) {
+      console.error('Remove dictionary override usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
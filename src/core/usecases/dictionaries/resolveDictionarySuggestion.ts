@@ -0,0 +1,132 @@
+import { RepositoryContainer } from '@/core/ports'
+import { recordDictionaryChanges } from '@/lib/dictionary-versions'
+import { buildDictionarySuggestions, DictionarySuggestionKind, SUGGESTION_CATEGORIES } from '@/lib/violation-feedback'
+import { RegulatoryCategoryCode } from '@/types/api'
+
+export interface ResolveDictionarySuggestionInput {
+  currentUserId: string
+  kind: DictionarySuggestionKind
+  phrase: string
+  /** apply: 辞書に反映する / dismiss: 反映せずに見送る */
+  action: 'apply' | 'dismiss'
+  /** NG表現として追加する場合の法的根拠 */
+  regulatoryCategory?: RegulatoryCategoryCode | null
+}
+
+export type ResolveDictionarySuggestionResult = {
+  success: true
+  data: {
+    /** 追加・変更した辞書項目（見送りの場合は null） */
+    dictionaryId: number | null
+    resolvedCount: number
+    message: string
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * フィードバックからの辞書提案の反映・見送りユースケース（管理者のみ）
+ * 反映時は提案の語句を組織辞書に追加する（同じ語句の項目があれば区分を変更する）。
+ * 提案の元になったフィードバックは反映済み・見送りとして記録する
+ */
+export class ResolveDictionarySuggestionUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: ResolveDictionarySuggestionInput): Promise<ResolveDictionarySuggestionResult> {
+    try {
+      const { currentUserId, kind, action } = input
+      const phrase = input.phrase.trim()
+
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      if (userProfile.role !== 'admin') {
+        return { success: false, error: '管理者権限が必要です', code: 'AUTHORIZATION_ERROR' }
+      }
+
+      const organizationId = userProfile.organization_id
+      const [feedback, dictionaries] = await Promise.all([
+        this.repositories.violationFeedback.findOpenByOrganizationId(organizationId),
+        this.repositories.dictionaries.findByOrganizationId(organizationId)
+      ])
+
+      const suggestion = buildDictionarySuggestions(feedback, dictionaries)
+        .find(item => item.kind === kind && item.phrase === phrase)
+      if (!suggestion) {
+        return { success: false, error: '辞書の提案が見つかりません', code: 'NOT_FOUND_ERROR' }
+      }
+
+      if (action === 'dismiss') {
+        const resolvedCount = await this.repositories.violationFeedback.resolve(
+          suggestion.feedbackIds,
+          'dismissed',
+          currentUserId
+        )
+        return {
+          success: true,
+          data: { dictionaryId: null, resolvedCount, message: `「${phrase}」の提案を見送りました` }
+        }
+      }
+
+      const category = SUGGESTION_CATEGORIES[kind]
+      const existing = dictionaries.find(entry => entry.id === suggestion.existingDictionaryId)
+      let dictionaryId: number
+
+      if (existing) {
+        const updated = await this.repositories.dictionaries.update(existing.id, { category })
+        if (!updated) {
+          return { success: false, error: '辞書項目の更新に失敗しました', code: 'INTERNAL_ERROR' }
+        }
+        dictionaryId = updated.id
+        await recordDictionaryChanges(this.repositories, {
+          organizationId,
+          changedBy: currentUserId,
+          source: 'feedback',
+          changes: [{ action: 'update', before: existing, after: updated }]
+        })
+      } else {
+        const created = await this.repositories.dictionaries.create({
+          organization_id: organizationId,
+          phrase,
+          category,
+          notes: kind === 'allow'
+            ? 'レビューで誤検知と評価された表現'
+            : 'レビューで見逃しとして報告された表現',
+          regulatory_category: kind === 'ng' ? input.regulatoryCategory ?? null : null
+        })
+        dictionaryId = created.id
+        await recordDictionaryChanges(this.repositories, {
+          organizationId,
+          changedBy: currentUserId,
+          source: 'feedback',
+          changes: [{ action: 'create', after: created }]
+        })
+      }
+
+      const resolvedCount = await this.repositories.violationFeedback.resolve(
+        suggestion.feedbackIds,
+        'applied',
+        currentUserId
+      )
+
+      return {
+        success: true,
+        data: {
+          dictionaryId,
+          resolvedCount,
+          message: kind === 'allow'
+            ? `「${phrase}」を許可表現として辞書に反映しました`
+            : `「${phrase}」をNG表現として辞書に反映しました`
+        }
+      }
+    } catch (error) {
+      console.error('Resolve dictionary suggestion usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
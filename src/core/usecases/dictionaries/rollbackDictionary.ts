@@ -0,0 +1,192 @@
+import { Dictionary, DictionaryUpdate, RepositoryContainer } from '@/core/ports'
+import {
+  captureDictionarySnapshot,
+  DictionaryChangeRecord,
+  diffDictionaryEntries,
+  getSnapshotEntries,
+  recordDictionaryChanges
+} from '@/lib/dictionary-versions'
+import { embeddingQueue } from '@/lib/embedding-queue'
+
+export interface RollbackDictionaryInput {
+  currentUserId: string
+  snapshotId: number
+}
+
+export type RollbackDictionaryResult = {
+  success: true
+  data: {
+    snapshotId: number
+    /** ロールバック前の辞書を保存した自動スナップショット（変更がなかった場合は null） */
+    backupSnapshotId: number | null
+    created: number
+    updated: number
+    deleted: number
+    failed: number
+    /** 埋め込み再生成ジョブID（投入できなかった場合は null） */
+    embeddingJobId: string | null
+    message: string
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 辞書ロールバックユースケース
+ * 組織の辞書をスナップショットの内容に戻す。
+ * ロールバック前の辞書は自動スナップショットとして保存し、変更は変更履歴（source: rollback）に記録する。
+ * 語句が変わった項目・再作成した項目は埋め込みベクトルが無いため、最後に埋め込み再生成ジョブを投入する
+ */
+export class RollbackDictionaryUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: RollbackDictionaryInput): Promise<RollbackDictionaryResult> {
+    try {
+      const { currentUserId, snapshotId } = input
+
+      if (isNaN(snapshotId) || snapshotId <= 0) {
+        return { success: false, error: '無効なスナップショットIDです', code: 'VALIDATION_ERROR' }
+      }
+
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      if (userProfile.role !== 'admin') {
+        return { success: false, error: '管理者権限が必要です', code: 'AUTHORIZATION_ERROR' }
+      }
+      const organizationId = userProfile.organization_id
+
+      const snapshot = await this.repositories.dictionarySnapshots.findByIdAndOrganization(snapshotId, organizationId)
+      if (!snapshot) {
+        return { success: false, error: 'スナップショットが見つかりません', code: 'NOT_FOUND_ERROR' }
+      }
+
+      // 現在の辞書 → スナップショットの差分（added: 再作成、removed: 削除、changed: 更新）
+      const currentEntries = await this.repositories.dictionaries.findEntriesByOrganizationId(organizationId)
+      const diff = diffDictionaryEntries(currentEntries, getSnapshotEntries(snapshot))
+
+      if (diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0) {
+        return {
+          success: true,
+          data: {
+            snapshotId,
+            backupSnapshotId: null,
+            created: 0,
+            updated: 0,
+            deleted: 0,
+            failed: 0,
+            embeddingJobId: null,
+            message: '辞書はすでにスナップショットと同じ内容です'
+          }
+        }
+      }
+
+      const backup = await captureDictionarySnapshot(this.repositories, {
+        organizationId,
+        name: `ロールバック前（「${snapshot.name}」へ戻す前の辞書）`,
+        kind: 'auto',
+        createdBy: currentUserId
+      })
+
+      const changes: DictionaryChangeRecord[] = []
+      let failed = 0
+
+      for (const entry of diff.removed) {
+        try {
+          if (await this.repositories.dictionaries.delete(entry.id)) {
+            changes.push({ action: 'delete', before: entry })
+          } else {
+            failed++
+          }
+        } catch (error) {
+          console.error(`Error deleting dictionary item ${entry.id} on rollback:`, error)
+          failed++
+        }
+      }
+
+      for (const { before, after, fields } of diff.changed) {
+        try {
+          const patch: DictionaryUpdate = {
+            phrase: after.phrase,
+            category: after.category,
+            notes: after.notes,
+            regulatory_category: after.regulatory_category,
+            product_category: after.product_category,
+            updated_at: new Date().toISOString()
+          }
+          // 語句が変わる場合は古い埋め込みを破棄して再生成対象にする
+          if (fields.includes('phrase')) patch.vector = null
+
+          const updated = await this.repositories.dictionaries.update(before.id, patch)
+          if (updated) {
+            changes.push({ action: 'update', before, after: updated })
+          } else {
+            failed++
+          }
+        } catch (error) {
+          console.error(`Error updating dictionary item ${before.id} on rollback:`, error)
+          failed++
+        }
+      }
+
+      let created: Dictionary[] = []
+      if (diff.added.length > 0) {
+        try {
+          created = await this.repositories.dictionaries.bulkCreate(diff.added.map(entry => ({
+            organization_id: organizationId,
+            phrase: entry.phrase,
+            category: entry.category,
+            notes: entry.notes,
+            regulatory_category: entry.regulatory_category,
+            product_category: entry.product_category
+          })))
+          changes.push(...created.map(entry => ({ action: 'create' as const, after: entry })))
+        } catch (error) {
+          console.error('Error re-creating dictionary items on rollback:', error)
+        }
+        failed += diff.added.length - created.length
+      }
+
+      await recordDictionaryChanges(this.repositories, {
+        organizationId,
+        changedBy: currentUserId,
+        source: 'rollback',
+        snapshotId,
+        changes
+      })
+
+      // 埋め込みベクトルの無い項目（再作成・語句変更）の再生成
+      let embeddingJobId: string | null = null
+      try {
+        const job = await embeddingQueue.enqueueOrganization(organizationId)
+        embeddingJobId = job.id
+      } catch (error) {
+        console.error('Error enqueueing embeddings after rollback:', error)
+      }
+
+      const updatedCount = changes.filter(change => change.action === 'update').length
+      const deletedCount = changes.filter(change => change.action === 'delete').length
+
+      return {
+        success: true,
+        data: {
+          snapshotId,
+          backupSnapshotId: backup.id,
+          created: created.length,
+          updated: updatedCount,
+          deleted: deletedCount,
+          failed,
+          embeddingJobId,
+          message: `スナップショット「${snapshot.name}」に戻しました（追加 ${created.length}件・更新 ${updatedCount}件・削除 ${deletedCount}件${failed > 0 ? `・失敗 ${failed}件` : ''}）`
+        }
+      }
+    } catch (error) {
+      console.error('Rollback dictionary usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
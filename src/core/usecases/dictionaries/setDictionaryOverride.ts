@@ -0,0 +1,73 @@
+import { DictionaryOverride, DictionaryOverrideAction, RepositoryContainer } from '@/core/ports'
+
+export interface SetDictionaryOverrideInput {
+  currentUserId: string
+  globalDictionaryId: number
+  action: DictionaryOverrideAction
+  notes?: string | null
+}
+
+export type SetDictionaryOverrideResult = {
+  success: true
+  data: {
+    override: DictionaryOverride
+    message: string
+  }
+} | {
+  success: false
+  error: string
+  code: 'AUTHENTICATION_ERROR' | 'AUTHORIZATION_ERROR' | 'NOT_FOUND_ERROR' | 'VALIDATION_ERROR' | 'INTERNAL_ERROR'
+}
+
+/**
+ * 共通辞書項目の上書きユースケース
+ * 組織で共通辞書項目を無効化（disable）するか、許可表現（allow）として扱うよう設定する
+ */
+export class SetDictionaryOverrideUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: SetDictionaryOverrideInput): Promise<SetDictionaryOverrideResult> {
+    try {
+      const { currentUserId, globalDictionaryId, action, notes } = input
+
+      if (!Number.isInteger(globalDictionaryId) || globalDictionaryId <= 0) {
+        return { success: false, error: '共通辞書IDが不正です', code: 'VALIDATION_ERROR' }
+      }
+
+      const userProfile = await this.repositories.users.findById(currentUserId)
+      if (!userProfile?.organization_id) {
+        return { success: false, error: 'ユーザープロファイルが見つかりません', code: 'AUTHENTICATION_ERROR' }
+      }
+
+      if (userProfile.role !== 'admin') {
+        return { success: false, error: '管理者権限が必要です', code: 'AUTHORIZATION_ERROR' }
+      }
+
+      const entry = await this.repositories.globalDictionaries.findActiveById(globalDictionaryId)
+      if (!entry) {
+        return { success: false, error: '共通辞書項目が見つかりません', code: 'NOT_FOUND_ERROR' }
+      }
+
+      const override = await this.repositories.dictionaryOverrides.upsert({
+        organization_id: userProfile.organization_id,
+        global_dictionary_id: globalDictionaryId,
+        action,
+        notes: notes?.trim() ?? null,
+        created_by: currentUserId
+      })
+
+      return {
+        success: true,
+        data: {
+          override,
+          message: action === 'disable'
+            ? `共通辞書の「${entry.phrase}」を無効にしました`
+            : `共通辞書の「${entry.phrase}」を許可表現として扱います`
+        }
+      }
+    } catch (error) {
+      console.error('Set dictionary override usecase error:', error)
+      return { success: false, error: 'サーバーエラーが発生しました', code: 'INTERNAL_ERROR' }
+    }
+  }
+}
@@ -1,4 +1,8 @@
+import { isProductCategory } from '@/constants/productCategories'
+import { isRegulatoryCategoryCode } from '@/constants/regulatory'
 import { RepositoryContainer } from '@/core/ports'
+import { recordDictionaryChanges } from '@/lib/dictionary-versions'
+import { ProductCategory, RegulatoryCategoryCode } from '@/types/api'
 
 export interface UpdateDictionaryInput {
   dictionaryId: number
@@ -6,6 +10,8 @@ export interface UpdateDictionaryInput {
   phrase: string
   category: 'NG' | 'ALLOW'
   notes?: string
+  regulatoryCategory?: RegulatoryCategoryCode | null
+  productCategory?: ProductCategory | null
 }
 
 export type UpdateDictionaryResult = {
@@ -15,6 +21,8 @@ export type UpdateDictionaryResult = {
     phrase: string
     category: string
     notes?: string | null
+    regulatoryCategory?: RegulatoryCategoryCode | null
+    productCategory?: ProductCategory | null
     message: string
   }
 } | {
@@ -28,7 +36,7 @@ export class UpdateDictionaryUseCase {
 
   async execute(input: UpdateDictionaryInput): Promise<UpdateDictionaryResult> {
     try {
-      const { dictionaryId, currentUserId, phrase, category, notes } = input
+      const { dictionaryId, currentUserId, phrase, category, notes, regulatoryCategory, productCategory } = input
 
       // dictionaryIdバリデーション
       if (isNaN(dictionaryId) || dictionaryId <= 0) {
@@ -57,6 +65,24 @@ export class UpdateDictionaryUseCase {
         }
       }
 
+      // 法的根拠バリデーション
+      if (regulatoryCategory !== undefined && regulatoryCategory !== null && !isRegulatoryCategoryCode(regulatoryCategory)) {
+        return {
+          success: false,
+          error: '無効な法的根拠カテゴリです',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
+      // 製品カテゴリバリデーション
+      if (productCategory !== undefined && productCategory !== null && !isProductCategory(productCategory)) {
+        return {
+          success: false,
+          error: '無効な製品カテゴリです',
+          code: 'VALIDATION_ERROR'
+        }
+      }
+
       // ユーザープロファイルと組織情報を取得
       const userProfile = await this.repositories.users.findById(currentUserId)
       if (!userProfile?.organization_id) {
@@ -76,17 +102,39 @@ export class UpdateDictionaryUseCase {
         }
       }
 
+      // 変更履歴用に更新前の内容を取得
+      const existingDictionary = await this.repositories.dictionaries.findByIdAndOrganization(
+        dictionaryId,
+        userProfile.organization_id
+      )
+      if (!existingDictionary) {
+        return {
+          success: false,
+          error: '辞書項目が見つかりません',
+          code: 'NOT_FOUND_ERROR'
+        }
+      }
+
       // 埋め込みベクトル付き更新
-      await this.repositories.dictionaries.updateWithEmbedding(
+      const { dictionary: updatedDictionary } = await this.repositories.dictionaries.updateWithEmbedding(
         dictionaryId,
         userProfile.organization_id,
         {
           phrase,
           category,
-          notes
+          notes,
+          regulatory_category: regulatoryCategory,
+          product_category: productCategory
         }
       )
 
+      await recordDictionaryChanges(this.repositories, {
+        organizationId: userProfile.organization_id,
+        changedBy: currentUserId,
+        source: 'manual',
+        changes: [{ action: 'update', before: existingDictionary, after: updatedDictionary }]
+      })
+
       // レスポンスを期待される形式に変換
       return {
         success: true,
@@ -95,6 +143,8 @@ export class UpdateDictionaryUseCase {
           phrase,
           category,
           notes,
+          regulatoryCategory,
+          productCategory,
           message: '辞書項目を更新しました'
         }
       }
@@ -1,5 +1,18 @@
+import { APP_CONFIG } from '@/constants'
 import { AuthenticationError, ValidationError } from '@/core/domain/errors'
+import { SystemConfig, UploadFileType } from '@/core/dtos/system-settings'
 import { RepositoryContainer } from '@/core/ports'
+import { getSystemConfig, isFeatureEnabled } from '@/lib/system-settings'
+
+/**
+ * アップロードできるファイルの種類（システム設定の許可するファイル形式で絞り込む）
+ */
+const UPLOAD_CONTENT_TYPES: ReadonlyArray<{ contentType: string; label: string; extensions: UploadFileType[] }> = [
+  { contentType: 'image/jpeg', label: 'JPEG', extensions: ['jpg', 'jpeg'] },
+  { contentType: 'image/png', label: 'PNG', extensions: ['png'] },
+  { contentType: 'image/webp', label: 'WebP', extensions: ['webp'] },
+  { contentType: 'application/pdf', label: 'PDF', extensions: ['pdf'] }
+]
 
 /**
  * 画像アップロードのユースケース入力
@@ -25,6 +38,8 @@ export type UploadImageResult =
 
 /**
  * 画像アップロードユースケース
+ * PDFチェック用のPDFも同じバケットにアップロードする。
+ * 許可するファイル形式・最大ファイルサイズはシステム設定に従い、PDFは組織で機能フラグ pdf_input が有効な場合のみ受け付ける
  */
 export class UploadImageUseCase {
   constructor(private repositories: RepositoryContainer) {}
@@ -56,8 +71,12 @@ export class UploadImageUseCase {
         }
       }
 
-      // ファイルのバリデーション
-      const fileValidationError = this.validateFile(input.file)
+      // ファイルのバリデーション（システム設定・機能フラグに従う）
+      const [systemConfig, pdfEnabled] = await Promise.all([
+        getSystemConfig(this.repositories),
+        isFeatureEnabled(this.repositories, 'pdf_input', currentUser.organization_id)
+      ])
+      const fileValidationError = this.validateFile(input.file, systemConfig, pdfEnabled)
       if (fileValidationError) {
         return {
           success: false,
@@ -222,17 +241,25 @@ export class UploadImageUseCase {
   /**
    * ファイルのバリデーション
    */
-  private validateFile(file: File): string | null {
-    // サポートされているファイルタイプ
-    const acceptedTypes = ['image/jpeg', 'image/png', 'image/webp']
-    if (!acceptedTypes.includes(file.type)) {
-      return 'サポートされていないファイルタイプです（JPEG、PNG、WebPのみ）'
+  private validateFile(file: File, systemConfig: SystemConfig, pdfEnabled: boolean): string | null {
+    // サポートされているファイルタイプ（許可するファイル形式に含まれるもの）
+    const acceptedTypes = UPLOAD_CONTENT_TYPES.filter(type =>
+      type.extensions.some(extension => systemConfig.allowedFileTypes.includes(extension)) &&
+      (type.contentType !== 'application/pdf' || pdfEnabled)
+    )
+    if (!acceptedTypes.some(type => type.contentType === file.type)) {
+      return acceptedTypes.length > 0
+        ? `サポートされていないファイルタイプです（${acceptedTypes.map(type => type.label).join('、')}のみ）`
+        : '現在ファイルのアップロードは受け付けていません'
     }
 
-    // ファイルサイズの制限（10MB）
-    const maxSize = 10 * 1024 * 1024 // 10MB
+    // ファイルサイズの制限（システム設定の最大ファイルサイズ。画像・PDFの上限を超えない）
+    const maxSize = Math.min(
+      systemConfig.maxUploadSize * 1024 * 1024,
+      file.type === 'application/pdf' ? APP_CONFIG.FILE_SIZE_LIMITS.PDF : APP_CONFIG.FILE_SIZE_LIMITS.IMAGE
+    )
     if (file.size > maxSize) {
-      return 'ファイルサイズが大きすぎます（最大10MBまで）'
+      return `ファイルサイズが大きすぎます（最大${Math.round(maxSize / 1024 / 1024)}MBまで）`
     }
 
     return null
@@ -256,6 +283,8 @@ export class UploadImageUseCase {
       extension = 'png'
     } else if (file.type === 'image/webp') {
       extension = 'webp'
+    } else if (file.type === 'application/pdf') {
+      extension = 'pdf'
     }
 
     return `org/${organizationId}/${year}/${month}/${day}/${timestamp}-${random}.${extension}`
@@ -306,7 +306,7 @@ export class GenerateCustomReportUseCase {
                .font('Helvetica')
                .text(`作成日時: ${check.created_at ? new Date(check.created_at).toLocaleString('ja-JP') : '不明'}`)
                .text(`ステータス: ${getStatusLabel(check.status)}`)
-               .text(`入力タイプ: ${check.input_type === 'image' ? '画像' : 'テキスト'}`)
+               .text(`入力タイプ: ${check.input_type === 'image' ? '画像' : check.input_type === 'pdf' ? 'PDF' : check.input_type === 'url' ? 'URL' : 'テキスト'}`)
                .text(`違反数: ${check.violations?.length ?? 0}件`)
                .moveDown(0.5)
 
@@ -456,7 +456,7 @@ export class GenerateCustomReportUseCase {
           check.id,
           check.created_at ? new Date(check.created_at).toLocaleString('ja-JP') : '不明',
           getStatusLabel(check.status),
-          check.input_type === 'image' ? '画像' : 'テキスト',
+          check.input_type === 'image' ? '画像' : check.input_type === 'pdf' ? 'PDF' : check.input_type === 'url' ? 'URL' : 'テキスト',
           check.original_text?.substring(0, 200) ?? '',
           check.modified_text?.substring(0, 200) ?? '',
           check.violations?.length ?? 0,
@@ -0,0 +1,85 @@
+import { WEBHOOK_CONFIG } from '@/constants/webhooks'
+import { RepositoryContainer } from '@/core/ports'
+import { assertWebhookDestination, generateWebhookSecret } from '@/lib/webhooks'
+
+import { resolveWebhookAdminOrganization, toWebhookEndpointView, WebhookEndpointView } from './getWebhookEndpoints'
+
+/**
+ * Webhook エンドポイント作成のユースケース入力
+ */
+export interface CreateWebhookEndpointInput {
+  currentUserId: string
+  url: string
+  description?: string
+  eventTypes: string[]
+}
+
+/**
+ * Webhook エンドポイント作成のユースケース結果
+ * 署名シークレットは作成時のみ平文で返す
+ */
+export type CreateWebhookEndpointResult =
+  | { success: true; data: { endpoint: WebhookEndpointView; secret: string } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Webhook エンドポイント作成ユースケース
+ */
+export class CreateWebhookEndpointUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: CreateWebhookEndpointInput): Promise<CreateWebhookEndpointResult> {
+    try {
+      const access = await resolveWebhookAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const existingCount = await this.repositories.webhookEndpoints.count({ organization_id: access.organizationId })
+      if (existingCount >= WEBHOOK_CONFIG.MAX_ENDPOINTS_PER_ORGANIZATION) {
+        return {
+          success: false,
+          error: {
+            code: 'CONFLICT_ERROR',
+            message: `登録できるエンドポイントは${WEBHOOK_CONFIG.MAX_ENDPOINTS_PER_ORGANIZATION}件までです`
+          }
+        }
+      }
+
+      // 内部ネットワークを送信先にさせない（配信時にも再検証する）
+      try {
+        await assertWebhookDestination(input.url)
+      } catch (error) {
+        return {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `送信先URLを登録できません: ${error instanceof Error ? error.message : String(error)}`
+          }
+        }
+      }
+
+      const secret = generateWebhookSecret()
+      const endpoint = await this.repositories.webhookEndpoints.create({
+        organization_id: access.organizationId,
+        url: input.url,
+        description: input.description ?? null,
+        event_types: [...new Set(input.eventTypes)],
+        secret,
+        is_active: true,
+        created_by: input.currentUserId
+      })
+
+      return {
+        success: true,
+        data: { endpoint: toWebhookEndpointView(endpoint), secret }
+      }
+    } catch (error) {
+      console.error('Create webhook endpoint usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { RepositoryContainer } from '@/core/ports'
+
+import { resolveWebhookAdminOrganization } from './getWebhookEndpoints'
+
+/**
+ * Webhook エンドポイント削除のユースケース入力
+ */
+export interface DeleteWebhookEndpointInput {
+  currentUserId: string
+  endpointId: number
+}
+
+/**
+ * Webhook エンドポイント削除のユースケース結果
+ */
+export type DeleteWebhookEndpointResult =
+  | { success: true; data: { message: string } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Webhook エンドポイント削除ユースケース
+ * 配信ログはエンドポイントと共に削除される（ON DELETE CASCADE）
+ */
+export class DeleteWebhookEndpointUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: DeleteWebhookEndpointInput): Promise<DeleteWebhookEndpointResult> {
+    try {
+      const access = await resolveWebhookAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const endpoint = await this.repositories.webhookEndpoints.findByIdAndOrganization(input.endpointId, access.organizationId)
+      if (!endpoint) {
+        return {
+          success: false,
+          error: { code: 'NOT_FOUND_ERROR', message: 'Webhookエンドポイントが見つかりません' }
+        }
+      }
+
+      const deleted = await this.repositories.webhookEndpoints.delete(endpoint.id)
+      if (!deleted) {
+        return {
+          success: false,
+          error: { code: 'REPOSITORY_ERROR', message: 'Webhookエンドポイントの削除に失敗しました' }
+        }
+      }
+
+      return {
+        success: true,
+        data: { message: 'Webhookエンドポイントを削除しました' }
+      }
+    } catch (error) {
+      console.error('Delete webhook endpoint usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { RepositoryContainer, WebhookDelivery, WebhookDeliveryStatus } from '@/core/ports'
+
+import { resolveWebhookAdminOrganization } from './getWebhookEndpoints'
+
+/**
+ * Webhook 配信ログ取得のユースケース入力
+ */
+export interface GetWebhookDeliveriesInput {
+  currentUserId: string
+  endpointId?: number
+  status?: WebhookDeliveryStatus
+  limit?: number
+}
+
+/**
+ * Webhook 配信ログ取得のユースケース結果
+ */
+export type GetWebhookDeliveriesResult =
+  | { success: true; data: { deliveries: WebhookDelivery[] } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Webhook 配信ログ取得ユースケース
+ */
+export class GetWebhookDeliveriesUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetWebhookDeliveriesInput): Promise<GetWebhookDeliveriesResult> {
+    try {
+      const access = await resolveWebhookAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const deliveries = await this.repositories.webhookDeliveries.searchDeliveries({
+        organizationId: access.organizationId,
+        endpointId: input.endpointId,
+        status: input.status,
+        limit: input.limit
+      })
+
+      return {
+        success: true,
+        data: { deliveries }
+      }
+    } catch (error) {
+      console.error('Get webhook deliveries usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { RepositoryContainer, WebhookEndpoint } from '@/core/ports'
+
+/**
+ * Webhook エンドポイント一覧取得のユースケース入力
+ */
+export interface GetWebhookEndpointsInput {
+  currentUserId: string
+}
+
+/**
+ * 画面・APIに返すエンドポイント情報（シークレットは末尾のみ表示）
+ */
+export interface WebhookEndpointView {
+  id: number
+  url: string
+  description: string | null
+  eventTypes: string[]
+  isActive: boolean
+  secretPreview: string
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+/**
+ * Webhook エンドポイント一覧取得のユースケース結果
+ */
+export type GetWebhookEndpointsResult =
+  | { success: true; data: { endpoints: WebhookEndpointView[] } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * エンドポイントのレコードを表示用に変換
+ */
+export function toWebhookEndpointView(endpoint: WebhookEndpoint): WebhookEndpointView {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    eventTypes: endpoint.event_types,
+    isActive: endpoint.is_active,
+    secretPreview: `whsec_…${endpoint.secret.slice(-4)}`,
+    createdAt: endpoint.created_at,
+    updatedAt: endpoint.updated_at
+  }
+}
+
+/**
+ * 組織管理者であることを確認し、組織IDを返す
+ */
+export async function resolveWebhookAdminOrganization(
+  repositories: RepositoryContainer,
+  currentUserId: string
+): Promise<{ organizationId: number } | { error: { code: string; message: string } }> {
+  const currentUser = await repositories.users.findById(currentUserId)
+  if (!currentUser) {
+    return { error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが見つかりません' } }
+  }
+  if (!currentUser.organization_id) {
+    return { error: { code: 'AUTHENTICATION_ERROR', message: 'ユーザーが組織に所属していません' } }
+  }
+  if (currentUser.role !== 'admin') {
+    return { error: { code: 'AUTHORIZATION_ERROR', message: '管理者権限が必要です' } }
+  }
+  return { organizationId: currentUser.organization_id }
+}
+
+/**
+ * Webhook エンドポイント一覧取得ユースケース
+ */
+export class GetWebhookEndpointsUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: GetWebhookEndpointsInput): Promise<GetWebhookEndpointsResult> {
+    try {
+      const access = await resolveWebhookAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const endpoints = await this.repositories.webhookEndpoints.findByOrganizationId(access.organizationId, {
+        orderBy: [{ field: 'created_at', direction: 'asc' }]
+      })
+
+      return {
+        success: true,
+        data: { endpoints: endpoints.map(toWebhookEndpointView) }
+      }
+    } catch (error) {
+      console.error('Get webhook endpoints usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
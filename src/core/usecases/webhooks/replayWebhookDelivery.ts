@@ -0,0 +1,76 @@
+import { RepositoryContainer, WebhookDelivery } from '@/core/ports'
+import { deliverWebhook } from '@/lib/webhooks'
+
+import { resolveWebhookAdminOrganization } from './getWebhookEndpoints'
+
+/**
+ * Webhook 再送のユースケース入力
+ */
+export interface ReplayWebhookDeliveryInput {
+  currentUserId: string
+  deliveryId: number
+}
+
+/**
+ * Webhook 再送のユースケース結果（新しく作成した配信ログの送信結果）
+ */
+export type ReplayWebhookDeliveryResult =
+  | { success: true; data: { delivery: WebhookDelivery } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Webhook 再送ユースケース
+ * 元の配信と同じペイロード・イベントIDで新しい配信ログを作成して即時送信する。
+ * 受信側はイベントIDで重複を排除できる。
+ */
+export class ReplayWebhookDeliveryUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: ReplayWebhookDeliveryInput): Promise<ReplayWebhookDeliveryResult> {
+    try {
+      const access = await resolveWebhookAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const original = await this.repositories.webhookDeliveries.findByIdAndOrganization(input.deliveryId, access.organizationId)
+      if (!original) {
+        return {
+          success: false,
+          error: { code: 'NOT_FOUND_ERROR', message: '配信ログが見つかりません' }
+        }
+      }
+
+      const endpoint = await this.repositories.webhookEndpoints.findByIdAndOrganization(original.endpoint_id, access.organizationId)
+      if (!endpoint?.is_active) {
+        return {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'エンドポイントが無効化されているため再送できません' }
+        }
+      }
+
+      const replay = await this.repositories.webhookDeliveries.create({
+        endpoint_id: original.endpoint_id,
+        organization_id: original.organization_id,
+        event_id: original.event_id,
+        event_type: original.event_type,
+        payload: original.payload,
+        status: 'pending',
+        replayed_from: original.id
+      })
+
+      const delivered = await deliverWebhook(replay.id, this.repositories)
+
+      return {
+        success: true,
+        data: { delivery: delivered ?? replay }
+      }
+    } catch (error) {
+      console.error('Replay webhook delivery usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { RepositoryContainer, WebhookEndpointUpdate } from '@/core/ports'
+import { assertWebhookDestination } from '@/lib/webhooks'
+
+import { resolveWebhookAdminOrganization, toWebhookEndpointView, WebhookEndpointView } from './getWebhookEndpoints'
+
+/**
+ * Webhook エンドポイント更新のユースケース入力
+ */
+export interface UpdateWebhookEndpointInput {
+  currentUserId: string
+  endpointId: number
+  updates: {
+    url?: string
+    description?: string | null
+    eventTypes?: string[]
+    isActive?: boolean
+  }
+}
+
+/**
+ * Webhook エンドポイント更新のユースケース結果
+ */
+export type UpdateWebhookEndpointResult =
+  | { success: true; data: { endpoint: WebhookEndpointView } }
+  | { success: false; error: { code: string; message: string } }
+
+/**
+ * Webhook エンドポイント更新ユースケース
+ */
+export class UpdateWebhookEndpointUseCase {
+  constructor(private repositories: RepositoryContainer) {}
+
+  async execute(input: UpdateWebhookEndpointInput): Promise<UpdateWebhookEndpointResult> {
+    try {
+      const access = await resolveWebhookAdminOrganization(this.repositories, input.currentUserId)
+      if ('error' in access) {
+        return { success: false, error: access.error }
+      }
+
+      const endpoint = await this.repositories.webhookEndpoints.findByIdAndOrganization(input.endpointId, access.organizationId)
+      if (!endpoint) {
+        return {
+          success: false,
+          error: { code: 'NOT_FOUND_ERROR', message: 'Webhookエンドポイントが見つかりません' }
+        }
+      }
+
+      // 内部ネットワークを送信先にさせない（配信時にも再検証する）
+      if (input.updates.url !== undefined) {
+        try {
+          await assertWebhookDestination(input.updates.url)
+        } catch (error) {
+          return {
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: `送信先URLを登録できません: ${error instanceof Error ? error.message : String(error)}`
+            }
+          }
+        }
+      }
+
+      const updates: WebhookEndpointUpdate = { updated_at: new Date().toISOString() }
+      if (input.updates.url !== undefined) updates.url = input.updates.url
+      if (input.updates.description !== undefined) updates.description = input.updates.description
+      if (input.updates.eventTypes !== undefined) updates.event_types = [...new Set(input.updates.eventTypes)]
+      if (input.updates.isActive !== undefined) updates.is_active = input.updates.isActive
+
+      const updated = await this.repositories.webhookEndpoints.update(endpoint.id, updates)
+      if (!updated) {
+        return {
+          success: false,
+          error: { code: 'REPOSITORY_ERROR', message: 'Webhookエンドポイントの更新に失敗しました' }
+        }
+      }
+
+      return {
+        success: true,
+        data: { endpoint: toWebhookEndpointView(updated) }
+      }
+    } catch (error) {
+      console.error('Update webhook endpoint usecase error:', error)
+      return {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: '内部エラーが発生しました' }
+      }
+    }
+  }
+}
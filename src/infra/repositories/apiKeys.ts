@@ -0,0 +1,87 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import { ApiKey, ApiKeyInsert, ApiKeysRepository, ApiKeyUpdate } from '@/core/ports/apiKeys'
+import { FindManyOptions } from '@/core/ports/base'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+/**
+ * Supabase implementation of ApiKeysRepository
+ */
+export class SupabaseApiKeysRepository
+  extends SupabaseBaseRepository<ApiKey, ApiKeyInsert, ApiKeyUpdate>
+  implements ApiKeysRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'api_keys')
+  }
+
+  async findByOrganizationId(organizationId: number, options?: FindManyOptions<ApiKey>): Promise<ApiKey[]> {
+    return this.findMany({
+      ...options,
+      where: { ...options?.where, organization_id: organizationId }
+    })
+  }
+
+  async findByIdAndOrganization(id: number, organizationId: number): Promise<ApiKey | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('api_keys')
+        .select('*')
+        .eq('id', id)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // No rows found
+        throw this.createRepositoryError('Failed to find API key by ID and organization', error)
+      }
+
+      return data as ApiKey
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding API key', error as Error)
+    }
+  }
+
+  async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('api_keys')
+        .select('*')
+        .eq('key_hash', keyHash)
+        .is('revoked_at', null)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // No rows found
+        throw this.createRepositoryError('Failed to find API key by hash', error)
+      }
+
+      return data as ApiKey
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding API key by hash', error as Error)
+    }
+  }
+
+  async countActiveByOrganizationId(organizationId: number): Promise<number> {
+    try {
+      const { count, error } = await this.supabase
+        .from('api_keys')
+        .select('*', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .is('revoked_at', null)
+
+      if (error) {
+        throw this.createRepositoryError('Failed to count active API keys', error)
+      }
+
+      return count ?? 0
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error counting API keys', error as Error)
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import { FindManyOptions } from '@/core/ports/base'
+import {
+  CheckBatch,
+  CheckBatchesRepository,
+  CheckBatchInsert,
+  CheckBatchItem,
+  CheckBatchUpdate
+} from '@/core/ports/checkBatches'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+/**
+ * Supabase implementation of CheckBatchesRepository
+ */
+export class SupabaseCheckBatchesRepository
+  extends SupabaseBaseRepository<CheckBatch, CheckBatchInsert, CheckBatchUpdate>
+  implements CheckBatchesRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'check_batches')
+  }
+
+  async findByIdAndOrganization(id: number, organizationId: number): Promise<CheckBatch | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('check_batches')
+        .select('*')
+        .eq('id', id)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // No rows found
+        throw this.createRepositoryError('Failed to find check batch by ID and organization', error)
+      }
+
+      return data as CheckBatch
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding check batch', error as Error)
+    }
+  }
+
+  async findByOrganizationId(organizationId: number, options?: FindManyOptions<CheckBatch>): Promise<CheckBatch[]> {
+    return this.findMany({
+      orderBy: [{ field: 'created_at', direction: 'desc' }],
+      ...options,
+      where: { ...options?.where, organization_id: organizationId }
+    })
+  }
+
+  async findItems(batchId: number): Promise<CheckBatchItem[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('checks')
+        .select(`
+          id, batch_item_label, status, original_text, modified_text, error_message, created_at, completed_at,
+          violations:violations(id, matched_text, reason, suggested_text, regulatory_category, severity)
+        `)
+        .eq('batch_id', batchId)
+        .is('deleted_at', null)
+        .order('id', { ascending: true })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find check batch items', error)
+      }
+
+      return (data ?? []) as unknown as CheckBatchItem[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding check batch items', error as Error)
+    }
+  }
+}
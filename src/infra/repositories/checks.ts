@@ -1,6 +1,7 @@
 import { SupabaseClient } from '@supabase/supabase-js'
 
 
+import { LlmUsageRow } from '@/constants/llmPricing'
 import { FindManyOptions } from '@/core/ports/base'
 import {
   Check,
@@ -14,6 +15,8 @@ import {
   CheckSearchResult,
   CheckWithViolations,
   CheckWithDetailedViolations,
+  CheckRunSummary,
+  CheckAnalyticsRow,
   ChecksRepository,
 } from '@/core/ports/checks'
 import { Database } from '@/types/database.types'
@@ -73,7 +76,7 @@ export class SupabaseChecksRepository
         .select(`
           *,
           users!inner(email),
-          violations:violations(id)
+          violations:violations(id, regulatory_category, severity)
         `)
         .eq('organization_id', organizationId)
         .is('deleted_at', null)
@@ -418,13 +421,26 @@ export class SupabaseChecksRepository
         .select(`
           *,
           users!inner(email),
-          violations!inner(
+          violations(
             id,
             start_pos,
             end_pos,
             reason,
             dictionary_id,
-            dictionaries(phrase, category)
+            global_dictionary_id,
+            matched_text,
+            confidence,
+            suggested_text,
+            alternative_suggestions,
+            decision,
+            selected_text,
+            decided_at,
+            regulatory_category,
+            severity,
+            page_number,
+            dom_selector,
+            dictionaries(phrase, category),
+            global_dictionaries(phrase, category)
           )
         `)
         .eq('id', id)
@@ -444,12 +460,108 @@ export class SupabaseChecksRepository
     }
   }
 
+  async findLlmUsageDaily(sinceDate: string, organizationId?: number): Promise<LlmUsageRow[]> {
+    try {
+      let query = this.supabase
+        .from('llm_usage_daily')
+        .select('*')
+        .gte('usage_date', sinceDate)
+        .order('usage_date', { ascending: true })
+
+      if (organizationId) {
+        query = query.eq('organization_id', organizationId)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find LLM usage', error)
+      }
+
+      return (data ?? []).flatMap(row =>
+        row.usage_date && row.organization_id !== null && row.user_id
+          ? [{
+              usage_date: row.usage_date,
+              organization_id: row.organization_id,
+              organization_name: row.organization_name,
+              user_id: row.user_id,
+              user_email: row.user_email,
+              check_count: row.check_count ?? 0,
+              prompt_tokens: row.prompt_tokens ?? 0,
+              completion_tokens: row.completion_tokens ?? 0,
+              cost_usd: Number(row.cost_usd ?? 0)
+            }]
+          : []
+      )
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding LLM usage', error as Error)
+    }
+  }
+
+  async getAnalytics(organizationId: number, since: Date): Promise<CheckAnalyticsRow> {
+    try {
+      const { data, error } = await this.supabase.rpc('get_check_analytics', {
+        org_id: organizationId,
+        since: since.toISOString()
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to aggregate check analytics', error)
+      }
+
+      return data as unknown as CheckAnalyticsRow
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error aggregating check analytics', error as Error)
+    }
+  }
+
   async logicalDelete(id: number): Promise<Check | null> {
     return this.update(id, {
       deleted_at: new Date().toISOString()
     })
   }
 
+  async bulkCreateForBatch(batchId: number, checks: Omit<CheckInsert, 'batch_id'>[]): Promise<Check[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('checks')
+        .insert(checks.map(check => ({ ...check, batch_id: batchId })))
+        .select()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to bulk create checks for batch', error)
+      }
+
+      return ((data ?? []) as Check[]).sort((a, b) => a.id - b.id)
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error bulk creating checks for batch', error as Error)
+    }
+  }
+
+  async findReruns(parentCheckId: number, organizationId: number): Promise<CheckRunSummary[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('checks')
+        .select('id, status, created_at, ai_model, dictionary_version')
+        .eq('parent_check_id', parentCheckId)
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .order('id', { ascending: true })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find re-runs of check', error)
+      }
+
+      return data ?? []
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding re-runs of check', error as Error)
+    }
+  }
+
   /**
    * Helper method to calculate hourly activity
    */
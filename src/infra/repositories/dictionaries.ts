@@ -9,8 +9,10 @@ import {
   DictionarySearchOptions,
   DictionaryCreateResponse,
   DictionariesRepository,
+  DictionaryEntry,
 } from '@/core/ports/dictionaries'
 import { createEmbedding } from '@/lib/ai-client'
+import { ProductCategory, RegulatoryCategoryCode } from '@/types/api'
 import { Database } from '@/types/database.types'
 
 
@@ -34,6 +36,25 @@ export class SupabaseDictionariesRepository
     })
   }
 
+  async findEntriesByOrganizationId(organizationId: number): Promise<DictionaryEntry[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('dictionaries')
+        .select('id, phrase, category, notes, regulatory_category, product_category')
+        .eq('organization_id', organizationId)
+        .order('id', { ascending: true })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find dictionary entries by organization', error)
+      }
+
+      return (data ?? []) as DictionaryEntry[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding dictionary entries', error as Error)
+    }
+  }
+
   async findByCategory(category: DictionaryCategory, options?: FindManyOptions<Dictionary>): Promise<Dictionary[]> {
     return this.findMany({ 
       ...options, 
@@ -234,6 +255,8 @@ export class SupabaseDictionariesRepository
     phrase: string
     category: DictionaryCategory
     notes?: string | null
+    regulatory_category?: RegulatoryCategoryCode | null
+    product_category?: ProductCategory | null
   }): Promise<DictionaryCreateResponse> {
     try {
       // 既存の辞書項目を取得
@@ -263,6 +286,16 @@ export class SupabaseDictionariesRepository
         updated_at: new Date().toISOString(),
       }
 
+      // 法的根拠は指定された場合のみ更新
+      if (data.regulatory_category !== undefined) {
+        updates.regulatory_category = data.regulatory_category
+      }
+
+      // 製品カテゴリは指定された場合のみ更新
+      if (data.product_category !== undefined) {
+        updates.product_category = data.product_category
+      }
+
       // フレーズが変更された場合のみvectorを更新
       if (phraseChanged && vector !== null) {
         (updates as DictionaryUpdate & { vector: string }).vector = vector
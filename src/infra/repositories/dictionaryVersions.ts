@@ -0,0 +1,176 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import {
+  DictionaryChange,
+  DictionaryChangeInsert,
+  DictionaryChangesRepository,
+  DictionaryChangeUpdate,
+  DictionaryChangeWithUser,
+  DictionarySnapshot,
+  DictionarySnapshotInsert,
+  DictionarySnapshotKind,
+  DictionarySnapshotsRepository,
+  DictionarySnapshotSummary,
+  DictionarySnapshotUpdate
+} from '@/core/ports/dictionaryVersions'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+const SNAPSHOT_SUMMARY_COLUMNS =
+  'id, organization_id, name, description, kind, item_count, last_change_id, created_by, created_at'
+
+/**
+ * Supabase implementation of DictionaryChangesRepository
+ */
+export class SupabaseDictionaryChangesRepository
+  extends SupabaseBaseRepository<DictionaryChange, DictionaryChangeInsert, DictionaryChangeUpdate>
+  implements DictionaryChangesRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'dictionary_changes')
+  }
+
+  async bulkCreate(data: DictionaryChangeInsert[]): Promise<DictionaryChange[]> {
+    if (data.length === 0) return []
+
+    try {
+      const { data: result, error } = await this.supabase
+        .from('dictionary_changes')
+        .insert(data)
+        .select()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to bulk create dictionary changes', error)
+      }
+
+      return (result ?? []) as DictionaryChange[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error bulk creating dictionary changes', error as Error)
+    }
+  }
+
+  async findByOrganizationId(
+    organizationId: number,
+    options?: { dictionaryId?: number; limit?: number; offset?: number }
+  ): Promise<DictionaryChangeWithUser[]> {
+    try {
+      let query = this.supabase
+        .from('dictionary_changes')
+        .select('*, changed_by_user:users!dictionary_changes_changed_by_fkey(email)')
+        .eq('organization_id', organizationId)
+        .order('id', { ascending: false })
+
+      if (options?.dictionaryId) {
+        query = query.eq('dictionary_id', options.dictionaryId)
+      }
+      if (options?.limit) {
+        const offset = options.offset ?? 0
+        query = query.range(offset, offset + options.limit - 1)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find dictionary changes', error)
+      }
+
+      return (data ?? []) as unknown as DictionaryChangeWithUser[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding dictionary changes', error as Error)
+    }
+  }
+
+  async findLatestId(organizationId: number): Promise<number | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('dictionary_changes')
+        .select('id')
+        .eq('organization_id', organizationId)
+        .order('id', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find latest dictionary change', error)
+      }
+
+      return data?.id ?? null
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding latest dictionary change', error as Error)
+    }
+  }
+}
+
+/**
+ * Supabase implementation of DictionarySnapshotsRepository
+ */
+export class SupabaseDictionarySnapshotsRepository
+  extends SupabaseBaseRepository<DictionarySnapshot, DictionarySnapshotInsert, DictionarySnapshotUpdate>
+  implements DictionarySnapshotsRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'dictionary_snapshots')
+  }
+
+  async findByIdAndOrganization(id: number, organizationId: number): Promise<DictionarySnapshot | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('dictionary_snapshots')
+        .select('*')
+        .eq('id', id)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // No rows found
+        throw this.createRepositoryError('Failed to find dictionary snapshot by ID and organization', error)
+      }
+
+      return data as DictionarySnapshot
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding dictionary snapshot', error as Error)
+    }
+  }
+
+  async findByOrganizationId(
+    organizationId: number,
+    options?: { kind?: DictionarySnapshotKind; limit?: number; offset?: number }
+  ): Promise<DictionarySnapshotSummary[]> {
+    try {
+      let query = this.supabase
+        .from('dictionary_snapshots')
+        .select(SNAPSHOT_SUMMARY_COLUMNS)
+        .eq('organization_id', organizationId)
+        .order('id', { ascending: false })
+
+      if (options?.kind) {
+        query = query.eq('kind', options.kind)
+      }
+      if (options?.limit) {
+        const offset = options.offset ?? 0
+        query = query.range(offset, offset + options.limit - 1)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find dictionary snapshots', error)
+      }
+
+      return (data ?? []) as DictionarySnapshotSummary[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding dictionary snapshots', error as Error)
+    }
+  }
+
+  async findLatest(organizationId: number): Promise<DictionarySnapshotSummary | null> {
+    const [latest] = await this.findByOrganizationId(organizationId, { limit: 1 })
+    return latest ?? null
+  }
+}
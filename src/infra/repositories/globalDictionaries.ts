@@ -0,0 +1,128 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import {
+  DictionaryOverride,
+  DictionaryOverrideInsert,
+  DictionaryOverridesRepository,
+  DictionaryOverrideUpdate,
+  GlobalDictionariesRepository,
+  GlobalDictionary,
+  GlobalDictionaryEntry,
+  GlobalDictionaryInsert,
+  GlobalDictionaryUpdate
+} from '@/core/ports/globalDictionaries'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+const GLOBAL_ENTRY_COLUMNS =
+  'id, phrase, category, notes, regulatory_category, product_category, version, is_active, created_at, updated_at'
+
+/**
+ * Supabase implementation of GlobalDictionariesRepository
+ */
+export class SupabaseGlobalDictionariesRepository
+  extends SupabaseBaseRepository<GlobalDictionary, GlobalDictionaryInsert, GlobalDictionaryUpdate>
+  implements GlobalDictionariesRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'global_dictionaries')
+  }
+
+  async findActiveEntries(): Promise<GlobalDictionaryEntry[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('global_dictionaries')
+        .select(GLOBAL_ENTRY_COLUMNS)
+        .eq('is_active', true)
+        .order('id', { ascending: true })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find global dictionary entries', error)
+      }
+
+      return (data ?? []) as GlobalDictionaryEntry[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding global dictionary entries', error as Error)
+    }
+  }
+
+  async findActiveById(id: number): Promise<GlobalDictionaryEntry | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('global_dictionaries')
+        .select(GLOBAL_ENTRY_COLUMNS)
+        .eq('id', id)
+        .eq('is_active', true)
+        .maybeSingle()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find global dictionary entry', error)
+      }
+
+      return data as GlobalDictionaryEntry | null
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding global dictionary entry', error as Error)
+    }
+  }
+}
+
+/**
+ * Supabase implementation of DictionaryOverridesRepository
+ */
+export class SupabaseDictionaryOverridesRepository
+  extends SupabaseBaseRepository<DictionaryOverride, DictionaryOverrideInsert, DictionaryOverrideUpdate>
+  implements DictionaryOverridesRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'dictionary_overrides')
+  }
+
+  async findByOrganizationId(organizationId: number): Promise<DictionaryOverride[]> {
+    return this.findMany({
+      where: { organization_id: organizationId },
+      orderBy: [{ field: 'global_dictionary_id', direction: 'asc' }]
+    })
+  }
+
+  async upsert(data: DictionaryOverrideInsert): Promise<DictionaryOverride> {
+    try {
+      const { data: result, error } = await this.supabase
+        .from('dictionary_overrides')
+        .upsert(data, { onConflict: 'organization_id,global_dictionary_id' })
+        .select()
+        .single()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to save dictionary override', error)
+      }
+
+      return result as DictionaryOverride
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error saving dictionary override', error as Error)
+    }
+  }
+
+  async deleteByGlobalDictionaryId(organizationId: number, globalDictionaryId: number): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from('dictionary_overrides')
+        .delete()
+        .eq('organization_id', organizationId)
+        .eq('global_dictionary_id', globalDictionaryId)
+        .select('id')
+
+      if (error) {
+        throw this.createRepositoryError('Failed to delete dictionary override', error)
+      }
+
+      return (data ?? []).length > 0
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error deleting dictionary override', error as Error)
+    }
+  }
+}
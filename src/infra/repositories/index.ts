@@ -4,14 +4,27 @@ import { RepositoryContainer } from '@/core/ports'
 import { SupabaseAuthRepository } from '@/lib/repositories/supabase/authRepository'
 import { Database } from '@/types/database.types'
 
+import { SupabaseApiKeysRepository } from './apiKeys'
+import { SupabaseCheckBatchesRepository } from './checkBatches'
 import { SupabaseChecksRepository } from './checks'
 import { SupabaseDictionariesRepository } from './dictionaries'
+import { SupabaseDictionaryChangesRepository, SupabaseDictionarySnapshotsRepository } from './dictionaryVersions'
+import { SupabaseDictionaryOverridesRepository, SupabaseGlobalDictionariesRepository } from './globalDictionaries'
+import { SupabaseJobsRepository } from './jobs'
 import { SupabaseOrganizationsRepository } from './organizations'
+import { SupabaseRateLimitCountersRepository } from './rateLimits'
 import { SupabaseRealtimeRepository } from './realtime'
 import { SupabaseStorageRepository } from './supabaseStorageRepository'
+import {
+  SupabaseFeatureFlagsRepository,
+  SupabaseSettingsAuditLogsRepository,
+  SupabaseSystemSettingsRepository
+} from './systemSettings'
 import { SupabaseUserInvitationsRepository } from './user-invitations'
 import { SupabaseUsersRepository } from './users'
+import { SupabaseViolationFeedbackRepository } from './violationFeedback'
 import { SupabaseViolationsRepository } from './violations'
+import { SupabaseWebhookDeliveriesRepository, SupabaseWebhookEndpointsRepository } from './webhooks'
 
 /**
  * Create repository container with all repositories
@@ -40,11 +53,25 @@ export function createRepositories(
     checks: new SupabaseChecksRepository(supabase),
     organizations: new SupabaseOrganizationsRepository(supabase),
     dictionaries: new SupabaseDictionariesRepository(supabase),
+    dictionaryChanges: new SupabaseDictionaryChangesRepository(supabase),
+    dictionarySnapshots: new SupabaseDictionarySnapshotsRepository(supabase),
+    globalDictionaries: new SupabaseGlobalDictionariesRepository(supabase),
+    dictionaryOverrides: new SupabaseDictionaryOverridesRepository(supabase),
     violations: new SupabaseViolationsRepository(supabase),
+    violationFeedback: new SupabaseViolationFeedbackRepository(supabase),
     userInvitations: new SupabaseUserInvitationsRepository(supabase),
     realtime: new SupabaseRealtimeRepository(supabase),
     auth: authRepository,
     storage: new SupabaseStorageRepository(supabase),
+    webhookEndpoints: new SupabaseWebhookEndpointsRepository(supabase),
+    webhookDeliveries: new SupabaseWebhookDeliveriesRepository(supabase),
+    apiKeys: new SupabaseApiKeysRepository(supabase),
+    checkBatches: new SupabaseCheckBatchesRepository(supabase),
+    jobs: new SupabaseJobsRepository(supabase),
+    systemSettings: new SupabaseSystemSettingsRepository(supabase),
+    featureFlags: new SupabaseFeatureFlagsRepository(supabase),
+    settingsAuditLogs: new SupabaseSettingsAuditLogsRepository(supabase),
+    rateLimitCounters: new SupabaseRateLimitCountersRepository(supabase),
   }
 }
 
@@ -53,9 +80,18 @@ export * from './users'
 export * from './checks'
 export * from './organizations'
 export * from './dictionaries'
+export * from './dictionaryVersions'
+export * from './globalDictionaries'
 export * from './violations'
+export * from './violationFeedback'
 export * from './user-invitations'
 export * from './realtime'
 export * from './base'
 export * from './supabaseStorageRepository'
+export * from './systemSettings'
+export * from './webhooks'
+export * from './apiKeys'
+export * from './checkBatches'
+export * from './jobs'
+export * from './rateLimits'
 export { SupabaseAuthRepository } from '@/lib/repositories/supabase/authRepository'
\ No newline at end of file
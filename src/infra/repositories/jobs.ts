@@ -0,0 +1,247 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import { JobQueueName, JobTierPolicy } from '@/constants/jobQueue'
+import {
+  Job,
+  JobInsert,
+  JobQueueDepth,
+  JobReapResult,
+  JobsRepository,
+  JobUpdate,
+  ReapedFailedCheck
+} from '@/core/ports/jobs'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+/**
+ * Supabase implementation of JobsRepository
+ * Claiming, leases and reaping are implemented as SQL functions (see add_job_queue migration)
+ */
+export class SupabaseJobsRepository
+  extends SupabaseBaseRepository<Job, JobInsert, JobUpdate>
+  implements JobsRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'jobs')
+  }
+
+  async enqueueMany(jobs: JobInsert[]): Promise<Job[]> {
+    if (jobs.length === 0) return []
+    try {
+      const { data, error } = await this.supabase
+        .from('jobs')
+        .insert(jobs)
+        .select()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to enqueue jobs', error)
+      }
+
+      return ((data ?? []) as Job[]).sort((a, b) => a.id - b.id)
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error enqueueing jobs', error as Error)
+    }
+  }
+
+  async claim(queue: JobQueueName, workerId: string, limit: number, leaseSeconds: number): Promise<Job[]> {
+    try {
+      const { data, error } = await this.supabase.rpc('claim_jobs', {
+        p_queue: queue,
+        p_worker_id: workerId,
+        p_limit: limit,
+        p_lease_seconds: leaseSeconds
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to claim jobs', error)
+      }
+
+      return (data ?? []) as Job[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error claiming jobs', error as Error)
+    }
+  }
+
+  async claimFair(
+    queue: JobQueueName,
+    workerId: string,
+    limit: number,
+    leaseSeconds: number,
+    policies: Record<string, JobTierPolicy>
+  ): Promise<Job[]> {
+    try {
+      const tierPolicies = Object.fromEntries(
+        Object.entries(policies).map(([plan, policy]) => [plan, { weight: policy.weight, max_concurrent: policy.maxConcurrent }])
+      )
+      const { data, error } = await this.supabase.rpc('claim_fair_jobs', {
+        p_queue: queue,
+        p_worker_id: workerId,
+        p_limit: limit,
+        p_lease_seconds: leaseSeconds,
+        p_tier_policies: tierPolicies
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to claim jobs', error)
+      }
+
+      return (data ?? []) as Job[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error claiming jobs', error as Error)
+    }
+  }
+
+  async heartbeat(workerId: string, jobIds: number[], leaseSeconds: number): Promise<number[]> {
+    if (jobIds.length === 0) return []
+    try {
+      const { data, error } = await this.supabase.rpc('heartbeat_jobs', {
+        p_worker_id: workerId,
+        p_job_ids: jobIds,
+        p_lease_seconds: leaseSeconds
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to extend job leases', error)
+      }
+
+      return (data ?? []) as number[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error extending job leases', error as Error)
+    }
+  }
+
+  async complete(jobId: number, workerId: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase.rpc('complete_job', {
+        p_job_id: jobId,
+        p_worker_id: workerId
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to complete job', error)
+      }
+
+      return data === true
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error completing job', error as Error)
+    }
+  }
+
+  async fail(jobId: number, workerId: string, errorMessage: string, retryAt: Date | null, priority?: number): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase.rpc('fail_job', {
+        p_job_id: jobId,
+        p_worker_id: workerId,
+        p_error: errorMessage,
+        p_retry_at: retryAt?.toISOString(),
+        p_priority: priority
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to record job failure', error)
+      }
+
+      return data === true
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error recording job failure', error as Error)
+    }
+  }
+
+  async reap(orphanGraceSeconds: number): Promise<JobReapResult> {
+    try {
+      const { data, error } = await this.supabase.rpc('reap_jobs', {
+        p_orphan_grace_seconds: orphanGraceSeconds
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to reap jobs', error)
+      }
+
+      const row = data?.[0]
+      return {
+        expiredRequeued: row?.expired_requeued ?? 0,
+        expiredFailed: row?.expired_failed ?? 0,
+        orphanedRequeued: row?.orphaned_requeued ?? 0,
+        orphanedFailed: row?.orphaned_failed ?? 0,
+        failedChecks: Array.isArray(row?.failed_checks)
+          ? row.failed_checks as unknown as ReapedFailedCheck[]
+          : []
+      }
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error reaping jobs', error as Error)
+    }
+  }
+
+  async findByGroupId(groupId: string): Promise<Job[]> {
+    return this.findMany({
+      where: { group_id: groupId },
+      orderBy: [{ field: 'id', direction: 'asc' }]
+    })
+  }
+
+  async cancelQueued(queue: JobQueueName, filter: { organizationId?: number; groupId?: string }): Promise<number> {
+    try {
+      let query = this.supabase
+        .from('jobs')
+        .update({ status: 'cancelled', completed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('queue', queue)
+        .eq('status', 'queued')
+
+      if (filter.organizationId !== undefined) {
+        query = query.eq('organization_id', filter.organizationId)
+      }
+      if (filter.groupId !== undefined) {
+        query = query.eq('group_id', filter.groupId)
+      }
+
+      const { data, error } = await query.select('id')
+
+      if (error) {
+        throw this.createRepositoryError('Failed to cancel queued jobs', error)
+      }
+
+      return data?.length ?? 0
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error cancelling queued jobs', error as Error)
+    }
+  }
+
+  async countActive(queue: JobQueueName): Promise<{ queued: number; running: number }> {
+    const [queued, running] = await Promise.all([
+      this.count({ queue, status: 'queued' }),
+      this.count({ queue, status: 'running' })
+    ])
+    return { queued, running }
+  }
+
+  async getDepthByOrganization(queue: JobQueueName): Promise<JobQueueDepth[]> {
+    try {
+      const { data, error } = await this.supabase.rpc('job_queue_depth', { p_queue: queue })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to get queue depth', error)
+      }
+
+      return (data ?? []).map(row => ({
+        organizationId: row.organization_id,
+        organizationName: row.organization_name,
+        plan: row.plan,
+        queued: row.queued,
+        running: row.running,
+        oldestQueuedAt: row.oldest_queued_at
+      }))
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error getting queue depth', error as Error)
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import {
+  RateLimitCounter,
+  RateLimitCounterInsert,
+  RateLimitCountersRepository,
+  RateLimitCounterUpdate,
+  RateLimitWindowCount
+} from '@/core/ports/rateLimits'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+/**
+ * Supabase implementation of RateLimitCountersRepository
+ * Counting is implemented as SQL functions (see add_rate_limits migration)
+ */
+export class SupabaseRateLimitCountersRepository
+  extends SupabaseBaseRepository<RateLimitCounter, RateLimitCounterInsert, RateLimitCounterUpdate>
+  implements RateLimitCountersRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'rate_limit_counters')
+  }
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitWindowCount> {
+    try {
+      const { data, error } = await this.supabase.rpc('hit_rate_limit', {
+        p_key: key,
+        p_window_seconds: windowSeconds
+      })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to count rate limit hit', error)
+      }
+
+      const row = data?.[0]
+      return {
+        currentCount: row?.current_count ?? 1,
+        previousCount: row?.previous_count ?? 0,
+        elapsedSeconds: row?.elapsed_seconds ?? 0
+      }
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error counting rate limit hit', error as Error)
+    }
+  }
+
+  async prune(): Promise<number> {
+    try {
+      const { data, error } = await this.supabase.rpc('prune_rate_limit_counters')
+
+      if (error) {
+        throw this.createRepositoryError('Failed to prune rate limit counters', error)
+      }
+
+      return data ?? 0
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error pruning rate limit counters', error as Error)
+    }
+  }
+}
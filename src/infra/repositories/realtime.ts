@@ -99,6 +99,11 @@ export class SupabaseRealtimeRepository implements RealtimeRepository {
             end_pos,
             reason,
             dictionary_id,
+            matched_text,
+            confidence,
+            image_regions,
+            page_number,
+            dom_selector,
             dictionaries (
               id,
               phrase,
@@ -122,6 +127,7 @@ export class SupabaseRealtimeRepository implements RealtimeRepository {
         original_text: checkData.original_text,
         extracted_text: checkData.extracted_text,
         image_url: checkData.image_url,
+        source_url: checkData.source_url,
         ocr_status: checkData.ocr_status,
         ocr_metadata: checkData.ocr_metadata as Record<string, unknown> | null,
         modified_text: checkData.modified_text,
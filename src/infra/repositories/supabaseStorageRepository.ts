@@ -5,6 +5,7 @@ import {
   UploadResult, 
   SignedUrlResult, 
   DeleteResult, 
+  DownloadResult,
   PublicUrlResult, 
   UploadOptions,
   StorageResult
@@ -87,6 +88,31 @@ export class SupabaseStorageRepository implements StorageRepository {
     }
   }
 
+  /**
+   * ファイルをダウンロード
+   */
+  async downloadFile(bucket: string, path: string): Promise<DownloadResult> {
+    try {
+      const { data, error } = await this.client.storage
+        .from(bucket)
+        .download(path)
+
+      if (error) {
+        return { data: null, error }
+      }
+
+      return { 
+        data: { body: new Uint8Array(await data.arrayBuffer()), contentType: data.type || null }, 
+        error: null 
+      }
+    } catch (error) {
+      return { 
+        data: null, 
+        error: error instanceof Error ? error : new Error('Unknown download error') 
+      }
+    }
+  }
+
   /**
    * ファイルを削除
    */
@@ -0,0 +1,139 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import {
+  FeatureFlag,
+  FeatureFlagInsert,
+  FeatureFlagsRepository,
+  FeatureFlagUpdate,
+  SettingsAuditLog,
+  SettingsAuditLogInsert,
+  SettingsAuditLogsRepository,
+  SettingsAuditLogUpdate,
+  SettingsAuditLogWithUser,
+  SystemSetting,
+  SystemSettingInsert,
+  SystemSettingKey,
+  SystemSettingsRepository,
+  SystemSettingUpdate
+} from '@/core/ports/systemSettings'
+import { Database, Json } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+/**
+ * Supabase implementation of SystemSettingsRepository
+ */
+export class SupabaseSystemSettingsRepository
+  extends SupabaseBaseRepository<SystemSetting, SystemSettingInsert, SystemSettingUpdate>
+  implements SystemSettingsRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'system_settings')
+  }
+
+  async findByKey(key: SystemSettingKey): Promise<SystemSetting | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('system_settings')
+        .select('*')
+        .eq('key', key)
+        .maybeSingle()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find system settings', error)
+      }
+
+      return data
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding system settings', error as Error)
+    }
+  }
+
+  async upsertByKey(key: SystemSettingKey, value: Json, updatedBy: string): Promise<SystemSetting> {
+    try {
+      const { data, error } = await this.supabase
+        .from('system_settings')
+        .upsert({ key, value, updated_by: updatedBy }, { onConflict: 'key' })
+        .select()
+        .single()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to save system settings', error)
+      }
+
+      return data
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error saving system settings', error as Error)
+    }
+  }
+}
+
+/**
+ * Supabase implementation of FeatureFlagsRepository
+ */
+export class SupabaseFeatureFlagsRepository
+  extends SupabaseBaseRepository<FeatureFlag, FeatureFlagInsert, FeatureFlagUpdate>
+  implements FeatureFlagsRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'feature_flags')
+  }
+
+  async findAll(): Promise<FeatureFlag[]> {
+    return this.findMany({
+      orderBy: [{ field: 'key', direction: 'asc' }]
+    })
+  }
+
+  async findByKey(key: string): Promise<FeatureFlag | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('feature_flags')
+        .select('*')
+        .eq('key', key)
+        .maybeSingle()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find feature flag', error)
+      }
+
+      return data
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding feature flag', error as Error)
+    }
+  }
+}
+
+/**
+ * Supabase implementation of SettingsAuditLogsRepository
+ */
+export class SupabaseSettingsAuditLogsRepository
+  extends SupabaseBaseRepository<SettingsAuditLog, SettingsAuditLogInsert, SettingsAuditLogUpdate>
+  implements SettingsAuditLogsRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'settings_audit_logs')
+  }
+
+  async findRecent(limit: number): Promise<SettingsAuditLogWithUser[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('settings_audit_logs')
+        .select('*, changed_by_user:users!settings_audit_logs_changed_by_fkey(email)')
+        .order('id', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find settings audit logs', error)
+      }
+
+      return (data ?? []) as unknown as SettingsAuditLogWithUser[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding settings audit logs', error as Error)
+    }
+  }
+}
@@ -82,6 +82,25 @@ export class SupabaseUsersRepository
     }
   }
 
+  async isPlatformAdmin(id: string): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from('platform_admins')
+        .select('user_id')
+        .eq('user_id', id)
+        .maybeSingle()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to check platform admin status', error)
+      }
+
+      return data !== null
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error checking platform admin status', error as Error)
+    }
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     try {
       const { data, error } = await this.supabase
@@ -0,0 +1,160 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import {
+  DictionaryEntryPrecision,
+  ViolationFeedback,
+  ViolationFeedbackInsert,
+  ViolationFeedbackRepository,
+  ViolationFeedbackStatus,
+  ViolationFeedbackType,
+  ViolationFeedbackUpdate
+} from '@/core/ports/violationFeedback'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+/**
+ * Supabase implementation of ViolationFeedbackRepository
+ */
+export class SupabaseViolationFeedbackRepository
+  extends SupabaseBaseRepository<ViolationFeedback, ViolationFeedbackInsert, ViolationFeedbackUpdate>
+  implements ViolationFeedbackRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'violation_feedback')
+  }
+
+  async findByCheckId(checkId: number): Promise<ViolationFeedback[]> {
+    return this.findMany({
+      where: { check_id: checkId },
+      orderBy: [{ field: 'created_at', direction: 'asc' }]
+    })
+  }
+
+  async findOpenByOrganizationId(organizationId: number): Promise<ViolationFeedback[]> {
+    return this.findMany({
+      where: { organization_id: organizationId, status: 'open' },
+      orderBy: [{ field: 'created_at', direction: 'desc' }]
+    })
+  }
+
+  async upsertForViolation(data: ViolationFeedbackInsert): Promise<ViolationFeedback> {
+    try {
+      const { data: result, error } = await this.supabase
+        .from('violation_feedback')
+        .upsert(data, { onConflict: 'violation_id' })
+        .select()
+        .single()
+
+      if (error) {
+        throw this.createRepositoryError('Failed to save violation feedback', error)
+      }
+
+      return result as ViolationFeedback
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error saving violation feedback', error as Error)
+    }
+  }
+
+  async deleteByViolationId(violationId: number): Promise<boolean> {
+    try {
+      const { data, error } = await this.supabase
+        .from('violation_feedback')
+        .delete()
+        .eq('violation_id', violationId)
+        .select('id')
+
+      if (error) {
+        throw this.createRepositoryError('Failed to delete violation feedback', error)
+      }
+
+      return (data ?? []).length > 0
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error deleting violation feedback', error as Error)
+    }
+  }
+
+  async resolve(
+    ids: number[],
+    status: Exclude<ViolationFeedbackStatus, 'open'>,
+    resolvedBy: string
+  ): Promise<number> {
+    if (ids.length === 0) return 0
+
+    try {
+      const { data, error } = await this.supabase
+        .from('violation_feedback')
+        .update({ status, resolved_by: resolvedBy, resolved_at: new Date().toISOString() })
+        .in('id', ids)
+        .eq('status', 'open')
+        .select('id')
+
+      if (error) {
+        throw this.createRepositoryError('Failed to resolve violation feedback', error)
+      }
+
+      return (data ?? []).length
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error resolving violation feedback', error as Error)
+    }
+  }
+
+  async countByTypeSince(organizationId: number, since: Date): Promise<Record<ViolationFeedbackType, number>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('violation_feedback')
+        .select('feedback_type')
+        .eq('organization_id', organizationId)
+        .gte('created_at', since.toISOString())
+
+      if (error) {
+        throw this.createRepositoryError('Failed to count violation feedback', error)
+      }
+
+      const counts: Record<ViolationFeedbackType, number> = {
+        correct: 0,
+        false_positive: 0,
+        wrong_reason: 0,
+        missed: 0
+      }
+      for (const row of data ?? []) {
+        counts[row.feedback_type]++
+      }
+      return counts
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error counting violation feedback', error as Error)
+    }
+  }
+
+  async findPrecisionByOrganizationId(organizationId: number): Promise<DictionaryEntryPrecision[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('dictionary_entry_precision')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .order('precision_rate', { ascending: true })
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find dictionary entry precision', error)
+      }
+
+      return (data ?? []).map(row => ({
+        dictionaryId: row.dictionary_id,
+        globalDictionaryId: row.global_dictionary_id,
+        phrase: row.phrase,
+        correctCount: row.correct_count ?? 0,
+        wrongReasonCount: row.wrong_reason_count ?? 0,
+        falsePositiveCount: row.false_positive_count ?? 0,
+        precisionRate: row.precision_rate,
+        lastFeedbackAt: row.last_feedback_at
+      }))
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding dictionary entry precision', error as Error)
+    }
+  }
+}
@@ -64,6 +64,30 @@ export class SupabaseViolationsRepository
     }
   }
 
+  async findLegalBasisByOrganizationId(
+    organizationId: number
+  ): Promise<Pick<Violation, 'regulatory_category' | 'severity'>[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('violations')
+        .select('regulatory_category, severity, checks!inner(organization_id, deleted_at)')
+        .eq('checks.organization_id', organizationId)
+        .is('checks.deleted_at', null)
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find legal basis of violations by organization', error)
+      }
+
+      return (data ?? []).map(row => ({
+        regulatory_category: row.regulatory_category,
+        severity: row.severity
+      }))
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding legal basis of violations', error as Error)
+    }
+  }
+
   async deleteByCheckId(checkId: number): Promise<boolean> {
     try {
       const { error } = await this.supabase
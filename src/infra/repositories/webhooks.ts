@@ -0,0 +1,160 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import { FindManyOptions } from '@/core/ports/base'
+import {
+  WebhookDeliveriesRepository,
+  WebhookDelivery,
+  WebhookDeliveryInsert,
+  WebhookDeliverySearchOptions,
+  WebhookDeliveryUpdate,
+  WebhookEndpoint,
+  WebhookEndpointInsert,
+  WebhookEndpointsRepository,
+  WebhookEndpointUpdate,
+} from '@/core/ports/webhooks'
+import { Database } from '@/types/database.types'
+
+import { SupabaseBaseRepository } from './base'
+
+/**
+ * Supabase implementation of WebhookEndpointsRepository
+ */
+export class SupabaseWebhookEndpointsRepository
+  extends SupabaseBaseRepository<WebhookEndpoint, WebhookEndpointInsert, WebhookEndpointUpdate>
+  implements WebhookEndpointsRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'webhook_endpoints')
+  }
+
+  async findByOrganizationId(organizationId: number, options?: FindManyOptions<WebhookEndpoint>): Promise<WebhookEndpoint[]> {
+    return this.findMany({
+      ...options,
+      where: { ...options?.where, organization_id: organizationId }
+    })
+  }
+
+  async findByIdAndOrganization(id: number, organizationId: number): Promise<WebhookEndpoint | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .eq('id', id)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // No rows found
+        throw this.createRepositoryError('Failed to find webhook endpoint by ID and organization', error)
+      }
+
+      return data as WebhookEndpoint
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding webhook endpoint', error as Error)
+    }
+  }
+
+  async findActiveByEventType(organizationId: number, eventType: string): Promise<WebhookEndpoint[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('webhook_endpoints')
+        .select('*')
+        .eq('organization_id', organizationId)
+        .eq('is_active', true)
+        .or(`event_types.eq.{},event_types.cs.{${eventType}}`)
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find webhook endpoints for event', error)
+      }
+
+      return (data ?? []) as WebhookEndpoint[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding webhook endpoints for event', error as Error)
+    }
+  }
+}
+
+/**
+ * Supabase implementation of WebhookDeliveriesRepository
+ */
+export class SupabaseWebhookDeliveriesRepository
+  extends SupabaseBaseRepository<WebhookDelivery, WebhookDeliveryInsert, WebhookDeliveryUpdate>
+  implements WebhookDeliveriesRepository
+{
+  constructor(supabase: SupabaseClient<Database>) {
+    super(supabase, 'webhook_deliveries')
+  }
+
+  async searchDeliveries(options: WebhookDeliverySearchOptions): Promise<WebhookDelivery[]> {
+    try {
+      let query = this.supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('organization_id', options.organizationId)
+        .order('created_at', { ascending: false })
+        .limit(options.limit ?? 50)
+
+      if (options.endpointId) {
+        query = query.eq('endpoint_id', options.endpointId)
+      }
+      if (options.status) {
+        query = query.eq('status', options.status)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        throw this.createRepositoryError('Failed to search webhook deliveries', error)
+      }
+
+      return (data ?? []) as WebhookDelivery[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error searching webhook deliveries', error as Error)
+    }
+  }
+
+  async findByIdAndOrganization(id: number, organizationId: number): Promise<WebhookDelivery | null> {
+    try {
+      const { data, error } = await this.supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('id', id)
+        .eq('organization_id', organizationId)
+        .single()
+
+      if (error) {
+        if (error.code === 'PGRST116') return null // No rows found
+        throw this.createRepositoryError('Failed to find webhook delivery by ID and organization', error)
+      }
+
+      return data as WebhookDelivery
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding webhook delivery', error as Error)
+    }
+  }
+
+  async findDueRetries(now: string, limit = 20): Promise<WebhookDelivery[]> {
+    try {
+      const { data, error } = await this.supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('status', 'retrying')
+        .lte('next_attempt_at', now)
+        .order('next_attempt_at', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        throw this.createRepositoryError('Failed to find due webhook retries', error)
+      }
+
+      return (data ?? []) as WebhookDelivery[]
+    } catch (error) {
+      if (error instanceof Error && 'code' in error) throw error
+      throw this.createRepositoryError('Unexpected error finding due webhook retries', error as Error)
+    }
+  }
+}
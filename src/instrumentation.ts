@@ -0,0 +1,13 @@
+/**
+ * サーバー起動時のフック（Next.js instrumentation）
+ * Node.js ランタイムでジョブキューのワーカーを起動し、前回停止時に取り残されたジョブ・チェックを回収する
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { queueManager } = await import('@/lib/queue-manager')
+  const { embeddingQueue } = await import('@/lib/embedding-queue')
+
+  queueManager.start()
+  embeddingQueue.start()
+}
@@ -13,6 +13,8 @@
  * - ai-client/lmstudio-client.ts - LM Studio実装
  * - ai-client/mock-client.ts - モック実装
  * - ai-client/factory.ts - ファクトリー
+ * - ai-client/circuit-breaker.ts - プロバイダー別サーキットブレーカー
+ * - ai-client/provider-chain.ts - プロバイダーのフォールバックチェーン
  * - ai-client/main.ts - メイン統合関数
  */
 
@@ -25,6 +27,7 @@ export {
   createChatCompletionForCheck, 
   createEmbedding,
   extractTextFromImageWithLLM,
+  extractTextLayoutFromImageWithLLM,
   getEmbeddingDimension 
 } from './ai-client/main'
 
@@ -0,0 +1,109 @@
+/**
+ * AI プロバイダー用サーキットブレーカー
+ * 連続失敗したプロバイダーを一定時間遮断し、フォールバック先へ処理を回す
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  /** 連続失敗がこの回数に達したら遮断する */
+  failureThreshold: number
+  /** 遮断から試行（half_open）に移るまでの待機時間（ミリ秒） */
+  cooldownMs: number
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState
+  consecutiveFailures: number
+  totalRequests: number
+  totalFailures: number
+  lastError: string | null
+  lastFailureAt: string | null
+  lastSuccessAt: string | null
+  openedAt: string | null
+}
+
+/**
+ * closed（通常）→ open（遮断）→ half_open（試行）の3状態で管理するサーキットブレーカー
+ * - closed: すべてのリクエストを通し、連続失敗が閾値に達すると open へ
+ * - open: 待機時間が経過するまでリクエストを通さない。経過後は half_open へ
+ * - half_open: 1件だけ試行を通し、成功すれば closed、失敗すれば再び open へ
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private totalRequests = 0
+  private totalFailures = 0
+  private lastError: string | null = null
+  private lastFailureAt: number | null = null
+  private lastSuccessAt: number | null = null
+  private openedAt: number | null = null
+  private trialInFlight = false
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * リクエストを通してよいか判定する（half_open 中の試行枠を確保する）
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'open') {
+      if (this.openedAt !== null && now - this.openedAt < this.options.cooldownMs) {
+        return false
+      }
+      this.state = 'half_open'
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) return false
+      this.trialInFlight = true
+    }
+
+    this.totalRequests++
+    return true
+  }
+
+  recordSuccess(now: number = Date.now()): void {
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+    this.lastSuccessAt = now
+  }
+
+  recordFailure(error: unknown, now: number = Date.now()): void {
+    this.consecutiveFailures++
+    this.totalFailures++
+    this.lastError = error instanceof Error ? error.message : String(error)
+    this.lastFailureAt = now
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = now
+    }
+    this.trialInFlight = false
+  }
+
+  /**
+   * 現在の状態を取得する（待機時間を過ぎた open は half_open として報告）
+   */
+  getState(now: number = Date.now()): CircuitState {
+    if (this.state === 'open' && this.openedAt !== null && now - this.openedAt >= this.options.cooldownMs) {
+      return 'half_open'
+    }
+    return this.state
+  }
+
+  getSnapshot(now: number = Date.now()): CircuitBreakerSnapshot {
+    const toIso = (time: number | null) => (time === null ? null : new Date(time).toISOString())
+    return {
+      state: this.getState(now),
+      consecutiveFailures: this.consecutiveFailures,
+      totalRequests: this.totalRequests,
+      totalFailures: this.totalFailures,
+      lastError: this.lastError,
+      lastFailureAt: toIso(this.lastFailureAt),
+      lastSuccessAt: toIso(this.lastSuccessAt),
+      openedAt: toIso(this.openedAt)
+    }
+  }
+}
@@ -40,6 +40,46 @@ export function getApiKey(): string | null {
   return null
 }
 
+/**
+ * プロバイダー別のAPIキーを取得
+ * メインプロバイダーは `getApiKey()` と同じ解決順、それ以外はプロバイダー専用の環境変数のみを使用する
+ */
+export function getProviderApiKey(provider: SupportedProvider): string | null {
+  if (provider === aiProvider) return getApiKey()
+
+  switch (provider) {
+    case 'openai': return legacyOpenAIKey ? process.env.OPENAI_API_KEY! : null
+    case 'openrouter': return legacyOpenRouterKey ? process.env.OPENROUTER_API_KEY! : null
+    case 'lmstudio': return process.env.LM_STUDIO_API_KEY ?? 'lm-studio'
+    default: return null
+  }
+}
+
+/**
+ * チェック処理で使用するプロバイダーのフォールバック順を取得
+ * `AI_PROVIDER_CHAIN`（例: `openrouter,openai,lmstudio`）が未設定の場合はメインプロバイダーのみ
+ */
+export function getProviderChain(): SupportedProvider[] {
+  const configured = (process.env.AI_PROVIDER_CHAIN ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is SupportedProvider =>
+      name === 'openai' || name === 'openrouter' || name === 'lmstudio' || name === 'mock'
+    )
+
+  return configured.length > 0 ? [...new Set(configured)] : [aiProvider]
+}
+
+/**
+ * プロバイダー別サーキットブレーカーの設定
+ */
+export const CIRCUIT_BREAKER_CONFIG = {
+  /** 連続失敗がこの回数に達したら遮断（open）する */
+  FAILURE_THRESHOLD: Number(process.env.AI_CIRCUIT_FAILURE_THRESHOLD ?? 3),
+  /** 遮断から試行（half_open）に移るまでの待機時間（ミリ秒） */
+  COOLDOWN_MS: Number(process.env.AI_CIRCUIT_COOLDOWN_MS ?? 30000)
+} as const
+
 /**
  * チャットモデル名を取得
  */
@@ -61,6 +101,22 @@ export const getChatModel = (() => {
   }
 })()
 
+/**
+ * フォールバック用プロバイダーのチャットモデル名を取得
+ * メインプロバイダーは `AI_CHAT_MODEL` を、それ以外はプロバイダー別の環境変数を使用する
+ */
+export function getProviderChatModel(provider: SupportedProvider): string {
+  if (provider === aiProvider) return getChatModel
+
+  switch (provider) {
+    case 'openai': return process.env.OPENAI_CHAT_MODEL ?? 'gpt-4o'
+    case 'openrouter': return process.env.OPENROUTER_CHAT_MODEL ?? 'openai/gpt-4o'
+    case 'lmstudio': return process.env.LM_STUDIO_CHAT_MODEL ?? 'llama-3.1-8b-instruct'
+    case 'mock': return 'mock-chat-model'
+    default: return 'gpt-4o'
+  }
+}
+
 /**
  * 埋め込みモデル名を取得
  */
@@ -21,5 +21,9 @@ export * from './mock-client'
 // ファクトリー
 export * from './factory'
 
+// フォールバックチェーン・サーキットブレーカー
+export * from './circuit-breaker'
+export * from './provider-chain'
+
 // 後方互換性のため、既存のエクスポートを維持
 export { aiClient as default } from './factory'
\ No newline at end of file
@@ -5,19 +5,54 @@
 
 import OpenAI from 'openai'
 
+import {
+  COSMETIC_EFFICACY_CLAIMS,
+  getProductCategoryLabel,
+  PRODUCT_CATEGORY_GUIDELINES,
+  ProductCategory
+} from '@/constants/productCategories'
+import { getLegalBasisLabel, REGULATORY_CATEGORY_CODES } from '@/constants/regulatory'
 import { ErrorFactory } from '@/lib/errors'
+import { buildOcrLayout, OCR_LAYOUT_PROMPT, parseOcrLayoutResponse } from '@/lib/ocr/layout'
+import type { OcrLayoutResult } from '@/types/api'
 
 import { aiProvider as configAiProvider, getChatModel, getEmbeddingModel, getEmbeddingProvider } from './config'
 import { createAIProvider, aiClient } from './factory'
 import { createLMStudioEmbedding } from './lmstudio-client'
 import { createOpenAIEmbedding } from './openai-client'
-import { LegacyDictionaryEntry, LegacyViolationData } from './types'
+import { executeWithFallback, ProviderTarget } from './provider-chain'
+import { LegacyDictionaryEntry, LegacyViolationData, SupportedProvider } from './types'
 import { extractCompleteJSON, generateJSONFromPlainText, sanitizePlainText } from './utils'
 
 // Module-level constants
 const aiProvider = configAiProvider
 const USE_MOCK = process.env.USE_MOCK === 'true'
 
+// 法的根拠コードの一覧（プロンプト用）
+const LEGAL_BASIS_REFERENCE = REGULATORY_CATEGORY_CODES
+  .map(code => `${code}: ${getLegalBasisLabel(code)}`)
+  .join('\n')
+
+/**
+ * 製品カテゴリに応じた判定方針をプロンプト用に組み立てる
+ * 化粧品・医薬部外品（薬用化粧品）には化粧品の効能効果の範囲（56項目）を許可リストとして渡す
+ */
+function buildProductCategoryInstruction(productCategory: ProductCategory | null): string {
+  if (!productCategory) return ''
+
+  const lines = [
+    `製品カテゴリ: ${getProductCategoryLabel(productCategory)}`,
+    `判定方針: ${PRODUCT_CATEGORY_GUIDELINES[productCategory]}`
+  ]
+  if (productCategory === 'cosmetics' || productCategory === 'quasi_drug') {
+    lines.push(
+      '表示可能な化粧品の効能効果（この範囲内の表現は違反としない）:',
+      ...COSMETIC_EFFICACY_CLAIMS.map(claim => `- ${claim}`)
+    )
+  }
+  return lines.join('\n')
+}
+
 /**
  * AIクライアントを使用してチャット完了を作成する
  * OpenAIまたはLM Studioのクライアントを使用してLLMとの対話を行う
@@ -82,6 +117,8 @@ export async function createChatCompletion(params: {
                   start: 0,
                   end: 4,
                   reason: "「がん」は医薬品的効能効果表現のため「健康状態」に修正",
+                  suggestion: "健康状態",
+                  category: "yakukiho_68",
                   dictionaryId: 1
                 }
               ]
@@ -146,19 +183,188 @@ export async function createChatCompletion(params: {
   }
 }
 
+/**
+ * フォールバックチェーン内の1プロバイダーで薬機法チェックの応答を取得する
+ * OpenAI/OpenRouter は function calling、LM Studio または function calling 失敗時は JSON 応答を解析する
+ */
+async function requestCheckCompletion(
+  target: ProviderTarget,
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+  text: string
+): Promise<{
+  type: 'openai' | 'lmstudio' | 'openrouter'
+  response?: OpenAI.Chat.Completions.ChatCompletion
+  violations: LegacyViolationData[]
+  modified: string
+}> {
+  if (target.provider === 'openai' || target.provider === 'openrouter') {
+    // Function calling を使用
+    const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [{
+      type: 'function',
+      function: {
+        name: 'apply_yakukiho_rules',
+        description: '薬機法ルールを適用してテキストを修正し、違反箇所を特定',
+        parameters: {
+          type: 'object',
+          properties: {
+            modified: { type: 'string', description: '修正されたテキスト' },
+            violations: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  start_pos: { type: 'number' },
+                  end_pos: { type: 'number' },
+                  text: { type: 'string', description: '違反箇所の原文（入力テキストからそのまま引用）' },
+                  reason: { type: 'string' },
+                  suggestion: { type: 'string', description: '違反箇所（text）を置き換える修正表現' },
+                  alternatives: { type: 'array', items: { type: 'string' }, description: '別の修正候補' },
+                  category: { type: 'string', enum: [...REGULATORY_CATEGORY_CODES], description: '違反の法的根拠コード' },
+                  dictionary_id: { type: 'number' }
+                },
+                required: ['start_pos', 'end_pos', 'text', 'reason', 'category']
+              }
+            }
+          },
+          required: ['modified', 'violations']
+        }
+      }
+    }]
+
+    const completion = await target.client.chat.completions.create({
+      model: target.model,
+      messages,
+      tools,
+      tool_choice: 'auto',
+      temperature: 0.1,
+      max_tokens: 4000
+    })
+
+    const toolCall = completion.choices[0]?.message?.tool_calls?.[0]
+    if (toolCall && 'function' in toolCall && toolCall.function) {
+      const result = JSON.parse(toolCall.function.arguments)
+      return {
+        type: target.provider as 'openai' | 'openrouter',
+        response: completion,
+        violations: (result.violations ?? []).map((v: {
+          start_pos: number;
+          end_pos: number;
+          text?: string;
+          reason: string;
+          suggestion?: string;
+          alternatives?: string[];
+          category?: string;
+          dictionary_id?: number;
+        }) => ({
+          id: Math.random(),
+          start_pos: v.start_pos,
+          end_pos: v.end_pos,
+          text: v.text,
+          reason: v.reason,
+          suggestion: v.suggestion,
+          alternatives: v.alternatives,
+          category: v.category,
+          dictionary_id: v.dictionary_id ?? null
+        })),
+        modified: result.modified ?? text
+      }
+    }
+  }
+
+  // LM Studio または Function calling 失敗時のフォールバック
+  const completion = await target.client.chat.completions.create({
+    model: target.model,
+    messages,
+    temperature: 0.1,
+    max_tokens: 4000
+  })
+
+  const content = completion.choices[0]?.message?.content ?? ''
+  const extractedJson = extractCompleteJSON(content)
+  
+  if (extractedJson) {
+    const result = JSON.parse(extractedJson)
+    return {
+      type: target.provider as 'openai' | 'lmstudio' | 'openrouter',
+      response: completion,
+      violations: (result.violations ?? []).map((v: {
+        start_pos: number;
+        end_pos: number;
+        text?: string;
+        reason: string;
+        suggestion?: string;
+        alternatives?: string[];
+        category?: string;
+        dictionary_id?: number;
+      }) => ({
+        id: Math.random(),
+        start_pos: v.start_pos,
+        end_pos: v.end_pos,
+        text: v.text,
+        reason: v.reason,
+        suggestion: v.suggestion,
+        alternatives: v.alternatives,
+        category: v.category,
+        dictionary_id: v.dictionary_id ?? null
+      })),
+      modified: result.modified ?? text
+    }
+  } else {
+    // JSON抽出失敗時は生成フォールバック
+    const fallbackJson = generateJSONFromPlainText(text, content)
+    const result = JSON.parse(fallbackJson)
+    return {
+      type: target.provider as 'openai' | 'lmstudio' | 'openrouter',
+      response: completion,
+      violations: (result.violations ?? []).map((v: {
+        start_pos: number;
+        end_pos: number;
+        text?: string;
+        reason: string;
+        suggestion?: string;
+        alternatives?: string[];
+        category?: string;
+        dictionary_id?: number;
+      }) => ({
+        id: Math.random(),
+        start_pos: v.start_pos,
+        end_pos: v.end_pos,
+        text: v.text,
+        reason: v.reason,
+        suggestion: v.suggestion,
+        alternatives: v.alternatives,
+        category: v.category,
+        dictionary_id: v.dictionary_id ?? null
+      })),
+      modified: result.modified ?? text
+    }
+  }
+}
+
 /**
  * 薬機法チェック専用のチャット完了作成
+ * `AI_PROVIDER_CHAIN` の順にプロバイダーを試行し、実際に処理したプロバイダーとモデルを返す
  */
-export async function createChatCompletionForCheck(text: string, relevantEntries: LegacyDictionaryEntry[]): Promise<{
+export async function createChatCompletionForCheck(
+  text: string,
+  relevantEntries: LegacyDictionaryEntry[],
+  productCategory: ProductCategory | null = null
+): Promise<{
   type: 'openai' | 'lmstudio' | 'openrouter'
   response?: OpenAI.Chat.Completions.ChatCompletion
   violations: LegacyViolationData[]
   modified: string
+  /** 実際に応答したプロバイダー */
+  provider: SupportedProvider
+  model: string
+  /** トークン使用量（応答に含まれない場合は `null`） */
+  usage: { promptTokens: number; completionTokens: number } | null
 }> {
   // 辞書情報の表示方法を簡潔化
   const dictionaryReference = relevantEntries.length > 0
     ? `参考: ${relevantEntries.slice(0, 3).map(e => e.phrase).join(', ')}`
     : ''
+  const productCategoryInstruction = buildProductCategoryInstruction(productCategory)
 
   // 長い文章用の軽量プロンプト
   const messages = [
@@ -167,6 +373,7 @@ export async function createChatCompletionForCheck(text: string, relevantEntries
       content: `薬機法専門家として違反表現を検出・修正してください。
 
 ${dictionaryReference}
+${productCategoryInstruction}
 
 修正方針:
 - 違反表現は薬機法に準拠した適切な表現に置き換える
@@ -180,13 +387,19 @@ ${dictionaryReference}
 出力形式（必須）:
 {
   "modified": "修正されたテキスト",
-  "violations": [{"start_pos": 0, "end_pos": 3, "reason": "違反理由の詳細", "dictionary_id": null}]
+  "violations": [{"start_pos": 0, "end_pos": 3, "text": "違反箇所の原文", "reason": "違反理由の詳細", "suggestion": "違反箇所の置換案", "alternatives": ["別の置換案"], "category": "yakukiho_66", "dictionary_id": null}]
 }
 
 注意：
 - 応答はJSON形式のみで行う
 - 説明文や追加のテキストは一切含めない
 - violations配列が空の場合でも配列として出力する
+- textには違反箇所を入力テキストから一字一句そのまま引用する
+- suggestionにはtextをそのまま置き換えられる修正表現を、alternativesには別の修正候補を0〜3件記載する
+- categoryには違反の法的根拠を以下のコードから1つ選ぶ
+
+法的根拠コード:
+${LEGAL_BASIS_REFERENCE}
 - 必ず有効なJSON構造を保つ`
     },
     {
@@ -200,128 +413,21 @@ ${dictionaryReference}
       return {
         type: 'openai',
         violations: [],
-        modified: text
-      }
-    }
-
-    if (!aiClient) {
-      throw ErrorFactory.createExternalServiceError(aiProvider, 'initialize', `AI client for provider '${aiProvider}' is not available`)
-    }
-
-    if (aiProvider === 'openai' || aiProvider === 'openrouter') {
-      // Function calling を使用
-      const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [{
-        type: 'function',
-        function: {
-          name: 'apply_yakukiho_rules',
-          description: '薬機法ルールを適用してテキストを修正し、違反箇所を特定',
-          parameters: {
-            type: 'object',
-            properties: {
-              modified: { type: 'string', description: '修正されたテキスト' },
-              violations: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    start_pos: { type: 'number' },
-                    end_pos: { type: 'number' },
-                    reason: { type: 'string' },
-                    dictionary_id: { type: 'number' }
-                  },
-                  required: ['start_pos', 'end_pos', 'reason']
-                }
-              }
-            },
-            required: ['modified', 'violations']
-          }
-        }
-      }]
-
-      const completion = await aiClient.chat.completions.create({
-        model: getChatModel,
-        messages,
-        tools,
-        tool_choice: 'auto',
-        temperature: 0.1,
-        max_tokens: 4000
-      })
-
-      const toolCall = completion.choices[0]?.message?.tool_calls?.[0]
-      if (toolCall && 'function' in toolCall && toolCall.function) {
-        const result = JSON.parse(toolCall.function.arguments)
-        return {
-          type: aiProvider as 'openai' | 'openrouter',
-          response: completion,
-          violations: (result.violations ?? []).map((v: {
-            start_pos: number;
-            end_pos: number;
-            reason: string;
-            dictionary_id?: number;
-          }) => ({
-            id: Math.random(),
-            start_pos: v.start_pos,
-            end_pos: v.end_pos,
-            reason: v.reason,
-            dictionary_id: v.dictionary_id ?? null
-          })),
-          modified: result.modified ?? text
-        }
+        modified: text,
+        provider: 'mock',
+        model: 'mock-chat-model',
+        usage: null
       }
     }
 
-    // LM Studio または Function calling 失敗時のフォールバック
-    const completion = await aiClient.chat.completions.create({
-      model: getChatModel,
-      messages,
-      temperature: 0.1,
-      max_tokens: 4000
-    })
-
-    const content = completion.choices[0]?.message?.content ?? ''
-    const extractedJson = extractCompleteJSON(content)
-    
-    if (extractedJson) {
-      const result = JSON.parse(extractedJson)
-      return {
-        type: aiProvider as 'openai' | 'lmstudio' | 'openrouter',
-        response: completion,
-        violations: (result.violations ?? []).map((v: {
-          start_pos: number;
-          end_pos: number;
-          reason: string;
-          dictionary_id?: number;
-        }) => ({
-          id: Math.random(),
-          start_pos: v.start_pos,
-          end_pos: v.end_pos,
-          reason: v.reason,
-          dictionary_id: v.dictionary_id ?? null
-        })),
-        modified: result.modified ?? text
-      }
-    } else {
-      // JSON抽出失敗時は生成フォールバック
-      const fallbackJson = generateJSONFromPlainText(text, content)
-      const result = JSON.parse(fallbackJson)
-      return {
-        type: aiProvider as 'openai' | 'lmstudio' | 'openrouter',
-        response: completion,
-        violations: (result.violations ?? []).map((v: {
-          start_pos: number;
-          end_pos: number;
-          reason: string;
-          dictionary_id?: number;
-        }) => ({
-          id: Math.random(),
-          start_pos: v.start_pos,
-          end_pos: v.end_pos,
-          reason: v.reason,
-          dictionary_id: v.dictionary_id ?? null
-        })),
-        modified: result.modified ?? text
-      }
-    }
+    const { result, provider, model } = await executeWithFallback(
+      '薬機法チェック処理',
+      target => requestCheckCompletion(target, messages, text)
+    )
+    const usage = result.response?.usage
+      ? { promptTokens: result.response.usage.prompt_tokens, completionTokens: result.response.usage.completion_tokens }
+      : null
+    return { ...result, provider, model, usage }
 
   } catch (error) {
     console.error('[AI] Chat completion for check failed:', error)
@@ -439,6 +545,55 @@ export async function extractTextFromImageWithLLM(
   }
 }
 
+/**
+ * 画像からテキストブロックと画像上の位置を抽出する（レイアウト付きOCR）
+ * 位置を解析できない応答の場合はテキストのみを返す（blocks は空）
+ */
+export async function extractTextLayoutFromImageWithLLM(
+  imageBuffer: Buffer,
+  mimeType = 'image/jpeg'
+): Promise<OcrLayoutResult> {
+  if (USE_MOCK) {
+    return buildOcrLayout([
+      { text: '模擬的に抽出されたテキストです。', bbox: { x: 0.1, y: 0.1, width: 0.8, height: 0.1 }, vertical: false },
+      { text: 'このサプリメントはがんに効果があります。', bbox: { x: 0.1, y: 0.3, width: 0.8, height: 0.1 }, vertical: false }
+    ])
+  }
+
+  if (!aiClient) {
+    throw ErrorFactory.createExternalServiceError(aiProvider, 'image processing', 'AI client is not available for image processing')
+  }
+
+  try {
+    const completion = await aiClient.chat.completions.create({
+      model: getChatModel,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: OCR_LAYOUT_PROMPT },
+            {
+              type: 'image_url',
+              image_url: {
+                url: `data:${mimeType};base64,${imageBuffer.toString('base64')}`,
+                detail: 'high'
+              }
+            }
+          ]
+        }
+      ],
+      temperature: 0.1,
+      max_tokens: 4000
+    })
+
+    return parseOcrLayoutResponse(completion.choices[0]?.message?.content ?? '')
+
+  } catch (error) {
+    console.error('[AI] Image text layout extraction failed:', error)
+    throw ErrorFactory.createAIServiceError(aiProvider, 'image text extraction', error instanceof Error ? error.message : 'Unknown error', error instanceof Error ? error : undefined)
+  }
+}
+
 /**
  * 拡張画像テキスト抽出（多機能版）
  * 画像前処理、信頼度推定、メタデータ記録を含む高機能版
@@ -0,0 +1,145 @@
+/**
+ * AI プロバイダーのフォールバックチェーン
+ * `AI_PROVIDER_CHAIN` の順にプロバイダーを試行し、プロバイダー別のサーキットブレーカーで障害中のものを迂回する
+ */
+
+import OpenAI from 'openai'
+
+import { ErrorFactory } from '@/lib/errors'
+
+import { CircuitBreaker, CircuitBreakerSnapshot } from './circuit-breaker'
+import { CIRCUIT_BREAKER_CONFIG, getProviderApiKey, getProviderChain, getProviderChatModel } from './config'
+import { SupportedProvider } from './types'
+import { getSanitizedReferer } from './utils'
+
+/**
+ * チェーン内の1プロバイダーへのリクエスト先
+ */
+export interface ProviderTarget {
+  provider: SupportedProvider
+  client: OpenAI
+  model: string
+}
+
+/**
+ * プロバイダーの稼働状況（管理画面のパフォーマンス表示用）
+ */
+export interface ProviderHealth extends CircuitBreakerSnapshot {
+  provider: SupportedProvider
+  /** チェーン内の優先順位（0始まり） */
+  priority: number
+  model: string
+  /** APIキー等が揃いクライアントを生成できるか */
+  available: boolean
+}
+
+const chatClients = new Map<SupportedProvider, OpenAI | null>()
+const breakers = new Map<SupportedProvider, CircuitBreaker>()
+
+/**
+ * プロバイダー別のチャット用クライアントを取得（初回のみ生成）
+ */
+function getChatClient(provider: SupportedProvider): OpenAI | null {
+  if (chatClients.has(provider)) return chatClients.get(provider) ?? null
+
+  const apiKey = getProviderApiKey(provider)
+  let client: OpenAI | null = null
+  switch (provider) {
+    case 'openai':
+      client = apiKey ? new OpenAI({ apiKey }) : null
+      break
+    case 'openrouter':
+      client = apiKey ? new OpenAI({
+        baseURL: 'https://openrouter.ai/api/v1',
+        apiKey,
+        defaultHeaders: {
+          'HTTP-Referer': getSanitizedReferer(process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000'),
+          'X-Title': 'AdLex - Pharmaceutical Law Compliance Checker',
+        },
+      }) : null
+      break
+    case 'lmstudio':
+      client = new OpenAI({
+        baseURL: process.env.LM_STUDIO_BASE_URL ?? 'http://localhost:1234/v1',
+        apiKey: apiKey ?? 'lm-studio',
+      })
+      break
+  }
+
+  chatClients.set(provider, client)
+  return client
+}
+
+function getBreaker(provider: SupportedProvider): CircuitBreaker {
+  let breaker = breakers.get(provider)
+  if (!breaker) {
+    breaker = new CircuitBreaker({
+      failureThreshold: CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD,
+      cooldownMs: CIRCUIT_BREAKER_CONFIG.COOLDOWN_MS
+    })
+    breakers.set(provider, breaker)
+  }
+  return breaker
+}
+
+/**
+ * フォールバックチェーンの順に処理を試行する
+ * 遮断中・未設定のプロバイダーは飛ばし、最初に成功したプロバイダーの結果を返す
+ *
+ * @param operationName ログ・エラー用の処理名
+ * @param operation 各プロバイダーで実行する処理（失敗時は例外を投げる）
+ * @returns 処理結果と実際に処理したプロバイダー
+ */
+export async function executeWithFallback<T>(
+  operationName: string,
+  operation: (target: ProviderTarget) => Promise<T>
+): Promise<{ result: T; provider: SupportedProvider; model: string }> {
+  const failures: string[] = []
+  let lastError: Error | undefined
+
+  for (const provider of getProviderChain()) {
+    const client = getChatClient(provider)
+    if (!client) {
+      failures.push(`${provider}: クライアント未設定`)
+      continue
+    }
+
+    const breaker = getBreaker(provider)
+    if (!breaker.tryAcquire()) {
+      failures.push(`${provider}: 遮断中`)
+      continue
+    }
+
+    const model = getProviderChatModel(provider)
+    try {
+      const result = await operation({ provider, client, model })
+      breaker.recordSuccess()
+      return { result, provider, model }
+    } catch (error) {
+      breaker.recordFailure(error)
+      lastError = error instanceof Error ? error : undefined
+      failures.push(`${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      console.warn(`[AI] ${provider} ${operationName} failed, trying next provider:`, error)
+    }
+  }
+
+  throw ErrorFactory.createAIServiceError(
+    'AI',
+    operationName,
+    `利用可能なプロバイダーがすべて失敗しました（${failures.join(' / ')}）`,
+    lastError
+  )
+}
+
+/**
+ * フォールバックチェーン内の各プロバイダーの稼働状況を取得する
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  return getProviderChain().map((provider, priority) => ({
+    provider,
+    priority,
+    model: getProviderChatModel(provider),
+    available: getChatClient(provider) !== null,
+    ...getBreaker(provider).getSnapshot()
+  }))
+}
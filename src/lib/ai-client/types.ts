@@ -83,6 +83,14 @@ export interface LegacyViolationData {
   id: number
   start_pos: number
   end_pos: number
+  /** LLMが引用した違反箇所の原文（位置の再アンカリングに使用） */
+  text?: string
   reason: string
+  /** 違反箇所の置換案 */
+  suggestion?: string
+  /** 別の置換候補 */
+  alternatives?: string[]
+  /** 法的根拠コード（未検証） */
+  category?: string
   dictionary_id?: number
 }
\ No newline at end of file
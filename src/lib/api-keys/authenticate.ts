@@ -0,0 +1,119 @@
+/**
+ * APIルートのリクエスト認証
+ * Cookieセッション、または `Authorization: Bearer adlex_...` のAPIキーで認証する。
+ * APIキーの場合はキーの作成者として、Service Role のクライアントで処理する
+ * （組織・所有者の確認は各ユースケースで行う）。
+ * 機能フラグで提供を切り替えるAPIは、Cookieセッションではミドルウェアが、APIキーではここでキーの組織について評価する。
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+
+import { API_KEY_CONFIG, ApiKeyScope, hasAnyApiKeyScope } from '@/constants/apiKeys'
+import { ApiKey } from '@/core/ports'
+import { createRepositories } from '@/infra/repositories'
+import { createAdminClient } from '@/infra/supabase/adminClient'
+import { createClient } from '@/infra/supabase/serverClient'
+import { findRouteFeatureFlag } from '@/lib/feature-flags'
+import { logger } from '@/lib/logger'
+import { isFeatureEnabled } from '@/lib/system-settings'
+import { Database } from '@/types/database.types'
+
+import { extractApiKey, hashApiKey } from './keys'
+
+export type RequestAuthResult =
+  | {
+      success: true
+      userId: string
+      supabase: SupabaseClient<Database>
+      /** APIキーで認証した場合のキー */
+      apiKey: ApiKey | null
+    }
+  | {
+      success: false
+      status: number
+      code: string
+      message: string
+    }
+
+/**
+ * リクエストがAPIキーを提示しているか
+ */
+export function isApiKeyRequest(request: Request): boolean {
+  return extractApiKey(request.headers.get('Authorization')) !== null
+}
+
+/**
+ * リクエストを認証する
+ *
+ * @param request リクエスト
+ * @param requiredScopes APIキー認証時に必要なスコープ（いずれか1つ）
+ */
+export async function authenticateRequest(
+  request: Request,
+  requiredScopes: readonly ApiKeyScope[]
+): Promise<RequestAuthResult> {
+  const apiKeyValue = extractApiKey(request.headers.get('Authorization'))
+  if (apiKeyValue) {
+    return authenticateApiKey(apiKeyValue, requiredScopes, new URL(request.url).pathname)
+  }
+
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { success: false, status: 401, code: 'AUTHENTICATION_ERROR', message: '認証が必要です' }
+  }
+
+  return { success: true, userId: user.id, supabase, apiKey: null }
+}
+
+async function authenticateApiKey(
+  apiKeyValue: string,
+  requiredScopes: readonly ApiKeyScope[],
+  pathname: string
+): Promise<RequestAuthResult> {
+  let supabase: SupabaseClient<Database>
+  try {
+    supabase = createAdminClient()
+  } catch {
+    return { success: false, status: 503, code: 'SERVICE_UNAVAILABLE', message: 'APIキー認証は現在利用できません' }
+  }
+
+  const repositories = createRepositories(supabase)
+  const apiKey = await repositories.apiKeys.findActiveByHash(hashApiKey(apiKeyValue))
+  if (!apiKey) {
+    return { success: false, status: 401, code: 'AUTHENTICATION_ERROR', message: 'APIキーが無効です' }
+  }
+
+  if (!hasAnyApiKeyScope(apiKey.scopes, requiredScopes)) {
+    return {
+      success: false,
+      status: 403,
+      code: 'AUTHORIZATION_ERROR',
+      message: `このAPIキーには必要な権限がありません（${requiredScopes.join(' または ')}）`
+    }
+  }
+
+  // 発行者が組織を離れた・削除された場合はキーを使えない
+  const owner = await repositories.users.findById(apiKey.created_by)
+  if (owner?.organization_id !== apiKey.organization_id) {
+    return { success: false, status: 401, code: 'AUTHENTICATION_ERROR', message: 'APIキーの発行者が組織に所属していません' }
+  }
+
+  const featureFlag = findRouteFeatureFlag(pathname)
+  if (featureFlag && !(await isFeatureEnabled(repositories, featureFlag, apiKey.organization_id))) {
+    return { success: false, status: 403, code: 'FEATURE_DISABLED', message: 'この機能は組織で有効になっていません' }
+  }
+
+  const lastUsedAt = apiKey.last_used_at ? new Date(apiKey.last_used_at).getTime() : 0
+  if (Date.now() - lastUsedAt >= API_KEY_CONFIG.LAST_USED_UPDATE_INTERVAL_MS) {
+    repositories.apiKeys.update(apiKey.id, { last_used_at: new Date().toISOString() }).catch(error => {
+      logger.warn('Failed to record API key usage', {
+        operation: 'authenticateApiKey',
+        apiKeyId: apiKey.id,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+  }
+
+  return { success: true, userId: apiKey.created_by, supabase, apiKey }
+}
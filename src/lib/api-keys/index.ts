@@ -0,0 +1,6 @@
+/**
+ * APIキー 統合エクスポート
+ */
+
+export * from './keys'
+export * from './authenticate'
@@ -0,0 +1,45 @@
+/**
+ * APIキーの生成とハッシュ化
+ * 平文のキーは作成時に一度だけ返し、保存・照合には SHA-256 ハッシュを使う
+ */
+
+import { createHash, randomBytes } from 'crypto'
+
+import { API_KEY_CONFIG } from '@/constants/apiKeys'
+
+export interface GeneratedApiKey {
+  /** 利用者に一度だけ表示する平文のキー */
+  key: string
+  /** 管理画面表示用のキー先頭部分 */
+  prefix: string
+  /** 保存・照合用のハッシュ */
+  hash: string
+}
+
+/**
+ * APIキーをハッシュ化（SHA-256, hex）
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * 新しいAPIキーを生成
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${API_KEY_CONFIG.PREFIX}${randomBytes(24).toString('base64url')}`
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_CONFIG.DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key)
+  }
+}
+
+/**
+ * Authorization ヘッダーからAPIキーを取り出す（APIキー形式でなければ null）
+ */
+export function extractApiKey(authorizationHeader: string | null): string | null {
+  if (!authorizationHeader?.startsWith('Bearer ')) return null
+  const token = authorizationHeader.substring(7).trim()
+  return token.startsWith(API_KEY_CONFIG.PREFIX) ? token : null
+}
@@ -0,0 +1,84 @@
+/**
+ * 一括チェック用ファイル（CSV / XLSX）の読み込み
+ * 先頭シートの各行を1件のチェック対象として取り出す。
+ */
+
+import * as XLSX from 'xlsx'
+
+import { CHECK_BATCH_CONFIG, CheckBatchSource } from '@/constants/batch'
+
+export interface BatchImportItem {
+  text: string
+  label?: string
+}
+
+export interface BatchImportResult {
+  source: CheckBatchSource
+  items: BatchImportItem[]
+}
+
+/**
+ * ファイル名から取り込み形式を判定する（未対応の拡張子は null）
+ */
+export function detectBatchFileSource(fileName: string): CheckBatchSource | null {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'csv') return 'csv'
+  if (extension === 'xlsx' || extension === 'xls') return 'xlsx'
+  return null
+}
+
+const normalizeHeader = (value: unknown) => String(value ?? '').trim().toLowerCase()
+
+/**
+ * CSV / XLSX を読み込み、本文とラベルの組に変換する
+ *
+ * 先頭行に既知の列名（CHECK_BATCH_CONFIG.TEXT_COLUMN_NAMES）があればヘッダーとして扱い、
+ * なければ全行をデータとみなして1列目を本文、2列目をラベルとする。
+ * 本文が空の行は読み飛ばす。
+ */
+export function parseBatchFile(buffer: ArrayBuffer, fileName: string): BatchImportResult {
+  const source = detectBatchFileSource(fileName)
+  if (!source) {
+    throw new Error('CSV または XLSX ファイルを指定してください')
+  }
+
+  const workbook = source === 'csv'
+    ? XLSX.read(new TextDecoder('utf-8').decode(buffer), { type: 'string', raw: true })
+    : XLSX.read(new Uint8Array(buffer), { type: 'array' })
+
+  const sheetName = workbook.SheetNames[0]
+  if (!sheetName) {
+    return { source, items: [] }
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    blankrows: false,
+    defval: ''
+  })
+  if (rows.length === 0) {
+    return { source, items: [] }
+  }
+
+  const header = rows[0].map(normalizeHeader)
+  const textColumnNames: readonly string[] = CHECK_BATCH_CONFIG.TEXT_COLUMN_NAMES
+  const labelColumnNames: readonly string[] = CHECK_BATCH_CONFIG.LABEL_COLUMN_NAMES
+  const headerTextIndex = header.findIndex(name => textColumnNames.includes(name))
+  const hasHeader = headerTextIndex !== -1
+
+  const textIndex = hasHeader ? headerTextIndex : 0
+  const labelIndex = hasHeader
+    ? header.findIndex(name => labelColumnNames.includes(name))
+    : rows.some(row => row.length > 1) ? 1 : -1
+
+  const items: BatchImportItem[] = []
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const text = String(row[textIndex] ?? '').trim()
+    if (!text) continue
+
+    const label = labelIndex >= 0 ? String(row[labelIndex] ?? '').trim() : ''
+    items.push(label ? { text, label } : { text })
+  }
+
+  return { source, items }
+}
@@ -1,15 +1,54 @@
+import { createHash } from 'node:crypto'
+
+import { APP_CONFIG } from '@/constants'
+import { calculateLlmCost } from '@/constants/llmPricing'
+import { getPermittedClaimPhrases } from '@/constants/productCategories'
+import { isRegulatoryCategoryCode, REGULATORY_CATEGORIES } from '@/constants/regulatory'
+import { WEB_PAGE_FETCH_CONFIG } from '@/constants/webPage'
+import {
+  CheckProcessingService,
+  DictionaryItem,
+  DictionarySource,
+  PharmaceuticalLawCheckService,
+  TextRange,
+  ViolationCandidate
+} from '@/core/domain'
+import { createRepositories } from '@/infra/repositories'
+import { createAdminClient } from '@/infra/supabase/adminClient'
 import { createClient } from '@/infra/supabase/serverClient'
 import { cache, CacheUtils } from '@/lib/cache'
+import { resolveCurrentDictionarySnapshot } from '@/lib/dictionary-versions'
+import { publishDomainEvent } from '@/lib/domain-events'
 import { ErrorFactory } from '@/lib/errors'
+import { isAppliedInheritedEntry, resolveInheritedEntries } from '@/lib/global-dictionary'
+import { loadOcrImage, loadPdfDocument } from '@/lib/ocr/image-source'
+import { mapTextRangeToImageRegions } from '@/lib/ocr/layout'
+import { buildPdfText, extractPdfPages, findPdfPageNumber } from '@/lib/ocr/pdf'
+import { getSystemConfig, isFeatureEnabled } from '@/lib/system-settings'
+import { chunkText, DEFAULT_CHUNK_OPTIONS, TextChunk } from '@/lib/text-chunker'
+import { mapWithConcurrency } from '@/lib/utils'
+import { alignSpan } from '@/lib/violation-alignment'
+import { extractWebPageContent, fetchWebPage, findWebPageSelector } from '@/lib/web-page'
 import { LegacyCombinedPhrase as CombinedPhrase, LegacyViolationData as ViolationData } from '@/types'
+import { OcrTextBlock, PdfPageRange, ProductCategory, WebPageSegment, WebPageSnapshot } from '@/types/api'
+
+/** 長文チェック時にチャンクを並行分析する最大数 */
+const CHUNK_CONCURRENCY = (() => {
+  const fromEnv = Number(process.env.ADLEX_CHUNK_CONCURRENCY)
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : 2
+})()
+
+/** URLチェックのページ取得・抽出失敗時のエラーメッセージの接頭辞（後ろに原因が続く） */
+const WEB_PAGE_ERROR_PREFIX = 'ページ処理に失敗しました: '
 
 /**
  * チェック処理を完了し結果をデータベースへ反映する。
  *
  * 処理内容:
  * - `violations` があれば `violations` テーブルへ一括挿入
- * - `checks` レコードを `completed` に更新し、`modified_text` と `completed_at` を記録
+ * - `checks` レコードを `completed` に更新し、`modified_text`・AIプロバイダー/モデル・適用した辞書の版とスナップショット・トークン使用量とコスト・`completed_at` を記録
  * - チェックに紐づく組織の使用量を `increment_organization_usage` で加算
+ * - `CheckCompleted`・`ViolationDetected` ドメインイベントを発行（Webhook 配信）
  *
  * 失敗時の挙動:
  * - 挿入/更新いずれかでエラーがあれば `Error` を投げ呼び出し側へ委譲
@@ -17,41 +56,72 @@ import { LegacyCombinedPhrase as CombinedPhrase, LegacyViolationData as Violatio
  * @param checkId チェックID
  * @param modifiedText 修正されたテキスト
  * @param violations 検出された違反データ
+ * @param llmUsage 応答したAIプロバイダー・モデル（複数の場合はカンマ区切り）とトークン使用量・コスト
+ * @param dictionary 適用した辞書の版とスナップショットID（取得・作成できなかった場合はそれぞれ `null`）
  * @param supabase Supabaseクライアント
  */
 async function completeCheck(
   checkId: number,
   modifiedText: string,
   violations: ViolationData[],
+  llmUsage: LlmUsage,
+  dictionary: { version: string | null; snapshotId: number | null },
   supabase: Awaited<ReturnType<typeof createClient>>
 ) {
   // 違反データを挿入
+  let insertedViolations: {
+    id: number
+    start_pos: number
+    end_pos: number
+    dictionary_id: number | null
+    global_dictionary_id: number | null
+  }[] = []
   if (violations.length > 0) {
       const violationRows = violations.map(violation => ({
       check_id: checkId,
       start_pos: violation.start_pos,
       end_pos: violation.end_pos,
       reason: violation.reason,
-      dictionary_id: violation.dictionary_id ?? null
+      dictionary_id: violation.dictionary_id ?? null,
+      global_dictionary_id: violation.global_dictionary_id ?? null,
+      matched_text: violation.matched_text ?? null,
+      confidence: violation.confidence ?? null,
+      suggested_text: violation.suggested_text ?? null,
+      alternative_suggestions: violation.alternative_suggestions ?? [],
+      regulatory_category: violation.regulatory_category ?? null,
+      severity: violation.severity ?? null,
+      image_regions: violation.image_regions?.length ? violation.image_regions.map(region => ({ ...region })) : null,
+      page_number: violation.page_number ?? null,
+      dom_selector: violation.dom_selector ?? null
     }))
 
-    const { error: violationError } = await supabase
+    const { data: insertedRows, error: violationError } = await supabase
       .from('violations')
       .insert(violationRows)
+      .select('id, start_pos, end_pos, dictionary_id, global_dictionary_id')
 
     if (violationError) {
       console.error(`[CHECK] Error inserting violations for check ${checkId}:`, violationError)
       throw ErrorFactory.createDatabaseError('違反データの挿入', 'violations', violationError)
     }
+    insertedViolations = insertedRows ?? []
   }
 
   // チェックステータスを完了に更新
+  const completedAt = new Date().toISOString()
   const { error: updateError } = await supabase
     .from('checks')
     .update({
       modified_text: modifiedText,
+      ai_provider: llmUsage.provider,
+      ai_model: llmUsage.model,
+      dictionary_version: dictionary.version,
+      dictionary_snapshot_id: dictionary.snapshotId,
+      prompt_tokens: llmUsage.promptTokens,
+      completion_tokens: llmUsage.completionTokens,
+      llm_cost_usd: llmUsage.costUsd,
       status: 'completed',
-      completed_at: new Date().toISOString()
+      completed_at: completedAt
     })
     .eq('id', checkId)
 
@@ -69,6 +139,124 @@ async function completeCheck(
   if (usageError) {
     console.error(`[CHECK] チェック ${checkId} の使用量加算でエラーが発生しました:`, usageError)
   }
+
+  // Webhook 等の購読者へ完了・違反検出を通知
+  publishDomainEvent({
+    eventType: 'CheckCompleted',
+    aggregateId: String(checkId),
+    occurredAt: new Date(completedAt),
+    data: {
+      checkId,
+      organizationId,
+      violationCount: violations.length,
+      completedAt,
+      hasViolations: violations.length > 0
+    }
+  })
+  insertedViolations.forEach((row, index) => {
+    publishDomainEvent({
+      eventType: 'ViolationDetected',
+      aggregateId: String(checkId),
+      occurredAt: new Date(completedAt),
+      data: {
+        checkId,
+        organizationId,
+        violationId: row.id,
+        originalText: violations[index]?.matched_text ?? '',
+        suggestedText: violations[index]?.suggested_text ?? null,
+        startPos: row.start_pos,
+        endPos: row.end_pos,
+        dictionaryId: row.dictionary_id,
+        globalDictionaryId: row.global_dictionary_id
+      }
+    })
+  })
+}
+
+/**
+ * チェック処理用のSupabaseクライアントを取得する。
+ *
+ * APIキー経由のリクエストなどCookieセッションを持たない呼び出しでも処理できるよう、
+ * Service Role が設定されていればそれを使用する（処理中のクエリはすべてチェックID・組織IDで絞り込む）。
+ * 未設定の場合はリクエストのセッションを使う。
+ */
+async function createProcessingClient(): Promise<Awaited<ReturnType<typeof createClient>>> {
+  try {
+    return createAdminClient()
+  } catch {
+    return createClient()
+  }
+}
+
+/**
+ * URLチェックで取得したHTMLを監査用のスナップショットとして Storage に保存する。
+ *
+ * 保存に失敗してもチェックは継続する（スナップショット情報のハッシュは残るため、`storagePath` は `null`）。
+ *
+ * @param checkId チェックID
+ * @param organizationId 組織ID（保存先フォルダ）
+ * @param body 取得したHTML（バイト列のまま）
+ * @param supabase Supabaseクライアント
+ * @returns 保存先のパス（保存失敗時は `null`）
+ */
+async function saveWebPageSnapshot(
+  checkId: number,
+  organizationId: number,
+  body: Buffer,
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<string | null> {
+  const path = `org/${organizationId}/snapshots/${checkId}-${Date.now()}.html`
+  const { error } = await supabase.storage
+    .from(WEB_PAGE_FETCH_CONFIG.SNAPSHOT_BUCKET)
+    .upload(path, body, { contentType: 'text/html', upsert: false })
+
+  if (error) {
+    console.error(`[CHECK] チェック ${checkId} のページスナップショットの保存に失敗しました:`, error)
+    return null
+  }
+  return path
+}
+
+/**
+ * 保存済みの抽出結果（画像・PDF・URLチェック）
+ */
+interface StoredExtraction {
+  text: string
+  ocrBlocks: OcrTextBlock[]
+  pdfPages: PdfPageRange[]
+  pageSegments: WebPageSegment[]
+}
+
+/**
+ * チェックに保存済みの抽出結果を取得する。
+ *
+ * 再実行で元のチェックから抽出結果を引き継いだ場合や、抽出後のLLM分析で失敗して再試行する場合に、
+ * OCR・PDF抽出・ページ取得をやり直さずに同じテキストで分析するために使う。
+ *
+ * @param checkId チェックID
+ * @param supabase Supabaseクライアント
+ * @returns 抽出が完了していればその結果、未抽出の場合は `null`
+ */
+async function loadStoredExtraction(
+  checkId: number,
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<StoredExtraction | null> {
+  const { data, error } = await supabase
+    .from('checks')
+    .select('extracted_text, ocr_status, ocr_blocks, pdf_pages, page_segments')
+    .eq('id', checkId)
+    .single()
+
+  if (error || !data || data.ocr_status !== 'completed' || !data.extracted_text) {
+    return null
+  }
+
+  return {
+    text: data.extracted_text,
+    ocrBlocks: (data.ocr_blocks as OcrTextBlock[] | null) ?? [],
+    pdfPages: (data.pdf_pages as PdfPageRange[] | null) ?? [],
+    pageSegments: (data.page_segments as WebPageSegment[] | null) ?? []
+  }
 }
 
 /**
@@ -99,7 +287,360 @@ async function getCheckOrganizationId(
   return data.organization_id
 }
 
-// Helper function to manually extract fields from malformed responses
+/**
+ * チェックに適用する組織辞書と、継承した共通辞書を取得する。
+ *
+ * - 製品カテゴリ指定時: 全カテゴリ共通の項目と、そのカテゴリ専用の項目
+ * - 製品カテゴリ未指定時: 全カテゴリ共通の項目のみ
+ * - 共通辞書: 組織が無効化した項目・組織辞書と同じ語句の項目を除き、許可で上書きした項目は ALLOW として加える（`resolveInheritedEntries`）
+ *
+ * 組織辞書の取得に失敗した場合はログのみ出力し、`null` を返してLLM分析を継続する。
+ * 共通辞書の取得に失敗した場合は組織辞書のみを適用する。
+ *
+ * @param checkId ログ/文脈用のチェックID
+ * @param organizationId 組織ID
+ * @param productCategory 製品カテゴリ
+ * @param supabase Supabaseクライアント
+ * @returns 適用対象の辞書項目（取得失敗時は `null`）
+ */
+async function loadDictionaryItems(
+  checkId: number,
+  organizationId: number,
+  productCategory: ProductCategory | null,
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<DictionaryItem[] | null> {
+  const query = supabase
+    .from('dictionaries')
+    .select('id, phrase, category, organization_id, notes, created_at, updated_at, regulatory_category')
+    .eq('organization_id', organizationId)
+  const globalQuery = supabase
+    .from('global_dictionaries')
+    .select('id, phrase, category, notes, created_at, updated_at, regulatory_category')
+    .eq('is_active', true)
+
+  const [{ data, error }, globalResult, overridesResult] = await Promise.all([
+    productCategory
+      ? query.or(`product_category.is.null,product_category.eq.${productCategory}`)
+      : query.is('product_category', null),
+    productCategory
+      ? globalQuery.or(`product_category.is.null,product_category.eq.${productCategory}`)
+      : globalQuery.is('product_category', null),
+    supabase
+      .from('dictionary_overrides')
+      .select('global_dictionary_id, action')
+      .eq('organization_id', organizationId)
+  ])
+
+  if (error) {
+    console.error(`[CHECK] チェック ${checkId} の辞書取得でエラーが発生しました:`, error)
+    return null
+  }
+
+  const localItems = (data ?? []).map(row => new DictionaryItem(
+    row.id,
+    row.phrase,
+    row.category,
+    row.organization_id,
+    null,
+    row.notes,
+    new Date(row.created_at ?? Date.now()),
+    new Date(row.updated_at ?? Date.now()),
+    row.regulatory_category
+  ))
+
+  const globalError = globalResult.error ?? overridesResult.error
+  if (globalError) {
+    console.error(`[CHECK] チェック ${checkId} の共通辞書取得でエラーが発生しました:`, globalError)
+    return localItems
+  }
+
+  const inheritedItems = resolveInheritedEntries(
+    globalResult.data ?? [],
+    overridesResult.data ?? [],
+    localItems.map(item => item.phrase)
+  )
+    .filter(isAppliedInheritedEntry)
+    .map(row => new DictionaryItem(
+      row.id,
+      row.phrase,
+      row.effective_category,
+      organizationId,
+      null,
+      row.notes,
+      new Date(row.created_at ?? Date.now()),
+      new Date(row.updated_at ?? Date.now()),
+      row.regulatory_category,
+      'global'
+    ))
+
+  return [...localItems, ...inheritedItems]
+}
+
+/**
+ * チェックが適用した辞書のスナップショットIDを求める。
+ *
+ * 最新のスナップショット以降に辞書の変更がなければそのスナップショットを、変更があれば自動スナップショットを作成して返す
+ * （辞書の内容を後から参照・比較できるように記録する）。スナップショットの取得・作成に失敗してもチェックは続行する。
+ *
+ * @param checkId チェックID
+ * @param organizationId 組織ID
+ * @param supabase Supabaseクライアント
+ * @returns スナップショットID（取得・作成に失敗した場合は `null`）
+ */
+async function resolveDictionarySnapshotId(
+  checkId: number,
+  organizationId: number,
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<number | null> {
+  try {
+    const snapshot = await resolveCurrentDictionarySnapshot(createRepositories(supabase), organizationId)
+    return snapshot.id
+  } catch (error) {
+    console.error(`[CHECK] チェック ${checkId} の辞書スナップショット取得でエラーが発生しました:`, error)
+    return null
+  }
+}
+
+/**
+ * 適用する辞書項目から辞書の版を求める。
+ *
+ * 辞書項目のIDと更新日時のハッシュを件数とあわせた識別子で、辞書の追加・編集・削除があると変わる
+ * （再実行時に前回の実行と辞書が同じかを比較するために記録する）。
+ * 共通辞書の項目は区分も含めるため、共通辞書の更新や組織の上書き（無効化・許可）でも変わる。
+ *
+ * @param dictionaryItems 適用対象の辞書項目
+ * @returns `<件数>-<ハッシュ先頭12桁>` 形式の識別子
+ */
+function computeDictionaryVersion(dictionaryItems: DictionaryItem[]): string {
+  const hash = createHash('sha256')
+  const sorted = [...dictionaryItems].sort((a, b) => a.source.localeCompare(b.source) || a.id - b.id)
+  for (const item of sorted) {
+    hash.update(item.isGlobal()
+      ? `g${item.id}:${item.category}:${item.updatedAt.toISOString()}\n`
+      : `${item.id}:${item.updatedAt.toISOString()}\n`)
+  }
+  return `${dictionaryItems.length}-${hash.digest('hex').slice(0, 12)}`
+}
+
+/**
+ * 組織辞書による決定論的な違反検出（LLM前のプレパス）。
+ *
+ * 処理内容:
+ * - `PharmaceuticalLawCheckService.checkViolations` で完全一致・部分一致を検出
+ * - 部分一致は形態素解析マッチャーで活用形を正規化して検出（辞書が読み込めない場合は正規表現にフォールバック）
+ * - ALLOW項目と製品カテゴリで表示可能な効能効果（化粧品の56項目など）に含まれる一致は除外
+ *
+ * @param text 検査対象テキスト
+ * @param dictionaryItems 適用対象の辞書項目
+ * @param productCategory 製品カテゴリ
+ * @returns ルールベースで確定した違反候補
+ */
+async function detectDictionaryViolations(
+  text: string,
+  dictionaryItems: DictionaryItem[],
+  productCategory: ProductCategory | null
+): Promise<ViolationCandidate[]> {
+  if (!dictionaryItems.some(item => item.isNGPhrase())) return []
+
+  const { createMorphologicalMatcher } = await import('@/lib/morphology')
+  const morphologicalMatcher = await createMorphologicalMatcher()
+
+  return PharmaceuticalLawCheckService.checkViolations(
+    text,
+    dictionaryItems,
+    undefined,
+    morphologicalMatcher ?? undefined,
+    getPermittedClaimPhrases(productCategory)
+  )
+}
+
+/**
+ * 違反候補を辞書項目のID（共通辞書の項目は `global_dictionary_id`）と正確なオフセット付きの違反データに変換する。
+ */
+function toViolationData(candidate: ViolationCandidate): ViolationData {
+  const { phrase, notes } = candidate.dictionaryItem
+  const label = candidate.matchType === 'exact'
+    ? `辞書登録のNG表現「${phrase}」に該当します`
+    : candidate.matchedBaseForm
+      ? `辞書登録のNG表現「${phrase}」の活用形です（基本形: ${candidate.matchedBaseForm}）`
+      : `辞書登録のNG表現「${phrase}」に類似する表現です`
+  return {
+    start_pos: candidate.range.start,
+    end_pos: candidate.range.end,
+    reason: notes ? `${label}（${notes}）` : label,
+    ...(candidate.dictionaryItem.isGlobal()
+      ? { global_dictionary_id: candidate.dictionaryItem.id }
+      : { dictionary_id: candidate.dictionaryItem.id }),
+    matched_text: candidate.originalText,
+    confidence: candidate.confidence,
+    ...toLegalBasis(candidate.dictionaryItem.regulatoryCategory)
+  }
+}
+
+/**
+ * 法的根拠コードを検証し、既定の重大度と組にする（不明なコードは未分類）。
+ */
+function toLegalBasis(category: unknown): Pick<ViolationData, 'regulatory_category' | 'severity'> {
+  if (!isRegulatoryCategoryCode(category)) {
+    return { regulatory_category: null, severity: null }
+  }
+  return { regulatory_category: category, severity: REGULATORY_CATEGORIES[category].severity }
+}
+
+/**
+ * LLMが報告した違反（位置検証前）
+ */
+interface ReportedViolation {
+  start: number
+  end: number
+  text?: string
+  reason: string
+  suggestion?: string
+  alternatives?: string[]
+  category?: string
+  dictionary_id?: number
+}
+
+/**
+ * 置換候補を正規化する（空文字・原文と同一・重複を除外）。
+ */
+function normalizeSuggestions(original: string | null, suggestion?: string, alternatives?: string[]): {
+  suggested_text: string | null
+  alternative_suggestions: string[]
+} {
+  const candidates = [suggestion, ...(Array.isArray(alternatives) ? alternatives : [])]
+    .filter((c): c is string => typeof c === 'string')
+    .map(c => c.trim())
+    .filter(c => c.length > 0 && c !== original)
+  const unique = [...new Set(candidates)]
+  return {
+    suggested_text: unique[0] ?? null,
+    alternative_suggestions: unique.slice(1)
+  }
+}
+
+/**
+ * LLMが報告した違反スパンを検証し、入力テキスト上の正しい位置に再アンカリングする。
+ *
+ * 処理内容:
+ * - 引用フレーズ（`text`）を報告位置の近傍で再検索し、UTF-16オフセットに揃える
+ * - コードポイント単位で数えられたオフセットも補正する
+ * - 位置を特定できない違反は 0-0 の範囲・信頼度 0 として記録する（不正な位置は保存しない）
+ * - 違反ごとの置換案（`suggestion`/`alternatives`）を正規化して引き継ぐ
+ * - 法的根拠コード（`category`）を検証し、重大度を付与する
+ *
+ * @param checkId ログ/文脈用のチェックID
+ * @param text 検査対象テキスト
+ * @param reported LLMが報告した違反
+ * @returns 位置確定後の違反データ
+ */
+function realignViolations(checkId: number, text: string, reported: ReportedViolation[]): ViolationData[] {
+  return reported.map(violation => {
+    const aligned = alignSpan(text, violation)
+    if (aligned.method === 'unanchored') {
+      console.warn(`[CHECK] チェック ${checkId} の違反位置を特定できませんでした: ${violation.start}-${violation.end} "${violation.text ?? ''}"`)
+    }
+    return {
+      start_pos: aligned.start,
+      end_pos: aligned.end,
+      reason: violation.reason,
+      dictionary_id: violation.dictionary_id,
+      matched_text: aligned.matchedText,
+      confidence: aligned.confidence,
+      ...normalizeSuggestions(aligned.matchedText, violation.suggestion, violation.alternatives),
+      ...toLegalBasis(violation.category)
+    }
+  })
+}
+
+/**
+ * 位置を特定できなかった違反か（`realignViolations` が 0-0 の範囲・信頼度 0 で記録したもの）
+ */
+function isUnanchoredViolation(violation: ViolationData): boolean {
+  return violation.start_pos === 0 && violation.end_pos === 0 && violation.confidence === 0
+}
+
+/**
+ * LLMが報告した辞書IDを、渡した参考情報の辞書項目に対応付ける。
+ *
+ * - 共通辞書の項目は `global_dictionary_id` に移す（組織辞書とIDが重なる場合は組織辞書を優先）
+ * - 参考情報にないIDは保存しない（存在しない辞書項目を参照させない）
+ */
+function resolveReportedDictionaryIds(violations: ViolationData[], referenceEntries: ReferenceEntry[]): ViolationData[] {
+  return violations.map(violation => {
+    if (violation.dictionary_id === undefined) return violation
+
+    const matches = referenceEntries.filter(entry => entry.id === violation.dictionary_id)
+    const entry = matches.find(match => match.source === 'organization') ?? matches[0]
+    const { dictionary_id: reportedId, ...rest } = violation
+    if (!entry) return rest
+    return entry.source === 'global'
+      ? { ...rest, global_dictionary_id: reportedId }
+      : violation
+  })
+}
+
+/**
+ * 違反データの範囲を `TextRange` に変換する（不正な範囲は `null`）。
+ */
+function toTextRange(violation: ViolationData): TextRange | null {
+  try {
+    return TextRange.create(violation.start_pos, violation.end_pos)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * ルールベースの違反とLLMの違反を統合し、重複を除去する。
+ *
+ * 処理内容:
+ * - ルールベースの違反を優先し、範囲の長いものから採用（互いに重なるものは除外）
+ * - LLMの違反は、採用済みの範囲と `TextRange.overlaps` で重ならないもののみ追加
+ * - 同一範囲のLLM違反に置換案があれば、置換案を持たないルールベースの違反に引き継ぐ
+ * - 重なるLLM違反に法的根拠があれば、法的根拠が未設定のルールベースの違反に引き継ぐ
+ * - 範囲が不正なLLMの違反は比較できないためそのまま残す
+ * - 最終結果は開始位置順に並べ替える
+ *
+ * @param ruleBased 辞書プレパスで検出した違反
+ * @param llmViolations LLMが検出した違反
+ * @returns 統合済みの違反データ
+ */
+function mergeViolations(ruleBased: ViolationData[], llmViolations: ViolationData[]): ViolationData[] {
+  const accepted: Array<{ violation: ViolationData; range: TextRange | null }> = []
+
+  const sortedRuleBased = [...ruleBased].sort(
+    (a, b) => (b.end_pos - b.start_pos) - (a.end_pos - a.start_pos) || a.start_pos - b.start_pos
+  )
+
+  for (const violation of [...sortedRuleBased, ...llmViolations]) {
+    const range = toTextRange(violation)
+    const overlapping = range ? accepted.find(a => a.range?.overlaps(range)) : undefined
+    if (range && overlapping) {
+      if (overlapping.range?.equals(range) && !overlapping.violation.suggested_text && violation.suggested_text) {
+        overlapping.violation = {
+          ...overlapping.violation,
+          suggested_text: violation.suggested_text,
+          alternative_suggestions: violation.alternative_suggestions
+        }
+      }
+      if (!overlapping.violation.regulatory_category && violation.regulatory_category) {
+        overlapping.violation = {
+          ...overlapping.violation,
+          regulatory_category: violation.regulatory_category,
+          severity: violation.severity
+        }
+      }
+      continue
+    }
+    accepted.push({ violation, range })
+  }
+
+  return accepted
+    .map(a => a.violation)
+    .sort((a, b) => a.start_pos - b.start_pos)
+}
+
 
 
 /**
@@ -107,27 +648,34 @@ async function getCheckOrganizationId(
  *
  * 処理内容:
  * - Supabaseクライアントを生成
- * - 全体処理にタイムアウト保護を付与（画像/テキストとも既定: 120秒）
+ * - 全体処理にタイムアウト保護を付与（画像/テキスト: 120秒、PDF: 300秒、長文はチャンク数に応じて延長）
  * - 実際の処理（OCR→類似検索→AI解析→保存）を `performActualCheck` に委譲
  * - 例外発生時はユーザー向けエラー文言を決定し、`checks.status='failed'` と `error_message` を更新
  *
  * @param checkId チェックID
  * @param text 処理対象のテキスト
  * @param organizationId 組織ID
- * @param inputType 入力タイプ（'text' | 'image'）
- * @param imageUrl 画像URL（画像処理時）
+ * @param inputType 入力タイプ（'text' | 'image' | 'pdf' | 'url'）
+ * @param imageUrl 画像・PDFのURL（画像・PDF処理時）
+ * @param productCategory 製品カテゴリ（未指定時は `null`）
+ * @param sourceUrl チェック対象ページのURL（URLチェック時）
  */
 export async function processCheck(
   checkId: number, 
   text: string, 
   organizationId: number,
-  inputType: 'text' | 'image' = 'text',
-  imageUrl?: string
+  inputType: 'text' | 'image' | 'pdf' | 'url' = 'text',
+  imageUrl?: string,
+  productCategory: ProductCategory | null = null,
+  sourceUrl?: string
 ) {
-  const supabase = await createClient()
+  const supabase = await createProcessingClient()
   
-  // タイムアウト保護設定（画像処理: 120秒、テキスト処理: 120秒）- AI API遅延に対応
-  const timeoutMs = inputType === 'image' ? 120000 : 120000
+  // タイムアウト保護設定（画像処理: 120秒、テキスト処理: 120秒、PDF処理: 300秒）- AI API遅延に対応
+  // PDFはスキャンページのOCRがページ数に応じて増えるため長めに取る
+  // 長文はチャンクの並行分析の巡回数に応じて延長する
+  const chunkRounds = Math.ceil(Math.ceil(text.length / DEFAULT_CHUNK_OPTIONS.maxLength) / CHUNK_CONCURRENCY)
+  const timeoutMs = (inputType === 'pdf' ? 300000 : 120000) * Math.max(1, chunkRounds)
   const timeoutPromise = new Promise<never>((_, reject) => {
     setTimeout(() => {
       reject(new Error(`処理がタイムアウトしました（${timeoutMs / 1000}秒）`))
@@ -136,7 +684,7 @@ export async function processCheck(
 
   try {
     await Promise.race([
-      performActualCheck(checkId, text, organizationId, supabase, inputType, imageUrl),
+      performActualCheck(checkId, text, organizationId, supabase, inputType, imageUrl, productCategory, sourceUrl),
       timeoutPromise
     ])
   } catch (error) {
@@ -149,6 +697,8 @@ export async function processCheck(
       if (msg.includes('処理がタイムアウトしました')) {
         errorMessage = inputType === 'image' 
           ? '画像処理がタイムアウトしました。もう一度お試しください。'
+          : inputType === 'pdf'
+          ? 'PDF処理がタイムアウトしました。もう一度お試しください。'
           : 'チェック処理がタイムアウトしました。もう一度お試しください。'
       } 
       // 埋め込み失敗（日英両対応）
@@ -221,6 +771,14 @@ export async function processCheck(
       ) {
         errorMessage = 'OCR処理エラー: 画像からテキストを抽出できませんでした'
       } 
+      // PDF処理失敗
+      else if (msg.includes('PDF処理に失敗しました')) {
+        errorMessage = 'PDF処理エラー: PDFからテキストを抽出できませんでした'
+      } 
+      // URLチェックのページ取得・抽出失敗（原因を表示する）
+      else if (msg.startsWith(WEB_PAGE_ERROR_PREFIX)) {
+        errorMessage = `ページ取得エラー: ${msg.slice(WEB_PAGE_ERROR_PREFIX.length)}`
+      } 
       // 画像読み込み失敗（新規日本語にも対応）
       else if (
         [
@@ -303,31 +861,431 @@ async function retryAiRequest<T>(
   throw lastError ?? new Error('不明なエラーが発生しました')
 }
 
+/** 参考情報としてLLMに渡す辞書エントリー */
+type ReferenceEntry = { id: number; phrase: string; category: 'NG' | 'ALLOW'; similarity?: number; source: DictionarySource }
+
+/** 類似辞書フレーズ検索の設定（機能フラグ・システム設定から決める） */
+type ReferenceSearchSettings = {
+  /** 埋め込みによる類似表現の参考検索を行うか（機能フラグ semantic_reference_search） */
+  enabled: boolean
+  /** 類似フレーズのキャッシュの有効期限（キャッシュ無効時は `null`） */
+  cacheTtlMs: number | null
+}
+
+/**
+ * 組織の類似辞書フレーズ検索の設定を読み込む。
+ *
+ * @param organizationId 組織ID
+ * @param supabase Supabaseクライアント
+ */
+async function loadReferenceSearchSettings(
+  organizationId: number,
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<ReferenceSearchSettings> {
+  const repositories = createRepositories(supabase)
+  const [systemConfig, enabled] = await Promise.all([
+    getSystemConfig(repositories),
+    isFeatureEnabled(repositories, 'semantic_reference_search', organizationId)
+  ])
+  return {
+    enabled,
+    cacheTtlMs: systemConfig.cacheEnabled && systemConfig.cacheTTL > 0 ? systemConfig.cacheTTL * 1000 : null
+  }
+}
+
+/** 組織辞書と共通辞書でIDが重なるため、出所とIDの組で辞書項目を識別する */
+function dictionaryKey(source: DictionarySource, id: number): string {
+  return `${source}:${id}`
+}
+
+/**
+ * チャンクの類似辞書フレーズを検索し、LLMに渡す参考情報を組み立てる。
+ *
+ * 処理内容:
+ * - 参考検索が無効な組織では検索しない
+ * - 組織+テキストハッシュごとのキャッシュを確認（システム設定でキャッシュが無効な場合は使わない）
+ * - 埋め込み生成→ `get_combined_similar_phrases` で類似フレーズ検索（チャンクは最大長以内のため全文を使用）
+ * - NGカテゴリのみを統合スコア順に並べ、製品カテゴリの対象外の項目を除外して件数制限
+ *
+ * 埋め込み生成・検索に失敗した場合はログのみ出力し、参考情報なしでLLM分析を継続する。
+ *
+ * @param checkId ログ/文脈用のチェックID
+ * @param text チャンクのテキスト
+ * @param organizationId 組織ID
+ * @param dictionaryItems 適用対象の辞書項目（取得失敗時は `null`）
+ * @param referenceSearch 類似辞書フレーズ検索の設定
+ * @param supabase Supabaseクライアント
+ * @returns 参考辞書エントリー
+ */
+async function findReferenceEntries(
+  checkId: number,
+  text: string,
+  organizationId: number,
+  dictionaryItems: DictionaryItem[] | null,
+  referenceSearch: ReferenceSearchSettings,
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<ReferenceEntry[]> {
+  if (!referenceSearch.enabled) return []
+
+  // 組織+テキストハッシュごとの類似フレーズキャッシュキー
+  const textHash = CacheUtils.hashText(text)
+  const similarKey = CacheUtils.similarPhrasesKey(organizationId, textHash)
+
+  // まずキャッシュを確認
+  let combinedPhrases = referenceSearch.cacheTtlMs !== null ? cache.get<CombinedPhrase[]>(similarKey) : null
+
+  if (!combinedPhrases) {
+    const embeddingKey = `emb:${textHash}`
+    let embedding = cache.get<number[]>(embeddingKey)
+
+    if (!embedding) {
+      const { createEmbedding } = await import('@/lib/ai-client')
+      try {
+        const embeddingResponse = await createEmbedding(text)
+        embedding = embeddingResponse.data[0]?.embedding || null
+        cache.set(embeddingKey, embedding, 15 * 60 * 1000) // 15分TTL（長い文章用に延長）
+      } catch (embeddingError) {
+        console.error(`[CHECK] チェック ${checkId} の埋め込み生成に失敗しました:`, embeddingError)
+        // 埋め込み生成に失敗しても処理は継続（辞書なしでLLM分析）
+      }
+    }
+
+    // 埋め込みが利用可能な場合のみ辞書検索を実行
+    if (embedding) {
+      
+      // 長い文章の場合は検索パラメータを調整してパフォーマンス向上
+      const isLongText = text.length > 500
+      const maxResults = isLongText ? 30 : 50 // 長い文章は結果数を制限
+      const vectorThreshold = isLongText ? 0.7 : 0.75 // 長い文章は閾値を下げて高速化
+      
+      const { data, error: combinedError } = await (supabase as unknown as {
+        rpc: (
+          fn: 'get_combined_similar_phrases',
+          args: {
+            input_text: string
+            org_id: number
+            trgm_threshold: number
+            vector_threshold: number
+            query_embedding: string
+            max_results: number
+          }
+        ) => Promise<{ data: CombinedPhrase[]; error: { message: string } | null }>
+      }).rpc(
+        'get_combined_similar_phrases',
+        { 
+          input_text: text,
+          org_id: organizationId,
+          trgm_threshold: 0.3,
+          vector_threshold: vectorThreshold,
+          query_embedding: JSON.stringify(embedding),
+          max_results: maxResults
+        }
+      )
+
+      if (combinedError) {
+        console.error(`[CHECK] チェック ${checkId} の類似フレーズ取得でエラーが発生しました:`, combinedError)
+      } else {
+        combinedPhrases = Array.isArray(data) ? data : []
+        // 類似フレーズをシステム設定の有効期限だけキャッシュ（同一テキストの再チェック高速化）
+        if (referenceSearch.cacheTtlMs !== null) {
+          cache.set(similarKey, combinedPhrases, referenceSearch.cacheTtlMs)
+        }
+      }
+    }
+  }
+
+  if (!combinedPhrases || combinedPhrases.length === 0) return []
+
+  // 辞書から参考情報を抽出（NGエントリーのみ）
+  let referenceEntries: ReferenceEntry[] = combinedPhrases
+    .filter(entry => entry.category === 'NG')
+    .map(entry => ({
+      id: entry.id,
+      phrase: entry.phrase,
+      category: entry.category,
+      similarity: entry.combined_score, // 関連性には統合スコアを使用
+      source: entry.source ?? 'organization'
+    }))
+    .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
+
+  // 製品カテゴリの対象外の辞書項目は参考情報から除く
+  if (dictionaryItems) {
+    const scopedKeys = new Set(dictionaryItems.map(item => dictionaryKey(item.source, item.id)))
+    referenceEntries = referenceEntries.filter(entry => scopedKeys.has(dictionaryKey(entry.source, entry.id)))
+  }
+
+  // AIに渡すエントリー数を制限してトークン使用量と応答時間を削減
+  const MAX_REFERENCE_ENTRIES = 20
+  return referenceEntries.slice(0, MAX_REFERENCE_ENTRIES)
+}
+
+/**
+ * LLMの応答（OpenAI/OpenRouter の function/tool call、LM Studio の解析済み結果）を共通形式に変換する。
+ *
+ * @param result `createChatCompletionForCheck` の結果
+ * @param text 分析対象のテキスト（修正文がない場合の既定値）
+ * @returns 報告された違反と修正文
+ */
+function parseCheckCompletion(
+  result: Awaited<ReturnType<typeof import('@/lib/ai-client').createChatCompletionForCheck>>,
+  text: string
+): { reported: ReportedViolation[]; modified: string } {
+  if (result.type === 'openai' || result.type === 'openrouter') {
+    // OpenAI/OpenRouter 双方で function_call または tool_calls をサポート
+    const responseAny = result.response as unknown as {
+      choices?: Array<{
+        message?: {
+          function_call?: { arguments?: string }
+          tool_calls?: Array<{
+            type?: string
+            function?: { name?: string; arguments?: string }
+          }>
+        }
+      }>
+    }
+
+    const message = responseAny?.choices?.[0]?.message as
+      | {
+          function_call?: { arguments?: string }
+          tool_calls?: Array<{ type?: string; function?: { name?: string; arguments?: string } }>
+        }
+      | undefined
+
+    // 1) OpenAI 互換の function_call.arguments
+    let argsJson: string | null = message?.function_call?.arguments ?? null
+
+    // 2) tool_calls 配列（OpenRouter/一部OpenAI実装）
+    const toolCalls = Array.isArray(message?.tool_calls) ? message?.tool_calls : []
+    if (!argsJson && toolCalls.length > 0) {
+      const targetCall =
+        toolCalls.find(
+          (tc) => tc?.type === 'function' && tc.function?.name === 'apply_yakukiho_rules'
+        ) ?? toolCalls[0]
+      argsJson = targetCall?.function?.arguments ?? null
+    }
+
+    if (!argsJson?.trim()) {
+      throw ErrorFactory.createAIServiceError('OpenAI/OpenRouter', '関数呼び出し', '応答に期待したfunction/tool callが含まれていません')
+    }
+
+    const analysisResult = JSON.parse(argsJson) as {
+      modified?: string
+      violations?: Array<{
+        start_pos?: number
+        end_pos?: number
+        start?: number
+        end?: number
+        text?: string
+        reason: string
+        suggestion?: string
+        alternatives?: string[]
+        category?: string
+        dictionary_id?: number
+        dictionaryId?: number
+      }>
+    }
+
+    // 共通形式から内部形式に変換（スキーマの start_pos/end_pos と旧形式の start/end の双方を受け付ける）
+    return {
+      reported: (analysisResult.violations ?? []).map((v) => ({
+        start: v.start_pos ?? v.start ?? -1,
+        end: v.end_pos ?? v.end ?? -1,
+        text: v.text,
+        reason: v.reason,
+        suggestion: v.suggestion,
+        alternatives: v.alternatives,
+        category: v.category,
+        dictionary_id: v.dictionary_id ?? v.dictionaryId
+      })),
+      modified: analysisResult.modified ?? text
+    }
+  }
+
+  return {
+    reported: result.violations.map((v) => ({
+      start: v.start_pos,
+      end: v.end_pos,
+      text: v.text,
+      reason: v.reason,
+      suggestion: v.suggestion,
+      alternatives: v.alternatives,
+      category: v.category,
+      dictionary_id: v.dictionary_id ?? undefined
+    })),
+    modified: result.modified
+  }
+}
+
+/**
+ * 1チャンク分の辞書検索とLLM分析を行う。
+ *
+ * 処理内容:
+ * - チャンクのテキストで類似辞書フレーズを検索（`findReferenceEntries`）
+ * - チャンク内のプレパス該当語を修正対象として参考情報の先頭に置く
+ * - LLMで分析し、違反スパンをチャンク内で再アンカリングしてから全体のオフセットに戻す
+ *
+ * @param checkId チェックID
+ * @param chunk 分析対象のチャンク
+ * @param organizationId 組織ID
+ * @param dictionaryItems 適用対象の辞書項目（取得失敗時は `null`）
+ * @param ruleBasedCandidates 全文に対するプレパスの違反候補
+ * @param productCategory 製品カテゴリ
+ * @param referenceSearch 類似辞書フレーズ検索の設定
+ * @param supabase Supabaseクライアント
+ * @returns 全体のオフセットに揃えた違反、チャンクの修正文、応答したプロバイダー・モデルとトークン使用量
+ */
+async function analyzeChunk(
+  checkId: number,
+  chunk: TextChunk,
+  organizationId: number,
+  dictionaryItems: DictionaryItem[] | null,
+  ruleBasedCandidates: ViolationCandidate[],
+  productCategory: ProductCategory | null,
+  referenceSearch: ReferenceSearchSettings,
+  supabase: Awaited<ReturnType<typeof createClient>>
+): Promise<{
+  violations: ViolationData[]
+  modified: string
+  provider: string
+  model: string
+  usage: { promptTokens: number; completionTokens: number } | null
+}> {
+  let referenceEntries = await findReferenceEntries(
+    checkId,
+    chunk.text,
+    organizationId,
+    dictionaryItems,
+    referenceSearch,
+    supabase
+  )
+
+  // プレパスで該当した辞書エントリーは修正対象として参考情報の先頭に置く
+  const chunkCandidates = ruleBasedCandidates.filter(c => c.range.start < chunk.end && c.range.end > chunk.start)
+  if (chunkCandidates.length > 0) {
+    const matchedEntries = new Map(chunkCandidates.map(c => [
+      dictionaryKey(c.dictionaryItem.source, c.dictionaryItem.id),
+      {
+        id: c.dictionaryItem.id,
+        phrase: c.dictionaryItem.phrase,
+        category: c.dictionaryItem.category,
+        similarity: c.confidence,
+        source: c.dictionaryItem.source
+      }
+    ]))
+    referenceEntries = [
+      ...matchedEntries.values(),
+      ...referenceEntries.filter(entry => !matchedEntries.has(dictionaryKey(entry.source, entry.id)))
+    ]
+  }
+
+  // LLMを使用して薬機法違反を分析（辞書は参考情報として使用）
+  const { createChatCompletionForCheck } = await import('@/lib/ai-client')
+  const result = await retryAiRequest(
+    () => createChatCompletionForCheck(chunk.text, referenceEntries, productCategory),
+    checkId,
+    2, // 最大2回リトライ
+    1500 // 1.5秒から開始
+  )
+
+  const { reported, modified } = parseCheckCompletion(result, chunk.text)
+  const violations = resolveReportedDictionaryIds(realignViolations(checkId, chunk.text, reported), referenceEntries).map(violation =>
+    // 位置を特定できなかった違反（0-0）はそのまま残す
+    violation.confidence === 0
+      ? violation
+      : { ...violation, start_pos: violation.start_pos + chunk.start, end_pos: violation.end_pos + chunk.start }
+  )
+
+  return { violations, modified, provider: result.provider, model: result.model, usage: result.usage }
+}
+
+/** チェック1件分のLLM利用量（`checks` に記録する値） */
+interface LlmUsage {
+  provider: string | null
+  model: string | null
+  promptTokens: number | null
+  completionTokens: number | null
+  costUsd: number | null
+}
+
+/**
+ * チャンクごとのLLM応答から、チェック全体のプロバイダー・モデルとトークン使用量・コストを集計する。
+ * フォールバックにより応答したプロバイダーがチャンク間で異なる場合は応答順に併記する。
+ * 使用量が不明なチャンクや単価未登録のモデルがある場合、コストは `null` とする。
+ */
+function aggregateLlmUsage(
+  analyses: Array<{ provider: string; model: string; usage: { promptTokens: number; completionTokens: number } | null }>
+): LlmUsage {
+  const withUsage = analyses.filter(analysis => analysis.usage !== null)
+  const costs = analyses.map(analysis => analysis.usage
+    ? calculateLlmCost(analysis.provider, analysis.model, analysis.usage.promptTokens, analysis.usage.completionTokens)
+    : null
+  )
+
+  return {
+    provider: [...new Set(analyses.map(analysis => analysis.provider))].join(',') || null,
+    model: [...new Set(analyses.map(analysis => analysis.model))].join(',') || null,
+    promptTokens: withUsage.length > 0 ? withUsage.reduce((sum, analysis) => sum + analysis.usage!.promptTokens, 0) : null,
+    completionTokens: withUsage.length > 0 ? withUsage.reduce((sum, analysis) => sum + analysis.usage!.completionTokens, 0) : null,
+    costUsd: costs.length > 0 && costs.every(cost => cost !== null)
+      ? costs.reduce<number>((sum, cost) => sum + cost!, 0)
+      : null
+  }
+}
+
+/**
+ * 統合済みの違反の置換案を原文に適用して修正文を組み立てる（複数チャンク時に使用）。
+ */
+function buildModifiedText(text: string, violations: ViolationData[]): string {
+  const replacements = violations.flatMap(violation => {
+    const range = toTextRange(violation)
+    return range && violation.suggested_text
+      ? [{ range, replacement: violation.suggested_text }]
+      : []
+  })
+  return CheckProcessingService.applySuggestionReplacements(text, replacements)
+}
+
 /**
  * 実際のチェック処理を行う。
  *
  * 処理内容:
  * - `checks.status` を `processing` に更新
- * - 入力が画像の場合: OCR 実行→抽出テキスト/メタデータを保存（失敗時は `ocr_status='failed'`）
- * - テキストに対して、埋め込み生成→類似フレーズ検索（キャッシュ利用・条件付き実行）
- * - NGカテゴリの参考辞書エントリーを抽出・上位にソート・件数制限
- * - LLMで薬機法違反を分析（OpenAI/LM Studio 形式を吸収）
- * - `completeCheck` にて違反・修正文の保存と完了処理
+ * - 画像・PDF・URLで抽出済み（再実行・リトライ）の場合は保存済みの抽出結果を再利用し、以下の抽出処理を省略
+ * - 入力が画像の場合: 画像を取得してレイアウト付きOCR実行→抽出テキスト/テキストブロックの位置/メタデータを保存（失敗時は `ocr_status='failed'`）
+ * - 入力がPDFの場合: ページごとにテキストレイヤーを抽出し、スキャンページはページ画像をOCR→抽出テキスト/ページごとの範囲（`pdf_pages`）を保存（失敗時は `ocr_status='failed'`）
+ * - 入力がURLの場合: ページを取得して本文を抽出→HTMLのスナップショットを Storage に保存し、抽出テキスト/区間ごとのDOM要素（`page_segments`）/スナップショット情報（`page_snapshot`）を保存（失敗時は `ocr_status='failed'`）
+ * - 組織辞書による決定論的プレパス（完全一致・部分一致）で確定違反を検出
+ * - テキストを文境界で重なり付きのチャンクに分割し、同時実行数を制限してチャンクごとに分析（`analyzeChunk`）
+ *   - 埋め込み生成→類似フレーズ検索（キャッシュ利用・条件付き実行）
+ *   - NGカテゴリの参考辞書エントリーを抽出・上位にソート・件数制限（プレパスの該当語を優先）
+ *   - LLMで薬機法違反を分析（OpenAI/LM Studio 形式を吸収）
+ *   - LLMの違反スパンを引用フレーズで検証・再アンカリングし、全体のオフセットに戻す
+ * - プレパスとLLMの違反を統合し、範囲の重複（チャンクの重なり部分を含む）を除去
+ * - 画像の場合は違反のオフセットをOCRブロックの位置に対応付けて画像上の領域（`image_regions`）を求める
+ * - PDFの場合は違反のオフセットからページ番号（`page_number`）を求める
+ * - URLの場合は違反のオフセットから該当要素のCSSセレクタ（`dom_selector`）を求める
+ * - 複数チャンクの場合は置換案を原文に適用して修正文を組み立てる
+ * - 全チャンクのトークン使用量とコストを合算（`aggregateLlmUsage`）
+ * - `completeCheck` にて違反・修正文・応答したAIプロバイダー・LLM利用量の保存と完了処理
  *
  * @param checkId チェックID
  * @param text 入力テキスト
  * @param organizationId 組織ID
  * @param supabase Supabaseクライアント
  * @param inputType 入力タイプ
- * @param imageUrl 画像URL
+ * @param imageUrl 画像・PDFのURL
+ * @param productCategory 製品カテゴリ
+ * @param sourceUrl チェック対象ページのURL
  */
 async function performActualCheck(
   checkId: number,
   text: string,
   organizationId: number,
   supabase: Awaited<ReturnType<typeof createClient>>,
-  inputType: 'text' | 'image' = 'text',
-  imageUrl?: string
+  inputType: 'text' | 'image' | 'pdf' | 'url' = 'text',
+  imageUrl?: string,
+  productCategory: ProductCategory | null = null,
+  sourceUrl?: string
 ) {
   await supabase
     .from('checks')
@@ -336,7 +1294,20 @@ async function performActualCheck(
 
   // 画像の場合、最初にOCR処理を実行
   let processedText = text
-  if (inputType === 'image' && imageUrl) {
+  let ocrBlocks: OcrTextBlock[] = []
+  let pdfPages: PdfPageRange[] = []
+  let pageSegments: WebPageSegment[] = []
+
+  // 抽出済みの場合は同じテキストで分析する（再実行時に辞書・モデルの違いだけを比較できるように）
+  const storedExtraction = inputType !== 'text' ? await loadStoredExtraction(checkId, supabase) : null
+  if (storedExtraction) {
+    processedText = storedExtraction.text
+    ocrBlocks = storedExtraction.ocrBlocks
+    pdfPages = storedExtraction.pdfPages
+    pageSegments = storedExtraction.pageSegments
+  }
+
+  if (!storedExtraction && inputType === 'image' && imageUrl) {
     
     // OCRステータスを処理中に更新
     await supabase
@@ -345,27 +1316,31 @@ async function performActualCheck(
       .eq('id', checkId)
 
     try {
-      const { extractTextFromImageWithLLM, estimateOcrConfidence } = await import('@/lib/ai-client')
+      const { extractTextLayoutFromImageWithLLM, estimateOcrConfidence } = await import('@/lib/ai-client')
       const start = Date.now()
-      const ocrText = await extractTextFromImageWithLLM(Buffer.from(imageUrl), 'この画像に含まれるテキストを日本語で正確に抽出してください。')
-      processedText = ocrText.trim()
+      const image = await loadOcrImage(imageUrl)
+      const layout = await extractTextLayoutFromImageWithLLM(image.buffer, image.mimeType)
+      processedText = layout.text.trim()
       if (!processedText) {
         throw ErrorFactory.createFileProcessingError('OCR処理', 'image')
       }
+      ocrBlocks = layout.blocks
       const confidence = estimateOcrConfidence(processedText)
 
-      // 抽出テキストとOCR完了をデータベースに記録
+      // 抽出テキスト・テキストブロックの位置とOCR完了をデータベースに記録
       await supabase
         .from('checks')
         .update({ 
           extracted_text: processedText,
+          ocr_blocks: ocrBlocks.length > 0 ? ocrBlocks.map(block => ({ ...block, bbox: { ...block.bbox } })) : null,
           ocr_status: 'completed',
           ocr_metadata: {
             provider: 'llm',
             model: 'vision-model',
             language: 'ja',
             processing_time_ms: Date.now() - start,
-            confidence
+            confidence,
+            block_count: ocrBlocks.length
           }
         })
         .eq('id', checkId)
@@ -387,174 +1362,188 @@ async function performActualCheck(
     }
   }
 
-  // 処理済みテキストを使用して通常のテキスト処理を継続
-  let referenceEntries: Array<{ id: number; phrase: string; category: 'NG' | 'ALLOW'; similarity?: number }> = []
-  
-  // 組織+テキストハッシュごとの類似フレーズキャッシュキー
-  const textHash = CacheUtils.hashText(processedText)
-  const similarKey = CacheUtils.similarPhrasesKey(organizationId, textHash)
+  // PDFの場合、ページごとにテキストを抽出（スキャンページはOCR）
+  if (!storedExtraction && inputType === 'pdf' && imageUrl) {
+    await supabase
+      .from('checks')
+      .update({ ocr_status: 'processing' })
+      .eq('id', checkId)
 
-  // まずキャッシュを確認
-  let combinedPhrases = cache.get<CombinedPhrase[]>(similarKey)
+    try {
+      const { extractTextLayoutFromImageWithLLM } = await import('@/lib/ai-client')
+      const start = Date.now()
+      const pdf = await loadPdfDocument(imageUrl)
+      const pageTexts = await extractPdfPages(pdf, async (image, mimeType) =>
+        (await extractTextLayoutFromImageWithLLM(image, mimeType)).text
+      )
+      const extracted = buildPdfText(pageTexts)
+      processedText = extracted.text
+      if (!processedText) {
+        throw ErrorFactory.createFileProcessingError('PDF処理', 'pdf')
+      }
+      if (processedText.length > APP_CONFIG.TEXT_LIMITS.MAX_LENGTH) {
+        throw new Error(`PDFの抽出テキストが上限（${APP_CONFIG.TEXT_LIMITS.MAX_LENGTH}文字）を超えています`)
+      }
+      pdfPages = extracted.pages
 
-  if (!combinedPhrases) {
-    // 長い文章の埋め込み生成最適化
-    const embeddingKey = `emb:${textHash}`
-    let embedding = cache.get<number[]>(embeddingKey)
+      // 抽出テキスト・ページごとの範囲と抽出完了をデータベースに記録
+      await supabase
+        .from('checks')
+        .update({
+          extracted_text: processedText,
+          pdf_pages: pdfPages.map(page => ({ ...page })),
+          ocr_status: 'completed',
+          ocr_metadata: {
+            provider: 'pdf',
+            processing_time_ms: Date.now() - start,
+            page_count: pageTexts.length,
+            ocr_pages: pdfPages.filter(page => page.source === 'ocr').map(page => page.page)
+          }
+        })
+        .eq('id', checkId)
 
-    if (!embedding) {
-      const { createEmbedding } = await import('@/lib/ai-client')
-      try {
-        
-        // 長い文章は先頭部分のみで埋め込み生成（パフォーマンス最適化）
-        const embeddingText = processedText.length > 1000 
-          ? processedText.substring(0, 1000) + '...'
-          : processedText
-        const embeddingResponse = await createEmbedding(embeddingText)
-        embedding = embeddingResponse.data[0]?.embedding || null
-        cache.set(embeddingKey, embedding, 15 * 60 * 1000) // 15分TTL（長い文章用に延長）
-      } catch (embeddingError) {
-        console.error(`[CHECK] チェック ${checkId} の埋め込み生成に失敗しました:`, embeddingError)
-        // 埋め込み生成に失敗しても処理は継続（辞書なしでLLM分析）
-      }
-    } else {
-    }
+    } catch (pdfError) {
+      console.error(`[CHECK] チェック ${checkId} のPDF処理に失敗しました:`, pdfError)
 
-    // 埋め込みが利用可能な場合のみ辞書検索を実行
-    if (embedding) {
-      
-      // 長い文章の場合は検索パラメータを調整してパフォーマンス向上
-      const isLongText = processedText.length > 500
-      const searchText = isLongText ? processedText.substring(0, 500) + '...' : processedText
-      const maxResults = isLongText ? 30 : 50 // 長い文章は結果数を制限
-      const vectorThreshold = isLongText ? 0.7 : 0.75 // 長い文章は閾値を下げて高速化
-      
-      const { data, error: combinedError } = await (supabase as unknown as {
-        rpc: (
-          fn: 'get_combined_similar_phrases',
-          args: {
-            input_text: string
-            org_id: number
-            trgm_threshold: number
-            vector_threshold: number
-            query_embedding: string
-            max_results: number
+      await supabase
+        .from('checks')
+        .update({
+          ocr_status: 'failed',
+          ocr_metadata: {
+            error: pdfError instanceof Error ? pdfError.message : 'Unknown PDF error'
           }
-        ) => Promise<{ data: CombinedPhrase[]; error: { message: string } | null }>
-      }).rpc(
-        'get_combined_similar_phrases',
-        { 
-          input_text: searchText,
-          org_id: organizationId,
-          trgm_threshold: 0.3,
-          vector_threshold: vectorThreshold,
-          query_embedding: JSON.stringify(embedding),
-          max_results: maxResults
-        }
-      )
+        })
+        .eq('id', checkId)
 
-      if (combinedError) {
-        console.error(`[CHECK] チェック ${checkId} の類似フレーズ取得でエラーが発生しました:`, combinedError)
-      } else {
-        combinedPhrases = Array.isArray(data) ? data : []
-        // 類似フレーズを5分キャッシュ（同一テキストの再チェック高速化）
-        cache.set(similarKey, combinedPhrases, 5 * 60 * 1000)
-      }
+      throw ErrorFactory.createFileProcessingError('PDF処理', 'pdf')
     }
   }
 
-  // 辞書から参考情報を抽出（NGエントリーのみ）
-  if (combinedPhrases && combinedPhrases.length > 0) {
-    referenceEntries = combinedPhrases
-      .filter(entry => entry.category === 'NG')
-      .map(entry => ({
-        id: entry.id,
-        phrase: entry.phrase,
-        category: entry.category,
-        similarity: entry.combined_score // 関連性には統合スコアを使用
-      }))
-      .sort((a, b) => (b.similarity ?? 0) - (a.similarity ?? 0))
-
-    // AIに渡すエントリー数を制限してトークン使用量と応答時間を削減
-    const MAX_REFERENCE_ENTRIES = 20
-    referenceEntries = referenceEntries.slice(0, MAX_REFERENCE_ENTRIES)
-  } else {
-  }
+  // URLの場合、ページを取得して本文を抽出し、監査用にHTMLのスナップショットを保存
+  if (!storedExtraction && inputType === 'url' && sourceUrl) {
+    await supabase
+      .from('checks')
+      .update({ ocr_status: 'processing' })
+      .eq('id', checkId)
 
-  // LLMを使用して薬機法違反を分析（辞書は参考情報として使用）
-  const { createChatCompletionForCheck } = await import('@/lib/ai-client')
+    try {
+      const start = Date.now()
+      const page = await fetchWebPage(sourceUrl)
+      const content = extractWebPageContent(page.html)
+      processedText = content.text
+      if (!processedText) {
+        throw new Error('ページからチェック対象のテキストを抽出できませんでした')
+      }
+      if (processedText.length > APP_CONFIG.TEXT_LIMITS.MAX_LENGTH) {
+        throw new Error(`ページの抽出テキストが上限（${APP_CONFIG.TEXT_LIMITS.MAX_LENGTH}文字）を超えています`)
+      }
+      pageSegments = content.segments
 
-  try {
-    const result = await retryAiRequest(
-      () => createChatCompletionForCheck(processedText, referenceEntries),
-      checkId,
-      2, // 最大2回リトライ
-      1500 // 1.5秒から開始
-    )
-      
-    let violations: ViolationData[]
-    let modifiedText: string
-
-    if (result.type === 'openai' || result.type === 'openrouter') {
-      // OpenAI/OpenRouter 双方で function_call または tool_calls をサポート
-      const responseAny = result.response as unknown as {
-        choices?: Array<{
-          message?: {
-            function_call?: { arguments?: string }
-            tool_calls?: Array<{
-              type?: string
-              function?: { name?: string; arguments?: string }
-            }>
-          }
-        }>
+      const snapshot: WebPageSnapshot = {
+        url: page.url,
+        finalUrl: page.finalUrl,
+        fetchedAt: page.fetchedAt,
+        httpStatus: page.httpStatus,
+        contentType: page.contentType,
+        title: content.title,
+        metaDescription: content.metaDescription,
+        sha256: createHash('sha256').update(page.body).digest('hex'),
+        bytes: page.body.length,
+        storagePath: await saveWebPageSnapshot(checkId, organizationId, page.body, supabase)
       }
 
-      const message = responseAny?.choices?.[0]?.message as
-        | {
-            function_call?: { arguments?: string }
-            tool_calls?: Array<{ type?: string; function?: { name?: string; arguments?: string } }>
+      // 抽出テキスト・区間ごとのDOM要素・スナップショット情報と抽出完了をデータベースに記録
+      await supabase
+        .from('checks')
+        .update({
+          extracted_text: processedText,
+          page_segments: pageSegments.map(segment => ({ ...segment })),
+          page_snapshot: { ...snapshot },
+          ocr_status: 'completed',
+          ocr_metadata: {
+            provider: 'html',
+            processing_time_ms: Date.now() - start,
+            segment_count: pageSegments.length
           }
-        | undefined
-
-      // 1) OpenAI 互換の function_call.arguments
-      let argsJson: string | null = message?.function_call?.arguments ?? null
-
-      // 2) tool_calls 配列（OpenRouter/一部OpenAI実装）
-      const toolCalls = Array.isArray(message?.tool_calls) ? message?.tool_calls : []
-      if (!argsJson && toolCalls.length > 0) {
-        const targetCall =
-          toolCalls.find(
-            (tc) => tc?.type === 'function' && tc.function?.name === 'apply_yakukiho_rules'
-          ) ?? toolCalls[0]
-        argsJson = targetCall?.function?.arguments ?? null
-      }
+        })
+        .eq('id', checkId)
 
-      if (!argsJson?.trim()) {
-        throw ErrorFactory.createAIServiceError('OpenAI/OpenRouter', '関数呼び出し', '応答に期待したfunction/tool callが含まれていません')
-      }
+    } catch (pageError) {
+      console.error(`[CHECK] チェック ${checkId} のページ取得に失敗しました:`, pageError)
+      const message = pageError instanceof Error ? pageError.message : 'Unknown page error'
 
-      const analysisResult = JSON.parse(argsJson) as {
-        modified?: string
-        violations?: Array<{ start: number; end: number; reason: string; dictionaryId?: number }>
-      }
+      await supabase
+        .from('checks')
+        .update({
+          ocr_status: 'failed',
+          ocr_metadata: { error: message }
+        })
+        .eq('id', checkId)
 
-      // 共通形式から内部形式に変換
-      violations = (analysisResult.violations ?? []).map((v) => ({
-        start_pos: v.start,
-        end_pos: v.end,
-        reason: v.reason,
-        dictionary_id: v.dictionaryId
-      }))
-      modifiedText = analysisResult.modified ?? processedText
-    } else {
-      violations = result.violations
-      modifiedText = result.modified
+      throw new Error(`${WEB_PAGE_ERROR_PREFIX}${message}`)
     }
+  }
+
+  // 辞書による決定論的プレパス（LLMの結果に関わらず確定させる違反）
+  const dictionaryItems = await loadDictionaryItems(checkId, organizationId, productCategory, supabase)
+  const ruleBasedCandidates = await detectDictionaryViolations(processedText, dictionaryItems ?? [], productCategory)
+  const ruleBasedViolations = ruleBasedCandidates.map(toViolationData)
+
+  // 類似表現の参考検索の有無とキャッシュの有効期限（機能フラグ・システム設定）
+  const referenceSearch = await loadReferenceSearchSettings(organizationId, supabase)
+
+  // 文境界で分割したチャンクごとに辞書検索とLLM分析を行い、全体のオフセットで統合する
+  const chunks = chunkText(processedText)
+
+  try {
+    const analyses = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, chunk =>
+      analyzeChunk(
+        checkId,
+        chunk,
+        organizationId,
+        dictionaryItems,
+        ruleBasedCandidates,
+        productCategory,
+        referenceSearch,
+        supabase
+      )
+    )
+
+    const mergedViolations = mergeViolations(ruleBasedViolations, analyses.flatMap(analysis => analysis.violations))
+
+    // 画像チェックでは違反箇所のオフセットをOCRブロックの位置に、PDFチェックではページ番号に、URLチェックではDOM要素に対応付ける
+    const violations = ocrBlocks.length > 0
+      ? mergedViolations.map(violation => ({
+          ...violation,
+          image_regions: mapTextRangeToImageRegions(ocrBlocks, violation.start_pos, violation.end_pos)
+        }))
+      : pdfPages.length > 0
+      ? mergedViolations.map(violation => ({
+          ...violation,
+          // 位置を特定できなかった違反は先頭ページに誤って紐付けない
+          page_number: isUnanchoredViolation(violation) ? null : findPdfPageNumber(pdfPages, violation.start_pos)
+        }))
+      : pageSegments.length > 0
+      ? mergedViolations.map(violation => ({
+          ...violation,
+          // 位置を特定できなかった違反はページ先頭の要素に誤って紐付けない
+          dom_selector: isUnanchoredViolation(violation) ? null : findWebPageSelector(pageSegments, violation.start_pos)
+        }))
+      : mergedViolations
 
-    await completeCheck(checkId, modifiedText, violations, supabase)
+    // 複数チャンクの修正文は連結できないため、統合後の置換案を原文に適用して組み立てる
+    const modifiedText = analyses.length === 1
+      ? analyses[0].modified
+      : buildModifiedText(processedText, violations)
+
+    const dictionary = {
+      version: dictionaryItems ? computeDictionaryVersion(dictionaryItems) : null,
+      snapshotId: await resolveDictionarySnapshotId(checkId, organizationId, supabase)
+    }
+    await completeCheck(checkId, modifiedText, violations, aggregateLlmUsage(analyses), dictionary, supabase)
       
   } catch (aiError) {
     console.error(`[CHECK] チェック ${checkId} のAI処理に失敗しました:`, aiError)
     throw ErrorFactory.createAIServiceError('AI', 'チャット補完', `チャット補完の作成に失敗しました: ${aiError}`)
   }
-}
\ No newline at end of file
+}
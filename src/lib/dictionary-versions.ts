@@ -0,0 +1,241 @@
+/**
+ * 辞書のバージョン管理
+ * 辞書項目の変更履歴（dictionary_changes）の記録、辞書全体のスナップショット（dictionary_snapshots）の作成、
+ * 2つの辞書の状態の差分計算を行う。
+ *
+ * - 変更履歴: 辞書を変更するユースケースが変更前後の内容を記録する（記録に失敗しても変更自体は取り消さない）
+ * - スナップショット: 管理者が名前を付けて作成するもの（manual）と、チェック実行時・ロールバック前に自動で作成するもの（auto）
+ * - チェックとの対応: 最新のスナップショット以降に変更がなければそのスナップショットを、変更があれば自動スナップショットを作成して記録する
+ */
+
+import {
+  Dictionary,
+  DictionaryChangeAction,
+  DictionaryChangeSource,
+  DictionaryEntry,
+  DictionarySnapshot,
+  DictionarySnapshotKind,
+  DictionarySnapshotSummary,
+  RepositoryContainer
+} from '@/core/ports'
+import { logger } from '@/lib/logger'
+import { Json } from '@/types/database.types'
+
+/** 差分で比較する項目 */
+export const DICTIONARY_ENTRY_FIELDS = ['phrase', 'category', 'notes', 'regulatory_category', 'product_category'] as const
+
+export type DictionaryEntryField = typeof DICTIONARY_ENTRY_FIELDS[number]
+
+/**
+ * 内容が変わった辞書項目
+ */
+export interface DictionaryEntryChange {
+  before: DictionaryEntry
+  after: DictionaryEntry
+  fields: DictionaryEntryField[]
+}
+
+/**
+ * 2つの辞書の状態の差分
+ */
+export interface DictionaryDiff {
+  added: DictionaryEntry[]
+  removed: DictionaryEntry[]
+  changed: DictionaryEntryChange[]
+  unchangedCount: number
+}
+
+/**
+ * 記録する変更（追加は after のみ、削除は before のみ）
+ */
+export interface DictionaryChangeRecord {
+  action: DictionaryChangeAction
+  before?: DictionaryEntry | Dictionary | null
+  after?: DictionaryEntry | Dictionary | null
+}
+
+/**
+ * 辞書項目から履歴・スナップショットに保存する項目だけを取り出す（埋め込みベクトル等は含めない）
+ */
+export function toDictionaryEntry(dictionary: DictionaryEntry | Dictionary): DictionaryEntry {
+  return {
+    id: dictionary.id,
+    phrase: dictionary.phrase,
+    category: dictionary.category,
+    notes: dictionary.notes ?? null,
+    regulatory_category: dictionary.regulatory_category ?? null,
+    product_category: dictionary.product_category ?? null
+  }
+}
+
+/**
+ * スナップショットに保存した辞書項目を取り出す
+ */
+export function getSnapshotEntries(snapshot: Pick<DictionarySnapshot, 'items'>): DictionaryEntry[] {
+  return Array.isArray(snapshot.items) ? snapshot.items as unknown as DictionaryEntry[] : []
+}
+
+/**
+ * スナップショットから辞書項目を除いた概要を取り出す
+ */
+export function toSnapshotSummary(snapshot: DictionarySnapshot): DictionarySnapshotSummary {
+  return {
+    id: snapshot.id,
+    organization_id: snapshot.organization_id,
+    name: snapshot.name,
+    description: snapshot.description,
+    kind: snapshot.kind,
+    item_count: snapshot.item_count,
+    last_change_id: snapshot.last_change_id,
+    created_by: snapshot.created_by,
+    created_at: snapshot.created_at
+  }
+}
+
+function changedFields(before: DictionaryEntry, after: DictionaryEntry): DictionaryEntryField[] {
+  return DICTIONARY_ENTRY_FIELDS.filter(field => (before[field] ?? null) !== (after[field] ?? null))
+}
+
+/**
+ * 辞書の状態 from から to への差分を求める。
+ * 項目はIDで対応付け、IDで対応しない項目は語句が同じもの同士を対応付ける（ロールバックで再作成した項目はIDが変わるため）
+ */
+export function diffDictionaryEntries(from: DictionaryEntry[], to: DictionaryEntry[]): DictionaryDiff {
+  const toById = new Map(to.map(entry => [entry.id, entry]))
+  const pairs: Array<[DictionaryEntry, DictionaryEntry]> = []
+  const unmatchedFrom: DictionaryEntry[] = []
+
+  for (const entry of from) {
+    const counterpart = toById.get(entry.id)
+    if (counterpart) {
+      pairs.push([entry, counterpart])
+      toById.delete(entry.id)
+    } else {
+      unmatchedFrom.push(entry)
+    }
+  }
+
+  const toByPhrase = new Map<string, DictionaryEntry>()
+  for (const entry of toById.values()) {
+    if (!toByPhrase.has(entry.phrase)) toByPhrase.set(entry.phrase, entry)
+  }
+
+  const removed: DictionaryEntry[] = []
+  for (const entry of unmatchedFrom) {
+    const counterpart = toByPhrase.get(entry.phrase)
+    if (counterpart) {
+      pairs.push([entry, counterpart])
+      toByPhrase.delete(entry.phrase)
+      toById.delete(counterpart.id)
+    } else {
+      removed.push(entry)
+    }
+  }
+
+  const changed: DictionaryEntryChange[] = []
+  let unchangedCount = 0
+  for (const [before, after] of pairs) {
+    const fields = changedFields(before, after)
+    if (fields.length > 0) {
+      changed.push({ before, after, fields })
+    } else {
+      unchangedCount++
+    }
+  }
+
+  return { added: [...toById.values()], removed, changed, unchangedCount }
+}
+
+/**
+ * 辞書の変更履歴を記録する。
+ * 変更は既に反映済みのため、記録に失敗してもエラーにはせずログに残す
+ */
+export async function recordDictionaryChanges(
+  repositories: RepositoryContainer,
+  params: {
+    organizationId: number
+    changedBy: string | null
+    source: DictionaryChangeSource
+    snapshotId?: number | null
+    changes: DictionaryChangeRecord[]
+  }
+): Promise<void> {
+  const { organizationId, changedBy, source, snapshotId, changes } = params
+  if (changes.length === 0) return
+
+  try {
+    await repositories.dictionaryChanges.bulkCreate(changes.map(change => {
+      const before = change.before ? toDictionaryEntry(change.before) : null
+      const after = change.after ? toDictionaryEntry(change.after) : null
+      return {
+        organization_id: organizationId,
+        dictionary_id: (after ?? before)!.id,
+        action: change.action,
+        source,
+        before: before as unknown as Json,
+        after: after as unknown as Json,
+        snapshot_id: snapshotId ?? null,
+        changed_by: changedBy
+      }
+    }))
+  } catch (error) {
+    logger.error('Failed to record dictionary changes', {
+      operation: 'recordDictionaryChanges',
+      organizationId: String(organizationId),
+      source,
+      count: changes.length,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * 組織の現在の辞書のスナップショットを作成する
+ */
+export async function captureDictionarySnapshot(
+  repositories: RepositoryContainer,
+  params: {
+    organizationId: number
+    name: string
+    description?: string | null
+    kind: DictionarySnapshotKind
+    createdBy: string | null
+  }
+): Promise<DictionarySnapshot> {
+  // スナップショットに含まれる最後の変更（取得順を変更履歴→辞書の順にして、取得の間の変更は次回のスナップショットに含める）
+  const lastChangeId = await repositories.dictionaryChanges.findLatestId(params.organizationId)
+  const entries = await repositories.dictionaries.findEntriesByOrganizationId(params.organizationId)
+
+  return repositories.dictionarySnapshots.create({
+    organization_id: params.organizationId,
+    name: params.name,
+    description: params.description ?? null,
+    kind: params.kind,
+    items: entries.map(toDictionaryEntry) as unknown as Json,
+    item_count: entries.length,
+    last_change_id: lastChangeId,
+    created_by: params.createdBy
+  })
+}
+
+/**
+ * 現在の辞書に対応するスナップショットを返す。
+ * 最新のスナップショット以降に変更が記録されていなければそのスナップショットを、変更があれば自動スナップショットを作成して返す
+ */
+export async function resolveCurrentDictionarySnapshot(
+  repositories: RepositoryContainer,
+  organizationId: number
+): Promise<DictionarySnapshotSummary> {
+  const [latest, lastChangeId] = await Promise.all([
+    repositories.dictionarySnapshots.findLatest(organizationId),
+    repositories.dictionaryChanges.findLatestId(organizationId)
+  ])
+  if (latest && latest.last_change_id === lastChangeId) return latest
+
+  return captureDictionarySnapshot(repositories, {
+    organizationId,
+    name: '自動スナップショット',
+    kind: 'auto',
+    createdBy: null
+  })
+}
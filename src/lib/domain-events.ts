@@ -0,0 +1,24 @@
+/**
+ * アプリケーション共通のドメインイベントパブリッシャー
+ * チェックのライフサイクルイベントを Webhook 配信へ接続する
+ */
+
+import { DOMAIN_EVENT_WEBHOOK_TYPES } from '@/constants/webhooks'
+import { DomainEvent, InMemoryDomainEventPublisher } from '@/core/domain/events'
+import { WebhookDispatchHandler } from '@/lib/webhooks'
+
+export const domainEventPublisher = new InMemoryDomainEventPublisher()
+
+const webhookDispatchHandler = new WebhookDispatchHandler()
+for (const eventType of Object.keys(DOMAIN_EVENT_WEBHOOK_TYPES)) {
+  domainEventPublisher.subscribe(eventType, webhookDispatchHandler)
+}
+
+/**
+ * イベントを発行する（呼び出し元の処理は待たせず、失敗してもログのみ）
+ */
+export function publishDomainEvent(event: DomainEvent): void {
+  domainEventPublisher.publish(event).catch(error => {
+    console.error(`[DomainEvent] Failed to publish ${event.eventType}:`, error)
+  })
+}
@@ -1,12 +1,16 @@
-import { createClient } from '@/infra/supabase/serverClient'
+import { JOB_PRIORITY_VALUES, JOB_QUEUE_CONFIG } from '@/constants/jobQueue'
+import { Job } from '@/core/ports'
 import { createEmbedding } from '@/lib/ai-client'
-import { ErrorFactory } from '@/lib/errors'
+import { DurableJobWorker, getJobRepositories, JobRetryDecision } from '@/lib/job-queue'
 
-type QueueItem = {
-  id: number
+const EMBEDDING_QUEUE = JOB_QUEUE_CONFIG.QUEUES.embedding
+
+/**
+ * 埋め込み生成ジョブの payload（jobs.payload）
+ */
+interface EmbeddingJobPayload {
+  dictionaryId: number
   phrase: string
-  organizationId: number
-  retryCount?: number
 }
 
 export type EmbeddingJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
@@ -26,50 +30,40 @@ export interface EmbeddingJob {
   estimatedCompletionAt?: string
 }
 
-interface ProcessingStats {
-  averageProcessingTime: number
-  lastProcessedCount: number
-  lastProcessedAt: number
-}
-
+/**
+ * 埋め込み生成のキューマネージャ。
+ * 再生成リクエスト1件を「ジョブ」とし、辞書項目ごとの処理を jobs テーブルのジョブ（group_id = ジョブID）として投入する。
+ * ジョブの進捗は jobs テーブルから集計する。
+ */
 class EmbeddingQueueManager {
-  private jobQueues: Map<string, QueueItem[]> = new Map()
-  private processingJobs: Set<string> = new Set()
-  private maxConcurrent = 3 // 並行処理数を増加
-  private maxRetries = 2 // 最大再試行回数
-  private jobs: Map<string, EmbeddingJob> = new Map()
-  private stats: Map<string, ProcessingStats> = new Map()
-  private supabaseClient: Awaited<ReturnType<typeof createClient>> | null = null
-  private jobTimeouts: Map<string, NodeJS.Timeout> = new Map()
-  
-  // メモリ効率化：完了ジョブの自動削除（24時間後）
-  private readonly JOB_RETENTION_MS = 24 * 60 * 60 * 1000
+  private worker: DurableJobWorker
+
+  constructor() {
+    this.worker = new DurableJobWorker({
+      queue: 'embedding',
+      concurrency: EMBEDDING_QUEUE.CONCURRENCY,
+      handle: job => this.processItem(job),
+      onFailure: (job, error) => this.handleFailure(job, error)
+    })
+  }
 
   async enqueueOrganization(organizationId: number, dictionaryIds?: number[]): Promise<EmbeddingJob> {
-    const supabase = await this.getSupabaseClient()
+    const repositories = getJobRepositories()
 
     // 既存の未完了ジョブをキャンセル
-    await this.cancelPendingJobs(organizationId)
+    await repositories.jobs.cancelQueued('embedding', { organizationId })
 
     // 対象辞書を取得（ベクトル未生成のもののみ）
-    // テストのモックチェーン互換のため .is を使わず filter で代替
-    let base = supabase
-      .from('dictionaries')
-      .select('id, phrase')
-      .eq('organization_id', organizationId)
-
-    if (dictionaryIds && dictionaryIds.length > 0) {
-      base = base.in('id', dictionaryIds)
-    }
+    const targetIds = dictionaryIds && dictionaryIds.length > 0 ? new Set(dictionaryIds) : null
+    const dictionaries = (await repositories.dictionaries.findByOrganizationId(organizationId))
+      .filter(d => d.vector === null && (!targetIds || targetIds.has(d.id)))
 
-    const { data: dictionariesRaw, error } = await base
-    const dictionaries = (dictionariesRaw ?? []).filter((d) => (d as Record<string, unknown>).vector === null)
-    if (error) throw error
+    const jobId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    const startedAt = new Date().toISOString()
 
-    if (!dictionaries || dictionaries.length === 0) {
+    if (dictionaries.length === 0) {
       // 処理対象が無い場合は即座に完了状態のジョブを返す
-      const jobId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
-      const job: EmbeddingJob = {
+      return {
         id: jobId,
         organizationId,
         total: 0,
@@ -78,243 +72,144 @@ class EmbeddingQueueManager {
         failure: 0,
         failures: [],
         status: 'completed',
-        startedAt: new Date().toISOString(),
-        completedAt: new Date().toISOString()
+        startedAt,
+        completedAt: startedAt
       }
-      this.jobs.set(jobId, job)
-      this.scheduleJobCleanup(jobId)
-      return job
     }
 
-    const items: QueueItem[] = dictionaries.map((d) => ({
-      id: d.id as number,
-      phrase: d.phrase as string,
-      organizationId,
-      retryCount: 0
+    await repositories.jobs.enqueueMany(dictionaries.map(d => {
+      const payload: EmbeddingJobPayload = { dictionaryId: d.id, phrase: d.phrase }
+      return {
+        queue: 'embedding',
+        priority: JOB_PRIORITY_VALUES.normal,
+        payload: { ...payload },
+        organization_id: organizationId,
+        group_id: jobId,
+        max_attempts: EMBEDDING_QUEUE.MAX_ATTEMPTS
+      }
     }))
 
-    // ジョブ作成
-    const jobId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
-    const job: EmbeddingJob = {
+    this.worker.notify()
+
+    return {
       id: jobId,
       organizationId,
-      total: items.length,
+      total: dictionaries.length,
       processed: 0,
       success: 0,
       failure: 0,
       failures: [],
       status: 'queued',
-      startedAt: new Date().toISOString()
+      startedAt
     }
-
-    this.jobs.set(jobId, job)
-    this.jobQueues.set(jobId, items)
-
-    // 統計情報初期化
-    this.stats.set(jobId, {
-      averageProcessingTime: 1000, // 1秒の初期値
-      lastProcessedCount: 0,
-      lastProcessedAt: Date.now()
-    })
-
-    // 非同期で処理開始
-    this.processJob(jobId).catch(err => {
-      console.error(`[EmbeddingQueue] Job ${jobId} failed:`, err)
-      this.markJobAsFailed(jobId, err.message)
-    })
-
-    return job
-  }
-
-  getJob(jobId: string): EmbeddingJob | undefined {
-    return this.jobs.get(jobId)
   }
 
   /**
-   * ジョブをキャンセルする
+   * ジョブの進捗を jobs テーブルから集計する
    */
-  async cancelJob(jobId: string): Promise<boolean> {
-    const job = this.jobs.get(jobId)
-    if (!job || job.status === 'completed' || job.status === 'failed') {
-      return false
+  async getJob(jobId: string): Promise<EmbeddingJob | undefined> {
+    const items = await getJobRepositories().jobs.findByGroupId(jobId)
+    if (items.length === 0 || items[0].organization_id === null) return undefined
+
+    const countOf = (status: string) => items.filter(item => item.status === status).length
+    const success = countOf('completed')
+    const failure = countOf('failed')
+    const cancelled = countOf('cancelled')
+    const running = countOf('running')
+    const active = countOf('queued') + running
+    const processed = success + failure + cancelled
+
+    const startedAt = items.reduce((min, item) => (item.created_at && item.created_at < min ? item.created_at : min), items[0].created_at ?? new Date().toISOString())
+    const completedAt = active === 0
+      ? items.reduce((max, item) => (item.completed_at && item.completed_at > max ? item.completed_at : max), startedAt)
+      : undefined
+
+    let status: EmbeddingJobStatus
+    if (active > 0) {
+      status = running > 0 || processed > 0 ? 'processing' : 'queued'
+    } else if (cancelled > 0) {
+      status = 'cancelled'
+    } else {
+      status = failure > 0 ? 'failed' : 'completed'
     }
 
-    job.status = 'cancelled'
-    job.completedAt = new Date().toISOString()
-    
-    this.processingJobs.delete(jobId)
-    this.jobQueues.delete(jobId)
-    this.stats.delete(jobId)
-    
-    // タイムアウトをクリア
-    const timeout = this.jobTimeouts.get(jobId)
-    if (timeout) {
-      clearTimeout(timeout)
-      this.jobTimeouts.delete(jobId)
+    // 完了予想時刻（これまでの平均処理時間から推定）
+    let estimatedCompletionAt: string | undefined
+    if (active > 0 && processed > 0) {
+      const elapsed = Date.now() - new Date(startedAt).getTime()
+      estimatedCompletionAt = new Date(Date.now() + (elapsed / processed) * active).toISOString()
     }
 
-    this.scheduleJobCleanup(jobId)
-    return true
+    return {
+      id: jobId,
+      organizationId: items[0].organization_id,
+      total: items.length,
+      processed,
+      success,
+      failure,
+      failures: items
+        .filter(item => item.status === 'failed')
+        .map(item => {
+          const payload = item.payload as unknown as EmbeddingJobPayload
+          return {
+            id: payload.dictionaryId,
+            phrase: payload.phrase,
+            error: item.last_error ?? '',
+            retryCount: Math.max(0, item.attempts - 1)
+          }
+        }),
+      status,
+      startedAt,
+      completedAt,
+      estimatedCompletionAt
+    }
   }
 
   /**
-   * 組織の未完了ジョブをキャンセルする
+   * ジョブをキャンセルする（処理待ちの項目のみ。処理中の項目は完了まで続行）
    */
-  private async cancelPendingJobs(organizationId: number): Promise<void> {
-    const jobsToCancel = Array.from(this.jobs.entries())
-      .filter(([_, job]) => 
-        job.organizationId === organizationId && 
-        (job.status === 'queued' || job.status === 'processing')
-      )
-      .map(([jobId]) => jobId)
-
-    for (const jobId of jobsToCancel) {
-      await this.cancelJob(jobId)
-    }
+  async cancelJob(jobId: string): Promise<boolean> {
+    const cancelled = await getJobRepositories().jobs.cancelQueued('embedding', { groupId: jobId })
+    return cancelled > 0
   }
 
   /**
-   * Supabaseクライアントを再利用する
+   * ワーカーを起動する（サーバー起動時に呼び出す）
    */
-  private async getSupabaseClient() {
-    this.supabaseClient ??= await createClient()
-    return this.supabaseClient
+  start(): void {
+    this.worker.start()
   }
 
   /**
-   * ジョブ処理メイン関数（改善版）
+   * 個別アイテム処理
    */
-  private async processJob(jobId: string) {
-    const job = this.jobs.get(jobId)
-    const queue = this.jobQueues.get(jobId)
-    
-    if (!job || !queue) return
-    if (this.processingJobs.has(jobId)) return
-
-    this.processingJobs.add(jobId)
-    job.status = 'processing'
-    job.processingStartedAt = new Date().toISOString()
-
-    // 処理時間予測を更新
-    this.updateEstimatedCompletion(jobId)
-
-    try {
-      let activeProcessing = 0
-      let processedItems = 0
-
-      while (queue.length > 0) {
-        // 同時実行制限内で処理を開始
-        while (activeProcessing < this.maxConcurrent && queue.length > 0) {
-          const item = queue.shift()!
-          activeProcessing++
-
-          this.processItem(item, jobId)
-            .then(() => {
-              processedItems++
-              this.updateProcessingStats(jobId)
-              this.updateEstimatedCompletion(jobId)
-              // processedItemsをログとして使用
-              if (processedItems % 10 === 0) {
-                console.log(`[EmbeddingQueue] Processed ${processedItems} items for job ${jobId}`)
-              }
-            })
-            .catch(() => {
-              // エラーは processItem 内で処理済み
-            })
-            .finally(() => {
-              activeProcessing--
-            })
-        }
-
-        // キャンセルチェック（再取得してステータスを確認）
-        const currentJob = this.jobs.get(jobId)
-        if (currentJob?.status === 'cancelled') {
-          break
-        }
-
-        // アクティブな処理の完了を待つ
-        while (activeProcessing > 0) {
-          await new Promise(res => setTimeout(res, 100))
-        }
-      }
-
-      // 残存する並行処理の完了を待つ
-      while (activeProcessing > 0) {
-        await new Promise(res => setTimeout(res, 100))
-      }
+  private async processItem(job: Job): Promise<void> {
+    const payload = job.payload as unknown as EmbeddingJobPayload
+    const startTime = Date.now()
 
-    } finally {
-      this.processingJobs.delete(jobId)
-      
-      const finalJob = this.jobs.get(jobId)
-      if (finalJob && finalJob.status === 'processing') {
-        finalJob.status = finalJob.failure > 0 ? 'failed' : 'completed'
-        finalJob.completedAt = new Date().toISOString()
-      }
+    const vector = await createEmbedding(payload.phrase)
+    await getJobRepositories().dictionaries.update(payload.dictionaryId, {
+      vector: JSON.stringify(vector),
+      updated_at: new Date().toISOString()
+    })
 
-      // ジョブキューをクリーンアップ
-      this.jobQueues.delete(jobId)
-      this.stats.delete(jobId)
-      
-      // ジョブ自動削除をスケジュール
-      this.scheduleJobCleanup(jobId)
-    }
+    console.log(`[EmbeddingQueue] Successfully processed item ${payload.dictionaryId} in ${Date.now() - startTime}ms`)
   }
 
   /**
-   * 個別アイテム処理（改善版：再試行機能付き）
+   * 失敗時の再試行判定（再試行可能なエラーのみ指数バックオフで再試行）
    */
-  private async processItem(item: QueueItem, jobId: string) {
-    const job = this.jobs.get(jobId)
-    if (!job) return
-
-    const supabase = await this.getSupabaseClient()
-    const startTime = Date.now()
+  private async handleFailure(job: Job, error: Error): Promise<JobRetryDecision> {
+    const payload = job.payload as unknown as EmbeddingJobPayload
+    const retryCount = job.attempts
 
-    try {
-      const vector = await createEmbedding(item.phrase)
-      const { error: updateError } = await supabase
-        .from('dictionaries')
-        .update({
-          vector: JSON.stringify(vector),
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', item.id)
-
-      if (updateError) throw ErrorFactory.createDatabaseError('embedding update', 'dictionaries', updateError)
-      
-      job.success++
-      console.log(`[EmbeddingQueue] Successfully processed item ${item.id} in ${Date.now() - startTime}ms`)
-      
-    } catch (e) {
-      const retryCount = (item.retryCount ?? 0) + 1
-      const error = e instanceof Error ? e : new Error('Unknown error')
-      
-      // 再試行可能な場合はキューに戻す
-      if (retryCount <= this.maxRetries && this.isRetryableError(error)) {
-        console.warn(`[EmbeddingQueue] Retrying item ${item.id} (attempt ${retryCount}/${this.maxRetries}): ${error.message}`)
-        
-        const queue = this.jobQueues.get(jobId)
-        if (queue) {
-          // 指数バックオフで再試行
-          setTimeout(() => {
-            queue.push({ ...item, retryCount })
-          }, Math.pow(2, retryCount) * 1000)
-        }
-      } else {
-        // 最終的に失敗
-        job.failure++
-        job.failures.push({
-          id: item.id,
-          phrase: item.phrase,
-          error: error.message,
-          retryCount: retryCount - 1
-        })
-        console.error(`[EmbeddingQueue] Failed to process item ${item.id} after ${retryCount - 1} retries: ${error.message}`)
-      }
-    } finally {
-      job.processed++
+    if (job.attempts < job.max_attempts && this.isRetryableError(error)) {
+      console.warn(`[EmbeddingQueue] Retrying item ${payload.dictionaryId} (attempt ${retryCount}/${job.max_attempts - 1}): ${error.message}`)
+      return { delayMs: Math.pow(2, retryCount) * 1000 }
     }
+
+    console.error(`[EmbeddingQueue] Failed to process item ${payload.dictionaryId} after ${retryCount - 1} retries: ${error.message}`)
+    return null
   }
 
   /**
@@ -323,90 +218,17 @@ class EmbeddingQueueManager {
   private isRetryableError(error: Error): boolean {
     const retryablePatterns = [
       'ECONNRESET',
-      'ECONNREFUSED', 
+      'ECONNREFUSED',
       'ETIMEDOUT',
       'Rate limit',
       'Too Many Requests',
       'Service Temporarily Unavailable'
     ]
-    
-    return retryablePatterns.some(pattern => 
+
+    return retryablePatterns.some(pattern =>
       error.message.includes(pattern) || error.name.includes(pattern)
     )
   }
-
-  /**
-   * 処理統計を更新
-   */
-  private updateProcessingStats(jobId: string): void {
-    const job = this.jobs.get(jobId)
-    const stats = this.stats.get(jobId)
-    
-    if (!job || !stats) return
-
-    const now = Date.now()
-    const timeSinceLastUpdate = now - stats.lastProcessedAt
-    const processedSinceLastUpdate = job.processed - stats.lastProcessedCount
-
-    if (processedSinceLastUpdate > 0 && timeSinceLastUpdate > 0) {
-      const currentRate = timeSinceLastUpdate / processedSinceLastUpdate
-      stats.averageProcessingTime = (stats.averageProcessingTime * 0.7) + (currentRate * 0.3)
-      stats.lastProcessedCount = job.processed
-      stats.lastProcessedAt = now
-    }
-  }
-
-  /**
-   * 完了予想時刻を更新
-   */
-  private updateEstimatedCompletion(jobId: string): void {
-    const job = this.jobs.get(jobId)
-    const stats = this.stats.get(jobId)
-    
-    if (!job || !stats) return
-
-    const remaining = job.total - job.processed
-    if (remaining > 0 && stats.averageProcessingTime > 0) {
-      const estimatedMs = remaining * stats.averageProcessingTime
-      job.estimatedCompletionAt = new Date(Date.now() + estimatedMs).toISOString()
-    }
-  }
-
-  /**
-   * ジョブを失敗状態にする
-   */
-  private markJobAsFailed(jobId: string, errorMessage: string): void {
-    const job = this.jobs.get(jobId)
-    if (job) {
-      job.status = 'failed'
-      job.completedAt = new Date().toISOString()
-      if (job.failures.length === 0) {
-        job.failures.push({
-          id: 0,
-          phrase: 'System Error',
-          error: errorMessage,
-          retryCount: 0
-        })
-      }
-    }
-    
-    this.processingJobs.delete(jobId)
-    this.scheduleJobCleanup(jobId)
-  }
-
-  /**
-   * ジョブの自動削除をスケジュール
-   */
-  private scheduleJobCleanup(jobId: string): void {
-    const timeout = setTimeout(() => {
-      this.jobs.delete(jobId)
-      this.jobQueues.delete(jobId)
-      this.stats.delete(jobId)
-      this.jobTimeouts.delete(jobId)
-    }, this.JOB_RETENTION_MS)
-    
-    this.jobTimeouts.set(jobId, timeout)
-  }
 }
 
 declare global {
@@ -417,5 +239,3 @@ export const embeddingQueue: EmbeddingQueueManager = global.__embeddingQueue ??
 if (process.env.NODE_ENV !== 'production') {
   global.__embeddingQueue = embeddingQueue
 }
-
-
@@ -171,6 +171,23 @@ export class ErrorFactory {
     })
   }
 
+  /**
+   * レート制限超過エラーを生成
+   */
+  static createRateLimitError(
+    resource: string,
+    limit: number,
+    windowSeconds: number,
+    retryAfterSeconds: number
+  ): AppError {
+    return new AppError({
+      code: 'RATE_LIMIT_ERROR',
+      message: `${resource}のレート制限を超過しました (${limit}回/${windowSeconds}秒)`,
+      userMessage: `${resource}のリクエストが多すぎます。${retryAfterSeconds}秒後に再試行してください。`,
+      context: { resource, limit, windowSeconds, retryAfterSeconds },
+    })
+  }
+
   /**
    * タイムアウトエラーを生成
    */
@@ -47,6 +47,7 @@ export class ErrorHandler {
       case 'VALIDATION_ERROR':
         return 400
       case 'QUOTA_EXCEEDED_ERROR':
+      case 'RATE_LIMIT_ERROR':
         return 429
       case 'TIMEOUT_ERROR':
         return 408
@@ -13,6 +13,7 @@ export type ErrorCode =
   | 'DATABASE_ERROR'
   | 'FILE_PROCESSING_ERROR'
   | 'QUOTA_EXCEEDED_ERROR'
+  | 'RATE_LIMIT_ERROR'
   | 'TIMEOUT_ERROR'
   | 'INTERNAL_ERROR'
   | 'EXTERNAL_SERVICE_ERROR'
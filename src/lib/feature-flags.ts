@@ -0,0 +1,68 @@
+/**
+ * 機能フラグの評価
+ * フラグは組織ごとに評価する。ミドルウェア（Edge Runtime）からも使うため、データベースやNode.jsのAPIには依存しない。
+ *
+ * - フラグ自体が無効（enabled: false）なら全組織で無効
+ * - disabled_organization_ids の組織は常に無効、enabled_organization_ids の組織は常に有効
+ * - それ以外の組織は「フラグのキー + 組織ID」のハッシュで決まるバケット（0〜99）が展開率未満なら有効
+ *   （展開率を上げても、既に有効な組織が無効に戻ることはない）
+ */
+
+import type { FeatureFlag } from '@/core/ports/systemSettings'
+
+/** アプリケーションが参照する機能フラグ */
+export const FEATURE_FLAG_KEYS = ['batch_api', 'custom_reports', 'pdf_input', 'semantic_reference_search'] as const
+
+export type FeatureFlagKey = typeof FEATURE_FLAG_KEYS[number]
+
+/** フラグが保存されていない・取得できない場合の既定値 */
+export const FEATURE_FLAG_DEFAULTS: Record<FeatureFlagKey, boolean> = {
+  batch_api: true,
+  custom_reports: true,
+  pdf_input: true,
+  semantic_reference_search: true
+}
+
+/** 機能フラグで提供を切り替えるAPI（ミドルウェアが組織ごとに評価する） */
+export const FEATURE_FLAG_ROUTES: ReadonlyArray<{ pathPrefix: string; flag: FeatureFlagKey }> = [
+  { pathPrefix: '/api/checks/batch', flag: 'batch_api' },
+  { pathPrefix: '/api/reports/custom', flag: 'custom_reports' }
+]
+
+export type EvaluableFeatureFlag = Pick<
+  FeatureFlag,
+  'key' | 'enabled' | 'rollout_percentage' | 'enabled_organization_ids' | 'disabled_organization_ids'
+>
+
+/**
+ * 組織の展開バケット（0〜99）。フラグごとに組織の並びが変わるよう、キーと組織IDから求める（FNV-1a）
+ */
+export function rolloutBucket(flagKey: string, organizationId: number): number {
+  let hash = 0x811c9dc5
+  for (const char of `${flagKey}:${organizationId}`) {
+    hash ^= char.charCodeAt(0)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) % 100
+}
+
+/**
+ * 機能フラグを組織について評価する（組織に属さない場合は全組織に展開済みのときのみ有効）
+ */
+export function evaluateFeatureFlag(flag: EvaluableFeatureFlag, organizationId: number | null): boolean {
+  if (!flag.enabled) return false
+  if (organizationId === null) return flag.rollout_percentage >= 100
+  if (flag.disabled_organization_ids.includes(organizationId)) return false
+  if (flag.enabled_organization_ids.includes(organizationId)) return true
+  return rolloutBucket(flag.key, organizationId) < flag.rollout_percentage
+}
+
+/**
+ * パスに対応する機能フラグ（フラグで切り替えないパスは null）
+ */
+export function findRouteFeatureFlag(pathname: string): FeatureFlagKey | null {
+  const route = FEATURE_FLAG_ROUTES.find(({ pathPrefix }) =>
+    pathname === pathPrefix || pathname.startsWith(`${pathPrefix}/`)
+  )
+  return route?.flag ?? null
+}
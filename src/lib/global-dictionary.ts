@@ -0,0 +1,63 @@
+/**
+ * 共通辞書の継承
+ * プラットフォームが管理する共通辞書（global_dictionaries）を組織がどのように継承するかを決める。
+ *
+ * - 継承（inherited）: 上書きのない有効な共通辞書項目はそのまま適用する
+ * - 無効化（disabled）: 組織が disable で上書きした項目は適用しない
+ * - 許可（allowed）: 組織が allow で上書きした項目は許可表現（ALLOW）として適用する
+ * - 組織辞書優先（shadowed）: 組織辞書に同じ語句がある項目は組織辞書の項目を優先し、共通辞書の項目は適用しない
+ *
+ * 類似フレーズ検索（get_combined_similar_phrases）も同じ規則で共通辞書を検索する。
+ */
+
+import { DictionaryCategory, DictionaryOverride, GlobalDictionaryEntry } from '@/core/ports'
+
+export type InheritedDictionaryStatus = 'inherited' | 'disabled' | 'allowed' | 'shadowed'
+
+/**
+ * 組織から見た共通辞書項目（継承の状態と組織に適用される区分）
+ */
+export type InheritedDictionaryEntry<T extends Pick<GlobalDictionaryEntry, 'id' | 'phrase' | 'category'>> = T & {
+  status: InheritedDictionaryStatus
+  /** 組織に適用される区分（許可で上書きした項目は ALLOW） */
+  effective_category: DictionaryCategory
+}
+
+/**
+ * 共通辞書項目ごとに、組織の上書きと組織辞書の語句から継承の状態を求める
+ *
+ * @param entries 有効な共通辞書項目
+ * @param overrides 組織の上書き
+ * @param localPhrases 組織辞書の語句
+ */
+export function resolveInheritedEntries<T extends Pick<GlobalDictionaryEntry, 'id' | 'phrase' | 'category'>>(
+  entries: T[],
+  overrides: Array<Pick<DictionaryOverride, 'global_dictionary_id' | 'action'>>,
+  localPhrases: Iterable<string>
+): InheritedDictionaryEntry<T>[] {
+  const actions = new Map(overrides.map(override => [override.global_dictionary_id, override.action]))
+  const phrases = new Set(localPhrases)
+
+  return entries.map(entry => {
+    const action = actions.get(entry.id)
+    const status: InheritedDictionaryStatus = phrases.has(entry.phrase)
+      ? 'shadowed'
+      : action === 'disable'
+        ? 'disabled'
+        : action === 'allow'
+          ? 'allowed'
+          : 'inherited'
+    return {
+      ...entry,
+      status,
+      effective_category: status === 'allowed' ? 'ALLOW' : entry.category
+    }
+  })
+}
+
+/**
+ * 組織のチェックに適用される項目か（継承・許可の項目）
+ */
+export function isAppliedInheritedEntry(entry: { status: InheritedDictionaryStatus }): boolean {
+  return entry.status === 'inherited' || entry.status === 'allowed'
+}
@@ -0,0 +1,299 @@
+/**
+ * 永続ジョブキューのワーカー
+ * jobs テーブルからリース付きでジョブを取得して処理する。
+ *
+ * - 取得: claim_jobs()（FOR UPDATE SKIP LOCKED）で優先度順に空き枠分だけ取得
+ *   プラン別設定がある場合は claim_fair_jobs() で組織間を重み付きで公平に取得（組織ごとの同時実行数上限あり）
+ * - ハートビート: 処理中ジョブのリースを定期的に延長（止まったワーカーのジョブはリース切れで再取得される）
+ * - 失敗: ワーカーごとの再試行判定に従い、再試行時刻付きで queued に戻すか failed で確定
+ * - 回収: 起動時と定期的に reap_jobs() でリース切れジョブと孤立チェックを回収（失敗が確定したチェックは CheckFailed を発行）
+ * - 一時停止: isPaused が true の間は新しいジョブを取得せず、処理中のジョブの完了だけを待つ（メンテナンス中など）
+ */
+
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+
+import { JOB_QUEUE_CONFIG, JobQueueName, JobTierPolicy } from '@/constants/jobQueue'
+import { Job, RepositoryContainer } from '@/core/ports'
+import { createRepositories } from '@/infra/repositories'
+import { getSystemClient } from '@/infra/supabase/adminClient'
+import { publishDomainEvent } from '@/lib/domain-events'
+import { logger } from '@/lib/logger'
+
+/** このプロセスのワーカーID（リースの所有者として記録される） */
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+const LEASE_SECONDS = Math.ceil(JOB_QUEUE_CONFIG.LEASE_MS / 1000)
+
+let systemRepositories: RepositoryContainer | null = null
+
+/**
+ * ジョブキュー用のリポジトリ（Service Role）
+ * Service Role キーが未設定の場合は例外を投げる
+ */
+export function getJobRepositories(): RepositoryContainer {
+  systemRepositories ??= createRepositories(getSystemClient())
+  return systemRepositories
+}
+
+/**
+ * 失敗時の再試行指定（null の場合は失敗で確定）
+ */
+export type JobRetryDecision = { delayMs: number; priority?: number } | null
+
+/**
+ * ワーカーの設定
+ */
+export interface JobWorkerOptions {
+  queue: JobQueueName
+  concurrency: number
+  /** プラン別の重みと同時実行数上限（指定した場合は組織間の公平スケジューリングで取得する） */
+  tierPolicies?: Record<string, JobTierPolicy>
+  /** ジョブ本体の処理（例外を投げると失敗扱い） */
+  handle: (job: Job) => Promise<void>
+  /** 失敗時の再試行判定（試行回数は job.attempts に今回分を含む） */
+  onFailure: (job: Job, error: Error) => Promise<JobRetryDecision>
+  /** 新しいジョブの取得を止める条件（ポーリングごとに評価する） */
+  isPaused?: () => Promise<boolean>
+}
+
+/**
+ * 1つのキューを処理するワーカー
+ */
+export class DurableJobWorker {
+  private active = new Map<number, Promise<void>>()
+  private lostLeases = new Set<number>()
+  private started = false
+  private polling = false
+  private pollRequested = false
+  private paused = false
+  private pollTimer: ReturnType<typeof setTimeout> | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(private options: JobWorkerOptions) {}
+
+  /**
+   * ワーカーを起動する（多重起動・無効化設定・Service Role未設定の場合は何もしない）
+   */
+  start(): void {
+    if (this.started || !JOB_QUEUE_CONFIG.WORKER_ENABLED) return
+    try {
+      getJobRepositories()
+    } catch (error) {
+      logger.warn('Job worker is disabled: service role client is not available', {
+        operation: 'DurableJobWorker.start',
+        queue: this.options.queue,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return
+    }
+
+    this.started = true
+    this.heartbeatTimer = setInterval(() => void this.heartbeat(), JOB_QUEUE_CONFIG.HEARTBEAT_INTERVAL_MS)
+    this.heartbeatTimer.unref?.()
+    startJobReaper()
+    this.notify()
+  }
+
+  /**
+   * 新しいジョブの投入を通知し、すぐにポーリングする
+   */
+  notify(): void {
+    if (!this.started) {
+      this.start()
+      return
+    }
+    if (this.polling) {
+      this.pollRequested = true
+      return
+    }
+    if (this.pollTimer) clearTimeout(this.pollTimer)
+    this.pollTimer = null
+    void this.poll()
+  }
+
+  /**
+   * ワーカーを停止する（処理中のジョブは完了まで待つ）
+   */
+  async stop(): Promise<void> {
+    this.started = false
+    if (this.pollTimer) clearTimeout(this.pollTimer)
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer)
+    this.pollTimer = null
+    this.heartbeatTimer = null
+    await Promise.allSettled(this.active.values())
+  }
+
+  /**
+   * このプロセスでの処理状況
+   */
+  getStatus(): { workerId: string; activeCount: number; concurrency: number; paused: boolean } {
+    return {
+      workerId: WORKER_ID,
+      activeCount: this.active.size,
+      concurrency: this.options.concurrency,
+      paused: this.paused
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.started || this.polling) return
+    this.polling = true
+
+    try {
+      await this.updatePaused()
+      const available = this.options.concurrency - this.active.size
+      if (available > 0 && !this.paused) {
+        const { jobs: repository } = getJobRepositories()
+        const jobs = this.options.tierPolicies
+          ? await repository.claimFair(this.options.queue, WORKER_ID, available, LEASE_SECONDS, this.options.tierPolicies)
+          : await repository.claim(this.options.queue, WORKER_ID, available, LEASE_SECONDS)
+        for (const job of jobs) {
+          const running = this.run(job).finally(() => {
+            this.active.delete(job.id)
+            this.lostLeases.delete(job.id)
+            if (this.started) this.notify()
+          })
+          this.active.set(job.id, running)
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to claim jobs', {
+        operation: 'DurableJobWorker.poll',
+        queue: this.options.queue,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      this.polling = false
+      if (this.started) {
+        const delay = this.pollRequested ? 0 : JOB_QUEUE_CONFIG.POLL_INTERVAL_MS
+        this.pollRequested = false
+        this.pollTimer = setTimeout(() => {
+          this.pollTimer = null
+          void this.poll()
+        }, delay)
+        this.pollTimer.unref?.()
+      }
+    }
+  }
+
+  private async updatePaused(): Promise<void> {
+    if (!this.options.isPaused) return
+    const paused = await this.options.isPaused()
+    if (paused === this.paused) return
+
+    this.paused = paused
+    logger.info(paused ? 'Job worker paused; draining active jobs' : 'Job worker resumed', {
+      operation: 'DurableJobWorker.poll',
+      queue: this.options.queue,
+      activeCount: this.active.size
+    })
+  }
+
+  private async run(job: Job): Promise<void> {
+    const repositories = getJobRepositories()
+    try {
+      await this.options.handle(job)
+      const completed = await repositories.jobs.complete(job.id, WORKER_ID)
+      if (!completed) {
+        logger.warn('Job finished after its lease was lost', {
+          operation: 'DurableJobWorker.run',
+          queue: this.options.queue,
+          jobId: job.id
+        })
+      }
+    } catch (rawError) {
+      const error = rawError instanceof Error ? rawError : new Error(String(rawError))
+      try {
+        const decision = await this.options.onFailure(job, error)
+        await repositories.jobs.fail(
+          job.id,
+          WORKER_ID,
+          error.message,
+          decision ? new Date(Date.now() + decision.delayMs) : null,
+          decision?.priority
+        )
+      } catch (failError) {
+        // 記録に失敗してもリース切れで回収される
+        logger.error('Failed to record job failure', {
+          operation: 'DurableJobWorker.run',
+          queue: this.options.queue,
+          jobId: job.id,
+          error: failError instanceof Error ? failError.message : String(failError)
+        })
+      }
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    const jobIds = Array.from(this.active.keys()).filter(id => !this.lostLeases.has(id))
+    if (jobIds.length === 0) return
+
+    try {
+      const extended = new Set(await getJobRepositories().jobs.heartbeat(WORKER_ID, jobIds, LEASE_SECONDS))
+      for (const jobId of jobIds) {
+        if (!extended.has(jobId)) {
+          this.lostLeases.add(jobId)
+          logger.warn('Job lease was lost; another worker may pick it up', {
+            operation: 'DurableJobWorker.heartbeat',
+            queue: this.options.queue,
+            jobId
+          })
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to extend job leases', {
+        operation: 'DurableJobWorker.heartbeat',
+        queue: this.options.queue,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+}
+
+let reaperTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * リース切れジョブと孤立チェックを回収する
+ */
+export async function reapJobs(): Promise<void> {
+  try {
+    const { failedChecks, ...counts } = await getJobRepositories().jobs.reap(JOB_QUEUE_CONFIG.ORPHAN_GRACE_SECONDS)
+    if (Object.values(counts).some(count => count > 0)) {
+      logger.info('Reaped expired jobs and orphaned checks', {
+        operation: 'reapJobs',
+        ...counts
+      })
+    }
+
+    // 回収で失敗が確定したチェックを通知する
+    const failedAt = new Date()
+    for (const check of failedChecks) {
+      publishDomainEvent({
+        eventType: 'CheckFailed',
+        aggregateId: String(check.checkId),
+        occurredAt: failedAt,
+        data: {
+          checkId: check.checkId,
+          organizationId: check.organizationId,
+          errorMessage: check.errorMessage ?? '処理に失敗しました',
+          failedAt: failedAt.toISOString()
+        }
+      })
+    }
+  } catch (error) {
+    logger.warn('Failed to reap jobs', {
+      operation: 'reapJobs',
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+/**
+ * 回収処理を起動直後に1回実行し、以降は定期実行する（プロセス内で1つだけ）
+ */
+export function startJobReaper(): void {
+  if (reaperTimer) return
+  void reapJobs()
+  reaperTimer = setInterval(() => void reapJobs(), JOB_QUEUE_CONFIG.REAP_INTERVAL_MS)
+  reaperTimer.unref?.()
+}
@@ -0,0 +1,75 @@
+/**
+ * メンテナンスモードの判定
+ * 管理画面で保存した一般設定（system_settings の key='system'）の maintenanceMode / maintenanceMessage を参照する。
+ * ミドルウェア（Edge Runtime）からも使うため、Node.js のAPIには依存しない。
+ *
+ * - メンテナンス中はプラットフォーム管理者（platform_admins）以外の画面を案内ページに、APIを 503（Retry-After 付き）にする
+ * - サインイン・メンテナンス案内ページ自体は対象外（プラットフォーム管理者がサインインできるようにする）
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import type { Database, Json } from '@/types/database.types'
+
+/** メンテナンスメッセージの既定値 */
+export const DEFAULT_MAINTENANCE_MESSAGE = 'システムメンテナンス中です。しばらくお待ちください。'
+
+/** メンテナンス中のAPIが返す Retry-After（秒） */
+export const MAINTENANCE_RETRY_AFTER_SECONDS = 300
+
+/** メンテナンス案内ページのパス */
+export const MAINTENANCE_PAGE_PATH = '/maintenance'
+
+/** メンテナンス中もそのまま通すパス */
+const MAINTENANCE_EXEMPT_PATH_PREFIXES = [MAINTENANCE_PAGE_PATH, '/auth', '/api/auth']
+
+/** プロセス（Edge の場合は isolate）内で設定を再利用する時間 */
+const MAINTENANCE_STATE_CACHE_MS = 15 * 1000
+
+export interface MaintenanceState {
+  enabled: boolean
+  message: string
+}
+
+let cachedState: { state: MaintenanceState; expiresAt: number } | null = null
+
+/**
+ * 保存された一般設定からメンテナンスの状態を取り出す（未設定・不正な値は無効扱い）
+ */
+export function parseMaintenanceState(value: Json | undefined): MaintenanceState {
+  const stored: { [key: string]: Json | undefined } = typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {}
+  const message = typeof stored.maintenanceMessage === 'string' && stored.maintenanceMessage.trim() !== ''
+    ? stored.maintenanceMessage
+    : DEFAULT_MAINTENANCE_MESSAGE
+  return { enabled: stored.maintenanceMode === true, message }
+}
+
+/**
+ * メンテナンスの状態を取得する（取得できない場合はサービスを止めないよう無効扱い）
+ */
+export async function getMaintenanceState(supabase: SupabaseClient<Database>): Promise<MaintenanceState> {
+  if (cachedState && cachedState.expiresAt > Date.now()) return cachedState.state
+
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('key', 'system')
+    .maybeSingle()
+  if (error) {
+    console.error('メンテナンス設定の取得に失敗しました:', error)
+    return { enabled: false, message: DEFAULT_MAINTENANCE_MESSAGE }
+  }
+
+  const state = parseMaintenanceState(data?.value)
+  cachedState = { state, expiresAt: Date.now() + MAINTENANCE_STATE_CACHE_MS }
+  return state
+}
+
+/**
+ * メンテナンス中もそのまま通すパスか
+ */
+export function isMaintenanceExemptPath(pathname: string): boolean {
+  return MAINTENANCE_EXEMPT_PATH_PREFIXES.some(prefix =>
+    pathname === prefix || pathname.startsWith(`${prefix}/`)
+  )
+}
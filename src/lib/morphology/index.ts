@@ -0,0 +1,6 @@
+/**
+ * 形態素解析ユーティリティ統合エクスポート
+ */
+
+export * from './tokenizer'
+export * from './matcher'
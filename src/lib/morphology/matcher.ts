@@ -0,0 +1,172 @@
+/**
+ * 形態素解析ベースの辞書フレーズマッチャー
+ * 活用形（治ります/治った/治せる 等）を正規化して辞書フレーズとの一致箇所を検出する
+ */
+
+import { MorphologicalMatch, MorphologicalMatcher, TextRange } from '@/core/domain'
+
+import { getTokenizer, MorphologicalToken } from './tokenizer'
+
+interface PositionedToken {
+  token: MorphologicalToken
+  start: number
+  end: number
+}
+
+/** 活用する品詞（語幹での比較対象） */
+const INFLECTING_POS = new Set(['動詞', '形容詞'])
+
+/** 一致の種類ごとの信頼度（表層形 > 基本形 > 語幹） */
+const CONFIDENCE = {
+  SURFACE: 1.0,
+  BASE_FORM: 0.9,
+  STEM: 0.7
+} as const
+
+const TRAILING_HIRAGANA = /[ぁ-ゟ]+$/
+
+function normalize(value: string): string {
+  return value.normalize('NFKC')
+}
+
+function toKatakana(value: string): string {
+  return value.replace(/[ぁ-ゖ]/g, c => String.fromCharCode(c.charCodeAt(0) + 0x60))
+}
+
+/**
+ * トークンの基本形を取得（未知語は表層形）
+ */
+function baseFormOf(token: MorphologicalToken): string {
+  return normalize(token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form)
+}
+
+/**
+ * 漢字語幹と語幹の読みから比較キーを作る（例: 治る/治っ/治せる → 「治:ナオ」）
+ * 自他動詞・可能動詞の違いを吸収しつつ、読みの異なる同字語（治める）は区別する
+ */
+function stemKeyOf(token: MorphologicalToken): string | null {
+  if (!INFLECTING_POS.has(token.pos)) return null
+
+  const surface = normalize(token.surface_form)
+  const okurigana = surface.match(TRAILING_HIRAGANA)?.[0] ?? ''
+  const stem = surface.slice(0, surface.length - okurigana.length)
+  const reading = token.reading
+
+  if (!stem || !reading || reading === '*') return null
+
+  const okuriganaReading = toKatakana(okurigana)
+  if (!reading.endsWith(okuriganaReading)) return null
+
+  return `${stem}:${reading.slice(0, reading.length - okuriganaReading.length)}`
+}
+
+/**
+ * 2つのトークンの一致度を返す（不一致は0）
+ */
+function compareTokens(textToken: MorphologicalToken, phraseToken: MorphologicalToken): number {
+  if (normalize(textToken.surface_form) === normalize(phraseToken.surface_form)) return CONFIDENCE.SURFACE
+  if (baseFormOf(textToken) === baseFormOf(phraseToken)) return CONFIDENCE.BASE_FORM
+
+  const textStem = stemKeyOf(textToken)
+  if (textStem !== null && textStem === stemKeyOf(phraseToken)) return CONFIDENCE.STEM
+
+  return 0
+}
+
+/**
+ * 活用語尾として一致範囲に含めるトークンか（助動詞、接尾の動詞）
+ */
+function isInflectionSuffix(token: MorphologicalToken): boolean {
+  return token.pos === '助動詞' || (token.pos === '動詞' && token.pos_detail_1 === '接尾')
+}
+
+/**
+ * kuromoji を用いた `MorphologicalMatcher` 実装
+ */
+export class KuromojiPhraseMatcher implements MorphologicalMatcher {
+  private phraseCache = new Map<string, MorphologicalToken[]>()
+  private lastText: string | null = null
+  private lastTextTokens: PositionedToken[] = []
+
+  constructor(private readonly tokenize: (text: string) => MorphologicalToken[]) {}
+
+  findInflectedMatches(text: string, phrase: string): MorphologicalMatch[] {
+    const phraseTokens = this.tokenizePhrase(phrase)
+    if (phraseTokens.length === 0) return []
+
+    const textTokens = this.tokenizeText(text)
+    const matches: MorphologicalMatch[] = []
+    const lastPhraseToken = phraseTokens[phraseTokens.length - 1]
+
+    for (let i = 0; i + phraseTokens.length <= textTokens.length; i++) {
+      let confidence: number = CONFIDENCE.SURFACE
+
+      for (let j = 0; j < phraseTokens.length && confidence > 0; j++) {
+        confidence = Math.min(confidence, compareTokens(textTokens[i + j].token, phraseTokens[j]))
+      }
+      if (confidence === 0) continue
+
+      const matched = textTokens.slice(i, i + phraseTokens.length)
+      let endIndex = i + phraseTokens.length
+
+      // 活用する語で終わるフレーズは、後続の助動詞等まで一致範囲を広げる
+      if (INFLECTING_POS.has(lastPhraseToken.pos)) {
+        while (endIndex < textTokens.length && isInflectionSuffix(textTokens[endIndex].token)) {
+          endIndex++
+        }
+      }
+
+      matches.push({
+        range: TextRange.create(matched[0].start, textTokens[endIndex - 1].end),
+        confidence,
+        baseForm: matched.map(t => baseFormOf(t.token)).join('')
+      })
+      i = endIndex - 1
+    }
+
+    return matches
+  }
+
+  private tokenizePhrase(phrase: string): MorphologicalToken[] {
+    let tokens = this.phraseCache.get(phrase)
+    if (!tokens) {
+      tokens = this.tokenize(phrase.trim()).filter(t => t.pos !== '記号')
+      this.phraseCache.set(phrase, tokens)
+    }
+    return tokens
+  }
+
+  /**
+   * テキストをトークン化し、UTF-16オフセットを付与する
+   * （kuromoji の word_position はサロゲートペアでずれるため表層形の長さから算出）
+   */
+  private tokenizeText(text: string): PositionedToken[] {
+    if (this.lastText === text) return this.lastTextTokens
+
+    const positioned: PositionedToken[] = []
+    let cursor = 0
+    for (const token of this.tokenize(text)) {
+      const start = text.startsWith(token.surface_form, cursor)
+        ? cursor
+        : text.indexOf(token.surface_form, cursor)
+      if (start === -1) continue
+      cursor = start + token.surface_form.length
+      if (token.pos === '記号' && token.pos_detail_1 === '空白') continue
+      positioned.push({ token, start, end: cursor })
+    }
+
+    this.lastText = text
+    this.lastTextTokens = positioned
+    return positioned
+  }
+}
+
+/**
+ * 形態素解析マッチャーを生成
+ * 辞書が読み込めない環境では `null` を返す（呼び出し側は正規表現の部分一致にフォールバック）
+ */
+export async function createMorphologicalMatcher(): Promise<MorphologicalMatcher | null> {
+  const tokenizer = await getTokenizer()
+  if (!tokenizer) return null
+  return new KuromojiPhraseMatcher(text => tokenizer.tokenize(text))
+}
@@ -0,0 +1,46 @@
+/**
+ * 形態素解析トークナイザー
+ * kuromoji（IPADIC辞書同梱）をプロセス内で一度だけ初期化して共有する
+ */
+
+import path from 'path'
+
+import { builder, IpadicFeatures, Tokenizer } from 'kuromoji'
+
+export type MorphologicalToken = IpadicFeatures
+
+/**
+ * 辞書ディレクトリのパスを取得
+ * `KUROMOJI_DICT_PATH` で上書き可能（既定はパッケージ同梱の辞書）
+ */
+export function getDictionaryPath(): string {
+  return process.env.KUROMOJI_DICT_PATH ?? path.join(process.cwd(), 'node_modules', 'kuromoji', 'dict')
+}
+
+let tokenizerPromise: Promise<Tokenizer<IpadicFeatures> | null> | null = null
+
+/**
+ * 共有トークナイザーを取得
+ * 辞書の読み込みに失敗した場合は `null` を返し、次回呼び出し時に再試行する
+ */
+export function getTokenizer(): Promise<Tokenizer<IpadicFeatures> | null> {
+  tokenizerPromise ??= new Promise(resolve => {
+    builder({ dicPath: getDictionaryPath() }).build((error, tokenizer) => {
+      if (error) {
+        console.error('[MORPHOLOGY] 形態素解析辞書の読み込みに失敗しました:', error)
+        tokenizerPromise = null
+        resolve(null)
+        return
+      }
+      resolve(tokenizer)
+    })
+  })
+  return tokenizerPromise
+}
+
+/**
+ * テスト用: 共有トークナイザーを破棄
+ */
+export function resetTokenizer(): void {
+  tokenizerPromise = null
+}
@@ -0,0 +1,103 @@
+/**
+ * OCR対象ファイル（画像・PDF）の取得
+ * 画像・PDFチェックの image_url はアップロードAPIが発行した Supabase Storage の署名付きURL（または data URL）に限定する
+ */
+
+import { APP_CONFIG } from '@/constants'
+import { TIMEOUTS } from '@/constants/timeouts'
+
+export interface OcrImage {
+  buffer: Buffer
+  mimeType: string
+}
+
+const PDF_MIME_TYPE = 'application/pdf'
+
+/**
+ * Supabase Storage のURLか
+ */
+function isSupabaseStorageUrl(value: string): boolean {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!supabaseUrl) return false
+  try {
+    const url = new URL(value)
+    return /^https?:$/.test(url.protocol)
+      && url.origin === new URL(supabaseUrl).origin
+      && url.pathname.startsWith('/storage/v1/')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * OCR対象として受け付ける画像URLか（Supabase Storage のURL または data URL）
+ */
+export function isAllowedOcrImageUrl(imageUrl: string): boolean {
+  if (imageUrl.startsWith('data:image/')) return true
+  return isSupabaseStorageUrl(imageUrl)
+}
+
+/**
+ * テキスト抽出の対象として受け付けるPDFのURLか（Supabase Storage のURL または data URL）
+ */
+export function isAllowedPdfUrl(pdfUrl: string): boolean {
+  if (pdfUrl.startsWith(`data:${PDF_MIME_TYPE};`)) return true
+  return isSupabaseStorageUrl(pdfUrl)
+}
+
+/**
+ * Storage のURLからファイルを取得する（サイズ上限を超える場合はエラー）
+ */
+async function fetchStorageFile(url: string, maxBytes: number, label: string): Promise<{ buffer: Buffer; contentType: string | undefined }> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(TIMEOUTS.IMAGE_PROCESSING) })
+  if (!response.ok) {
+    throw new Error(`${label}の取得に失敗しました (${response.status})`)
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  if (buffer.length > maxBytes) {
+    throw new Error(`${label}サイズが上限を超えています`)
+  }
+
+  return { buffer, contentType: response.headers.get('content-type')?.split(';')[0].trim() }
+}
+
+/**
+ * 画像URLから画像データを取得する
+ */
+export async function loadOcrImage(imageUrl: string): Promise<OcrImage> {
+  if (!isAllowedOcrImageUrl(imageUrl)) {
+    throw new Error('許可されていない画像URLです')
+  }
+
+  if (imageUrl.startsWith('data:')) {
+    const match = /^data:(image\/[\w.+-]+);base64,(.+)$/.exec(imageUrl)
+    if (!match) {
+      throw new Error('画像の data URL が不正です')
+    }
+    return { buffer: Buffer.from(match[2], 'base64'), mimeType: match[1] }
+  }
+
+  const { buffer, contentType } = await fetchStorageFile(imageUrl, APP_CONFIG.FILE_SIZE_LIMITS.IMAGE, '画像')
+  return { buffer, mimeType: contentType?.startsWith('image/') ? contentType : 'image/jpeg' }
+}
+
+/**
+ * PDFのURLからPDFデータを取得する
+ */
+export async function loadPdfDocument(pdfUrl: string): Promise<Buffer> {
+  if (!isAllowedPdfUrl(pdfUrl)) {
+    throw new Error('許可されていないPDFのURLです')
+  }
+
+  if (pdfUrl.startsWith('data:')) {
+    const match = /^data:application\/pdf;base64,(.+)$/.exec(pdfUrl)
+    if (!match) {
+      throw new Error('PDFの data URL が不正です')
+    }
+    return Buffer.from(match[1], 'base64')
+  }
+
+  const { buffer } = await fetchStorageFile(pdfUrl, APP_CONFIG.FILE_SIZE_LIMITS.PDF, 'PDF')
+  return buffer
+}
@@ -5,6 +5,9 @@
 export * from './metadata'
 export * from './image-preprocessing'
 export * from './confidence-estimation'
+export * from './layout'
+export * from './image-source'
+export * from './pdf'
 
 // 便利な統合関数もエクスポート
 export { enhancedExtractTextFromImageWithLLM } from './enhanced-ocr'
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * OCRレイアウト（テキストブロックと画像上の位置）
+ * Vision LLM の応答からテキストブロックを取り出し、抽出テキスト内のオフセットと画像上の領域を対応付ける
+ */
+
+import { findBalancedBraces, sanitizePlainText } from '@/lib/ai-client/utils'
+import type { OcrBoundingBox, OcrLayoutResult, OcrTextBlock } from '@/types/api'
+
+/**
+ * レイアウト付きOCRのプロンプト（座標は画像の幅・高さに対する 0〜1 の比率で返させる）
+ */
+export const OCR_LAYOUT_PROMPT = `この画像に含まれるテキストを日本語で正確に抽出してください。
+テキストはまとまり（行・見出し・吹き出しなど）ごとのブロックに分け、読む順に並べてください。
+各ブロックについて、画像上の位置を画像の幅・高さに対する 0〜1 の比率（左上が原点）で返してください。
+縦書きのブロックは vertical を true にしてください。ブロック内の改行は \\n で表してください。
+次のJSONのみを出力してください:
+{"blocks": [{"text": "テキスト", "bbox": {"x": 0.1, "y": 0.05, "width": 0.6, "height": 0.08}, "vertical": false}]}`
+
+interface RawOcrBlock {
+  text: string
+  bbox: OcrBoundingBox | null
+  vertical: boolean
+}
+
+/**
+ * テキストブロックを読む順に連結して抽出テキストを組み立てる（ブロック間は改行）。
+ * 位置が不明なブロックはテキストにのみ含める
+ */
+export function buildOcrLayout(rawBlocks: RawOcrBlock[]): OcrLayoutResult {
+  const blocks: OcrTextBlock[] = []
+  let text = ''
+
+  for (const raw of rawBlocks) {
+    const blockText = raw.text.trim()
+    if (!blockText) continue
+    if (text) text += '\n'
+    const start = text.length
+    text += blockText
+    if (raw.bbox) {
+      blocks.push({ text: blockText, start, end: text.length, bbox: raw.bbox, ...(raw.vertical ? { vertical: true } : {}) })
+    }
+  }
+
+  return { text, blocks }
+}
+
+/**
+ * Vision LLM の応答を解析する。
+ * JSONとして解析できない場合は応答全体をテキストとして扱う（位置情報なし）
+ */
+export function parseOcrLayoutResponse(content: string): OcrLayoutResult {
+  const json = findBalancedBraces(content)
+  if (json) {
+    try {
+      const parsed = JSON.parse(json) as { blocks?: unknown }
+      if (Array.isArray(parsed.blocks)) {
+        const rawBlocks = parsed.blocks
+          .filter((block): block is Record<string, unknown> => typeof block === 'object' && block !== null && typeof block.text === 'string')
+          .map(block => ({
+            text: sanitizePlainText(String(block.text)),
+            bbox: normalizeBoundingBox(block.bbox),
+            vertical: block.vertical === true
+          }))
+        const layout = buildOcrLayout(rawBlocks)
+        if (layout.text) return layout
+      }
+    } catch {
+      // JSON以外の応答はテキストとして扱う
+    }
+  }
+
+  return { text: sanitizePlainText(content), blocks: [] }
+}
+
+/**
+ * 座標を 0〜1 の比率に正規化する（0〜1000 のスケールで返された場合も受け付ける）
+ */
+function normalizeBoundingBox(value: unknown): OcrBoundingBox | null {
+  if (typeof value !== 'object' || value === null) return null
+  const { x, y, width, height } = value as Record<string, unknown>
+  const numbers = [x, y, width, height]
+  if (!numbers.every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0)) return null
+
+  const values = numbers as number[]
+  const scale = Math.max(...values) > 1 ? 1000 : 1
+  if (Math.max(...values) > scale) return null
+
+  const [nx, ny, nw, nh] = values.map(n => n / scale)
+  const box = {
+    x: Math.min(nx, 1),
+    y: Math.min(ny, 1),
+    width: Math.min(nw, 1 - Math.min(nx, 1)),
+    height: Math.min(nh, 1 - Math.min(ny, 1))
+  }
+  return box.width > 0 && box.height > 0 ? box : null
+}
+
+/**
+ * 文字の相対的な幅（半角文字は全角の半分として扱う）
+ */
+function charWidth(char: string): number {
+  return /[\x20-\x7E\uFF61-\uFF9F]/.test(char) ? 0.5 : 1
+}
+
+function widthOf(text: string): number {
+  let width = 0
+  for (const char of text) width += charWidth(char)
+  return width
+}
+
+/**
+ * 抽出テキストの範囲 [start, end) を画像上の領域に対応付ける。
+ * ブロック内の行（縦書きは列）は均等な高さ（幅）とみなし、行内の位置は文字幅の比率で按分する
+ */
+export function mapTextRangeToImageRegions(blocks: OcrTextBlock[], start: number, end: number): OcrBoundingBox[] {
+  const regions: OcrBoundingBox[] = []
+  if (end <= start) return regions
+
+  for (const block of blocks) {
+    if (block.end <= start || block.start >= end) continue
+
+    const lines = block.text.split('\n')
+    let lineStart = block.start
+    lines.forEach((line, index) => {
+      const lineEnd = lineStart + line.length
+      const from = Math.max(start, lineStart)
+      const to = Math.min(end, lineEnd)
+
+      if (to > from && line.length > 0) {
+        const total = widthOf(line)
+        const before = widthOf(line.slice(0, from - lineStart)) / total
+        const span = widthOf(line.slice(from - lineStart, to - lineStart)) / total
+        const { bbox } = block
+
+        if (block.vertical) {
+          // 縦書き: 列は右から左、列内は上から下
+          const columnWidth = bbox.width / lines.length
+          regions.push({
+            x: bbox.x + bbox.width - columnWidth * (index + 1),
+            y: bbox.y + bbox.height * before,
+            width: columnWidth,
+            height: bbox.height * span
+          })
+        } else {
+          const lineHeight = bbox.height / lines.length
+          regions.push({
+            x: bbox.x + bbox.width * before,
+            y: bbox.y + lineHeight * index,
+            width: bbox.width * span,
+            height: lineHeight
+          })
+        }
+      }
+
+      lineStart = lineEnd + 1
+    })
+  }
+
+  return regions
+}
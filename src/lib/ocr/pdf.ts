@@ -0,0 +1,120 @@
+/**
+ * PDFのテキスト抽出
+ * ページごとにテキストレイヤーを抽出し、テキストレイヤーのないページ（スキャンページ）は画像に描画してOCRにかける
+ */
+
+import type { PdfPageRange } from '@/types/api'
+
+/** 1つのPDFで処理する最大ページ数 */
+export const PDF_MAX_PAGES = 50
+
+/** テキストレイヤーの文字数がこれ未満のページはスキャンページとみなしてOCRにかける */
+export const PDF_TEXT_LAYER_MIN_CHARS = 20
+
+/** OCR用にページを描画する倍率（72dpi 基準） */
+const PDF_OCR_RENDER_SCALE = 2
+
+/**
+ * ページごとの抽出テキスト
+ */
+export interface PdfPageText {
+  page: number
+  text: string
+  source: PdfPageRange['source']
+}
+
+/**
+ * PDFのページ全体を連結した抽出テキストとページごとの範囲
+ */
+export interface PdfTextResult {
+  text: string
+  pages: PdfPageRange[]
+}
+
+/**
+ * ページ画像からテキストを抽出する関数（PNG画像を受け取る）
+ */
+export type PdfPageOcr = (image: Buffer, mimeType: string) => Promise<string>
+
+/**
+ * テキストレイヤーの文字列を整形する（行末の空白と連続する空行を除去）
+ */
+function normalizePageText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * PDFからページごとのテキストを抽出する。
+ * テキストレイヤーが `PDF_TEXT_LAYER_MIN_CHARS` 文字未満のページはページ画像を `ocrPage` に渡してOCRする
+ *
+ * @param data PDFデータ
+ * @param ocrPage スキャンページのOCR
+ */
+export async function extractPdfPages(data: Buffer, ocrPage: PdfPageOcr): Promise<PdfPageText[]> {
+  const { extractText, getDocumentProxy, renderPageAsImage } = await import('unpdf')
+  const pdf = await getDocumentProxy(new Uint8Array(data))
+
+  try {
+    if (pdf.numPages > PDF_MAX_PAGES) {
+      throw new Error(`PDFのページ数が上限（${PDF_MAX_PAGES}ページ）を超えています`)
+    }
+
+    const { text: pageTexts } = await extractText(pdf, { mergePages: false })
+    const pages: PdfPageText[] = []
+
+    // OCRは Vision LLM の呼び出しになるため、ページ順に1件ずつ処理する
+    for (const [index, rawText] of pageTexts.entries()) {
+      const page = index + 1
+      const text = normalizePageText(rawText)
+      if (text.replace(/\s/g, '').length >= PDF_TEXT_LAYER_MIN_CHARS) {
+        pages.push({ page, text, source: 'text' })
+        continue
+      }
+
+      const image = await renderPageAsImage(pdf, page, {
+        canvasImport: () => import('@napi-rs/canvas'),
+        scale: PDF_OCR_RENDER_SCALE
+      })
+      const ocrText = normalizePageText(await ocrPage(Buffer.from(image), 'image/png'))
+      // OCRでも文字が取れない場合はテキストレイヤーの文字列を残す（図版のみのページなど）
+      pages.push(ocrText ? { page, text: ocrText, source: 'ocr' } : { page, text, source: 'text' })
+    }
+
+    return pages
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+/**
+ * ページごとのテキストを連結する（ページ間は空行）。
+ * テキストが空のページは範囲に含めない
+ */
+export function buildPdfText(pages: PdfPageText[]): PdfTextResult {
+  const ranges: PdfPageRange[] = []
+  let text = ''
+
+  for (const page of pages) {
+    if (!page.text) continue
+    if (text) text += '\n\n'
+    const start = text.length
+    text += page.text
+    ranges.push({ page: page.page, start, end: text.length, source: page.source })
+  }
+
+  return { text, pages: ranges }
+}
+
+/**
+ * 抽出テキスト内のオフセットが含まれるページ番号を返す（ページ間の区切りはその後ろのページとみなす）
+ */
+export function findPdfPageNumber(pages: PdfPageRange[], offset: number): number | null {
+  if (pages.length === 0) return null
+  const page = pages.find(range => offset < range.end) ?? pages[pages.length - 1]
+  return page.page
+}
@@ -1,280 +1,248 @@
 /**
  * Queue Manager for Check Processing
- * Handles concurrent check processing with proper queue management
+ * チェック処理のジョブを永続キュー（jobs テーブル）に投入し、ワーカーで処理する。
+ * デプロイやクラッシュでプロセスが落ちても、キュー上のジョブはリース切れ後に他のワーカーが引き継ぐ。
+ * メンテナンス中は新しいジョブを取得せず、処理中のチェックの完了を待つ（待機中のジョブはメンテナンス終了後に処理する）。
  */
 
+import { JOB_PRIORITY_VALUES, JOB_QUEUE_CONFIG, JOB_TIER_POLICIES, JobPriority } from '@/constants/jobQueue'
+import { Job } from '@/core/ports'
+import { publishDomainEvent } from '@/lib/domain-events'
+import { DurableJobWorker, getJobRepositories, JobRetryDecision } from '@/lib/job-queue'
+import { getSystemConfig } from '@/lib/system-settings'
+import type { ProductCategory } from '@/types/api'
+
+const CHECK_QUEUE = JOB_QUEUE_CONFIG.QUEUES.check
+
 /**
- * キューに格納される処理対象の情報。
- *
- * - `priority` により追加時の挿入位置を制御
- * - `retryCount`/`maxRetries` により再試行ロジックを制御
+ * チェックジョブの payload（jobs.payload）
  */
-interface QueueItem {
-  id: number
+interface CheckJobPayload {
+  text: string
+  inputType?: 'text' | 'image' | 'pdf' | 'url'
+  imageUrl?: string | null
+  productCategory?: ProductCategory | null
+  sourceUrl?: string | null
+}
+
+/**
+ * キューへ追加するチェック
+ */
+export interface CheckQueueItem {
+  checkId: number
   text: string
   organizationId: number
-  priority: 'high' | 'normal' | 'low'
-  createdAt: Date
-  retryCount: number
-  maxRetries: number
-  inputType?: 'text' | 'image'
+  inputType?: 'text' | 'image' | 'pdf' | 'url'
   imageUrl?: string
+  productCategory?: ProductCategory | null
+  sourceUrl?: string
 }
 
 /**
- * チェック処理のための簡易キューマネージャ。
+ * チェック処理のキューマネージャ。
  *
  * 機能:
- * - 優先度付きキューへの追加
- * - 上限同時実行数の管理とシリアライズ
+ * - 優先度付きキューへの追加（high / normal / low）
+ * - 上限同時実行数の管理（プロセスごと）
+ * - 組織間の重み付き公平スケジューリングと、プラン別の組織ごと同時実行数上限（全ワーカー合計）
  * - 再試行（指数バックオフ）と失敗時のDB更新
+ * - メンテナンス中の新規取得の停止（処理中のジョブは完了させる）
  */
 class CheckQueueManager {
-  private queue: QueueItem[] = []
-  private processing: Map<number, Promise<void>> = new Map()
-  private maxConcurrent = 2 // AI API遅延回避のため並行数を削減
-  private isProcessing = false
-
-  constructor(maxConcurrent = 2) { // デフォルト値も2に変更
-    const fromEnv = Number(process.env.ADLEX_MAX_CONCURRENT_CHECKS)
-    this.maxConcurrent = Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : maxConcurrent
+  private worker: DurableJobWorker
+
+  constructor(private maxConcurrent = CHECK_QUEUE.CONCURRENCY) {
+    this.worker = new DurableJobWorker({
+      queue: 'check',
+      concurrency: maxConcurrent,
+      tierPolicies: JOB_TIER_POLICIES,
+      handle: job => this.processItem(job),
+      onFailure: (job, error) => this.handleFailure(job, error),
+      isPaused: () => this.isMaintenanceMode()
+    })
   }
 
-  /**
-   * Add a check to the queue
-   */
   /**
    * キューへ新規チェックを追加する。
    *
-   * - 優先度に応じて `unshift` か `push`
-   * - 非処理中であれば処理ループを開始
+   * - 優先度に応じて取得順を制御（同じ優先度内は投入順）
+   * - このプロセスのワーカーを起動（未起動の場合）して即時に取得を試みる
    */
   async addToQueue(
     checkId: number,
     text: string,
     organizationId: number,
-    priority: 'high' | 'normal' | 'low' = 'normal',
-    inputType: 'text' | 'image' = 'text',
-    imageUrl?: string
+    priority: JobPriority = 'normal',
+    inputType: 'text' | 'image' | 'pdf' | 'url' = 'text',
+    imageUrl?: string,
+    productCategory: ProductCategory | null = null,
+    sourceUrl?: string
   ): Promise<void> {
-    const queueItem: QueueItem = {
-      id: checkId,
-      text,
-      organizationId,
-      priority,
-      createdAt: new Date(),
-      retryCount: 0,
-      maxRetries: 2,
-      inputType,
-      imageUrl
-    }
-
-    // Insert based on priority
-    if (priority === 'high') {
-      this.queue.unshift(queueItem)
-    } else {
-      this.queue.push(queueItem)
-    }
-
-    // Start processing if not already running
-    if (!this.isProcessing) {
-      this.processQueue()
-    }
+    await this.addManyToQueue(
+      [{ checkId, text, organizationId, inputType, imageUrl, productCategory, sourceUrl }],
+      priority
+    )
   }
 
   /**
-   * Process the queue
-   */
-  /**
-   * キュー全体の処理ループ。
+   * 複数のチェックをまとめてキューへ追加する（一括チェック用）。
    *
-   * - 既に処理中ならスキップ
-   * - 空きがある限り新規アイテムを `processItem` で処理
-   * - 1件完了まで待機し、残件があれば再スケジューリング
+   * - 全件を1回の INSERT で投入する（一部だけ投入されることはない）
+   * - ワーカーへの通知も1回にまとめる
    */
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing) {
-      return
-    }
-    this.isProcessing = true
-
-    try {
-      // 利用可能な容量がある限り新しいアイテムを処理開始
-      while (this.queue.length > 0 && this.processing.size < this.maxConcurrent) {
-        const item = this.queue.shift()
-        if (!item) continue
-        const processingPromise = this.processItem(item)
-        this.processing.set(item.id, processingPromise)
-
-        // 処理完了時のクリーンアップ
-        processingPromise.finally(() => {
-          this.processing.delete(item.id)
-          
-          // 処理完了後、キューに残りがあれば再度処理開始
-          if (this.queue.length > 0 && !this.isProcessing) {
-            setTimeout(() => this.processQueue(), 50)
-          }
-        })
+  async addManyToQueue(items: CheckQueueItem[], priority: JobPriority = 'normal'): Promise<void> {
+    if (items.length === 0) return
+
+    await getJobRepositories().jobs.enqueueMany(items.map(item => {
+      const payload: CheckJobPayload = {
+        text: item.text,
+        inputType: item.inputType ?? 'text',
+        imageUrl: item.imageUrl ?? null,
+        productCategory: item.productCategory ?? null,
+        sourceUrl: item.sourceUrl ?? null
       }
-
-      // 最大容量に達している場合、1つ完了するまで待機
-      if (this.processing.size >= this.maxConcurrent && this.processing.size > 0) {
-        await Promise.race(this.processing.values())
-        // 処理継続 - 再帰呼び出しで状態を確認
-        if (this.queue.length > 0) {
-          setTimeout(() => this.processQueue(), 100)
-        }
-      }
-    } catch (error) {
-      console.error('[QUEUE] キュー処理中にエラーが発生しました:', error)
-    } finally {
-      // 確実にisProcessingフラグをリセット
-      // キューが空または処理中のアイテムがない場合のみリセット
-      if (this.queue.length === 0 && this.processing.size === 0) {
-        this.isProcessing = false
-      } else {
-        // まだ処理すべきアイテムがある場合は状態を維持
-        this.isProcessing = false // 次の処理サイクルのためにリセット
-        
-        // 残りのアイテムがある場合は次の処理を予約
-        if (this.queue.length > 0) {
-          setTimeout(() => this.processQueue(), 100)
-        }
+      return {
+        queue: 'check',
+        priority: JOB_PRIORITY_VALUES[priority],
+        payload: { ...payload },
+        organization_id: item.organizationId,
+        check_id: item.checkId,
+        max_attempts: CHECK_QUEUE.MAX_ATTEMPTS
       }
-    }
+    }))
+
+    this.worker.notify()
   }
 
   /**
-   * Process a single queue item
+   * ワーカーを起動する（サーバー起動時に呼び出す）
    */
+  start(): void {
+    this.worker.start()
+  }
+
   /**
-   * 個々のキューアイテムを処理する。
-   *
-   * - `processCheck` を呼び出して本処理を実施
-   * - 失敗時は指数バックオフで再試行（上限超過で `checks.status='failed'`）
+   * ワーカーを停止する（処理中のジョブは完了まで待つ）
    */
-  private async processItem(item: QueueItem): Promise<void> {
-    const { processCheck } = await import('@/lib/check-processor')
-    
-    try {
-      await processCheck(item.id, item.text, item.organizationId, item.inputType, item.imageUrl)
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '不明な処理エラー'
-      console.error(`[QUEUE] チェック ${item.id} の処理でエラーが発生しました:`, {
-        error: errorMessage,
-        inputType: item.inputType,
-        textLength: item.text.length,
-        retryCount: item.retryCount,
-        organizationId: item.organizationId
-      })
-      
-      // Retry logic with exponential backoff
-      if (item.retryCount < item.maxRetries) {
-        item.retryCount++
-        const retryDelay = Math.min(Math.pow(2, item.retryCount) * 1000, 30000) // Max 30s delay
-        
-        // Scheduling retry with exponential backoff
-        
-        setTimeout(() => {
-          // Add back to queue with higher priority for retries
-          const retryPriority: 'high' | 'normal' | 'low' = item.retryCount >= 2 ? 'high' : item.priority
-          this.queue.unshift({ ...item, priority: retryPriority })
-          
-          // 確実にキューの再処理を開始
-          setTimeout(() => this.processQueue(), 50)
-        }, retryDelay)
-      } else {
-        console.error(`[QUEUE] チェック ${item.id} はリトライ上限に達しました（失敗としてマーク）`)
-        
-        // Mark check as permanently failed
-        try {
-          const { createClient } = await import('@/infra/supabase/serverClient')
-          const supabase = await createClient()
-          
-          await supabase
-            .from('checks')
-            .update({ 
-              status: 'failed',
-              error_message: `処理に失敗しました (${item.retryCount}回再試行済み): ${errorMessage}`,
-              completed_at: new Date().toISOString()
-            })
-            .eq('id', item.id)
-            
-        } catch (updateError) {
-          console.error(`[QUEUE] チェック ${item.id} を失敗として更新できませんでした:`, updateError)
-        }
-      }
-    }
+  async stop(): Promise<void> {
+    await this.worker.stop()
   }
 
   /**
-   * Get queue status
+   * メンテナンス中か（設定を取得できない場合は処理を続ける）
    */
+  private async isMaintenanceMode(): Promise<boolean> {
+    const config = await getSystemConfig(getJobRepositories())
+    return config.maintenanceMode
+  }
+
   /**
-   * 現在のキュー状況を返す（監視/テスト用）。
+   * 個々のジョブを処理する。
+   *
+   * - `processCheck` を呼び出して本処理を実施（失敗時は例外をそのまま返し再試行判定へ）
    */
-  getStatus(): {
-    queueLength: number
-    processingCount: number
-    maxConcurrent: number
-  } {
-    const status = {
-      queueLength: this.queue.length,
-      processingCount: this.processing.size,
-      maxConcurrent: this.maxConcurrent
+  private async processItem(job: Job): Promise<void> {
+    const { processCheck } = await import('@/lib/check-processor')
+    const payload = job.payload as unknown as CheckJobPayload
+
+    if (job.check_id === null || job.organization_id === null) {
+      throw new Error('チェックジョブに check_id / organization_id がありません')
     }
-    
-    // Return current queue status
-    
-    return status
+
+    await processCheck(
+      job.check_id,
+      payload.text,
+      job.organization_id,
+      payload.inputType ?? 'text',
+      payload.imageUrl ?? undefined,
+      payload.productCategory ?? null,
+      payload.sourceUrl ?? undefined
+    )
   }
 
   /**
-   * Clear the queue (for testing)
-   */
-  /**
-   * キューをクリア（テスト・復旧用）。
+   * 失敗時の再試行判定。
+   *
+   * - 上限未満は指数バックオフで再試行（2回目の再試行以降は優先度を high に上げる）
+   * - 上限超過で `checks.status='failed'`（`CheckFailed` ドメインイベントを発行）
    */
-  clear(): void {
-    this.queue = []
-    this.processing.clear()
-    this.isProcessing = false
+  private async handleFailure(job: Job, error: Error): Promise<JobRetryDecision> {
+    const retryCount = job.attempts
+    console.error(`[QUEUE] チェック ${job.check_id} の処理でエラーが発生しました:`, {
+      error: error.message,
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.max_attempts,
+      organizationId: job.organization_id
+    })
+
+    if (job.attempts < job.max_attempts) {
+      return {
+        delayMs: Math.min(Math.pow(2, retryCount) * 1000, 30000), // Max 30s delay
+        priority: retryCount >= 2 ? JOB_PRIORITY_VALUES.high : job.priority
+      }
+    }
+
+    console.error(`[QUEUE] チェック ${job.check_id} はリトライ上限に達しました（失敗としてマーク）`)
+
+    if (job.check_id !== null) {
+      try {
+        const errorMessage = `処理に失敗しました (${job.attempts - 1}回再試行済み): ${error.message}`
+        const failedAt = new Date().toISOString()
+        await getJobRepositories().checks.update(job.check_id, {
+          status: 'failed',
+          error_message: errorMessage,
+          completed_at: failedAt
+        })
+
+        // 再試行しきって失敗が確定したときだけ通知する
+        if (job.organization_id !== null) {
+          publishDomainEvent({
+            eventType: 'CheckFailed',
+            aggregateId: String(job.check_id),
+            occurredAt: new Date(failedAt),
+            data: {
+              checkId: job.check_id,
+              organizationId: job.organization_id,
+              errorMessage,
+              failedAt
+            }
+          })
+        }
+      } catch (updateError) {
+        console.error(`[QUEUE] チェック ${job.check_id} を失敗として更新できませんでした:`, updateError)
+      }
+    }
+
+    return null
   }
+
   /**
-   * デバッグ用: キューの現在状態を出力
-   */
-  /**
-   * デバッグ用: 現在のキュー詳細を返す。
+   * 現在のキュー状況を返す（全ワーカー合計の待機数・処理中数）。
    */
-  getQueueStatus() {
+  async getStatus(): Promise<{
+    queueLength: number
+    processingCount: number
+    maxConcurrent: number
+  }> {
+    const { queued, running } = await getJobRepositories().jobs.countActive('check')
     return {
-      queueLength: this.queue.length,
-      processingCount: this.processing.size,
-      isProcessing: this.isProcessing,
-      maxConcurrent: this.maxConcurrent,
-      queueItems: this.queue.map(item => ({
-        id: item.id,
-        priority: item.priority,
-        retryCount: item.retryCount
-      })),
-      processingItems: Array.from(this.processing.keys())
+      queueLength: queued,
+      processingCount: running,
+      maxConcurrent: this.maxConcurrent
     }
   }
 
   /**
-   * 強制的にキュー処理を再開（デバッグ用）
-   */
-  /**
-   * 強制再開（デバッグ用途）。
+   * デバッグ用: このプロセスのワーカー状況を返す。
    */
-  forceRestart() {
-    this.isProcessing = false
-    setTimeout(() => this.processQueue(), 100)
+  getWorkerStatus() {
+    return this.worker.getStatus()
   }
 }
 
 // Global queue manager instance
-export const queueManager = new CheckQueueManager(3)
+export const queueManager = new CheckQueueManager()
 
 // Export for testing
-export { CheckQueueManager } 
\ No newline at end of file
+export { CheckQueueManager }
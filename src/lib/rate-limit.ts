@@ -0,0 +1,314 @@
+/**
+ * APIレート制限
+ * ルートグループ（checks / uploads / exports / auth）ごとに、スライディングウィンドウでリクエスト数を制限する
+ * （現在の時間枠の件数に、直前の時間枠の件数を時間枠の残り割合で按分して加えた値を直近の件数とみなす）。
+ *
+ * - 対象: APIキーごと（APIキー認証）またはユーザーごと、加えて組織全体。未認証のリクエストはIPアドレスごと
+ * - 上限: 一般設定の rateLimitRequests × グループの割合 × プランの倍率（時間枠は rateLimitWindow 秒）
+ *   一般設定の rateLimitEnabled が false の場合は制限しない
+ * - カウンタ: プロセス内（既定）、または ADLEX_RATE_LIMIT_STORE=postgres で rate_limit_counters テーブル（全インスタンス共有）
+ * - レスポンス: RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset / RateLimit-Policy ヘッダーを付け、
+ *   超過時は 429（Retry-After 付き）を返す
+ * - 設定・カウンタを取得できない場合はリクエストを止めない
+ */
+
+import { NextResponse } from 'next/server'
+
+import {
+  RATE_LIMIT_CONFIG,
+  RATE_LIMIT_GROUP_POLICIES,
+  RATE_LIMIT_PLAN_MULTIPLIERS,
+  RateLimitGroup
+} from '@/constants/rateLimits'
+import type { SubscriptionTier } from '@/core/domain/entities'
+import { ApiKey, RateLimitWindowCount, RepositoryContainer } from '@/core/ports'
+import { createRepositories } from '@/infra/repositories'
+import { getSystemClient } from '@/infra/supabase/adminClient'
+import { cache } from '@/lib/cache'
+import { ErrorFactory, ErrorHandler } from '@/lib/errors'
+import { logger } from '@/lib/logger'
+import { getSystemConfig } from '@/lib/system-settings'
+
+/**
+ * レート制限のカウンタの保存先
+ */
+export interface RateLimitStore {
+  /** キーの現在の時間枠に1件加算し、現在・直前の時間枠の件数を返す */
+  hit(key: string, windowSeconds: number): Promise<RateLimitWindowCount>
+}
+
+/**
+ * プロセス内のカウンタ（インスタンスごとに独立して数える）
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { windowStart: number; current: number; previous: number; expiresAt: number }>()
+  private lastPrunedAt = Date.now()
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitWindowCount> {
+    const now = Date.now()
+    const windowMs = windowSeconds * 1000
+    const windowStart = Math.floor(now / windowMs) * windowMs
+
+    const entry = this.windows.get(key)
+    let current = 0
+    let previous = 0
+    if (entry?.windowStart === windowStart) {
+      current = entry.current
+      previous = entry.previous
+    } else if (entry?.windowStart === windowStart - windowMs) {
+      previous = entry.current
+    }
+    current += 1
+    this.windows.set(key, { windowStart, current, previous, expiresAt: windowStart + windowMs * 2 })
+
+    if (now - this.lastPrunedAt >= RATE_LIMIT_CONFIG.PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = now
+      for (const [windowKey, window] of this.windows) {
+        if (window.expiresAt < now) this.windows.delete(windowKey)
+      }
+    }
+
+    return { currentCount: current, previousCount: previous, elapsedSeconds: (now - windowStart) / 1000 }
+  }
+}
+
+/**
+ * Postgres のカウンタ（rate_limit_counters、Service Role で操作する）
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPrunedAt = 0
+
+  constructor(private repositories: RepositoryContainer) {}
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitWindowCount> {
+    const count = await this.repositories.rateLimitCounters.hit(key, windowSeconds)
+
+    if (Date.now() - this.lastPrunedAt >= RATE_LIMIT_CONFIG.PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = Date.now()
+      this.repositories.rateLimitCounters.prune().catch(error => {
+        logger.warn('Failed to prune rate limit counters', {
+          operation: 'PostgresRateLimitStore.hit',
+          error: error instanceof Error ? error.message : String(error)
+        })
+      })
+    }
+
+    return count
+  }
+}
+
+let store: RateLimitStore | null = null
+
+/**
+ * 設定に応じたカウンタの保存先（Service Role が未設定の場合はプロセス内）
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store
+
+  if (RATE_LIMIT_CONFIG.STORE === 'postgres') {
+    try {
+      store = new PostgresRateLimitStore(createRepositories(getSystemClient()))
+      return store
+    } catch (error) {
+      logger.warn('Postgres rate limit store is not available; falling back to memory', {
+        operation: 'getRateLimitStore',
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  store = new MemoryRateLimitStore()
+  return store
+}
+
+/**
+ * レート制限の判定結果
+ */
+export interface RateLimitDecision {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** 現在の時間枠が終わるまでの秒数 */
+  resetSeconds: number
+  windowSeconds: number
+}
+
+/**
+ * 現在・直前の時間枠の件数から、直近の時間枠での件数を推定して判定する
+ */
+export function decideRateLimit(count: RateLimitWindowCount, limit: number, windowSeconds: number): RateLimitDecision {
+  const previousWeight = Math.max(0, 1 - count.elapsedSeconds / windowSeconds)
+  const estimated = count.previousCount * previousWeight + count.currentCount
+  return {
+    allowed: estimated <= limit,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - estimated)),
+    resetSeconds: Math.max(1, Math.ceil(windowSeconds - count.elapsedSeconds)),
+    windowSeconds
+  }
+}
+
+/**
+ * レート制限の対象（認証済みの場合はユーザーまたはAPIキー）
+ */
+export interface RateLimitContext {
+  repositories: RepositoryContainer
+  userId?: string | null
+  apiKey?: ApiKey | null
+}
+
+export type RateLimitResult =
+  | { allowed: true; headers: Record<string, string> }
+  | { allowed: false; response: NextResponse }
+
+/**
+ * ルートグループのレート制限を適用する
+ * 許可した場合はレスポンスに付けるヘッダーを、超過した場合は 429 のレスポンスを返す
+ */
+export async function enforceRateLimit(
+  request: Request,
+  group: RateLimitGroup,
+  context: RateLimitContext
+): Promise<RateLimitResult> {
+  try {
+    const config = await getSystemConfig(context.repositories)
+    if (!config.rateLimitEnabled) {
+      return { allowed: true, headers: {} }
+    }
+
+    const { organizationId, plan } = await resolveOrganization(context)
+    const windowSeconds = config.rateLimitWindow
+    const limit = Math.max(1, Math.floor(
+      config.rateLimitRequests * RATE_LIMIT_GROUP_POLICIES[group].requestsRatio * RATE_LIMIT_PLAN_MULTIPLIERS[plan]
+    ))
+
+    const buckets = [{ key: `${group}:${subjectKey(request, context)}`, limit }]
+    if (organizationId !== null) {
+      buckets.push({
+        key: `${group}:org:${organizationId}`,
+        limit: Math.floor(limit * RATE_LIMIT_CONFIG.ORGANIZATION_MULTIPLIER)
+      })
+    }
+
+    const rateLimitStore = getRateLimitStore()
+    const decisions = await Promise.all(buckets.map(async bucket =>
+      decideRateLimit(await rateLimitStore.hit(bucket.key, windowSeconds), bucket.limit, windowSeconds)
+    ))
+    // 超過した制限、なければ残りが最も少ない制限をヘッダーに使う
+    const decision = decisions.find(item => !item.allowed)
+      ?? decisions.reduce((tightest, item) => item.remaining < tightest.remaining ? item : tightest)
+    const headers = rateLimitHeaders(decision)
+
+    if (decision.allowed) {
+      return { allowed: true, headers }
+    }
+
+    logger.warn('Rate limit exceeded', {
+      operation: 'enforceRateLimit',
+      group,
+      userId: context.userId ?? undefined,
+      apiKeyId: context.apiKey?.id,
+      organizationId: organizationId === null ? undefined : String(organizationId),
+      limit: decision.limit,
+      windowSeconds
+    })
+
+    const response = ErrorHandler.createApiErrorResponse(
+      ErrorFactory.createRateLimitError(
+        RATE_LIMIT_GROUP_POLICIES[group].label,
+        decision.limit,
+        windowSeconds,
+        decision.resetSeconds
+      )
+    )
+    return {
+      allowed: false,
+      response: withRateLimitHeaders(response, { ...headers, 'Retry-After': String(decision.resetSeconds) })
+    }
+  } catch (error) {
+    logger.warn('Rate limit check failed; allowing the request', {
+      operation: 'enforceRateLimit',
+      group,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return { allowed: true, headers: {} }
+  }
+}
+
+/**
+ * レスポンスにレート制限のヘッダーを付ける
+ */
+export function withRateLimitHeaders<T extends Response>(response: T, headers: Record<string, string>): T {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+/**
+ * 未認証リクエストの制限に使うクライアントIP
+ * x-forwarded-for の先頭はクライアントが任意に付けられるため使わず、
+ * プラットフォーム（Vercel）が設定する x-real-ip、なければ信頼するプロキシが末尾に追加した値を使う
+ */
+export function getClientIp(request: Request): string | null {
+  const realIp = request.headers.get('x-real-ip')?.trim()
+  if (realIp) return realIp
+
+  const lastHop = request.headers.get('x-forwarded-for')?.split(',').at(-1)?.trim()
+  if (lastHop) return lastHop
+
+  return null
+}
+
+function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(decision.resetSeconds),
+    'RateLimit-Policy': `${decision.limit};w=${decision.windowSeconds}`
+  }
+}
+
+function subjectKey(request: Request, context: RateLimitContext): string {
+  if (context.apiKey) return `api-key:${context.apiKey.id}`
+  if (context.userId) return `user:${context.userId}`
+
+  return `ip:${getClientIp(request) ?? 'unknown'}`
+}
+
+/**
+ * 制限対象の組織とプラン（組織に属さない・未認証の場合は trial 扱い）
+ */
+async function resolveOrganization(
+  context: RateLimitContext
+): Promise<{ organizationId: number | null; plan: SubscriptionTier }> {
+  let organizationId = context.apiKey?.organization_id ?? null
+  if (organizationId === null && context.userId) {
+    const cacheKey = `rate-limit:user-organization:${context.userId}`
+    const cached = cache.get<{ organizationId: number | null }>(cacheKey)
+    if (cached) {
+      organizationId = cached.organizationId
+    } else {
+      const user = await context.repositories.users.findById(context.userId)
+      organizationId = user?.organization_id ?? null
+      cache.set(cacheKey, { organizationId }, RATE_LIMIT_CONFIG.PLAN_CACHE_TTL_MS)
+    }
+  }
+
+  if (organizationId === null) {
+    return { organizationId, plan: 'trial' }
+  }
+
+  const planCacheKey = `rate-limit:organization-plan:${organizationId}`
+  let plan = cache.get<string>(planCacheKey)
+  if (!plan) {
+    const organization = await context.repositories.organizations.findById(organizationId)
+    plan = organization?.plan ?? 'trial'
+    cache.set(planCacheKey, plan, RATE_LIMIT_CONFIG.PLAN_CACHE_TTL_MS)
+  }
+
+  return {
+    organizationId,
+    plan: plan in RATE_LIMIT_PLAN_MULTIPLIERS ? plan as SubscriptionTier : 'trial'
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * システム設定・機能フラグの参照（サーバー側）
+ * 管理画面で保存した設定（system_settings）を型付きで返す。保存されていない項目・不正な値は既定値で補う。
+ *
+ * 設定は30秒間プロセス内にキャッシュする。同じプロセスで設定を更新した場合は invalidateSystemSettingsCache で即時に反映し、
+ * 他のプロセスにはキャッシュの有効期限切れで反映される。
+ * 設定を取得できない場合はチェック・アップロードを止めないよう既定値で動作する。
+ */
+
+import {
+  NotificationSettings,
+  NotificationSettingsSchema,
+  SystemConfig,
+  SystemConfigSchema
+} from '@/core/dtos/system-settings'
+import { FeatureFlag, RepositoryContainer } from '@/core/ports'
+import { cache } from '@/lib/cache'
+import { evaluateFeatureFlag, FEATURE_FLAG_DEFAULTS, FeatureFlagKey } from '@/lib/feature-flags'
+import { DEFAULT_MAINTENANCE_MESSAGE } from '@/lib/maintenance'
+import { Json } from '@/types/database.types'
+
+/** 一般・メンテナンス設定の既定値 */
+export const SYSTEM_CONFIG_DEFAULTS: SystemConfig = {
+  maintenanceMode: false,
+  maintenanceMessage: DEFAULT_MAINTENANCE_MESSAGE,
+  debugMode: false,
+  rateLimitEnabled: true,
+  rateLimitRequests: 100,
+  rateLimitWindow: 60,
+  cacheEnabled: true,
+  cacheTTL: 300,
+  maxUploadSize: 10,
+  allowedFileTypes: ['jpg', 'jpeg', 'png', 'webp', 'pdf']
+}
+
+/** 通知設定の既定値 */
+export const NOTIFICATION_SETTINGS_DEFAULTS: NotificationSettings = {
+  emailNotifications: true,
+  slackIntegration: false,
+  slackWebhookUrl: '',
+  errorAlerts: true,
+  performanceAlerts: true,
+  securityAlerts: true
+}
+
+const SETTINGS_CACHE_TTL_MS = 30 * 1000
+const SYSTEM_CONFIG_CACHE_KEY = 'settings:system'
+const NOTIFICATION_SETTINGS_CACHE_KEY = 'settings:notifications'
+const FEATURE_FLAGS_CACHE_KEY = 'settings:feature-flags'
+
+/**
+ * 保存された一般・メンテナンス設定を既定値で補って検証する（不正な場合は既定値）
+ */
+export function parseSystemConfig(value: Json | undefined): SystemConfig {
+  const stored = isJsonObject(value) ? value : {}
+  const result = SystemConfigSchema.safeParse({ ...SYSTEM_CONFIG_DEFAULTS, ...stored })
+  if (!result.success) {
+    console.warn('保存されたシステム設定が不正なため既定値を使用します:', result.error.issues)
+    return SYSTEM_CONFIG_DEFAULTS
+  }
+  return result.data
+}
+
+/**
+ * 保存された通知設定を既定値で補って検証する（不正な場合は既定値）
+ */
+export function parseNotificationSettings(value: Json | undefined): NotificationSettings {
+  const stored = isJsonObject(value) ? value : {}
+  const result = NotificationSettingsSchema.safeParse({ ...NOTIFICATION_SETTINGS_DEFAULTS, ...stored })
+  if (!result.success) {
+    console.warn('保存された通知設定が不正なため既定値を使用します:', result.error.issues)
+    return NOTIFICATION_SETTINGS_DEFAULTS
+  }
+  return result.data
+}
+
+/**
+ * 一般・メンテナンス設定を取得する
+ */
+export async function getSystemConfig(repositories: RepositoryContainer): Promise<SystemConfig> {
+  const cached = cache.get<SystemConfig>(SYSTEM_CONFIG_CACHE_KEY)
+  if (cached) return cached
+
+  try {
+    const setting = await repositories.systemSettings.findByKey('system')
+    const config = parseSystemConfig(setting?.value)
+    cache.set(SYSTEM_CONFIG_CACHE_KEY, config, SETTINGS_CACHE_TTL_MS)
+    return config
+  } catch (error) {
+    console.error('システム設定の取得に失敗したため既定値を使用します:', error)
+    return SYSTEM_CONFIG_DEFAULTS
+  }
+}
+
+/**
+ * 通知設定を取得する
+ */
+export async function getNotificationSettings(repositories: RepositoryContainer): Promise<NotificationSettings> {
+  const cached = cache.get<NotificationSettings>(NOTIFICATION_SETTINGS_CACHE_KEY)
+  if (cached) return cached
+
+  try {
+    const setting = await repositories.systemSettings.findByKey('notifications')
+    const settings = parseNotificationSettings(setting?.value)
+    cache.set(NOTIFICATION_SETTINGS_CACHE_KEY, settings, SETTINGS_CACHE_TTL_MS)
+    return settings
+  } catch (error) {
+    console.error('通知設定の取得に失敗したため既定値を使用します:', error)
+    return NOTIFICATION_SETTINGS_DEFAULTS
+  }
+}
+
+/**
+ * 機能フラグが組織について有効かを評価する（フラグが保存されていない・取得できない場合は既定値）
+ */
+export async function isFeatureEnabled(
+  repositories: RepositoryContainer,
+  key: FeatureFlagKey,
+  organizationId: number | null
+): Promise<boolean> {
+  let flags = cache.get<FeatureFlag[]>(FEATURE_FLAGS_CACHE_KEY)
+  if (!flags) {
+    try {
+      flags = await repositories.featureFlags.findAll()
+      cache.set(FEATURE_FLAGS_CACHE_KEY, flags, SETTINGS_CACHE_TTL_MS)
+    } catch (error) {
+      console.error(`機能フラグ ${key} の取得に失敗したため既定値を使用します:`, error)
+      return FEATURE_FLAG_DEFAULTS[key]
+    }
+  }
+
+  const flag = flags.find(item => item.key === key)
+  return flag ? evaluateFeatureFlag(flag, organizationId) : FEATURE_FLAG_DEFAULTS[key]
+}
+
+/**
+ * プロセス内の設定・機能フラグのキャッシュを破棄する（設定の更新後に呼ぶ）
+ */
+export function invalidateSystemSettingsCache(): void {
+  cache.delete(SYSTEM_CONFIG_CACHE_KEY)
+  cache.delete(NOTIFICATION_SETTINGS_CACHE_KEY)
+  cache.delete(FEATURE_FLAGS_CACHE_KEY)
+}
+
+function isJsonObject(value: Json | undefined): value is { [key: string]: Json | undefined } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
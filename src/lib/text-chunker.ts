@@ -0,0 +1,120 @@
+/**
+ * 長文チェック用のテキスト分割
+ *
+ * LP原稿など長いテキストを日本語の文境界（。！？と改行）で区切り、文単位の重なりを持たせたチャンクに分割する。
+ * 各チャンクは元テキスト上の開始位置を保持するため、チャンク内で検出した違反を全体のオフセットへ戻せる。
+ */
+
+export interface TextChunk {
+  index: number
+  text: string
+  /** 元テキスト上の開始位置（UTF-16） */
+  start: number
+  /** 元テキスト上の終了位置（UTF-16、排他的） */
+  end: number
+}
+
+export interface ChunkOptions {
+  /** 1チャンクの最大文字数（UTF-16） */
+  maxLength: number
+  /** 前のチャンクと重ねる最大文字数（文単位で重ねる） */
+  overlap: number
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxLength: 1000,
+  overlap: 100
+}
+
+/** 文末とみなす文字 */
+const SENTENCE_TERMINATORS = new Set(['。', '！', '？', '!', '?', '\n'])
+
+/** 文末記号の直後に続けて同じ文に含める閉じ括弧類 */
+const CLOSING_BRACKETS = new Set(['」', '』', '）', ')', '】', '〉', '》', '"', '”', '’'])
+
+interface Span {
+  start: number
+  end: number
+}
+
+/**
+ * テキストを文単位の範囲に分割する（文末記号・閉じ括弧・連続する改行は直前の文に含める）
+ */
+export function splitSentences(text: string): Span[] {
+  const spans: Span[] = []
+  let start = 0
+  let i = 0
+
+  while (i < text.length) {
+    if (!SENTENCE_TERMINATORS.has(text[i])) {
+      i++
+      continue
+    }
+    i++
+    while (i < text.length && (SENTENCE_TERMINATORS.has(text[i]) || CLOSING_BRACKETS.has(text[i]))) {
+      i++
+    }
+    spans.push({ start, end: i })
+    start = i
+  }
+
+  if (start < text.length) {
+    spans.push({ start, end: text.length })
+  }
+  return spans
+}
+
+/**
+ * 最大長を超える文を固定長で分割する（サロゲートペアの途中では区切らない）
+ */
+function splitOversized(text: string, span: Span, maxLength: number): Span[] {
+  const pieces: Span[] = []
+  let start = span.start
+  while (span.end - start > maxLength) {
+    let end = start + maxLength
+    const code = text.charCodeAt(end)
+    if (code >= 0xdc00 && code <= 0xdfff) end--
+    pieces.push({ start, end })
+    start = end
+  }
+  pieces.push({ start, end: span.end })
+  return pieces
+}
+
+/**
+ * テキストを文境界で最大長以内のチャンクに分割し、隣接チャンクを文単位で重ねる。
+ * 最大長以内のテキストは1チャンクとして返す。
+ */
+export function chunkText(text: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): TextChunk[] {
+  const { maxLength, overlap } = options
+  if (text.length <= maxLength) {
+    return text.length > 0 ? [{ index: 0, text, start: 0, end: text.length }] : []
+  }
+
+  const sentences = splitSentences(text).flatMap(span => splitOversized(text, span, maxLength))
+  const chunks: TextChunk[] = []
+  let i = 0
+
+  while (i < sentences.length) {
+    const start = sentences[i].start
+    let j = i
+    while (j < sentences.length && sentences[j].end - start <= maxLength) {
+      j++
+    }
+    const end = sentences[j - 1].end
+    chunks.push({ index: chunks.length, text: text.slice(start, end), start, end })
+    if (j >= sentences.length) break
+
+    // 末尾の文を重なりとして次のチャンクに含める（次の文が収まる範囲に限る）
+    let k = j
+    while (k - 1 > i && end - sentences[k - 1].start <= overlap) {
+      k--
+    }
+    while (k < j && sentences[j].end - sentences[k].start > maxLength) {
+      k++
+    }
+    i = k
+  }
+
+  return chunks
+}
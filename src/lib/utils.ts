@@ -34,3 +34,31 @@ export function truncateText(text: string, maxLength: number) {
   if (text.length <= maxLength) return text
   return text.slice(0, maxLength) + '...'
 }
+
+/**
+ * 同時実行数を制限しつつ非同期処理を配列の各要素に適用する（結果は入力順）。
+ *
+ * @param items 入力配列
+ * @param concurrency 最大同時実行数（1以上）
+ * @param mapper 各要素に適用する非同期処理
+ * @returns 入力順に並んだ処理結果
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await mapper(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: workerCount }, worker))
+  return results
+}
@@ -0,0 +1,145 @@
+/**
+ * LLM違反スパンの位置検証と再アンカリング
+ *
+ * LLMが返す `start`/`end` は数文字ずれることが多い（全角文字・絵文字・結合文字など）。
+ * 引用された違反フレーズを報告位置の近傍で探し直し、UTF-16オフセットに揃えて保存する。
+ */
+
+/**
+ * 位置合わせの方法
+ * - exact: 報告位置（UTF-16）がそのまま引用フレーズと一致
+ * - code_point: 報告位置をコードポイント単位と解釈すると一致
+ * - nearest_match: 報告位置の近傍で引用フレーズを再検索して一致
+ * - unverified: 引用フレーズがなく、範囲が有効なため報告位置を採用
+ * - unanchored: 位置を特定できなかった
+ */
+export type SpanAlignmentMethod = 'exact' | 'code_point' | 'nearest_match' | 'unverified' | 'unanchored'
+
+export interface ReportedSpan {
+  start: number
+  end: number
+  /** LLMが引用した違反箇所の原文 */
+  text?: string | null
+}
+
+export interface AlignedSpan {
+  start: number
+  end: number
+  /** 位置の信頼度（0: 特定不可 〜 1: 完全一致） */
+  confidence: number
+  method: SpanAlignmentMethod
+  /** 位置確定後の違反箇所テキスト */
+  matchedText: string | null
+}
+
+/** 近傍とみなす距離（UTF-16単位）。これを超える一致は信頼度を下げる */
+const NEARBY_WINDOW = 32
+
+const CONFIDENCE: Record<Exclude<SpanAlignmentMethod, 'nearest_match'>, number> = {
+  exact: 1.0,
+  code_point: 0.95,
+  unverified: 0.5,
+  unanchored: 0
+}
+
+function isValidRange(text: string, start: number, end: number): boolean {
+  return Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end > start && end <= text.length
+}
+
+/**
+ * コードポイント単位のオフセットをUTF-16オフセットに変換（範囲外は `null`）
+ */
+export function codePointToUtf16Offset(text: string, codePointOffset: number): number | null {
+  if (!Number.isInteger(codePointOffset) || codePointOffset < 0) return null
+
+  let utf16Offset = 0
+  let codePoints = 0
+  for (const char of text) {
+    if (codePoints === codePointOffset) return utf16Offset
+    utf16Offset += char.length
+    codePoints++
+  }
+  return codePoints === codePointOffset ? utf16Offset : null
+}
+
+/**
+ * テキスト中の `phrase` の全出現位置を返す
+ */
+function findAllOccurrences(text: string, phrase: string): number[] {
+  const positions: number[] = []
+  let index = text.indexOf(phrase)
+  while (index !== -1) {
+    positions.push(index)
+    index = text.indexOf(phrase, index + 1)
+  }
+  return positions
+}
+
+/**
+ * 報告された違反スパンをテキストに再アンカリングする
+ *
+ * 処理順:
+ * 1. 報告位置（UTF-16）の切り出しが引用フレーズと一致すればそのまま採用
+ * 2. 報告位置をコードポイント単位として変換し、一致すれば採用
+ * 3. 引用フレーズの出現位置のうち報告位置に最も近いものを採用（距離に応じて信頼度を減衰）
+ * 4. 引用フレーズがない場合は、有効な範囲であれば報告位置を低信頼度で採用
+ * 5. いずれも不可の場合は `unanchored`（位置 0-0、信頼度 0）
+ */
+export function alignSpan(text: string, span: ReportedSpan): AlignedSpan {
+  const phrase = span.text?.trim() ?? ''
+
+  if (!phrase) {
+    return isValidRange(text, span.start, span.end)
+      ? {
+          start: span.start,
+          end: span.end,
+          confidence: CONFIDENCE.unverified,
+          method: 'unverified',
+          matchedText: text.slice(span.start, span.end)
+        }
+      : { start: 0, end: 0, confidence: CONFIDENCE.unanchored, method: 'unanchored', matchedText: null }
+  }
+
+  // 1. UTF-16オフセットとして一致
+  if (isValidRange(text, span.start, span.end) && text.slice(span.start, span.end) === phrase) {
+    return { start: span.start, end: span.end, confidence: CONFIDENCE.exact, method: 'exact', matchedText: phrase }
+  }
+
+  // 2. コードポイントオフセットとして一致
+  const cpStart = codePointToUtf16Offset(text, span.start)
+  if (cpStart !== null && text.startsWith(phrase, cpStart)) {
+    return {
+      start: cpStart,
+      end: cpStart + phrase.length,
+      confidence: CONFIDENCE.code_point,
+      method: 'code_point',
+      matchedText: phrase
+    }
+  }
+
+  // 3. 報告位置の近傍で再検索
+  const occurrences = findAllOccurrences(text, phrase)
+  if (occurrences.length > 0) {
+    const anchors = [span.start, cpStart].filter((v): v is number => typeof v === 'number' && Number.isFinite(v))
+    const distanceOf = (position: number) =>
+      anchors.length > 0 ? Math.min(...anchors.map(a => Math.abs(position - a))) : Number.POSITIVE_INFINITY
+    const nearest = occurrences.reduce((best, position) => distanceOf(position) < distanceOf(best) ? position : best)
+    const distance = distanceOf(nearest)
+
+    // 近傍なら0.9、遠いほど減衰（単一出現なら位置の曖昧さがないため0.7を下限とする）
+    const floor = occurrences.length === 1 ? 0.7 : 0.4
+    const confidence = distance <= NEARBY_WINDOW
+      ? 0.9
+      : Math.max(floor, 0.9 - (distance - NEARBY_WINDOW) / text.length)
+
+    return {
+      start: nearest,
+      end: nearest + phrase.length,
+      confidence: Math.round(confidence * 100) / 100,
+      method: 'nearest_match',
+      matchedText: phrase
+    }
+  }
+
+  return { start: 0, end: 0, confidence: CONFIDENCE.unanchored, method: 'unanchored', matchedText: null }
+}
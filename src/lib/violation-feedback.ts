@@ -0,0 +1,96 @@
+/**
+ * レビュー担当者のフィードバックからの辞書提案
+ * 未対応（open）のフィードバックを語句ごとにまとめ、管理者がワンクリックで辞書に反映できる提案にする。
+ *
+ * - 許可表現の追加（allow）: 誤検知と評価された違反の指摘箇所
+ * - NG表現の追加（ng）: 見逃しとして報告された箇所
+ *
+ * 正しい・理由違いの評価は辞書を変える必要がないため提案にしない（適合率の推定にのみ使う）。
+ * 組織辞書に同じ語句・同じ区分の項目が既にある場合は提案しない。区分だけが異なる項目がある場合は、反映時にその項目の区分を変更する。
+ */
+
+import { Dictionary, DictionaryCategory, ViolationFeedback, ViolationFeedbackType } from '@/core/ports'
+
+export type DictionarySuggestionKind = 'allow' | 'ng'
+
+/** 提案の種類ごとに追加する辞書の区分 */
+export const SUGGESTION_CATEGORIES: Record<DictionarySuggestionKind, DictionaryCategory> = {
+  allow: 'ALLOW',
+  ng: 'NG'
+}
+
+/** 提案の元になるフィードバックの種類 */
+const SUGGESTION_KINDS: Partial<Record<ViolationFeedbackType, DictionarySuggestionKind>> = {
+  false_positive: 'allow',
+  missed: 'ng'
+}
+
+/**
+ * フィードバックからの辞書提案
+ */
+export interface DictionarySuggestion {
+  kind: DictionarySuggestionKind
+  phrase: string
+  /** 提案の元になった未対応のフィードバック */
+  feedbackIds: number[]
+  checkIds: number[]
+  comments: string[]
+  /** 組織辞書にある同じ語句の項目（反映時は区分を変更する） */
+  existingDictionaryId: number | null
+  lastReportedAt: string | null
+}
+
+/**
+ * 未対応のフィードバックから辞書提案を作る（報告件数の多い順、同数は新しい順）
+ *
+ * @param feedback 組織の未対応のフィードバック
+ * @param dictionaries 組織辞書の項目
+ */
+export function buildDictionarySuggestions(
+  feedback: Array<Pick<ViolationFeedback, 'id' | 'check_id' | 'feedback_type' | 'phrase' | 'comment' | 'created_at'>>,
+  dictionaries: Array<Pick<Dictionary, 'id' | 'phrase' | 'category'>>
+): DictionarySuggestion[] {
+  const entriesByPhrase = new Map(dictionaries.map(entry => [entry.phrase, entry]))
+  const suggestions = new Map<string, DictionarySuggestion>()
+
+  for (const item of feedback) {
+    const kind = SUGGESTION_KINDS[item.feedback_type]
+    const phrase = item.phrase.trim()
+    if (!kind || !phrase) continue
+
+    const existing = entriesByPhrase.get(phrase)
+    if (existing?.category === SUGGESTION_CATEGORIES[kind]) continue
+
+    const key = `${kind}:${phrase}`
+    const suggestion = suggestions.get(key) ?? {
+      kind,
+      phrase,
+      feedbackIds: [],
+      checkIds: [],
+      comments: [],
+      existingDictionaryId: existing?.id ?? null,
+      lastReportedAt: null
+    }
+    suggestion.feedbackIds.push(item.id)
+    if (!suggestion.checkIds.includes(item.check_id)) suggestion.checkIds.push(item.check_id)
+    if (item.comment) suggestion.comments.push(item.comment)
+    if (item.created_at && (!suggestion.lastReportedAt || item.created_at > suggestion.lastReportedAt)) {
+      suggestion.lastReportedAt = item.created_at
+    }
+    suggestions.set(key, suggestion)
+  }
+
+  return [...suggestions.values()].sort((a, b) =>
+    b.feedbackIds.length - a.feedbackIds.length ||
+    (b.lastReportedAt ?? '').localeCompare(a.lastReportedAt ?? '')
+  )
+}
+
+/**
+ * 評価の件数から検出精度（%）を求める（理由違いは検出としては正しいものとして数える。評価がなければ null）
+ */
+export function measureAccuracyRate(counts: Pick<Record<ViolationFeedbackType, number>, 'correct' | 'wrong_reason' | 'false_positive'>): number | null {
+  const truePositives = counts.correct + counts.wrong_reason
+  const evaluated = truePositives + counts.false_positive
+  return evaluated > 0 ? Math.round((truePositives / evaluated) * 1000) / 10 : null
+}
@@ -0,0 +1,231 @@
+/**
+ * URLチェックの本文抽出
+ * HTMLからナビゲーション・フッター等の定型部分を除いた表示テキスト・画像の alt・<title>・meta description を抽出し、
+ * 抽出テキストの区間ごとに元のDOM要素のCSSセレクタを記録する（違反箇所をページ上のセクションに対応付けるため）
+ */
+
+import { parse, type DefaultTreeAdapterMap } from 'parse5'
+
+import type { WebPageSegment } from '@/types/api'
+
+type Element = DefaultTreeAdapterMap['element']
+type ParentNode = DefaultTreeAdapterMap['parentNode']
+type TextNode = DefaultTreeAdapterMap['textNode']
+
+/** オフセットを割り当てる前の区間 */
+type CollectedSegment = Omit<WebPageSegment, 'start' | 'end'> & { text: string }
+
+/**
+ * ページから抽出したテキスト
+ */
+export interface WebPageContent {
+  /** 抽出テキスト全体（区間の間は改行） */
+  text: string
+  title: string | null
+  metaDescription: string | null
+  segments: WebPageSegment[]
+}
+
+/** 表示されない要素（子孫も含めて除外） */
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'math', 'iframe', 'canvas', 'object', 'embed',
+  'audio', 'video', 'select', 'textarea', 'head'
+])
+
+/** 定型部分（グローバルナビゲーション・フッター等）として除外する要素 */
+const BOILERPLATE_TAGS = new Set(['nav', 'footer', 'aside'])
+const BOILERPLATE_ROLES = new Set(['navigation', 'contentinfo', 'search'])
+const BOILERPLATE_NAME_PATTERN = /(^|[-_\s])(cookie|consent|gdpr|breadcrumbs?|skip-link)([-_\s]|$)/i
+
+/** 区間の単位にする要素（この要素ごとにテキストをまとめる） */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'body', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup',
+  'legend', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th',
+  'thead', 'tr', 'ul'
+])
+
+/** CSSセレクタにそのまま使える識別子 */
+const CSS_IDENTIFIER_PATTERN = /^[A-Za-z][\w-]*$/
+
+const CJK_CHAR = '[\\u3000-\\u30ff\\u3400-\\u9fff\\uf900-\\ufaff\\uff00-\\uffef]'
+const CJK_LINE_BREAK_PATTERN = new RegExp(`(${CJK_CHAR})[^\\S\\n]*\\n\\s*(?=${CJK_CHAR})`, 'g')
+
+function isElement(node: DefaultTreeAdapterMap['node']): node is Element {
+  return 'tagName' in node
+}
+
+function getAttribute(element: Element, name: string): string | null {
+  return element.attrs.find(attr => attr.name === name)?.value ?? null
+}
+
+function findChild(parent: ParentNode, tagName: string): Element | null {
+  for (const child of parent.childNodes) {
+    if (isElement(child) && child.tagName === tagName) return child
+  }
+  return null
+}
+
+/**
+ * 空白を整形する（ソース上の改行で分かれた日本語の文字は詰め、それ以外の連続する空白は1つにまとめる）
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(CJK_LINE_BREAK_PATTERN, '$1')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * 画面に表示されない・定型部分として除外する要素か
+ */
+function isExcluded(element: Element): boolean {
+  if (SKIPPED_TAGS.has(element.tagName) || BOILERPLATE_TAGS.has(element.tagName)) return true
+  if (getAttribute(element, 'hidden') !== null) return true
+  if (getAttribute(element, 'aria-hidden') === 'true') return true
+  if (BOILERPLATE_ROLES.has(getAttribute(element, 'role') ?? '')) return true
+
+  const style = (getAttribute(element, 'style') ?? '').replace(/\s/g, '').toLowerCase()
+  if (style.includes('display:none') || style.includes('visibility:hidden')) return true
+
+  const names = `${getAttribute(element, 'id') ?? ''} ${getAttribute(element, 'class') ?? ''}`
+  return BOILERPLATE_NAME_PATTERN.test(names)
+}
+
+/**
+ * 要素のCSSセレクタを生成する（id を持つ祖先を起点に、なければ body から nth-of-type でたどる）
+ */
+function buildSelector(element: Element): string {
+  const parts: string[] = []
+  let current: Element | null = element
+
+  while (current && current.tagName !== 'body' && current.tagName !== 'html') {
+    const id = getAttribute(current, 'id')
+    if (id && CSS_IDENTIFIER_PATTERN.test(id)) {
+      parts.unshift(`#${id}`)
+      return parts.join(' > ')
+    }
+
+    let part = current.tagName
+    const className = (getAttribute(current, 'class') ?? '').split(/\s+/).find(name => CSS_IDENTIFIER_PATTERN.test(name))
+    if (className) part += `.${className}`
+
+    const parent: ParentNode | null = current.parentNode
+    if (parent) {
+      const tagName = current.tagName
+      const siblings = parent.childNodes.filter((node): node is Element => isElement(node) && node.tagName === tagName)
+      if (siblings.length > 1) part += `:nth-of-type(${siblings.indexOf(current) + 1})`
+    }
+
+    parts.unshift(part)
+    current = parent && isElement(parent) ? parent : null
+  }
+
+  parts.unshift('body')
+  return parts.join(' > ')
+}
+
+/**
+ * 本文を区間ごとに抽出する
+ */
+function collectBodySegments(body: Element): CollectedSegment[] {
+  const segments: CollectedSegment[] = []
+  // <br> ごとに行を分ける（ソース上の改行は空白として扱う）
+  let lines: string[] = ['']
+
+  const flush = (owner: Element) => {
+    const text = lines
+      .map(normalizeWhitespace)
+      .filter(line => line.length > 0)
+      .join('\n')
+    lines = ['']
+    if (text) segments.push({ selector: buildSelector(owner), kind: 'text', text })
+  }
+
+  const walk = (parent: ParentNode, owner: Element) => {
+    for (const node of parent.childNodes) {
+      if (node.nodeName === '#text') {
+        lines[lines.length - 1] += (node as TextNode).value
+        continue
+      }
+      if (!isElement(node) || isExcluded(node)) continue
+
+      if (node.tagName === 'br') {
+        lines.push('')
+      } else if (node.tagName === 'img') {
+        const alt = normalizeWhitespace(getAttribute(node, 'alt') ?? '')
+        if (alt) {
+          flush(owner)
+          segments.push({ selector: buildSelector(node), kind: 'alt', text: alt })
+        }
+      } else if (BLOCK_TAGS.has(node.tagName)) {
+        flush(owner)
+        walk(node, node)
+        flush(node)
+      } else {
+        walk(node, owner)
+      }
+    }
+  }
+
+  walk(body, body)
+  flush(body)
+  return segments
+}
+
+/**
+ * HTMLからチェック対象のテキストを抽出する
+ */
+export function extractWebPageContent(html: string): WebPageContent {
+  const document = parse(html)
+  const htmlElement = findChild(document, 'html')
+  const head = htmlElement ? findChild(htmlElement, 'head') : null
+  const body = htmlElement ? findChild(htmlElement, 'body') : null
+
+  const titleElement = head ? findChild(head, 'title') : null
+  const title = titleElement
+    ? normalizeWhitespace(titleElement.childNodes.map(node => node.nodeName === '#text' ? (node as TextNode).value : '').join(''))
+    : ''
+
+  const metaSegments: CollectedSegment[] = []
+  for (const node of head?.childNodes ?? []) {
+    if (!isElement(node) || node.tagName !== 'meta') continue
+    const name = (getAttribute(node, 'name') ?? getAttribute(node, 'property') ?? '').toLowerCase()
+    if (name !== 'description' && name !== 'og:description') continue
+    const content = normalizeWhitespace(getAttribute(node, 'content') ?? '')
+    if (!content || metaSegments.some(segment => segment.text === content)) continue
+    const attribute = getAttribute(node, 'name') !== null ? 'name' : 'property'
+    metaSegments.push({ selector: `meta[${attribute}="${name}"]`, kind: 'meta', text: content })
+  }
+
+  const collected = [
+    ...(title ? [{ selector: 'head > title', kind: 'title' as const, text: title }] : []),
+    ...metaSegments,
+    ...(body ? collectBodySegments(body) : [])
+  ]
+
+  const segments: WebPageSegment[] = []
+  let text = ''
+  for (const segment of collected) {
+    if (text) text += '\n'
+    const start = text.length
+    text += segment.text
+    segments.push({ selector: segment.selector, kind: segment.kind, start, end: text.length })
+  }
+
+  return {
+    text,
+    title: title || null,
+    metaDescription: metaSegments.find(segment => segment.selector === 'meta[name="description"]')?.text ?? metaSegments[0]?.text ?? null,
+    segments
+  }
+}
+
+/**
+ * 抽出テキスト内のオフセットが含まれる区間のCSSセレクタを返す（区間の間の改行はその後ろの区間とみなす）
+ */
+export function findWebPageSelector(segments: WebPageSegment[], offset: number): string | null {
+  if (segments.length === 0) return null
+  const segment = segments.find(range => offset < range.end) ?? segments[segments.length - 1]
+  return segment.selector
+}
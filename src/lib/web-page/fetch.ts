@@ -0,0 +1,192 @@
+/**
+ * URLチェックのページ取得
+ * 外部から指定されたURLを取得するため、プライベートアドレスへの接続を拒否する（SSRF 対策、リダイレクト先も都度検証）
+ */
+
+import { lookup } from 'node:dns/promises'
+import { isIP } from 'node:net'
+
+import { WEB_PAGE_FETCH_CONFIG } from '@/constants/webPage'
+
+/**
+ * 取得したページ
+ */
+export interface FetchedWebPage {
+  /** 送信されたURL */
+  url: string
+  /** リダイレクト後のURL */
+  finalUrl: string
+  httpStatus: number
+  contentType: string | null
+  /** 取得したHTML（バイト列のまま、スナップショット保存用） */
+  body: Buffer
+  /** 文字コードを判定してデコードしたHTML */
+  html: string
+  fetchedAt: string
+}
+
+/**
+ * URLチェックの対象として受け付けるURLか（http/https・認証情報なし）
+ */
+export function isFetchableUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return /^https?:$/.test(url.protocol) && !url.username && !url.password && url.hostname.length > 0
+  } catch {
+    return false
+  }
+}
+
+/**
+ * IPv4 アドレスがプライベート・ループバック・リンクローカル等の非公開アドレスか
+ */
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number)
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 0)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224
+}
+
+/**
+ * IP アドレスが非公開アドレスか（IPv4 射影の IPv6 アドレスを含む）
+ */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+
+  const normalized = address.toLowerCase()
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(normalized)
+  if (mapped) return isPrivateIPv4(mapped[1])
+
+  return normalized === '::'
+    || normalized === '::1'
+    || /^f[cd]/.test(normalized)
+    || /^fe[89ab]/.test(normalized)
+    || normalized.startsWith('ff')
+}
+
+/**
+ * 接続先のホストが公開アドレスであることを確認する（名前解決した全アドレスを検証）
+ *
+ * @param url 接続先のURL
+ * @param allowPrivateNetwork 非公開アドレスを許可するか（既定は URLチェックの設定）
+ */
+export async function assertPublicHost(
+  url: URL,
+  allowPrivateNetwork: boolean = WEB_PAGE_FETCH_CONFIG.ALLOW_PRIVATE_NETWORK
+): Promise<void> {
+  if (allowPrivateNetwork) return
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map(entry => entry.address)
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('内部ネットワークのURLには接続できません')
+  }
+}
+
+/**
+ * 本文を上限サイズまで読み込む
+ */
+async function readBody(response: Response): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0)
+
+  const chunks: Uint8Array[] = []
+  let total = 0
+  const reader = response.body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > WEB_PAGE_FETCH_CONFIG.MAX_HTML_BYTES) {
+      await reader.cancel()
+      throw new Error('ページのサイズが上限を超えています')
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * 文字コードを判定してデコードする（Content-Type の charset → meta 要素の charset → UTF-8）
+ */
+function decodeHtml(body: Buffer, contentType: string | null): string {
+  const head = body.subarray(0, 4096).toString('latin1')
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType ?? '')?.[1]
+    ?? /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1]
+    ?? 'utf-8'
+
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(body)
+  } catch {
+    return new TextDecoder('utf-8').decode(body)
+  }
+}
+
+/**
+ * ページを取得する（リダイレクトは上限回数まで、リダイレクト先も公開アドレスか検証する）
+ */
+export async function fetchWebPage(url: string): Promise<FetchedWebPage> {
+  if (!isFetchableUrl(url)) {
+    throw new Error('取得できないURLです')
+  }
+
+  let current = new URL(url)
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(current)
+
+    const response = await fetch(current, {
+      redirect: 'manual',
+      headers: {
+        'User-Agent': WEB_PAGE_FETCH_CONFIG.USER_AGENT,
+        Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+        'Accept-Language': 'ja,en;q=0.5'
+      },
+      signal: AbortSignal.timeout(WEB_PAGE_FETCH_CONFIG.REQUEST_TIMEOUT_MS)
+    })
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel()
+      if (redirects >= WEB_PAGE_FETCH_CONFIG.MAX_REDIRECTS) {
+        throw new Error('リダイレクトの回数が上限を超えています')
+      }
+      current = new URL(location, current)
+      if (!isFetchableUrl(current.href)) {
+        throw new Error('リダイレクト先のURLが取得できない形式です')
+      }
+      continue
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new Error(`ページの取得に失敗しました (${response.status})`)
+    }
+
+    const contentType = response.headers.get('content-type')
+    const mimeType = contentType?.split(';')[0].trim().toLowerCase()
+    if (mimeType && !(WEB_PAGE_FETCH_CONFIG.ACCEPTED_CONTENT_TYPES as readonly string[]).includes(mimeType)) {
+      await response.body?.cancel()
+      throw new Error(`HTML以外のページはチェックできません (${mimeType})`)
+    }
+
+    const body = await readBody(response)
+    return {
+      url,
+      finalUrl: current.href,
+      httpStatus: response.status,
+      contentType,
+      body,
+      html: decodeHtml(body, contentType),
+      fetchedAt: new Date().toISOString()
+    }
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * URLチェック（ランディングページ）ユーティリティ統合エクスポート
+ */
+
+export * from './fetch'
+export * from './extract'
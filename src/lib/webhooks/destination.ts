@@ -0,0 +1,23 @@
+/**
+ * Webhook 送信先の検証（SSRF 対策）
+ * 登録時と配信のたびに、送信先が HTTPS の公開アドレスであることを確認する
+ * （登録後に名前解決の結果が内部ネットワークへ変わった場合も配信しない）。
+ * ADLEX_WEBHOOK_ALLOW_PRIVATE=true の場合のみ、HTTP・プライベートアドレスを許可する。
+ */
+
+import { WEBHOOK_CONFIG } from '@/constants/webhooks'
+import { assertPublicHost } from '@/lib/web-page/fetch'
+
+/**
+ * 送信先URLへ配信してよいか確認する（許可しない場合は理由付きの例外を投げる）
+ */
+export async function assertWebhookDestination(value: string): Promise<void> {
+  const url = new URL(value)
+  const allowedProtocol = url.protocol === 'https:'
+    || (url.protocol === 'http:' && WEBHOOK_CONFIG.ALLOW_PRIVATE_NETWORK)
+  if (!allowedProtocol) {
+    throw new Error('送信先URLはHTTPSである必要があります')
+  }
+
+  await assertPublicHost(url, WEBHOOK_CONFIG.ALLOW_PRIVATE_NETWORK)
+}
@@ -0,0 +1,255 @@
+/**
+ * Webhook 配信
+ * ドメインイベントを購読中のエンドポイントへ署名付きで送信し、配信ログを記録する。
+ * 失敗した配信は指数バックオフで再試行する（プロセス内タイマー＋期限切れ再試行の拾い上げ）。
+ * 送信先は配信のたびに公開アドレスか検証し、リダイレクト（3xx）は追跡せず失敗として扱う。
+ */
+
+import { calculateBackoffDelay, RETRY_CONFIG } from '@/constants/retry'
+import { DOMAIN_EVENT_WEBHOOK_TYPES, WEBHOOK_CONFIG } from '@/constants/webhooks'
+import { DomainEvent, DomainEventHandler } from '@/core/domain/events'
+import { RepositoryContainer, WebhookDelivery } from '@/core/ports'
+import { createRepositories } from '@/infra/repositories'
+import { createAdminClient } from '@/infra/supabase/adminClient'
+import { logger } from '@/lib/logger'
+
+import { assertWebhookDestination } from './destination'
+import { signWebhookPayload } from './signature'
+
+const RETRY_POLICY = RETRY_CONFIG.OPERATIONS.WEBHOOK_DELIVERY
+
+/** 配信中・再試行待ちの配信ID（同一プロセス内での二重送信を防ぐ） */
+const inFlightDeliveries = new Set<number>()
+const scheduledRetries = new Map<number, ReturnType<typeof setTimeout>>()
+
+let systemRepositories: RepositoryContainer | null = null
+
+/**
+ * 配信処理用のリポジトリ（Service Role、RLSを無視して全組織のエンドポイントを参照）
+ */
+function getSystemRepositories(): RepositoryContainer | null {
+  if (systemRepositories) return systemRepositories
+  try {
+    systemRepositories = createRepositories(createAdminClient())
+    return systemRepositories
+  } catch (error) {
+    logger.warn('Webhook delivery is disabled: service role client is not available', {
+      operation: 'getSystemRepositories',
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return null
+  }
+}
+
+/**
+ * Webhookの送信ペイロード
+ */
+export interface WebhookPayload {
+  id: string
+  type: string
+  created_at: string
+  organization_id: number
+  data: Record<string, unknown>
+}
+
+/**
+ * ドメインイベントを購読中のエンドポイントへ配信する
+ *
+ * @returns 作成した配信ログの件数
+ */
+export async function dispatchWebhookEvent(event: DomainEvent): Promise<number> {
+  const webhookType = DOMAIN_EVENT_WEBHOOK_TYPES[event.eventType]
+  const organizationId = event.data.organizationId
+  if (!webhookType || typeof organizationId !== 'number') return 0
+
+  const repositories = getSystemRepositories()
+  if (!repositories) return 0
+
+  const endpoints = await repositories.webhookEndpoints.findActiveByEventType(organizationId, webhookType)
+  const payload: WebhookPayload = {
+    id: event.eventId ?? `evt_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    type: webhookType,
+    created_at: event.occurredAt.toISOString(),
+    organization_id: organizationId,
+    data: event.data
+  }
+
+  let created = 0
+  for (const endpoint of endpoints) {
+    const delivery = await repositories.webhookDeliveries.create({
+      endpoint_id: endpoint.id,
+      organization_id: organizationId,
+      event_id: payload.id,
+      event_type: webhookType,
+      payload: JSON.parse(JSON.stringify(payload)),
+      status: 'pending'
+    })
+    created++
+    void deliverWebhook(delivery.id, repositories)
+  }
+
+  // 再起動などでタイマーが失われた再試行もここで拾う
+  void retryDueWebhookDeliveries()
+
+  return created
+}
+
+/**
+ * 配信ログ1件を送信する（成功・失敗・次回再試行時刻を記録）
+ *
+ * @param deliveryId 配信ログID
+ * @param repositories 使用するリポジトリ（省略時はService Role）
+ */
+export async function deliverWebhook(deliveryId: number, repositories?: RepositoryContainer): Promise<WebhookDelivery | null> {
+  const repos = repositories ?? getSystemRepositories()
+  if (!repos || inFlightDeliveries.has(deliveryId)) return null
+
+  inFlightDeliveries.add(deliveryId)
+  const scheduled = scheduledRetries.get(deliveryId)
+  if (scheduled) {
+    clearTimeout(scheduled)
+    scheduledRetries.delete(deliveryId)
+  }
+
+  try {
+    const delivery = await repos.webhookDeliveries.findById(deliveryId)
+    if (!delivery || delivery.status === 'succeeded' || delivery.status === 'failed') return delivery
+
+    const endpoint = await repos.webhookEndpoints.findById(delivery.endpoint_id)
+    if (!endpoint?.is_active) {
+      return await repos.webhookDeliveries.update(deliveryId, {
+        status: 'failed',
+        next_attempt_at: null,
+        error_message: 'エンドポイントが無効化または削除されています'
+      })
+    }
+
+    const attempt = delivery.attempt_count + 1
+    const attemptedAt = new Date()
+    const body = JSON.stringify(delivery.payload)
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), WEBHOOK_CONFIG.REQUEST_TIMEOUT_MS)
+
+    let responseStatus: number | null = null
+    let responseBody: string | null = null
+    let errorMessage: string | null = null
+    try {
+      await assertWebhookDestination(endpoint.url)
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AdLex-Webhooks/1.0',
+          [WEBHOOK_CONFIG.SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+          [WEBHOOK_CONFIG.EVENT_HEADER]: delivery.event_type,
+          [WEBHOOK_CONFIG.DELIVERY_HEADER]: String(delivery.id)
+        },
+        body,
+        // リダイレクト先は検証していないため追跡しない
+        redirect: 'manual',
+        signal: controller.signal
+      })
+      responseStatus = response.status
+      responseBody = (await response.text()).slice(0, WEBHOOK_CONFIG.MAX_RESPONSE_BODY_LENGTH)
+      if (response.status >= 300 && response.status < 400) {
+        errorMessage = `HTTP ${response.status}（リダイレクトは追跡しません）`
+      } else if (!response.ok) {
+        errorMessage = `HTTP ${response.status}`
+      }
+    } catch (error) {
+      errorMessage = controller.signal.aborted
+        ? `タイムアウトしました（${WEBHOOK_CONFIG.REQUEST_TIMEOUT_MS / 1000}秒）`
+        : error instanceof Error ? error.message : String(error)
+    } finally {
+      clearTimeout(timeout)
+    }
+
+    if (!errorMessage) {
+      return await repos.webhookDeliveries.update(deliveryId, {
+        status: 'succeeded',
+        attempt_count: attempt,
+        last_attempt_at: attemptedAt.toISOString(),
+        delivered_at: new Date().toISOString(),
+        next_attempt_at: null,
+        response_status: responseStatus,
+        response_body: responseBody,
+        error_message: null
+      })
+    }
+
+    const canRetry = attempt < RETRY_POLICY.maxAttempts
+    const delay = calculateBackoffDelay(attempt, RETRY_POLICY.baseDelay, RETRY_POLICY.exponentialBase, RETRY_POLICY.maxDelay)
+    const updated = await repos.webhookDeliveries.update(deliveryId, {
+      status: canRetry ? 'retrying' : 'failed',
+      attempt_count: attempt,
+      last_attempt_at: attemptedAt.toISOString(),
+      next_attempt_at: canRetry ? new Date(attemptedAt.getTime() + delay).toISOString() : null,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error_message: errorMessage
+    })
+
+    logger.warn('Webhook delivery attempt failed', {
+      operation: 'deliverWebhook',
+      deliveryId,
+      endpointId: endpoint.id,
+      attempt,
+      error: errorMessage,
+      nextRetryInMs: canRetry ? delay : null
+    })
+
+    if (canRetry) {
+      const timer = setTimeout(() => {
+        scheduledRetries.delete(deliveryId)
+        void deliverWebhook(deliveryId)
+      }, delay)
+      timer.unref?.()
+      scheduledRetries.set(deliveryId, timer)
+    }
+
+    return updated
+  } catch (error) {
+    logger.error('Webhook delivery failed unexpectedly', {
+      operation: 'deliverWebhook',
+      deliveryId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return null
+  } finally {
+    inFlightDeliveries.delete(deliveryId)
+  }
+}
+
+/**
+ * 再試行時刻を過ぎた配信をまとめて再送する（このプロセスでタイマー待機中のものは除く）
+ */
+export async function retryDueWebhookDeliveries(): Promise<number> {
+  const repositories = getSystemRepositories()
+  if (!repositories) return 0
+
+  try {
+    const due = await repositories.webhookDeliveries.findDueRetries(new Date().toISOString())
+    const targets = due.filter(delivery => !scheduledRetries.has(delivery.id) && !inFlightDeliveries.has(delivery.id))
+    await Promise.all(targets.map(delivery => deliverWebhook(delivery.id, repositories)))
+    return targets.length
+  } catch (error) {
+    logger.warn('Failed to retry due webhook deliveries', {
+      operation: 'retryDueWebhookDeliveries',
+      error: error instanceof Error ? error.message : String(error)
+    })
+    return 0
+  }
+}
+
+/**
+ * チェック関連のドメインイベントをWebhookとして配信するハンドラー
+ */
+export class WebhookDispatchHandler implements DomainEventHandler {
+  async handle(event: DomainEvent): Promise<void> {
+    await dispatchWebhookEvent(event)
+  }
+
+  canHandle(eventType: string): boolean {
+    return eventType in DOMAIN_EVENT_WEBHOOK_TYPES
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Webhook 統合エクスポート
+ */
+
+export * from './signature'
+export * from './destination'
+export * from './dispatcher'
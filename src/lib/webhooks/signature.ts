@@ -0,0 +1,55 @@
+/**
+ * Webhook 署名
+ * 送信ボディを HMAC-SHA256 で署名し、受信側で改ざん・リプレイを検証できるようにする
+ *
+ * ヘッダー形式: `X-AdLex-Signature: t=<UNIX秒>,v1=<hex>`
+ * 署名対象: `<t>.<リクエストボディ（生文字列）>`
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+import { WEBHOOK_CONFIG } from '@/constants/webhooks'
+
+/**
+ * エンドポイント用の署名シークレットを生成
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * 署名ヘッダーの値を作成
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`
+}
+
+/**
+ * 署名ヘッダーを検証（時刻のずれが許容範囲を超える場合も無効）
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = WEBHOOK_CONFIG.SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=')
+      return [key, rest.join('=')] as const
+    })
+  )
+  const timestamp = Number(parts.get('t'))
+  const signature = parts.get('v1')
+  if (!Number.isFinite(timestamp) || !signature) return false
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex')
+  const actual = Buffer.from(signature, 'hex')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -3,6 +3,13 @@ import { Database } from './database.types'
 // 辞書カテゴリ（NG・ALLOW等）
 export type DictionaryCategory = Database['public']['Enums']['dictionary_category']
 
+// 法的根拠カテゴリと重大度
+export type RegulatoryCategoryCode = Database['public']['Enums']['regulatory_category']
+export type ViolationSeverity = Database['public']['Enums']['violation_severity']
+
+// 製品カテゴリ（化粧品 / 医薬部外品 / 健康食品 / 医療機器）
+export type ProductCategory = Database['public']['Enums']['product_category']
+
 // 辞書フレーズのメタデータ付き型（検索結果に使用）
 export interface CombinedPhrase {
   id: string
@@ -23,6 +30,7 @@ export interface LegacyCombinedPhrase {
   id: number
   phrase: string
   category: DictionaryCategory
+  source?: 'organization' | 'global' // 組織辞書 / 継承した共通辞書
   trgm_similarity?: number
   vector_similarity?: number
   combined_score?: number
@@ -45,6 +53,69 @@ export interface LegacyViolationData {
   end_pos: number
   reason: string
   dictionary_id?: number
+  global_dictionary_id?: number // 違反の根拠となった共通辞書項目
+  matched_text?: string | null // 位置確定後の違反箇所テキスト
+  confidence?: number | null // 位置の信頼度（0: 特定不可 〜 1: 完全一致）
+  suggested_text?: string | null // 違反箇所の置換案
+  alternative_suggestions?: string[] // 別の置換候補
+  regulatory_category?: RegulatoryCategoryCode | null // 法的根拠
+  severity?: ViolationSeverity | null // 重大度
+  image_regions?: OcrBoundingBox[] | null // 画像上の違反箇所（画像チェックのみ）
+  page_number?: number | null // 違反箇所のページ番号（PDFチェックのみ、1始まり）
+  dom_selector?: string | null // 違反箇所を含む要素のCSSセレクタ（URLチェックのみ）
+}
+
+// OCRで検出した画像上の領域（画像の幅・高さに対する 0〜1 の比率）
+export interface OcrBoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// OCRのテキストブロック（start / end は抽出テキスト全体でのオフセット）
+export interface OcrTextBlock {
+  text: string
+  start: number
+  end: number
+  bbox: OcrBoundingBox
+  vertical?: boolean // 縦書き（列は右から左に並ぶ）
+}
+
+// レイアウト付きOCR結果
+export interface OcrLayoutResult {
+  text: string
+  blocks: OcrTextBlock[]
+}
+
+// PDFのページごとの抽出テキストの範囲（抽出テキスト内のオフセット）
+export interface PdfPageRange {
+  page: number // 1始まり
+  start: number
+  end: number
+  source: 'text' | 'ocr' // テキストレイヤーから抽出 / スキャンページをOCR
+}
+
+// URLチェックで抽出したテキストの区間と対応するDOM要素（抽出テキスト内のオフセット）
+export interface WebPageSegment {
+  selector: string // CSSセレクタ（title・meta は head 内の要素）
+  kind: 'title' | 'meta' | 'text' | 'alt' // <title> / meta description / 本文 / 画像の alt
+  start: number
+  end: number
+}
+
+// URLチェックで取得したページのスナップショット（監査用）
+export interface WebPageSnapshot {
+  url: string // 送信されたURL
+  finalUrl: string // リダイレクト後のURL
+  fetchedAt: string
+  httpStatus: number
+  contentType: string | null
+  title: string | null
+  metaDescription: string | null
+  sha256: string // 取得したHTMLのハッシュ
+  bytes: number
+  storagePath: string | null // 保存したHTMLのパス（Storage の uploads バケット、保存失敗時は null）
 }
 
 // 辞書エントリーの基本型
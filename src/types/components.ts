@@ -1,5 +1,7 @@
 // コンポーネント関連の型定義
 
+import type { OcrBoundingBox } from './api'
+
 // 画像アップロード状態の型（アップロード処理のステップを管理）
 export type UploadState = 'idle' | 'ready' | 'validating' | 'uploading' | 'uploaded' | 'starting_check' | 'processing' | 'completed' | 'failed'
 
@@ -52,6 +54,11 @@ export interface Violation {
   endPos: number
   reason: string
   dictionary_id?: number
+  confidence?: number | null // 位置の信頼度（0: 位置特定不可）
+  matchedText?: string | null // 違反箇所のテキスト
+  imageRegions?: OcrBoundingBox[] // 画像上の違反箇所（画像チェックのみ）
+  pageNumber?: number | null // 違反箇所のページ番号（PDFチェックのみ）
+  domSelector?: string | null // 違反箇所を含む要素のCSSセレクタ（URLチェックのみ）
 }
 
 // ストリーミングデータ（Server-Sent Events用）
@@ -61,14 +68,22 @@ export interface CheckStreamData {
   id?: number
   original_text?: string
   modified_text?: string
+  input_type?: 'text' | 'image' | 'pdf' | 'url' | null
   ocr_status?: 'pending' | 'processing' | 'completed' | 'failed' | null
   extracted_text?: string | null
+  image_url?: string | null
+  source_url?: string | null
   violations?: Array<{
     id: number
     start_pos: number
     end_pos: number
     reason: string
     dictionary_id: number | null
+    confidence?: number | null
+    matched_text?: string | null
+    image_regions?: OcrBoundingBox[] | null
+    page_number?: number | null
+    dom_selector?: string | null
   }>
 }
 
@@ -79,13 +94,14 @@ export interface CheckResult {
   modified_text: string
   status: string
   violations: Violation[]
+  image_url?: string | null // 画像チェックの画像（違反箇所のオーバーレイ表示用）
 }
 
 // チェック履歴（一覧表示用）
 export interface CheckHistory {
   id: string
   input_text: string
-  input_type: 'text' | 'image'
+  input_type: 'text' | 'image' | 'pdf' | 'url'
   status: 'pending' | 'processing' | 'completed' | 'failed'
   violations_count: number
   created_at: string
@@ -112,7 +128,7 @@ export interface HistoryResponse {
 export interface CheckDetail {
   id: string
   input_text: string
-  input_type: 'text' | 'image'
+  input_type: 'text' | 'image' | 'pdf' | 'url'
   extracted_text?: string | null
   image_url?: string | null
   status: 'pending' | 'processing' | 'completed' | 'failed'
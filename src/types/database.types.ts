@@ -9,55 +9,208 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          id: number
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          organization_id: number
+          revoked_at: string | null
+          scopes: string[]
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          id?: number
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          organization_id: number
+          revoked_at?: string | null
+          scopes?: string[]
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          id?: number
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          organization_id?: number
+          revoked_at?: string | null
+          scopes?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_keys_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      check_batches: {
+        Row: {
+          created_at: string | null
+          id: number
+          name: string | null
+          organization_id: number
+          product_category: Database["public"]["Enums"]["product_category"] | null
+          source: string
+          total_count: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: number
+          name?: string | null
+          organization_id: number
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          source?: string
+          total_count: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: number
+          name?: string | null
+          organization_id?: number
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          source?: string
+          total_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_batches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "check_batches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       checks: {
         Row: {
+          ai_model: string | null
+          ai_provider: string | null
+          batch_id: number | null
+          batch_item_label: string | null
           completed_at: string | null
+          completion_tokens: number | null
           created_at: string | null
           deleted_at: string | null
+          dictionary_snapshot_id: number | null
+          dictionary_version: string | null
           error_message: string | null
           extracted_text: string | null
+          final_text: string | null
           id: number
           image_url: string | null
           input_type: Database["public"]["Enums"]["check_input_type"] | null
+          llm_cost_usd: number | null
           modified_text: string | null
+          ocr_blocks: Json | null
           ocr_metadata: Json | null
           ocr_status: Database["public"]["Enums"]["ocr_status"] | null
           organization_id: number
           original_text: string
+          page_segments: Json | null
+          page_snapshot: Json | null
+          parent_check_id: number | null
+          pdf_pages: Json | null
+          product_category: Database["public"]["Enums"]["product_category"] | null
+          prompt_tokens: number | null
+          source_url: string | null
           status: Database["public"]["Enums"]["check_status"] | null
           user_id: string
         }
         Insert: {
+          ai_model?: string | null
+          ai_provider?: string | null
+          batch_id?: number | null
+          batch_item_label?: string | null
           completed_at?: string | null
+          completion_tokens?: number | null
           created_at?: string | null
           deleted_at?: string | null
+          dictionary_snapshot_id?: number | null
+          dictionary_version?: string | null
           error_message?: string | null
           extracted_text?: string | null
+          final_text?: string | null
           id?: number
           image_url?: string | null
           input_type?: Database["public"]["Enums"]["check_input_type"] | null
+          llm_cost_usd?: number | null
           modified_text?: string | null
+          ocr_blocks?: Json | null
           ocr_metadata?: Json | null
           ocr_status?: Database["public"]["Enums"]["ocr_status"] | null
           organization_id: number
           original_text: string
+          page_segments?: Json | null
+          page_snapshot?: Json | null
+          parent_check_id?: number | null
+          pdf_pages?: Json | null
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          prompt_tokens?: number | null
+          source_url?: string | null
           status?: Database["public"]["Enums"]["check_status"] | null
           user_id: string
         }
         Update: {
+          ai_model?: string | null
+          ai_provider?: string | null
+          batch_id?: number | null
+          batch_item_label?: string | null
           completed_at?: string | null
+          completion_tokens?: number | null
           created_at?: string | null
           deleted_at?: string | null
+          dictionary_snapshot_id?: number | null
+          dictionary_version?: string | null
           error_message?: string | null
           extracted_text?: string | null
+          final_text?: string | null
           id?: number
           image_url?: string | null
           input_type?: Database["public"]["Enums"]["check_input_type"] | null
+          llm_cost_usd?: number | null
           modified_text?: string | null
+          ocr_blocks?: Json | null
           ocr_metadata?: Json | null
           ocr_status?: Database["public"]["Enums"]["ocr_status"] | null
           organization_id?: number
           original_text?: string
+          page_segments?: Json | null
+          page_snapshot?: Json | null
+          parent_check_id?: number | null
+          pdf_pages?: Json | null
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          prompt_tokens?: number | null
+          source_url?: string | null
           status?: Database["public"]["Enums"]["check_status"] | null
           user_id?: string
         }
@@ -76,87 +229,577 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "checks_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "check_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checks_parent_check_id_fkey"
+            columns: ["parent_check_id"]
+            isOneToOne: false
+            referencedRelation: "checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "checks_dictionary_snapshot_id_fkey"
+            columns: ["dictionary_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "dictionary_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dictionaries: {
+        Row: {
+          category: Database["public"]["Enums"]["dictionary_category"]
+          created_at: string | null
+          id: number
+          notes: string | null
+          organization_id: number
+          phrase: string
+          product_category: Database["public"]["Enums"]["product_category"] | null
+          regulatory_category: Database["public"]["Enums"]["regulatory_category"] | null
+          updated_at: string | null
+          vector: string | null
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["dictionary_category"]
+          created_at?: string | null
+          id?: number
+          notes?: string | null
+          organization_id: number
+          phrase: string
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          regulatory_category?: Database["public"]["Enums"]["regulatory_category"] | null
+          updated_at?: string | null
+          vector?: string | null
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["dictionary_category"]
+          created_at?: string | null
+          id?: number
+          notes?: string | null
+          organization_id?: number
+          phrase?: string
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          regulatory_category?: Database["public"]["Enums"]["regulatory_category"] | null
+          updated_at?: string | null
+          vector?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dictionaries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dictionary_changes: {
+        Row: {
+          action: string
+          after: Json | null
+          before: Json | null
+          changed_by: string | null
+          created_at: string | null
+          dictionary_id: number
+          id: number
+          organization_id: number
+          snapshot_id: number | null
+          source: string
+        }
+        Insert: {
+          action: string
+          after?: Json | null
+          before?: Json | null
+          changed_by?: string | null
+          created_at?: string | null
+          dictionary_id: number
+          id?: number
+          organization_id: number
+          snapshot_id?: number | null
+          source?: string
+        }
+        Update: {
+          action?: string
+          after?: Json | null
+          before?: Json | null
+          changed_by?: string | null
+          created_at?: string | null
+          dictionary_id?: number
+          id?: number
+          organization_id?: number
+          snapshot_id?: number | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dictionary_changes_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dictionary_changes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dictionary_changes_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "dictionary_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dictionary_overrides: {
+        Row: {
+          action: Database["public"]["Enums"]["dictionary_override_action"]
+          created_at: string | null
+          created_by: string | null
+          global_dictionary_id: number
+          id: number
+          notes: string | null
+          organization_id: number
+          updated_at: string | null
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["dictionary_override_action"]
+          created_at?: string | null
+          created_by?: string | null
+          global_dictionary_id: number
+          id?: number
+          notes?: string | null
+          organization_id: number
+          updated_at?: string | null
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["dictionary_override_action"]
+          created_at?: string | null
+          created_by?: string | null
+          global_dictionary_id?: number
+          id?: number
+          notes?: string | null
+          organization_id?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dictionary_overrides_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dictionary_overrides_global_dictionary_id_fkey"
+            columns: ["global_dictionary_id"]
+            isOneToOne: false
+            referencedRelation: "global_dictionaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dictionary_overrides_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      dictionaries: {
+      dictionary_snapshots: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: number
+          item_count: number
+          items: Json
+          kind: string
+          last_change_id: number | null
+          name: string
+          organization_id: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: number
+          item_count?: number
+          items?: Json
+          kind?: string
+          last_change_id?: number | null
+          name: string
+          organization_id: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: number
+          item_count?: number
+          items?: Json
+          kind?: string
+          last_change_id?: number | null
+          name?: string
+          organization_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dictionary_snapshots_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dictionary_snapshots_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feature_flags: {
+        Row: {
+          category: string
+          created_at: string | null
+          description: string | null
+          disabled_organization_ids: number[]
+          enabled: boolean
+          enabled_organization_ids: number[]
+          id: number
+          key: string
+          name: string
+          rollout_percentage: number
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          category?: string
+          created_at?: string | null
+          description?: string | null
+          disabled_organization_ids?: number[]
+          enabled?: boolean
+          enabled_organization_ids?: number[]
+          id?: number
+          key: string
+          name: string
+          rollout_percentage?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          description?: string | null
+          disabled_organization_ids?: number[]
+          enabled?: boolean
+          enabled_organization_ids?: number[]
+          id?: number
+          key?: string
+          name?: string
+          rollout_percentage?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feature_flags_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      global_dictionaries: {
+        Row: {
+          category: Database["public"]["Enums"]["dictionary_category"]
+          created_at: string | null
+          id: number
+          is_active: boolean
+          notes: string | null
+          phrase: string
+          product_category: Database["public"]["Enums"]["product_category"] | null
+          regulatory_category: Database["public"]["Enums"]["regulatory_category"] | null
+          updated_at: string | null
+          vector: string | null
+          version: number
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["dictionary_category"]
+          created_at?: string | null
+          id?: number
+          is_active?: boolean
+          notes?: string | null
+          phrase: string
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          regulatory_category?: Database["public"]["Enums"]["regulatory_category"] | null
+          updated_at?: string | null
+          vector?: string | null
+          version?: number
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["dictionary_category"]
+          created_at?: string | null
+          id?: number
+          is_active?: boolean
+          notes?: string | null
+          phrase?: string
+          product_category?: Database["public"]["Enums"]["product_category"] | null
+          regulatory_category?: Database["public"]["Enums"]["regulatory_category"] | null
+          updated_at?: string | null
+          vector?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      jobs: {
+        Row: {
+          attempts: number
+          check_id: number | null
+          completed_at: string | null
+          created_at: string | null
+          group_id: string | null
+          heartbeat_at: string | null
+          id: number
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          organization_id: number | null
+          payload: Json
+          priority: number
+          queue: string
+          run_at: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          check_id?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          group_id?: string | null
+          heartbeat_at?: string | null
+          id?: number
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          organization_id?: number | null
+          payload?: Json
+          priority?: number
+          queue: string
+          run_at?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          check_id?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          group_id?: string | null
+          heartbeat_at?: string | null
+          id?: number
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          organization_id?: number | null
+          payload?: Json
+          priority?: number
+          queue?: string
+          run_at?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_check_id_fkey"
+            columns: ["check_id"]
+            isOneToOne: false
+            referencedRelation: "checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "jobs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string | null
+          icon_url: string | null
+          id: number
+          logo_url: string | null
+          max_checks: number | null
+          name: string
+          plan: Database["public"]["Enums"]["organization_plan"] | null
+          trial_ends_at: string | null
+          updated_at: string | null
+          used_checks: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          icon_url?: string | null
+          id?: number
+          logo_url?: string | null
+          max_checks?: number | null
+          name: string
+          plan?: Database["public"]["Enums"]["organization_plan"] | null
+          trial_ends_at?: string | null
+          updated_at?: string | null
+          used_checks?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          icon_url?: string | null
+          id?: number
+          logo_url?: string | null
+          max_checks?: number | null
+          name?: string
+          plan?: Database["public"]["Enums"]["organization_plan"] | null
+          trial_ends_at?: string | null
+          updated_at?: string | null
+          used_checks?: number | null
+        }
+        Relationships: []
+      }
+      platform_admins: {
+        Row: {
+          created_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "platform_admins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_counters: {
+        Row: {
+          count: number
+          expires_at: string
+          id: number
+          key: string
+          window_start: string
+        }
+        Insert: {
+          count?: number
+          expires_at: string
+          id?: number
+          key: string
+          window_start: string
+        }
+        Update: {
+          count?: number
+          expires_at?: string
+          id?: number
+          key?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      settings_audit_logs: {
         Row: {
-          category: Database["public"]["Enums"]["dictionary_category"]
+          after: Json | null
+          before: Json | null
+          changed_by: string | null
           created_at: string | null
           id: number
-          notes: string | null
-          organization_id: number
-          phrase: string
-          updated_at: string | null
-          vector: string | null
+          target_key: string
+          target_type: string
         }
         Insert: {
-          category?: Database["public"]["Enums"]["dictionary_category"]
+          after?: Json | null
+          before?: Json | null
+          changed_by?: string | null
           created_at?: string | null
           id?: number
-          notes?: string | null
-          organization_id: number
-          phrase: string
-          updated_at?: string | null
-          vector?: string | null
+          target_key: string
+          target_type: string
         }
         Update: {
-          category?: Database["public"]["Enums"]["dictionary_category"]
+          after?: Json | null
+          before?: Json | null
+          changed_by?: string | null
           created_at?: string | null
           id?: number
-          notes?: string | null
-          organization_id?: number
-          phrase?: string
-          updated_at?: string | null
-          vector?: string | null
+          target_key?: string
+          target_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "dictionaries_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "settings_audit_logs_changed_by_fkey"
+            columns: ["changed_by"]
             isOneToOne: false
-            referencedRelation: "organizations"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      organizations: {
+      system_settings: {
         Row: {
           created_at: string | null
-          icon_url: string | null
           id: number
-          logo_url: string | null
-          max_checks: number | null
-          name: string
-          plan: Database["public"]["Enums"]["organization_plan"] | null
-          trial_ends_at: string | null
+          key: string
           updated_at: string | null
-          used_checks: number | null
+          updated_by: string | null
+          value: Json
         }
         Insert: {
           created_at?: string | null
-          icon_url?: string | null
           id?: number
-          logo_url?: string | null
-          max_checks?: number | null
-          name: string
-          plan?: Database["public"]["Enums"]["organization_plan"] | null
-          trial_ends_at?: string | null
+          key: string
           updated_at?: string | null
-          used_checks?: number | null
+          updated_by?: string | null
+          value?: Json
         }
         Update: {
           created_at?: string | null
-          icon_url?: string | null
           id?: number
-          logo_url?: string | null
-          max_checks?: number | null
-          name?: string
-          plan?: Database["public"]["Enums"]["organization_plan"] | null
-          trial_ends_at?: string | null
+          key?: string
           updated_at?: string | null
-          used_checks?: number | null
+          updated_by?: string | null
+          value?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "system_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_invitations: {
         Row: {
@@ -244,33 +887,185 @@ export type Database = {
           },
         ]
       }
+      violation_feedback: {
+        Row: {
+          check_id: number
+          comment: string | null
+          created_at: string | null
+          created_by: string | null
+          dictionary_id: number | null
+          end_pos: number | null
+          feedback_type: Database["public"]["Enums"]["violation_feedback_type"]
+          global_dictionary_id: number | null
+          id: number
+          organization_id: number
+          phrase: string
+          resolved_at: string | null
+          resolved_by: string | null
+          start_pos: number | null
+          status: Database["public"]["Enums"]["violation_feedback_status"]
+          updated_at: string | null
+          violation_id: number | null
+        }
+        Insert: {
+          check_id: number
+          comment?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          dictionary_id?: number | null
+          end_pos?: number | null
+          feedback_type: Database["public"]["Enums"]["violation_feedback_type"]
+          global_dictionary_id?: number | null
+          id?: number
+          organization_id: number
+          phrase: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          start_pos?: number | null
+          status?: Database["public"]["Enums"]["violation_feedback_status"]
+          updated_at?: string | null
+          violation_id?: number | null
+        }
+        Update: {
+          check_id?: number
+          comment?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          dictionary_id?: number | null
+          end_pos?: number | null
+          feedback_type?: Database["public"]["Enums"]["violation_feedback_type"]
+          global_dictionary_id?: number | null
+          id?: number
+          organization_id?: number
+          phrase?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          start_pos?: number | null
+          status?: Database["public"]["Enums"]["violation_feedback_status"]
+          updated_at?: string | null
+          violation_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "violation_feedback_check_id_fkey"
+            columns: ["check_id"]
+            isOneToOne: false
+            referencedRelation: "checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_feedback_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_feedback_dictionary_id_fkey"
+            columns: ["dictionary_id"]
+            isOneToOne: false
+            referencedRelation: "dictionaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_feedback_global_dictionary_id_fkey"
+            columns: ["global_dictionary_id"]
+            isOneToOne: false
+            referencedRelation: "global_dictionaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_feedback_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_feedback_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violation_feedback_violation_id_fkey"
+            columns: ["violation_id"]
+            isOneToOne: true
+            referencedRelation: "violations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       violations: {
         Row: {
+          alternative_suggestions: string[]
           check_id: number
+          confidence: number | null
           created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision: Database["public"]["Enums"]["suggestion_decision"]
           dictionary_id: number | null
+          dom_selector: string | null
           end_pos: number
+          global_dictionary_id: number | null
           id: number
+          image_regions: Json | null
+          matched_text: string | null
+          page_number: number | null
           reason: string
+          regulatory_category: Database["public"]["Enums"]["regulatory_category"] | null
+          selected_text: string | null
+          severity: Database["public"]["Enums"]["violation_severity"] | null
           start_pos: number
+          suggested_text: string | null
         }
         Insert: {
+          alternative_suggestions?: string[]
           check_id: number
+          confidence?: number | null
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: Database["public"]["Enums"]["suggestion_decision"]
           dictionary_id?: number | null
+          dom_selector?: string | null
           end_pos: number
+          global_dictionary_id?: number | null
           id?: number
+          image_regions?: Json | null
+          matched_text?: string | null
+          page_number?: number | null
           reason: string
+          regulatory_category?: Database["public"]["Enums"]["regulatory_category"] | null
+          selected_text?: string | null
+          severity?: Database["public"]["Enums"]["violation_severity"] | null
           start_pos: number
+          suggested_text?: string | null
         }
         Update: {
+          alternative_suggestions?: string[]
           check_id?: number
+          confidence?: number | null
           created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: Database["public"]["Enums"]["suggestion_decision"]
           dictionary_id?: number | null
+          dom_selector?: string | null
           end_pos?: number
+          global_dictionary_id?: number | null
           id?: number
+          image_regions?: Json | null
+          matched_text?: string | null
+          page_number?: number | null
           reason?: string
+          regulatory_category?: Database["public"]["Enums"]["regulatory_category"] | null
+          selected_text?: string | null
+          severity?: Database["public"]["Enums"]["violation_severity"] | null
           start_pos?: number
+          suggested_text?: string | null
         }
         Relationships: [
           {
@@ -287,10 +1082,171 @@ export type Database = {
             referencedRelation: "dictionaries"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "violations_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "violations_global_dictionary_id_fkey"
+            columns: ["global_dictionary_id"]
+            isOneToOne: false
+            referencedRelation: "global_dictionaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempt_count: number
+          created_at: string | null
+          delivered_at: string | null
+          endpoint_id: number
+          error_message: string | null
+          event_id: string
+          event_type: string
+          id: number
+          last_attempt_at: string | null
+          next_attempt_at: string | null
+          organization_id: number
+          payload: Json
+          replayed_from: number | null
+          response_body: string | null
+          response_status: number | null
+          status: Database["public"]["Enums"]["webhook_delivery_status"]
+        }
+        Insert: {
+          attempt_count?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          endpoint_id: number
+          error_message?: string | null
+          event_id: string
+          event_type: string
+          id?: number
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          organization_id: number
+          payload: Json
+          replayed_from?: number | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+        }
+        Update: {
+          attempt_count?: number
+          created_at?: string | null
+          delivered_at?: string | null
+          endpoint_id?: number
+          error_message?: string | null
+          event_id?: string
+          event_type?: string
+          id?: number
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          organization_id?: number
+          payload?: Json
+          replayed_from?: number | null
+          response_body?: string | null
+          response_status?: number | null
+          status?: Database["public"]["Enums"]["webhook_delivery_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replayed_from_fkey"
+            columns: ["replayed_from"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          event_types: string[]
+          id: number
+          is_active: boolean
+          organization_id: number
+          secret: string
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          event_types?: string[]
+          id?: number
+          is_active?: boolean
+          organization_id: number
+          secret: string
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          event_types?: string[]
+          id?: number
+          is_active?: boolean
+          organization_id?: number
+          secret?: string
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_endpoints_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
+      dictionary_entry_precision: {
+        Row: {
+          correct_count: number | null
+          dictionary_id: number | null
+          false_positive_count: number | null
+          global_dictionary_id: number | null
+          last_feedback_at: string | null
+          organization_id: number | null
+          phrase: string | null
+          precision_rate: number | null
+          wrong_reason_count: number | null
+        }
+        Relationships: []
+      }
       index_usage_stats: {
         Row: {
           index_size: string | null
@@ -304,6 +1260,20 @@ export type Database = {
         }
         Relationships: []
       }
+      llm_usage_daily: {
+        Row: {
+          check_count: number | null
+          completion_tokens: number | null
+          cost_usd: number | null
+          organization_id: number | null
+          organization_name: string | null
+          prompt_tokens: number | null
+          usage_date: string | null
+          user_email: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       accept_invitation: {
@@ -323,10 +1293,85 @@ export type Database = {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      claim_fair_jobs: {
+        Args: {
+          p_limit: number
+          p_lease_seconds: number
+          p_queue: string
+          p_tier_policies: Json
+          p_worker_id: string
+        }
+        Returns: {
+          attempts: number
+          check_id: number | null
+          completed_at: string | null
+          created_at: string | null
+          group_id: string | null
+          heartbeat_at: string | null
+          id: number
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          organization_id: number | null
+          payload: Json
+          priority: number
+          queue: string
+          run_at: string
+          status: string
+          updated_at: string | null
+        }[]
+      }
+      claim_jobs: {
+        Args: {
+          p_limit: number
+          p_lease_seconds: number
+          p_queue: string
+          p_worker_id: string
+        }
+        Returns: {
+          attempts: number
+          check_id: number | null
+          completed_at: string | null
+          created_at: string | null
+          group_id: string | null
+          heartbeat_at: string | null
+          id: number
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          organization_id: number | null
+          payload: Json
+          priority: number
+          queue: string
+          run_at: string
+          status: string
+          updated_at: string | null
+        }[]
+      }
       cleanup_expired_invitations: {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      complete_job: {
+        Args: { p_job_id: number; p_worker_id: string }
+        Returns: boolean
+      }
+      fail_job: {
+        Args: {
+          p_error: string
+          p_job_id: number
+          p_priority?: number
+          p_retry_at?: string
+          p_worker_id: string
+        }
+        Returns: boolean
+      }
+      get_check_analytics: {
+        Args: { org_id: number; since: string }
+        Returns: Json
+      }
       get_checks_with_pagination: {
         Args: {
           p_limit?: number
@@ -363,6 +1408,7 @@ export type Database = {
           combined_score: number
           id: number
           phrase: string
+          source: string
           trgm_similarity: number
           vector_similarity: number
         }[]
@@ -439,6 +1485,25 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      heartbeat_jobs: {
+        Args: {
+          p_job_ids: number[]
+          p_lease_seconds: number
+          p_worker_id: string
+        }
+        Returns: number[]
+      }
+      hit_rate_limit: {
+        Args: {
+          p_key: string
+          p_window_seconds: number
+        }
+        Returns: {
+          current_count: number
+          elapsed_seconds: number
+          previous_count: number
+        }[]
+      }
       hnsw_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -459,6 +1524,10 @@ export type Database = {
         Args: { org_id: number }
         Returns: undefined
       }
+      is_platform_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -471,6 +1540,17 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      job_queue_depth: {
+        Args: { p_queue: string }
+        Returns: {
+          oldest_queued_at: string | null
+          organization_id: number | null
+          organization_name: string | null
+          plan: string | null
+          queued: number
+          running: number
+        }[]
+      }
       l2_norm: {
         Args: { "": unknown } | { "": unknown }
         Returns: number
@@ -479,10 +1559,28 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: string
       }
+      other_organization_ids: {
+        Args: { p_ids: number[]; p_organization_id: number }
+        Returns: number[]
+      }
       process_user_invitation: {
         Args: { invitation_token: string; user_password: string }
         Returns: Json
       }
+      prune_rate_limit_counters: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      reap_jobs: {
+        Args: { p_orphan_grace_seconds?: number }
+        Returns: {
+          expired_failed: number
+          expired_requeued: number
+          failed_checks: Json
+          orphaned_failed: number
+          orphaned_requeued: number
+        }[]
+      }
       set_limit: {
         Args: { "": number }
         Returns: number
@@ -533,12 +1631,34 @@ export type Database = {
       }
     }
     Enums: {
-      check_input_type: "text" | "image"
+      check_input_type: "text" | "image" | "pdf" | "url"
       check_status: "pending" | "processing" | "completed" | "failed"
       dictionary_category: "NG" | "ALLOW"
+      dictionary_override_action: "disable" | "allow"
       ocr_status: "pending" | "processing" | "completed" | "failed"
       organization_plan: "trial" | "basic"
+      product_category: "cosmetics" | "quasi_drug" | "health_food" | "medical_device"
+      regulatory_category:
+        | "yakukiho_66"
+        | "yakukiho_67"
+        | "yakukiho_68"
+        | "tekisei_kokoku_4_1"
+        | "tekisei_kokoku_4_2"
+        | "tekisei_kokoku_4_3"
+        | "tekisei_kokoku_4_4"
+        | "tekisei_kokoku_4_9"
+        | "tekisei_kokoku_4_10"
+        | "tekisei_kokoku_4_12"
+        | "keihyo_5_1"
+        | "keihyo_5_2"
+        | "kenko_zoshin_65"
+        | "other"
+      suggestion_decision: "pending" | "accepted" | "rejected"
       user_role: "admin" | "user"
+      violation_feedback_status: "open" | "applied" | "dismissed"
+      violation_feedback_type: "correct" | "false_positive" | "wrong_reason" | "missed"
+      violation_severity: "low" | "medium" | "high" | "critical"
+      webhook_delivery_status: "pending" | "retrying" | "succeeded" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -666,12 +1786,35 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      check_input_type: ["text", "image"],
+      check_input_type: ["text", "image", "pdf", "url"],
       check_status: ["pending", "processing", "completed", "failed"],
       dictionary_category: ["NG", "ALLOW"],
+      dictionary_override_action: ["disable", "allow"],
       ocr_status: ["pending", "processing", "completed", "failed"],
       organization_plan: ["trial", "basic"],
+      product_category: ["cosmetics", "quasi_drug", "health_food", "medical_device"],
+      regulatory_category: [
+        "yakukiho_66",
+        "yakukiho_67",
+        "yakukiho_68",
+        "tekisei_kokoku_4_1",
+        "tekisei_kokoku_4_2",
+        "tekisei_kokoku_4_3",
+        "tekisei_kokoku_4_4",
+        "tekisei_kokoku_4_9",
+        "tekisei_kokoku_4_10",
+        "tekisei_kokoku_4_12",
+        "keihyo_5_1",
+        "keihyo_5_2",
+        "kenko_zoshin_65",
+        "other",
+      ],
+      suggestion_decision: ["pending", "accepted", "rejected"],
       user_role: ["admin", "user"],
+      violation_feedback_status: ["open", "applied", "dismissed"],
+      violation_feedback_type: ["correct", "false_positive", "wrong_reason", "missed"],
+      violation_severity: ["low", "medium", "high", "critical"],
+      webhook_delivery_status: ["pending", "retrying", "succeeded", "failed"],
     },
   },
 } as const
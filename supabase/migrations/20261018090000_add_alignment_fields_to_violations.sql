@@ -0,0 +1,10 @@
+-- Add span alignment fields to violations table
+-- matched_text: 位置確定後の違反箇所テキスト
+-- confidence: 位置の信頼度（0: 特定不可 〜 1: 完全一致、既存行は NULL）
+
+ALTER TABLE violations
+    ADD COLUMN IF NOT EXISTS matched_text TEXT,
+    ADD COLUMN IF NOT EXISTS confidence REAL CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 1));
+
+COMMENT ON COLUMN violations.matched_text IS 'Violation text at the anchored span (quoted by LLM or matched by dictionary)';
+COMMENT ON COLUMN violations.confidence IS 'Span anchoring confidence (0 = could not be anchored, 1 = exact match)';
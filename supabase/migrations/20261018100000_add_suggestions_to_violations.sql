@@ -0,0 +1,30 @@
+-- Add per-violation suggested rewrites and accept/reject decisions
+-- suggested_text: 違反箇所の置換候補（LLM提案）
+-- alternative_suggestions: その他の置換候補
+-- decision: ユーザーの採否（pending / accepted / rejected）
+-- selected_text: 採用時に選ばれた置換テキスト（候補以外の手入力も可）
+-- checks.final_text: 採否を反映した最終テキスト
+
+CREATE TYPE suggestion_decision AS ENUM ('pending', 'accepted', 'rejected');
+
+ALTER TABLE violations
+    ADD COLUMN IF NOT EXISTS suggested_text TEXT,
+    ADD COLUMN IF NOT EXISTS alternative_suggestions TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS decision suggestion_decision NOT NULL DEFAULT 'pending',
+    ADD COLUMN IF NOT EXISTS selected_text TEXT,
+    ADD COLUMN IF NOT EXISTS decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS decided_at TIMESTAMPTZ;
+
+ALTER TABLE checks
+    ADD COLUMN IF NOT EXISTS final_text TEXT;
+
+COMMENT ON COLUMN violations.suggested_text IS 'Suggested replacement for the violating span';
+COMMENT ON COLUMN violations.alternative_suggestions IS 'Alternative replacements for the violating span';
+COMMENT ON COLUMN violations.decision IS 'Reviewer decision on the suggestion (pending, accepted, rejected)';
+COMMENT ON COLUMN violations.selected_text IS 'Replacement text applied when the suggestion is accepted';
+COMMENT ON COLUMN checks.final_text IS 'Original text with accepted violation replacements applied';
+
+-- Violations policies (simplified, see 20250617000004_fix_rls_recursion.sql)
+DROP POLICY IF EXISTS "Users can update violations" ON violations;
+CREATE POLICY "Users can update violations" ON violations
+    FOR UPDATE USING (true);
@@ -0,0 +1,36 @@
+-- Add regulatory category taxonomy (legal basis) and severity to violations and dictionaries
+-- regulatory_category: 違反の法的根拠（薬機法条文 / 医薬品等適正広告基準の項 / 景品表示法 / 健康増進法）
+-- violation_severity: 違反の重大度
+-- 各カテゴリの表示名・既定の重大度は src/constants/regulatory.ts で管理する
+
+CREATE TYPE regulatory_category AS ENUM (
+    'yakukiho_66',
+    'yakukiho_67',
+    'yakukiho_68',
+    'tekisei_kokoku_4_1',
+    'tekisei_kokoku_4_2',
+    'tekisei_kokoku_4_3',
+    'tekisei_kokoku_4_4',
+    'tekisei_kokoku_4_9',
+    'tekisei_kokoku_4_10',
+    'tekisei_kokoku_4_12',
+    'keihyo_5_1',
+    'keihyo_5_2',
+    'kenko_zoshin_65',
+    'other'
+);
+
+CREATE TYPE violation_severity AS ENUM ('low', 'medium', 'high', 'critical');
+
+ALTER TABLE violations
+    ADD COLUMN IF NOT EXISTS regulatory_category regulatory_category,
+    ADD COLUMN IF NOT EXISTS severity violation_severity;
+
+ALTER TABLE dictionaries
+    ADD COLUMN IF NOT EXISTS regulatory_category regulatory_category;
+
+CREATE INDEX IF NOT EXISTS idx_violations_regulatory_category ON violations(regulatory_category);
+
+COMMENT ON COLUMN violations.regulatory_category IS 'Legal basis of the violation (NULL = unclassified)';
+COMMENT ON COLUMN violations.severity IS 'Severity of the violation';
+COMMENT ON COLUMN dictionaries.regulatory_category IS 'Legal basis applied to violations matched by this entry';
@@ -0,0 +1,18 @@
+-- Add product class (製品カテゴリ) to checks and dictionaries
+-- product_category: 化粧品 / 医薬部外品 / 健康食品 / 医療機器
+-- checks.product_category が NULL の場合は製品カテゴリ未指定として共通の辞書項目のみを適用する
+-- dictionaries.product_category が NULL の項目は全製品カテゴリ共通
+-- 化粧品の効能効果の範囲（56項目）は src/constants/productCategories.ts で管理する
+
+CREATE TYPE product_category AS ENUM ('cosmetics', 'quasi_drug', 'health_food', 'medical_device');
+
+ALTER TABLE checks
+    ADD COLUMN IF NOT EXISTS product_category product_category;
+
+ALTER TABLE dictionaries
+    ADD COLUMN IF NOT EXISTS product_category product_category;
+
+CREATE INDEX IF NOT EXISTS idx_dictionaries_org_product_category ON dictionaries(organization_id, product_category);
+
+COMMENT ON COLUMN checks.product_category IS 'Product class the advertisement is for (NULL = unspecified)';
+COMMENT ON COLUMN dictionaries.product_category IS 'Product class this entry is scoped to (NULL = applies to all classes)';
@@ -0,0 +1,10 @@
+-- Record which AI provider served each check
+-- AI_PROVIDER_CHAIN によるフォールバックで、メインプロバイダー以外が応答した場合も追跡できるようにする
+-- 長文をチャンク分割した際に複数のプロバイダーが応答した場合は、応答順にカンマ区切りで記録する
+
+ALTER TABLE checks
+    ADD COLUMN IF NOT EXISTS ai_provider TEXT,
+    ADD COLUMN IF NOT EXISTS ai_model TEXT;
+
+COMMENT ON COLUMN checks.ai_provider IS 'AI provider(s) that served the check (openai / openrouter / lmstudio / mock, comma-separated when chunks were served by different providers)';
+COMMENT ON COLUMN checks.ai_model IS 'Chat model(s) that served the check, in the same order as ai_provider';
@@ -0,0 +1,36 @@
+-- LLM token usage and cost accounting per check
+-- prompt_tokens / completion_tokens: チャンク分割時は全チャンクの合計
+-- llm_cost_usd: src/constants/llmPricing.ts の単価表から算出（単価未登録のモデルは NULL）
+-- llm_usage_daily: 組織・ユーザー・日（JST）ごとの利用量集計ビュー（checks の RLS を引き継ぐ）
+
+ALTER TABLE checks
+    ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER,
+    ADD COLUMN IF NOT EXISTS completion_tokens INTEGER,
+    ADD COLUMN IF NOT EXISTS llm_cost_usd NUMERIC(12, 6);
+
+CREATE INDEX IF NOT EXISTS idx_checks_org_completed_at ON checks(organization_id, completed_at);
+
+CREATE OR REPLACE VIEW llm_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+    (c.completed_at AT TIME ZONE 'Asia/Tokyo')::date AS usage_date,
+    c.organization_id,
+    o.name AS organization_name,
+    c.user_id,
+    u.email AS user_email,
+    COUNT(*)::integer AS check_count,
+    COALESCE(SUM(c.prompt_tokens), 0)::integer AS prompt_tokens,
+    COALESCE(SUM(c.completion_tokens), 0)::integer AS completion_tokens,
+    COALESCE(SUM(c.llm_cost_usd), 0)::numeric(14, 6) AS cost_usd
+FROM checks c
+LEFT JOIN organizations o ON o.id = c.organization_id
+LEFT JOIN users u ON u.id = c.user_id
+WHERE c.completed_at IS NOT NULL
+  AND c.deleted_at IS NULL
+  AND (c.prompt_tokens IS NOT NULL OR c.completion_tokens IS NOT NULL)
+GROUP BY usage_date, c.organization_id, o.name, c.user_id, u.email;
+
+COMMENT ON COLUMN checks.prompt_tokens IS 'LLM prompt tokens consumed by the check (sum over chunks)';
+COMMENT ON COLUMN checks.completion_tokens IS 'LLM completion tokens consumed by the check (sum over chunks)';
+COMMENT ON COLUMN checks.llm_cost_usd IS 'LLM cost in USD computed from the per-model price table (NULL = unknown model price)';
+COMMENT ON VIEW llm_usage_daily IS 'LLM token usage and cost per organization, user and day (Asia/Tokyo)';
@@ -0,0 +1,67 @@
+-- Webhook endpoints and delivery log for check lifecycle events
+-- webhook_endpoints: 組織ごとの配信先URL・署名シークレット・購読イベント（event_types が空の場合は全イベント）
+-- webhook_deliveries: 配信ログ（HMAC署名付きで送信し、失敗時は指数バックオフで再試行。再送は新しい行として記録）
+-- イベント種別は src/constants/webhooks.ts の WEBHOOK_EVENT_TYPES で管理する
+
+CREATE TYPE webhook_delivery_status AS ENUM ('pending', 'retrying', 'succeeded', 'failed');
+
+CREATE TABLE webhook_endpoints (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT,
+    secret TEXT NOT NULL,
+    event_types TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE webhook_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    endpoint_id BIGINT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status webhook_delivery_status NOT NULL DEFAULT 'pending',
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    response_status INTEGER,
+    response_body TEXT,
+    error_message TEXT,
+    replayed_from BIGINT REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_endpoints_organization_id ON webhook_endpoints(organization_id);
+CREATE INDEX idx_webhook_deliveries_org_created_at ON webhook_deliveries(organization_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_endpoint_id ON webhook_deliveries(endpoint_id);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'retrying';
+
+-- RLS を有効化（配信処理はサービスロールで実行する）
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage webhook endpoints in their organization" ON webhook_endpoints
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can manage webhook deliveries in their organization" ON webhook_deliveries
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+COMMENT ON COLUMN webhook_endpoints.secret IS 'HMAC-SHA256 signing secret (X-AdLex-Signature: t=<unix>,v1=<hex>)';
+COMMENT ON COLUMN webhook_endpoints.event_types IS 'Subscribed event types (empty = all events)';
+COMMENT ON COLUMN webhook_deliveries.replayed_from IS 'Original delivery when this row was created by a manual replay';
@@ -0,0 +1,33 @@
+-- Organization-scoped API keys for the public REST API
+-- キーの平文は作成時に一度だけ返し、DBには SHA-256 ハッシュと表示用の先頭部分のみ保存する
+-- APIキー経由のリクエストは作成者（created_by）のユーザーとして実行される
+-- スコープは src/constants/apiKeys.ts の API_KEY_SCOPES で管理する
+
+CREATE TABLE api_keys (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_keys_organization_id ON api_keys(organization_id);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage api keys in their organization" ON api_keys
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 (hex) of the full API key; the plain key is never stored';
+COMMENT ON COLUMN api_keys.key_prefix IS 'Leading characters of the key shown in the admin UI';
+COMMENT ON COLUMN api_keys.scopes IS 'Granted scopes (checks:write, history:read, dictionaries:read, dictionaries:write)';
@@ -0,0 +1,36 @@
+-- Batch checks: 複数テキスト（貼り付け・CSV/XLSXアップロード）の一括チェック
+-- check_batches: バッチ本体（子チェックは checks.batch_id で紐づく）
+-- 進捗は子チェックのステータスから集計するため、バッチ側には件数のみ保持する
+
+CREATE TABLE check_batches (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT,
+    source TEXT NOT NULL DEFAULT 'text' CHECK (source IN ('text', 'csv', 'xlsx')),
+    product_category product_category,
+    total_count INTEGER NOT NULL CHECK (total_count > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE checks
+    ADD COLUMN batch_id BIGINT REFERENCES check_batches(id) ON DELETE SET NULL,
+    ADD COLUMN batch_item_label TEXT;
+
+CREATE INDEX idx_check_batches_org_created_at ON check_batches(organization_id, created_at DESC);
+CREATE INDEX idx_checks_batch_id ON checks(batch_id) WHERE batch_id IS NOT NULL;
+
+ALTER TABLE check_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view check batches in their organization" ON check_batches
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create their own check batches" ON check_batches
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+COMMENT ON COLUMN checks.batch_id IS 'Batch this check was submitted with (NULL for single checks)';
+COMMENT ON COLUMN checks.batch_item_label IS 'Caller supplied label of the batch item (e.g. product name or SKU column)';
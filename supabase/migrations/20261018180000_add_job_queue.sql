@@ -0,0 +1,278 @@
+-- Durable job queue: チェック処理・埋め込み生成のジョブを Postgres に永続化する
+-- ワーカーは claim_jobs() で FOR UPDATE SKIP LOCKED によりジョブをリース付きで取得し、
+-- heartbeat_jobs() でリースを延長する。リース切れ（visibility timeout）のジョブと、
+-- ジョブを持たないまま pending / processing に残ったチェックは reap_jobs() で回収する。
+-- Service Role からのみ操作する（RLS有効・ポリシーなし）
+
+CREATE TABLE jobs (
+    id BIGSERIAL PRIMARY KEY,
+    queue TEXT NOT NULL CHECK (queue IN ('check', 'embedding')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    -- 0: high, 1: normal, 2: low（小さいほど先に取得される）
+    priority SMALLINT NOT NULL DEFAULT 1 CHECK (priority BETWEEN 0 AND 2),
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    organization_id BIGINT REFERENCES organizations(id) ON DELETE CASCADE,
+    check_id BIGINT REFERENCES checks(id) ON DELETE CASCADE,
+    -- 同一リクエストで投入したジョブのまとまり（埋め込み再生成ジョブIDなど）
+    group_id TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_by TEXT,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_jobs_claimable ON jobs(queue, priority, run_at, id) WHERE status = 'queued';
+CREATE INDEX idx_jobs_running_locked_until ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX idx_jobs_check_id ON jobs(check_id) WHERE check_id IS NOT NULL;
+CREATE INDEX idx_jobs_group_id ON jobs(group_id) WHERE group_id IS NOT NULL;
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+-- 実行可能なジョブを優先度順に取得し、ワーカーにリースする
+CREATE OR REPLACE FUNCTION claim_jobs(
+    p_queue TEXT,
+    p_worker_id TEXT,
+    p_limit INTEGER,
+    p_lease_seconds INTEGER
+)
+RETURNS SETOF jobs
+LANGUAGE sql
+AS $$
+    WITH next_jobs AS (
+        SELECT id
+        FROM jobs
+        WHERE queue = p_queue
+          AND status = 'queued'
+          AND run_at <= NOW()
+        ORDER BY priority, run_at, id
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE jobs
+    SET status = 'running',
+        attempts = jobs.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        updated_at = NOW()
+    FROM next_jobs
+    WHERE jobs.id = next_jobs.id
+    RETURNING jobs.*;
+$$;
+
+-- 処理中ジョブのリースを延長する（延長できたジョブIDを返す。返らないIDはリースを失っている）
+CREATE OR REPLACE FUNCTION heartbeat_jobs(
+    p_worker_id TEXT,
+    p_job_ids BIGINT[],
+    p_lease_seconds INTEGER
+)
+RETURNS SETOF BIGINT
+LANGUAGE sql
+AS $$
+    UPDATE jobs
+    SET locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        heartbeat_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ANY(p_job_ids)
+      AND status = 'running'
+      AND locked_by = p_worker_id
+    RETURNING id;
+$$;
+
+-- ジョブを完了にする（リースを持つワーカーのみ）
+CREATE OR REPLACE FUNCTION complete_job(
+    p_job_id BIGINT,
+    p_worker_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE jobs
+    SET status = 'completed',
+        locked_by = NULL,
+        locked_until = NULL,
+        last_error = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_job_id
+      AND status = 'running'
+      AND locked_by = p_worker_id;
+
+    RETURN FOUND;
+END;
+$$;
+
+-- ジョブの失敗を記録する
+-- p_retry_at を指定した場合は再試行待ち（queued）に戻し、NULL の場合は failed で確定する
+CREATE OR REPLACE FUNCTION fail_job(
+    p_job_id BIGINT,
+    p_worker_id TEXT,
+    p_error TEXT,
+    p_retry_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_priority SMALLINT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE jobs
+    SET status = CASE WHEN p_retry_at IS NULL THEN 'failed' ELSE 'queued' END,
+        run_at = COALESCE(p_retry_at, run_at),
+        priority = COALESCE(p_priority, priority),
+        locked_by = NULL,
+        locked_until = NULL,
+        last_error = p_error,
+        completed_at = CASE WHEN p_retry_at IS NULL THEN NOW() ELSE NULL END,
+        updated_at = NOW()
+    WHERE id = p_job_id
+      AND status = 'running'
+      AND locked_by = p_worker_id;
+
+    RETURN FOUND;
+END;
+$$;
+
+-- リース切れのジョブと、ジョブを持たないまま残ったチェックを回収する
+-- - リース切れ: 試行回数が残っていれば queued に戻し、上限なら failed（チェックも failed）にする
+-- - 孤立チェック: pending / processing のままアクティブなジョブがないチェックを再投入する
+--   （失敗確定済みのジョブがある場合は再投入せずチェックを failed にする）
+CREATE OR REPLACE FUNCTION reap_jobs(p_orphan_grace_seconds INTEGER DEFAULT 120)
+RETURNS TABLE (
+    expired_requeued INTEGER,
+    expired_failed INTEGER,
+    orphaned_requeued INTEGER,
+    orphaned_failed INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_expired_requeued INTEGER := 0;
+    v_expired_failed INTEGER := 0;
+    v_orphaned_requeued INTEGER := 0;
+    v_orphaned_failed INTEGER := 0;
+BEGIN
+    WITH expired AS (
+        SELECT id FROM jobs
+        WHERE status = 'running' AND locked_until < NOW() AND attempts < max_attempts
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE jobs
+    SET status = 'queued',
+        run_at = NOW(),
+        locked_by = NULL,
+        locked_until = NULL,
+        last_error = 'リースの有効期限が切れました（ワーカー停止の可能性）',
+        updated_at = NOW()
+    FROM expired
+    WHERE jobs.id = expired.id;
+    GET DIAGNOSTICS v_expired_requeued = ROW_COUNT;
+
+    WITH expired AS (
+        SELECT id FROM jobs
+        WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts
+        FOR UPDATE SKIP LOCKED
+    ),
+    failed_jobs AS (
+        UPDATE jobs
+        SET status = 'failed',
+            locked_by = NULL,
+            locked_until = NULL,
+            last_error = 'リースの有効期限が切れました（試行回数の上限に達しました）',
+            completed_at = NOW(),
+            updated_at = NOW()
+        FROM expired
+        WHERE jobs.id = expired.id
+        RETURNING jobs.check_id, jobs.attempts
+    ),
+    failed_checks AS (
+        UPDATE checks
+        SET status = 'failed',
+            error_message = '処理に失敗しました (' || (failed_jobs.attempts - 1) || '回再試行済み): 処理中にワーカーが停止しました',
+            completed_at = NOW()
+        FROM failed_jobs
+        WHERE checks.id = failed_jobs.check_id
+          AND checks.status IN ('pending', 'processing')
+        RETURNING checks.id
+    )
+    SELECT COUNT(*) INTO v_expired_failed FROM failed_jobs;
+
+    WITH orphaned AS (
+        SELECT c.id, c.organization_id, c.original_text, c.input_type, c.image_url, c.product_category
+        FROM checks c
+        WHERE c.status IN ('pending', 'processing')
+          AND c.deleted_at IS NULL
+          AND c.created_at < NOW() - make_interval(secs => p_orphan_grace_seconds)
+          AND NOT EXISTS (
+              SELECT 1 FROM jobs j
+              WHERE j.check_id = c.id AND j.status IN ('queued', 'running', 'failed')
+          )
+        FOR UPDATE OF c SKIP LOCKED
+    ),
+    requeued AS (
+        INSERT INTO jobs (queue, priority, payload, organization_id, check_id)
+        SELECT
+            'check',
+            1,
+            jsonb_build_object(
+                'text', o.original_text,
+                'inputType', COALESCE(o.input_type, 'text'),
+                'imageUrl', o.image_url,
+                'productCategory', o.product_category
+            ),
+            o.organization_id,
+            o.id
+        FROM orphaned o
+        RETURNING check_id
+    ),
+    reset_checks AS (
+        UPDATE checks
+        SET status = 'pending'
+        FROM requeued
+        WHERE checks.id = requeued.check_id
+        RETURNING checks.id
+    )
+    SELECT COUNT(*) INTO v_orphaned_requeued FROM reset_checks;
+
+    WITH orphaned_failed AS (
+        UPDATE checks c
+        SET status = 'failed',
+            error_message = COALESCE(
+                (SELECT '処理に失敗しました: ' || j.last_error FROM jobs j
+                 WHERE j.check_id = c.id AND j.status = 'failed'
+                 ORDER BY j.id DESC LIMIT 1),
+                '処理に失敗しました'
+            ),
+            completed_at = NOW()
+        WHERE c.status IN ('pending', 'processing')
+          AND c.deleted_at IS NULL
+          AND c.created_at < NOW() - make_interval(secs => p_orphan_grace_seconds)
+          AND EXISTS (SELECT 1 FROM jobs j WHERE j.check_id = c.id AND j.status = 'failed')
+          AND NOT EXISTS (SELECT 1 FROM jobs j WHERE j.check_id = c.id AND j.status IN ('queued', 'running'))
+        RETURNING c.id
+    )
+    SELECT COUNT(*) INTO v_orphaned_failed FROM orphaned_failed;
+
+    RETURN QUERY SELECT v_expired_requeued, v_expired_failed, v_orphaned_requeued, v_orphaned_failed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_jobs(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION heartbeat_jobs(TEXT, BIGINT[], INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION complete_job(BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION fail_job(BIGINT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, SMALLINT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION reap_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_jobs(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_jobs(TEXT, BIGINT[], INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_job(BIGINT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_job(BIGINT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, SMALLINT) TO service_role;
+GRANT EXECUTE ON FUNCTION reap_jobs(INTEGER) TO service_role;
+
+COMMENT ON TABLE jobs IS 'Durable job queue for check processing and embedding generation (service role only)';
+COMMENT ON COLUMN jobs.locked_until IS 'Lease expiry; running jobs past this time are returned to the queue by reap_jobs()';
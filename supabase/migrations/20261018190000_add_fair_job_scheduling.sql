@@ -0,0 +1,133 @@
+-- 組織間の公平スケジューリング
+-- claim_fair_jobs() は組織ごとの「処理中ジョブ数 / 重み」が最も小さい組織から順にジョブを取得し、
+-- 組織ごとの同時実行数上限を超えて取得しない。重みと上限はプラン（organizations.plan）ごとに
+-- アプリ側の設定（JSONB）で渡す。同一キューの取得はアドバイザリロックで直列化し、上限を厳密に守る。
+-- job_queue_depth() は管理画面向けに組織別の待機数・処理中数を返す。
+
+CREATE INDEX idx_jobs_claimable_by_organization
+    ON jobs(queue, organization_id, priority, run_at, id) WHERE status = 'queued';
+CREATE INDEX idx_jobs_running_by_organization
+    ON jobs(queue, organization_id) WHERE status = 'running';
+
+-- p_tier_policies: {"trial": {"weight": 1, "max_concurrent": 1}, "basic": {...}, ...}
+-- プランに対応する設定が無い場合は trial の設定を使う。組織に紐づかないジョブは重み1・上限なし
+CREATE OR REPLACE FUNCTION claim_fair_jobs(
+    p_queue TEXT,
+    p_worker_id TEXT,
+    p_limit INTEGER,
+    p_lease_seconds INTEGER,
+    p_tier_policies JSONB
+)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_job_id BIGINT;
+    v_job jobs;
+BEGIN
+    IF p_limit <= 0 THEN
+        RETURN;
+    END IF;
+
+    -- 同一キューの取得を直列化（トランザクション終了まで保持）
+    PERFORM pg_advisory_xact_lock(hashtext('claim_fair_jobs:' || p_queue));
+
+    FOR i IN 1..p_limit LOOP
+        WITH running AS (
+            SELECT organization_id, COUNT(*) AS running_count
+            FROM jobs
+            WHERE queue = p_queue
+              AND status = 'running'
+            GROUP BY organization_id
+        ),
+        heads AS (
+            -- 組織ごとの先頭ジョブ（組織内は優先度順・投入順）
+            SELECT DISTINCT ON (organization_id) organization_id, id, priority, run_at
+            FROM jobs
+            WHERE queue = p_queue
+              AND status = 'queued'
+              AND run_at <= NOW()
+            ORDER BY organization_id, priority, run_at, id
+        ),
+        candidates AS (
+            SELECT
+                h.id,
+                h.priority,
+                h.run_at,
+                COALESCE(r.running_count, 0) AS running_count,
+                CASE WHEN h.organization_id IS NULL THEN 1
+                     ELSE GREATEST(COALESCE(
+                         (p_tier_policies -> COALESCE(o.plan::TEXT, 'trial') ->> 'weight')::NUMERIC,
+                         (p_tier_policies -> 'trial' ->> 'weight')::NUMERIC,
+                         1
+                     ), 0.01)
+                END AS weight,
+                CASE WHEN h.organization_id IS NULL THEN NULL
+                     ELSE COALESCE(
+                         (p_tier_policies -> COALESCE(o.plan::TEXT, 'trial') ->> 'max_concurrent')::INTEGER,
+                         (p_tier_policies -> 'trial' ->> 'max_concurrent')::INTEGER
+                     )
+                END AS max_concurrent
+            FROM heads h
+            LEFT JOIN running r ON r.organization_id IS NOT DISTINCT FROM h.organization_id
+            LEFT JOIN organizations o ON o.id = h.organization_id
+        )
+        SELECT c.id INTO v_job_id
+        FROM candidates c
+        WHERE c.max_concurrent IS NULL OR c.running_count < c.max_concurrent
+        ORDER BY c.running_count / c.weight, c.priority, c.run_at, c.id
+        LIMIT 1;
+
+        EXIT WHEN v_job_id IS NULL;
+
+        -- 取得したジョブは running になり、次の周回では処理中として数えられる
+        UPDATE jobs
+        SET status = 'running',
+            attempts = jobs.attempts + 1,
+            locked_by = p_worker_id,
+            locked_until = NOW() + make_interval(secs => p_lease_seconds),
+            heartbeat_at = NOW(),
+            updated_at = NOW()
+        WHERE id = v_job_id
+          AND status = 'queued'
+        RETURNING * INTO v_job;
+
+        IF FOUND THEN
+            RETURN NEXT v_job;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- キューの組織別の待機数・処理中数（管理画面用）
+CREATE OR REPLACE FUNCTION job_queue_depth(p_queue TEXT)
+RETURNS TABLE (
+    organization_id BIGINT,
+    organization_name TEXT,
+    plan TEXT,
+    queued BIGINT,
+    running BIGINT,
+    oldest_queued_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        j.organization_id,
+        o.name::TEXT,
+        COALESCE(o.plan::TEXT, CASE WHEN j.organization_id IS NULL THEN NULL ELSE 'trial' END),
+        COUNT(*) FILTER (WHERE j.status = 'queued'),
+        COUNT(*) FILTER (WHERE j.status = 'running'),
+        MIN(j.created_at) FILTER (WHERE j.status = 'queued')
+    FROM jobs j
+    LEFT JOIN organizations o ON o.id = j.organization_id
+    WHERE j.queue = p_queue
+      AND j.status IN ('queued', 'running')
+    GROUP BY j.organization_id, o.name, o.plan
+    ORDER BY COUNT(*) FILTER (WHERE j.status = 'queued') DESC, j.organization_id;
+$$;
+
+REVOKE ALL ON FUNCTION claim_fair_jobs(TEXT, TEXT, INTEGER, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION job_queue_depth(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_fair_jobs(TEXT, TEXT, INTEGER, INTEGER, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION job_queue_depth(TEXT) TO service_role;
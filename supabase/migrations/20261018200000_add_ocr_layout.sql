@@ -0,0 +1,12 @@
+-- 画像チェックのOCRレイアウト
+-- checks.ocr_blocks: OCRで検出したテキストブロック（抽出テキスト内のオフセットと画像上の位置）
+--   [{"text": "...", "start": 0, "end": 12, "bbox": {"x": 0.1, "y": 0.2, "width": 0.5, "height": 0.08}, "vertical": false}]
+-- violations.image_regions: 違反箇所に対応する画像上の領域（テキストのオフセットからブロックの位置へ対応付けたもの）
+--   [{"x": 0.1, "y": 0.2, "width": 0.12, "height": 0.08}]
+-- 座標はいずれも画像の幅・高さに対する 0〜1 の比率
+
+ALTER TABLE checks ADD COLUMN ocr_blocks JSONB;
+ALTER TABLE violations ADD COLUMN image_regions JSONB;
+
+COMMENT ON COLUMN checks.ocr_blocks IS 'OCR text blocks with offsets into extracted_text and normalized (0-1) image bounding boxes';
+COMMENT ON COLUMN violations.image_regions IS 'Normalized (0-1) image regions of the violating span (image checks only)';
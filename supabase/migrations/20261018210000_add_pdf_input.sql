@@ -0,0 +1,19 @@
+-- PDFチェック（パンフレット・添付文書・LPの書き出しなど）
+-- checks.input_type に 'pdf' を追加する（PDFのURLは image_url に保存する）
+-- checks.pdf_pages: ページごとの抽出テキストの範囲と抽出方法（テキストレイヤー / OCR）
+--   [{"page": 1, "start": 0, "end": 120, "source": "text"}, {"page": 2, "start": 122, "end": 300, "source": "ocr"}]
+-- violations.page_number: 違反箇所のページ番号（1始まり、PDFチェックのみ）
+
+ALTER TYPE check_input_type ADD VALUE IF NOT EXISTS 'pdf';
+
+ALTER TABLE checks ADD COLUMN pdf_pages JSONB;
+ALTER TABLE violations ADD COLUMN page_number INTEGER CHECK (page_number > 0);
+
+COMMENT ON COLUMN checks.image_url IS 'Uploaded source file URL (image for image checks, PDF for pdf checks)';
+COMMENT ON COLUMN checks.pdf_pages IS 'Per-page ranges into extracted_text with extraction source (text layer or OCR) for pdf checks';
+COMMENT ON COLUMN violations.page_number IS '1-based PDF page number of the violating span (pdf checks only)';
+
+-- uploads バケットでPDFを受け付ける
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+WHERE id = 'uploads';
@@ -0,0 +1,26 @@
+-- URLチェック（ランディングページ）
+-- checks.input_type に 'url' を追加する
+-- checks.source_url: チェック対象として送信されたURL
+-- checks.page_snapshot: 取得したページのスナップショット情報（監査用、HTML本体は uploads バケットに保存）
+--   {"url": "...", "finalUrl": "...", "fetchedAt": "...", "httpStatus": 200, "contentType": "text/html; charset=utf-8",
+--    "title": "...", "metaDescription": "...", "sha256": "...", "bytes": 12345, "storagePath": "org/1/snapshots/10-1760000000000.html"}
+-- checks.page_segments: 抽出テキストの区間ごとのDOM要素
+--   [{"selector": "head > title", "kind": "title", "start": 0, "end": 12}, {"selector": "#hero > h1", "kind": "text", "start": 13, "end": 30}]
+-- violations.dom_selector: 違反箇所を含む要素のCSSセレクタ（URLチェックのみ）
+
+ALTER TYPE check_input_type ADD VALUE IF NOT EXISTS 'url';
+
+ALTER TABLE checks ADD COLUMN source_url TEXT;
+ALTER TABLE checks ADD COLUMN page_snapshot JSONB;
+ALTER TABLE checks ADD COLUMN page_segments JSONB;
+ALTER TABLE violations ADD COLUMN dom_selector TEXT;
+
+COMMENT ON COLUMN checks.source_url IS 'Submitted landing page URL (url checks only)';
+COMMENT ON COLUMN checks.page_snapshot IS 'Audit metadata of the fetched page (final URL, HTTP status, SHA-256, stored HTML path) for url checks';
+COMMENT ON COLUMN checks.page_segments IS 'Ranges into extracted_text mapped to CSS selectors of the source DOM elements for url checks';
+COMMENT ON COLUMN violations.dom_selector IS 'CSS selector of the page element containing the violating span (url checks only)';
+
+-- uploads バケットでページのスナップショット（HTML）を保存できるようにする
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf', 'text/html']
+WHERE id = 'uploads';
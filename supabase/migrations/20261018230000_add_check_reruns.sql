@@ -0,0 +1,13 @@
+-- チェックの再実行と実行間の比較
+-- checks.parent_check_id: 再実行元のチェック（再実行で作成した子チェックのみ）
+-- checks.dictionary_version: チェックに適用した辞書の版（適用した辞書項目のIDと更新日時から算出した識別子）
+-- 使用したモデルは既存の checks.ai_provider / checks.ai_model に記録される
+
+ALTER TABLE checks
+    ADD COLUMN parent_check_id BIGINT REFERENCES checks(id) ON DELETE SET NULL,
+    ADD COLUMN dictionary_version TEXT;
+
+CREATE INDEX idx_checks_parent_check_id ON checks(parent_check_id) WHERE parent_check_id IS NOT NULL;
+
+COMMENT ON COLUMN checks.parent_check_id IS 'Check this run was re-run from (NULL for original submissions)';
+COMMENT ON COLUMN checks.dictionary_version IS 'Identifier of the dictionary entries applied to the check (entry count and hash of ids and update times)';
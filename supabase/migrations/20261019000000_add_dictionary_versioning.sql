@@ -0,0 +1,80 @@
+-- Dictionary versioning: 辞書の変更履歴・スナップショット・ロールバック
+-- dictionary_changes: 辞書項目の追加・更新・削除ごとの履歴（変更者・変更前後の内容）
+-- dictionary_snapshots: 組織の辞書全体の内容を保存したスナップショット（名前付きの手動スナップショットと、チェック実行時の自動スナップショット）
+-- checks.dictionary_snapshot_id: チェックが適用した辞書のスナップショット
+
+CREATE TABLE dictionary_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT,
+    kind TEXT NOT NULL DEFAULT 'manual' CHECK (kind IN ('manual', 'auto')),
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    item_count INTEGER NOT NULL DEFAULT 0,
+    last_change_id BIGINT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE dictionary_changes (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    -- 削除後も履歴を残すため外部キーにしない
+    dictionary_id BIGINT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'bulk_update', 'import', 'rollback')),
+    before JSONB,
+    after JSONB,
+    snapshot_id BIGINT REFERENCES dictionary_snapshots(id) ON DELETE SET NULL,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE checks
+    ADD COLUMN dictionary_snapshot_id BIGINT REFERENCES dictionary_snapshots(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_dictionary_snapshots_org_id ON dictionary_snapshots(organization_id, id DESC);
+CREATE INDEX idx_dictionary_changes_org_id ON dictionary_changes(organization_id, id DESC);
+CREATE INDEX idx_dictionary_changes_dictionary_id ON dictionary_changes(dictionary_id);
+CREATE INDEX idx_checks_dictionary_snapshot_id ON checks(dictionary_snapshot_id) WHERE dictionary_snapshot_id IS NOT NULL;
+
+ALTER TABLE dictionary_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dictionary_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view dictionary snapshots in their organization" ON dictionary_snapshots
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can create dictionary snapshots in their organization" ON dictionary_snapshots
+    FOR INSERT WITH CHECK (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Users can view dictionary changes in their organization" ON dictionary_changes
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can record dictionary changes in their organization" ON dictionary_changes
+    FOR INSERT WITH CHECK (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+COMMENT ON COLUMN dictionary_snapshots.kind IS 'manual: named snapshot created by an admin, auto: taken automatically when a check runs or before a rollback';
+COMMENT ON COLUMN dictionary_snapshots.items IS 'Dictionary entries at snapshot time (id, phrase, category, notes, regulatory_category, product_category)';
+COMMENT ON COLUMN dictionary_snapshots.last_change_id IS 'Latest dictionary_changes.id of the organization when the snapshot was taken (NULL if no change was recorded yet)';
+COMMENT ON COLUMN dictionary_changes.before IS 'Entry before the change (NULL for create)';
+COMMENT ON COLUMN dictionary_changes.after IS 'Entry after the change (NULL for delete)';
+COMMENT ON COLUMN dictionary_changes.snapshot_id IS 'Snapshot restored by the rollback that made this change';
+COMMENT ON COLUMN checks.dictionary_snapshot_id IS 'Dictionary snapshot the check ran against';
@@ -0,0 +1,191 @@
+-- Global dictionary: プラットフォームが管理する共通の薬機法辞書と組織ごとの上書き
+-- global_dictionaries: 全組織が継承する共通辞書（法的根拠・製品カテゴリで分類し、項目ごとに版を管理）
+--   書き込みはサービスロール（マイグレーション・運用スクリプト）のみ。廃止した項目は削除せず is_active = false にする
+--   語句を変更すると埋め込みベクトルはクリアされる（ベクトル未設定の項目は pg_trgm の類似度のみで検索される）
+-- dictionary_overrides: 組織ごとの共通辞書項目の上書き（disable: 無効化 / allow: 許可表現として扱う）
+--   組織辞書に同じ語句がある場合は組織辞書の項目を優先する
+-- violations.global_dictionary_id: 違反の根拠となった共通辞書項目
+-- get_combined_similar_phrases: 組織辞書と継承した共通辞書をあわせて検索し、source 列で区別する
+
+CREATE TABLE global_dictionaries (
+    id BIGSERIAL PRIMARY KEY,
+    phrase TEXT NOT NULL,
+    category dictionary_category NOT NULL DEFAULT 'NG',
+    notes TEXT,
+    regulatory_category regulatory_category,
+    product_category product_category,
+    vector VECTOR(1536),
+    version INTEGER NOT NULL DEFAULT 1,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TYPE dictionary_override_action AS ENUM ('disable', 'allow');
+
+CREATE TABLE dictionary_overrides (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    global_dictionary_id BIGINT NOT NULL REFERENCES global_dictionaries(id) ON DELETE CASCADE,
+    action dictionary_override_action NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (organization_id, global_dictionary_id)
+);
+
+ALTER TABLE violations
+    ADD COLUMN global_dictionary_id BIGINT REFERENCES global_dictionaries(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_global_dictionaries_phrase_product_category
+    ON global_dictionaries(phrase, COALESCE(product_category::TEXT, ''));
+CREATE INDEX idx_global_dictionaries_phrase_trgm ON global_dictionaries USING GIN (phrase gin_trgm_ops);
+CREATE INDEX idx_global_dictionaries_vector ON global_dictionaries USING ivfflat (vector vector_cosine_ops) WITH (lists = 100);
+CREATE INDEX idx_dictionary_overrides_org_id ON dictionary_overrides(organization_id);
+CREATE INDEX idx_violations_global_dictionary_id ON violations(global_dictionary_id) WHERE global_dictionary_id IS NOT NULL;
+
+-- 内容（語句・区分・備考・法的根拠・製品カテゴリ）が変わったら版を上げる
+CREATE OR REPLACE FUNCTION bump_global_dictionary_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.phrase, NEW.category, NEW.notes, NEW.regulatory_category, NEW.product_category, NEW.is_active)
+        IS DISTINCT FROM
+       (OLD.phrase, OLD.category, OLD.notes, OLD.regulatory_category, OLD.product_category, OLD.is_active) THEN
+        NEW.version = OLD.version + 1;
+        NEW.updated_at = NOW();
+    END IF;
+    IF NEW.phrase IS DISTINCT FROM OLD.phrase THEN
+        NEW.vector = NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_global_dictionaries_version
+    BEFORE UPDATE ON global_dictionaries
+    FOR EACH ROW EXECUTE FUNCTION bump_global_dictionary_version();
+
+CREATE TRIGGER update_dictionary_overrides_updated_at
+    BEFORE UPDATE ON dictionary_overrides
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE global_dictionaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dictionary_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the global dictionary" ON global_dictionaries
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can view dictionary overrides in their organization" ON dictionary_overrides
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage dictionary overrides in their organization" ON dictionary_overrides
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- 戻り値に source 列を追加するため作り直す
+DROP FUNCTION IF EXISTS public.get_combined_similar_phrases(TEXT, BIGINT, DOUBLE PRECISION, DOUBLE PRECISION, VECTOR(1536), INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_combined_similar_phrases(
+    input_text TEXT,
+    org_id BIGINT,
+    trgm_threshold DOUBLE PRECISION DEFAULT 0.3,
+    vector_threshold DOUBLE PRECISION DEFAULT 0.75,
+    query_embedding VECTOR(1536) DEFAULT NULL,
+    max_results INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+    id BIGINT,
+    phrase TEXT,
+    category public.dictionary_category,
+    source TEXT,
+    trgm_similarity DOUBLE PRECISION,
+    vector_similarity DOUBLE PRECISION,
+    combined_score DOUBLE PRECISION
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH entries AS (
+        SELECT d.id, d.phrase, d.category, 'organization'::TEXT AS source, d.vector
+        FROM public.dictionaries d
+        WHERE d.organization_id = org_id
+        UNION ALL
+        -- 継承した共通辞書（無効化した項目・組織辞書と同じ語句の項目を除き、許可の上書きは ALLOW として扱う）
+        SELECT
+            g.id,
+            g.phrase,
+            CASE WHEN o.action = 'allow' THEN 'ALLOW'::public.dictionary_category ELSE g.category END,
+            'global'::TEXT,
+            g.vector
+        FROM public.global_dictionaries g
+        LEFT JOIN public.dictionary_overrides o
+            ON o.global_dictionary_id = g.id AND o.organization_id = org_id
+        WHERE g.is_active
+          AND (o.action IS NULL OR o.action <> 'disable')
+          AND NOT EXISTS (
+              SELECT 1 FROM public.dictionaries d
+              WHERE d.organization_id = org_id AND d.phrase = g.phrase
+          )
+    ),
+    scored AS (
+        SELECT
+            e.id,
+            e.phrase,
+            e.category,
+            e.source,
+            similarity(e.phrase, input_text)::DOUBLE PRECISION AS trgm_similarity,
+            CASE
+                WHEN query_embedding IS NOT NULL AND e.vector IS NOT NULL
+                    THEN (1 - (e.vector <=> query_embedding))::DOUBLE PRECISION
+                ELSE 0.0::DOUBLE PRECISION
+            END AS vector_similarity
+        FROM entries e
+    )
+    SELECT
+        s.id,
+        s.phrase,
+        s.category,
+        s.source,
+        s.trgm_similarity,
+        s.vector_similarity,
+        (s.trgm_similarity * 0.3 + s.vector_similarity * 0.7)::DOUBLE PRECISION AS combined_score
+    FROM scored s
+    WHERE s.trgm_similarity >= trgm_threshold
+       OR s.vector_similarity >= vector_threshold
+    ORDER BY combined_score DESC, s.vector_similarity DESC, s.trgm_similarity DESC
+    LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION public.get_combined_similar_phrases IS '統合された類似フレーズ検索（trgm+vector） - 組織辞書と継承した共通辞書を検索し source で区別';
+
+-- 初期データ: 代表的な薬機法・健康増進法のNG表現
+INSERT INTO global_dictionaries (phrase, category, notes, regulatory_category, product_category) VALUES
+    ('必ず治る', 'NG', '効能効果の保証表現', 'tekisei_kokoku_4_3', NULL),
+    ('完治', 'NG', '効能効果の保証表現', 'tekisei_kokoku_4_3', NULL),
+    ('副作用なし', 'NG', '安全性の保証表現', 'tekisei_kokoku_4_3', NULL),
+    ('安全性が保証された', 'NG', '安全性の保証表現', 'tekisei_kokoku_4_3', NULL),
+    ('効果を保証', 'NG', '効能効果の保証表現', 'yakukiho_66', NULL),
+    ('最高の効き目', 'NG', '最大級表現', 'tekisei_kokoku_4_3', NULL),
+    ('医師が推薦', 'NG', '医薬関係者等の推薦', 'tekisei_kokoku_4_10', NULL),
+    ('がんが治る', 'NG', '特定疾病に関する表現', 'yakukiho_67', NULL),
+    ('シミが消える', 'NG', '化粧品の効能効果の範囲外', 'yakukiho_66', 'cosmetics'),
+    ('アンチエイジング', 'NG', '化粧品の効能効果の範囲外（老化防止）', 'yakukiho_66', 'cosmetics'),
+    ('脂肪燃焼', 'NG', '健康食品による身体機能への作用の表現', 'yakukiho_68', 'health_food'),
+    ('血圧が下がる', 'NG', '健康食品による疾病の治療・予防の表現', 'yakukiho_68', 'health_food'),
+    ('免疫力を高める', 'NG', '健康食品による身体機能の増強の表現', 'yakukiho_68', 'health_food'),
+    ('飲むだけで痩せる', 'NG', '誇大な痩身効果の表現', 'kenko_zoshin_65', 'health_food')
+ON CONFLICT DO NOTHING;
+
+COMMENT ON COLUMN global_dictionaries.version IS 'Revision of the entry, incremented whenever its content changes';
+COMMENT ON COLUMN global_dictionaries.is_active IS 'Retired entries are kept (FALSE) so past violations can still reference them';
+COMMENT ON COLUMN dictionary_overrides.action IS 'disable: the organization ignores the entry, allow: the organization treats the phrase as an ALLOW exception';
+COMMENT ON COLUMN violations.global_dictionary_id IS 'Global dictionary entry the violation was matched against (dictionary_id is used for organization entries)';
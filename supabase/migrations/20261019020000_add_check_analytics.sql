@@ -0,0 +1,131 @@
+-- Check analytics: 管理画面の分析レポート用にチェック・違反を SQL で集計する
+-- get_check_analytics: 組織の指定日時以降のチェックを集計し JSONB で返す（checks / violations / users の RLS を引き継ぐ）
+--   時間帯・月の区切りは日本時間。処理時間は受付（created_at）から完了（completed_at）までの秒数
+--   セッションは同じユーザーのチェック間隔が30分以内の連続したチェックとみなす
+--   リテンションは直前の同じ長さの期間にチェックしたユーザーのうち、期間内にもチェックしたユーザーの割合
+-- 集計は組織・作成日時の複合インデックスで期間内のチェックだけを読む
+
+CREATE INDEX IF NOT EXISTS idx_checks_org_created_at ON checks(organization_id, created_at) WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.get_check_analytics(
+    org_id BIGINT,
+    since TIMESTAMPTZ
+)
+RETURNS JSONB AS $$
+DECLARE
+    month_start TIMESTAMPTZ := date_trunc('month', NOW() AT TIME ZONE 'Asia/Tokyo') AT TIME ZONE 'Asia/Tokyo';
+    previous_since TIMESTAMPTZ := since - (NOW() - since);
+    result JSONB;
+BEGIN
+    WITH org_checks AS (
+        SELECT c.id, c.user_id, c.status, c.created_at, c.completed_at
+        FROM public.checks c
+        WHERE c.organization_id = org_id
+          AND c.deleted_at IS NULL
+          AND c.created_at >= LEAST(previous_since, month_start - INTERVAL '1 month')
+    ),
+    period_checks AS (
+        SELECT * FROM org_checks WHERE created_at >= since
+    ),
+    processing_times AS (
+        SELECT EXTRACT(EPOCH FROM (completed_at - created_at))::DOUBLE PRECISION AS seconds
+        FROM period_checks
+        WHERE status = 'completed' AND completed_at IS NOT NULL
+    ),
+    hourly AS (
+        SELECT EXTRACT(HOUR FROM created_at AT TIME ZONE 'Asia/Tokyo')::INTEGER AS hour, COUNT(*) AS check_count
+        FROM period_checks
+        GROUP BY 1
+    ),
+    session_starts AS (
+        SELECT
+            user_id,
+            created_at,
+            COALESCE(completed_at, created_at) AS ended_at,
+            CASE
+                WHEN created_at - LAG(created_at) OVER (PARTITION BY user_id ORDER BY created_at) <= INTERVAL '30 minutes'
+                    THEN 0
+                ELSE 1
+            END AS is_new_session
+        FROM period_checks
+        WHERE user_id IS NOT NULL
+    ),
+    sessions AS (
+        SELECT user_id, MIN(created_at) AS started_at, MAX(ended_at) AS ended_at
+        FROM (
+            SELECT
+                user_id,
+                created_at,
+                ended_at,
+                SUM(is_new_session) OVER (PARTITION BY user_id ORDER BY created_at) AS session_no
+            FROM session_starts
+        ) numbered
+        GROUP BY user_id, session_no
+    ),
+    period_violations AS (
+        SELECT v.regulatory_category
+        FROM public.violations v
+        JOIN period_checks pc ON pc.id = v.check_id
+        WHERE pc.status = 'completed'
+    ),
+    violation_types AS (
+        SELECT regulatory_category, COUNT(*) AS violation_count
+        FROM period_violations
+        GROUP BY regulatory_category
+        ORDER BY violation_count DESC
+        LIMIT 10
+    )
+    SELECT jsonb_build_object(
+        'total_checks', (SELECT COUNT(*) FROM period_checks),
+        'completed_checks', (SELECT COUNT(*) FROM period_checks WHERE status = 'completed'),
+        'failed_checks', (SELECT COUNT(*) FROM period_checks WHERE status = 'failed'),
+        'checks_this_month', (SELECT COUNT(*) FROM org_checks WHERE created_at >= month_start),
+        'checks_last_month', (
+            SELECT COUNT(*) FROM org_checks
+            WHERE created_at >= month_start - INTERVAL '1 month' AND created_at < month_start
+        ),
+        'hourly_checks', (
+            SELECT jsonb_agg(COALESCE(h.check_count, 0) ORDER BY hours.hour)
+            FROM generate_series(0, 23) AS hours(hour)
+            LEFT JOIN hourly h ON h.hour = hours.hour
+        ),
+        'active_users', (SELECT COUNT(DISTINCT user_id) FROM period_checks),
+        'previous_active_users', (
+            SELECT COUNT(DISTINCT user_id) FROM org_checks
+            WHERE created_at >= previous_since AND created_at < since
+        ),
+        'retained_users', (
+            SELECT COUNT(DISTINCT oc.user_id) FROM org_checks oc
+            WHERE oc.created_at >= previous_since AND oc.created_at < since
+              AND oc.user_id IN (SELECT user_id FROM period_checks)
+        ),
+        'new_users', (
+            SELECT COUNT(*) FROM public.users u
+            WHERE u.organization_id = org_id AND u.created_at >= since
+        ),
+        'avg_session_minutes', (
+            SELECT AVG(EXTRACT(EPOCH FROM (ended_at - started_at)) / 60)::DOUBLE PRECISION FROM sessions
+        ),
+        'violation_count', (SELECT COUNT(*) FROM period_violations),
+        'violation_types', (
+            SELECT COALESCE(
+                jsonb_agg(
+                    jsonb_build_object('regulatory_category', regulatory_category, 'count', violation_count)
+                    ORDER BY violation_count DESC
+                ),
+                '[]'::JSONB
+            )
+            FROM violation_types
+        ),
+        'avg_processing_seconds', (SELECT AVG(seconds) FROM processing_times),
+        'p50_processing_seconds', (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY seconds) FROM processing_times),
+        'p90_processing_seconds', (SELECT percentile_cont(0.9) WITHIN GROUP (ORDER BY seconds) FROM processing_times),
+        'p95_processing_seconds', (SELECT percentile_cont(0.95) WITHIN GROUP (ORDER BY seconds) FROM processing_times),
+        'p99_processing_seconds', (SELECT percentile_cont(0.99) WITHIN GROUP (ORDER BY seconds) FROM processing_times)
+    ) INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION public.get_check_analytics IS 'Check and violation analytics for an organization since the given time (hours and months in Asia/Tokyo)';
@@ -0,0 +1,106 @@
+-- Violation feedback: 検出結果に対するレビュー担当者のフィードバック
+-- violation_feedback: 違反ごとの評価（correct: 正しい / false_positive: 誤検知 / wrong_reason: 指摘は正しいが理由が違う）と、
+--   チェック結果で見逃された箇所（missed: violation_id なし、原文上の位置と語句を記録）
+--   違反ごとの評価は1件のみ（再評価で上書き）。根拠となった辞書項目を違反から写して保持する
+--   status: 辞書への反映状況（open: 未対応 / applied: 辞書に反映済み / dismissed: 見送り）
+-- dictionary_entry_precision: 辞書項目ごとの評価件数と適合率の推定値（理由違いは検出としては正しいものとして数える）
+-- dictionary_changes.source に feedback（フィードバックからの辞書反映）を追加
+
+CREATE TYPE violation_feedback_type AS ENUM ('correct', 'false_positive', 'wrong_reason', 'missed');
+CREATE TYPE violation_feedback_status AS ENUM ('open', 'applied', 'dismissed');
+
+CREATE TABLE violation_feedback (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    check_id BIGINT NOT NULL REFERENCES checks(id) ON DELETE CASCADE,
+    violation_id BIGINT UNIQUE REFERENCES violations(id) ON DELETE CASCADE,
+    feedback_type violation_feedback_type NOT NULL,
+    dictionary_id BIGINT REFERENCES dictionaries(id) ON DELETE SET NULL,
+    global_dictionary_id BIGINT REFERENCES global_dictionaries(id) ON DELETE SET NULL,
+    phrase TEXT NOT NULL,
+    start_pos INTEGER,
+    end_pos INTEGER,
+    comment TEXT,
+    status violation_feedback_status NOT NULL DEFAULT 'open',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT violation_feedback_missed_has_no_violation
+        CHECK ((feedback_type = 'missed') = (violation_id IS NULL))
+);
+
+CREATE INDEX idx_violation_feedback_org_status ON violation_feedback(organization_id, status);
+CREATE INDEX idx_violation_feedback_check_id ON violation_feedback(check_id);
+CREATE INDEX idx_violation_feedback_dictionary_id ON violation_feedback(dictionary_id) WHERE dictionary_id IS NOT NULL;
+CREATE INDEX idx_violation_feedback_global_dictionary_id ON violation_feedback(global_dictionary_id) WHERE global_dictionary_id IS NOT NULL;
+
+CREATE TRIGGER update_violation_feedback_updated_at
+    BEFORE UPDATE ON violation_feedback
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE violation_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view violation feedback in their organization" ON violation_feedback
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can give feedback in their organization" ON violation_feedback
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid()
+        AND organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own feedback" ON violation_feedback
+    FOR UPDATE USING (
+        created_by = auth.uid()
+        AND organization_id IN (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage violation feedback in their organization" ON violation_feedback
+    FOR ALL USING (
+        organization_id IN (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE OR REPLACE VIEW dictionary_entry_precision
+WITH (security_invoker = true) AS
+SELECT
+    f.organization_id,
+    f.dictionary_id,
+    f.global_dictionary_id,
+    COALESCE(d.phrase, g.phrase) AS phrase,
+    COUNT(*) FILTER (WHERE f.feedback_type = 'correct')::integer AS correct_count,
+    COUNT(*) FILTER (WHERE f.feedback_type = 'wrong_reason')::integer AS wrong_reason_count,
+    COUNT(*) FILTER (WHERE f.feedback_type = 'false_positive')::integer AS false_positive_count,
+    ROUND(
+        100.0 * COUNT(*) FILTER (WHERE f.feedback_type IN ('correct', 'wrong_reason')) / COUNT(*),
+        1
+    )::double precision AS precision_rate,
+    MAX(f.updated_at) AS last_feedback_at
+FROM violation_feedback f
+LEFT JOIN dictionaries d ON d.id = f.dictionary_id
+LEFT JOIN global_dictionaries g ON g.id = f.global_dictionary_id
+WHERE f.violation_id IS NOT NULL
+  AND (f.dictionary_id IS NOT NULL OR f.global_dictionary_id IS NOT NULL)
+GROUP BY f.organization_id, f.dictionary_id, f.global_dictionary_id, d.phrase, g.phrase;
+
+ALTER TABLE dictionary_changes DROP CONSTRAINT IF EXISTS dictionary_changes_source_check;
+ALTER TABLE dictionary_changes
+    ADD CONSTRAINT dictionary_changes_source_check
+    CHECK (source IN ('manual', 'bulk_update', 'import', 'rollback', 'feedback'));
+
+COMMENT ON COLUMN violation_feedback.violation_id IS 'Evaluated violation (NULL for missed violations reported on a text selection)';
+COMMENT ON COLUMN violation_feedback.phrase IS 'Flagged text of the violation, or the selected text of a missed violation';
+COMMENT ON COLUMN violation_feedback.status IS 'open: not yet reflected in the dictionary, applied: turned into a dictionary entry, dismissed: no dictionary change';
+COMMENT ON VIEW dictionary_entry_precision IS 'Reviewer feedback counts and estimated precision (%) per organization and global dictionary entry';
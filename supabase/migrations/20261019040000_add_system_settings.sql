@@ -0,0 +1,114 @@
+-- System settings: 管理画面のシステム設定・機能フラグの永続化と変更の監査
+-- system_settings: 設定の区分（system: 一般・メンテナンス / notifications: 通知）ごとに値を JSONB で保持する
+--   未設定の項目はアプリケーション側の既定値で補う
+-- feature_flags: 機能フラグ。組織ごとに評価する
+--   enabled が false の場合は全組織で無効。disabled_organization_ids / enabled_organization_ids の組織は常に無効 / 有効、
+--   それ以外の組織は「フラグのキー + 組織ID」のハッシュで決まるバケット（0〜99）が rollout_percentage 未満なら有効
+-- settings_audit_logs: システム設定・機能フラグの変更履歴（変更前後の値と変更者）
+
+CREATE TABLE system_settings (
+    id BIGSERIAL PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE CHECK (key IN ('system', 'notifications')),
+    value JSONB NOT NULL DEFAULT '{}'::jsonb,
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE feature_flags (
+    id BIGSERIAL PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    description TEXT,
+    category TEXT NOT NULL DEFAULT 'beta' CHECK (category IN ('experimental', 'beta', 'stable')),
+    enabled BOOLEAN NOT NULL DEFAULT false,
+    rollout_percentage INTEGER NOT NULL DEFAULT 100 CHECK (rollout_percentage BETWEEN 0 AND 100),
+    enabled_organization_ids BIGINT[] NOT NULL DEFAULT '{}',
+    disabled_organization_ids BIGINT[] NOT NULL DEFAULT '{}',
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE settings_audit_logs (
+    id BIGSERIAL PRIMARY KEY,
+    target_type TEXT NOT NULL CHECK (target_type IN ('system_setting', 'feature_flag')),
+    target_key TEXT NOT NULL,
+    before JSONB,
+    after JSONB,
+    changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_settings_audit_logs_created_at ON settings_audit_logs(created_at DESC);
+CREATE INDEX idx_settings_audit_logs_target ON settings_audit_logs(target_type, target_key);
+
+CREATE TRIGGER update_system_settings_updated_at
+    BEFORE UPDATE ON system_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE TRIGGER update_feature_flags_updated_at
+    BEFORE UPDATE ON feature_flags
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feature_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE settings_audit_logs ENABLE ROW LEVEL SECURITY;
+
+-- 一般設定（メンテナンスモード等）はミドルウェアが未ログインのリクエストでも参照するため誰でも閲覧可能
+CREATE POLICY "Anyone can view system config" ON system_settings
+    FOR SELECT USING (key = 'system');
+
+CREATE POLICY "Admins can manage system settings" ON system_settings
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Authenticated users can view feature flags" ON feature_flags
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage feature flags" ON feature_flags
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can view settings audit logs" ON settings_audit_logs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can record settings audit logs" ON settings_audit_logs
+    FOR INSERT WITH CHECK (
+        changed_by = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+INSERT INTO system_settings (key, value) VALUES
+    ('system', '{}'::jsonb),
+    ('notifications', '{}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO feature_flags (key, name, description, category, enabled, rollout_percentage) VALUES
+    ('batch_api', 'バッチ処理API', '複数テキストの一括チェックAPI（CSV/XLSXアップロード）', 'beta', true, 100),
+    ('custom_reports', 'カスタムレポート', 'ユーザー定義のレポート生成機能', 'stable', true, 100),
+    ('pdf_input', 'PDFチェック', 'PDFのアップロードとページごとのテキスト抽出・OCR', 'beta', true, 100),
+    ('semantic_reference_search', '類似表現の参考検索', '埋め込みによる辞書の類似表現検索をAI分析の参考情報にする', 'stable', true, 100)
+ON CONFLICT (key) DO NOTHING;
+
+COMMENT ON COLUMN system_settings.value IS 'Settings of the section as JSON; missing fields fall back to application defaults';
+COMMENT ON COLUMN feature_flags.rollout_percentage IS 'Share (%) of organizations the flag is enabled for, by a stable hash of the flag key and organization ID';
+COMMENT ON COLUMN feature_flags.enabled_organization_ids IS 'Organizations the flag is always enabled for (while the flag is enabled)';
+COMMENT ON COLUMN feature_flags.disabled_organization_ids IS 'Organizations the flag is always disabled for';
+COMMENT ON TABLE settings_audit_logs IS 'Audit trail of system setting and feature flag changes with before/after values';
@@ -0,0 +1,75 @@
+-- APIレート制限のカウンタ（スライディングウィンドウ）
+-- ユーザー・組織・APIキー・IPアドレスごとのキーについて、固定長の時間枠ごとのリクエスト数を記録する。
+-- 直前の時間枠の件数を経過割合で按分して加えた値を、直近の時間枠での推定リクエスト数とする。
+-- 複数インスタンスで制限を共有する場合に使う（ADLEX_RATE_LIMIT_STORE=postgres）。
+-- Service Role からのみ操作する（RLS有効・ポリシーなし）
+
+CREATE TABLE rate_limit_counters (
+    id BIGSERIAL PRIMARY KEY,
+    key TEXT NOT NULL,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    -- 次の時間枠の按分に使い終わった後に削除できる時刻
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    UNIQUE (key, window_start)
+);
+
+CREATE INDEX idx_rate_limit_counters_expires_at ON rate_limit_counters(expires_at);
+
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- キーの現在の時間枠の件数を加算し、現在・直前の時間枠の件数と時間枠内の経過秒数を返す
+CREATE OR REPLACE FUNCTION hit_rate_limit(
+    p_key TEXT,
+    p_window_seconds INTEGER
+)
+RETURNS TABLE (
+    current_count INTEGER,
+    previous_count INTEGER,
+    elapsed_seconds DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_now TIMESTAMP WITH TIME ZONE := NOW();
+    v_window_start TIMESTAMP WITH TIME ZONE :=
+        to_timestamp(floor(extract(epoch FROM v_now) / p_window_seconds) * p_window_seconds);
+BEGIN
+    INSERT INTO rate_limit_counters (key, window_start, count, expires_at)
+    VALUES (p_key, v_window_start, 1, v_window_start + make_interval(secs => p_window_seconds * 2))
+    ON CONFLICT (key, window_start)
+    DO UPDATE SET count = rate_limit_counters.count + 1
+    RETURNING rate_limit_counters.count INTO current_count;
+
+    SELECT c.count INTO previous_count
+    FROM rate_limit_counters c
+    WHERE c.key = p_key
+      AND c.window_start = v_window_start - make_interval(secs => p_window_seconds);
+
+    previous_count := COALESCE(previous_count, 0);
+    elapsed_seconds := extract(epoch FROM v_now - v_window_start);
+    RETURN NEXT;
+END;
+$$;
+
+-- 按分に使わなくなったカウンタを削除する（削除件数を返す）
+CREATE OR REPLACE FUNCTION prune_rate_limit_counters()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM rate_limit_counters WHERE expires_at < NOW();
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION hit_rate_limit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION prune_rate_limit_counters() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hit_rate_limit(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION prune_rate_limit_counters() TO service_role;
+
+COMMENT ON TABLE rate_limit_counters IS 'Per-key request counts of fixed windows for sliding-window API rate limiting';
+COMMENT ON COLUMN rate_limit_counters.key IS 'Rate limit key: route group and subject (user, organization, API key or IP address)';
@@ -0,0 +1,28 @@
+-- violations の UPDATE ポリシーを呼び出しユーザーの組織のチェックに限定する
+-- 20261018100000_add_suggestions_to_violations.sql で提案の採否を記録するために追加したポリシーは
+-- USING (true) で、認証済みユーザーであれば他組織の違反も更新できてしまっていた。
+-- 更新前・更新後とも、違反の属するチェックが呼び出しユーザーの組織のものである場合のみ許可する
+-- （users は RLS 無効のため、ポリシー内から参照しても再帰しない）
+
+DROP POLICY IF EXISTS "Users can update violations" ON violations;
+
+CREATE POLICY "Users can update violations in their organization" ON violations
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1
+            FROM checks c
+            JOIN users u ON u.organization_id = c.organization_id
+            WHERE c.id = violations.check_id
+              AND u.id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1
+            FROM checks c
+            JOIN users u ON u.organization_id = c.organization_id
+            WHERE c.id = violations.check_id
+              AND u.id = auth.uid()
+        )
+    );
@@ -0,0 +1,151 @@
+-- reap_jobs で再投入する孤立チェックの payload に sourceUrl を含める
+-- URLチェック（input_type = 'url'）の孤立チェックを再投入すると、payload に sourceUrl がないため
+-- ページを取得せずに処理されていた。checks.source_url を payload の sourceUrl として渡す。
+-- 戻り値の型は変わらないため CREATE OR REPLACE で置き換える
+
+CREATE OR REPLACE FUNCTION reap_jobs(p_orphan_grace_seconds INTEGER DEFAULT 120)
+RETURNS TABLE (
+    expired_requeued INTEGER,
+    expired_failed INTEGER,
+    orphaned_requeued INTEGER,
+    orphaned_failed INTEGER,
+    failed_checks JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_expired_requeued INTEGER := 0;
+    v_expired_failed INTEGER := 0;
+    v_orphaned_requeued INTEGER := 0;
+    v_orphaned_failed INTEGER := 0;
+    v_expired_failed_checks JSONB := '[]'::jsonb;
+    v_orphaned_failed_checks JSONB := '[]'::jsonb;
+BEGIN
+    WITH expired AS (
+        SELECT id FROM jobs
+        WHERE status = 'running' AND locked_until < NOW() AND attempts < max_attempts
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE jobs
+    SET status = 'queued',
+        run_at = NOW(),
+        locked_by = NULL,
+        locked_until = NULL,
+        last_error = 'リースの有効期限が切れました（ワーカー停止の可能性）',
+        updated_at = NOW()
+    FROM expired
+    WHERE jobs.id = expired.id;
+    GET DIAGNOSTICS v_expired_requeued = ROW_COUNT;
+
+    WITH expired AS (
+        SELECT id FROM jobs
+        WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts
+        FOR UPDATE SKIP LOCKED
+    ),
+    failed_jobs AS (
+        UPDATE jobs
+        SET status = 'failed',
+            locked_by = NULL,
+            locked_until = NULL,
+            last_error = 'リースの有効期限が切れました（試行回数の上限に達しました）',
+            completed_at = NOW(),
+            updated_at = NOW()
+        FROM expired
+        WHERE jobs.id = expired.id
+        RETURNING jobs.check_id, jobs.attempts
+    ),
+    failed_checks AS (
+        UPDATE checks
+        SET status = 'failed',
+            error_message = '処理に失敗しました (' || (failed_jobs.attempts - 1) || '回再試行済み): 処理中にワーカーが停止しました',
+            completed_at = NOW()
+        FROM failed_jobs
+        WHERE checks.id = failed_jobs.check_id
+          AND checks.status IN ('pending', 'processing')
+        RETURNING checks.id, checks.organization_id, checks.error_message
+    )
+    SELECT
+        (SELECT COUNT(*) FROM failed_jobs),
+        COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'checkId', fc.id,
+                'organizationId', fc.organization_id,
+                'errorMessage', fc.error_message
+            ))
+            FROM failed_checks fc
+        ), '[]'::jsonb)
+    INTO v_expired_failed, v_expired_failed_checks;
+
+    WITH orphaned AS (
+        SELECT c.id, c.organization_id, c.original_text, c.input_type, c.image_url, c.product_category, c.source_url
+        FROM checks c
+        WHERE c.status IN ('pending', 'processing')
+          AND c.deleted_at IS NULL
+          AND c.created_at < NOW() - make_interval(secs => p_orphan_grace_seconds)
+          AND NOT EXISTS (
+              SELECT 1 FROM jobs j
+              WHERE j.check_id = c.id AND j.status IN ('queued', 'running', 'failed')
+          )
+        FOR UPDATE OF c SKIP LOCKED
+    ),
+    requeued AS (
+        INSERT INTO jobs (queue, priority, payload, organization_id, check_id)
+        SELECT
+            'check',
+            1,
+            jsonb_build_object(
+                'text', o.original_text,
+                'inputType', COALESCE(o.input_type, 'text'),
+                'imageUrl', o.image_url,
+                'productCategory', o.product_category,
+                'sourceUrl', o.source_url
+            ),
+            o.organization_id,
+            o.id
+        FROM orphaned o
+        RETURNING check_id
+    ),
+    reset_checks AS (
+        UPDATE checks
+        SET status = 'pending'
+        FROM requeued
+        WHERE checks.id = requeued.check_id
+        RETURNING checks.id
+    )
+    SELECT COUNT(*) INTO v_orphaned_requeued FROM reset_checks;
+
+    WITH orphaned_failed AS (
+        UPDATE checks c
+        SET status = 'failed',
+            error_message = COALESCE(
+                (SELECT '処理に失敗しました: ' || j.last_error FROM jobs j
+                 WHERE j.check_id = c.id AND j.status = 'failed'
+                 ORDER BY j.id DESC LIMIT 1),
+                '処理に失敗しました'
+            ),
+            completed_at = NOW()
+        WHERE c.status IN ('pending', 'processing')
+          AND c.deleted_at IS NULL
+          AND c.created_at < NOW() - make_interval(secs => p_orphan_grace_seconds)
+          AND EXISTS (SELECT 1 FROM jobs j WHERE j.check_id = c.id AND j.status = 'failed')
+          AND NOT EXISTS (SELECT 1 FROM jobs j WHERE j.check_id = c.id AND j.status IN ('queued', 'running'))
+        RETURNING c.id, c.organization_id, c.error_message
+    )
+    SELECT
+        COUNT(*),
+        COALESCE(jsonb_agg(jsonb_build_object(
+            'checkId', ofc.id,
+            'organizationId', ofc.organization_id,
+            'errorMessage', ofc.error_message
+        )), '[]'::jsonb)
+    INTO v_orphaned_failed, v_orphaned_failed_checks
+    FROM orphaned_failed ofc;
+
+    RETURN QUERY SELECT
+        v_expired_requeued,
+        v_expired_failed,
+        v_orphaned_requeued,
+        v_orphaned_failed,
+        v_expired_failed_checks || v_orphaned_failed_checks;
+END;
+$$;
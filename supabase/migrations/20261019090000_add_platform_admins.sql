@@ -0,0 +1,120 @@
+-- Platform admins: プラットフォーム全体の設定を変更できる管理者
+-- users.role = 'admin' は組織の管理者（セルフサインアップで組織を作成したユーザーも admin になる）のため、
+-- 全組織に影響するシステム設定・機能フラグの変更はプラットフォーム管理者に限定する。
+-- platform_admins への登録・削除はサービスロール（運用スクリプト）のみ（本人の行の閲覧のみ許可）
+-- 組織の admin は、機能フラグの「常に有効 / 常に無効にする組織」への自組織の追加・削除だけ行える
+
+CREATE TABLE platform_admins (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE platform_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own platform admin entry" ON platform_admins
+    FOR SELECT USING (user_id = auth.uid());
+
+-- 現在のユーザーがプラットフォーム管理者か
+CREATE OR REPLACE FUNCTION is_platform_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT EXISTS (SELECT 1 FROM platform_admins WHERE user_id = auth.uid())
+$$;
+
+DROP POLICY IF EXISTS "Admins can manage system settings" ON system_settings;
+
+CREATE POLICY "Platform admins can manage system settings" ON system_settings
+    FOR ALL USING (is_platform_admin())
+    WITH CHECK (is_platform_admin());
+
+DROP POLICY IF EXISTS "Admins can manage feature flags" ON feature_flags;
+
+CREATE POLICY "Platform admins can manage feature flags" ON feature_flags
+    FOR ALL USING (is_platform_admin())
+    WITH CHECK (is_platform_admin());
+
+-- 更新できる項目は restrict_feature_flag_updates トリガーで自組織の上書きに限定する
+CREATE POLICY "Admins can update feature flag overrides of their organization" ON feature_flags
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM users
+            WHERE id = auth.uid() AND role = 'admin' AND organization_id IS NOT NULL
+        )
+    );
+
+-- 組織の配列から指定した組織を除いた残り（比較用に重複を除いて並べる）
+CREATE OR REPLACE FUNCTION other_organization_ids(p_ids BIGINT[], p_organization_id BIGINT)
+RETURNS BIGINT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE(array_agg(DISTINCT id ORDER BY id), '{}')
+    FROM unnest(p_ids) AS id
+    WHERE id IS DISTINCT FROM p_organization_id
+$$;
+
+-- プラットフォーム管理者・サービスロール以外は、自組織の常に有効 / 常に無効の指定以外を変更できない
+CREATE OR REPLACE FUNCTION restrict_feature_flag_updates()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_organization_id BIGINT;
+BEGIN
+    -- サービスロール（auth.uid() が NULL）とプラットフォーム管理者は制限しない
+    IF auth.uid() IS NULL OR is_platform_admin() THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT organization_id INTO v_organization_id FROM users WHERE id = auth.uid();
+
+    IF NEW.key IS DISTINCT FROM OLD.key
+        OR NEW.name IS DISTINCT FROM OLD.name
+        OR NEW.description IS DISTINCT FROM OLD.description
+        OR NEW.category IS DISTINCT FROM OLD.category
+        OR NEW.enabled IS DISTINCT FROM OLD.enabled
+        OR NEW.rollout_percentage IS DISTINCT FROM OLD.rollout_percentage
+        OR other_organization_ids(NEW.enabled_organization_ids, v_organization_id)
+            IS DISTINCT FROM other_organization_ids(OLD.enabled_organization_ids, v_organization_id)
+        OR other_organization_ids(NEW.disabled_organization_ids, v_organization_id)
+            IS DISTINCT FROM other_organization_ids(OLD.disabled_organization_ids, v_organization_id)
+    THEN
+        RAISE EXCEPTION 'Only platform admins can change feature flags beyond their own organization'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER restrict_feature_flag_updates
+    BEFORE UPDATE ON feature_flags
+    FOR EACH ROW EXECUTE FUNCTION restrict_feature_flag_updates();
+
+-- 変更履歴は全組織の変更を含むため、閲覧はプラットフォーム管理者と変更者本人に限定する
+DROP POLICY IF EXISTS "Admins can view settings audit logs" ON settings_audit_logs;
+
+CREATE POLICY "Platform admins can view settings audit logs" ON settings_audit_logs
+    FOR SELECT USING (is_platform_admin());
+
+CREATE POLICY "Users can view their own settings audit logs" ON settings_audit_logs
+    FOR SELECT USING (changed_by = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can record settings audit logs" ON settings_audit_logs;
+
+CREATE POLICY "Admins can record settings audit logs" ON settings_audit_logs
+    FOR INSERT WITH CHECK (
+        changed_by = auth.uid()
+        AND (
+            is_platform_admin()
+            OR (
+                target_type = 'feature_flag'
+                AND EXISTS (
+                    SELECT 1 FROM users
+                    WHERE id = auth.uid() AND role = 'admin'
+                )
+            )
+        )
+    );
+
+COMMENT ON TABLE platform_admins IS 'Users allowed to change platform-wide system settings and feature flags (managed by the service role only)';
@@ -0,0 +1,5 @@
+-- Batch checks: 子チェックのキュー追加に失敗したバッチを作成者が削除できるようにする
+-- 子チェックは failed として残り、checks.batch_id は ON DELETE SET NULL で外れる
+
+CREATE POLICY "Users can delete their own check batches" ON check_batches
+    FOR DELETE USING (user_id = auth.uid());
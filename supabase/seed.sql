@@ -218,6 +218,11 @@ ON CONFLICT (id) DO UPDATE SET
   organization_id = EXCLUDED.organization_id,
   role = EXCLUDED.role;
 
+-- admin@test.com をプラットフォーム管理者（システム設定・機能フラグの変更）に登録
+INSERT INTO platform_admins (user_id) VALUES
+('11111111-1111-1111-1111-111111111111')
+ON CONFLICT (user_id) DO NOTHING;
+
 -- テスト用辞書エントリを追加
 INSERT INTO dictionaries (organization_id, phrase, category, notes) VALUES 
 -- テスト組織A用の辞書
@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { JobQueueDepth, RepositoryContainer, User } from '@/core/ports'
+import { GetAdminQueueUseCase } from '@/core/usecases/admin/getQueue'
+
+const { users, jobs } = vi.hoisted(() => ({
+  users: { findById: vi.fn(), isPlatformAdmin: vi.fn() },
+  jobs: { getDepthByOrganization: vi.fn() }
+}))
+
+const repositories = { users } as unknown as RepositoryContainer
+const systemRepositories = { jobs } as unknown as RepositoryContainer
+
+const orgAdmin = { id: 'org-admin', role: 'admin', organization_id: 2 } as User
+
+const depth: JobQueueDepth[] = [
+  { organizationId: 2, organizationName: '組織A', plan: 'pro', queued: 3, running: 1, oldestQueuedAt: '2026-10-18T00:00:00Z' },
+  { organizationId: 5, organizationName: '組織B', plan: 'trial', queued: 7, running: 2, oldestQueuedAt: '2026-10-17T00:00:00Z' },
+  { organizationId: null, organizationName: null, plan: null, queued: 1, running: 0, oldestQueuedAt: null }
+]
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  users.findById.mockResolvedValue(orgAdmin)
+  users.isPlatformAdmin.mockResolvedValue(false)
+  jobs.getDepthByOrganization.mockResolvedValue(depth)
+})
+
+describe('GetAdminQueueUseCase', () => {
+  it('組織の admin には自組織の行だけを返す', async () => {
+    const result = await new GetAdminQueueUseCase(repositories, systemRepositories).execute({
+      currentUserId: orgAdmin.id,
+      queue: 'check'
+    })
+
+    expect(result).toMatchObject({ success: true, data: { totals: { queued: 3, running: 1 } } })
+    expect(result.success && result.data.organizations.map(row => row.organizationId)).toEqual([2])
+  })
+
+  it('組織に所属していない admin は参照できない', async () => {
+    users.findById.mockResolvedValue({ ...orgAdmin, organization_id: null })
+
+    const result = await new GetAdminQueueUseCase(repositories, systemRepositories).execute({
+      currentUserId: orgAdmin.id,
+      queue: 'check'
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'AUTHORIZATION_ERROR' } })
+    expect(jobs.getDepthByOrganization).not.toHaveBeenCalled()
+  })
+
+  it('プラットフォーム管理者には全組織の行を返す', async () => {
+    users.isPlatformAdmin.mockResolvedValue(true)
+
+    const result = await new GetAdminQueueUseCase(repositories, systemRepositories).execute({
+      currentUserId: orgAdmin.id,
+      queue: 'check'
+    })
+
+    expect(result).toMatchObject({ success: true, data: { totals: { queued: 11, running: 3 } } })
+    expect(result.success && result.data.organizations.map(row => row.organizationId)).toEqual([2, 5, null])
+  })
+})
@@ -0,0 +1,122 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { FeatureFlag, RepositoryContainer, User } from '@/core/ports'
+import { UpdateFeatureFlagUseCase } from '@/core/usecases/admin/updateFeatureFlag'
+import { UpdateSystemSettingsUseCase } from '@/core/usecases/admin/updateSystemSettings'
+
+vi.mock('@/lib/system-settings', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/system-settings')>(),
+  invalidateSystemSettingsCache: vi.fn()
+}))
+
+const { users, systemSettings, featureFlags, settingsAuditLogs } = vi.hoisted(() => ({
+  users: { findById: vi.fn(), isPlatformAdmin: vi.fn() },
+  systemSettings: { findByKey: vi.fn(), upsertByKey: vi.fn() },
+  featureFlags: { findByKey: vi.fn(), update: vi.fn() },
+  settingsAuditLogs: { create: vi.fn() }
+}))
+
+const repositories = { users, systemSettings, featureFlags, settingsAuditLogs } as unknown as RepositoryContainer
+
+const orgAdmin = { id: 'org-admin', role: 'admin', organization_id: 2 } as User
+
+const flag = {
+  id: 1,
+  key: 'pdf_input',
+  name: 'PDFチェック',
+  description: null,
+  category: 'beta',
+  enabled: true,
+  rollout_percentage: 50,
+  enabled_organization_ids: [5],
+  disabled_organization_ids: [7],
+  updated_by: null,
+  created_at: null,
+  updated_at: null
+} as FeatureFlag
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  users.findById.mockResolvedValue(orgAdmin)
+  users.isPlatformAdmin.mockResolvedValue(false)
+  featureFlags.findByKey.mockResolvedValue(flag)
+  featureFlags.update.mockImplementation(async (_id: number, changes: Partial<FeatureFlag>) => ({ ...flag, ...changes }))
+})
+
+describe('UpdateSystemSettingsUseCase', () => {
+  it('組織の admin はシステム設定を変更できない', async () => {
+    const result = await new UpdateSystemSettingsUseCase(repositories).execute({
+      currentUserId: orgAdmin.id,
+      notifications: {
+        emailNotifications: true,
+        slackIntegration: false,
+        slackWebhookUrl: '',
+        errorAlerts: true,
+        performanceAlerts: true,
+        securityAlerts: true
+      }
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'AUTHORIZATION_ERROR' } })
+    expect(systemSettings.upsertByKey).not.toHaveBeenCalled()
+  })
+})
+
+describe('UpdateFeatureFlagUseCase', () => {
+  it('組織の admin は自組織の指定だけを変更し、他の組織の指定は残す', async () => {
+    const result = await new UpdateFeatureFlagUseCase(repositories).execute({
+      currentUserId: orgAdmin.id,
+      key: 'pdf_input',
+      enabled: true,
+      rolloutPercentage: 50,
+      enabledOrganizationIds: [2],
+      disabledOrganizationIds: []
+    })
+
+    expect(featureFlags.update).toHaveBeenCalledWith(1, expect.objectContaining({
+      enabled: true,
+      rollout_percentage: 50,
+      enabled_organization_ids: [2, 5],
+      disabled_organization_ids: [7]
+    }))
+    expect(result).toMatchObject({
+      success: true,
+      data: { featureFlag: { enabledOrganizationIds: [2], disabledOrganizationIds: [] } }
+    })
+  })
+
+  it.each([
+    ['フラグの有効・無効', { enabled: false }],
+    ['展開率', { rolloutPercentage: 100 }],
+    ['他の組織の指定', { disabledOrganizationIds: [7, 9] }]
+  ])('組織の admin は%sを変更できない', async (_label, changes) => {
+    const result = await new UpdateFeatureFlagUseCase(repositories).execute({
+      currentUserId: orgAdmin.id,
+      key: 'pdf_input',
+      ...changes
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'AUTHORIZATION_ERROR' } })
+    expect(featureFlags.update).not.toHaveBeenCalled()
+  })
+
+  it('プラットフォーム管理者はフラグ全体と全組織の指定を変更できる', async () => {
+    users.isPlatformAdmin.mockResolvedValue(true)
+
+    const result = await new UpdateFeatureFlagUseCase(repositories).execute({
+      currentUserId: orgAdmin.id,
+      key: 'pdf_input',
+      enabled: false,
+      disabledOrganizationIds: [9, 7]
+    })
+
+    expect(featureFlags.update).toHaveBeenCalledWith(1, expect.objectContaining({
+      enabled: false,
+      enabled_organization_ids: [5],
+      disabled_organization_ids: [7, 9]
+    }))
+    expect(result).toMatchObject({ success: true, data: { featureFlag: { disabledOrganizationIds: [7, 9] } } })
+    expect(settingsAuditLogs.create).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { RepositoryContainer, User } from '@/core/ports'
+import { CreateCheckBatchUseCase } from '@/core/usecases/checks/createCheckBatch'
+import { publishDomainEvent } from '@/lib/domain-events'
+import { queueManager } from '@/lib/queue-manager'
+
+vi.mock('@/lib/queue-manager', () => ({ queueManager: { addManyToQueue: vi.fn() } }))
+vi.mock('@/lib/domain-events', () => ({ publishDomainEvent: vi.fn() }))
+
+const { users, checks, checkBatches } = vi.hoisted(() => ({
+  users: { findById: vi.fn() },
+  checks: { bulkCreateForBatch: vi.fn(), update: vi.fn() },
+  checkBatches: { create: vi.fn(), delete: vi.fn() }
+}))
+
+const repositories = { users, checks, checkBatches } as unknown as RepositoryContainer
+
+const user = { id: 'user-1', role: 'user', organization_id: 2 } as User
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  users.findById.mockResolvedValue(user)
+  checkBatches.create.mockResolvedValue({ id: 30 })
+  checks.bulkCreateForBatch.mockResolvedValue([
+    { id: 1, original_text: '商品A', created_at: null },
+    { id: 2, original_text: '商品B', created_at: null }
+  ])
+})
+
+describe('CreateCheckBatchUseCase', () => {
+  it('キューに追加できなかった場合は子チェックを failed にしてバッチを削除する', async () => {
+    vi.mocked(queueManager.addManyToQueue).mockRejectedValue(new Error('connection refused'))
+
+    const result = await new CreateCheckBatchUseCase(repositories).execute({
+      userId: user.id,
+      organizationId: 2,
+      items: [{ text: '商品A' }, { text: '商品B' }],
+      source: 'text'
+    })
+
+    expect(result).toMatchObject({ success: false, error: { code: 'QUEUE_ERROR' } })
+    expect(checks.update).toHaveBeenCalledTimes(2)
+    expect(checks.update).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'failed' }))
+    expect(checkBatches.delete).toHaveBeenCalledWith(30)
+    expect(publishDomainEvent).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,59 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { Check, RepositoryContainer, User } from '@/core/ports'
+import type { Violation } from '@/core/ports/violations'
+import { DecideViolationSuggestionUseCase } from '@/core/usecases/checks/decideViolationSuggestion'
+
+const { users, checks, violations } = vi.hoisted(() => ({
+  users: { findById: vi.fn() },
+  checks: { findById: vi.fn(), update: vi.fn() },
+  violations: { findById: vi.fn(), update: vi.fn(), findByCheckId: vi.fn() }
+}))
+
+const repositories = { users, checks, violations } as unknown as RepositoryContainer
+
+const user = { id: 'user-1', role: 'user', organization_id: 2 } as User
+
+const violation = {
+  id: 10,
+  check_id: 1,
+  start_pos: 5,
+  end_pos: 10,
+  suggested_text: '健康維持',
+  decision: 'pending',
+  selected_text: null
+} as Violation
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  users.findById.mockResolvedValue(user)
+  violations.findById.mockResolvedValue(violation)
+  violations.update.mockImplementation(async (_id: number, changes: Partial<Violation>) => ({ ...violation, ...changes }))
+  violations.findByCheckId.mockResolvedValue([{ ...violation, decision: 'accepted', selected_text: '健康維持' }])
+})
+
+describe('DecideViolationSuggestionUseCase', () => {
+  it.each(['pdf', 'url'] as const)('%s のチェックは抽出テキストに置換案を適用する', async inputType => {
+    checks.findById.mockResolvedValue({
+      id: 1,
+      user_id: user.id,
+      organization_id: 2,
+      status: 'completed',
+      deleted_at: null,
+      input_type: inputType,
+      original_text: '',
+      extracted_text: 'この商品は病気が治る'
+    } as unknown as Check)
+
+    const result = await new DecideViolationSuggestionUseCase(repositories).execute({
+      checkId: 1,
+      violationId: 10,
+      currentUserId: user.id,
+      decision: 'accepted'
+    })
+
+    expect(result).toMatchObject({ success: true, data: { finalText: 'この商品は健康維持' } })
+    expect(checks.update).toHaveBeenCalledWith(1, { final_text: 'この商品は健康維持' })
+  })
+})
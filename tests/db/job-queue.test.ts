@@ -0,0 +1,339 @@
+// @vitest-environment node
+/**
+ * 永続ジョブキューの SQL 関数（claim_jobs / claim_fair_jobs / heartbeat_jobs / complete_job / fail_job / reap_jobs）のテスト
+ * DATABASE_URL の Postgres に一時スキーマを作ってマイグレーションを適用し、終了時に削除する。
+ * DATABASE_URL が未設定・接続できない場合はスキップする。
+ */
+import { readFileSync } from 'fs'
+import path from 'path'
+
+import { Client, types } from 'pg'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+
+// BIGINT（id など）を数値で受け取る
+types.setTypeParser(types.builtins.INT8, value => Number(value))
+
+const MIGRATIONS = [
+  '20261018180000_add_job_queue.sql',
+  '20261018190000_add_fair_job_scheduling.sql',
+  '20261019060000_return_failed_checks_from_reap_jobs.sql',
+  '20261019080000_include_source_url_in_reaped_jobs.sql'
+]
+
+/**
+ * ジョブキューの関数が参照する organizations / checks の列だけを持つテーブル
+ * （Supabase の auth スキーマに依存せずに作れるようにする）
+ */
+const PREREQUISITES = `
+  DO $$
+  BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN CREATE ROLE anon NOLOGIN; END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN CREATE ROLE authenticated NOLOGIN; END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN CREATE ROLE service_role NOLOGIN; END IF;
+  END
+  $$;
+
+  CREATE TABLE organizations (
+    id BIGSERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    plan TEXT DEFAULT 'trial'
+  );
+
+  CREATE TABLE checks (
+    id BIGSERIAL PRIMARY KEY,
+    organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    original_text TEXT NOT NULL,
+    status TEXT DEFAULT 'pending',
+    input_type TEXT DEFAULT 'text',
+    image_url TEXT,
+    product_category TEXT,
+    source_url TEXT,
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    deleted_at TIMESTAMP WITH TIME ZONE
+  );
+`
+
+interface JobRow {
+  id: number
+  queue: string
+  status: string
+  priority: number
+  payload: Record<string, unknown>
+  organization_id: number | null
+  check_id: number | null
+  attempts: number
+  max_attempts: number
+  locked_by: string | null
+  locked_until: Date | null
+  last_error: string | null
+  completed_at: Date | null
+}
+
+interface ReapRow {
+  expired_requeued: number
+  expired_failed: number
+  orphaned_requeued: number
+  orphaned_failed: number
+  failed_checks: { checkId: number; organizationId: number; errorMessage: string | null }[]
+}
+
+async function connectTestDatabase(): Promise<Client | null> {
+  const connectionString = process.env.DATABASE_URL
+  if (!connectionString) return null
+
+  try {
+    const client = new Client({ connectionString, connectionTimeoutMillis: 3000 })
+    await client.connect()
+    return client
+  } catch (error) {
+    console.warn('DATABASE_URL に接続できないため、ジョブキューの SQL テストをスキップします:', error)
+    return null
+  }
+}
+
+const connected = await connectTestDatabase()
+
+describe.skipIf(!connected)('ジョブキューの SQL 関数', () => {
+  const db = connected as Client
+  const schema = `job_queue_test_${process.pid}_${Date.now()}`
+  let organizationId: number
+
+  const query = async <T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> =>
+    (await db.query(sql, params)).rows as T[]
+
+  const findJob = async (id: number) => (await query<JobRow>('SELECT * FROM jobs WHERE id = $1', [id]))[0]
+
+  const insertJob = async (values: Partial<JobRow> & { run_at_offset_seconds?: number } = {}) => {
+    const [row] = await query<{ id: number }>(
+      `INSERT INTO jobs (queue, priority, payload, organization_id, check_id, max_attempts, run_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(secs => $7))
+       RETURNING id`,
+      [
+        values.queue ?? 'check',
+        values.priority ?? 1,
+        JSON.stringify(values.payload ?? {}),
+        values.organization_id ?? null,
+        values.check_id ?? null,
+        values.max_attempts ?? 3,
+        values.run_at_offset_seconds ?? 0
+      ]
+    )
+    return row.id
+  }
+
+  const insertCheck = async (values: { status?: string; ageSeconds?: number; inputType?: string; sourceUrl?: string } = {}) => {
+    const [row] = await query<{ id: number }>(
+      `INSERT INTO checks (organization_id, original_text, status, input_type, source_url, created_at)
+       VALUES ($1, 'チェック対象の原稿', $2, $3, $4, NOW() - make_interval(secs => $5))
+       RETURNING id`,
+      [organizationId, values.status ?? 'pending', values.inputType ?? 'text', values.sourceUrl ?? null, values.ageSeconds ?? 600]
+    )
+    return row.id
+  }
+
+  const claim = (queue: string, workerId: string, limit: number) =>
+    query<JobRow>('SELECT * FROM claim_jobs($1, $2, $3, 60) ORDER BY priority, id', [queue, workerId, limit])
+
+  const expireLease = (jobId: number) =>
+    query("UPDATE jobs SET locked_until = NOW() - INTERVAL '1 second' WHERE id = $1", [jobId])
+
+  const reap = async () => (await query<ReapRow>('SELECT * FROM reap_jobs(120)'))[0]
+
+  beforeAll(async () => {
+    await db.query(`CREATE SCHEMA "${schema}"`)
+    await db.query(`SET search_path TO "${schema}"`)
+    await db.query(PREREQUISITES)
+    for (const migration of MIGRATIONS) {
+      await db.query(readFileSync(path.join(process.cwd(), 'supabase', 'migrations', migration), 'utf-8'))
+    }
+  }, 30000)
+
+  afterAll(async () => {
+    await db.query(`DROP SCHEMA IF EXISTS "${schema}" CASCADE`)
+    await db.end()
+  })
+
+  beforeEach(async () => {
+    await db.query('TRUNCATE jobs, checks, organizations RESTART IDENTITY CASCADE')
+    const [organization] = await query<{ id: number }>(
+      "INSERT INTO organizations (name, plan) VALUES ('テスト組織', 'trial') RETURNING id"
+    )
+    organizationId = organization.id
+  })
+
+  describe('claim_jobs', () => {
+    it('指定キューの実行可能なジョブを優先度順に上限数だけリース付きで取得する', async () => {
+      const low = await insertJob({ queue: 'embedding', priority: 2 })
+      const normal = await insertJob({ queue: 'embedding', priority: 1 })
+      const high = await insertJob({ queue: 'embedding', priority: 0 })
+      await insertJob({ queue: 'check', priority: 0 })
+
+      const claimed = await claim('embedding', 'worker-a', 2)
+
+      expect(claimed.map(job => job.id)).toEqual([high, normal])
+      for (const job of claimed) {
+        expect(job.status).toBe('running')
+        expect(job.attempts).toBe(1)
+        expect(job.locked_by).toBe('worker-a')
+        expect(job.locked_until?.getTime()).toBeGreaterThan(Date.now() + 30_000)
+      }
+      expect((await findJob(low)).status).toBe('queued')
+    })
+
+    it('リース中のジョブと実行時刻前のジョブは取得しない', async () => {
+      const leased = await insertJob()
+      await claim('check', 'worker-a', 1)
+      const waiting = await insertJob({ run_at_offset_seconds: 3600 })
+      const ready = await insertJob()
+
+      const claimed = await claim('check', 'worker-b', 10)
+
+      expect(claimed.map(job => job.id)).toEqual([ready])
+      expect((await findJob(leased)).locked_by).toBe('worker-a')
+      expect((await findJob(waiting)).status).toBe('queued')
+    })
+  })
+
+  describe('heartbeat_jobs / complete_job / fail_job', () => {
+    it('リースを持つワーカーだけがリースを延長・完了できる', async () => {
+      const mine = await insertJob({ priority: 0 })
+      const others = await insertJob({ priority: 1 })
+      await claim('check', 'worker-a', 1)
+      await claim('check', 'worker-b', 1)
+
+      const extended = await query<{ heartbeat_jobs: number }>(
+        'SELECT heartbeat_jobs FROM heartbeat_jobs($1, $2, 600)',
+        ['worker-a', [mine, others]]
+      )
+      expect(extended.map(row => row.heartbeat_jobs)).toEqual([mine])
+      expect((await findJob(mine)).locked_until?.getTime()).toBeGreaterThan(Date.now() + 300_000)
+
+      const [{ completed: byOther }] = await query<{ completed: boolean }>('SELECT complete_job($1, $2) AS completed', [mine, 'worker-b'])
+      const [{ completed: byOwner }] = await query<{ completed: boolean }>('SELECT complete_job($1, $2) AS completed', [mine, 'worker-a'])
+      expect(byOther).toBe(false)
+      expect(byOwner).toBe(true)
+
+      const completed = await findJob(mine)
+      expect(completed.status).toBe('completed')
+      expect(completed.locked_by).toBeNull()
+      expect(completed.completed_at).not.toBeNull()
+    })
+
+    it('再試行時刻を指定した失敗は queued に戻し、時刻まで取得させない', async () => {
+      const jobId = await insertJob()
+      await claim('check', 'worker-a', 1)
+
+      await query("SELECT fail_job($1, 'worker-a', '一時的なエラー', NOW() + INTERVAL '1 hour', 0::SMALLINT)", [jobId])
+
+      const job = await findJob(jobId)
+      expect(job).toMatchObject({ status: 'queued', priority: 0, locked_by: null, last_error: '一時的なエラー' })
+      expect(await claim('check', 'worker-a', 10)).toEqual([])
+    })
+
+    it('再試行時刻を指定しない失敗は failed で確定する', async () => {
+      const jobId = await insertJob()
+      await claim('check', 'worker-a', 1)
+
+      const [{ failed: byOther }] = await query<{ failed: boolean }>("SELECT fail_job($1, 'worker-b', 'x') AS failed", [jobId])
+      const [{ failed: byOwner }] = await query<{ failed: boolean }>("SELECT fail_job($1, 'worker-a', '致命的なエラー') AS failed", [jobId])
+
+      expect(byOther).toBe(false)
+      expect(byOwner).toBe(true)
+      expect(await findJob(jobId)).toMatchObject({ status: 'failed', last_error: '致命的なエラー' })
+    })
+  })
+
+  describe('claim_fair_jobs', () => {
+    it('プランごとの同時実行数の上限を組織単位で守って取得する', async () => {
+      const [basic] = await query<{ id: number }>("INSERT INTO organizations (name, plan) VALUES ('basic', 'basic') RETURNING id")
+      for (let i = 0; i < 5; i++) await insertJob({ organization_id: organizationId, priority: 0 })
+      for (let i = 0; i < 5; i++) await insertJob({ organization_id: basic.id, priority: 2 })
+      const policies = JSON.stringify({ trial: { weight: 1, max_concurrent: 1 }, basic: { weight: 2, max_concurrent: 3 } })
+
+      const claimed = await query<JobRow>("SELECT * FROM claim_fair_jobs('check', 'worker-a', 10, 60, $1)", [policies])
+
+      expect(claimed.filter(job => job.organization_id === organizationId)).toHaveLength(1)
+      expect(claimed.filter(job => job.organization_id === basic.id)).toHaveLength(3)
+      expect(await query("SELECT * FROM claim_fair_jobs('check', 'worker-b', 10, 60, $1)", [policies])).toEqual([])
+    })
+  })
+
+  describe('reap_jobs', () => {
+    it('リース切れのジョブは試行回数が残っていれば queued に戻す', async () => {
+      const checkId = await insertCheck({ status: 'processing' })
+      const jobId = await insertJob({ organization_id: organizationId, check_id: checkId })
+      await claim('check', 'worker-crashed', 1)
+      await expireLease(jobId)
+
+      const result = await reap()
+
+      expect(result).toMatchObject({ expired_requeued: 1, expired_failed: 0, failed_checks: [] })
+      expect(await findJob(jobId)).toMatchObject({ status: 'queued', locked_by: null, attempts: 1 })
+      expect((await claim('check', 'worker-b', 1)).map(job => job.attempts)).toEqual([2])
+    })
+
+    it('試行回数の上限に達したリース切れはジョブとチェックを失敗にして、失敗したチェックを返す', async () => {
+      const checkId = await insertCheck({ status: 'processing' })
+      const jobId = await insertJob({ organization_id: organizationId, check_id: checkId, max_attempts: 1 })
+      await claim('check', 'worker-crashed', 1)
+      await expireLease(jobId)
+
+      const result = await reap()
+
+      expect(result.expired_failed).toBe(1)
+      expect(await findJob(jobId)).toMatchObject({ status: 'failed', locked_by: null })
+      const [check] = await query<{ status: string; error_message: string }>('SELECT status, error_message FROM checks WHERE id = $1', [checkId])
+      expect(check).toEqual({
+        status: 'failed',
+        error_message: '処理に失敗しました (0回再試行済み): 処理中にワーカーが停止しました'
+      })
+      expect(result.failed_checks).toEqual([{ checkId, organizationId, errorMessage: check.error_message }])
+    })
+
+    it('ジョブを持たない孤立チェックを再投入する（URLチェックは sourceUrl を引き継ぐ）', async () => {
+      const orphanId = await insertCheck({ inputType: 'url', sourceUrl: 'https://example.com/lp' })
+      const recentId = await insertCheck({ ageSeconds: 10 })
+      const completedId = await insertCheck({ status: 'completed' })
+
+      const result = await reap()
+
+      expect(result.orphaned_requeued).toBe(1)
+      const requeued = await query<JobRow>('SELECT * FROM jobs')
+      expect(requeued).toHaveLength(1)
+      expect(requeued[0]).toMatchObject({
+        queue: 'check',
+        status: 'queued',
+        organization_id: organizationId,
+        check_id: orphanId,
+        payload: {
+          text: 'チェック対象の原稿',
+          inputType: 'url',
+          imageUrl: null,
+          productCategory: null,
+          sourceUrl: 'https://example.com/lp'
+        }
+      })
+      expect(requeued.map(job => job.check_id)).not.toContain(recentId)
+      expect(requeued.map(job => job.check_id)).not.toContain(completedId)
+    })
+
+    it('失敗確定済みのジョブしかない孤立チェックは再投入せず失敗にする', async () => {
+      const checkId = await insertCheck({ status: 'processing' })
+      const jobId = await insertJob({ organization_id: organizationId, check_id: checkId })
+      await claim('check', 'worker-a', 1)
+      await query("SELECT fail_job($1, 'worker-a', 'LLM timeout')", [jobId])
+
+      const result = await reap()
+
+      expect(result).toMatchObject({ orphaned_requeued: 0, orphaned_failed: 1 })
+      const [check] = await query<{ status: string; error_message: string }>('SELECT status, error_message FROM checks WHERE id = $1', [checkId])
+      expect(check).toEqual({ status: 'failed', error_message: '処理に失敗しました: LLM timeout' })
+      expect(result.failed_checks).toEqual([
+        { checkId, organizationId, errorMessage: '処理に失敗しました: LLM timeout' }
+      ])
+      expect(await query('SELECT id FROM jobs WHERE status = $1', ['queued'])).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+
+import { detectBatchFileSource, parseBatchFile } from '@/lib/batch-import'
+
+const csv = (content: string): ArrayBuffer => {
+  const bytes = new TextEncoder().encode(content)
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+}
+
+const xlsx = (rows: unknown[][]): ArrayBuffer => {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Sheet1')
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer
+}
+
+describe('parseBatchFile', () => {
+  it('既知の列名のヘッダーがあれば本文・ラベルの列を名前で選ぶ', () => {
+    const result = parseBatchFile(csv('sku,本文,メモ\nA-1,シミが消える美容液,x\nA-2,毎日の保湿に,y\n'), 'items.csv')
+
+    expect(result).toEqual({
+      source: 'csv',
+      items: [
+        { text: 'シミが消える美容液', label: 'A-1' },
+        { text: '毎日の保湿に', label: 'A-2' }
+      ]
+    })
+  })
+
+  it('ヘッダーがなければ全行をデータとして1列目を本文、2列目をラベルとする', () => {
+    const result = parseBatchFile(csv('飲むだけで痩せる,商品A\n翌朝すっきり,商品B\n'), 'items.CSV')
+
+    expect(result.items).toEqual([
+      { text: '飲むだけで痩せる', label: '商品A' },
+      { text: '翌朝すっきり', label: '商品B' }
+    ])
+  })
+
+  it('1列だけのファイルはラベルなしで取り込み、本文が空の行は読み飛ばす', () => {
+    const result = parseBatchFile(csv('text\n  一行目  \n\n"カンマ, を含む本文"\n ,\n'), 'items.csv')
+
+    expect(result.items).toEqual([{ text: '一行目' }, { text: 'カンマ, を含む本文' }])
+  })
+
+  it('XLSX の先頭シートを読み込む', () => {
+    const result = parseBatchFile(xlsx([['Title', 'Text'], ['LP-1', '医師も推奨'], ['LP-2', '']]), 'items.xlsx')
+
+    expect(result).toEqual({ source: 'xlsx', items: [{ text: '医師も推奨', label: 'LP-1' }] })
+  })
+
+  it('未対応の拡張子は例外を投げる', () => {
+    expect(() => parseBatchFile(csv('text'), 'items.txt')).toThrow('CSV または XLSX ファイルを指定してください')
+  })
+})
+
+describe('detectBatchFileSource', () => {
+  it('拡張子から取り込み形式を判定する', () => {
+    expect(detectBatchFileSource('a.csv')).toBe('csv')
+    expect(detectBatchFileSource('a.XLSX')).toBe('xlsx')
+    expect(detectBatchFileSource('a.xls')).toBe('xlsx')
+    expect(detectBatchFileSource('a.json')).toBeNull()
+  })
+})
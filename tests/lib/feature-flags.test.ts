@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+
+import { EvaluableFeatureFlag, evaluateFeatureFlag, findRouteFeatureFlag, rolloutBucket } from '@/lib/feature-flags'
+
+const flag = (overrides: Partial<EvaluableFeatureFlag> = {}): EvaluableFeatureFlag => ({
+  key: 'batch_api',
+  enabled: true,
+  rollout_percentage: 100,
+  enabled_organization_ids: [],
+  disabled_organization_ids: [],
+  ...overrides
+})
+
+describe('evaluateFeatureFlag', () => {
+  it('フラグ自体が無効なら個別指定の組織も無効', () => {
+    expect(evaluateFeatureFlag(flag({ enabled: false, enabled_organization_ids: [1] }), 1)).toBe(false)
+  })
+
+  it('無効指定は有効指定・展開率より優先する', () => {
+    const evaluated = flag({ enabled_organization_ids: [1], disabled_organization_ids: [1] })
+
+    expect(evaluateFeatureFlag(evaluated, 1)).toBe(false)
+    expect(evaluateFeatureFlag(evaluated, 2)).toBe(true)
+  })
+
+  it('有効指定の組織は展開率 0% でも有効', () => {
+    expect(evaluateFeatureFlag(flag({ rollout_percentage: 0, enabled_organization_ids: [7] }), 7)).toBe(true)
+    expect(evaluateFeatureFlag(flag({ rollout_percentage: 0 }), 7)).toBe(false)
+  })
+
+  it('組織に属さない場合は全組織に展開済みのときのみ有効', () => {
+    expect(evaluateFeatureFlag(flag({ rollout_percentage: 100 }), null)).toBe(true)
+    expect(evaluateFeatureFlag(flag({ rollout_percentage: 99 }), null)).toBe(false)
+  })
+
+  it('展開率はバケットで判定し、展開率を上げても有効な組織は無効に戻らない', () => {
+    const organizationIds = Array.from({ length: 200 }, (_, index) => index + 1)
+    const enabledAt = (percentage: number) =>
+      organizationIds.filter(id => evaluateFeatureFlag(flag({ rollout_percentage: percentage }), id))
+
+    const at30 = enabledAt(30)
+    const at60 = enabledAt(60)
+    expect(at30.every(id => at60.includes(id))).toBe(true)
+    expect(at30.every(id => rolloutBucket('batch_api', id) < 30)).toBe(true)
+    expect(at30.length).toBeGreaterThan(0)
+    expect(at60.length).toBeGreaterThan(at30.length)
+  })
+})
+
+describe('rolloutBucket', () => {
+  it('同じキーと組織では常に同じ 0〜99 のバケットを返し、キーごとに並びが変わる', () => {
+    const buckets = Array.from({ length: 50 }, (_, index) => rolloutBucket('pdf_input', index + 1))
+
+    expect(buckets.every(bucket => Number.isInteger(bucket) && bucket >= 0 && bucket < 100)).toBe(true)
+    expect(rolloutBucket('pdf_input', 3)).toBe(rolloutBucket('pdf_input', 3))
+    expect(buckets).not.toEqual(Array.from({ length: 50 }, (_, index) => rolloutBucket('custom_reports', index + 1)))
+  })
+})
+
+describe('findRouteFeatureFlag', () => {
+  it('パスのプレフィックスで対応するフラグを返す', () => {
+    expect(findRouteFeatureFlag('/api/checks/batch')).toBe('batch_api')
+    expect(findRouteFeatureFlag('/api/checks/batch/12/export')).toBe('batch_api')
+    expect(findRouteFeatureFlag('/api/checks/batches')).toBeNull()
+    expect(findRouteFeatureFlag('/api/checks')).toBeNull()
+  })
+})
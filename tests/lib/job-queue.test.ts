@@ -0,0 +1,195 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { Job } from '@/core/ports'
+import { DurableJobWorker, JobWorkerOptions, reapJobs } from '@/lib/job-queue'
+
+const { jobsRepository, publishDomainEvent } = vi.hoisted(() => ({
+  jobsRepository: {
+    claim: vi.fn(),
+    claimFair: vi.fn(),
+    heartbeat: vi.fn(),
+    complete: vi.fn(),
+    fail: vi.fn(),
+    reap: vi.fn()
+  },
+  publishDomainEvent: vi.fn()
+}))
+
+vi.mock('@/infra/supabase/adminClient', () => ({ getSystemClient: () => ({}) }))
+vi.mock('@/infra/repositories', () => ({ createRepositories: () => ({ jobs: jobsRepository }) }))
+vi.mock('@/lib/domain-events', () => ({ publishDomainEvent }))
+
+const NOW = new Date('2026-10-18T09:00:00Z')
+
+function createJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    queue: 'check',
+    status: 'running',
+    priority: 1,
+    payload: {},
+    organization_id: 10,
+    check_id: 100,
+    group_id: null,
+    attempts: 1,
+    max_attempts: 3,
+    run_at: NOW.toISOString(),
+    locked_by: 'worker',
+    locked_until: null,
+    heartbeat_at: null,
+    last_error: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    completed_at: null,
+    ...overrides
+  }
+}
+
+describe('DurableJobWorker', () => {
+  let worker: DurableJobWorker | null = null
+
+  const startWorker = (options: Partial<JobWorkerOptions>) => {
+    worker = new DurableJobWorker({
+      queue: 'check',
+      concurrency: 2,
+      handle: async () => {},
+      onFailure: async () => null,
+      ...options
+    })
+    worker.start()
+    return worker
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    vi.clearAllMocks()
+    jobsRepository.claim.mockResolvedValueOnce([createJob()]).mockResolvedValue([])
+    jobsRepository.claimFair.mockResolvedValueOnce([createJob()]).mockResolvedValue([])
+    jobsRepository.complete.mockResolvedValue(true)
+    jobsRepository.fail.mockResolvedValue(true)
+    jobsRepository.heartbeat.mockResolvedValue([])
+    jobsRepository.reap.mockResolvedValue({
+      expiredRequeued: 0,
+      expiredFailed: 0,
+      orphanedRequeued: 0,
+      orphanedFailed: 0,
+      failedChecks: []
+    })
+  })
+
+  afterEach(async () => {
+    await worker?.stop()
+    worker = null
+    vi.useRealTimers()
+  })
+
+  it('空き枠の数だけリース付きで取得し、成功したジョブを完了にする', async () => {
+    const handle = vi.fn(async () => {})
+    const { workerId } = startWorker({ handle }).getStatus()
+
+    await vi.waitFor(() => expect(jobsRepository.complete).toHaveBeenCalledWith(1, workerId))
+    expect(jobsRepository.claim).toHaveBeenCalledWith('check', workerId, 2, 60)
+    expect(handle).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }))
+    expect(jobsRepository.fail).not.toHaveBeenCalled()
+  })
+
+  it('再試行する場合は判定の待ち時間後の時刻と優先度で queued に戻す', async () => {
+    let decidedAt = 0
+    const onFailure = vi.fn(async () => {
+      decidedAt = Date.now()
+      return { delayMs: 4000, priority: 0 }
+    })
+    const { workerId } = startWorker({
+      handle: async () => { throw new Error('LLM timeout') },
+      onFailure
+    }).getStatus()
+
+    await vi.waitFor(() => expect(jobsRepository.fail).toHaveBeenCalled())
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ id: 1, attempts: 1 }), expect.any(Error))
+    expect(jobsRepository.fail).toHaveBeenCalledWith(
+      1,
+      workerId,
+      'LLM timeout',
+      new Date(decidedAt + 4000),
+      0
+    )
+    expect(jobsRepository.complete).not.toHaveBeenCalled()
+  })
+
+  it('再試行しない判定なら再試行時刻なしで失敗を確定する', async () => {
+    const { workerId } = startWorker({
+      handle: async () => { throw 'not an error object' },
+      onFailure: async () => null
+    }).getStatus()
+
+    await vi.waitFor(() => expect(jobsRepository.fail).toHaveBeenCalled())
+    expect(jobsRepository.fail).toHaveBeenCalledWith(1, workerId, 'not an error object', null, undefined)
+  })
+
+  it('再試行判定が失敗した場合は記録せずリース切れの回収に任せる', async () => {
+    const onFailure = vi.fn(async () => { throw new Error('db down') })
+    startWorker({ handle: async () => { throw new Error('boom') }, onFailure })
+
+    await vi.waitFor(() => expect(onFailure).toHaveBeenCalled())
+    expect(jobsRepository.fail).not.toHaveBeenCalled()
+  })
+
+  it('プラン別設定がある場合は公平スケジューリングで取得する', async () => {
+    const tierPolicies = { trial: { weight: 1, maxConcurrent: 1 } }
+    const { workerId } = startWorker({ tierPolicies }).getStatus()
+
+    await vi.waitFor(() => expect(jobsRepository.complete).toHaveBeenCalled())
+    expect(jobsRepository.claimFair).toHaveBeenCalledWith('check', workerId, 2, 60, tierPolicies)
+    expect(jobsRepository.claim).not.toHaveBeenCalled()
+  })
+
+  it('一時停止中は新しいジョブを取得しない', async () => {
+    const isPaused = vi.fn(async () => true)
+    const current = startWorker({ isPaused })
+
+    await vi.waitFor(() => expect(isPaused).toHaveBeenCalled())
+    await vi.waitFor(() => expect(current.getStatus().paused).toBe(true))
+    expect(jobsRepository.claim).not.toHaveBeenCalled()
+  })
+})
+
+describe('reapJobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('回収で失敗が確定したチェックごとに CheckFailed を発行する', async () => {
+    jobsRepository.reap.mockResolvedValue({
+      expiredRequeued: 1,
+      expiredFailed: 1,
+      orphanedRequeued: 0,
+      orphanedFailed: 1,
+      failedChecks: [
+        { checkId: 5, organizationId: 2, errorMessage: '処理に失敗しました: timeout' },
+        { checkId: 6, organizationId: 3, errorMessage: null }
+      ]
+    })
+
+    await reapJobs()
+
+    expect(jobsRepository.reap).toHaveBeenCalledWith(120)
+    expect(publishDomainEvent).toHaveBeenCalledTimes(2)
+    expect(publishDomainEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'CheckFailed',
+      aggregateId: '5',
+      data: expect.objectContaining({ checkId: 5, organizationId: 2, errorMessage: '処理に失敗しました: timeout' })
+    }))
+    expect(publishDomainEvent).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ checkId: 6, organizationId: 3, errorMessage: '処理に失敗しました' })
+    }))
+  })
+
+  it('回収に失敗しても例外を投げない', async () => {
+    jobsRepository.reap.mockRejectedValue(new Error('connection refused'))
+
+    await expect(reapJobs()).resolves.toBeUndefined()
+    expect(publishDomainEvent).not.toHaveBeenCalled()
+  })
+})
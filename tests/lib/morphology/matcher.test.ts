@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+
+import { createMorphologicalMatcher, KuromojiPhraseMatcher, MorphologicalToken } from '@/lib/morphology'
+
+const matched = (text: string, match: { range: { start: number; end: number } }) =>
+  text.slice(match.range.start, match.range.end)
+
+describe('KuromojiPhraseMatcher', () => {
+  let matcher: KuromojiPhraseMatcher
+
+  beforeAll(async () => {
+    const created = await createMorphologicalMatcher()
+    expect(created).toBeInstanceOf(KuromojiPhraseMatcher)
+    matcher = created as KuromojiPhraseMatcher
+  }, 60000)
+
+  it('活用形を基本形で一致させ、後続の助動詞まで一致範囲に含める', () => {
+    const text = 'このクリームでシミが治りました'
+    const [match, ...rest] = matcher.findInflectedMatches(text, '治る')
+
+    expect(rest).toHaveLength(0)
+    expect(matched(text, match)).toBe('治りました')
+    expect(match.confidence).toBe(0.9)
+    expect(match.baseForm).toBe('治る')
+  })
+
+  it('表層形が一致する場合は信頼度 1 とする', () => {
+    const text = '絶対に痩せる'
+    const [match] = matcher.findInflectedMatches(text, '痩せる')
+
+    expect(matched(text, match)).toBe('痩せる')
+    expect(match.confidence).toBe(1)
+  })
+
+  it('可能動詞など基本形の異なる活用は語幹で一致させる', () => {
+    const text = '肌のシミを消せる美容液'
+    const [match] = matcher.findInflectedMatches(text, 'シミを消す')
+
+    expect(matched(text, match)).toBe('シミを消せる')
+    expect(match.confidence).toBe(0.7)
+  })
+
+  it('読みの異なる同字語には一致しない', () => {
+    expect(matcher.findInflectedMatches('国を治める', '治る')).toEqual([])
+  })
+
+  it('全角・半角の違いを正規化して比較し、元テキストの位置を返す', () => {
+    const text = '話題のＡＢＣ治療'
+    const [match] = matcher.findInflectedMatches(text, 'ABC治療')
+
+    expect(match.range.start).toBe(3)
+    expect(matched(text, match)).toBe('ＡＢＣ治療')
+  })
+})
+
+describe('KuromojiPhraseMatcher（トークナイザーを差し替え）', () => {
+  const token = (surface: string, pos: string, extra: Partial<MorphologicalToken> = {}): MorphologicalToken => ({
+    word_id: 0,
+    word_type: 'KNOWN',
+    word_position: 0,
+    surface_form: surface,
+    pos,
+    pos_detail_1: '*',
+    pos_detail_2: '*',
+    pos_detail_3: '*',
+    conjugated_type: '*',
+    conjugated_form: '*',
+    basic_form: surface,
+    reading: '*',
+    pronunciation: '*',
+    ...extra
+  })
+
+  it('空白トークンを飛ばしてUTF-16オフセットを求め、同じテキストは再解析しない', () => {
+    const tokens: Record<string, MorphologicalToken[]> = {
+      '😀最高': [token('😀', '記号'), token('最高', '名詞')],
+      '最高 級': [token('最高', '名詞'), token(' ', '記号', { pos_detail_1: '空白' }), token('級', '名詞')]
+    }
+    const tokenize = vi.fn((text: string) => tokens[text] ?? [token(text, '名詞')])
+    const matcher = new KuromojiPhraseMatcher(tokenize)
+
+    expect(matcher.findInflectedMatches('😀最高', '最高')[0].range.start).toBe(2)
+    matcher.findInflectedMatches('😀最高', '最高')
+    expect(tokenize.mock.calls.filter(([text]) => text === '😀最高')).toHaveLength(1)
+
+    const [match] = matcher.findInflectedMatches('最高 級', '最高 級')
+    expect(match.range.start).toBe(0)
+    expect(match.range.end).toBe(4)
+  })
+})
@@ -0,0 +1,158 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { Job } from '@/core/ports'
+import { queueManager } from '@/lib/queue-manager'
+
+const { repositories, processCheck, publishDomainEvent } = vi.hoisted(() => ({
+  repositories: {
+    jobs: {
+      enqueueMany: vi.fn(),
+      claim: vi.fn(),
+      claimFair: vi.fn(),
+      heartbeat: vi.fn(),
+      complete: vi.fn(),
+      fail: vi.fn(),
+      reap: vi.fn()
+    },
+    checks: { update: vi.fn() },
+    systemSettings: { findByKey: vi.fn() }
+  },
+  processCheck: vi.fn(),
+  publishDomainEvent: vi.fn()
+}))
+
+vi.mock('@/infra/supabase/adminClient', () => ({ getSystemClient: () => ({}) }))
+vi.mock('@/infra/repositories', () => ({ createRepositories: () => repositories }))
+vi.mock('@/lib/check-processor', () => ({ processCheck }))
+vi.mock('@/lib/domain-events', () => ({ publishDomainEvent }))
+
+function createCheckJob(attempts: number, overrides: Partial<Job> = {}): Job {
+  return {
+    id: 7,
+    queue: 'check',
+    status: 'running',
+    priority: 1,
+    payload: { text: '必ず痩せる', inputType: 'text', imageUrl: null, productCategory: null, sourceUrl: null },
+    organization_id: 3,
+    check_id: 42,
+    group_id: null,
+    attempts,
+    max_attempts: 3,
+    run_at: new Date().toISOString(),
+    locked_by: 'worker',
+    locked_until: null,
+    heartbeat_at: null,
+    last_error: null,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    completed_at: null,
+    ...overrides
+  }
+}
+
+/**
+ * 1件のチェックジョブを処理させ、失敗の記録（fail_job）の引数を返す
+ */
+async function runFailingJob(job: Job): Promise<{ retryAt: Date | null; priority?: number; decidedAt: number }> {
+  let decidedAt = 0
+  repositories.jobs.claimFair.mockResolvedValueOnce([job]).mockResolvedValue([])
+  repositories.jobs.fail.mockImplementation(async () => true)
+  processCheck.mockImplementation(async () => {
+    decidedAt = Date.now()
+    throw new Error('LLM timeout')
+  })
+
+  queueManager.start()
+  await vi.waitFor(() => expect(repositories.jobs.fail).toHaveBeenCalled())
+  const [, , , retryAt, priority] = repositories.jobs.fail.mock.calls[0]
+  return { retryAt, priority, decidedAt }
+}
+
+describe('CheckQueueManager の再試行判定', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    repositories.jobs.reap.mockResolvedValue({
+      expiredRequeued: 0,
+      expiredFailed: 0,
+      orphanedRequeued: 0,
+      orphanedFailed: 0,
+      failedChecks: []
+    })
+    repositories.jobs.heartbeat.mockResolvedValue([])
+    repositories.checks.update.mockResolvedValue({})
+    repositories.systemSettings.findByKey.mockResolvedValue(null)
+  })
+
+  afterEach(async () => {
+    await queueManager.stop()
+  })
+
+  it('上限未満は指数バックオフで再試行し、チェックは失敗にしない', async () => {
+    const { retryAt, priority, decidedAt } = await runFailingJob(createCheckJob(1))
+
+    expect(retryAt).toBeInstanceOf(Date)
+    expect((retryAt as Date).getTime() - decidedAt).toBeGreaterThanOrEqual(2000)
+    expect((retryAt as Date).getTime() - decidedAt).toBeLessThan(2500)
+    expect(priority).toBe(1)
+    expect(processCheck).toHaveBeenCalledWith(42, '必ず痩せる', 3, 'text', undefined, null, undefined)
+    expect(repositories.checks.update).not.toHaveBeenCalled()
+    expect(publishDomainEvent).not.toHaveBeenCalled()
+  })
+
+  it('2回目の再試行以降は優先度を high に上げる', async () => {
+    const { retryAt, priority, decidedAt } = await runFailingJob(createCheckJob(2, { max_attempts: 4 }))
+
+    expect((retryAt as Date).getTime() - decidedAt).toBeGreaterThanOrEqual(4000)
+    expect(priority).toBe(0)
+    expect(publishDomainEvent).not.toHaveBeenCalled()
+  })
+
+  it('上限に達したらチェックを失敗にして CheckFailed を1回だけ発行する', async () => {
+    const { retryAt } = await runFailingJob(createCheckJob(3))
+
+    expect(retryAt).toBeNull()
+    expect(repositories.checks.update).toHaveBeenCalledWith(42, expect.objectContaining({
+      status: 'failed',
+      error_message: '処理に失敗しました (2回再試行済み): LLM timeout'
+    }))
+    await vi.waitFor(() => expect(publishDomainEvent).toHaveBeenCalledTimes(1))
+    expect(publishDomainEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'CheckFailed',
+      aggregateId: '42',
+      data: expect.objectContaining({
+        checkId: 42,
+        organizationId: 3,
+        errorMessage: '処理に失敗しました (2回再試行済み): LLM timeout'
+      })
+    }))
+  })
+})
+
+describe('CheckQueueManager.addManyToQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('全件を1回の投入にまとめる', async () => {
+    repositories.jobs.enqueueMany.mockResolvedValue([])
+    const notify = vi.spyOn((queueManager as unknown as { worker: { notify: () => void } }).worker, 'notify')
+      .mockImplementation(() => {})
+
+    await queueManager.addManyToQueue([
+      { checkId: 1, text: 'a', organizationId: 3 },
+      { checkId: 2, text: 'b', organizationId: 3, productCategory: 'cosmetics' }
+    ], 'low')
+
+    expect(repositories.jobs.enqueueMany).toHaveBeenCalledTimes(1)
+    expect(repositories.jobs.enqueueMany.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ queue: 'check', priority: 2, check_id: 1, organization_id: 3, max_attempts: 3 }),
+      expect.objectContaining({
+        check_id: 2,
+        payload: { text: 'b', inputType: 'text', imageUrl: null, productCategory: 'cosmetics', sourceUrl: null }
+      })
+    ])
+    expect(notify).toHaveBeenCalledTimes(1)
+    notify.mockRestore()
+  })
+})
@@ -0,0 +1,81 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { decideRateLimit, getClientIp, MemoryRateLimitStore } from '@/lib/rate-limit'
+
+describe('decideRateLimit', () => {
+  it('直前の時間枠の件数を残り割合で按分して加える', () => {
+    // 60秒枠の15秒経過時点: 直前の枠 40件 × 0.75 + 現在の枠 20件 = 50件
+    const decision = decideRateLimit({ currentCount: 20, previousCount: 40, elapsedSeconds: 15 }, 60, 60)
+
+    expect(decision).toEqual({ allowed: true, limit: 60, remaining: 10, resetSeconds: 45, windowSeconds: 60 })
+  })
+
+  it('推定件数が上限を超えたら拒否し、残りは 0 とする', () => {
+    const decision = decideRateLimit({ currentCount: 31, previousCount: 60, elapsedSeconds: 30 }, 60, 60)
+
+    expect(decision.allowed).toBe(false)
+    expect(decision.remaining).toBe(0)
+    expect(decision.resetSeconds).toBe(30)
+  })
+
+  it('上限ちょうどは許可する', () => {
+    expect(decideRateLimit({ currentCount: 60, previousCount: 0, elapsedSeconds: 10 }, 60, 60).allowed).toBe(true)
+    expect(decideRateLimit({ currentCount: 61, previousCount: 0, elapsedSeconds: 10 }, 60, 60).allowed).toBe(false)
+  })
+
+  it('時間枠の終わりでは直前の枠を数えず、リセットまでの秒数は 1 以上とする', () => {
+    const decision = decideRateLimit({ currentCount: 5, previousCount: 100, elapsedSeconds: 60 }, 10, 60)
+
+    expect(decision.allowed).toBe(true)
+    expect(decision.remaining).toBe(5)
+    expect(decision.resetSeconds).toBe(1)
+  })
+})
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('キーごとに現在の時間枠の件数を数え、次の時間枠では直前の件数として返す', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-10-18T00:00:10Z'))
+    const store = new MemoryRateLimitStore()
+
+    await store.hit('checks:user:a', 60)
+    const second = await store.hit('checks:user:a', 60)
+    const other = await store.hit('checks:user:b', 60)
+    expect(second).toEqual({ currentCount: 2, previousCount: 0, elapsedSeconds: 10 })
+    expect(other.currentCount).toBe(1)
+
+    vi.setSystemTime(new Date('2026-10-18T00:01:30Z'))
+    expect(await store.hit('checks:user:a', 60)).toEqual({ currentCount: 1, previousCount: 2, elapsedSeconds: 30 })
+
+    // 2つ以上前の時間枠は数えない
+    vi.setSystemTime(new Date('2026-10-18T00:03:05Z'))
+    expect(await store.hit('checks:user:a', 60)).toEqual({ currentCount: 1, previousCount: 0, elapsedSeconds: 5 })
+  })
+})
+
+describe('getClientIp', () => {
+  it('プラットフォームが設定する x-real-ip を優先する', () => {
+    const request = new Request('http://localhost/api/checks', {
+      headers: { 'x-real-ip': '203.0.113.7', 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }
+    })
+
+    expect(getClientIp(request)).toBe('203.0.113.7')
+  })
+
+  it('x-forwarded-for はクライアントが付けた先頭ではなく、プロキシが追加した末尾を使う', () => {
+    const request = new Request('http://localhost/api/checks', {
+      headers: { 'x-forwarded-for': '198.51.100.1, 192.0.2.44' }
+    })
+
+    expect(getClientIp(request)).toBe('192.0.2.44')
+  })
+
+  it('どちらもなければ null を返す', () => {
+    expect(getClientIp(new Request('http://localhost/api/checks'))).toBeNull()
+  })
+})
@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+
+import { chunkText, splitSentences } from '@/lib/text-chunker'
+
+describe('splitSentences', () => {
+  it('文末記号と直後の閉じ括弧・連続する改行を直前の文に含める', () => {
+    const text = '「すごい！」と評判。\n\n次の文'
+    const spans = splitSentences(text).map(span => text.slice(span.start, span.end))
+
+    expect(spans).toEqual(['「すごい！」', 'と評判。\n\n', '次の文'])
+  })
+})
+
+describe('chunkText', () => {
+  it('最大長以内のテキストは1チャンクで返し、空文字はチャンクなしとする', () => {
+    expect(chunkText('短い原稿です。', { maxLength: 100, overlap: 10 })).toEqual([
+      { index: 0, text: '短い原稿です。', start: 0, end: 7 }
+    ])
+    expect(chunkText('', { maxLength: 100, overlap: 10 })).toEqual([])
+  })
+
+  it('文境界で分割し、各チャンクは元テキスト上の位置を保持する', () => {
+    const text = 'あいうえお。かきくけこ。さしすせそ。たちつてと。'
+    const chunks = chunkText(text, { maxLength: 12, overlap: 0 })
+
+    expect(chunks.map(chunk => chunk.text)).toEqual(['あいうえお。かきくけこ。', 'さしすせそ。たちつてと。'])
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text)
+      expect(chunk.text.length).toBeLessThanOrEqual(12)
+    }
+  })
+
+  it('隣接チャンクを文単位で重ねる', () => {
+    const text = 'あいうえお。かきくけこ。さしすせそ。たちつてと。'
+    const chunks = chunkText(text, { maxLength: 12, overlap: 6 })
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([
+      'あいうえお。かきくけこ。',
+      'かきくけこ。さしすせそ。',
+      'さしすせそ。たちつてと。'
+    ])
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2])
+  })
+
+  it('最大長を超える文は固定長で分割し、サロゲートペアの途中では区切らない', () => {
+    const text = `${'あ'.repeat(9)}😀${'い'.repeat(10)}`
+    const chunks = chunkText(text, { maxLength: 10, overlap: 0 })
+
+    expect(chunks.map(chunk => chunk.text).join('')).toBe(text)
+    expect(chunks[0].text).toBe('あ'.repeat(9))
+    expect(chunks[1].text.startsWith('😀')).toBe(true)
+  })
+})
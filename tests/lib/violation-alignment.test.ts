@@ -0,0 +1,81 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest'
+
+import { alignSpan, codePointToUtf16Offset } from '@/lib/violation-alignment'
+
+describe('alignSpan', () => {
+  it('報告位置が引用フレーズと一致すればそのまま採用する', () => {
+    const text = 'このサプリでがんが治ります'
+    const aligned = alignSpan(text, { start: 6, end: 13, text: 'がんが治ります' })
+
+    expect(aligned).toEqual({
+      start: 6,
+      end: 13,
+      confidence: 1,
+      method: 'exact',
+      matchedText: 'がんが治ります'
+    })
+  })
+
+  it('コードポイント単位の報告位置をUTF-16オフセットに補正する', () => {
+    // 絵文字（サロゲートペア）の後ろではコードポイントとUTF-16の位置が1ずれる
+    const text = '😀今すぐ痩せる'
+    const aligned = alignSpan(text, { start: 4, end: 7, text: '痩せる' })
+
+    expect(aligned.method).toBe('code_point')
+    expect(aligned.start).toBe(5)
+    expect(aligned.end).toBe(8)
+    expect(text.slice(aligned.start, aligned.end)).toBe('痩せる')
+    expect(aligned.confidence).toBe(0.95)
+  })
+
+  it('ずれた報告位置は近傍の出現位置に再アンカリングする', () => {
+    const text = '飲むだけで必ず痩せる。毎日続ければ必ず痩せる。'
+    const aligned = alignSpan(text, { start: 16, end: 20, text: '必ず痩せる' })
+
+    expect(aligned.method).toBe('nearest_match')
+    expect(aligned.start).toBe(17)
+    expect(text.slice(aligned.start, aligned.end)).toBe('必ず痩せる')
+    expect(aligned.confidence).toBe(0.9)
+  })
+
+  it('遠い出現位置ほど信頼度を下げる（単一出現は0.7が下限）', () => {
+    const text = `${'あ'.repeat(200)}最高級`
+    const aligned = alignSpan(text, { start: 0, end: 3, text: '最高級' })
+
+    expect(aligned.method).toBe('nearest_match')
+    expect(aligned.start).toBe(200)
+    expect(aligned.confidence).toBeLessThan(0.9)
+    expect(aligned.confidence).toBeGreaterThanOrEqual(0.7)
+  })
+
+  it('引用フレーズがなく範囲が有効なら報告位置を低信頼度で採用する', () => {
+    const aligned = alignSpan('効果抜群の美容液', { start: 0, end: 4 })
+
+    expect(aligned).toEqual({ start: 0, end: 4, confidence: 0.5, method: 'unverified', matchedText: '効果抜群' })
+  })
+
+  it('位置を特定できない場合は 0-0・信頼度 0 とする', () => {
+    expect(alignSpan('効果抜群の美容液', { start: 2, end: 6, text: '存在しない表現' })).toEqual({
+      start: 0,
+      end: 0,
+      confidence: 0,
+      method: 'unanchored',
+      matchedText: null
+    })
+    expect(alignSpan('短い', { start: 5, end: 3, text: null }).method).toBe('unanchored')
+  })
+})
+
+describe('codePointToUtf16Offset', () => {
+  it('サロゲートペアを2単位として数える', () => {
+    expect(codePointToUtf16Offset('😀あ', 1)).toBe(2)
+    expect(codePointToUtf16Offset('😀あ', 2)).toBe(3)
+  })
+
+  it('範囲外・不正な値は null を返す', () => {
+    expect(codePointToUtf16Offset('あい', 3)).toBeNull()
+    expect(codePointToUtf16Offset('あい', -1)).toBeNull()
+    expect(codePointToUtf16Offset('あい', 0.5)).toBeNull()
+  })
+})
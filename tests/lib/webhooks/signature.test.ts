@@ -0,0 +1,58 @@
+// @vitest-environment node
+import { createHmac } from 'crypto'
+
+import { describe, expect, it } from 'vitest'
+
+import { generateWebhookSecret, signWebhookPayload, verifyWebhookSignature } from '@/lib/webhooks/signature'
+
+const secret = 'whsec_test'
+const body = JSON.stringify({ id: 'evt_1', type: 'check.completed', data: { checkId: 1 } })
+const timestamp = 1_790_000_000
+
+describe('signWebhookPayload', () => {
+  it('`<t>.<body>` の HMAC-SHA256 を `t=<UNIX秒>,v1=<hex>` 形式で返す', () => {
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+
+    expect(signWebhookPayload(secret, body, timestamp)).toBe(`t=${timestamp},v1=${expected}`)
+  })
+})
+
+describe('verifyWebhookSignature', () => {
+  it('正しい署名を受け入れる（空白を含むヘッダーも可）', () => {
+    const header = signWebhookPayload(secret, body, timestamp)
+
+    expect(verifyWebhookSignature(secret, body, header, 300, timestamp + 10)).toBe(true)
+    expect(verifyWebhookSignature(secret, body, header.replace(',', ', '), 300, timestamp)).toBe(true)
+  })
+
+  it('ボディ・シークレットが異なる署名を拒否する', () => {
+    const header = signWebhookPayload(secret, body, timestamp)
+
+    expect(verifyWebhookSignature(secret, `${body} `, header, 300, timestamp)).toBe(false)
+    expect(verifyWebhookSignature('whsec_other', body, header, 300, timestamp)).toBe(false)
+  })
+
+  it('許容範囲を超えて古い・新しい署名を拒否する（リプレイ対策）', () => {
+    const header = signWebhookPayload(secret, body, timestamp)
+
+    expect(verifyWebhookSignature(secret, body, header, 300, timestamp + 300)).toBe(true)
+    expect(verifyWebhookSignature(secret, body, header, 300, timestamp + 301)).toBe(false)
+    expect(verifyWebhookSignature(secret, body, header, 300, timestamp - 301)).toBe(false)
+  })
+
+  it('形式が不正なヘッダーを拒否する', () => {
+    expect(verifyWebhookSignature(secret, body, '', 300, timestamp)).toBe(false)
+    expect(verifyWebhookSignature(secret, body, `t=${timestamp}`, 300, timestamp)).toBe(false)
+    expect(verifyWebhookSignature(secret, body, 'v1=abcdef', 300, timestamp)).toBe(false)
+    expect(verifyWebhookSignature(secret, body, `t=${timestamp},v1=abcd`, 300, timestamp)).toBe(false)
+  })
+})
+
+describe('generateWebhookSecret', () => {
+  it('whsec_ で始まる推測困難なシークレットを生成する', () => {
+    const generated = generateWebhookSecret()
+
+    expect(generated).toMatch(/^whsec_[0-9a-f]{64}$/)
+    expect(generateWebhookSecret()).not.toBe(generated)
+  })
+})
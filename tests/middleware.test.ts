@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { middleware } from '../middleware'
+
+const { supabase, tables } = vi.hoisted(() => {
+  const tables: Record<string, unknown> = {}
+  const supabase = {
+    auth: { getUser: vi.fn() },
+    from: vi.fn((table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => ({ data: tables[table] ?? null })
+      }
+      return query
+    })
+  }
+  return { supabase, tables }
+})
+
+vi.mock('@supabase/ssr', () => ({ createServerClient: () => supabase }))
+vi.mock('@/lib/maintenance', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/maintenance')>(),
+  getMaintenanceState: async () => ({ enabled: true, message: 'メンテナンス中です' })
+}))
+
+describe('middleware のメンテナンスモード', () => {
+  beforeEach(() => {
+    for (const table of Object.keys(tables)) delete tables[table]
+    supabase.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-1' } } })
+    tables.users = { role: 'admin', organization_id: 2 }
+  })
+
+  it('組織の admin でもプラットフォーム管理者でなければ 503 にする', async () => {
+    const response = await middleware(new NextRequest('http://localhost/api/checks'))
+
+    expect(response.status).toBe(503)
+    expect(response.headers.get('Retry-After')).not.toBeNull()
+    expect(await response.json()).toEqual({ error: { code: 'MAINTENANCE', message: 'メンテナンス中です' } })
+  })
+
+  it('プラットフォーム管理者は通す', async () => {
+    tables.platform_admins = { user_id: 'user-1' }
+
+    const response = await middleware(new NextRequest('http://localhost/api/checks'))
+
+    expect(response.status).toBe(200)
+    expect(supabase.from).toHaveBeenCalledWith('platform_admins')
+  })
+})